@@ -0,0 +1,84 @@
+// scripts/jobWorker.ts
+
+import { loadEnvConfig } from '@next/env'
+import os from 'os'
+
+/**
+ * Background job worker. Polls the Job collection and runs due jobs
+ * (delivery, delivery emails, admin and Discord notifications) with the
+ * same handlers the app uses. Each poll also retries PayPal webhook events
+ * whose backoff has elapsed, so retries and dead-lettering happen even when
+ * no new webhook arrives.
+ *
+ * Usage:
+ *   npm run jobs:worker [-- --once] [-- --interval 5000] [-- --batch 20]
+ *
+ * Loads .env* files like `next dev` / `next start`. Several workers may run
+ * side by side: jobs are claimed atomically.
+ */
+
+function parseArgs() {
+  const args = process.argv.slice(2)
+  const getNumber = (name: string, fallback: number) => {
+    const index = args.indexOf(name)
+    const value = index !== -1 ? parseInt(args[index + 1]) : NaN
+    return Number.isFinite(value) && value > 0 ? value : fallback
+  }
+
+  return {
+    once: args.includes('--once'),
+    interval: getNumber('--interval', parseInt(process.env.JOB_WORKER_INTERVAL_MS || '') || 5000),
+    batch: getNumber('--batch', 20),
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function main() {
+  loadEnvConfig(process.cwd())
+
+  // Imported after the environment is loaded (the DB connection reads MONGODB_URI on import)
+  const { JobQueueService } = await import('../src/lib/services/jobQueueService')
+  const { WebhookEventService } = await import('../src/lib/services/webhookEventService')
+  const mongoose = (await import('mongoose')).default
+
+  const { once, interval, batch } = parseArgs()
+  const workerId = `worker:${os.hostname()}:${process.pid}`
+  let stopping = false
+
+  const stop = () => {
+    if (!stopping) console.log('🛑 Stopping job worker after the current batch...')
+    stopping = true
+  }
+  process.on('SIGINT', stop)
+  process.on('SIGTERM', stop)
+
+  console.log(`👷 Job worker ${workerId} started (interval ${interval}ms, batch ${batch})`)
+
+  while (!stopping) {
+    try {
+      const { completed, failed } = await JobQueueService.processDueJobs(batch, workerId)
+      const webhooks = await WebhookEventService.processDueEvents(batch)
+
+      if (once) break
+
+      // Keep draining while there is work, otherwise wait for the next poll
+      if (completed + failed < batch && webhooks.processed + webhooks.failed < batch) await sleep(interval)
+    } catch (error) {
+      console.error('❌ Job worker error:', error)
+      if (once) {
+        process.exitCode = 1
+        break
+      }
+      await sleep(interval)
+    }
+  }
+
+  await mongoose.disconnect()
+  console.log('👋 Job worker stopped')
+}
+
+main().catch(error => {
+  console.error('❌ Job worker crashed:', error)
+  process.exit(1)
+})
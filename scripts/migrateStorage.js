@@ -0,0 +1,195 @@
+// scripts/migrateStorage.js
+
+const fs = require('fs/promises')
+const path = require('path')
+const { MongoClient } = require('mongodb')
+const {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} = require('@aws-sdk/client-s3')
+
+/**
+ * This script copies existing design/order files from their current storage
+ * backend into another one and updates `storageDriver` on each DesignFile.
+ *
+ * Usage:
+ *   node scripts/migrateStorage.js --to s3 [--from local] [--delete-source] [--dry-run]
+ *
+ * Documents without a `storageDriver` are treated as 'local' (files under public/).
+ * Uses the same environment variables as src/lib/storage (STORAGE_PRIVATE_DIR, S3_*).
+ */
+
+const DRIVERS = ['local', 'private', 's3']
+
+function parseArgs() {
+  const args = process.argv.slice(2)
+  const getValue = (name) => {
+    const index = args.indexOf(name)
+    return index !== -1 ? args[index + 1] : undefined
+  }
+
+  return {
+    to: getValue('--to'),
+    from: getValue('--from'),
+    deleteSource: args.includes('--delete-source'),
+    dryRun: args.includes('--dry-run'),
+  }
+}
+
+function toKey(fileUrl) {
+  let pathname = fileUrl
+  if (/^https?:\/\//i.test(fileUrl)) {
+    pathname = decodeURIComponent(new URL(fileUrl).pathname)
+  }
+  return pathname.replace(/^\/+/, '')
+}
+
+function createLocalBackend(root) {
+  const resolve = (key) => {
+    const fullPath = path.resolve(root, key)
+    if (!fullPath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return fullPath
+  }
+
+  return {
+    read: (key) => fs.readFile(resolve(key)),
+    write: async (key, data) => {
+      await fs.mkdir(path.dirname(resolve(key)), { recursive: true })
+      await fs.writeFile(resolve(key), data)
+    },
+    remove: (key) => fs.unlink(resolve(key)),
+  }
+}
+
+function createS3Backend() {
+  const bucket = process.env.S3_BUCKET
+  if (!bucket) {
+    console.error('S3_BUCKET environment variable is not set.')
+    process.exit(1)
+  }
+
+  const keyPrefix = process.env.S3_KEY_PREFIX
+    ? process.env.S3_KEY_PREFIX.replace(/^\/+|\/+$/g, '') + '/'
+    : ''
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'auto',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+      : undefined,
+  })
+
+  return {
+    read: async (key) => {
+      const result = await client.send(new GetObjectCommand({ Bucket: bucket, Key: keyPrefix + key }))
+      return Buffer.from(await result.Body.transformToByteArray())
+    },
+    write: (key, data, contentType) =>
+      client.send(new PutObjectCommand({ Bucket: bucket, Key: keyPrefix + key, Body: data, ContentType: contentType })),
+    remove: (key) => client.send(new DeleteObjectCommand({ Bucket: bucket, Key: keyPrefix + key })),
+  }
+}
+
+function createBackend(driver) {
+  switch (driver) {
+    case 'private':
+      return createLocalBackend(process.env.STORAGE_PRIVATE_DIR || path.join(process.cwd(), 'storage'))
+    case 's3':
+      return createS3Backend()
+    default:
+      return createLocalBackend(path.join(process.cwd(), 'public'))
+  }
+}
+
+async function migrateStorage() {
+  const mongoUri = process.env.MONGO_URI || 'mongodb://localhost:27017/prestige-designs';
+  const { to, from, deleteSource, dryRun } = parseArgs()
+
+  if (!DRIVERS.includes(to) || (from && !DRIVERS.includes(from))) {
+    console.error(`Usage: node scripts/migrateStorage.js --to <${DRIVERS.join('|')}> [--from <driver>] [--delete-source] [--dry-run]`);
+    process.exit(1);
+  }
+
+  console.log('Connecting to the database...');
+  const client = new MongoClient(mongoUri);
+
+  try {
+    await client.connect();
+    console.log('✅ Database connected.');
+
+    const db = client.db();
+    const designFilesCollection = db.collection('designfiles');
+
+    // Files without a storageDriver were written before backends were pluggable (public/)
+    let filter;
+    if (from === 'local') {
+      filter = { $or: [{ storageDriver: { $exists: false } }, { storageDriver: 'local' }] };
+    } else if (from) {
+      filter = { storageDriver: from };
+    } else {
+      filter = to === 'local'
+        ? { storageDriver: { $exists: true, $ne: 'local' } }
+        : { storageDriver: { $ne: to } };
+    }
+    const files = from === to ? [] : await designFilesCollection.find(filter).toArray();
+
+    console.log(`Found ${files.length} file(s) to migrate to '${to}'${dryRun ? ' (dry run)' : ''}.`);
+
+    const target = createBackend(to)
+    const backends = {}
+    let migrated = 0
+    let failed = 0
+
+    for (const file of files) {
+      const sourceDriver = file.storageDriver || 'local'
+      const key = toKey(file.fileUrl)
+
+      try {
+        if (dryRun) {
+          console.log(`- [${sourceDriver} → ${to}] ${key}`);
+          continue;
+        }
+
+        backends[sourceDriver] = backends[sourceDriver] || createBackend(sourceDriver)
+        const data = await backends[sourceDriver].read(key)
+        await target.write(key, data, file.mimeType)
+
+        await designFilesCollection.updateOne(
+          { _id: file._id },
+          { $set: { storageDriver: to, fileUrl: `/${key}` } }
+        );
+
+        if (deleteSource) {
+          await backends[sourceDriver].remove(key).catch((error) => {
+            console.warn(`⚠️ Could not delete source ${key}:`, error.message);
+          });
+        }
+
+        migrated++
+        console.log(`✅ ${key}`);
+      } catch (error) {
+        failed++
+        console.error(`❌ Failed to migrate ${key}:`, error.message);
+      }
+    }
+
+    console.log('Migration completed.');
+    console.log(`- Files migrated: ${migrated}`);
+    console.log(`- Files failed: ${failed}`);
+
+  } catch (error) {
+    console.error('❌ An error occurred during the migration:', error);
+  } finally {
+    // Ensure the database connection is closed
+    await client.close();
+    console.log('📦 Database connection closed.');
+  }
+}
+
+// Run the script
+migrateStorage();
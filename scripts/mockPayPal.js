@@ -0,0 +1,263 @@
+// scripts/mockPayPal.js
+
+const crypto = require('crypto')
+const fs = require('fs')
+const http = require('http')
+const path = require('path')
+const { execFileSync } = require('child_process')
+
+/**
+ * Local mock of the PayPal pieces the webhook flow depends on, so signed
+ * webhooks can be tested offline.
+ *
+ * Usage:
+ *   node scripts/mockPayPal.js server
+ *     Serves the signing certificate, /v1/oauth2/token and
+ *     /v1/notifications/verify-webhook-signature on PAYPAL_MOCK_PORT (default 4010).
+ *
+ *   node scripts/mockPayPal.js send <EVENT_TYPE> --order <paypalOrderId> [options]
+ *     Signs a webhook event like PayPal does and posts it to the app.
+ *     --capture <id>   capture id (default: random); refunds and disputes reference it
+ *     --amount <value> amount in USD (default: 10.00)
+ *     --url <url>      webhook URL (default: $NEXTAUTH_URL/api/paypal/webhook)
+ *     --stale          send a transmission time outside the replay window
+ *     --tamper         change the body after signing
+ *     --replay         send the same transmission twice
+ *     --outcome <code> dispute outcome for CUSTOMER.DISPUTE.RESOLVED (default: RESOLVED_SELLER_FAVOUR)
+ *
+ * Run the app with:
+ *   PAYPAL_API_BASE_URL=http://localhost:4010
+ *   PAYPAL_WEBHOOK_ID=WH-MOCK-LOCAL   (or the same value as this script's env)
+ */
+
+const MOCK_PORT = parseInt(process.env.PAYPAL_MOCK_PORT || '4010')
+const MOCK_BASE_URL = `http://localhost:${MOCK_PORT}`
+const CERT_PATH = '/v1/notifications/certs/CERT-MOCK-LOCAL'
+const WEBHOOK_ID = process.env.PAYPAL_WEBHOOK_ID || 'WH-MOCK-LOCAL'
+const KEY_DIR = path.join(process.cwd(), '.paypal-mock')
+
+/**
+ * Create (once) a self-signed certificate issued to a paypal.com subject
+ */
+function ensureKeyPair() {
+  const keyFile = path.join(KEY_DIR, 'key.pem')
+  const certFile = path.join(KEY_DIR, 'cert.pem')
+
+  if (!fs.existsSync(keyFile) || !fs.existsSync(certFile)) {
+    fs.mkdirSync(KEY_DIR, { recursive: true })
+    console.log('🔑 Generating mock PayPal signing certificate...');
+    execFileSync('openssl', [
+      'req', '-x509', '-newkey', 'rsa:2048', '-nodes',
+      '-keyout', keyFile, '-out', certFile,
+      '-days', '365', '-subj', '/CN=messageverificationcerts.paypal.com'
+    ], { stdio: 'ignore' })
+  }
+
+  return {
+    privateKey: fs.readFileSync(keyFile, 'utf8'),
+    certificate: fs.readFileSync(certFile, 'utf8'),
+  }
+}
+
+function crc32(data) {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc ^= byte
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function signedMessage(transmissionId, transmissionTime, webhookId, body) {
+  return `${transmissionId}|${transmissionTime}|${webhookId}|${crc32(Buffer.from(body, 'utf8'))}`
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', (chunk) => { data += chunk })
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {})
+      } catch (error) {
+        reject(error)
+      }
+    })
+  })
+}
+
+function startServer() {
+  const { certificate } = ensureKeyPair()
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(body))
+    }
+
+    try {
+      if (req.method === 'GET' && req.url === CERT_PATH) {
+        res.writeHead(200, { 'Content-Type': 'application/x-pem-file' })
+        return res.end(certificate)
+      }
+
+      if (req.method === 'POST' && req.url === '/v1/oauth2/token') {
+        return send(200, { access_token: 'MOCK-ACCESS-TOKEN', token_type: 'Bearer', expires_in: 32400 })
+      }
+
+      if (req.method === 'POST' && req.url === '/v1/notifications/verify-webhook-signature') {
+        const body = await readJson(req)
+        const message = signedMessage(
+          body.transmission_id,
+          body.transmission_time,
+          body.webhook_id,
+          JSON.stringify(body.webhook_event)
+        )
+        const isValid = crypto.verify(
+          'sha256',
+          Buffer.from(message, 'utf8'),
+          crypto.createPublicKey(certificate),
+          Buffer.from(body.transmission_sig || '', 'base64')
+        )
+        console.log(`🔍 verify-webhook-signature ${body.transmission_id}: ${isValid ? 'SUCCESS' : 'FAILURE'}`);
+        return send(200, { verification_status: isValid ? 'SUCCESS' : 'FAILURE' })
+      }
+
+      send(404, { name: 'RESOURCE_NOT_FOUND', message: `${req.method} ${req.url} is not mocked` })
+    } catch (error) {
+      send(400, { name: 'INVALID_REQUEST', message: error.message })
+    }
+  })
+
+  server.listen(MOCK_PORT, () => {
+    console.log(`✅ Mock PayPal listening on ${MOCK_BASE_URL}`);
+    console.log(`   Webhook ID: ${WEBHOOK_ID}`);
+  })
+}
+
+function mockId(prefix) {
+  return `${prefix}-${crypto.randomBytes(6).toString('hex').toUpperCase()}`
+}
+
+function buildEvent(eventType, options) {
+  const amount = { currency_code: 'USD', value: options.amount || '10.00' }
+  const captureId = options.capture || mockId('MOCK')
+  let resourceType = 'capture'
+  let resource
+
+  if (eventType.startsWith('CHECKOUT.ORDER.')) {
+    resourceType = 'checkout-order'
+    resource = { id: options.order, status: eventType.split('.').pop(), purchase_units: [{ amount }] }
+  } else if (eventType === 'PAYMENT.CAPTURE.REFUNDED') {
+    resourceType = 'refund'
+    resource = {
+      id: mockId('REFUND'),
+      status: 'COMPLETED',
+      amount,
+      seller_payable_breakdown: { total_refunded_amount: amount },
+      links: [{ rel: 'up', href: `${MOCK_BASE_URL}/v2/payments/captures/${captureId}`, method: 'GET' }],
+    }
+  } else if (eventType.startsWith('CUSTOMER.DISPUTE.')) {
+    resourceType = 'dispute'
+    resource = {
+      dispute_id: mockId('PP-D'),
+      reason: 'MERCHANDISE_OR_SERVICE_NOT_RECEIVED',
+      status: eventType.endsWith('RESOLVED') ? 'RESOLVED' : 'OPEN',
+      dispute_amount: amount,
+      disputed_transactions: [{ seller_transaction_id: captureId }],
+      dispute_outcome: eventType.endsWith('RESOLVED')
+        ? { outcome_code: options.outcome || 'RESOLVED_SELLER_FAVOUR' }
+        : undefined,
+    }
+  } else {
+    resource = {
+      id: captureId,
+      status: eventType.split('.').pop(),
+      amount,
+      supplementary_data: { related_ids: { order_id: options.order } },
+    }
+  }
+
+  return {
+    id: `WH-${crypto.randomUUID()}`,
+    event_version: '1.0',
+    create_time: new Date().toISOString(),
+    resource_type: resourceType,
+    event_type: eventType,
+    summary: `Mock ${eventType}`,
+    resource,
+  }
+}
+
+async function sendEvent(eventType, options) {
+  if (!eventType || !options.order) {
+    console.error('Usage: node scripts/mockPayPal.js send <EVENT_TYPE> --order <paypalOrderId> [--capture <id>] [--amount <value>] [--stale] [--tamper] [--replay]');
+    process.exit(1);
+  }
+
+  const { privateKey } = ensureKeyPair()
+  const url = options.url || `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/paypal/webhook`
+  const event = buildEvent(eventType, options)
+  const body = JSON.stringify(event)
+
+  const transmissionId = crypto.randomUUID()
+  const sentAt = options.stale ? new Date(Date.now() - 60 * 60 * 1000) : new Date()
+  const transmissionTime = sentAt.toISOString()
+  const signature = crypto
+    .sign('sha256', Buffer.from(signedMessage(transmissionId, transmissionTime, WEBHOOK_ID, body), 'utf8'), privateKey)
+    .toString('base64')
+
+  const deliveredBody = options.tamper ? body.replace(options.amount || '10.00', '0.01') : body
+  const attempts = options.replay ? 2 : 1
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'PAYPAL-TRANSMISSION-ID': transmissionId,
+        'PAYPAL-TRANSMISSION-TIME': transmissionTime,
+        'PAYPAL-TRANSMISSION-SIG': signature,
+        'PAYPAL-CERT-URL': `${MOCK_BASE_URL}${CERT_PATH}`,
+        'PAYPAL-AUTH-ALGO': 'SHA256withRSA',
+      },
+      body: deliveredBody,
+    })
+
+    console.log(`📤 ${eventType} (${event.id}) attempt ${attempt} → ${response.status}`);
+    console.log(await response.text());
+  }
+}
+
+function parseOptions(args) {
+  const options = {}
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (!arg.startsWith('--')) continue
+    const name = arg.slice(2)
+    const next = args[i + 1]
+    if (next && !next.startsWith('--')) {
+      options[name] = next
+      i++
+    } else {
+      options[name] = true
+    }
+  }
+  return options
+}
+
+// Run the script
+const [command, ...rest] = process.argv.slice(2)
+if (command === 'server') {
+  startServer();
+} else if (command === 'send') {
+  sendEvent(rest[0], parseOptions(rest.slice(1))).catch((error) => {
+    console.error('❌ Failed to send mock webhook:', error.message);
+    process.exit(1);
+  });
+} else {
+  console.error('Usage: node scripts/mockPayPal.js <server|send> ...');
+  process.exit(1);
+}
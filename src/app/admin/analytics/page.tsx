@@ -0,0 +1,506 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faArrowUp, faArrowDown, faSync } from '@fortawesome/free-solid-svg-icons'
+import './analytics.css'
+
+type GroupBy = 'day' | 'week' | 'month'
+type ChartMetric = 'revenue' | 'orders' | 'averageOrderValue'
+
+interface Summary {
+  grossRevenue: number
+  refundedAmount: number
+  netRevenue: number
+  totalOrders: number
+  paidOrders: number
+  freeOrders: number
+  averageOrderValue: number
+  refundedOrders: number
+  refundRate: number
+  promoOrders: number
+  promoDiscount: number
+  promoRevenue: number
+  customWorkOrders: number
+  customWorkRevenue: number
+  autoDeliveryOrders: number
+  autoDeliveryRevenue: number
+}
+
+interface Point {
+  period: string
+  revenue: number
+  orders: number
+  averageOrderValue: number
+}
+
+interface Report {
+  range: { from: string; to: string; groupBy: GroupBy }
+  previousRange: { from: string; to: string } | null
+  summary: Summary
+  previousSummary: Summary | null
+  changes: Partial<Record<keyof Summary, number | null>>
+  timeseries: Point[]
+  previousTimeseries: Point[] | null
+  topProducts: { productId: string; name: string; slug?: string; quantity: number; revenue: number }[]
+  topCategories: { categoryId: string | null; name: string; quantity: number; revenue: number }[]
+  promoCodes: { code: string; orders: number; discount: number; revenue: number }[]
+}
+
+const PRESETS = [
+  { days: 7, label: '7 أيام' },
+  { days: 30, label: '30 يوم' },
+  { days: 90, label: '90 يوم' },
+  { days: 365, label: 'سنة' },
+]
+
+const GROUP_BY_LABELS: Record<GroupBy, string> = {
+  day: 'يومي',
+  week: 'أسبوعي',
+  month: 'شهري',
+}
+
+const METRIC_LABELS: Record<ChartMetric, string> = {
+  revenue: 'الإيرادات',
+  orders: 'عدد الطلبات',
+  averageOrderValue: 'متوسط قيمة الطلب',
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10)
+
+const daysAgo = (days: number) => {
+  const date = new Date()
+  date.setUTCDate(date.getUTCDate() - days)
+  return date
+}
+
+const formatCurrency = (amount: number) => `$${(amount || 0).toFixed(2)}`
+
+const formatPeriod = (iso: string, groupBy: GroupBy) => {
+  const date = new Date(iso)
+  if (groupBy === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function ChangeBadge({ value, invert = false }: { value?: number | null; invert?: boolean }) {
+  if (value === undefined || value === null) {
+    return <span className="analytics-change neutral">—</span>
+  }
+
+  // For metrics such as refunds, going up is bad
+  const isGood = invert ? value <= 0 : value >= 0
+
+  return (
+    <span className={`analytics-change ${isGood ? 'up' : 'down'}`}>
+      <FontAwesomeIcon icon={value >= 0 ? faArrowUp : faArrowDown} />
+      {Math.abs(value).toFixed(1)}%
+    </span>
+  )
+}
+
+function ShareBar({ label, parts }: { label: string; parts: { label: string; value: number; className: string }[] }) {
+  const total = parts.reduce((sum, part) => sum + part.value, 0)
+
+  return (
+    <div className="analytics-share">
+      <div className="analytics-share-title">{label}</div>
+      <div className="analytics-share-bar">
+        {parts.map((part) => (
+          <div
+            key={part.label}
+            className={`analytics-share-segment ${part.className}`}
+            style={{ width: total > 0 ? `${(part.value / total) * 100}%` : '0%' }}
+          />
+        ))}
+      </div>
+      <div className="analytics-share-legend">
+        {parts.map((part) => (
+          <span key={part.label}>
+            <i className={`analytics-legend-dot ${part.className}`} />
+            {part.label}: {part.value} ({total > 0 ? ((part.value / total) * 100).toFixed(1) : '0.0'}%)
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function TimeseriesChart({
+  points,
+  previousPoints,
+  metric,
+  groupBy,
+}: {
+  points: Point[]
+  previousPoints: Point[] | null
+  metric: ChartMetric
+  groupBy: GroupBy
+}) {
+  const width = 900
+  const height = 280
+  const padding = { top: 20, right: 16, bottom: 36, left: 56 }
+  const chartWidth = width - padding.left - padding.right
+  const chartHeight = height - padding.top - padding.bottom
+
+  const values = points.map((point) => point[metric])
+  const previousValues = previousPoints?.map((point) => point[metric]) || []
+  const maxValue = Math.max(1, ...values, ...previousValues)
+
+  const slot = chartWidth / Math.max(points.length, 1)
+  const barWidth = Math.max(2, slot * 0.6)
+  const y = (value: number) => padding.top + chartHeight - (value / maxValue) * chartHeight
+  const formatValue = (value: number) => (metric === 'orders' ? String(Math.round(value)) : formatCurrency(value))
+
+  // Only label a handful of buckets so long ranges stay readable
+  const labelEvery = Math.ceil(points.length / 10)
+
+  const previousLine = previousValues
+    .slice(0, points.length)
+    .map((value, index) => `${padding.left + slot * index + slot / 2},${y(value)}`)
+    .join(' ')
+
+  return (
+    <svg className="analytics-chart" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" role="img">
+      {[0, 0.25, 0.5, 0.75, 1].map((ratio) => (
+        <g key={ratio}>
+          <line
+            className="analytics-chart-grid"
+            x1={padding.left}
+            x2={width - padding.right}
+            y1={y(maxValue * ratio)}
+            y2={y(maxValue * ratio)}
+          />
+          <text className="analytics-chart-axis" x={padding.left - 8} y={y(maxValue * ratio) + 4} textAnchor="end">
+            {formatValue(maxValue * ratio)}
+          </text>
+        </g>
+      ))}
+
+      {points.map((point, index) => (
+        <g key={point.period}>
+          <rect
+            className="analytics-chart-bar"
+            x={padding.left + slot * index + (slot - barWidth) / 2}
+            y={y(point[metric])}
+            width={barWidth}
+            height={padding.top + chartHeight - y(point[metric])}
+          >
+            <title>
+              {formatPeriod(point.period, groupBy)}: {formatValue(point[metric])}
+            </title>
+          </rect>
+          {index % labelEvery === 0 && (
+            <text className="analytics-chart-axis" x={padding.left + slot * index + slot / 2} y={height - 12} textAnchor="middle">
+              {formatPeriod(point.period, groupBy)}
+            </text>
+          )}
+        </g>
+      ))}
+
+      {previousLine && <polyline className="analytics-chart-previous" points={previousLine} />}
+    </svg>
+  )
+}
+
+export default function AdminAnalytics() {
+  const [report, setReport] = useState<Report | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const [fromDate, setFromDate] = useState(toDateInput(daysAgo(29)))
+  const [toDate, setToDate] = useState(toDateInput(new Date()))
+  const [groupBy, setGroupBy] = useState<GroupBy>('day')
+  const [compare, setCompare] = useState(true)
+  const [metric, setMetric] = useState<ChartMetric>('revenue')
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError('')
+
+      const searchParams = new URLSearchParams({
+        from: fromDate,
+        to: toDate,
+        groupBy,
+        compare: String(compare),
+      })
+
+      const response = await fetch(`/api/admin/analytics?${searchParams}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to load analytics')
+      }
+
+      setReport(result.data)
+    } catch (err) {
+      setError('فشل في تحميل التحليلات. تأكد من صحة الفترة المحددة (حتى سنتين).')
+      console.error('Error fetching analytics:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [fromDate, toDate, groupBy, compare])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  const applyPreset = (days: number) => {
+    setFromDate(toDateInput(daysAgo(days - 1)))
+    setToDate(toDateInput(new Date()))
+    setGroupBy(days > 120 ? 'month' : days > 31 ? 'week' : 'day')
+  }
+
+  const summary = report?.summary
+  const changes = report?.changes || {}
+
+  const kpis: { key: keyof Summary; label: string; format: (value: number) => string; invert?: boolean }[] = [
+    { key: 'grossRevenue', label: 'إجمالي الإيرادات', format: formatCurrency },
+    { key: 'netRevenue', label: 'صافي الإيرادات', format: formatCurrency },
+    { key: 'totalOrders', label: 'عدد الطلبات', format: String },
+    { key: 'averageOrderValue', label: 'متوسط قيمة الطلب', format: formatCurrency },
+    { key: 'refundedAmount', label: 'المبالغ المستردة', format: formatCurrency, invert: true },
+    { key: 'refundRate', label: 'نسبة الاسترداد', format: (value) => `${value.toFixed(1)}%`, invert: true },
+    { key: 'promoDiscount', label: 'خصومات الكوبونات', format: formatCurrency, invert: true },
+    { key: 'promoOrders', label: 'طلبات بكوبون', format: String },
+  ]
+
+  return (
+    <div className="admin-analytics">
+      <div className="analytics-header">
+        <div>
+          <h1>التحليلات</h1>
+          <p>الإيرادات والطلبات وأداء المنتجات والكوبونات خلال الفترة المحددة</p>
+        </div>
+        <button onClick={fetchReport} disabled={loading} className="analytics-refresh-btn">
+          <FontAwesomeIcon icon={faSync} spin={loading} />
+          تحديث
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="analytics-filters">
+        <div className="analytics-presets">
+          {PRESETS.map((preset) => (
+            <button key={preset.days} onClick={() => applyPreset(preset.days)} className="analytics-preset-btn">
+              {preset.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="analytics-filter">
+          من
+          <input type="date" value={fromDate} max={toDate} onChange={(e) => setFromDate(e.target.value)} />
+        </label>
+
+        <label className="analytics-filter">
+          إلى
+          <input type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} />
+        </label>
+
+        <label className="analytics-filter">
+          التجميع
+          <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)}>
+            {(Object.keys(GROUP_BY_LABELS) as GroupBy[]).map((value) => (
+              <option key={value} value={value}>
+                {GROUP_BY_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="analytics-filter analytics-compare">
+          <input type="checkbox" checked={compare} onChange={(e) => setCompare(e.target.checked)} />
+          مقارنة بالفترة السابقة
+        </label>
+      </div>
+
+      {error && <div className="analytics-error-message">{error}</div>}
+
+      {!report && loading ? (
+        <div className="analytics-loading">جاري التحميل...</div>
+      ) : (
+        summary && (
+          <>
+            {report?.previousRange && (
+              <p className="analytics-muted analytics-compare-note">
+                مقارنة بالفترة من {toDateInput(new Date(report.previousRange.from))} إلى{' '}
+                {toDateInput(new Date(report.previousRange.to))}
+              </p>
+            )}
+
+            {/* KPI cards */}
+            <div className="analytics-kpis">
+              {kpis.map((kpi) => (
+                <div key={kpi.key} className="analytics-kpi">
+                  <span className="analytics-kpi-label">{kpi.label}</span>
+                  <strong className="analytics-kpi-value">{kpi.format(summary[kpi.key])}</strong>
+                  {report?.previousSummary && (
+                    <div className="analytics-kpi-previous">
+                      <ChangeBadge value={changes[kpi.key]} invert={kpi.invert} />
+                      <span className="analytics-muted">سابقاً {kpi.format(report.previousSummary[kpi.key])}</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Timeseries */}
+            <div className="analytics-card">
+              <div className="analytics-card-header">
+                <h3>{METRIC_LABELS[metric]}</h3>
+                <div className="analytics-metric-tabs">
+                  {(Object.keys(METRIC_LABELS) as ChartMetric[]).map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => setMetric(value)}
+                      className={`analytics-metric-tab ${metric === value ? 'active' : ''}`}
+                    >
+                      {METRIC_LABELS[value]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <TimeseriesChart
+                points={report.timeseries}
+                previousPoints={report.previousTimeseries}
+                metric={metric}
+                groupBy={report.range.groupBy}
+              />
+              {report.previousTimeseries && (
+                <div className="analytics-share-legend">
+                  <span>
+                    <i className="analytics-legend-dot current" />
+                    الفترة الحالية
+                  </span>
+                  <span>
+                    <i className="analytics-legend-dot previous" />
+                    الفترة السابقة
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {/* Order mix */}
+            <div className="analytics-card analytics-mix">
+              <ShareBar
+                label="الطلبات المدفوعة مقابل المجانية"
+                parts={[
+                  { label: 'مدفوعة', value: summary.paidOrders, className: 'paid' },
+                  { label: 'مجانية', value: summary.freeOrders, className: 'free' },
+                ]}
+              />
+              <ShareBar
+                label="العمل المخصص مقابل التسليم التلقائي"
+                parts={[
+                  { label: 'عمل مخصص', value: summary.customWorkOrders, className: 'custom' },
+                  { label: 'تسليم تلقائي', value: summary.autoDeliveryOrders, className: 'auto' },
+                ]}
+              />
+              <div className="analytics-mix-revenue">
+                <span>
+                  إيرادات العمل المخصص: <strong>{formatCurrency(summary.customWorkRevenue)}</strong>
+                </span>
+                <span>
+                  إيرادات التسليم التلقائي: <strong>{formatCurrency(summary.autoDeliveryRevenue)}</strong>
+                </span>
+                <span>
+                  الطلبات المستردة: <strong>{summary.refundedOrders}</strong> من {summary.paidOrders}
+                </span>
+              </div>
+            </div>
+
+            <div className="analytics-tables">
+              {/* Top products */}
+              <div className="analytics-card">
+                <h3>أفضل المنتجات حسب الإيرادات</h3>
+                {report.topProducts.length === 0 ? (
+                  <p className="analytics-muted">لا توجد مبيعات في هذه الفترة</p>
+                ) : (
+                  <table className="analytics-table">
+                    <thead>
+                      <tr>
+                        <th>المنتج</th>
+                        <th>الكمية</th>
+                        <th>الإيرادات</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.topProducts.map((product) => (
+                        <tr key={product.productId}>
+                          <td>{product.name}</td>
+                          <td>{product.quantity}</td>
+                          <td>{formatCurrency(product.revenue)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* Top categories */}
+              <div className="analytics-card">
+                <h3>أفضل التصنيفات حسب الإيرادات</h3>
+                {report.topCategories.length === 0 ? (
+                  <p className="analytics-muted">لا توجد مبيعات في هذه الفترة</p>
+                ) : (
+                  <table className="analytics-table">
+                    <thead>
+                      <tr>
+                        <th>التصنيف</th>
+                        <th>الكمية</th>
+                        <th>الإيرادات</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.topCategories.map((category) => (
+                        <tr key={category.categoryId || 'none'}>
+                          <td>{category.name}</td>
+                          <td>{category.quantity}</td>
+                          <td>{formatCurrency(category.revenue)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* Promo codes */}
+              <div className="analytics-card">
+                <h3>أثر الكوبونات</h3>
+                <p className="analytics-muted">
+                  {summary.promoOrders} طلب بكوبون، بإيرادات {formatCurrency(summary.promoRevenue)} وخصومات{' '}
+                  {formatCurrency(summary.promoDiscount)}
+                </p>
+                {report.promoCodes.length > 0 && (
+                  <table className="analytics-table">
+                    <thead>
+                      <tr>
+                        <th>الكوبون</th>
+                        <th>الطلبات</th>
+                        <th>الخصم</th>
+                        <th>الإيرادات</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.promoCodes.map((promo) => (
+                        <tr key={promo.code}>
+                          <td className="analytics-code">{promo.code}</td>
+                          <td>{promo.orders}</td>
+                          <td>{formatCurrency(promo.discount)}</td>
+                          <td>{formatCurrency(promo.revenue)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  )
+}
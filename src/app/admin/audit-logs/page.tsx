@@ -0,0 +1,405 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faFileCsv, faTimes, faEye } from '@fortawesome/free-solid-svg-icons'
+import './audit-logs.css'
+
+interface AuditChange {
+  field: string
+  before?: unknown
+  after?: unknown
+}
+
+interface AuditLogEntry {
+  _id: string
+  actor: {
+    userId: string
+    name?: string
+    email?: string
+    role?: string
+  }
+  action: string
+  entityType: string
+  entityId?: string
+  entityLabel?: string
+  changes: AuditChange[]
+  metadata?: Record<string, unknown>
+  ip?: string
+  userAgent?: string
+  createdAt: string
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  pages: number
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  product: 'منتج',
+  category: 'تصنيف',
+  bundle: 'بكج',
+  designFile: 'ملف تصميم',
+  promoCode: 'رمز خصم',
+  user: 'مستخدم',
+  review: 'تقييم',
+  siteSettings: 'إعدادات الموقع',
+  heroSlide: 'شريحة رئيسية',
+  faqItem: 'سؤال شائع',
+  featuredClient: 'عميل مميز',
+  order: 'طلب',
+  job: 'مهمة خلفية',
+  webhookEvent: 'حدث PayPal',
+}
+
+const ACTION_VERB_LABELS: Record<string, string> = {
+  create: 'إنشاء',
+  update: 'تعديل',
+  delete: 'حذف',
+  duplicate: 'تكرار',
+  activate: 'تفعيل',
+  deactivate: 'تعطيل',
+  makeAdmin: 'تعيين كمدير',
+  makeCustomer: 'تعيين كعميل',
+  makeSupport: 'تعيين كدعم عملاء',
+  makeDesigner: 'تعيين كمصمم',
+  approved: 'قبول',
+  rejected: 'رفض',
+  pending: 'إعادة للمراجعة',
+  importRates: 'استيراد أسعار الصرف',
+  cancel: 'إلغاء',
+  updateStatus: 'تغيير الحالة',
+  complete: 'إكمال',
+  uploadFiles: 'رفع ملفات',
+  uploadProof: 'رفع بروفة',
+  refund: 'استرداد',
+  retry: 'إعادة المحاولة',
+  replay: 'إعادة المعالجة',
+  processDue: 'معالجة المستحق',
+}
+
+const getActionLabel = (action: string) => {
+  const verb = action.split('.').pop() || action
+  return ACTION_VERB_LABELS[verb] || action
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+export default function AdminAuditLogs() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 25, total: 0, pages: 0 })
+  const [actions, setActions] = useState<string[]>([])
+  const [entityTypes, setEntityTypes] = useState<string[]>([])
+
+  // Filters
+  const [searchTerm, setSearchTerm] = useState('')
+  const [entityFilter, setEntityFilter] = useState('all')
+  const [actionFilter, setActionFilter] = useState('all')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+
+  const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null)
+
+  const buildFilterParams = useCallback(() => {
+    const searchParams = new URLSearchParams({
+      search: searchTerm,
+      entityType: entityFilter,
+      action: actionFilter,
+    })
+    if (fromDate) searchParams.set('from', fromDate)
+    if (toDate) searchParams.set('to', toDate)
+    return searchParams
+  }, [searchTerm, entityFilter, actionFilter, fromDate, toDate])
+
+  const fetchLogs = useCallback(
+    async (page: number) => {
+      try {
+        setLoading(true)
+        setError('')
+
+        const searchParams = buildFilterParams()
+        searchParams.set('page', page.toString())
+        searchParams.set('limit', '25')
+
+        const response = await fetch(`/api/admin/audit-logs?${searchParams}`)
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch audit logs')
+        }
+
+        setLogs(result.data.logs)
+        setPagination(result.data.pagination)
+        setActions(result.data.actions)
+        setEntityTypes(result.data.entityTypes)
+      } catch (err) {
+        setError('فشل في تحميل سجل التدقيق')
+        console.error('Error fetching audit logs:', err)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [buildFilterParams]
+  )
+
+  // Reload when filters change (search is debounced)
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchLogs(1), 400)
+    return () => clearTimeout(timeout)
+  }, [fetchLogs])
+
+  const exportUrl = `/api/admin/audit-logs/export?${buildFilterParams()}`
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-'
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  }
+
+  return (
+    <div className="admin-audit-logs">
+      <div className="audit-logs-header">
+        <div>
+          <h1>سجل التدقيق</h1>
+          <p>جميع التغييرات التي أجراها فريق الإدارة على المنتجات والمستخدمين والإعدادات</p>
+        </div>
+        <a href={exportUrl} className="audit-action-btn export-btn" download>
+          <FontAwesomeIcon icon={faFileCsv} />
+          تصدير CSV
+        </a>
+      </div>
+
+      {/* Filters */}
+      <div className="audit-logs-filters">
+        <input
+          type="text"
+          placeholder="بحث باسم العنصر أو معرفه أو اسم الحقل (مثل price) أو بريد المسؤول..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="audit-search-input"
+        />
+
+        <select value={entityFilter} onChange={(e) => setEntityFilter(e.target.value)} className="audit-filter-select">
+          <option value="all">جميع العناصر</option>
+          {entityTypes.map((type) => (
+            <option key={type} value={type}>
+              {ENTITY_LABELS[type] || type}
+            </option>
+          ))}
+        </select>
+
+        <select value={actionFilter} onChange={(e) => setActionFilter(e.target.value)} className="audit-filter-select">
+          <option value="all">جميع الإجراءات</option>
+          {actions.map((action) => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+
+        <label className="audit-date-filter">
+          من
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+        </label>
+
+        <label className="audit-date-filter">
+          إلى
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </label>
+      </div>
+
+      {/* Logs table */}
+      <div className="audit-logs-table-container">
+        {error && <div className="audit-error-message">{error}</div>}
+
+        {loading && logs.length === 0 ? (
+          <div className="audit-loading">جاري التحميل...</div>
+        ) : logs.length === 0 ? (
+          <div className="audit-empty">
+            <p>لا توجد سجلات</p>
+          </div>
+        ) : (
+          <table className="audit-logs-table">
+            <thead>
+              <tr>
+                <th>التاريخ</th>
+                <th>المسؤول</th>
+                <th>الإجراء</th>
+                <th>العنصر</th>
+                <th>التغييرات</th>
+                <th>IP</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map((log) => (
+                <tr key={log._id}>
+                  <td className="audit-date">{formatDate(log.createdAt)}</td>
+                  <td>
+                    <div className="audit-actor-name">{log.actor.name || '-'}</div>
+                    <div className="audit-muted">{log.actor.email}</div>
+                  </td>
+                  <td>
+                    <span className={`audit-action-badge ${log.action.split('.').pop()}`}>{getActionLabel(log.action)}</span>
+                  </td>
+                  <td>
+                    <div className="audit-entity-type">{ENTITY_LABELS[log.entityType] || log.entityType}</div>
+                    <div className="audit-entity-label">{log.entityLabel || log.entityId || '-'}</div>
+                  </td>
+                  <td>
+                    {log.changes.length > 0 ? (
+                      <span className="audit-fields" title={log.changes.map((change) => change.field).join(', ')}>
+                        {log.changes
+                          .slice(0, 3)
+                          .map((change) => change.field)
+                          .join('، ')}
+                        {log.changes.length > 3 && ` +${log.changes.length - 3}`}
+                      </span>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="audit-ip">{log.ip || '-'}</td>
+                  <td>
+                    <button
+                      onClick={() => setSelectedLog(log)}
+                      className="audit-action-btn view-btn"
+                      title="عرض التفاصيل"
+                    >
+                      <FontAwesomeIcon icon={faEye} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pagination.pages > 1 && (
+        <div className="audit-pagination">
+          <button
+            onClick={() => fetchLogs(pagination.page - 1)}
+            disabled={pagination.page === 1}
+            className="audit-pagination-btn"
+          >
+            السابق
+          </button>
+
+          <span className="audit-pagination-info">
+            صفحة {pagination.page} من {pagination.pages} ({pagination.total} سجل)
+          </span>
+
+          <button
+            onClick={() => fetchLogs(pagination.page + 1)}
+            disabled={pagination.page === pagination.pages}
+            className="audit-pagination-btn"
+          >
+            التالي
+          </button>
+        </div>
+      )}
+
+      {/* Details panel */}
+      {selectedLog && (
+        <div className="audit-modal-overlay" onClick={() => setSelectedLog(null)}>
+          <div className="audit-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="audit-modal-header">
+              <h2>
+                {getActionLabel(selectedLog.action)} {ENTITY_LABELS[selectedLog.entityType] || selectedLog.entityType}
+              </h2>
+              <button onClick={() => setSelectedLog(null)} className="audit-modal-close">
+                <FontAwesomeIcon icon={faTimes} />
+              </button>
+            </div>
+
+            <div className="audit-modal-body">
+              <div className="audit-details-grid">
+                <div>
+                  <span>المسؤول</span>
+                  <strong>
+                    {selectedLog.actor.name || '-'} ({selectedLog.actor.email})
+                  </strong>
+                </div>
+                <div>
+                  <span>الدور</span>
+                  <strong>{selectedLog.actor.role || '-'}</strong>
+                </div>
+                <div>
+                  <span>الإجراء</span>
+                  <strong className="audit-ltr">{selectedLog.action}</strong>
+                </div>
+                <div>
+                  <span>العنصر</span>
+                  <strong>{selectedLog.entityLabel || '-'}</strong>
+                </div>
+                <div>
+                  <span>معرف العنصر</span>
+                  <strong className="audit-ltr">{selectedLog.entityId || '-'}</strong>
+                </div>
+                <div>
+                  <span>التاريخ</span>
+                  <strong>{formatDate(selectedLog.createdAt)}</strong>
+                </div>
+                <div>
+                  <span>IP</span>
+                  <strong className="audit-ltr">{selectedLog.ip || '-'}</strong>
+                </div>
+                <div>
+                  <span>المتصفح</span>
+                  <strong className="audit-ltr">{selectedLog.userAgent || '-'}</strong>
+                </div>
+              </div>
+
+              <h3>التغييرات</h3>
+              {selectedLog.changes.length === 0 ? (
+                <p className="audit-muted">لا توجد تغييرات على الحقول</p>
+              ) : (
+                <table className="audit-diff-table">
+                  <thead>
+                    <tr>
+                      <th>الحقل</th>
+                      <th>قبل</th>
+                      <th>بعد</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selectedLog.changes.map((change) => (
+                      <tr key={change.field}>
+                        <td className="audit-ltr">{change.field}</td>
+                        <td className="audit-diff-before">{formatValue(change.before)}</td>
+                        <td className="audit-diff-after">{formatValue(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {selectedLog.metadata && (
+                <>
+                  <h3>معلومات إضافية</h3>
+                  <pre className="audit-metadata">{JSON.stringify(selectedLog.metadata, null, 2)}</pre>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
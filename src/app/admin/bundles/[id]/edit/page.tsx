@@ -0,0 +1,98 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback, type ComponentProps } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faArrowRight } from '@fortawesome/free-solid-svg-icons'
+import BundleForm from '@/components/admin/BundleForm'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { hasPermission } from '@/lib/auth/permissions'
+import '../../bundles.css'
+
+type EditableBundle = NonNullable<ComponentProps<typeof BundleForm>['bundle']>
+
+export default function EditBundlePage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const params = useParams()
+  const bundleId = params.id as string
+
+  const [bundle, setBundle] = useState<EditableBundle | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // Track if data has been loaded to prevent unnecessary reloads
+  const dataLoadedRef = useRef(false)
+
+  const fetchBundle = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/admin/bundles/${bundleId}`)
+
+      if (!response.ok) {
+        setError(response.status === 404 ? 'البكج غير موجود' : 'حدث خطأ أثناء تحميل البكج')
+        return
+      }
+
+      const data = await response.json()
+      setBundle(data.data)
+    } catch (error) {
+      console.error('Error fetching bundle:', error)
+      setError('حدث خطأ أثناء تحميل البكج')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [bundleId])
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || !hasPermission(session.user.role, 'products.write')) {
+      router.push('/access-denied')
+      return
+    }
+
+    if (!dataLoadedRef.current) {
+      dataLoadedRef.current = true
+      fetchBundle()
+    }
+  }, [session, status, router, fetchBundle])
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="bundle-editor-loading">
+        <LoadingSpinner />
+        <p>جاري التحميل...</p>
+      </div>
+    )
+  }
+
+  if (!session || !hasPermission(session.user.role, 'products.write')) {
+    return null
+  }
+
+  return (
+    <div className="bundle-editor">
+      <div className="bundles-header">
+        <div>
+          <h1>{error ? 'خطأ' : 'تعديل البكج'}</h1>
+          <p>{error || `تعديل البكج: ${bundle?.name}`}</p>
+        </div>
+        <Link href="/admin/bundles" className="bundles-back-button">
+          <FontAwesomeIcon icon={faArrowRight} />
+          الرجوع للبكجات
+        </Link>
+      </div>
+
+      {!error && (
+        <BundleForm
+          bundle={bundle}
+          onSuccess={() => router.push('/admin/bundles')}
+          onCancel={() => router.push('/admin/bundles')}
+        />
+      )}
+    </div>
+  )
+}
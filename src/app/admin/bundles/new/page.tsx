@@ -0,0 +1,55 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faArrowRight } from '@fortawesome/free-solid-svg-icons'
+import BundleForm from '@/components/admin/BundleForm'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { hasPermission } from '@/lib/auth/permissions'
+import '../bundles.css'
+
+export default function NewBundlePage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || !hasPermission(session.user.role, 'products.write')) {
+      router.push('/access-denied')
+    }
+  }, [session, status, router])
+
+  if (status === 'loading') {
+    return (
+      <div className="bundle-editor-loading">
+        <LoadingSpinner />
+        <p>جاري التحميل...</p>
+      </div>
+    )
+  }
+
+  if (!session || !hasPermission(session.user.role, 'products.write')) {
+    return null
+  }
+
+  return (
+    <div className="bundle-editor">
+      <div className="bundles-header">
+        <div>
+          <h1>إضافة بكج جديد</h1>
+          <p>اجمع عدة منتجات في بكج واحد بسعر مخفض</p>
+        </div>
+        <Link href="/admin/bundles" className="bundles-back-button">
+          <FontAwesomeIcon icon={faArrowRight} />
+          الرجوع للبكجات
+        </Link>
+      </div>
+
+      <BundleForm onSuccess={() => router.push('/admin/bundles')} onCancel={() => router.push('/admin/bundles')} />
+    </div>
+  )
+}
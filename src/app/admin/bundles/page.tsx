@@ -0,0 +1,242 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faPlus, faEdit, faTrash, faToggleOn, faToggleOff, faLayerGroup, faExternalLinkAlt } from '@fortawesome/free-solid-svg-icons'
+import type { BundlePricingType } from '@/lib/db/models/Bundle'
+import { hasPermission } from '@/lib/auth/permissions'
+import { calculateBundlePrice } from '@/lib/utils/bundleUtils'
+import './bundles.css'
+
+interface BundleProduct {
+  _id: string
+  name: string
+  price: number
+  finalPrice: number
+  isActive: boolean
+}
+
+interface BundleSummary {
+  _id: string
+  name: string
+  slug: string
+  icon?: string
+  color?: string
+  productIds: BundleProduct[]
+  pricingType: BundlePricingType
+  bundlePrice?: number
+  discountPercentage?: number
+  order: number
+  isActive: boolean
+  isFeatured: boolean
+}
+
+export default function AdminBundlesPage() {
+  const { data: session } = useSession()
+  const canWrite = !!session && hasPermission(session.user.role, 'products.write')
+
+  const [bundles, setBundles] = useState<BundleSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [updating, setUpdating] = useState<string | null>(null)
+
+  const fetchBundles = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError('')
+
+      const response = await fetch('/api/admin/bundles')
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to fetch bundles')
+      }
+
+      setBundles(result.data)
+    } catch (err) {
+      setError('فشل في تحميل البكجات')
+      console.error('Error fetching bundles:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBundles()
+  }, [fetchBundles])
+
+  const handleToggleStatus = async (bundle: BundleSummary) => {
+    try {
+      setUpdating(bundle._id)
+      const response = await fetch(`/api/admin/bundles/${bundle._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !bundle.isActive }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.message || 'Failed to update bundle')
+      }
+
+      setBundles((prev) => prev.map((b) => (b._id === bundle._id ? { ...b, isActive: !b.isActive } : b)))
+    } catch (err) {
+      alert('فشل في تحديث حالة البكج')
+      console.error('Error updating bundle:', err)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const handleDelete = async (bundle: BundleSummary) => {
+    if (!confirm(`هل تريد حذف البكج "${bundle.name}"؟ الطلبات السابقة لن تتأثر.`)) return
+
+    try {
+      setUpdating(bundle._id)
+      const response = await fetch(`/api/admin/bundles/${bundle._id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.message || 'Failed to delete bundle')
+      }
+
+      setBundles((prev) => prev.filter((b) => b._id !== bundle._id))
+    } catch (err) {
+      alert('فشل في حذف البكج')
+      console.error('Error deleting bundle:', err)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const getPriceSummary = (bundle: BundleSummary) => {
+    const individualTotal = bundle.productIds.reduce((sum, product) => sum + (product.finalPrice ?? product.price), 0)
+    const price = calculateBundlePrice(individualTotal, bundle)
+    return { individualTotal, price }
+  }
+
+  return (
+    <div className="admin-bundles">
+      <div className="bundles-header">
+        <div>
+          <h1>البكجات</h1>
+          <p>مجموعات منتجات تباع معاً بسعر مخفض</p>
+        </div>
+        {canWrite && (
+          <Link href="/admin/bundles/new" className="bundles-add-button">
+            <FontAwesomeIcon icon={faPlus} />
+            إضافة بكج
+          </Link>
+        )}
+      </div>
+
+      {error && <div className="bundles-error">{error}</div>}
+
+      {loading ? (
+        <div className="bundles-loading">جاري التحميل...</div>
+      ) : bundles.length === 0 ? (
+        <div className="bundles-empty">
+          <FontAwesomeIcon icon={faLayerGroup} />
+          <h3>لا توجد بكجات بعد</h3>
+          <p>أنشئ بكج يجمع عدة منتجات بسعر واحد</p>
+        </div>
+      ) : (
+        <div className="bundles-table-wrapper">
+          <table className="bundles-table">
+            <thead>
+              <tr>
+                <th>البكج</th>
+                <th>المنتجات</th>
+                <th>السعر</th>
+                <th>الترتيب</th>
+                <th>الحالة</th>
+                <th>الإجراءات</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bundles.map((bundle) => {
+                const { individualTotal, price } = getPriceSummary(bundle)
+                const hasInactiveProduct = bundle.productIds.some((product) => !product.isActive)
+
+                return (
+                  <tr key={bundle._id}>
+                    <td>
+                      <div className="bundle-name-cell">
+                        <span className="bundle-icon" style={{ background: bundle.color || undefined }}>
+                          {bundle.icon || '📦'}
+                        </span>
+                        <div>
+                          <strong>{bundle.name}</strong>
+                          <small>/bundles/{bundle.slug}</small>
+                          {bundle.isFeatured && <span className="bundle-badge featured">مميز</span>}
+                        </div>
+                      </div>
+                    </td>
+                    <td>
+                      <ul className="bundle-products-list">
+                        {bundle.productIds.map((product) => (
+                          <li key={product._id} className={product.isActive ? '' : 'inactive'}>
+                            {product.name}
+                          </li>
+                        ))}
+                      </ul>
+                      {hasInactiveProduct && <small className="bundle-warning">منتج غير نشط - البكج مخفي من المتجر</small>}
+                    </td>
+                    <td>
+                      <div className="bundle-price-cell">
+                        <strong>${price.toFixed(2)}</strong>
+                        <del>${individualTotal.toFixed(2)}</del>
+                        <small>
+                          {bundle.pricingType === 'percentage' ? `خصم ${bundle.discountPercentage}%` : 'سعر ثابت'}
+                        </small>
+                      </div>
+                    </td>
+                    <td>{bundle.order}</td>
+                    <td>
+                      <span className={`bundle-badge ${bundle.isActive ? 'active' : 'inactive'}`}>
+                        {bundle.isActive ? 'نشط' : 'غير نشط'}
+                      </span>
+                    </td>
+                    <td>
+                      <div className="bundle-actions">
+                        {bundle.isActive && (
+                          <Link href={`/bundles/${bundle.slug}`} target="_blank" title="عرض في المتجر">
+                            <FontAwesomeIcon icon={faExternalLinkAlt} />
+                          </Link>
+                        )}
+                        {canWrite && (
+                          <>
+                            <Link href={`/admin/bundles/${bundle._id}/edit`} title="تعديل">
+                              <FontAwesomeIcon icon={faEdit} />
+                            </Link>
+                            <button
+                              onClick={() => handleToggleStatus(bundle)}
+                              disabled={updating === bundle._id}
+                              title={bundle.isActive ? 'إلغاء التفعيل' : 'تفعيل'}
+                            >
+                              <FontAwesomeIcon icon={bundle.isActive ? faToggleOn : faToggleOff} />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(bundle)}
+                              disabled={updating === bundle._id}
+                              className="danger"
+                              title="حذف"
+                            >
+                              <FontAwesomeIcon icon={faTrash} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import Image from 'next/image'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { faSearch, faFolder, faPlus, faStar, faTimes } from '@fortawesome/free-solid-svg-icons'
 import CategoryForm from '../../../components/admin/CategoryForm'
+import { hasPermission } from '@/lib/auth/permissions'
 import './categories.css'
 import '../../../components/admin/CategoryForm.css'
 
@@ -43,7 +44,7 @@ export default function AdminCategoriesPage() {
   // Redirect if not admin
   useEffect(() => {
     if (status === 'loading') return
-    if (!session?.user || session.user.role !== 'admin') {
+    if (!session?.user || !hasPermission(session.user.role, 'products.read')) {
       router.push('/auth/signin')
       return
     }
@@ -96,7 +97,7 @@ export default function AdminCategoriesPage() {
   // Fetch categories when component mounts and user is authenticated
   useEffect(() => {
     if (status === 'loading') return
-    if (session?.user && session.user.role === 'admin' && !dataLoadedRef.current) {
+    if (session?.user && hasPermission(session.user.role, 'products.read') && !dataLoadedRef.current) {
       dataLoadedRef.current = true
       fetchCategories(1, true) // Show page loader on initial load
     }
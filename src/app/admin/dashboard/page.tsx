@@ -33,6 +33,7 @@ import {
   faPercent,
   faDollarSign,
 } from '@fortawesome/free-solid-svg-icons'
+import { hasPermission } from '@/lib/auth/permissions'
 import './dashboard.css'
 
 interface DashboardStats {
@@ -106,14 +107,14 @@ export default function AdminDashboard() {
       return
     }
 
-    if (session?.user?.role !== 'admin') {
+    if (!hasPermission(session?.user?.role, 'dashboard.read')) {
       router.push('/customer/dashboard')
       return
     }
   }, [status, session, router])
 
   const fetchDashboardData = useCallback(async () => {
-    if (session?.user?.role !== 'admin') return
+    if (!hasPermission(session?.user?.role, 'dashboard.read')) return
 
     try {
       setLoading(true)
@@ -144,7 +145,7 @@ export default function AdminDashboard() {
 
   useEffect(() => {
     // Only fetch data if we haven't loaded it yet and user is admin
-    if (session?.user?.role === 'admin' && !dataLoadedRef.current) {
+    if (hasPermission(session?.user?.role, 'dashboard.read') && !dataLoadedRef.current) {
       dataLoadedRef.current = true
       fetchDashboardData()
     }
@@ -176,7 +177,7 @@ export default function AdminDashboard() {
     )
   }
 
-  if (!session || session.user.role !== 'admin') {
+  if (!session || !hasPermission(session.user.role, 'dashboard.read')) {
     return null
   }
 
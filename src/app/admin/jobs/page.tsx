@@ -0,0 +1,434 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faRedo, faSync, faTimes, faEye } from '@fortawesome/free-solid-svg-icons'
+import './jobs.css'
+
+type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead_letter'
+
+interface JobAttempt {
+  attemptedAt: string
+  success: boolean
+  message?: string
+  durationMs?: number
+  triggeredBy: string
+}
+
+interface JobSummary {
+  _id: string
+  type: string
+  idempotencyKey: string
+  status: JobStatus
+  attempts: number
+  maxAttempts: number
+  runAt?: string
+  lockedBy?: string
+  lastError?: string
+  lastAttemptAt?: string
+  completedAt?: string
+  orderId?: string
+  orderNumber?: string
+  createdAt: string
+}
+
+interface JobDetails extends JobSummary {
+  payload: Record<string, unknown>
+  attemptLog: JobAttempt[]
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  pages: number
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  pending: 'قيد الانتظار',
+  processing: 'قيد التنفيذ',
+  completed: 'مكتملة',
+  failed: 'فشلت - ستعاد المحاولة',
+  dead_letter: 'متوقفة (Dead letter)',
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  'order.deliver': 'تسليم الطلب',
+  'order.delivery_email': 'بريد التسليم للعميل',
+  'order.admin_notification': 'إشعار المدراء',
+  'order.discord_notification': 'إشعار Discord',
+}
+
+export default function AdminJobs() {
+  const [jobs, setJobs] = useState<JobSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 20, total: 0, pages: 0 })
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({})
+  const [jobTypes, setJobTypes] = useState<string[]>([])
+
+  // Filters (failed and dead-lettered jobs by default)
+  const [statusFilter, setStatusFilter] = useState('unresolved')
+  const [typeFilter, setTypeFilter] = useState('all')
+  const [searchTerm, setSearchTerm] = useState('')
+
+  // Details panel
+  const [selectedJob, setSelectedJob] = useState<JobDetails | null>(null)
+  const [loadingDetails, setLoadingDetails] = useState<string | null>(null)
+  const [retrying, setRetrying] = useState<string | null>(null)
+  const [runningJobs, setRunningJobs] = useState(false)
+
+  const fetchJobs = useCallback(
+    async (page: number) => {
+      try {
+        setLoading(true)
+        setError('')
+
+        const searchParams = new URLSearchParams({
+          page: page.toString(),
+          limit: '20',
+          status: statusFilter,
+          type: typeFilter,
+          search: searchTerm,
+        })
+
+        const response = await fetch(`/api/admin/jobs?${searchParams}`)
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch jobs')
+        }
+
+        setJobs(result.data.jobs)
+        setPagination(result.data.pagination)
+        setStatusCounts(result.data.statusCounts)
+        setJobTypes(result.data.types)
+      } catch (err) {
+        setError('فشل في تحميل المهام')
+        console.error('Error fetching jobs:', err)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [statusFilter, typeFilter, searchTerm]
+  )
+
+  // Reload when filters change (search is debounced)
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchJobs(1), 400)
+    return () => clearTimeout(timeout)
+  }, [fetchJobs])
+
+  const openDetails = async (jobId: string) => {
+    try {
+      setLoadingDetails(jobId)
+      const response = await fetch(`/api/admin/jobs/${jobId}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to fetch job')
+      }
+
+      setSelectedJob(result.data)
+    } catch (err) {
+      alert('فشل في تحميل تفاصيل المهمة')
+      console.error('Error fetching job:', err)
+    } finally {
+      setLoadingDetails(null)
+    }
+  }
+
+  const handleRetry = async (jobId: string) => {
+    if (!confirm('هل تريد إعادة تنفيذ هذه المهمة الآن؟')) {
+      return
+    }
+
+    try {
+      setRetrying(jobId)
+      const response = await fetch(`/api/admin/jobs/${jobId}`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to retry job')
+      }
+
+      alert(result.success ? 'تم تنفيذ المهمة بنجاح' : `فشل التنفيذ: ${result.message}`)
+
+      if (selectedJob?._id === jobId && result.data) {
+        setSelectedJob(result.data)
+      }
+      await fetchJobs(pagination.page)
+    } catch (err) {
+      alert('فشل في إعادة تنفيذ المهمة')
+      console.error('Error retrying job:', err)
+    } finally {
+      setRetrying(null)
+    }
+  }
+
+  const handleRunDueJobs = async () => {
+    try {
+      setRunningJobs(true)
+      const response = await fetch('/api/admin/jobs/run', { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to run jobs')
+      }
+
+      alert(`تم تنفيذ ${result.data.completed} مهمة، وفشلت ${result.data.failed}`)
+      await fetchJobs(pagination.page)
+    } catch (err) {
+      alert('فشل في تشغيل المهام المستحقة')
+      console.error('Error running jobs:', err)
+    } finally {
+      setRunningJobs(false)
+    }
+  }
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-'
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const canRetry = (job: JobSummary) => job.status === 'failed' || job.status === 'dead_letter'
+
+  return (
+    <div className="admin-jobs">
+      <div className="jobs-header">
+        <div>
+          <h1>المهام في الخلفية</h1>
+          <p>مراقبة مهام التسليم والبريد والإشعارات وإعادة تنفيذ المهام الفاشلة</p>
+        </div>
+        <button onClick={handleRunDueJobs} disabled={runningJobs} className="job-action-btn retry-run-btn">
+          <FontAwesomeIcon icon={faSync} spin={runningJobs} />
+          {runningJobs ? 'جاري التشغيل...' : 'تشغيل المهام المستحقة'}
+        </button>
+      </div>
+
+      {/* Status summary */}
+      <div className="job-status-summary">
+        {(Object.keys(STATUS_LABELS) as JobStatus[]).map((status) => (
+          <button
+            key={status}
+            className={`job-status-card ${status} ${statusFilter === status ? 'active' : ''}`}
+            onClick={() => setStatusFilter(statusFilter === status ? 'all' : status)}
+          >
+            <span className="job-status-count">{statusCounts[status] || 0}</span>
+            <span className="job-status-label">{STATUS_LABELS[status]}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="jobs-filters">
+        <input
+          type="text"
+          placeholder="بحث برقم الطلب أو مفتاح المهمة..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="job-search-input"
+        />
+
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className="job-filter-select">
+          <option value="unresolved">الفاشلة والمتوقفة</option>
+          <option value="all">جميع الحالات</option>
+          {(Object.keys(STATUS_LABELS) as JobStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+
+        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} className="job-filter-select">
+          <option value="all">جميع الأنواع</option>
+          {jobTypes.map((type) => (
+            <option key={type} value={type}>
+              {TYPE_LABELS[type] || type}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Jobs table */}
+      <div className="jobs-table-container">
+        {error && <div className="job-error-message">{error}</div>}
+
+        {loading && jobs.length === 0 ? (
+          <div className="job-loading">جاري التحميل...</div>
+        ) : jobs.length === 0 ? (
+          <div className="job-empty">
+            <p>لا توجد مهام</p>
+          </div>
+        ) : (
+          <table className="jobs-table">
+            <thead>
+              <tr>
+                <th>نوع المهمة</th>
+                <th>الحالة</th>
+                <th>المحاولات</th>
+                <th>الطلب</th>
+                <th>تاريخ الإنشاء</th>
+                <th>المحاولة التالية</th>
+                <th>الإجراءات</th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map((job) => (
+                <tr key={job._id}>
+                  <td>
+                    <div className="job-type">{TYPE_LABELS[job.type] || job.type}</div>
+                    <div className="job-key">{job.idempotencyKey}</div>
+                  </td>
+                  <td>
+                    <span className={`job-status-badge ${job.status}`}>{STATUS_LABELS[job.status]}</span>
+                    {job.lastError && job.status !== 'completed' && (
+                      <div className="job-last-error" title={job.lastError}>
+                        {job.lastError}
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    {job.attempts}/{job.maxAttempts}
+                  </td>
+                  <td>{job.orderNumber || '-'}</td>
+                  <td>{formatDate(job.createdAt)}</td>
+                  <td>{job.status === 'failed' || job.status === 'pending' ? formatDate(job.runAt) : '-'}</td>
+                  <td>
+                    <div className="job-row-actions">
+                      <button
+                        onClick={() => openDetails(job._id)}
+                        disabled={loadingDetails === job._id}
+                        className="job-action-btn view-btn"
+                        title="عرض التفاصيل"
+                      >
+                        <FontAwesomeIcon icon={faEye} />
+                      </button>
+                      <button
+                        onClick={() => handleRetry(job._id)}
+                        disabled={retrying === job._id || !canRetry(job)}
+                        className="job-action-btn retry-btn"
+                        title="إعادة التنفيذ"
+                      >
+                        <FontAwesomeIcon icon={faRedo} spin={retrying === job._id} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pagination.pages > 1 && (
+        <div className="job-pagination">
+          <button
+            onClick={() => fetchJobs(pagination.page - 1)}
+            disabled={pagination.page === 1}
+            className="job-pagination-btn"
+          >
+            السابق
+          </button>
+
+          <span className="job-pagination-info">
+            صفحة {pagination.page} من {pagination.pages}
+          </span>
+
+          <button
+            onClick={() => fetchJobs(pagination.page + 1)}
+            disabled={pagination.page === pagination.pages}
+            className="job-pagination-btn"
+          >
+            التالي
+          </button>
+        </div>
+      )}
+
+      {/* Details panel */}
+      {selectedJob && (
+        <div className="job-modal-overlay" onClick={() => setSelectedJob(null)}>
+          <div className="job-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="job-modal-header">
+              <h2>{TYPE_LABELS[selectedJob.type] || selectedJob.type}</h2>
+              <button onClick={() => setSelectedJob(null)} className="job-modal-close">
+                <FontAwesomeIcon icon={faTimes} />
+              </button>
+            </div>
+
+            <div className="job-modal-body">
+              <div className="job-details-grid">
+                <div>
+                  <span>نوع المهمة</span>
+                  <strong>{selectedJob.type}</strong>
+                </div>
+                <div>
+                  <span>الحالة</span>
+                  <strong>
+                    <span className={`job-status-badge ${selectedJob.status}`}>{STATUS_LABELS[selectedJob.status]}</span>
+                  </strong>
+                </div>
+                <div>
+                  <span>مفتاح المهمة</span>
+                  <strong>{selectedJob.idempotencyKey}</strong>
+                </div>
+                <div>
+                  <span>الطلب</span>
+                  <strong>{selectedJob.orderNumber || '-'}</strong>
+                </div>
+                <div>
+                  <span>تاريخ الإكمال</span>
+                  <strong>{formatDate(selectedJob.completedAt)}</strong>
+                </div>
+                <div>
+                  <span>المحاولات</span>
+                  <strong>
+                    {selectedJob.attempts}/{selectedJob.maxAttempts}
+                  </strong>
+                </div>
+              </div>
+
+              {selectedJob.lastError && <div className="job-error-message">آخر خطأ: {selectedJob.lastError}</div>}
+
+              <h3>سجل المحاولات</h3>
+              {selectedJob.attemptLog.length === 0 ? (
+                <p className="job-muted">لم تتم أي محاولة بعد</p>
+              ) : (
+                <ul className="job-attempt-log">
+                  {selectedJob.attemptLog.map((attempt, index) => (
+                    <li key={index} className={attempt.success ? 'success' : 'failure'}>
+                      <span>{formatDate(attempt.attemptedAt)}</span>
+                      <span>{attempt.triggeredBy}</span>
+                      <span>{attempt.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <h3>بيانات المهمة</h3>
+              <pre className="job-payload">{JSON.stringify(selectedJob.payload, null, 2)}</pre>
+            </div>
+
+            <div className="job-modal-actions">
+              <button
+                onClick={() => handleRetry(selectedJob._id)}
+                disabled={retrying === selectedJob._id || !canRetry(selectedJob)}
+                className="job-action-btn retry-btn"
+              >
+                <FontAwesomeIcon icon={faRedo} spin={retrying === selectedJob._id} />
+                {retrying === selectedJob._id ? 'جاري التنفيذ...' : 'إعادة التنفيذ'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -18,9 +18,52 @@ import {
   faBox,
   faTicketAlt,
   faStar,
+  faExchangeAlt,
+  faTasks,
+  faHistory,
+  faChartPie,
+  faLayerGroup,
+  type IconDefinition,
 } from '@fortawesome/free-solid-svg-icons'
+import { Permission, hasAnyPermission, isStaffRole } from '@/lib/auth/permissions'
 import './admin-layout.css'
 
+interface NavItem {
+  href: string
+  label: string
+  title: string
+  icon: IconDefinition
+  permissions: Permission[] // Any one of these shows the item
+}
+
+const NAV_ITEMS: NavItem[] = [
+  { href: '/admin/dashboard', label: 'لوحة التحكم', title: 'Dashboard', icon: faChartLine, permissions: ['dashboard.read'] },
+  { href: '/admin/analytics', label: 'التحليلات', title: 'Analytics', icon: faChartPie, permissions: ['analytics.read'] },
+  { href: '/admin/categories', label: 'التصنيفات', title: 'Categories', icon: faFolder, permissions: ['products.read'] },
+  { href: '/admin/products', label: 'المنتجات', title: 'Products', icon: faBox, permissions: ['products.read'] },
+  { href: '/admin/bundles', label: 'البكجات', title: 'Bundles', icon: faLayerGroup, permissions: ['products.read'] },
+  {
+    href: '/admin/orders',
+    label: 'الطلبات',
+    title: 'Orders',
+    icon: faShoppingCart,
+    permissions: ['orders.read', 'customizations.read'],
+  },
+  { href: '/admin/promo-codes', label: 'رموز الخصم', title: 'Promo Codes', icon: faTicketAlt, permissions: ['promoCodes.read'] },
+  { href: '/admin/users', label: 'المستخدمين', title: 'Users', icon: faUsers, permissions: ['users.read'] },
+  { href: '/admin/reviews', label: 'التقييمات', title: 'Reviews', icon: faStar, permissions: ['reviews.moderate'] },
+  {
+    href: '/admin/webhook-events',
+    label: 'أحداث الويب هوك',
+    title: 'Webhook Events',
+    icon: faExchangeAlt,
+    permissions: ['system.manage'],
+  },
+  { href: '/admin/jobs', label: 'المهام في الخلفية', title: 'Background Jobs', icon: faTasks, permissions: ['system.manage'] },
+  { href: '/admin/audit-logs', label: 'سجل التدقيق', title: 'Audit Log', icon: faHistory, permissions: ['audit.read'] },
+  { href: '/admin/settings', label: 'الاعدادات', title: 'Settings', icon: faCog, permissions: ['settings.write'] },
+]
+
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -48,12 +91,26 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
     return pathname === href
   }
 
+  const role = session?.user?.role
+  const navItems = NAV_ITEMS.filter((item) => hasAnyPermission(role, item.permissions))
+
+  // The section the current page belongs to (sub-pages such as /admin/orders/123 included)
+  const currentItem = NAV_ITEMS.find((item) => pathname === item.href || pathname.startsWith(`${item.href}/`))
+  const canViewCurrentPage = !currentItem || hasAnyPermission(role, currentItem.permissions)
+  const fallbackHref = navItems[0]?.href
+
   useEffect(() => {
     if (status === 'loading') return
-    if (!session?.user || session.user.role !== 'admin') {
+    if (!session?.user || !isStaffRole(session.user.role)) {
       router.push('/auth/signin')
+      return
     }
-  }, [session, status, router])
+
+    // Staff without access to this section land on their first allowed page
+    if (!canViewCurrentPage && fallbackHref) {
+      router.replace(fallbackHref)
+    }
+  }, [session, status, router, canViewCurrentPage, fallbackHref])
 
   if (status === 'loading') {
     return (
@@ -66,7 +123,7 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
     )
   }
 
-  if (!session?.user || session.user.role !== 'admin') {
+  if (!session?.user || !isStaffRole(session.user.role)) {
     return null
   }
 
@@ -102,89 +159,19 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
           </div>
 
           <div className="admin-nav">
-            <Link
-              href="/admin/dashboard"
-              className={`nav-item ${isActive('/admin/dashboard') ? 'active' : ''}`}
-              title="Dashboard"
-            >
-              <span className="nav-icon">
-                <FontAwesomeIcon icon={faChartLine} />
-              </span>
-              <span className="nav-text">لوحة التحكم</span>
-            </Link>
-
-            <Link
-              href="/admin/categories"
-              className={`nav-item ${isActive('/admin/categories') ? 'active' : ''}`}
-              title="Categories"
-            >
-              <span className="nav-icon">
-                <FontAwesomeIcon icon={faFolder} />
-              </span>
-              <span className="nav-text">التصنيفات</span>
-            </Link>
-
-            <Link
-              href="/admin/products"
-              className={`nav-item ${isActive('/admin/products') ? 'active' : ''}`}
-              title="Products"
-            >
-              <span className="nav-icon">
-                <FontAwesomeIcon icon={faBox} />
-              </span>
-              <span className="nav-text">المنتجات</span>
-            </Link>
-
-            <Link
-              href="/admin/orders"
-              className={`nav-item ${isActive('/admin/orders') ? 'active' : ''}`}
-              title="Orders"
-            >
-              <span className="nav-icon">
-                <FontAwesomeIcon icon={faShoppingCart} />
-              </span>
-              <span className="nav-text">الطلبات</span>
-            </Link>
-
-            <Link
-              href="/admin/promo-codes"
-              className={`nav-item ${isActive('/admin/promo-codes') ? 'active' : ''}`}
-              title="Promo Codes"
-            >
-              <span className="nav-icon">
-                <FontAwesomeIcon icon={faTicketAlt} />
-              </span>
-              <span className="nav-text">رموز الخصم</span>
-            </Link>
-
-            <Link href="/admin/users" className={`nav-item ${isActive('/admin/users') ? 'active' : ''}`} title="Users">
-              <span className="nav-icon">
-                <FontAwesomeIcon icon={faUsers} />
-              </span>
-              <span className="nav-text">المستخدمين</span>
-            </Link>
-
-            <Link
-              href="/admin/reviews"
-              className={`nav-item ${isActive('/admin/reviews') ? 'active' : ''}`}
-              title="Reviews"
-            >
-              <span className="nav-icon">
-                <FontAwesomeIcon icon={faStar} />
-              </span>
-              <span className="nav-text">التقييمات</span>
-            </Link>
-
-            <Link
-              href="/admin/settings"
-              className={`nav-item ${isActive('/admin/settings') ? 'active' : ''}`}
-              title="Settings"
-            >
-              <span className="nav-icon">
-                <FontAwesomeIcon icon={faCog} />
-              </span>
-              <span className="nav-text">الاعدادات</span>
-            </Link>
+            {navItems.map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={`nav-item ${isActive(item.href) ? 'active' : ''}`}
+                title={item.title}
+              >
+                <span className="nav-icon">
+                  <FontAwesomeIcon icon={item.icon} />
+                </span>
+                <span className="nav-text">{item.label}</span>
+              </Link>
+            ))}
           </div>
 
           <div className="admin-sidebar-footer">
@@ -214,56 +201,17 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
 
         {/* Mobile/Tablet Bottom Navigation */}
         <nav className="admin-bottom-nav">
-          <Link href="/admin/dashboard" className={`bottom-nav-item ${isActive('/admin/dashboard') ? 'active' : ''}`}>
-            <span className="bottom-nav-icon">
-              <FontAwesomeIcon icon={faChartLine} />
-            </span>
-          </Link>
-
-          <Link href="/admin/categories" className={`bottom-nav-item ${isActive('/admin/categories') ? 'active' : ''}`}>
-            <span className="bottom-nav-icon">
-              <FontAwesomeIcon icon={faFolder} />
-            </span>
-          </Link>
-
-          <Link href="/admin/products" className={`bottom-nav-item ${isActive('/admin/products') ? 'active' : ''}`}>
-            <span className="bottom-nav-icon">
-              <FontAwesomeIcon icon={faBox} />
-            </span>
-          </Link>
-
-          <Link href="/admin/orders" className={`bottom-nav-item ${isActive('/admin/orders') ? 'active' : ''}`}>
-            <span className="bottom-nav-icon">
-              <FontAwesomeIcon icon={faShoppingCart} />
-            </span>
-          </Link>
-
-          <Link
-            href="/admin/promo-codes"
-            className={`bottom-nav-item ${isActive('/admin/promo-codes') ? 'active' : ''}`}
-          >
-            <span className="bottom-nav-icon">
-              <FontAwesomeIcon icon={faTicketAlt} />
-            </span>
-          </Link>
-
-          <Link href="/admin/users" className={`bottom-nav-item ${isActive('/admin/users') ? 'active' : ''}`}>
-            <span className="bottom-nav-icon">
-              <FontAwesomeIcon icon={faUsers} />
-            </span>
-          </Link>
-
-          <Link href="/admin/reviews" className={`bottom-nav-item ${isActive('/admin/reviews') ? 'active' : ''}`}>
-            <span className="bottom-nav-icon">
-              <FontAwesomeIcon icon={faStar} />
-            </span>
-          </Link>
-
-          <Link href="/admin/settings" className={`bottom-nav-item ${isActive('/admin/settings') ? 'active' : ''}`}>
-            <span className="bottom-nav-icon">
-              <FontAwesomeIcon icon={faCog} />
-            </span>
-          </Link>
+          {navItems.map((item) => (
+            <Link
+              key={item.href}
+              href={item.href}
+              className={`bottom-nav-item ${isActive(item.href) ? 'active' : ''}`}
+            >
+              <span className="bottom-nav-icon">
+                <FontAwesomeIcon icon={item.icon} />
+              </span>
+            </Link>
+          ))}
 
           <Link href="/" className="bottom-nav-item">
             <span className="bottom-nav-icon">
@@ -285,7 +233,7 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
           </button>
         </nav>
 
-        <main className="admin-main">{children}</main>
+        <main className="admin-main">{canViewCurrentPage ? children : null}</main>
       </div>
     </div>
   )
@@ -24,9 +24,17 @@ import {
   faHistory,
   faNotesMedical,
   faPhone,
+  faComments,
 } from '@fortawesome/free-solid-svg-icons'
 import { faWhatsapp } from '@fortawesome/free-brands-svg-icons'
 import RefundVerification from '@/components/admin/RefundVerification'
+import OrderRefunds from '@/components/admin/OrderRefunds'
+import OrderMessages from '@/components/ui/OrderMessages'
+import { CUSTOMIZATION_FIELD_TYPE_LABELS } from '@/lib/utils/customizationFields'
+import type { CustomizationFieldType } from '@/lib/db/models/Product'
+import type { IOrderDisplayCurrency } from '@/lib/db/models/Order'
+import { BASE_CURRENCY } from '@/lib/utils/currencyUtils'
+import { formatPrice } from '@/lib/utils/productUtils'
 import './order-detail.css'
 
 // Helper function to download images
@@ -101,6 +109,15 @@ interface OrderItem {
     uploadedImages?: string[]
     uploadedLogo?: string
     customizationNotes?: string
+    fields?: {
+      key: string
+      label: string
+      type: CustomizationFieldType
+      value?: string
+      url?: string
+      width?: number
+      height?: number
+    }[]
   }
 }
 
@@ -124,11 +141,13 @@ interface Order {
   subtotal?: number
   totalPromoDiscount?: number
   appliedPromoCodes?: string[]
+  currency?: string
+  displayCurrency?: IOrderDisplayCurrency
   tax?: number
   shipping?: number
   discount?: number
   orderStatus: 'pending' | 'processing' | 'completed' | 'cancelled'
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded'
+  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed'
   customizationStatus: 'none' | 'pending' | 'processing' | 'completed'
   hasCustomizableProducts: boolean
   createdAt: string
@@ -181,6 +200,8 @@ const paymentStatusColors = {
   paid: '#10b981',
   failed: '#ef4444',
   refunded: '#6b7280',
+  partially_refunded: '#8b5cf6',
+  disputed: '#dc2626',
   free: '#22c55e',
 }
 
@@ -202,7 +223,8 @@ export default function OrderDetailPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'details' | 'files' | 'history' | 'notes' | 'refund'>('details')
+  const [activeTab, setActiveTab] = useState<'details' | 'files' | 'messages' | 'history' | 'notes' | 'refund'>('details')
+  const [unreadMessages, setUnreadMessages] = useState(0)
 
   // Fetch order details
   const fetchOrder = async () => {
@@ -218,6 +240,7 @@ export default function OrderDetailPage() {
 
       const data = await response.json()
       setOrder(data.order)
+      setUnreadMessages(data.unreadMessages || 0)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch order details')
       console.error('Error fetching order:', err)
@@ -498,6 +521,10 @@ export default function OrderDetailPage() {
                   ? 'فشل'
                   : order.paymentStatus === 'refunded'
                   ? 'مسترد'
+                  : order.paymentStatus === 'partially_refunded'
+                  ? 'مسترد جزئياً'
+                  : order.paymentStatus === 'disputed'
+                  ? 'نزاع مفتوح'
                   : order.paymentStatus === 'free'
                   ? 'مجاني'
                   : order.paymentStatus}
@@ -554,6 +581,13 @@ export default function OrderDetailPage() {
               <FontAwesomeIcon icon={faFile} /> ملفات التصميم
             </button>
           )}
+          <button
+            className={`tab-btn ${activeTab === 'messages' ? 'active' : ''}`}
+            onClick={() => setActiveTab('messages')}
+          >
+            <FontAwesomeIcon icon={faComments} /> الرسائل
+            {unreadMessages > 0 && <span className="tab-badge">{unreadMessages}</span>}
+          </button>
           <button
             className={`tab-btn ${activeTab === 'history' ? 'active' : ''}`}
             onClick={() => setActiveTab('history')}
@@ -563,12 +597,12 @@ export default function OrderDetailPage() {
           <button className={`tab-btn ${activeTab === 'notes' ? 'active' : ''}`} onClick={() => setActiveTab('notes')}>
             <FontAwesomeIcon icon={faNotesMedical} /> الملاحظات
           </button>
-          {(order.paymentStatus === 'paid' || order.paymentStatus === 'refunded') && (
+          {['paid', 'partially_refunded', 'refunded', 'disputed'].includes(order.paymentStatus) && (
             <button
               className={`tab-btn ${activeTab === 'refund' ? 'active' : ''}`}
               onClick={() => setActiveTab('refund')}
             >
-              <FontAwesomeIcon icon={faCreditCard} /> تحقق من الاسترداد
+              <FontAwesomeIcon icon={faCreditCard} /> الاسترداد
             </button>
           )}
         </div>
@@ -817,6 +851,14 @@ export default function OrderDetailPage() {
                       <span>المجموع الكلي:</span>
                       <span>{formatCurrency(order.totalPrice || order.totalAmount || 0)}</span>
                     </div>
+                    {order.displayCurrency && order.displayCurrency.code !== (order.currency || BASE_CURRENCY) && (
+                      <div className="summary-row display-currency">
+                        <span>
+                          المعروض للعميل ({order.displayCurrency.code}، سعر الصرف {order.displayCurrency.rate}):
+                        </span>
+                        <span>{formatPrice(order.displayCurrency.totalPrice, order.displayCurrency.code)}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -852,6 +894,37 @@ export default function OrderDetailPage() {
                                 <h4>{item.productName}</h4>
                               </div>
 
+                              {/* Product-defined customization fields */}
+                              {item.customizations.fields && item.customizations.fields.length > 0 && (
+                                <div className="customization-section">
+                                  <h5>حقول التخصيص:</h5>
+                                  <div className="text-changes-preview">
+                                    {item.customizations.fields.map((field) => (
+                                      <div key={field.key} className="text-change-preview">
+                                        <span className="field-name">
+                                          {field.label} ({CUSTOMIZATION_FIELD_TYPE_LABELS[field.type]}):
+                                        </span>
+                                        {field.url ? (
+                                          <a href={field.url} target="_blank" rel="noopener noreferrer" className="field-value">
+                                            عرض الملف{field.width && field.height ? ` (${field.width}×${field.height})` : ''}
+                                          </a>
+                                        ) : field.type === 'color' ? (
+                                          <span className="field-value">
+                                            <span
+                                              className="admin-color-swatch"
+                                              style={{ backgroundColor: field.value, display: 'inline-block', verticalAlign: 'middle' }}
+                                            ></span>{' '}
+                                            {field.value}
+                                          </span>
+                                        ) : (
+                                          <span className="field-value">{field.value}</span>
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
                               {/* Colors Section */}
                               {item.customizations.colors && item.customizations.colors.length > 0 && (
                                 <div className="customization-section">
@@ -1084,6 +1157,10 @@ export default function OrderDetailPage() {
             </div>
           )}
 
+          {activeTab === 'messages' && (
+            <OrderMessages orderId={orderId} mode="staff" onRead={() => setUnreadMessages(0)} />
+          )}
+
           {activeTab === 'history' && (
             <div className="order-history">
               <h3>تاريخ الطلب</h3>
@@ -1165,6 +1242,7 @@ export default function OrderDetailPage() {
 
           {activeTab === 'refund' && (
             <div className="refund-tab">
+              <OrderRefunds orderId={orderId} onRefunded={fetchOrder} />
               <RefundVerification orderId={orderId} />
             </div>
           )}
@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useParams, useRouter } from 'next/navigation'
+import Image from 'next/image'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import {
   faArrowLeft,
@@ -14,6 +15,8 @@ import {
   faTrash,
   faPalette,
   faVideo,
+  faImage,
+  faLock,
 } from '@fortawesome/free-solid-svg-icons'
 import FileUpload, { UploadProgress } from '@/components/ui/FileUpload'
 import { useFileUpload } from '@/hooks/useFileUpload'
@@ -56,6 +59,43 @@ interface DesignFile {
   uploadedAt: string
   downloadCount: number
   isForOrder: boolean
+  pendingApproval?: boolean
+}
+
+type ProofStatus = 'none' | 'awaiting_review' | 'revision_requested' | 'approved'
+
+interface ProofRound {
+  round: number
+  previewUrl: string
+  designerNote?: string
+  uploadedBy: string
+  uploadedAt: string
+  status: 'pending' | 'approved' | 'revision_requested'
+  customerComment?: string
+  respondedAt?: string
+}
+
+interface ProofItem {
+  itemIndex: number
+  productName: string
+  deliveryStatus: string
+  proofStatus: ProofStatus
+  revisionRoundsAllowed: number | null
+  revisionsLeft: number
+  proofs: ProofRound[]
+}
+
+const PROOF_STATUS_LABELS: Record<ProofStatus, string> = {
+  none: 'لم تُرفع بروفة بعد',
+  awaiting_review: 'بانتظار مراجعة العميل',
+  revision_requested: 'طلب العميل تعديلات',
+  approved: 'وافق العميل',
+}
+
+const ROUND_STATUS_LABELS: Record<ProofRound['status'], string> = {
+  pending: 'بانتظار المراجعة',
+  approved: 'موافق عليها',
+  revision_requested: 'طُلب تعديلها',
 }
 
 interface UploadedFile {
@@ -90,6 +130,10 @@ export default function OrderUploadPage() {
     status: 'idle',
   })
 
+  const [proofItems, setProofItems] = useState<ProofItem[]>([])
+  const [proofForms, setProofForms] = useState<Record<number, { file: File | null; note: string }>>({})
+  const [proofUploading, setProofUploading] = useState<number | null>(null)
+
   const [formData, setFormData] = useState<UploadFormData>({
     productId: '',
     productSlug: '',
@@ -125,7 +169,7 @@ export default function OrderUploadPage() {
   })
 
   // Fetch order details
-  const fetchOrder = async () => {
+  const fetchOrder = useCallback(async () => {
     try {
       const response = await fetch(`/api/admin/orders/${orderId}`)
       if (!response.ok) throw new Error('Failed to fetch order')
@@ -144,10 +188,10 @@ export default function OrderUploadPage() {
     } finally {
       setLoading(false)
     }
-  }
+  }, [orderId])
 
   // Fetch existing design files
-  const fetchDesignFiles = async () => {
+  const fetchDesignFiles = useCallback(async () => {
     try {
       const response = await fetch(`/api/admin/orders/${orderId}/upload-files`)
       if (!response.ok) throw new Error('Failed to fetch design files')
@@ -158,12 +202,25 @@ export default function OrderUploadPage() {
     } catch (err) {
       console.error('Error fetching design files:', err)
     }
-  }
+  }, [orderId])
+
+  // Fetch proof rounds of items that need customer approval
+  const fetchProofs = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/proofs`)
+      if (!response.ok) throw new Error('Failed to fetch proofs')
+      const data = await response.json()
+      setProofItems(data.data?.items || [])
+    } catch (err) {
+      console.error('Error fetching proofs:', err)
+    }
+  }, [orderId])
 
   useEffect(() => {
     fetchOrder()
     fetchDesignFiles()
-  }, [orderId])
+    fetchProofs()
+  }, [fetchOrder, fetchDesignFiles, fetchProofs])
 
   // Handle file selection
   const handleFileSelect = async (file: File) => {
@@ -339,6 +396,41 @@ export default function OrderUploadPage() {
     }
   }
 
+  // Upload a proof for an item
+  const handleProofSubmit = async (itemIndex: number) => {
+    const proofForm = proofForms[itemIndex]
+    if (!proofForm?.file) {
+      setError('يرجى اختيار ملف البروفة')
+      return
+    }
+
+    setProofUploading(itemIndex)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const body = new FormData()
+      body.append('itemIndex', String(itemIndex))
+      body.append('file', proofForm.file)
+      body.append('note', proofForm.note)
+
+      const response = await fetch(`/api/admin/orders/${orderId}/proofs`, { method: 'POST', body })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to upload proof')
+      }
+
+      setSuccess('تم رفع البروفة وإرسالها للعميل للمراجعة')
+      setProofForms((prev) => ({ ...prev, [itemIndex]: { file: null, note: '' } }))
+      fetchProofs()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload proof')
+    } finally {
+      setProofUploading(null)
+    }
+  }
+
   // Handle file deletion
   const handleDeleteFile = async (fileId: string) => {
     if (!confirm('هل أنت متأكد من حذف هذا الملف؟ سيتم حذفه نهائياً من الخادم وقاعدة البيانات.')) return
@@ -655,6 +747,116 @@ export default function OrderUploadPage() {
               </div>
             </form>
           </div>
+          {/* Proofs */}
+          {proofItems.length > 0 && (
+            <div className="files-section">
+              <h2>
+                <FontAwesomeIcon icon={faImage} /> البروفات ومراجعة العميل
+              </h2>
+              <p className="proof-hint">
+                ارفع معاينة للتصميم ليراجعها العميل. تُعرض المعاينة بعلامة مائية، ولا تُتاح الملفات النهائية للعميل إلا
+                بعد موافقته.
+              </p>
+
+              {proofItems.map((proofItem) => {
+                const proofForm = proofForms[proofItem.itemIndex] || { file: null, note: '' }
+                const canUploadProof =
+                  proofItem.proofStatus === 'none' || proofItem.proofStatus === 'revision_requested'
+
+                return (
+                  <div key={proofItem.itemIndex} className="proof-item">
+                    <div className="proof-item-header">
+                      <h3>{proofItem.productName}</h3>
+                      <span className={`proof-status proof-status-${proofItem.proofStatus}`}>
+                        {PROOF_STATUS_LABELS[proofItem.proofStatus]}
+                      </span>
+                      <span className="proof-meta">
+                        جولات التعديل المتبقية: {proofItem.revisionsLeft}
+                        {proofItem.revisionRoundsAllowed !== null && ` من ${proofItem.revisionRoundsAllowed}`}
+                      </span>
+                    </div>
+
+                    {proofItem.proofs.length > 0 && (
+                      <div className="proof-rounds">
+                        {proofItem.proofs.map((proof) => (
+                          <div key={proof.round} className="proof-round">
+                            <a href={proof.previewUrl} target="_blank" rel="noopener noreferrer">
+                              <Image
+                                src={proof.previewUrl}
+                                alt={`البروفة ${proof.round}`}
+                                width={160}
+                                height={120}
+                                unoptimized
+                                className="proof-preview"
+                              />
+                            </a>
+                            <div className="proof-round-info">
+                              <strong>البروفة {proof.round}</strong>
+                              <span className={`proof-status proof-round-${proof.status}`}>
+                                {ROUND_STATUS_LABELS[proof.status]}
+                              </span>
+                              <span className="proof-meta">
+                                {proof.uploadedBy} - {new Date(proof.uploadedAt).toLocaleString('ar-EG')}
+                              </span>
+                              {proof.designerNote && <p>ملاحظة المصمم: {proof.designerNote}</p>}
+                              {proof.customerComment && <p className="proof-comment">رد العميل: {proof.customerComment}</p>}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {canUploadProof && (
+                      <div className="proof-upload">
+                        <input
+                          type="file"
+                          accept=".jpg,.jpeg,.png,.webp,.pdf"
+                          onChange={(e) =>
+                            setProofForms((prev) => ({
+                              ...prev,
+                              [proofItem.itemIndex]: { ...proofForm, file: e.target.files?.[0] || null },
+                            }))
+                          }
+                          className="form-input"
+                        />
+                        <textarea
+                          value={proofForm.note}
+                          onChange={(e) =>
+                            setProofForms((prev) => ({
+                              ...prev,
+                              [proofItem.itemIndex]: { ...proofForm, note: e.target.value },
+                            }))
+                          }
+                          placeholder="ملاحظة للعميل (اختياري)..."
+                          className="form-textarea"
+                          rows={2}
+                          maxLength={2000}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleProofSubmit(proofItem.itemIndex)}
+                          disabled={proofUploading !== null || !proofForm.file}
+                          className="btn btn-primary"
+                        >
+                          {proofUploading === proofItem.itemIndex ? (
+                            <>
+                              <FontAwesomeIcon icon={faSpinner} spin /> جاري الرفع...
+                            </>
+                          ) : (
+                            <>
+                              <FontAwesomeIcon icon={faUpload} />{' '}
+                              {proofItem.proofs.length > 0 ? 'رفع بروفة معدلة' : 'رفع البروفة'}
+                            </>
+                          )}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
           {/* Existing Files */}
           <div className="files-section">
             <h2>
@@ -687,6 +889,11 @@ export default function OrderUploadPage() {
                             <FontAwesomeIcon icon={faPalette} /> {file.colorName}
                           </span>
                         )}
+                        {file.pendingApproval && (
+                          <span className="color-badge locked-badge">
+                            <FontAwesomeIcon icon={faLock} /> بانتظار موافقة العميل
+                          </span>
+                        )}
                       </div>
 
                       {file.description && <p className="file-description">{file.description}</p>}
@@ -28,6 +28,7 @@ import {
   faSortUp,
   faSortDown,
   faExclamationTriangle,
+  faComments,
 } from '@fortawesome/free-solid-svg-icons'
 import { useRouter } from 'next/navigation'
 
@@ -55,7 +56,7 @@ interface Order {
   totalPromoDiscount?: number
   appliedPromoCodes?: string[]
   orderStatus: 'pending' | 'processing' | 'completed' | 'cancelled'
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded'
+  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed'
   customizationStatus: 'none' | 'pending' | 'processing' | 'completed'
   hasCustomizableProducts: boolean
   createdAt: string
@@ -64,6 +65,7 @@ interface Order {
   actualDelivery?: string
   adminNotes?: string
   customerNotes?: string
+  unreadMessages?: number
 }
 
 interface OrderStats {
@@ -103,6 +105,8 @@ const paymentStatusColors = {
   paid: '#10b981',
   failed: '#ef4444',
   refunded: '#6b7280',
+  partially_refunded: '#8b5cf6',
+  disputed: '#dc2626',
   free: '#22c55e',
 }
 
@@ -488,6 +492,11 @@ export default function OrdersPage() {
                     <tr key={order._id}>
                       <td>
                         <span className="order-id">{order.orderNumber}</span>
+                        {!!order.unreadMessages && (
+                          <span className="unread-messages-badge" title="رسائل غير مقروءة من العميل">
+                            <FontAwesomeIcon icon={faComments} /> {order.unreadMessages}
+                          </span>
+                        )}
                       </td>
                       <td>
                         <div className="customer-info">
@@ -547,6 +556,10 @@ export default function OrdersPage() {
                             ? 'فشل'
                             : order.paymentStatus === 'refunded'
                             ? 'مسترد'
+                            : order.paymentStatus === 'partially_refunded'
+                            ? 'مسترد جزئياً'
+                            : order.paymentStatus === 'disputed'
+                            ? 'نزاع مفتوح'
                             : order.paymentStatus === 'free'
                             ? 'مجاني'
                             : order.paymentStatus}
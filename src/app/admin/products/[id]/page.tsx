@@ -11,6 +11,10 @@ import FileUpload, { UploadProgress } from '@/components/ui/FileUpload'
 import CustomRichTextEditor from '@/components/ui/CustomRichTextEditor'
 import { useFileUpload } from '@/hooks/useFileUpload'
 import { getMimeType } from '@/lib/utils/clientUtils'
+import { generateSlug } from '@/lib/utils/slugUtils'
+import CustomizationFieldsEditor from '@/components/admin/CustomizationFieldsEditor'
+import { customizationFieldsSchema } from '@/lib/utils/customizationFields'
+import type { ICustomizationField } from '@/lib/db/models/Product'
 import '../products.css'
 
 interface Category {
@@ -43,6 +47,8 @@ interface ProductFormData {
   allowTextEditing: boolean
   allowImageReplacement: boolean
   allowLogoUpload: boolean
+  revisionRounds: number
+  customizationFields: ICustomizationField[]
   // Color themes (only shown if allowColorChanges = true)
   colors: {
     name: string
@@ -301,6 +307,8 @@ export default function EditProduct() {
     allowTextEditing: false,
     allowImageReplacement: false,
     allowLogoUpload: false,
+    revisionRounds: 2,
+    customizationFields: [],
     // Color themes
     colors: [],
     designFiles: [],
@@ -429,6 +437,8 @@ export default function EditProduct() {
           allowTextEditing: product.allowTextEditing ?? false,
           allowImageReplacement: product.allowImageReplacement ?? false,
           allowLogoUpload: product.allowLogoUpload ?? false,
+          revisionRounds: product.revisionRounds ?? 2,
+          customizationFields: product.customizationFields ?? [],
           colors:
             product.colors?.map((color: { name?: string; hex?: string; description?: string }) => {
               const colorName = color.name?.toLowerCase().replace(/[^a-z0-9]/g, '') || ''
@@ -486,12 +496,7 @@ export default function EditProduct() {
       let updatedData = { ...prev, [field]: value }
 
       if (field === 'name' && typeof value === 'string') {
-        const slug = value
-          .toLowerCase()
-          .replace(/[^a-z0-9\s-]/g, '')
-          .replace(/\s+/g, '-')
-          .replace(/-+/g, '-')
-          .replace(/^-|-$/g, '')
+        const slug = generateSlug(value)
 
         updatedData = { ...updatedData, slug }
       }
@@ -500,12 +505,7 @@ export default function EditProduct() {
         let formattedSlug = value
 
         if (value.includes(' ') || /[^a-z0-9-]/.test(value)) {
-          formattedSlug = value
-            .toLowerCase()
-            .replace(/[^a-z0-9\s-]/g, '')
-            .replace(/\s+/g, '-')
-            .replace(/-+/g, '-')
-            .replace(/^-|-$/g, '')
+          formattedSlug = generateSlug(value)
         }
 
         const hasFiles = prev.designFiles.some((df) => df.uploadedFiles.length > 0)
@@ -535,12 +535,7 @@ export default function EditProduct() {
         const newTimeout = setTimeout(() => {
           const newSlug = typeof value === 'string' ? value : ''
           if (newSlug.includes(' ') || /[^a-z0-9-]/.test(newSlug)) {
-            const formattedSlug = newSlug
-              .toLowerCase()
-              .replace(/[^a-z0-9\s-]/g, '')
-              .replace(/\s+/g, '-')
-              .replace(/-+/g, '-')
-              .replace(/^-|-$/g, '')
+            const formattedSlug = generateSlug(newSlug)
             handleSlugChange(formattedSlug)
           } else {
             handleSlugChange(newSlug)
@@ -581,6 +576,11 @@ export default function EditProduct() {
       return
     }
 
+    if (formData.EnableCustomizations && !customizationFieldsSchema.safeParse(formData.customizationFields).success) {
+      showWarning('حقول التخصيص غير مكتملة', 'تأكد من إدخال اسم ومعرّف فريد لكل حقل تخصيص وخيارات لكل قائمة اختيار')
+      return
+    }
+
     // Validate color variant files - each color must have at least one file
     if (formData.colors && formData.colors.length > 0) {
       const colorsWithoutFiles = []
@@ -1844,8 +1844,28 @@ export default function EditProduct() {
                       السماح برفع الشعار
                     </label>
                   </div>
+
+                  <div className="form-group">
+                    <label htmlFor="revisionRounds">عدد جولات التعديل المسموحة على البروفة</label>
+                    <input
+                      type="number"
+                      id="revisionRounds"
+                      value={formData.revisionRounds}
+                      onChange={(e) => handleInputChange('revisionRounds', parseInt(e.target.value) || 0)}
+                      min="0"
+                      max="10"
+                      step="1"
+                    />
+                  </div>
                 </div>
               )}
+
+              {formData.EnableCustomizations && (
+                <CustomizationFieldsEditor
+                  fields={formData.customizationFields}
+                  onChange={(fields) => handleInputChange('customizationFields', fields)}
+                />
+              )}
             </div>
 
             {/* Color Variants Section - Standalone */}
@@ -11,6 +11,10 @@ import FileUpload from '@/components/ui/FileUpload'
 import CustomRichTextEditor from '@/components/ui/CustomRichTextEditor'
 import { useFileUpload } from '@/hooks/useFileUpload'
 import { getMimeType } from '@/lib/utils/clientUtils'
+import { generateSlug } from '@/lib/utils/slugUtils'
+import CustomizationFieldsEditor from '@/components/admin/CustomizationFieldsEditor'
+import { customizationFieldsSchema } from '@/lib/utils/customizationFields'
+import type { ICustomizationField } from '@/lib/db/models/Product'
 import '../products.css'
 
 interface Category {
@@ -38,6 +42,8 @@ interface ProductFormData {
   allowTextEditing: boolean
   allowImageReplacement: boolean
   allowLogoUpload: boolean
+  revisionRounds: number
+  customizationFields: ICustomizationField[]
   // Color themes (only shown if allowColorChanges = true)
   colors: {
     name: string
@@ -97,6 +103,8 @@ export default function AddProduct() {
     allowTextEditing: false,
     allowImageReplacement: false,
     allowLogoUpload: false,
+    revisionRounds: 2,
+    customizationFields: [],
     // Color themes
     colors: [],
     designFiles: [],
@@ -157,12 +165,7 @@ export default function AddProduct() {
 
       if (field === 'name' && typeof value === 'string') {
         // Generate slug from name
-        const slug = value
-          .toLowerCase()
-          .replace(/[^a-z0-9\s-]/g, '') // Remove special characters except spaces and hyphens
-          .replace(/\s+/g, '-') // Replace spaces with hyphens
-          .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-          .replace(/^-|-$/g, '') // Remove leading/trailing hyphens
+        const slug = generateSlug(value)
 
         updatedData = { ...updatedData, slug }
       }
@@ -173,12 +176,7 @@ export default function AddProduct() {
         let formattedSlug = value
 
         if (value.includes(' ') || /[^a-z0-9-]/.test(value)) {
-          formattedSlug = value
-            .toLowerCase()
-            .replace(/[^a-z0-9\s-]/g, '') // Remove special characters except spaces and hyphens
-            .replace(/\s+/g, '-') // Replace spaces with hyphens
-            .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-            .replace(/^-|-$/g, '') // Remove leading/trailing hyphens
+          formattedSlug = generateSlug(value)
         }
 
         // Store original slug when files are first uploaded
@@ -216,12 +214,7 @@ export default function AddProduct() {
         const newTimeout = setTimeout(() => {
           const newSlug = typeof value === 'string' ? value : ''
           if (newSlug.includes(' ') || /[^a-z0-9-]/.test(newSlug)) {
-            const formattedSlug = newSlug
-              .toLowerCase()
-              .replace(/[^a-z0-9\s-]/g, '')
-              .replace(/\s+/g, '-')
-              .replace(/-+/g, '-')
-              .replace(/^-|-$/g, '')
+            const formattedSlug = generateSlug(newSlug)
             handleSlugChange(formattedSlug)
           } else {
             handleSlugChange(newSlug)
@@ -936,6 +929,11 @@ export default function AddProduct() {
       return
     }
 
+    if (formData.EnableCustomizations && !customizationFieldsSchema.safeParse(formData.customizationFields).success) {
+      showWarning('حقول التخصيص غير مكتملة', 'تأكد من إدخال اسم ومعرّف فريد لكل حقل تخصيص وخيارات لكل قائمة اختيار')
+      return
+    }
+
     // Validate color variant files - each color must have at least one file
     if (formData.colors && formData.colors.length > 0) {
       const colorsWithoutFiles = []
@@ -1758,8 +1756,28 @@ export default function AddProduct() {
                       السماح برفع الشعار
                     </label>
                   </div>
+
+                  <div className="form-group">
+                    <label htmlFor="revisionRounds">عدد جولات التعديل المسموحة على البروفة</label>
+                    <input
+                      type="number"
+                      id="revisionRounds"
+                      value={formData.revisionRounds}
+                      onChange={(e) => handleInputChange('revisionRounds', parseInt(e.target.value) || 0)}
+                      min="0"
+                      max="10"
+                      step="1"
+                    />
+                  </div>
                 </div>
               )}
+
+              {formData.EnableCustomizations && (
+                <CustomizationFieldsEditor
+                  fields={formData.customizationFields}
+                  onChange={(fields) => handleInputChange('customizationFields', fields)}
+                />
+              )}
             </div>
 
             {/* Color Variants Section - Standalone */}
@@ -8,6 +8,7 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { faArrowRight } from '@fortawesome/free-solid-svg-icons'
 import PromoCodeForm from '@/components/admin/PromoCodeForm'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import { hasPermission } from '@/lib/auth/permissions'
 import '../../new/new-promo-code.css'
 
 interface PromoCode {
@@ -51,7 +52,7 @@ export default function EditPromoCodePage() {
   useEffect(() => {
     if (status === 'loading') return
 
-    if (!session || session.user.role !== 'admin') {
+    if (!session || !hasPermission(session.user.role, 'promoCodes.write')) {
       router.push('/access-denied')
       return
     }
@@ -96,7 +97,7 @@ export default function EditPromoCodePage() {
     )
   }
 
-  if (!session || session.user.role !== 'admin') {
+  if (!session || !hasPermission(session.user.role, 'promoCodes.write')) {
     return null
   }
 
@@ -8,6 +8,7 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { faArrowRight } from '@fortawesome/free-solid-svg-icons'
 import PromoCodeForm from '@/components/admin/PromoCodeForm'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import { hasPermission } from '@/lib/auth/permissions'
 import './new-promo-code.css'
 
 export default function NewPromoCodePage() {
@@ -18,7 +19,7 @@ export default function NewPromoCodePage() {
   useEffect(() => {
     if (status === 'loading') return
 
-    if (!session || session.user.role !== 'admin') {
+    if (!session || !hasPermission(session.user.role, 'promoCodes.write')) {
       router.push('/access-denied')
     }
   }, [session, status, router])
@@ -32,7 +33,7 @@ export default function NewPromoCodePage() {
     )
   }
 
-  if (!session || session.user.role !== 'admin') {
+  if (!session || !hasPermission(session.user.role, 'promoCodes.write')) {
     return null
   }
 
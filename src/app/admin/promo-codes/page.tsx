@@ -17,6 +17,7 @@ import {
   faToggleOff,
   faFilter,
 } from '@fortawesome/free-solid-svg-icons'
+import { hasPermission } from '@/lib/auth/permissions'
 import './promo-codes.css'
 
 // Define PromoCode type
@@ -84,7 +85,7 @@ export default function AdminPromoCodesPage() {
   // Redirect if not admin - only run once on mount
   useEffect(() => {
     if (status === 'loading') return
-    if (!session?.user || session.user.role !== 'admin') {
+    if (!session?.user || !hasPermission(session.user.role, 'promoCodes.read')) {
       router.push('/auth/signin')
       return
     }
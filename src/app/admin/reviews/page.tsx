@@ -8,18 +8,38 @@ import { faUser, faStar } from '@fortawesome/free-solid-svg-icons'
 import { faStar as faStarRegular } from '@fortawesome/free-regular-svg-icons'
 import './reviews.css'
 
+type ReviewStatus = 'pending' | 'approved' | 'rejected'
+
 interface Review {
   _id: string
   name: string
   rating: number
   text: string
   avatar: string
+  status?: ReviewStatus
   isActive: boolean
+  isVerifiedPurchase?: boolean
+  productId?: {
+    _id: string
+    name: string
+    slug: string
+  } | null
+  rejectionReason?: string
   order: number
   createdAt: string
   updatedAt: string
 }
 
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'بانتظار المراجعة',
+  approved: 'منشور',
+  rejected: 'مرفوض',
+}
+
+// Reviews from before moderation states only have isActive
+const getReviewStatus = (review: Review): ReviewStatus =>
+  review.status || (review.isActive ? 'approved' : 'pending')
+
 interface Pagination {
   page: number
   limit: number
@@ -43,6 +63,7 @@ export default function AdminReviews() {
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('all')
   const [ratingFilter, setRatingFilter] = useState('all')
+  const [typeFilter, setTypeFilter] = useState('all')
   const [deletingReview, setDeletingReview] = useState<string | null>(null)
   const [updatingReview, setUpdatingReview] = useState<string | null>(null)
 
@@ -57,6 +78,7 @@ export default function AdminReviews() {
       searchTerm: string
       statusFilter: string
       ratingFilter: string
+      typeFilter: string
     }) => {
       try {
         setLoading(true)
@@ -69,6 +91,7 @@ export default function AdminReviews() {
           search: params.searchTerm,
           status: params.statusFilter,
           rating: params.ratingFilter,
+          type: params.typeFilter,
         })
 
         const url = `/api/admin/reviews?${searchParams}`
@@ -115,6 +138,7 @@ export default function AdminReviews() {
         searchTerm: '',
         statusFilter: 'all',
         ratingFilter: 'all',
+        typeFilter: 'all',
       })
     }
   }, [])
@@ -134,6 +158,7 @@ export default function AdminReviews() {
         searchTerm,
         statusFilter,
         ratingFilter,
+        typeFilter,
       })
     }, 500)
 
@@ -142,7 +167,7 @@ export default function AdminReviews() {
         clearTimeout(searchTimeoutRef.current)
       }
     }
-  }, [searchTerm, statusFilter, ratingFilter])
+  }, [searchTerm, statusFilter, ratingFilter, typeFilter])
 
   const handlePageChange = (newPage: number) => {
     fetchReviews({
@@ -151,6 +176,7 @@ export default function AdminReviews() {
       searchTerm,
       statusFilter,
       ratingFilter,
+      typeFilter,
     })
   }
 
@@ -190,34 +216,34 @@ export default function AdminReviews() {
     }
   }
 
-  const handleUpdateReviewStatus = async (reviewId: string, isActive: boolean) => {
+  const handleUpdateReviewStatus = async (reviewId: string, status: ReviewStatus) => {
+    let rejectionReason: string | undefined
+    if (status === 'rejected') {
+      const reason = prompt('سبب الرفض (اختياري):')
+      if (reason === null) return
+      rejectionReason = reason.trim() || undefined
+    }
+
     try {
       setUpdatingReview(reviewId)
-      console.log('Updating review:', reviewId, 'to isActive:', isActive)
 
       const response = await fetch(`/api/admin/reviews/${reviewId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ isActive }),
+        body: JSON.stringify({ status, rejectionReason }),
       })
 
       const result = await response.json()
-      console.log('Update response:', result)
 
       if (!response.ok) {
         throw new Error(result.message || 'Failed to update review status')
       }
 
       if (result.success) {
-        // Update the review status in state
-        setReviews((prev) => {
-          const updatedReviews = prev.map((review) => (review._id === reviewId ? { ...review, isActive } : review))
-          console.log('Updated reviews state:', updatedReviews)
-          return updatedReviews
-        })
-        console.log('Review status updated successfully')
+        // Replace the review with the moderated version
+        setReviews((prev) => prev.map((review) => (review._id === reviewId ? result.data : review)))
       } else {
         alert(result.message || 'Failed to update review status')
       }
@@ -284,8 +310,15 @@ export default function AdminReviews() {
           <div className="filters-section">
             <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className="filter-select">
               <option value="all">جميع الحالات</option>
-              <option value="true">نشط</option>
-              <option value="false">غير نشط</option>
+              <option value="pending">{STATUS_LABELS.pending}</option>
+              <option value="approved">{STATUS_LABELS.approved}</option>
+              <option value="rejected">{STATUS_LABELS.rejected}</option>
+            </select>
+
+            <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} className="filter-select">
+              <option value="all">جميع الأنواع</option>
+              <option value="product">تقييمات المنتجات</option>
+              <option value="store">تقييمات المتجر</option>
             </select>
 
             <select value={ratingFilter} onChange={(e) => setRatingFilter(e.target.value)} className="filter-select">
@@ -337,16 +370,19 @@ export default function AdminReviews() {
                     </div>
                   </div>
                   <div className="review-status">
-                    <span className={`status-badge ${review.isActive ? 'approved' : 'rejected'}`}>
-                      {review.isActive ? 'نشط' : 'غير نشط'}
+                    <span className={`status-badge ${getReviewStatus(review)}`}>
+                      {STATUS_LABELS[getReviewStatus(review)]}
                     </span>
+                    {review.isVerifiedPurchase && <span className="status-badge verified">✓ شراء موثق</span>}
                   </div>
                 </div>
 
                 <div className="review-card-body">
                   <div className="review-customer-info">
                     <div className="customer-name">{review.name}</div>
-                    <div className="customer-email">تقييم العميل</div>
+                    <div className="customer-email">
+                      {review.productId ? `تقييم المنتج: ${review.productId.name}` : 'تقييم المتجر'}
+                    </div>
                   </div>
 
                   <div className="review-rating">
@@ -356,17 +392,31 @@ export default function AdminReviews() {
 
                   <div className="review-content">
                     <div className="review-comment">{review.text}</div>
+                    {getReviewStatus(review) === 'rejected' && review.rejectionReason && (
+                      <div className="review-rejection-reason">سبب الرفض: {review.rejectionReason}</div>
+                    )}
                   </div>
                 </div>
 
                 <div className="review-card-actions">
-                  <button
-                    onClick={() => handleUpdateReviewStatus(review._id, !review.isActive)}
-                    disabled={updatingReview === review._id}
-                    className={`action-btn ${review.isActive ? 'disapprove-btn' : 'approve-btn'}`}
-                  >
-                    {updatingReview === review._id ? 'جاري...' : review.isActive ? 'إلغاء التفعيل' : 'تفعيل'}
-                  </button>
+                  {getReviewStatus(review) !== 'approved' && (
+                    <button
+                      onClick={() => handleUpdateReviewStatus(review._id, 'approved')}
+                      disabled={updatingReview === review._id}
+                      className="action-btn approve-btn"
+                    >
+                      {updatingReview === review._id ? 'جاري...' : 'نشر'}
+                    </button>
+                  )}
+                  {getReviewStatus(review) !== 'rejected' && (
+                    <button
+                      onClick={() => handleUpdateReviewStatus(review._id, 'rejected')}
+                      disabled={updatingReview === review._id}
+                      className="action-btn disapprove-btn"
+                    >
+                      {updatingReview === review._id ? 'جاري...' : 'رفض'}
+                    </button>
+                  )}
                   <button
                     onClick={() => handleDeleteReview(review._id)}
                     disabled={deletingReview === review._id}
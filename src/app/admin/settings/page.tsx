@@ -6,6 +6,16 @@ import { useRouter } from 'next/navigation'
 import FileUpload from '@/components/ui/FileUpload'
 import Alert, { useAlerts } from '@/components/ui/Alert'
 import { useFileUpload } from '@/hooks/useFileUpload'
+import { hasPermission } from '@/lib/auth/permissions'
+import type { IStoreStatMetric, StoreStatKey } from '@/lib/db/models/SiteSettings'
+import {
+  STORE_STAT_DEFINITIONS,
+  StoreStatsSettings,
+  formatStatValue,
+  resolveStoreStatsSettings,
+} from '@/lib/utils/storeStatsUtils'
+import type { ICurrencyRate } from '@/lib/db/models/SiteSettings'
+import { BASE_CURRENCY, CURRENCIES, formatCurrency, resolveCurrencyRates } from '@/lib/utils/currencyUtils'
 import './settings.css'
 import Image from 'next/image'
 
@@ -58,10 +68,16 @@ export default function AdminSettingsPage() {
   const router = useRouter()
 
   const [activeTab, setActiveTab] = useState<
-    'branding' | 'social' | 'hero' | 'faq' | 'discord' | 'categories' | 'clients'
+    'branding' | 'social' | 'hero' | 'faq' | 'discord' | 'categories' | 'clients' | 'checkout' | 'stats' | 'currency'
   >('branding')
   const [branding, setBranding] = useState<Branding>({})
   const [social, setSocial] = useState<Social>({})
+  const [checkout, setCheckout] = useState<{ requireVerifiedEmail?: boolean }>({})
+  const [storeStats, setStoreStats] = useState<StoreStatsSettings>(() => resolveStoreStatsSettings())
+  const [currencyRates, setCurrencyRates] = useState<ICurrencyRate[]>(() => resolveCurrencyRates())
+  const [ratesInfo, setRatesInfo] = useState<{ source?: 'manual' | 'import'; ratesUpdatedAt?: string }>({})
+  const [importingRates, setImportingRates] = useState(false)
+  const [statValues, setStatValues] = useState<Partial<Record<StoreStatKey, number>>>({})
   const [saving, setSaving] = useState(false)
   const { alerts, showSuccess, showError } = useAlerts()
   const [resetKey, setResetKey] = useState(0)
@@ -105,7 +121,7 @@ export default function AdminSettingsPage() {
 
   useEffect(() => {
     if (status === 'loading') return
-    if (!session || session.user.role !== 'admin') router.push('/access-denied')
+    if (!session || !hasPermission(session.user.role, 'settings.write')) router.push('/access-denied')
   }, [status, session, router])
 
   useEffect(() => {
@@ -115,6 +131,10 @@ export default function AdminSettingsPage() {
         if (res?.data) {
           setBranding(res.data.branding || {})
           setSocial(res.data.social || {})
+          setCheckout(res.data.checkout || {})
+          setStoreStats(resolveStoreStatsSettings(res.data.storeStats))
+          setCurrencyRates(resolveCurrencyRates(res.data.currency?.rates))
+          setRatesInfo({ source: res.data.currency?.source, ratesUpdatedAt: res.data.currency?.ratesUpdatedAt })
           const initialDiscord = res.data.discordBanner || {}
           setDiscord(initialDiscord)
           const hadDiscord = Boolean(
@@ -146,6 +166,9 @@ export default function AdminSettingsPage() {
     if (activeTab === 'clients') {
       void fetchClients()
     }
+    if (activeTab === 'stats') {
+      void fetchStatValues()
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTab])
 
@@ -611,6 +634,149 @@ const {
     }
   }
 
+  const saveCheckout = async () => {
+    try {
+      setSaving(true)
+      const res = await fetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ checkout: { requireVerifiedEmail: !!checkout.requireVerifiedEmail } }),
+      })
+      setSaving(false)
+      if (!res.ok) {
+        const err = await res.text()
+        showError('فشل الحفظ', err || 'تعذر حفظ إعدادات الطلبات')
+        return
+      }
+      showSuccess('تم الحفظ', 'تم حفظ إعدادات الطلبات بنجاح')
+    } catch (e) {
+      setSaving(false)
+      const message = e instanceof Error ? e.message : 'حدث خطأ غير متوقع'
+      showError('فشل الحفظ', message)
+    }
+  }
+
+  // Store stats: real values for the preview, metric rules and cache period
+  const fetchStatValues = async () => {
+    try {
+      const r = await fetch('/api/admin/settings/store-stats')
+      const res = await r.json()
+      if (r.ok) setStatValues(res.data || {})
+    } catch (e) {
+      console.error('Failed to load store stats', e)
+    }
+  }
+
+  const updateStatMetric = (key: StoreStatKey, changes: Partial<IStoreStatMetric>) => {
+    setStoreStats((s) => ({
+      ...s,
+      metrics: s.metrics.map((m) => (m.key === key ? { ...m, ...changes } : m)),
+    }))
+  }
+
+  const moveStatMetric = (index: number, direction: -1 | 1) => {
+    setStoreStats((s) => {
+      const target = index + direction
+      if (target < 0 || target >= s.metrics.length) return s
+      const metrics = [...s.metrics]
+      ;[metrics[index], metrics[target]] = [metrics[target], metrics[index]]
+      return { ...s, metrics }
+    })
+  }
+
+  const saveStoreStats = async () => {
+    try {
+      setSaving(true)
+      const res = await fetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          storeStats: {
+            metrics: storeStats.metrics.map((m) => ({
+              key: m.key,
+              enabled: m.enabled,
+              label: m.label?.trim() || undefined,
+              subtitle: m.subtitle?.trim() || undefined,
+              roundTo: m.roundTo || 0,
+              showPlus: !!m.showPlus,
+              minimum: m.minimum || 0,
+            })),
+            revalidateSeconds: storeStats.revalidateSeconds,
+          },
+        }),
+      })
+      setSaving(false)
+      if (!res.ok) {
+        const err = await res.text()
+        showError('فشل الحفظ', err || 'تعذر حفظ إعدادات الإحصائيات')
+        return
+      }
+      showSuccess('تم الحفظ', 'تم حفظ إعدادات الإحصائيات بنجاح')
+    } catch (e) {
+      setSaving(false)
+      const message = e instanceof Error ? e.message : 'حدث خطأ غير متوقع'
+      showError('فشل الحفظ', message)
+    }
+  }
+
+  // Currencies: display-only exchange rates against the base currency
+  const updateCurrencyRate = (code: string, changes: Partial<ICurrencyRate>) => {
+    setCurrencyRates((rates) => rates.map((r) => (r.code === code ? { ...r, ...changes } : r)))
+  }
+
+  const saveCurrencyRates = async () => {
+    const missingRate = currencyRates.find((r) => r.enabled && !(r.rate > 0))
+    if (missingRate) {
+      showError('سعر صرف مطلوب', `أدخل سعر صرف أكبر من صفر لعملة ${CURRENCIES[missingRate.code].name}`)
+      return
+    }
+
+    try {
+      setSaving(true)
+      const res = await fetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency: { rates: currencyRates } }),
+      })
+      setSaving(false)
+      if (!res.ok) {
+        const err = await res.text()
+        showError('فشل الحفظ', err || 'تعذر حفظ أسعار الصرف')
+        return
+      }
+      setRatesInfo({ source: 'manual', ratesUpdatedAt: new Date().toISOString() })
+      showSuccess('تم الحفظ', 'تم حفظ أسعار الصرف بنجاح')
+    } catch (e) {
+      setSaving(false)
+      const message = e instanceof Error ? e.message : 'حدث خطأ غير متوقع'
+      showError('فشل الحفظ', message)
+    }
+  }
+
+  const importCurrencyRates = async (file: File) => {
+    try {
+      setImportingRates(true)
+      const res = await fetch('/api/admin/settings/currency-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      })
+      const data = await res.json().catch(() => ({}))
+      setImportingRates(false)
+      if (!res.ok) {
+        showError('فشل الاستيراد', data.error || 'تعذر استيراد ملف أسعار الصرف')
+        return
+      }
+      setCurrencyRates(data.data)
+      setRatesInfo({ source: 'import', ratesUpdatedAt: new Date().toISOString() })
+      showSuccess('تم الاستيراد', `تم تحديث أسعار: ${(data.imported || []).join('، ')}`)
+    } catch (e) {
+      setImportingRates(false)
+      const message = e instanceof Error ? e.message : 'حدث خطأ غير متوقع'
+      showError('فشل الاستيراد', message)
+    }
+  }
+
   // Featured clients CRUD
   const {
     uploadFile: uploadClientImage,
@@ -689,7 +855,7 @@ const {
     }
   }
 
-  if (status === 'loading' || !session || session.user.role !== 'admin') return null
+  if (status === 'loading' || !session || !hasPermission(session.user.role, 'settings.write')) return null
 
   return (
     <div className="admin-settings-container">
@@ -714,6 +880,9 @@ const {
             ['discord', 'قسم الديسكورد'],
             ['categories', 'بانر الأقسام'],
             ['clients', 'العملاء المميزون'],
+            ['checkout', 'الطلبات'],
+            ['stats', 'إحصائيات المتجر'],
+            ['currency', 'العملات'],
           ] as const
         ).map(([key, label]) => (
           <button key={key} className={`tab ${activeTab === key ? 'active' : ''}`} onClick={() => setActiveTab(key)}>
@@ -1196,6 +1365,259 @@ const {
         </div>
       )}
 
+      {activeTab === 'checkout' && (
+        <div className="checkout-tab">
+          <h2 className="section-title">إعدادات الطلبات</h2>
+          <div className="grid" style={{ display: 'grid', gap: '1rem', gridTemplateColumns: '1fr' }}>
+            <div className="card">
+              <div className="form-group">
+                <label className="checkbox-row" htmlFor="require-verified-email">
+                  <input
+                    id="require-verified-email"
+                    type="checkbox"
+                    checked={!!checkout.requireVerifiedEmail}
+                    onChange={(e) => setCheckout((c) => ({ ...c, requireVerifiedEmail: e.target.checked }))}
+                  />
+                  <span className="nice-label">اشتراط تأكيد البريد الإلكتروني قبل إتمام الطلب</span>
+                </label>
+                <span className="input-hint">
+                  عند التفعيل، لن يتمكن العملاء الذين لم يؤكدوا بريدهم الإلكتروني من إنشاء طلبات جديدة حتى يؤكدوه
+                </span>
+              </div>
+            </div>
+          </div>
+          <div className="save-row" style={{ marginTop: '1rem' }}>
+            <button className="btn btn-primary" onClick={saveCheckout} disabled={saving}>
+              {saving ? 'جار الحفظ...' : 'حفظ الإعدادات'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'currency' && (
+        <div className="currency-tab">
+          <h2 className="section-title">عملات العرض</h2>
+          <p className="input-hint">
+            الأسعار محفوظة بعملة {BASE_CURRENCY} ويتم الدفع عبر PayPal بها دائماً. العملات المفعّلة هنا تظهر للعملاء
+            لعرض الأسعار فقط، ويُسجَّل في كل طلب العملة وسعر الصرف المعروضين وقت الشراء.
+          </p>
+          {ratesInfo.ratesUpdatedAt && (
+            <p className="input-hint">
+              آخر تحديث: {new Date(ratesInfo.ratesUpdatedAt).toLocaleString('ar-EG')} (
+              {ratesInfo.source === 'import' ? 'استيراد من ملف' : 'إدخال يدوي'})
+            </p>
+          )}
+
+          <div className="card">
+            <div className="form-group">
+              <label className="nice-label" htmlFor="rates-file">
+                استيراد أسعار الصرف من ملف JSON
+              </label>
+              <input
+                id="rates-file"
+                type="file"
+                accept="application/json,.json"
+                disabled={importingRates}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) void importCurrencyRates(file)
+                  e.target.value = ''
+                }}
+              />
+              <span className="input-hint">
+                {`مثال: { "base": "${BASE_CURRENCY}", "rates": { "SAR": 3.75, "AED": 3.6725 } }. تُحدَّث الأسعار مباشرة مع الإبقاء على حالة تفعيل كل عملة.`}
+              </span>
+            </div>
+          </div>
+
+          <div className="currency-rates">
+            {currencyRates
+              .filter((r) => r.code !== BASE_CURRENCY)
+              .map((r) => (
+                <div key={r.code} className={`card currency-rate ${r.enabled ? '' : 'disabled'}`}>
+                  <label className="checkbox-row">
+                    <input
+                      type="checkbox"
+                      checked={r.enabled}
+                      onChange={(e) => updateCurrencyRate(r.code, { enabled: e.target.checked })}
+                    />
+                    <span className="nice-label">
+                      {CURRENCIES[r.code].name} ({r.code})
+                    </span>
+                  </label>
+                  <div className="form-group">
+                    <label className="nice-label">1 {BASE_CURRENCY} =</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      className="text-input"
+                      value={r.rate || ''}
+                      onChange={(e) => updateCurrencyRate(r.code, { rate: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </div>
+                  {r.rate > 0 && (
+                    <span className="input-hint">
+                      {formatCurrency(100, BASE_CURRENCY)} ← {formatCurrency(100 * r.rate, r.code)}
+                    </span>
+                  )}
+                </div>
+              ))}
+          </div>
+
+          <div className="save-row" style={{ marginTop: '1rem' }}>
+            <button className="btn btn-primary" onClick={saveCurrencyRates} disabled={saving}>
+              {saving ? 'جار الحفظ...' : 'حفظ الإعدادات'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'stats' && (
+        <div className="stats-tab">
+          <h2 className="section-title">إحصائيات الصفحة الرئيسية</h2>
+          <p className="input-hint">
+            تُحسب الأرقام من الطلبات والمنتجات والتقييمات الفعلية. اختر ما يظهر وطريقة عرضه، والإحصائية التي لم تصل للحد
+            الأدنى لا تظهر.
+          </p>
+          <div className="stats-metrics">
+            {storeStats.metrics.map((metric, index) => {
+              const definition = STORE_STAT_DEFINITIONS[metric.key]
+              const realValue = statValues[metric.key]
+              const preview = realValue === undefined ? null : formatStatValue(realValue, metric)
+
+              return (
+                <div key={metric.key} className={`card stat-metric ${metric.enabled ? '' : 'disabled'}`}>
+                  <div className="stat-metric-header">
+                    <label className="checkbox-row">
+                      <input
+                        type="checkbox"
+                        checked={metric.enabled}
+                        onChange={(e) => updateStatMetric(metric.key, { enabled: e.target.checked })}
+                      />
+                      <span className="nice-label">
+                        {definition.icon} {definition.label}
+                      </span>
+                    </label>
+                    <div className="stat-metric-order">
+                      <button type="button" onClick={() => moveStatMetric(index, -1)} disabled={index === 0}>
+                        ▲
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveStatMetric(index, 1)}
+                        disabled={index === storeStats.metrics.length - 1}
+                      >
+                        ▼
+                      </button>
+                    </div>
+                  </div>
+                  <span className="input-hint">{definition.description}</span>
+
+                  <div className="stat-metric-grid">
+                    <div className="form-group">
+                      <label className="nice-label">العنوان</label>
+                      <input
+                        className="text-input"
+                        placeholder={definition.label}
+                        value={metric.label || ''}
+                        maxLength={50}
+                        onChange={(e) => updateStatMetric(metric.key, { label: e.target.value })}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label className="nice-label">النص الفرعي</label>
+                      <input
+                        className="text-input"
+                        placeholder={definition.subtitle}
+                        value={metric.subtitle || ''}
+                        maxLength={50}
+                        onChange={(e) => updateStatMetric(metric.key, { subtitle: e.target.value })}
+                      />
+                    </div>
+                    {metric.key !== 'averageRating' && (
+                      <div className="form-group">
+                        <label className="nice-label">التقريب للأسفل</label>
+                        <select
+                          className="text-input"
+                          value={metric.roundTo || 0}
+                          onChange={(e) => updateStatMetric(metric.key, { roundTo: Number(e.target.value) })}
+                        >
+                          <option value={0}>بدون تقريب</option>
+                          {[10, 50, 100, 500, 1000].map((step) => (
+                            <option key={step} value={step}>
+                              لأقرب {step}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    <div className="form-group">
+                      <label className="nice-label">الحد الأدنى للظهور</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={metric.key === 'averageRating' ? 0.1 : 1}
+                        className="text-input"
+                        value={metric.minimum || 0}
+                        onChange={(e) => updateStatMetric(metric.key, { minimum: Math.max(0, Number(e.target.value) || 0) })}
+                      />
+                    </div>
+                  </div>
+
+                  {metric.key !== 'averageRating' && (
+                    <label className="checkbox-row">
+                      <input
+                        type="checkbox"
+                        checked={!!metric.showPlus}
+                        onChange={(e) => updateStatMetric(metric.key, { showPlus: e.target.checked })}
+                      />
+                      <span className="nice-label">إظهار علامة + قبل الرقم</span>
+                    </label>
+                  )}
+
+                  <span className="input-hint">
+                    القيمة الحالية: {realValue === undefined ? '...' : Number(realValue.toFixed(2))} ← تظهر:{' '}
+                    <strong>{preview ?? 'مخفية'}</strong>
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="card stat-metric">
+            <div className="form-group">
+              <label className="nice-label" htmlFor="stats-revalidate">
+                مدة التخزين المؤقت (بالثواني)
+              </label>
+              <input
+                id="stats-revalidate"
+                type="number"
+                min={0}
+                max={86400}
+                className="text-input"
+                value={storeStats.revalidateSeconds}
+                onChange={(e) =>
+                  setStoreStats((s) => ({
+                    ...s,
+                    revalidateSeconds: Math.min(86400, Math.max(0, Math.floor(Number(e.target.value) || 0))),
+                  }))
+                }
+              />
+              <span className="input-hint">
+                تُعاد حساب الأرقام بعد انتهاء هذه المدة للحفاظ على سرعة الصفحة الرئيسية. القيمة 0 تعني الحساب مع كل زيارة.
+              </span>
+            </div>
+          </div>
+
+          <div className="save-row" style={{ marginTop: '1rem' }}>
+            <button className="btn btn-primary" onClick={saveStoreStats} disabled={saving}>
+              {saving ? 'جار الحفظ...' : 'حفظ الإعدادات'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {activeTab === 'hero' && (
         <div className="hero-tab">
           <h2 className="section-title">سلايدر الصفحة الرئيسية</h2>
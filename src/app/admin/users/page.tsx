@@ -27,14 +27,18 @@ import {
   faCheck,
   faTimes,
   faPlus,
+  faHeadset,
+  faPaintBrush,
 } from '@fortawesome/free-solid-svg-icons'
+import type { UserRole } from '@/lib/auth/types'
+import { ROLE_LABELS, hasPermission } from '@/lib/auth/permissions'
 import './users.css'
 
 interface User {
   _id: string
   name: string
   email: string
-  role: 'admin' | 'customer'
+  role: UserRole
   isActive?: boolean
   createdAt: string
   lastLogin?: string
@@ -79,7 +83,7 @@ export default function AdminUsers() {
       return
     }
 
-    if (session?.user?.role !== 'admin') {
+    if (!hasPermission(session?.user?.role, 'users.read')) {
       router.push('/customer/dashboard')
       return
     }
@@ -87,7 +91,7 @@ export default function AdminUsers() {
 
   const fetchUsers = useCallback(
     async (page = 1, showLoading = true) => {
-      if (session?.user?.role !== 'admin') return
+      if (!hasPermission(session?.user?.role, 'users.read')) return
 
       try {
         if (showLoading) setLoading(true)
@@ -143,7 +147,7 @@ export default function AdminUsers() {
 
   useEffect(() => {
     // Only fetch data if we haven't loaded it yet and user is admin
-    if (session?.user?.role === 'admin' && !dataLoadedRef.current) {
+    if (hasPermission(session?.user?.role, 'users.read') && !dataLoadedRef.current) {
       dataLoadedRef.current = true
       fetchUsers(1, true)
     }
@@ -152,7 +156,7 @@ export default function AdminUsers() {
   // Debounced search effect
   useEffect(() => {
     const timer = setTimeout(() => {
-      if (dataLoadedRef.current && session?.user?.role === 'admin') {
+      if (dataLoadedRef.current && hasPermission(session?.user?.role, 'users.read')) {
         fetchUsers(1, false)
       }
     }, 500)
@@ -185,7 +189,9 @@ export default function AdminUsers() {
     }
   }
 
-  const handleBulkAction = async (action: 'activate' | 'deactivate' | 'delete' | 'makeAdmin' | 'makeCustomer') => {
+  const handleBulkAction = async (
+    action: 'activate' | 'deactivate' | 'delete' | 'makeAdmin' | 'makeCustomer' | 'makeSupport' | 'makeDesigner'
+  ) => {
     if (selectedUsers.length === 0) return
 
     // Check if admin is trying to deactivate themselves
@@ -200,9 +206,12 @@ export default function AdminUsers() {
       return
     }
 
-    // Check if admin is trying to demote themselves to customer
-    if (action === 'makeCustomer' && selectedUsers.includes(session?.user?.id || '')) {
-      setError('لا يمكنك تحويل نفسك إلى عميل')
+    // Check if admin is trying to change their own role
+    if (
+      (action === 'makeCustomer' || action === 'makeSupport' || action === 'makeDesigner') &&
+      selectedUsers.includes(session?.user?.id || '')
+    ) {
+      setError('لا يمكنك تغيير دورك الخاص')
       return
     }
 
@@ -234,6 +243,10 @@ export default function AdminUsers() {
                 return { ...user, role: 'admin' as const }
               } else if (action === 'makeCustomer') {
                 return { ...user, role: 'customer' as const }
+              } else if (action === 'makeSupport') {
+                return { ...user, role: 'support' as const }
+              } else if (action === 'makeDesigner') {
+                return { ...user, role: 'designer' as const }
               } else if (action === 'delete') {
                 return null
               }
@@ -263,20 +276,17 @@ export default function AdminUsers() {
         return <FontAwesomeIcon icon={faCrown} className="role-icon admin" />
       case 'customer':
         return <FontAwesomeIcon icon={faUser} className="role-icon customer" />
+      case 'support':
+        return <FontAwesomeIcon icon={faHeadset} className="role-icon" />
+      case 'designer':
+        return <FontAwesomeIcon icon={faPaintBrush} className="role-icon" />
       default:
         return <FontAwesomeIcon icon={faUserTie} className="role-icon" />
     }
   }
 
   const getRoleText = (role: string) => {
-    switch (role) {
-      case 'admin':
-        return 'مدير'
-      case 'customer':
-        return 'عميل'
-      default:
-        return role
-    }
+    return ROLE_LABELS[role as UserRole] || role
   }
 
   // Helper functions to determine button visibility
@@ -294,16 +304,18 @@ export default function AdminUsers() {
     return selectedUsersData.some((user) => user.isActive !== false)
   }
 
+  const canManageUsers = hasPermission(session?.user?.role, 'users.write')
+
   const shouldShowMakeAdminButton = () => {
     const selectedUsersData = getSelectedUsersData()
-    return selectedUsersData.some((user) => user.role === 'customer')
+    return selectedUsersData.some((user) => user.role !== 'admin')
   }
 
-  const shouldShowMakeCustomerButton = () => {
+  // Only show if some selected users have another role AND the current admin is not among them
+  const shouldShowChangeRoleButton = (role: UserRole) => {
     const selectedUsersData = getSelectedUsersData()
-    // Only show if there are admins selected AND the current admin is not among them
     return (
-      selectedUsersData.some((user) => user.role === 'admin') &&
+      selectedUsersData.some((user) => user.role !== role) &&
       !selectedUsersData.some((user) => user._id === session?.user?.id)
     )
   }
@@ -328,7 +340,7 @@ export default function AdminUsers() {
     )
   }
 
-  if (!session || session.user.role !== 'admin') {
+  if (!session || !hasPermission(session.user.role, 'users.read')) {
     return null
   }
 
@@ -381,6 +393,8 @@ export default function AdminUsers() {
             <select value={roleFilter} onChange={(e) => setRoleFilter(e.target.value)} className="admin-filter-select">
               <option value="all">جميع الأدوار</option>
               <option value="admin">مدير</option>
+              <option value="support">دعم العملاء</option>
+              <option value="designer">مصمم</option>
               <option value="customer">عميل</option>
             </select>
 
@@ -408,7 +422,7 @@ export default function AdminUsers() {
         </div>
 
         {/* Bulk Actions */}
-        {selectedUsers.length > 0 && (
+        {canManageUsers && selectedUsers.length > 0 && (
           <div className="bulk-actions">
             <div className="bulk-info">تم تحديد {selectedUsers.length} مستخدم</div>
             <div className="bulk-buttons">
@@ -440,7 +454,25 @@ export default function AdminUsers() {
                   {bulkActionLoading ? 'جاري التحديث...' : 'تعيين كمدير'}
                 </button>
               )}
-              {shouldShowMakeCustomerButton() && (
+              {shouldShowChangeRoleButton('support') && (
+                <button
+                  onClick={() => handleBulkAction('makeSupport')}
+                  disabled={bulkActionLoading}
+                  className="admin-btn admin-btn-sm admin-btn-info"
+                >
+                  {bulkActionLoading ? 'جاري التحديث...' : 'تعيين كدعم عملاء'}
+                </button>
+              )}
+              {shouldShowChangeRoleButton('designer') && (
+                <button
+                  onClick={() => handleBulkAction('makeDesigner')}
+                  disabled={bulkActionLoading}
+                  className="admin-btn admin-btn-sm admin-btn-info"
+                >
+                  {bulkActionLoading ? 'جاري التحديث...' : 'تعيين كمصمم'}
+                </button>
+              )}
+              {shouldShowChangeRoleButton('customer') && (
                 <button
                   onClick={() => handleBulkAction('makeCustomer')}
                   disabled={bulkActionLoading}
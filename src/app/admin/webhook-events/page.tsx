@@ -0,0 +1,437 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faRedo, faSync, faTimes, faEye } from '@fortawesome/free-solid-svg-icons'
+import './webhook-events.css'
+
+type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead_letter'
+
+interface WebhookAttempt {
+  attemptedAt: string
+  success: boolean
+  message?: string
+  triggeredBy: string
+}
+
+interface WebhookEventSummary {
+  _id: string
+  eventId: string
+  eventType: string
+  resourceId?: string
+  paypalOrderId?: string
+  status: WebhookEventStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt?: string
+  lastError?: string
+  lastAttemptAt?: string
+  processedAt?: string
+  orderId?: string
+  orderNumber?: string
+  createdAt: string
+}
+
+interface WebhookEventDetails extends WebhookEventSummary {
+  transmissionId?: string
+  payload: Record<string, unknown>
+  attemptLog: WebhookAttempt[]
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  pages: number
+}
+
+const STATUS_LABELS: Record<WebhookEventStatus, string> = {
+  pending: 'قيد الانتظار',
+  processing: 'قيد المعالجة',
+  processed: 'تمت المعالجة',
+  failed: 'فشل - ستعاد المحاولة',
+  dead_letter: 'متوقف (Dead letter)',
+}
+
+export default function AdminWebhookEvents() {
+  const [events, setEvents] = useState<WebhookEventSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 20, total: 0, pages: 0 })
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({})
+  const [eventTypes, setEventTypes] = useState<string[]>([])
+
+  // Filters
+  const [statusFilter, setStatusFilter] = useState('all')
+  const [typeFilter, setTypeFilter] = useState('all')
+  const [searchTerm, setSearchTerm] = useState('')
+
+  // Details panel
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEventDetails | null>(null)
+  const [loadingDetails, setLoadingDetails] = useState<string | null>(null)
+  const [replaying, setReplaying] = useState<string | null>(null)
+  const [runningRetries, setRunningRetries] = useState(false)
+
+  const fetchEvents = useCallback(
+    async (page: number) => {
+      try {
+        setLoading(true)
+        setError('')
+
+        const searchParams = new URLSearchParams({
+          page: page.toString(),
+          limit: '20',
+          status: statusFilter,
+          eventType: typeFilter,
+          search: searchTerm,
+        })
+
+        const response = await fetch(`/api/admin/webhook-events?${searchParams}`)
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch webhook events')
+        }
+
+        setEvents(result.data.events)
+        setPagination(result.data.pagination)
+        setStatusCounts(result.data.statusCounts)
+        setEventTypes(result.data.eventTypes)
+      } catch (err) {
+        setError('فشل في تحميل أحداث الويب هوك')
+        console.error('Error fetching webhook events:', err)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [statusFilter, typeFilter, searchTerm]
+  )
+
+  // Reload when filters change (search is debounced)
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchEvents(1), 400)
+    return () => clearTimeout(timeout)
+  }, [fetchEvents])
+
+  const openDetails = async (eventId: string) => {
+    try {
+      setLoadingDetails(eventId)
+      const response = await fetch(`/api/admin/webhook-events/${eventId}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to fetch webhook event')
+      }
+
+      setSelectedEvent(result.data)
+    } catch (err) {
+      alert('فشل في تحميل تفاصيل الحدث')
+      console.error('Error fetching webhook event:', err)
+    } finally {
+      setLoadingDetails(null)
+    }
+  }
+
+  const handleReplay = async (eventId: string) => {
+    if (!confirm('هل تريد إعادة معالجة هذا الحدث الآن؟')) {
+      return
+    }
+
+    try {
+      setReplaying(eventId)
+      const response = await fetch(`/api/admin/webhook-events/${eventId}`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to replay webhook event')
+      }
+
+      alert(result.success ? 'تمت معالجة الحدث بنجاح' : `فشلت المعالجة: ${result.message}`)
+
+      if (selectedEvent?._id === eventId && result.data) {
+        setSelectedEvent(result.data)
+      }
+      await fetchEvents(pagination.page)
+    } catch (err) {
+      alert('فشل في إعادة معالجة الحدث')
+      console.error('Error replaying webhook event:', err)
+    } finally {
+      setReplaying(null)
+    }
+  }
+
+  const handleRunRetries = async () => {
+    try {
+      setRunningRetries(true)
+      const response = await fetch('/api/admin/webhook-events/retry', { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to run webhook retries')
+      }
+
+      alert(`تمت معالجة ${result.data.processed} حدث، وفشل ${result.data.failed}`)
+      await fetchEvents(pagination.page)
+    } catch (err) {
+      alert('فشل في تشغيل إعادة المحاولات')
+      console.error('Error running webhook retries:', err)
+    } finally {
+      setRunningRetries(false)
+    }
+  }
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-'
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  return (
+    <div className="admin-webhook-events">
+      <div className="webhook-events-header">
+        <div>
+          <h1>أحداث الويب هوك</h1>
+          <p>مراقبة أحداث PayPal وإعادة معالجة الأحداث الفاشلة</p>
+        </div>
+        <button onClick={handleRunRetries} disabled={runningRetries} className="webhook-action-btn retry-run-btn">
+          <FontAwesomeIcon icon={faSync} spin={runningRetries} />
+          {runningRetries ? 'جاري التشغيل...' : 'تشغيل إعادة المحاولات المستحقة'}
+        </button>
+      </div>
+
+      {/* Status summary */}
+      <div className="webhook-status-summary">
+        {(Object.keys(STATUS_LABELS) as WebhookEventStatus[]).map((status) => (
+          <button
+            key={status}
+            className={`webhook-status-card ${status} ${statusFilter === status ? 'active' : ''}`}
+            onClick={() => setStatusFilter(statusFilter === status ? 'all' : status)}
+          >
+            <span className="webhook-status-count">{statusCounts[status] || 0}</span>
+            <span className="webhook-status-label">{STATUS_LABELS[status]}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="webhook-events-filters">
+        <input
+          type="text"
+          placeholder="بحث برقم الحدث أو رقم طلب PayPal أو رقم الطلب..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="webhook-search-input"
+        />
+
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className="webhook-filter-select">
+          <option value="all">جميع الحالات</option>
+          {(Object.keys(STATUS_LABELS) as WebhookEventStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+
+        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} className="webhook-filter-select">
+          <option value="all">جميع الأنواع</option>
+          {eventTypes.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Events table */}
+      <div className="webhook-events-table-container">
+        {error && <div className="webhook-error-message">{error}</div>}
+
+        {loading && events.length === 0 ? (
+          <div className="webhook-loading">جاري التحميل...</div>
+        ) : events.length === 0 ? (
+          <div className="webhook-empty">
+            <p>لا توجد أحداث</p>
+          </div>
+        ) : (
+          <table className="webhook-events-table">
+            <thead>
+              <tr>
+                <th>نوع الحدث</th>
+                <th>الحالة</th>
+                <th>المحاولات</th>
+                <th>الطلب</th>
+                <th>تاريخ الاستلام</th>
+                <th>المحاولة التالية</th>
+                <th>الإجراءات</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event._id}>
+                  <td>
+                    <div className="webhook-event-type">{event.eventType}</div>
+                    <div className="webhook-event-id">{event.eventId}</div>
+                  </td>
+                  <td>
+                    <span className={`webhook-status-badge ${event.status}`}>{STATUS_LABELS[event.status]}</span>
+                    {event.lastError && event.status !== 'processed' && (
+                      <div className="webhook-last-error" title={event.lastError}>
+                        {event.lastError}
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    {event.attempts}/{event.maxAttempts}
+                  </td>
+                  <td>{event.orderNumber || event.paypalOrderId || '-'}</td>
+                  <td>{formatDate(event.createdAt)}</td>
+                  <td>{event.status === 'failed' || event.status === 'pending' ? formatDate(event.nextAttemptAt) : '-'}</td>
+                  <td>
+                    <div className="webhook-row-actions">
+                      <button
+                        onClick={() => openDetails(event._id)}
+                        disabled={loadingDetails === event._id}
+                        className="webhook-action-btn view-btn"
+                        title="عرض التفاصيل"
+                      >
+                        <FontAwesomeIcon icon={faEye} />
+                      </button>
+                      <button
+                        onClick={() => handleReplay(event._id)}
+                        disabled={replaying === event._id || event.status === 'processing'}
+                        className="webhook-action-btn replay-btn"
+                        title="إعادة المعالجة"
+                      >
+                        <FontAwesomeIcon icon={faRedo} spin={replaying === event._id} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pagination.pages > 1 && (
+        <div className="webhook-pagination">
+          <button
+            onClick={() => fetchEvents(pagination.page - 1)}
+            disabled={pagination.page === 1}
+            className="webhook-pagination-btn"
+          >
+            السابق
+          </button>
+
+          <span className="webhook-pagination-info">
+            صفحة {pagination.page} من {pagination.pages}
+          </span>
+
+          <button
+            onClick={() => fetchEvents(pagination.page + 1)}
+            disabled={pagination.page === pagination.pages}
+            className="webhook-pagination-btn"
+          >
+            التالي
+          </button>
+        </div>
+      )}
+
+      {/* Details panel */}
+      {selectedEvent && (
+        <div className="webhook-modal-overlay" onClick={() => setSelectedEvent(null)}>
+          <div className="webhook-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="webhook-modal-header">
+              <h2>{selectedEvent.eventType}</h2>
+              <button onClick={() => setSelectedEvent(null)} className="webhook-modal-close">
+                <FontAwesomeIcon icon={faTimes} />
+              </button>
+            </div>
+
+            <div className="webhook-modal-body">
+              <div className="webhook-details-grid">
+                <div>
+                  <span>رقم الحدث</span>
+                  <strong>{selectedEvent.eventId}</strong>
+                </div>
+                <div>
+                  <span>الحالة</span>
+                  <strong>
+                    <span className={`webhook-status-badge ${selectedEvent.status}`}>
+                      {STATUS_LABELS[selectedEvent.status]}
+                    </span>
+                  </strong>
+                </div>
+                <div>
+                  <span>رقم طلب PayPal</span>
+                  <strong>{selectedEvent.paypalOrderId || '-'}</strong>
+                </div>
+                <div>
+                  <span>رقم المورد</span>
+                  <strong>{selectedEvent.resourceId || '-'}</strong>
+                </div>
+                <div>
+                  <span>الطلب</span>
+                  <strong>{selectedEvent.orderNumber || '-'}</strong>
+                </div>
+                <div>
+                  <span>رقم الإرسال</span>
+                  <strong>{selectedEvent.transmissionId || '-'}</strong>
+                </div>
+                <div>
+                  <span>تاريخ المعالجة</span>
+                  <strong>{formatDate(selectedEvent.processedAt)}</strong>
+                </div>
+                <div>
+                  <span>المحاولات</span>
+                  <strong>
+                    {selectedEvent.attempts}/{selectedEvent.maxAttempts}
+                  </strong>
+                </div>
+              </div>
+
+              {selectedEvent.lastError && (
+                <div className="webhook-error-message">آخر خطأ: {selectedEvent.lastError}</div>
+              )}
+
+              <h3>سجل المحاولات</h3>
+              {selectedEvent.attemptLog.length === 0 ? (
+                <p className="webhook-muted">لم تتم أي محاولة بعد</p>
+              ) : (
+                <ul className="webhook-attempt-log">
+                  {selectedEvent.attemptLog.map((attempt, index) => (
+                    <li key={index} className={attempt.success ? 'success' : 'failure'}>
+                      <span>{formatDate(attempt.attemptedAt)}</span>
+                      <span>{attempt.triggeredBy}</span>
+                      <span>{attempt.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <h3>البيانات الخام</h3>
+              <pre className="webhook-payload">{JSON.stringify(selectedEvent.payload, null, 2)}</pre>
+            </div>
+
+            <div className="webhook-modal-actions">
+              <button
+                onClick={() => handleReplay(selectedEvent._id)}
+                disabled={replaying === selectedEvent._id || selectedEvent.status === 'processing'}
+                className="webhook-action-btn replay-btn"
+              >
+                <FontAwesomeIcon icon={faRedo} spin={replaying === selectedEvent._id} />
+                {replaying === selectedEvent._id ? 'جاري المعالجة...' : 'إعادة المعالجة'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+/**
+ * Admin Analytics API Route
+ *
+ * Revenue and sales analytics for a date range, compared with the
+ * previous period of the same length.
+ *
+ * Routes:
+ * - GET /api/admin/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD&groupBy=day|week|month&compare=true|false
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/lib/auth/middleware';
+import { AnalyticsGroupBy, AnalyticsService } from '@/lib/services/analyticsService';
+
+const GROUP_BY_VALUES: AnalyticsGroupBy[] = ['day', 'week', 'month'];
+
+export const GET = withPermission('analytics.read', async (request: NextRequest) => {
+    try {
+        const { searchParams } = new URL(request.url);
+
+        const range = AnalyticsService.parseRange(searchParams.get('from'), searchParams.get('to'));
+        if (!range) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid date range (the start must be before the end, up to two years)' },
+                { status: 400 }
+            );
+        }
+
+        const groupByParam = searchParams.get('groupBy') as AnalyticsGroupBy;
+        const groupBy = GROUP_BY_VALUES.includes(groupByParam) ? groupByParam : 'day';
+        const compare = searchParams.get('compare') !== 'false';
+
+        const report = await AnalyticsService.getReport(range, groupBy, compare);
+
+        return NextResponse.json({
+            success: true,
+            data: report
+        });
+    } catch (error) {
+        console.error('❌ Error building analytics report:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load analytics' },
+            { status: 500 }
+        );
+    }
+});
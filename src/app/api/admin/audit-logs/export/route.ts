@@ -0,0 +1,34 @@
+/**
+ * Admin Audit Log Export API Route
+ *
+ * Downloads the filtered audit trail as CSV, one row per changed field.
+ *
+ * Routes:
+ * - GET /api/admin/audit-logs/export?search=&entityType=&action=&actorId=&from=&to=
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/lib/auth/middleware';
+import { AuditLogService } from '@/lib/services/auditLogService';
+
+export const GET = withPermission('audit.read', async (request: NextRequest) => {
+    try {
+        const { searchParams } = new URL(request.url);
+        const csv = await AuditLogService.exportCsv(AuditLogService.getFilters(searchParams));
+        const date = new Date().toISOString().slice(0, 10);
+
+        return new NextResponse(csv, {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="audit-log-${date}.csv"`,
+                'Cache-Control': 'no-store'
+            }
+        });
+    } catch (error) {
+        console.error('❌ Error exporting audit logs:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to export audit logs' },
+            { status: 500 }
+        );
+    }
+});
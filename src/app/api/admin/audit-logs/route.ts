@@ -0,0 +1,37 @@
+/**
+ * Admin Audit Log API Route
+ *
+ * Lists the audit trail of admin mutations.
+ *
+ * Routes:
+ * - GET /api/admin/audit-logs?search=&entityType=&action=&actorId=&from=&to=&page=&limit=
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/lib/auth/middleware';
+import { AUDIT_ENTITY_TYPES } from '@/lib/db/models/AuditLog';
+import { AuditLogService } from '@/lib/services/auditLogService';
+
+export const GET = withPermission('audit.read', async (request: NextRequest) => {
+    try {
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25') || 25, 1), 100);
+
+        const result = await AuditLogService.list(AuditLogService.getFilters(searchParams), page, limit);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                ...result,
+                entityTypes: AUDIT_ENTITY_TYPES
+            }
+        });
+    } catch (error) {
+        console.error('❌ Error fetching audit logs:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch audit logs' },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,251 @@
+/**
+ * Admin Bundle API Routes
+ *
+ * This file handles admin-only management operations for a specific bundle.
+ *
+ * Routes:
+ * - GET /api/admin/bundles/[id] - Get a specific bundle
+ * - PUT /api/admin/bundles/[id] - Update a specific bundle
+ * - DELETE /api/admin/bundles/[id] - Delete a specific bundle
+ *
+ * Features:
+ * - Admin-only access control (bundles share the products permissions)
+ * - Input validation and sanitization
+ * - Bundle contents validation (see BundleService)
+ * - Slug history kept on rename, so shared links keep working
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { withPermission } from '@/lib/auth/middleware';
+import { ApiRouteContext, SessionUser } from '@/lib/auth/types';
+import connectDB from '@/lib/db/connection';
+import { Bundle } from '@/lib/db/models';
+import { BundleService } from '@/lib/services/bundleService';
+import { AuditLogService } from '@/lib/services/auditLogService';
+import { z } from 'zod';
+
+// Validation schema for bundle ID
+const bundleIdSchema = z.object({
+    id: z.string().refine(id => mongoose.Types.ObjectId.isValid(id), 'Invalid bundle ID')
+});
+
+// Update bundle schema (all fields optional)
+const updateBundleSchema = z.object({
+    name: z.string()
+        .min(2, 'Bundle name must be at least 2 characters')
+        .max(150, 'Bundle name cannot exceed 150 characters')
+        .trim(),
+    slug: z.string()
+        .max(100, 'Slug cannot exceed 100 characters')
+        .regex(/^[a-z0-9-]*$/, 'Slug can only contain lowercase letters, numbers, and hyphens')
+        .trim(),
+    description: z.string()
+        .max(2000, 'Description cannot exceed 2000 characters')
+        .trim(),
+    productIds: z.array(z.string().min(1))
+        .min(2, 'A bundle needs at least two products'),
+    pricingType: z.enum(['fixed', 'percentage']),
+    bundlePrice: z.number()
+        .min(0, 'Bundle price cannot be negative'),
+    discountPercentage: z.number()
+        .min(0, 'Discount percentage cannot be negative')
+        .max(100, 'Discount percentage cannot exceed 100'),
+    image: z.string().trim(),
+    icon: z.string()
+        .max(10, 'Icon cannot exceed 10 characters')
+        .trim(),
+    color: z.string()
+        .regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Please provide a valid hex color code (e.g., #FF5733 or #F53)')
+        .or(z.literal('')),
+    features: z.array(z.string()
+        .max(100, 'Feature cannot exceed 100 characters')
+        .trim())
+        .max(10, 'Cannot have more than 10 features'),
+    order: z.number()
+        .min(0, 'Order cannot be negative'),
+    isActive: z.boolean(),
+    isFeatured: z.boolean()
+}).partial();
+
+/**
+ * GET /api/admin/bundles/[id]
+ * Get a specific bundle by ID
+ */
+async function getBundle(req: NextRequest, context: ApiRouteContext) {
+    try {
+        await connectDB();
+
+        const params = await context.params;
+        const validatedParams = bundleIdSchema.parse(params);
+
+        const bundle = await Bundle.findById(validatedParams.id)
+            .populate('productIds', 'name slug price finalPrice isActive EnableCustomizations images')
+            .lean();
+
+        if (!bundle) {
+            return NextResponse.json(
+                { success: false, message: 'Bundle not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: bundle
+        });
+
+    } catch (error) {
+        console.error('Get bundle error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid bundle ID' },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to get bundle' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/admin/bundles/[id]
+ * Update a specific bundle
+ */
+async function updateBundle(req: NextRequest, context: ApiRouteContext, user: SessionUser) {
+    try {
+        await connectDB();
+
+        const params = await context.params;
+        const validatedParams = bundleIdSchema.parse(params);
+        const body = await req.json();
+        const validatedBody = updateBundleSchema.parse(body);
+
+        const bundle = await Bundle.findById(validatedParams.id);
+        if (!bundle) {
+            return NextResponse.json(
+                { success: false, message: 'Bundle not found' },
+                { status: 404 }
+            );
+        }
+
+        if (validatedBody.productIds) {
+            const contents = await BundleService.validateContents(validatedBody.productIds);
+            if (!contents.success) {
+                return NextResponse.json(
+                    { success: false, message: contents.error },
+                    { status: contents.statusCode || 400 }
+                );
+            }
+        }
+
+        const before = bundle.toObject();
+
+        // A new name without an explicit slug regenerates the slug; the old one is kept in history
+        if (validatedBody.name && validatedBody.name !== bundle.name && !validatedBody.slug) {
+            validatedBody.slug = '';
+        }
+
+        bundle.set({
+            ...validatedBody,
+            updatedBy: user.id
+        });
+
+        const updatedBundle = await bundle.save();
+
+        await AuditLogService.record(req, user, {
+            action: 'bundle.update',
+            entityType: 'bundle',
+            entityId: String(updatedBundle._id),
+            entityLabel: updatedBundle.name,
+            before,
+            after: updatedBundle.toObject()
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Bundle updated successfully',
+            data: updatedBundle
+        });
+
+    } catch (error) {
+        console.error('Update bundle error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid input data', errors: error.issues },
+                { status: 400 }
+            );
+        }
+
+        if (error instanceof mongoose.Error.ValidationError) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to update bundle' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/admin/bundles/[id]
+ * Delete a bundle (orders keep their per-product items and bundle name)
+ */
+async function deleteBundle(req: NextRequest, context: ApiRouteContext, user: SessionUser) {
+    try {
+        await connectDB();
+
+        const params = await context.params;
+        const validatedParams = bundleIdSchema.parse(params);
+
+        const bundle = await Bundle.findByIdAndDelete(validatedParams.id);
+        if (!bundle) {
+            return NextResponse.json(
+                { success: false, message: 'Bundle not found' },
+                { status: 404 }
+            );
+        }
+
+        await AuditLogService.record(req, user, {
+            action: 'bundle.delete',
+            entityType: 'bundle',
+            entityId: validatedParams.id,
+            entityLabel: bundle.name,
+            before: bundle.toObject()
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Bundle deleted successfully'
+        });
+
+    } catch (error) {
+        console.error('Delete bundle error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid bundle ID' },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to delete bundle' },
+            { status: 500 }
+        );
+    }
+}
+
+// Apply middleware and export handlers
+export const GET = withPermission('products.read', getBundle);
+export const PUT = withPermission('products.write', updateBundle);
+export const DELETE = withPermission('products.write', deleteBundle);
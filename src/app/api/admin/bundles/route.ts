@@ -0,0 +1,171 @@
+/**
+ * Admin Bundles API Routes
+ *
+ * This file handles admin-only bundle (package) management operations.
+ *
+ * Routes:
+ * - GET /api/admin/bundles - List all bundles with their products
+ * - POST /api/admin/bundles - Create a new bundle
+ *
+ * Features:
+ * - Admin-only access control (bundles share the products permissions)
+ * - Input validation and sanitization
+ * - Bundle contents validation (see BundleService)
+ * - Auto-slug generation with collision resolution
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { withPermission } from '@/lib/auth/middleware';
+import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
+import connectDB from '@/lib/db/connection';
+import { Bundle } from '@/lib/db/models';
+import { BundleService } from '@/lib/services/bundleService';
+import { AuditLogService } from '@/lib/services/auditLogService';
+import { z } from 'zod';
+
+// Validation schemas
+const createBundleSchema = z.object({
+    name: z.string()
+        .min(2, 'Bundle name must be at least 2 characters')
+        .max(150, 'Bundle name cannot exceed 150 characters')
+        .trim(),
+    slug: z.string()
+        .max(100, 'Slug cannot exceed 100 characters')
+        .regex(/^[a-z0-9-]*$/, 'Slug can only contain lowercase letters, numbers, and hyphens')
+        .trim()
+        .optional(),
+    description: z.string()
+        .max(2000, 'Description cannot exceed 2000 characters')
+        .trim()
+        .optional(),
+    productIds: z.array(z.string().min(1))
+        .min(2, 'A bundle needs at least two products'),
+    pricingType: z.enum(['fixed', 'percentage']),
+    bundlePrice: z.number()
+        .min(0, 'Bundle price cannot be negative')
+        .optional(),
+    discountPercentage: z.number()
+        .min(0, 'Discount percentage cannot be negative')
+        .max(100, 'Discount percentage cannot exceed 100')
+        .optional(),
+    image: z.string().trim().optional().or(z.literal('')),
+    icon: z.string()
+        .max(10, 'Icon cannot exceed 10 characters')
+        .trim()
+        .optional(),
+    color: z.string()
+        .regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Please provide a valid hex color code (e.g., #FF5733 or #F53)')
+        .optional()
+        .or(z.literal('')),
+    features: z.array(z.string()
+        .max(100, 'Feature cannot exceed 100 characters')
+        .trim())
+        .max(10, 'Cannot have more than 10 features')
+        .default([]),
+    order: z.number()
+        .min(0, 'Order cannot be negative')
+        .default(0),
+    isActive: z.boolean().default(true),
+    isFeatured: z.boolean().default(false)
+});
+
+/**
+ * GET /api/admin/bundles
+ * List all bundles with their products' names and prices
+ */
+async function getBundles() {
+    try {
+        await connectDB();
+
+        const bundles = await Bundle.find({})
+            .sort({ order: 1, createdAt: -1 })
+            .populate('productIds', 'name slug price finalPrice isActive')
+            .lean();
+
+        return NextResponse.json({
+            success: true,
+            data: bundles,
+            count: bundles.length
+        });
+
+    } catch (error) {
+        console.error('Get bundles error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch bundles' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/bundles
+ * Create a new bundle
+ */
+async function createBundle(req: NextRequest, _context: ApiRouteContext, user: SessionUser) {
+    try {
+        await connectDB();
+
+        const body = await req.json();
+        const validatedData = createBundleSchema.parse(body);
+
+        const contents = await BundleService.validateContents(validatedData.productIds);
+        if (!contents.success) {
+            return NextResponse.json(
+                { success: false, message: contents.error },
+                { status: contents.statusCode || 400 }
+            );
+        }
+
+        const bundle = new Bundle({
+            ...validatedData,
+            createdBy: user.id
+        });
+
+        await bundle.save();
+
+        await AuditLogService.record(req, user, {
+            action: 'bundle.create',
+            entityType: 'bundle',
+            entityId: String(bundle._id),
+            entityLabel: bundle.name,
+            after: bundle.toObject()
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: 'Bundle created successfully',
+                data: bundle
+            },
+            { status: 201 }
+        );
+
+    } catch (error) {
+        console.error('Create bundle error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid input data', errors: error.issues },
+                { status: 400 }
+            );
+        }
+
+        // Pricing rules (price for fixed, percentage for percentage) live in the model
+        if (error instanceof mongoose.Error.ValidationError) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to create bundle' },
+            { status: 500 }
+        );
+    }
+}
+
+// Apply middleware and export handlers
+export const GET = withPermission('products.read', getBundles);
+export const POST = withPermission('products.write', createBundle);
@@ -13,17 +13,19 @@
  * - Input validation and sanitization
  * - Duplicate checking on updates
  * - Product association checking on delete
- * - Auto-slug regeneration on name updates
+ * - Auto-slug regeneration on name updates (old slugs kept for redirects)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import { ApiRouteContext, SessionUser } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
 import { Category, Product } from '@/lib/db/models';
 import { z } from 'zod';
 import mongoose from 'mongoose';
 import { deleteImage } from '@/lib/cloudinary/config';
+import { AuditLogService } from '@/lib/services/auditLogService';
+import { generateSlug } from '@/lib/utils/slugUtils';
 
 // Validation schema for updates
 const updateCategorySchema = z.object({
@@ -172,35 +174,24 @@ async function updateCategory(req: NextRequest, context: ApiRouteContext, user:
         // Prepare update data
         const updateData: Record<string, unknown> = { ...validatedData };
 
-        // Handle slug updates
-        if (validatedData.slug) {
-            // Use the provided slug
-            updateData.slug = validatedData.slug;
-        } else if (validatedData.name) {
-            // Generate slug from name only if slug is not provided
-            const slug = validatedData.name
-                .toLowerCase()
-                .replace(/[^a-z0-9\s-]/g, '')
-                .replace(/\s+/g, '-')
-                .trim();
-            updateData.slug = slug;
+        // Regenerate the slug from a new name unless one is provided; the
+        // old slug is kept in slugHistory and collisions are resolved on save
+        if (!validatedData.slug && validatedData.name && validatedData.name !== existingCategory.name) {
+            updateData.slug = generateSlug(validatedData.name);
         }
 
-        // Check for duplicate name or slug (excluding current category)
-        if (validatedData.name || validatedData.slug) {
+        // Check for duplicate name (excluding current category)
+        if (validatedData.name) {
             const duplicateCategory = await Category.findOne({
                 _id: { $ne: id },
-                $or: [
-                    ...(validatedData.name ? [{ name: { $regex: `^${validatedData.name}$`, $options: 'i' } }] : []),
-                    ...(updateData.slug ? [{ slug: updateData.slug }] : [])
-                ]
+                name: { $regex: `^${validatedData.name}$`, $options: 'i' }
             });
 
             if (duplicateCategory) {
                 return NextResponse.json(
                     {
                         success: false,
-                        message: 'Category with this name or slug already exists'
+                        message: 'Category with this name already exists'
                     },
                     { status: 409 }
                 );
@@ -217,15 +208,22 @@ async function updateCategory(req: NextRequest, context: ApiRouteContext, user:
             }
         }
 
-        // Update category
-        const updatedCategory = await Category.findByIdAndUpdate(
-            id,
-            {
-                ...updateData,
-                updatedBy: user.id // Set the updatedBy field from authenticated admin user
-            },
-            { new: true, runValidators: true }
-        );
+        // Update category (save() keeps the slug history hooks running)
+        const before = existingCategory.toObject();
+        existingCategory.set({
+            ...updateData,
+            updatedBy: user.id // Set the updatedBy field from authenticated admin user
+        });
+        const updatedCategory = await existingCategory.save();
+
+        await AuditLogService.record(req, user, {
+            action: 'category.update',
+            entityType: 'category',
+            entityId: id,
+            entityLabel: updatedCategory.name,
+            before,
+            after: updatedCategory.toObject()
+        });
 
         return NextResponse.json({
             success: true,
@@ -261,7 +259,7 @@ async function updateCategory(req: NextRequest, context: ApiRouteContext, user:
  * DELETE /api/admin/categories/[id]
  * Delete category (with product association check)
  */
-async function deleteCategory(req: NextRequest, context: ApiRouteContext) {
+async function deleteCategory(req: NextRequest, context: ApiRouteContext, user: SessionUser) {
     try {
         await connectDB();
 
@@ -317,6 +315,14 @@ async function deleteCategory(req: NextRequest, context: ApiRouteContext) {
         // Delete category
         await Category.findByIdAndDelete(id);
 
+        await AuditLogService.record(req, user, {
+            action: 'category.delete',
+            entityType: 'category',
+            entityId: id,
+            entityLabel: category.name,
+            before: category.toObject()
+        });
+
         return NextResponse.json({
             success: true,
             message: 'Category deleted successfully'
@@ -335,6 +341,6 @@ async function deleteCategory(req: NextRequest, context: ApiRouteContext) {
 }
 
 // Apply middleware and export handlers
-export const GET = withAdmin(getCategory);
-export const PUT = withAdmin(updateCategory);
-export const DELETE = withAdmin(deleteCategory);
+export const GET = withPermission('products.read', getCategory);
+export const PUT = withPermission('products.write', updateCategory);
+export const DELETE = withPermission('products.write', deleteCategory);
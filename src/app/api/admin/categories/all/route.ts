@@ -4,7 +4,7 @@
  * Admin-only access
  */
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import connectDB from '@/lib/db/connection';
 import { Category } from '@/lib/db/models';
 
@@ -25,4 +25,4 @@ async function getAllCategories(_req: NextRequest) {
     }
 }
 
-export const GET = withAdmin(getAllCategories);
+export const GET = withPermission('products.read', getAllCategories);
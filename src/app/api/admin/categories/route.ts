@@ -13,14 +13,15 @@
  * - Pagination support
  * - Search and filtering
  * - Duplicate name checking
- * - Auto-slug generation
+ * - Auto-slug generation with collision resolution
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
 import { Category } from '@/lib/db/models';
+import { AuditLogService } from '@/lib/services/auditLogService';
 import { z } from 'zod';
 
 // Validation schemas
@@ -204,19 +205,9 @@ async function createCategory(req: NextRequest, _context: ApiRouteContext, user:
         const body = await req.json();
         const validatedData = createCategorySchema.parse(body);
 
-        // Generate slug from name only if slug is not provided
-        const slug = validatedData.slug || validatedData.name
-            .toLowerCase()
-            .replace(/[^a-z0-9\s-]/g, '')
-            .replace(/\s+/g, '-')
-            .trim();
-
-        // Check for duplicate name or slug
+        // Check for duplicate name (a taken slug gets a numeric suffix on save)
         const existingCategory = await Category.findOne({
-            $or: [
-                { name: { $regex: `^${validatedData.name}$`, $options: 'i' } },
-                { slug }
-            ]
+            name: { $regex: `^${validatedData.name}$`, $options: 'i' }
         });
 
         if (existingCategory) {
@@ -232,12 +223,19 @@ async function createCategory(req: NextRequest, _context: ApiRouteContext, user:
         // Create new category with createdBy from authenticated user
         const category = new Category({
             ...validatedData,
-            slug,
             createdBy: user.id // Set the createdBy field from authenticated admin user
         });
 
         await category.save();
 
+        await AuditLogService.record(req, user, {
+            action: 'category.create',
+            entityType: 'category',
+            entityId: String(category._id),
+            entityLabel: category.name,
+            after: category.toObject()
+        });
+
         return NextResponse.json(
             {
                 success: true,
@@ -270,5 +268,5 @@ async function createCategory(req: NextRequest, _context: ApiRouteContext, user:
         );
     }
 }// Apply middleware and export handlers
-export const GET = withAdmin(getCategories);
-export const POST = withAdmin(createCategory);
+export const GET = withPermission('products.read', getCategories);
+export const POST = withPermission('products.write', createCategory);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import User from '@/lib/db/models/User'
 import Category from '@/lib/db/models/Category'
 import Product from '@/lib/db/models/Product'
@@ -13,7 +14,7 @@ export async function GET(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions)
 
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'dashboard.read')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
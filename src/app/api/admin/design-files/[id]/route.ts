@@ -7,6 +7,7 @@
  * - GET /api/admin/design-files/[id] - Get a specific design file
  * - PUT /api/admin/design-files/[id] - Update a specific design file
  * - DELETE /api/admin/design-files/[id] - Delete a specific design file
+ *   (order files only need orders.files)
  * 
  * Features:
  * - Admin-only access control
@@ -16,11 +17,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
+import { getDesignFilePermission, getOrderScopeFilter, hasPermission } from '@/lib/auth/permissions';
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
-import { DesignFile, Product } from '@/lib/db/models';
+import { DesignFile, Order, Product } from '@/lib/db/models';
 import { FileUtils } from '@/lib/utils/fileUtils';
+import { AuditLogService } from '@/lib/services/auditLogService';
 import { z } from 'zod';
 
 // Validation schemas
@@ -154,6 +157,15 @@ async function updateDesignFile(req: NextRequest, context: ApiRouteContext, user
             { new: true, runValidators: true }
         ).populate('productId', 'name slug');
 
+        await AuditLogService.record(req, user, {
+            action: 'designFile.update',
+            entityType: 'designFile',
+            entityId: id,
+            entityLabel: existingDesignFile.fileName,
+            before: existingDesignFile.toObject(),
+            after: updatedDesignFile?.toObject({ depopulate: true })
+        });
+
         return NextResponse.json({
             success: true,
             message: 'Design file updated successfully',
@@ -217,6 +229,30 @@ async function deleteDesignFile(req: NextRequest, context: ApiRouteContext, user
             );
         }
 
+        if (!hasPermission(user.role, getDesignFilePermission(designFile))) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Access denied'
+                },
+                { status: 403 }
+            );
+        }
+
+        // Designers may only touch files of orders in their queue
+        if (designFile.isForOrder && designFile.orderId) {
+            const inScope = await Order.exists({ _id: designFile.orderId, ...getOrderScopeFilter(user.role) });
+            if (!inScope) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        message: 'Design file not found'
+                    },
+                    { status: 404 }
+                );
+            }
+        }
+
         // Import OrderDesignFile model
         const { OrderDesignFile } = await import('@/lib/db/models');
 
@@ -227,7 +263,7 @@ async function deleteDesignFile(req: NextRequest, context: ApiRouteContext, user
         // Delete the actual file from storage if it's a local file
         let fileDeleted = false;
         if (designFile.fileUrl.startsWith('/uploads/')) {
-            fileDeleted = await FileUtils.deleteFile(designFile.fileUrl);
+            fileDeleted = await FileUtils.deleteFile(designFile.fileUrl, designFile.storageDriver);
             console.log(`File deletion result: ${fileDeleted ? 'success' : 'failed'}`);
         } else {
             console.log('File is not a local file, skipping file deletion');
@@ -236,6 +272,15 @@ async function deleteDesignFile(req: NextRequest, context: ApiRouteContext, user
         // Hard delete the design file record
         await DesignFile.findByIdAndDelete(id);
 
+        await AuditLogService.record(req, user, {
+            action: 'designFile.delete',
+            entityType: 'designFile',
+            entityId: id,
+            entityLabel: designFile.fileName,
+            before: designFile.toObject(),
+            metadata: { deletedOrderLinks: deletedRelationships.deletedCount }
+        });
+
         return NextResponse.json({
             success: true,
             message: 'Design file deleted successfully',
@@ -259,6 +304,6 @@ async function deleteDesignFile(req: NextRequest, context: ApiRouteContext, user
 }
 
 // Apply middleware and export handlers
-export const GET = withAdmin(getDesignFile);
-export const PUT = withAdmin(updateDesignFile);
-export const DELETE = withAdmin(deleteDesignFile); 
\ No newline at end of file
+export const GET = withPermission('products.read', getDesignFile);
+export const PUT = withPermission('products.write', updateDesignFile);
+export const DELETE = withPermission(['products.write', 'orders.files'], deleteDesignFile); 
\ No newline at end of file
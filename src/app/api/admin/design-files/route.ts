@@ -16,13 +16,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
 import { DesignFile, Product } from '@/lib/db/models';
 import { z } from 'zod';
-import { existsSync } from 'fs';
-import { join } from 'path';
+import { FileUtils } from '@/lib/utils/fileUtils';
+import { getDefaultStorageDriver } from '@/lib/storage';
+import { AuditLogService } from '@/lib/services/auditLogService';
 import mongoose from 'mongoose';
 
 // Validation schemas
@@ -310,8 +311,7 @@ async function createDesignFile(req: NextRequest, _context: ApiRouteContext, use
 
         // Check if the file exists at the specified URL
         if (validatedData.fileUrl.startsWith('/uploads/')) {
-            const filePath = join(process.cwd(), 'public', validatedData.fileUrl);
-            if (!existsSync(filePath)) {
+            if (!(await FileUtils.fileExists(validatedData.fileUrl))) {
                 return NextResponse.json(
                     {
                         success: false,
@@ -326,11 +326,20 @@ async function createDesignFile(req: NextRequest, _context: ApiRouteContext, use
         const designFile = new DesignFile({
             ...validatedData,
             productId: productIdObjectId, // Use the ObjectId
+            storageDriver: getDefaultStorageDriver(), // The upload routes write to the configured driver
             createdBy: user.id
         });
 
         await designFile.save();
 
+        await AuditLogService.record(req, user, {
+            action: 'designFile.create',
+            entityType: 'designFile',
+            entityId: String(designFile._id),
+            entityLabel: designFile.fileName,
+            after: designFile.toObject()
+        });
+
         // Return the saved design file without populating to avoid virtual field issues
         return NextResponse.json(
             {
@@ -379,5 +388,5 @@ async function createDesignFile(req: NextRequest, _context: ApiRouteContext, use
 }
 
 // Apply middleware and export handlers
-export const GET = withAdmin(getDesignFiles);
-export const POST = withAdmin(createDesignFile); 
\ No newline at end of file
+export const GET = withPermission('products.read', getDesignFiles);
+export const POST = withPermission('products.write', createDesignFile); 
\ No newline at end of file
@@ -3,10 +3,12 @@ import connectDB from '@/lib/db/connection'
 import { FAQItem } from '@/lib/db/models'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
+import { AuditLogService } from '@/lib/services/auditLogService'
 
 async function requireAdmin() {
     const session = await getServerSession(authOptions)
-    return !!(session && session.user.role === 'admin')
+    return session && hasPermission(session.user.role, 'settings.write') ? session.user : null
 }
 
 export async function GET() {
@@ -16,10 +18,20 @@ export async function GET() {
 }
 
 export async function POST(req: NextRequest) {
-    if (!(await requireAdmin())) return new NextResponse('Unauthorized', { status: 401 })
+    const user = await requireAdmin()
+    if (!user) return new NextResponse('Unauthorized', { status: 401 })
     await connectDB()
     const body = await req.json()
     const created = await FAQItem.create(body)
+
+    await AuditLogService.record(req, user, {
+        action: 'faqItem.create',
+        entityType: 'faqItem',
+        entityId: String(created._id),
+        entityLabel: created.question,
+        after: created.toObject()
+    })
+
     return NextResponse.json({ data: created })
 }
 
@@ -3,24 +3,52 @@ import connectDB from '@/lib/db/connection'
 import { HeroSlide } from '@/lib/db/models'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
+import { AuditLogService } from '@/lib/services/auditLogService'
 
 async function requireAdmin() {
     const session = await getServerSession(authOptions)
-    return !!(session && session.user.role === 'admin')
+    return session && hasPermission(session.user.role, 'settings.write') ? session.user : null
 }
 
 export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
-    if (!(await requireAdmin())) return new NextResponse('Unauthorized', { status: 401 })
+    const user = await requireAdmin()
+    if (!user) return new NextResponse('Unauthorized', { status: 401 })
     await connectDB()
     const body = await req.json()
+    const existing = await HeroSlide.findById(params.id).lean()
     const updated = await HeroSlide.findByIdAndUpdate(params.id, body, { new: true })
+
+    if (existing && updated) {
+        await AuditLogService.record(req, user, {
+            action: 'heroSlide.update',
+            entityType: 'heroSlide',
+            entityId: params.id,
+            entityLabel: updated.title,
+            before: existing,
+            after: updated.toObject()
+        })
+    }
+
     return NextResponse.json({ data: updated })
 }
 
-export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
-    if (!(await requireAdmin())) return new NextResponse('Unauthorized', { status: 401 })
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+    const user = await requireAdmin()
+    if (!user) return new NextResponse('Unauthorized', { status: 401 })
     await connectDB()
-    await HeroSlide.findByIdAndDelete(params.id)
+    const deleted = await HeroSlide.findByIdAndDelete(params.id)
+
+    if (deleted) {
+        await AuditLogService.record(req, user, {
+            action: 'heroSlide.delete',
+            entityType: 'heroSlide',
+            entityId: params.id,
+            entityLabel: deleted.title,
+            before: deleted.toObject()
+        })
+    }
+
     return NextResponse.json({ success: true })
 }
 
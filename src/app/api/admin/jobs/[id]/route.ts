@@ -0,0 +1,91 @@
+/**
+ * Admin Background Job Details API Route
+ *
+ * Routes:
+ * - GET /api/admin/jobs/[id]  - Job with payload and attempt log
+ * - POST /api/admin/jobs/[id] - Retry the job now
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
+import connectDB from '@/lib/db/connection';
+import { Job } from '@/lib/db/models';
+import { JobQueueService } from '@/lib/services/jobQueueService';
+import { AuditLogService } from '@/lib/services/auditLogService';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id } = await params;
+        const job = await Job.findById(id).lean();
+        if (!job) {
+            return NextResponse.json({ success: false, message: 'Job not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: job
+        });
+    } catch (error) {
+        console.error('❌ Error fetching job:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch job' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id } = await params;
+        const adminName = session.user.name || session.user.email || session.user.id;
+
+        console.log(`🔁 Admin ${adminName} retrying job ${id}`);
+        const result = await JobQueueService.retry(id, adminName);
+
+        if (!result.job) {
+            return NextResponse.json({ success: false, message: result.message }, { status: 409 });
+        }
+
+        await AuditLogService.record(request, session.user, {
+            action: 'job.retry',
+            entityType: 'job',
+            entityId: id,
+            entityLabel: result.job.type,
+            metadata: { success: result.success, message: result.message, status: result.job.status }
+        });
+
+        return NextResponse.json({
+            success: result.success,
+            message: result.message,
+            data: result.job
+        });
+    } catch (error) {
+        console.error('❌ Error retrying job:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to retry job' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * Admin Background Jobs API Route
+ *
+ * Lists background jobs for monitoring (failed and dead-lettered jobs first
+ * of all).
+ *
+ * Routes:
+ * - GET /api/admin/jobs?status=&type=&search=&page=&limit=
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
+import connectDB from '@/lib/db/connection';
+import { Job } from '@/lib/db/models';
+
+const STATUSES = ['pending', 'processing', 'completed', 'failed', 'dead_letter'];
+
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { searchParams } = new URL(request.url);
+        const status = searchParams.get('status') || 'all';
+        const type = searchParams.get('type') || 'all';
+        const search = searchParams.get('search')?.trim() || '';
+        const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+        // Build query
+        const query: Record<string, unknown> = {};
+
+        if (status === 'unresolved') {
+            query.status = { $in: ['failed', 'dead_letter'] };
+        } else if (status !== 'all' && STATUSES.includes(status)) {
+            query.status = status;
+        }
+
+        if (type !== 'all') {
+            query.type = type;
+        }
+
+        if (search) {
+            query.$or = [
+                { orderNumber: search },
+                { orderId: search },
+                { idempotencyKey: search }
+            ];
+        }
+
+        const [jobs, total, statusCounts, types] = await Promise.all([
+            Job.find(query)
+                .select('-payload -attemptLog')
+                .sort({ updatedAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            Job.countDocuments(query),
+            Job.aggregate<{ _id: string; count: number }>([
+                { $group: { _id: '$status', count: { $sum: 1 } } }
+            ]),
+            Job.distinct('type')
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                jobs,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    pages: Math.ceil(total / limit)
+                },
+                statusCounts: Object.fromEntries(statusCounts.map(entry => [entry._id, entry.count])),
+                types: types.sort()
+            }
+        });
+    } catch (error) {
+        console.error('❌ Error fetching jobs:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch jobs' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Background Job Runner API Route
+ *
+ * Runs background jobs whose time has come. For deployments without the
+ * worker process (npm run jobs:worker): meant to be called by a scheduler
+ * (with "Authorization: Bearer <CRON_SECRET>") or by an admin from the panel.
+ *
+ * Routes:
+ * - POST /api/admin/jobs/run?limit=20
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
+import { JobQueueService } from '@/lib/services/jobQueueService';
+
+export async function POST(request: NextRequest) {
+    try {
+        const cronSecret = process.env.CRON_SECRET;
+        const isScheduler = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+        if (!isScheduler) {
+            const session = await getServerSession(authOptions);
+            if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
+                return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+            }
+        }
+
+        const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '20') || 20, 1), 100);
+        const result = await JobQueueService.processDueJobs(limit, isScheduler ? 'scheduler' : 'admin');
+
+        return NextResponse.json({
+            success: true,
+            data: result
+        });
+    } catch (error) {
+        console.error('❌ Error running jobs:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to run jobs' },
+            { status: 500 }
+        );
+    }
+}
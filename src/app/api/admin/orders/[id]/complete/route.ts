@@ -366,8 +366,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 import { Order, OrderDesignFile, DesignFile } from '@/lib/db/models';
 import connectDB from '@/lib/db/connection';
+import { OrderStateMachine } from '@/lib/services/orderStateMachine';
+import { ProofService } from '@/lib/services/proofService';
+import { AuditLogService } from '@/lib/services/auditLogService';
 
 export async function POST(
     request: NextRequest,
@@ -375,7 +379,7 @@ export async function POST(
 ) {
     try {
         const session = await getServerSession(authOptions);
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'orders.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -401,6 +405,16 @@ export async function POST(
             return NextResponse.json({ error: 'Cannot complete an order that has no design files attached.' }, { status: 400 });
         }
 
+        // Customized items are delivered only after the customer approves their proof
+        const awaitingApproval = order.items.filter(item => ProofService.isAwaitingApproval(item));
+        if (awaitingApproval.length > 0) {
+            return NextResponse.json({
+                error: `Waiting for the customer to approve the proof of: ${awaitingApproval.map(item => item.productName).join(', ')}`
+            }, { status: 400 });
+        }
+
+        const before = AuditLogService.getOrderSnapshot(order);
+
         // --- CORE FIX: Update the delivery status for each item ---
         order.items.forEach((item: any) => {
             // Only update items that are not already in a final delivered state
@@ -412,37 +426,50 @@ export async function POST(
         });
         
         // Update the main order status and related fields
-        order.orderStatus = 'completed';
-        order.customizationStatus = 'completed';
+        const transition = OrderStateMachine.apply(
+            order,
+            { orderStatus: 'completed', customizationStatus: 'completed' },
+            {
+                actor: 'admin',
+                changedBy: session.user.name || 'admin',
+                historyStatus: 'completed',
+                note: `تم تحديد الطلب ${order.orderNumber} كمكتمل من قبل المدير`
+            }
+        );
+
+        if (!transition.success) {
+            return NextResponse.json({ error: transition.error }, { status: transition.statusCode || 400 });
+        }
+
         order.processedAt = new Date();
         order.processedBy = session.user.id || 'admin';
         order.actualDelivery = new Date();
         order.downloadExpiry = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days expiry
 
-        // Add a detailed history note
-        const historyNote = `تم تحديد الطلب ${order.orderNumber} كمكتمل من قبل المدير`;
-        order.orderHistory.push({
-            status: 'completed',
-            timestamp: new Date(),
-            note: historyNote,
-            changedBy: session.user.name || 'admin'
-        });
-
         await order.save();
         console.log('✅ Order and all its items have been marked as completed.');
 
-        // Generate download links for the email notification
-        const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
-        const downloadLinks = orderDesignFiles.map(odf => ({
-            fileName: odf.designFileId.fileName,
-            fileUrl: `${baseUrl}/api/design-files/${odf.designFileId._id}/download`,
-            fileSize: odf.designFileId.fileSize,
-            fileType: odf.designFileId.fileType
-        }));
+        await AuditLogService.record(request, session.user, {
+            action: 'order.complete',
+            entityType: 'order',
+            entityId: orderId,
+            entityLabel: order.orderNumber,
+            before,
+            after: AuditLogService.getOrderSnapshot(order),
+            metadata: { designFiles: orderDesignFiles.length }
+        });
 
         // Send completion email to the customer
         try {
             const { EmailService } = await import('@/lib/services/emailService');
+            const { DownloadTokenService } = await import('@/lib/services/downloadTokenService');
+
+            // Signed download links so the customer can download straight from the email
+            const downloadLinks = await DownloadTokenService.createOrderDownloadLinks(
+                order._id.toString(),
+                order.downloadExpiry
+            );
+
             await EmailService.sendOrderCompletedEmail(
                 order.customerEmail,
                 {
@@ -0,0 +1,132 @@
+/**
+ * Admin Order Messages API Route
+ *
+ * Routes:
+ * - GET /api/admin/orders/[id]/messages  - Full thread, including internal notes (marks customer messages read)
+ * - POST /api/admin/orders/[id]/messages - Post a message or internal note (multipart form data)
+ *
+ * Form fields (POST):
+ * - body: message text (optional when images are attached)
+ * - isInternal: "true" for a staff-only note
+ * - attachments: up to 5 images
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { getOrderScopeFilter, hasAnyPermission } from '@/lib/auth/permissions';
+import Order from '@/lib/db/models/Order';
+import connectDB from '@/lib/db/connection';
+import { OrderMessageService } from '@/lib/services/orderMessageService';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        // Check staff access (designers only see the customization queue)
+        const session = await getServerSession(authOptions);
+        const scopeFilter = getOrderScopeFilter(session?.user?.role);
+        if (!session?.user || !scopeFilter) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id: orderId } = await params;
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            return NextResponse.json({ success: false, message: 'Invalid order ID' }, { status: 400 });
+        }
+
+        const order = await Order.exists({ _id: orderId, ...scopeFilter });
+        if (!order) {
+            return NextResponse.json({ success: false, message: 'Order not found' }, { status: 404 });
+        }
+
+        const messages = await OrderMessageService.listMessages(orderId, 'staff');
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                messages,
+                canReply: hasAnyPermission(session.user.role, ['orders.write', 'orders.files'])
+            }
+        });
+    } catch (error) {
+        console.error('❌ Error fetching order messages:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch order messages' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        const scopeFilter = getOrderScopeFilter(session?.user?.role);
+        if (!session?.user || !scopeFilter || !hasAnyPermission(session.user.role, ['orders.write', 'orders.files'])) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id: orderId } = await params;
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            return NextResponse.json({ success: false, message: 'Invalid order ID' }, { status: 400 });
+        }
+
+        const order = await Order.exists({ _id: orderId, ...scopeFilter });
+        if (!order) {
+            return NextResponse.json({ success: false, message: 'Order not found' }, { status: 404 });
+        }
+
+        const formData = await request.formData();
+        const body = formData.get('body');
+        const files = formData.getAll('attachments').filter((file): file is File => file instanceof File);
+
+        // Reject oversized or non-image files before reading them
+        const attachmentError = OrderMessageService.validateAttachments(files.map(file => ({ mimeType: file.type, size: file.size })));
+        if (attachmentError) {
+            return NextResponse.json({ success: false, message: attachmentError }, { status: 400 });
+        }
+
+        const result = await OrderMessageService.postMessage(
+            orderId,
+            { type: 'staff', id: session.user.id, name: session.user.name },
+            {
+                body: typeof body === 'string' ? body : undefined,
+                isInternal: formData.get('isInternal') === 'true',
+                attachments: await Promise.all(files.map(async file => ({
+                    buffer: Buffer.from(await file.arrayBuffer()),
+                    fileName: file.name,
+                    mimeType: file.type,
+                    size: file.size
+                })))
+            }
+        );
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, message: result.error },
+                { status: result.statusCode || 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'Message sent',
+            data: { message: result.message }
+        }, { status: 201 });
+    } catch (error) {
+        console.error('❌ Error posting order message:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to send message' },
+            { status: 500 }
+        );
+    }
+}
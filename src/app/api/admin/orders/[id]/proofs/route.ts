@@ -0,0 +1,156 @@
+/**
+ * Admin Order Proofs API Route
+ *
+ * Routes:
+ * - GET /api/admin/orders/[id]/proofs  - Proof rounds of each item that needs approval
+ * - POST /api/admin/orders/[id]/proofs - Upload a proof for an item (multipart form data)
+ *
+ * Form fields (POST):
+ * - itemIndex: position of the item in order.items
+ * - file: preview image or PDF; a watermarked copy is shown to the customer
+ * - note: optional note from the designer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { getOrderScopeFilter, hasPermission } from '@/lib/auth/permissions';
+import Order from '@/lib/db/models/Order';
+import connectDB from '@/lib/db/connection';
+import { ProofService } from '@/lib/services/proofService';
+import { AuditLogService } from '@/lib/services/auditLogService';
+
+const ALLOWED_PROOF_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+const MAX_PROOF_SIZE = 20 * 1024 * 1024;
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'orders.files')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id: orderId } = await params;
+        const order = await Order.findOne({ _id: orderId, ...getOrderScopeFilter(session.user.role) });
+        if (!order) {
+            return NextResponse.json({ success: false, message: 'Order not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                items: order.items
+                    .map((item, index) => ({ item, index }))
+                    .filter(({ item }) => ProofService.requiresProof(item))
+                    .map(({ item, index }) => ({
+                        itemIndex: index,
+                        productId: item.productId,
+                        productName: item.productName,
+                        deliveryStatus: item.deliveryStatus,
+                        proofStatus: item.proofStatus,
+                        revisionRoundsAllowed: item.revisionRoundsAllowed ?? null,
+                        revisionsLeft: ProofService.getRevisionsLeft(item),
+                        proofs: item.proofs
+                    }))
+            }
+        });
+    } catch (error) {
+        console.error('❌ Error fetching order proofs:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch order proofs' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'orders.files')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id: orderId } = await params;
+        const inScope = await Order.exists({ _id: orderId, ...getOrderScopeFilter(session.user.role) });
+        if (!inScope) {
+            return NextResponse.json({ success: false, message: 'Order not found' }, { status: 404 });
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file');
+        const itemIndex = Number(formData.get('itemIndex'));
+        const note = formData.get('note');
+
+        if (!Number.isInteger(itemIndex) || itemIndex < 0) {
+            return NextResponse.json({ success: false, message: 'A valid item index is required' }, { status: 400 });
+        }
+
+        if (!(file instanceof File)) {
+            return NextResponse.json({ success: false, message: 'No proof file provided' }, { status: 400 });
+        }
+
+        if (!ALLOWED_PROOF_TYPES.includes(file.type)) {
+            return NextResponse.json(
+                { success: false, message: 'Proofs must be JPG, PNG, WEBP or PDF files' },
+                { status: 400 }
+            );
+        }
+
+        if (file.size > MAX_PROOF_SIZE) {
+            return NextResponse.json({ success: false, message: 'Proof file cannot exceed 20MB' }, { status: 400 });
+        }
+
+        if (typeof note === 'string' && note.length > 2000) {
+            return NextResponse.json({ success: false, message: 'Note cannot exceed 2000 characters' }, { status: 400 });
+        }
+
+        const result = await ProofService.uploadProof(
+            orderId,
+            itemIndex,
+            { buffer: Buffer.from(await file.arrayBuffer()), mimeType: file.type },
+            { id: session.user.id, name: session.user.name },
+            typeof note === 'string' ? note : undefined
+        );
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, message: result.error },
+                { status: result.statusCode || 400 }
+            );
+        }
+
+        await AuditLogService.record(request, session.user, {
+            action: 'order.uploadProof',
+            entityType: 'order',
+            entityId: orderId,
+            entityLabel: result.order?.orderNumber,
+            metadata: {
+                itemIndex,
+                productName: result.order?.items[itemIndex]?.productName,
+                round: result.proof?.round
+            }
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Proof uploaded and sent to the customer',
+            data: { proof: result.proof }
+        }, { status: 201 });
+    } catch (error) {
+        console.error('❌ Error uploading order proof:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to upload proof' },
+            { status: 500 }
+        );
+    }
+}
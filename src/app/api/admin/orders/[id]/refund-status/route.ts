@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 import Order from '@/lib/db/models/Order';
 import connectDB from '@/lib/db/connection';
 
@@ -15,7 +16,7 @@ export async function GET(
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'orders.read')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -46,37 +47,41 @@ export async function GET(
             entry.note?.includes('refund')
         );
 
-        // Extract PayPal refund ID from history notes
-        let paypalRefundId = null;
-        const refundEntry = refundHistory.find((entry: OrderHistoryEntry) =>
-            entry.note && entry.note.includes('RefundID:')
-        );
-
-        if (refundEntry && refundEntry.note) {
-            const match = refundEntry.note.match(/RefundID:\s*([A-Z0-9]+)/);
-            if (match) {
-                paypalRefundId = match[1];
-            }
-        }
+        // Refund details come from the refund ledger
+        const completedRefunds = (order.refunds || []).filter(refund => refund.status === 'completed');
+        const latestRefund = completedRefunds[completedRefunds.length - 1];
 
-        // Determine refund status
+        let paypalRefundId = latestRefund?.paypalRefundId || null;
         let refundStatus = 'not_refunded';
-        let refundAmount = null;
-        let refundDate = null;
+        let refundAmount: number | null = completedRefunds.length > 0 ? order.refundedAmount : null;
+        let refundDate = latestRefund?.completedAt || null;
 
         if (order.paymentStatus === 'refunded') {
             refundStatus = 'fully_refunded';
+        } else if (order.paymentStatus === 'partially_refunded') {
+            refundStatus = 'partially_refunded';
+        } else if ((order.refunds || []).length > 0 || refundHistory.length > 0) {
+            refundStatus = 'refund_attempted';
+        }
+
+        // Orders refunded before the ledger existed only have history notes
+        if (completedRefunds.length === 0 && order.paymentStatus === 'refunded') {
             refundAmount = order.totalPrice;
 
-            // Find the refund date from history
+            const refundEntry = refundHistory.find((entry: OrderHistoryEntry) =>
+                entry.note && entry.note.includes('RefundID:')
+            );
+            const match = refundEntry?.note?.match(/RefundID:\s*([A-Z0-9]+)/);
+            if (match) {
+                paypalRefundId = match[1];
+            }
+
             const refundProcessedEntry = refundHistory.find((entry: OrderHistoryEntry) =>
                 entry.status === 'refund_processed'
             );
             if (refundProcessedEntry) {
                 refundDate = refundProcessedEntry.timestamp;
             }
-        } else if (refundHistory.length > 0) {
-            refundStatus = 'refund_attempted';
         }
 
         // Verification steps for admin
@@ -94,12 +99,14 @@ export async function GET(
                 step: 'payment_status_check',
                 title: 'فحص حالة الدفع',
                 status: order.paymentStatus === 'refunded' ? 'success' :
-                    order.paymentStatus === 'paid' ? 'warning' : 'info',
+                    order.paymentStatus === 'paid' || order.paymentStatus === 'partially_refunded' ? 'warning' : 'info',
                 message: order.paymentStatus === 'refunded'
                     ? 'تم استرداد المبلغ بنجاح'
-                    : order.paymentStatus === 'paid'
-                        ? 'الطلب مدفوع - لم يتم الاسترداد بعد'
-                        : `حالة الدفع: ${order.paymentStatus}`,
+                    : order.paymentStatus === 'partially_refunded'
+                        ? `تم استرداد ${order.refundedAmount.toFixed(2)}$ من أصل ${order.totalPrice.toFixed(2)}$`
+                        : order.paymentStatus === 'paid'
+                            ? 'الطلب مدفوع - لم يتم الاسترداد بعد'
+                            : `حالة الدفع: ${order.paymentStatus}`,
                 details: `Payment Status: ${order.paymentStatus}`
             },
             {
@@ -156,6 +163,7 @@ export async function GET(
             refundDate,
             paypalTransactionId: order.paypalTransactionId,
             paypalRefundId,
+            refunds: order.refunds || [],
             verificationSteps,
             paypalVerificationInstructions,
             refundHistory: refundHistory.map((entry: OrderHistoryEntry) => ({
@@ -0,0 +1,159 @@
+/**
+ * Admin Order Refunds API Route
+ *
+ * Routes:
+ * - GET /api/admin/orders/[id]/refunds  - Refund ledger and refundable balance
+ * - POST /api/admin/orders/[id]/refunds - Refund items or an amount through PayPal
+ *
+ * Request body (POST):
+ * - itemIndexes: positions in order.items to refund (their files are revoked)
+ * - amount: amount to refund; defaults to the selected items' total, or the
+ *   remaining balance when no items are selected
+ * - reason: optional note sent to PayPal and stored in the ledger
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
+import Order from '@/lib/db/models/Order';
+import connectDB from '@/lib/db/connection';
+import { RefundService } from '@/lib/services/refundService';
+import { AuditLogService } from '@/lib/services/auditLogService';
+
+const refundSchema = z.object({
+    itemIndexes: z.array(z.number().int().min(0)).optional(),
+    amount: z.number()
+        .positive('Refund amount must be greater than zero')
+        .optional(),
+    reason: z.string()
+        .max(500, 'Refund reason cannot exceed 500 characters')
+        .trim()
+        .optional()
+});
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'orders.read')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id: orderId } = await params;
+        const order = await Order.findById(orderId);
+        if (!order) {
+            return NextResponse.json({ success: false, message: 'Order not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                paymentStatus: order.paymentStatus,
+                totalPrice: order.totalPrice,
+                refundedAmount: order.refundedAmount,
+                refundableAmount: RefundService.getRefundableAmount(order),
+                items: order.items.map((item, index) => ({
+                    itemIndex: index,
+                    productId: item.productId,
+                    productName: item.productName,
+                    quantity: item.quantity,
+                    amount: RefundService.getItemRefundAmount(order, index),
+                    refundedAt: item.refundedAt || null
+                })),
+                refunds: order.refunds
+            }
+        });
+    } catch (error) {
+        console.error('❌ Error fetching order refunds:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch order refunds' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'orders.refund')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id: orderId } = await params;
+        const body = refundSchema.parse(await request.json());
+
+        if (!body.itemIndexes?.length && body.amount === undefined) {
+            return NextResponse.json(
+                { success: false, message: 'Select items to refund or enter an amount' },
+                { status: 400 }
+            );
+        }
+
+        const adminName = session.user.name || session.user.email || 'admin';
+        console.log(`💸 Admin ${adminName} refunding order ${orderId}`, body);
+
+        const result = await RefundService.refundOrder(orderId, {
+            itemIndexes: body.itemIndexes,
+            amount: body.amount,
+            reason: body.reason,
+            actor: adminName
+        });
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, message: result.error, data: result.refund },
+                { status: result.statusCode || 500 }
+            );
+        }
+
+        await AuditLogService.record(request, session.user, {
+            action: 'order.refund',
+            entityType: 'order',
+            entityId: orderId,
+            entityLabel: result.order?.orderNumber,
+            metadata: {
+                paypalRefundId: result.refund!.paypalRefundId,
+                amount: result.refund!.amount,
+                items: result.refund!.items.map(item => item.productName),
+                reason: body.reason,
+                paymentStatus: result.order?.paymentStatus
+            }
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: `Refund of $${result.refund!.amount.toFixed(2)} processed`,
+            data: {
+                refund: result.refund,
+                paymentStatus: result.order?.paymentStatus,
+                refundedAmount: result.order?.refundedAmount
+            }
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Invalid input data',
+                    errors: error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        console.error('❌ Error processing order refund:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to process refund' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,18 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { getOrderScopeFilter, hasPermission } from '@/lib/auth/permissions';
 import Order from '@/lib/db/models/Order';
 import OrderDesignFile from '@/lib/db/models/OrderDesignFile';
 import connectDB from '@/lib/db/connection';
+import { RefundService } from '@/lib/services/refundService';
+import { OrderStateMachine } from '@/lib/services/orderStateMachine';
+import { OrderMessageService } from '@/lib/services/orderMessageService';
+import { AuditLogService } from '@/lib/services/auditLogService';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
-        // Check admin authentication
+        // Check staff access (designers only see the customization queue)
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        const scopeFilter = getOrderScopeFilter(session?.user?.role);
+        if (!session?.user || !scopeFilter) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -21,7 +27,7 @@ export async function GET(
         const { id: orderId } = await params;
 
         // Get order with populated data
-        const order = await Order.findById(orderId).lean();
+        const order = await Order.findOne({ _id: orderId, ...scopeFilter }).lean();
 
         if (!order) {
             return NextResponse.json({ error: 'Order not found' }, { status: 404 });
@@ -34,7 +40,8 @@ export async function GET(
 
         return NextResponse.json({
             order,
-            designFiles: orderDesignFiles
+            designFiles: orderDesignFiles,
+            unreadMessages: await OrderMessageService.getUnreadCount(orderId, 'staff')
         });
 
     } catch (error) {
@@ -53,7 +60,7 @@ export async function PUT(
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'orders.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -74,54 +81,64 @@ export async function PUT(
             return NextResponse.json({ error: 'Order not found' }, { status: 404 });
         }
 
-        // Update fields
-        const updates: any = {};
-        const historyEntry: any = {
-            timestamp: new Date(),
-            changedBy: session.user.name || 'admin'
-        };
+        const before = AuditLogService.getOrderSnapshot(order);
+        const changedBy = session.user.name || 'admin';
 
+        // Status changes go through the state machine, which records their history entry
         if (orderStatus && orderStatus !== order.orderStatus) {
-            updates.orderStatus = orderStatus;
-            historyEntry.status = orderStatus;
-            historyEntry.note = `تم تغيير حالة الطلب إلى ${orderStatus === 'pending' ? 'في الانتظار' : orderStatus === 'processing' ? 'قيد المعالجة' : orderStatus === 'completed' ? 'مكتمل' : orderStatus === 'cancelled' ? 'ملغي' : orderStatus}`;
+            const transition = OrderStateMachine.apply(order, { orderStatus }, {
+                actor: 'admin',
+                changedBy,
+                note: `تم تغيير حالة الطلب إلى ${OrderStateMachine.getStatusLabel('orderStatus', orderStatus)}`
+            });
+
+            if (!transition.success) {
+                return NextResponse.json(
+                    { error: `Cannot change order status from "${order.orderStatus}" to "${orderStatus}"` },
+                    { status: 400 }
+                );
+            }
         }
 
+        // Update fields
+        let historyEntry: { status: string; note: string } | null = null;
+
         if (adminNotes !== undefined) {
-            updates.adminNotes = adminNotes;
-            if (!historyEntry.status) {
-                historyEntry.status = 'note_updated';
-                historyEntry.note = 'تم تحديث ملاحظات المدير';
+            order.adminNotes = adminNotes;
+            if (!historyEntry) {
+                historyEntry = { status: 'note_updated', note: 'تم تحديث ملاحظات المدير' };
             }
         }
 
         if (estimatedDelivery !== undefined) {
-            updates.estimatedDelivery = estimatedDelivery ? new Date(estimatedDelivery) : null;
-            if (!historyEntry.status) {
-                historyEntry.status = 'delivery_updated';
-                historyEntry.note = 'تم تحديث موعد التسليم المتوقع';
+            order.estimatedDelivery = estimatedDelivery ? new Date(estimatedDelivery) : undefined;
+            if (!historyEntry) {
+                historyEntry = { status: 'delivery_updated', note: 'تم تحديث موعد التسليم المتوقع' };
             }
         }
 
         if (customerNotes !== undefined) {
-            updates.customerNotes = customerNotes;
-            if (!historyEntry.status) {
-                historyEntry.status = 'customer_note_updated';
-                historyEntry.note = 'تم تحديث ملاحظات العميل';
+            order.customerNotes = customerNotes;
+            if (!historyEntry) {
+                historyEntry = { status: 'customer_note_updated', note: 'تم تحديث ملاحظات العميل' };
             }
         }
 
-        // Add to history if there are changes
-        if (Object.keys(updates).length > 0) {
-            updates.$push = { orderHistory: historyEntry };
+        // Add to history if only the notes or delivery date changed
+        if (historyEntry && !order.isModified('orderStatus')) {
+            order.orderHistory.push({ ...historyEntry, timestamp: new Date(), changedBy });
         }
 
-        // Update the order
-        const updatedOrder = await Order.findByIdAndUpdate(
-            orderId,
-            updates,
-            { new: true, runValidators: true }
-        );
+        const updatedOrder = await order.save();
+
+        await AuditLogService.record(request, session.user, {
+            action: 'order.update',
+            entityType: 'order',
+            entityId: orderId,
+            entityLabel: order.orderNumber,
+            before,
+            after: AuditLogService.getOrderSnapshot(updatedOrder)
+        });
 
         return NextResponse.json({
             message: 'Order updated successfully',
@@ -144,7 +161,7 @@ export async function DELETE(
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'orders.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -158,85 +175,94 @@ export async function DELETE(
             return NextResponse.json({ error: 'Order not found' }, { status: 404 });
         }
 
+        if (!OrderStateMachine.canTransition('orderStatus', order.orderStatus, 'cancelled', 'admin')) {
+            return NextResponse.json(
+                { error: `Orders with status "${order.orderStatus}" cannot be cancelled` },
+                { status: 400 }
+            );
+        }
+
         // Check if order needs refund processing (skip free orders and orders without PayPal transaction)
-        let refundResult = null;
+        const before = AuditLogService.getOrderSnapshot(order);
+        const isRefundable = order.paymentStatus === 'paid' || order.paymentStatus === 'partially_refunded';
+        const refundAmount = RefundService.getRefundableAmount(order);
+        let refundResult: { success: boolean; refundId?: string; error?: string } | null = null;
         if (order.paymentStatus === 'free' || order.totalPrice === 0) {
             console.log('🆓 Free order cancellation - skipping PayPal refund:', order.orderNumber);
-        } else if (order.paymentStatus === 'paid' && order.paypalTransactionId) {
+        } else if (isRefundable && order.paypalTransactionId && refundAmount > 0) {
             console.log('💳 Processing refund for paid order:', order.orderNumber);
 
             try {
-                // Import PayPal service
-                const { PayPalService } = await import('@/lib/paypal/service');
-
-                // Process the refund
-                refundResult = await PayPalService.processRefund(
-                    order.paypalTransactionId,
-                    {
-                        currency_code: 'USD',
-                        value: order.totalPrice.toFixed(2)
-                    },
-                    `إلغاء الطلب رقم ${order.orderNumber} - Admin cancellation`
-                );
-
-                if (refundResult.success) {
+                // Refund whatever has not been refunded yet and record it in the ledger
+                const result = await RefundService.refundOrder(orderId, {
+                    reason: `إلغاء الطلب رقم ${order.orderNumber} - Admin cancellation`,
+                    actor: session.user.name || 'admin'
+                });
+
+                refundResult = {
+                    success: result.success,
+                    refundId: result.refund?.paypalRefundId,
+                    error: result.error
+                };
+
+                if (result.success) {
                     console.log('✅ Refund processed successfully:', refundResult.refundId);
-
-                    // Update order with refund information
-                    await Order.findByIdAndUpdate(
-                        orderId,
-                        {
-                            paymentStatus: 'refunded',
-                            $push: {
-                                orderHistory: {
-                                    status: 'refund_processed',
-                                    timestamp: new Date(),
-                                    note: `تمت معالجة استرداد المبلغ بنجاح - RefundID: ${refundResult.refundId}`,
-                                    changedBy: session.user.name || 'admin'
-                                }
-                            }
-                        }
-                    );
                 } else {
-                    console.error('❌ Refund failed:', refundResult.error);
+                    console.error('❌ Refund failed:', result.error);
                     // Continue with cancellation even if refund fails, but log the error
                 }
             } catch (refundError) {
                 console.error('❌ Error processing refund:', refundError);
                 // Continue with cancellation even if refund fails
             }
-        } else if (order.paymentStatus === 'paid' && !order.paypalTransactionId) {
+        } else if (isRefundable && !order.paypalTransactionId) {
             console.log('⚠️ Paid order without PayPal transaction ID - skipping refund:', order.orderNumber);
         }
 
-        // Soft delete - mark as cancelled instead of actually deleting
-        const updatedOrder = await Order.findByIdAndUpdate(
-            orderId,
-            {
-                orderStatus: 'cancelled',
-                $push: {
-                    orderHistory: {
-                        status: 'cancelled',
-                        timestamp: new Date(),
-                        note: refundResult?.success
-                            ? `تم إلغاء الطلب من قبل المدير واسترداد المبلغ بنجاح`
-                            : order.paymentStatus === 'paid'
-                                ? `تم إلغاء الطلب من قبل المدير - فشل في معالجة الاسترداد: ${refundResult?.error || 'خطأ غير محدد'}`
-                                : 'تم إلغاء الطلب من قبل المدير',
-                        changedBy: session.user.name || 'admin'
-                    }
-                }
-            },
-            { new: true }
-        );
+        // Soft delete - mark as cancelled instead of actually deleting. The refund
+        // may have changed the order, so the state machine checks the latest copy.
+        const updatedOrder = await Order.findById(orderId);
+        if (!updatedOrder) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+        }
+
+        const transition = OrderStateMachine.apply(updatedOrder, { orderStatus: 'cancelled' }, {
+            actor: 'admin',
+            changedBy: session.user.name || 'admin',
+            historyStatus: 'cancelled',
+            note: refundResult?.success
+                ? `تم إلغاء الطلب من قبل المدير واسترداد المبلغ بنجاح`
+                : isRefundable
+                    ? `تم إلغاء الطلب من قبل المدير - فشل في معالجة الاسترداد: ${refundResult?.error || 'خطأ غير محدد'}`
+                    : 'تم إلغاء الطلب من قبل المدير'
+        });
+
+        if (!transition.success) {
+            return NextResponse.json(
+                { error: `Orders with status "${updatedOrder.orderStatus}" cannot be cancelled`, refundResult },
+                { status: 400 }
+            );
+        }
+
+        await updatedOrder.save();
+
+        await AuditLogService.record(request, session.user, {
+            action: 'order.cancel',
+            entityType: 'order',
+            entityId: orderId,
+            entityLabel: updatedOrder.orderNumber,
+            before,
+            after: AuditLogService.getOrderSnapshot(updatedOrder),
+            metadata: { refund: refundResult }
+        });
 
         // Send cancellation email to customer
         try {
             const { EmailService } = await import('@/lib/services/emailService');
 
             const emailMessage = refundResult?.success
-                ? `تم إلغاء طلبك وسيتم استرداد المبلغ ${order.totalPrice.toFixed(2)} دولار إلى حسابك خلال 3-5 أيام عمل.`
-                : order.paymentStatus === 'paid'
+                ? `تم إلغاء طلبك وسيتم استرداد المبلغ ${refundAmount.toFixed(2)} دولار إلى حسابك خلال 3-5 أيام عمل.`
+                : isRefundable
                     ? `تم إلغاء طلبك. يرجى التواصل معنا بخصوص استرداد المبلغ.`
                     : 'تم إلغاء طلبك من قبل المدير';
 
@@ -276,8 +302,8 @@ export async function DELETE(
         // Prepare response message
         let responseMessage = 'Order cancelled successfully';
         if (refundResult?.success) {
-            responseMessage += ` and refund of $${order.totalPrice.toFixed(2)} processed`;
-        } else if (order.paymentStatus === 'paid') {
+            responseMessage += ` and refund of $${refundAmount.toFixed(2)} processed`;
+        } else if (isRefundable) {
             responseMessage += ` (refund processing failed - please handle manually)`;
         }
 
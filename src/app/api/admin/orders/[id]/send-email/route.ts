@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 import Order from '@/lib/db/models/Order';
 import connectDB from '@/lib/db/connection';
 import { EmailService } from '@/lib/services/emailService';
+import { DownloadTokenService } from '@/lib/services/downloadTokenService';
 
 export async function POST(
     request: NextRequest,
@@ -12,7 +14,7 @@ export async function POST(
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'orders.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -85,13 +87,18 @@ export async function POST(
         try {
             switch (emailType) {
                 case 'order_completed':
-                    // Convert download links from strings to objects
-                    const downloadLinksForEmail = (order.downloadLinks || []).map((url: string, index: number) => ({
-                        fileName: `design-file-${index + 1}`,
-                        fileUrl: url,
-                        fileSize: 1024 * 1024, // 1MB default
-                        fileType: 'design'
-                    }));
+                    const downloadExpiry = order.downloadExpiry || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+                    // Prefer signed links to the order's files; fall back to legacy string links
+                    let downloadLinksForEmail = await DownloadTokenService.createOrderDownloadLinks(orderId, downloadExpiry);
+                    if (downloadLinksForEmail.length === 0) {
+                        downloadLinksForEmail = (order.downloadLinks || []).map((url: string, index: number) => ({
+                            fileName: `design-file-${index + 1}`,
+                            fileUrl: url,
+                            fileSize: 1024 * 1024, // 1MB default
+                            fileType: 'design'
+                        }));
+                    }
 
                     emailResult = await EmailService.sendOrderCompletedEmail(
                         order.customerEmail,
@@ -99,7 +106,7 @@ export async function POST(
                             orderNumber: order.orderNumber,
                             customerName: order.customerName,
                             downloadLinks: downloadLinksForEmail,
-                            downloadExpiry: order.downloadExpiry || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+                            downloadExpiry
                         }
                     );
                     break;
@@ -182,7 +189,7 @@ export async function GET(
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'orders.read')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
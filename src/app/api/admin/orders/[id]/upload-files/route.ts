@@ -455,9 +455,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import mongoose from 'mongoose';
 import { authOptions } from '@/lib/auth/config';
+import { getOrderScopeFilter, hasPermission } from '@/lib/auth/permissions';
 import { Order, DesignFile, OrderDesignFile } from '@/lib/db/models';
 import connectDB from '@/lib/db/connection';
 import { FileUtils } from '@/lib/utils/fileUtils';
+import { getDefaultStorageDriver } from '@/lib/storage';
+import { OrderStateMachine } from '@/lib/services/orderStateMachine';
+import { ProofService } from '@/lib/services/proofService';
+import { AuditLogService } from '@/lib/services/auditLogService';
 import { is } from 'zod/v4/locales';
 
 // You need to define the IDesignFile interface or import it if it's in another file
@@ -485,7 +490,7 @@ export async function POST(
     { params }: { params: { id: string } }
 ) {
     const session = await getServerSession(authOptions);
-    if (!session?.user?.role || session.user.role !== 'admin') {
+    if (!session?.user || !hasPermission(session.user.role, 'orders.files')) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -493,7 +498,7 @@ export async function POST(
         await connectDB();
         const { id: orderId } = await params;
 
-        const order = await Order.findById(orderId);
+        const order = await Order.findOne({ _id: orderId, ...getOrderScopeFilter(session.user.role) });
         if (!order) {
             return NextResponse.json({ error: 'Order not found' }, { status: 404 });
         }
@@ -504,6 +509,11 @@ export async function POST(
             return NextResponse.json({ error: 'Product ID and a valid files array are required' }, { status: 400 });
         }
 
+        // Final files stay locked until the customer approves the item's proof
+        const orderItem = order.items.find(item => item.productId.toString() === productId);
+        const awaitingApproval = !!orderItem && ProofService.isAwaitingApproval(orderItem);
+        const before = AuditLogService.getOrderSnapshot(order);
+
         for (const fileData of files) {
             // Step 1: Create the main file asset record (DesignFile)
             // It's linked to the product AND the specific order.
@@ -513,6 +523,7 @@ export async function POST(
                 isForOrder: true,                              // Mark as an order-specific file
                 fileName: fileData.fileName,
                 fileUrl: fileData.fileUrl,
+                storageDriver: getDefaultStorageDriver(), // Uploaded through /api/admin/upload/order-file
                 fileType: fileData.fileType,
                 fileSize: fileData.fileSize,
                 mimeType: FileUtils.getMimeType(fileData.fileName),
@@ -530,7 +541,8 @@ export async function POST(
                 orderId: order._id,
                 designFileId: designFile._id,
                 downloadCount: 0,
-                isActive: true,
+                isActive: !awaitingApproval,
+                pendingApproval: awaitingApproval,
                 expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30-day access for customer
             });
             await orderDesignFile.save();
@@ -538,20 +550,45 @@ export async function POST(
         //here
         
         // Update order status
-        order.customizationStatus = 'processing';
-        if (order.orderStatus !== 'processing') {
-            order.orderStatus = 'processing';
+        const uploadNote = awaitingApproval
+            ? `تم رفع ${files.length} ملفات تصميم للطلب (بانتظار موافقة العميل على البروفة)`
+            : `تم رفع ${files.length} ملفات تصميم للطلب`;
+        const transition = OrderStateMachine.apply(
+            order,
+            { orderStatus: 'processing', customizationStatus: 'processing' },
+            { actor: 'admin', changedBy: session.user.name || 'admin', historyStatus: 'files_uploaded', note: uploadNote }
+        );
+
+        // Record the upload even when the statuses stay as they are
+        if (!transition.changed) {
+            order.orderHistory.push({
+                status: 'files_uploaded',
+                timestamp: new Date(),
+                note: uploadNote,
+                changedBy: session.user.name || 'admin'
+            });
         }
 
-        order.orderHistory.push({
-            status: 'files_uploaded',
-            timestamp: new Date(),
-            note: `تم رفع ${files.length} ملفات تصميم للطلب`,
-            changedBy: session.user.name || 'admin'
+        await order.save();
+
+        await AuditLogService.record(request, session.user, {
+            action: 'order.uploadFiles',
+            entityType: 'order',
+            entityId: orderId,
+            entityLabel: order.orderNumber,
+            before,
+            after: AuditLogService.getOrderSnapshot(order),
+            metadata: {
+                productId,
+                files: files.map((file: { fileName?: string }) => file.fileName),
+                pendingApproval: awaitingApproval
+            }
         });
 
-        await order.save();
-        return NextResponse.json({ message: `Successfully created files and access records for order ${order.orderNumber}` });
+        return NextResponse.json({
+            message: `Successfully created files and access records for order ${order.orderNumber}`,
+            pendingApproval: awaitingApproval
+        });
 
     } catch (error) {
         console.error('Error in POST /upload-files:', error);
@@ -568,7 +605,7 @@ export async function GET(
     { params }: { params: { id: string } }
 ) {
     const session = await getServerSession(authOptions);
-    if (!session?.user?.role || session.user.role !== 'admin') {
+    if (!session?.user || !hasPermission(session.user.role, 'orders.files')) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -580,6 +617,11 @@ export async function GET(
             return NextResponse.json({ error: 'Invalid Order ID format' }, { status: 400 });
         }
 
+        const inScope = await Order.exists({ _id: orderId, ...getOrderScopeFilter(session.user.role) });
+        if (!inScope) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+        }
+
         // Correct Logic: Find the "access tickets" and get the file details
         // 1. Find all OrderDesignFile documents for this order.
         // 2. Use .populate() to automatically fetch the full data for each linked DesignFile.
@@ -604,6 +646,7 @@ export async function GET(
             colorName: record.designFileId.colorVariantName,
             downloadCount: record.downloadCount,
             accessExpiresAt: record.expiresAt,
+            pendingApproval: record.pendingApproval,
 
         }));
 
@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { getOrderScopeFilter } from '@/lib/auth/permissions';
 import Order from '@/lib/db/models/Order';
 import connectDB from '@/lib/db/connection';
+import { OrderMessageService } from '@/lib/services/orderMessageService';
 
 export async function GET(request: NextRequest) {
     try {
-        // Check admin authentication
+        // Check staff access (designers only see the customization queue)
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        const scopeFilter = getOrderScopeFilter(session?.user?.role);
+        if (!session?.user || !scopeFilter) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -28,7 +31,7 @@ export async function GET(request: NextRequest) {
         const sortOrder = searchParams.get('sortOrder') || 'desc';
 
         // Build filter object
-        const filter: any = {};
+        const filter: any = { ...scopeFilter };
 
         if (status && status !== 'all') {
             filter.orderStatus = status;
@@ -77,13 +80,22 @@ export async function GET(request: NextRequest) {
             Order.countDocuments(filter)
         ]);
 
+        // Unread customer messages, per order
+        const unreadMessages = await OrderMessageService.getUnreadCounts(
+            orders.map(order => order._id.toString()),
+            'staff'
+        );
+
         // Calculate pagination info
         const totalPages = Math.ceil(totalCount / limit);
         const hasNextPage = page < totalPages;
         const hasPrevPage = page > 1;
 
         return NextResponse.json({
-            orders,
+            orders: orders.map(order => ({
+                ...order,
+                unreadMessages: unreadMessages[order._id.toString()] || 0
+            })),
             pagination: {
                 page,
                 limit,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 import Order from '@/lib/db/models/Order';
 import connectDB from '@/lib/db/connection';
 
@@ -8,7 +9,7 @@ export async function GET(request: NextRequest) {
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'orders.read')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -16,14 +16,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
-import { ApiRouteContext } from '@/lib/auth/types';
+import { withPermission } from '@/lib/auth/middleware';
+import { ApiRouteContext, SessionUser } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
 import { Product, DesignFile } from '@/lib/db/models';
 import { z } from 'zod';
-import { unlink, rmdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import { FileUtils } from '@/lib/utils/fileUtils';
+import { customizationFieldsSchema } from '@/lib/utils/customizationFields';
+import { getStorageProvider } from '@/lib/storage';
+import { AuditLogService } from '@/lib/services/auditLogService';
 
 // Define validation schemas locally
 const colorThemeSchema = z.object({
@@ -87,6 +88,8 @@ const createProductSchema = z.object({
     allowTextEditing: z.boolean().default(false),
     allowImageReplacement: z.boolean().default(false),
     allowLogoUpload: z.boolean().default(false),
+    revisionRounds: z.number().int().min(0).max(10).default(2),
+    customizationFields: customizationFieldsSchema.default([]),
     colors: z.array(colorThemeSchema).default([]),
     categoryId: z.string()
         .min(1, 'Category is required'),
@@ -165,7 +168,7 @@ async function getProduct(req: NextRequest, context: ApiRouteContext) {
  * PUT /api/admin/products/[id]
  * Update a specific product
  */
-async function updateProduct(req: NextRequest, context: ApiRouteContext) {
+async function updateProduct(req: NextRequest, context: ApiRouteContext, user: SessionUser) {
     try {
         await connectDB();
 
@@ -212,12 +215,23 @@ async function updateProduct(req: NextRequest, context: ApiRouteContext) {
             );
         }
 
+        const before = product.toObject();
+
         // Update the product fields
         Object.assign(product, validatedBody);
 
         // Save the product to trigger pre-save middleware for final price calculation
         const updatedProduct = await product.save();
 
+        await AuditLogService.record(req, user, {
+            action: 'product.update',
+            entityType: 'product',
+            entityId: String(updatedProduct._id),
+            entityLabel: updatedProduct.name,
+            before,
+            after: updatedProduct.toObject()
+        });
+
         // Populate the category
         await updatedProduct.populate('categoryId', 'name');
 
@@ -248,7 +262,7 @@ async function updateProduct(req: NextRequest, context: ApiRouteContext) {
  * DELETE /api/admin/products/[id]
  * Hard delete a product and all its associated files
  */
-async function deleteProduct(req: NextRequest, context: ApiRouteContext) {
+async function deleteProduct(req: NextRequest, context: ApiRouteContext, user: SessionUser) {
     try {
         await connectDB();
 
@@ -275,14 +289,11 @@ async function deleteProduct(req: NextRequest, context: ApiRouteContext) {
         for (const designFile of designFiles) {
             try {
                 if (designFile.fileUrl && designFile.fileUrl.startsWith('/uploads/')) {
-                    const filePath = join(process.cwd(), 'public', designFile.fileUrl);
-
-                    if (existsSync(filePath)) {
-                        await unlink(filePath);
-                        console.log(`Deleted file: ${filePath}`);
+                    if (await FileUtils.deleteFile(designFile.fileUrl, designFile.storageDriver)) {
+                        console.log(`Deleted file: ${designFile.fileUrl}`);
                         deletedFiles.push(designFile.fileUrl);
                     } else {
-                        console.log(`File not found: ${filePath}`);
+                        console.log(`File not found: ${designFile.fileUrl}`);
                         failedFiles.push(designFile.fileUrl);
                     }
                 }
@@ -292,15 +303,11 @@ async function deleteProduct(req: NextRequest, context: ApiRouteContext) {
             }
         }
 
-        // Try to remove the product's upload directory if it exists
+        // Remove anything left in the product's upload folder
         try {
-            const uploadDir = join(process.cwd(), 'public', 'uploads', 'designs', product.slug);
-            if (existsSync(uploadDir)) {
-                await rmdir(uploadDir);
-                console.log(`Deleted upload directory: ${uploadDir}`);
-            }
+            await getStorageProvider().deletePrefix(`uploads/designs/${product.slug}`);
         } catch (dirError) {
-            console.log(`Could not delete upload directory (may not be empty): ${dirError}`);
+            console.log(`Could not delete upload directory: ${dirError}`);
         }
 
         // Delete design files from database
@@ -311,6 +318,15 @@ async function deleteProduct(req: NextRequest, context: ApiRouteContext) {
         await Product.findByIdAndDelete(validatedParams.id);
         console.log(`Deleted product: ${validatedParams.id}`);
 
+        await AuditLogService.record(req, user, {
+            action: 'product.delete',
+            entityType: 'product',
+            entityId: validatedParams.id,
+            entityLabel: product.name,
+            before: product.toObject(),
+            metadata: { deletedDesignFiles: deleteResult.deletedCount }
+        });
+
         return NextResponse.json({
             success: true,
             message: 'Product and all associated files deleted successfully',
@@ -340,6 +356,6 @@ async function deleteProduct(req: NextRequest, context: ApiRouteContext) {
 }
 
 // Apply middleware and export handlers
-export const GET = withAdmin(getProduct);
-export const PUT = withAdmin(updateProduct);
-export const DELETE = withAdmin(deleteProduct); 
\ No newline at end of file
+export const GET = withPermission('products.read', getProduct);
+export const PUT = withPermission('products.write', updateProduct);
+export const DELETE = withPermission('products.write', deleteProduct); 
\ No newline at end of file
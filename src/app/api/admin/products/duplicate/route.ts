@@ -6,12 +6,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
+import { ApiRouteContext, SessionUser } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
 import { Product } from '@/lib/db/models';
 import { generateSlug } from '@/lib/utils/productUtils';
+import { AuditLogService } from '@/lib/services/auditLogService';
 
-export const POST = withAdmin(async (request: NextRequest) => {
+export const POST = withPermission('products.write', async (request: NextRequest, _context: ApiRouteContext, user: SessionUser) => {
     try {
         await connectDB();
 
@@ -36,14 +38,8 @@ export const POST = withAdmin(async (request: NextRequest) => {
 
         // Generate new name and slug with "copy" suffix
         const newName = `${originalProduct.name} copy`;
-        let newSlug = generateSlug(`${originalProduct.slug}-copy`);
-
-        // Ensure slug uniqueness
-        let counter = 1;
-        while (await Product.findOne({ slug: newSlug })) {
-            newSlug = generateSlug(`${originalProduct.slug}-copy-${counter}`);
-            counter++;
-        }
+        // The model appends -2, -3, ... if this slug is already taken
+        const newSlug = generateSlug(`${originalProduct.slug}-copy`);
 
         // Create duplicate product data
         const duplicateData = {
@@ -65,6 +61,8 @@ export const POST = withAdmin(async (request: NextRequest) => {
             allowTextEditing: originalProduct.allowTextEditing,
             allowImageReplacement: originalProduct.allowImageReplacement,
             allowLogoUpload: originalProduct.allowLogoUpload,
+            revisionRounds: originalProduct.revisionRounds,
+            customizationFields: originalProduct.customizationFields,
 
             // Copy color themes (but not the files - those would need manual re-upload)
             colors: originalProduct.colors?.map((color: { name: string; hex: string; description?: string }) => ({
@@ -86,6 +84,15 @@ export const POST = withAdmin(async (request: NextRequest) => {
         const duplicateProduct = new Product(duplicateData);
         await duplicateProduct.save();
 
+        await AuditLogService.record(request, user, {
+            action: 'product.duplicate',
+            entityType: 'product',
+            entityId: String(duplicateProduct._id),
+            entityLabel: duplicateProduct.name,
+            after: duplicateProduct.toObject(),
+            metadata: { originalProductId: productId }
+        });
+
         // Populate the response
         await duplicateProduct.populate('categoryId');
 
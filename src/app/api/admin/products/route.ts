@@ -610,15 +610,15 @@
  * - Input validation and sanitization
  * - Pagination support
  * - Search and filtering
- * - Duplicate name/slug checking
- * - Auto-slug generation
+ * - Duplicate name checking
+ * - Auto-slug generation with collision resolution
  * - Image management
  * - Color theme management
  * - Category validation
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
 import { Product, Category, DesignFile } from '@/lib/db/models';
@@ -629,42 +629,12 @@ import {
     validateProductData,
     sanitizeProductForResponse
 } from '@/lib/utils/productUtils';
-import { join } from 'path';
-import { existsSync, unlink, rmdir, readdir, stat } from 'fs';
-import { promisify } from 'util';
+import { FileUtils } from '@/lib/utils/fileUtils';
+import { customizationFieldsSchema } from '@/lib/utils/customizationFields';
+import { getStorageProvider } from '@/lib/storage';
+import { AuditLogService } from '@/lib/services/auditLogService';
 import mongoose from 'mongoose';
 
-
-// Promisify fs functions
-const readdirAsync = promisify(readdir);
-const statAsync = promisify(stat);
-const unlinkAsync = promisify(unlink);
-const rmdirAsync = promisify(rmdir);
-
-// Recursive directory removal function
-async function removeDirectoryRecursive(dirPath: string): Promise<void> {
-    if (!existsSync(dirPath)) {
-        return;
-    }
-
-    const files = await readdirAsync(dirPath);
-
-    for (const file of files) {
-        const filePath = join(dirPath, file);
-        const stats = await statAsync(filePath);
-
-        if (stats.isDirectory()) {
-            await removeDirectoryRecursive(filePath);
-        } else {
-            await unlinkAsync(filePath);
-            console.log(`Deleted file: ${filePath}`);
-        }
-    }
-
-    await rmdirAsync(dirPath);
-    console.log(`Deleted directory: ${dirPath}`);
-}
-
 // Validation schemas
 const colorThemeSchema = z.object({
     name: z.string()
@@ -730,6 +700,8 @@ const createProductSchema = z.object({
     allowTextEditing: z.boolean().default(false),
     allowImageReplacement: z.boolean().default(false),
     allowLogoUpload: z.boolean().default(false),
+    revisionRounds: z.number().int().min(0).max(10).default(2),
+    customizationFields: customizationFieldsSchema.default([]),
     colors: z.array(colorThemeSchema).default([]),
     categoryId: z.string()
         .min(1, 'Category is required'),
@@ -892,17 +864,15 @@ async function createProduct(req: NextRequest, _context: ApiRouteContext, user:
         const body = await req.json();
         const validatedData = createProductSchema.parse(body);
 
+        // A taken slug gets a numeric suffix when the product is saved
         const slug = validatedData.slug || generateSlug(validatedData.name);
 
         const existingProduct = await Product.findOne({
-            $or: [
-                { name: { $regex: `^${validatedData.name}$`, $options: 'i' } },
-                { slug }
-            ]
+            name: { $regex: `^${validatedData.name}$`, $options: 'i' }
         });
 
         if (existingProduct) {
-            return NextResponse.json({ success: false, message: 'Product with this name or slug already exists' }, { status: 409 });
+            return NextResponse.json({ success: false, message: 'Product with this name already exists' }, { status: 409 });
         }
 
         const category = await Category.findById(validatedData.categoryId);
@@ -923,6 +893,14 @@ async function createProduct(req: NextRequest, _context: ApiRouteContext, user:
 
         await product.save();
 
+        await AuditLogService.record(req, user, {
+            action: 'product.create',
+            entityType: 'product',
+            entityId: String(product._id),
+            entityLabel: product.name,
+            after: product.toObject()
+        });
+
         return NextResponse.json({ success: true, message: 'Product created successfully', data: sanitizeProductForResponse(product) }, { status: 201 });
 
     } catch (error) {
@@ -935,11 +913,11 @@ async function createProduct(req: NextRequest, _context: ApiRouteContext, user:
 }
 
 // Apply middleware and export handlers
-export const GET = withAdmin(getProducts);
-export const POST = withAdmin(createProduct);
+export const GET = withPermission('products.read', getProducts);
+export const POST = withPermission('products.write', createProduct);
 
 // Soft delete and restore handlers
-export const DELETE = withAdmin(async (req: NextRequest, _context: ApiRouteContext, user: SessionUser) => {
+export const DELETE = withPermission('products.write', async (req: NextRequest, _context: ApiRouteContext, user: SessionUser) => {
     try {
         const { searchParams } = new URL(req.url);
         const productId = searchParams.get('id');
@@ -964,22 +942,20 @@ export const DELETE = withAdmin(async (req: NextRequest, _context: ApiRouteConte
         for (const designFile of designFiles) {
             try {
                 if (designFile.fileUrl) {
-                    let filePath: string;
-                    if (designFile.fileUrl.startsWith('/uploads/')) {
-                        filePath = join(process.cwd(), 'public', designFile.fileUrl);
-                    } else if (designFile.fileUrl.startsWith('http')) {
+                    if (designFile.fileUrl.startsWith('http')) {
                         console.log(`Skipping external file: ${designFile.fileUrl}`);
                         continue;
-                    } else {
-                        filePath = join(process.cwd(), 'public', 'uploads', designFile.fileUrl);
                     }
 
-                    if (existsSync(filePath)) {
-                        await unlinkAsync(filePath);
-                        console.log(`Successfully deleted file: ${filePath}`);
+                    const fileUrl = designFile.fileUrl.startsWith('/uploads/')
+                        ? designFile.fileUrl
+                        : `/uploads/${designFile.fileUrl.replace(/^\/+/, '')}`;
+
+                    if (await FileUtils.deleteFile(fileUrl, designFile.storageDriver)) {
+                        console.log(`Successfully deleted file: ${fileUrl}`);
                         deletedFiles.push(designFile.fileUrl);
                     } else {
-                        console.log(`File not found: ${filePath}`);
+                        console.log(`File not found: ${fileUrl}`);
                         failedFiles.push(designFile.fileUrl);
                     }
                 }
@@ -991,14 +967,10 @@ export const DELETE = withAdmin(async (req: NextRequest, _context: ApiRouteConte
 
         console.log(`File deletion summary: ${deletedFiles.length} deleted, ${failedFiles.length} failed`);
 
+        const productPrefix = `uploads/designs/${product.slug}`;
         try {
-            const uploadDir = join(process.cwd(), 'public', 'uploads', 'designs', product.slug);
-            if (existsSync(uploadDir)) {
-                await removeDirectoryRecursive(uploadDir);
-                console.log(`Successfully deleted directory: ${uploadDir}`);
-            } else {
-                console.log(`Directory not found: ${uploadDir}`);
-            }
+            const removed = await getStorageProvider().deletePrefix(productPrefix);
+            console.log(`Deleted ${removed} remaining files under: ${productPrefix}`);
         } catch (dirError) {
             console.error(`Error deleting directory:`, dirError);
         }
@@ -1009,6 +981,15 @@ export const DELETE = withAdmin(async (req: NextRequest, _context: ApiRouteConte
         await Product.findByIdAndDelete(productId);
         console.log(`Deleted product: ${productId}`);
 
+        await AuditLogService.record(req, user, {
+            action: 'product.delete',
+            entityType: 'product',
+            entityId: productId,
+            entityLabel: product.name,
+            before: product.toObject(),
+            metadata: { deletedDesignFiles: deleteResult.deletedCount }
+        });
+
         return NextResponse.json({
             success: true,
             message: 'Product and all associated files deleted successfully',
@@ -1019,8 +1000,8 @@ export const DELETE = withAdmin(async (req: NextRequest, _context: ApiRouteConte
                 deletedDesignFiles: deleteResult.deletedCount,
                 debug: {
                     productSlug: product.slug,
-                    uploadDir: join(process.cwd(), 'public', 'uploads', 'designs', product.slug),
-                    cwd: process.cwd()
+                    storagePrefix: productPrefix,
+                    storageDriver: getStorageProvider().driver
                 }
             }
         });
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import PromoCode from '@/lib/db/models/PromoCode'
 import Product from '@/lib/db/models/Product'
 import connectDB from '@/lib/db/connection'
+import { AuditLogService } from '@/lib/services/auditLogService'
 
 // GET /api/admin/promo-codes/[id] - Get specific promo code
 export async function GET(
@@ -13,7 +15,7 @@ export async function GET(
     try {
         const session = await getServerSession(authOptions)
 
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'promoCodes.read')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
@@ -90,7 +92,7 @@ export async function PUT(
     try {
         const session = await getServerSession(authOptions)
 
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'promoCodes.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
@@ -206,6 +208,15 @@ export async function PUT(
             )
         }
 
+        await AuditLogService.record(request, session.user, {
+            action: 'promoCode.update',
+            entityType: 'promoCode',
+            entityId: id,
+            entityLabel: updatedPromoCode.code as string,
+            before: existingPromoCode.toObject(),
+            after: updatedPromoCode
+        })
+
         // Get product details for response
         let products: Record<string, unknown>[] = []
 
@@ -276,7 +287,7 @@ export async function DELETE(
     try {
         const session = await getServerSession(authOptions)
 
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'promoCodes.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
@@ -302,6 +313,14 @@ export async function DELETE(
 
         await PromoCode.findByIdAndDelete(id)
 
+        await AuditLogService.record(request, session.user, {
+            action: 'promoCode.delete',
+            entityType: 'promoCode',
+            entityId: id,
+            entityLabel: promoCode.code,
+            before: promoCode.toObject()
+        })
+
         return NextResponse.json({
             success: true,
             message: 'Promo code deleted successfully'
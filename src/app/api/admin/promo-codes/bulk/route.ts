@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import PromoCode from '@/lib/db/models/PromoCode'
 import connectDB from '@/lib/db/connection'
+import { AuditLogService } from '@/lib/services/auditLogService'
 
 // POST /api/admin/promo-codes/bulk - Bulk operations on promo codes
 export async function POST(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions)
 
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'promoCodes.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
@@ -28,6 +30,21 @@ export async function POST(request: NextRequest) {
 
         let result: any = {}
 
+        // Snapshot for the audit log
+        const targetPromoCodes = await PromoCode.find({ _id: { $in: promoCodeIds } })
+        const auditEntries = (after: (promoCode: Record<string, unknown>) => Record<string, unknown> | undefined) =>
+            targetPromoCodes.map(promoCode => {
+                const before = promoCode.toObject()
+                return {
+                    action: `promoCode.${action}`,
+                    entityType: 'promoCode' as const,
+                    entityId: String(promoCode._id),
+                    entityLabel: promoCode.code,
+                    before,
+                    after: after(before)
+                }
+            })
+
         switch (action) {
             case 'delete':
                 // Check if any promo codes have been used
@@ -51,6 +68,8 @@ export async function POST(request: NextRequest) {
                     _id: { $in: promoCodeIds }
                 })
 
+                await AuditLogService.recordMany(request, session.user, auditEntries(() => undefined))
+
                 return NextResponse.json({
                     success: true,
                     message: `Successfully deleted ${result.deletedCount} promo codes`,
@@ -63,6 +82,8 @@ export async function POST(request: NextRequest) {
                     { isActive: true }
                 )
 
+                await AuditLogService.recordMany(request, session.user, auditEntries(before => ({ ...before, isActive: true })))
+
                 return NextResponse.json({
                     success: true,
                     message: `Successfully activated ${result.modifiedCount} promo codes`,
@@ -75,6 +96,8 @@ export async function POST(request: NextRequest) {
                     { isActive: false }
                 )
 
+                await AuditLogService.recordMany(request, session.user, auditEntries(before => ({ ...before, isActive: false })))
+
                 return NextResponse.json({
                     success: true,
                     message: `Successfully deactivated ${result.modifiedCount} promo codes`,
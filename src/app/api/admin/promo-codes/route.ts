@@ -1,16 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import PromoCode from '@/lib/db/models/PromoCode'
 import Product from '@/lib/db/models/Product'
 import connectDB from '@/lib/db/connection'
+import { AuditLogService } from '@/lib/services/auditLogService'
 
 // GET /api/admin/promo-codes - List all promo codes with filters
 export async function GET(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions)
 
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'promoCodes.read')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
@@ -137,7 +139,7 @@ export async function POST(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions)
 
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'promoCodes.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
@@ -232,6 +234,14 @@ export async function POST(request: NextRequest) {
 
         await promoCode.save()
 
+        await AuditLogService.record(request, session.user, {
+            action: 'promoCode.create',
+            entityType: 'promoCode',
+            entityId: String(promoCode._id),
+            entityLabel: promoCode.code,
+            after: promoCode.toObject()
+        })
+
         // Get product details for response
         let productDetails = null
         if (!promoCode.applyToAllProducts && promoCode.productIds && promoCode.productIds.length > 0) {
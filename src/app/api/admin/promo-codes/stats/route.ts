@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import PromoCode from '@/lib/db/models/PromoCode'
 import Product from '@/lib/db/models/Product'
 import connectDB from '@/lib/db/connection'
@@ -10,7 +11,7 @@ export async function GET(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions)
 
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'promoCodes.read')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
@@ -1,23 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import dbConnect from '@/lib/db/connection'
 import Review from '@/lib/db/models/Review'
+import { ReviewService } from '@/lib/services/reviewService'
+import { AuditLogService } from '@/lib/services/auditLogService'
+import { z } from 'zod'
+
+const updateReviewSchema = z.object({
+    status: z.enum(['pending', 'approved', 'rejected']).optional(),
+    rejectionReason: z.string().trim().max(500).optional(),
+    order: z.number().int().optional(),
+})
 
 // GET - Fetch single review (admin)
 export async function GET(
     request: NextRequest,
-    { params }: { params: { id: string } }
+    { params }: { params: Promise<{ id: string }> }
 ) {
     try {
         const session = await getServerSession(authOptions)
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'reviews.moderate')) {
             return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 })
         }
 
         await dbConnect()
 
-        const review = await Review.findById(params.id).lean()
+        const { id } = await params
+        const review = await Review.findById(id).populate('productId', 'name slug').lean()
         if (!review) {
             return NextResponse.json({ success: false, message: 'Review not found' }, { status: 404 })
         }
@@ -35,31 +46,71 @@ export async function GET(
     }
 }
 
-// PUT - Update review (admin)
+// PUT - Moderate / update review (admin)
 export async function PUT(
     request: NextRequest,
-    { params }: { params: { id: string } }
+    { params }: { params: Promise<{ id: string }> }
 ) {
     try {
         const session = await getServerSession(authOptions)
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'reviews.moderate')) {
             return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 })
         }
 
         await dbConnect()
+
+        const { id } = await params
         const body = await request.json()
+        const { status, rejectionReason, order } = updateReviewSchema.parse(body)
+        const before = await Review.findById(id).lean()
+
+        if (order !== undefined) {
+            const updated = await Review.findByIdAndUpdate(id, { order })
+            if (!updated) {
+                return NextResponse.json({ success: false, message: 'Review not found' }, { status: 404 })
+            }
+        }
+
+        if (status) {
+            const adminName = session.user.name || session.user.email
+            const result = await ReviewService.moderate(id, status, adminName, rejectionReason)
 
-        const review = await Review.findByIdAndUpdate(params.id, body, { new: true })
+            if (!result.success) {
+                return NextResponse.json(
+                    { success: false, message: result.error },
+                    { status: result.statusCode || 400 }
+                )
+            }
+        }
+
+        const review = await Review.findById(id).populate('productId', 'name slug').lean()
         if (!review) {
             return NextResponse.json({ success: false, message: 'Review not found' }, { status: 404 })
         }
 
+        await AuditLogService.record(request, session.user, {
+            action: status ? `review.${status}` : 'review.update',
+            entityType: 'review',
+            entityId: id,
+            entityLabel: review.name,
+            before,
+            after: await Review.findById(id).lean()
+        })
+
         return NextResponse.json({
             success: true,
             data: review,
         })
     } catch (error) {
         console.error('Error updating review:', error)
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid review data', errors: error.issues },
+                { status: 400 }
+            )
+        }
+
         return NextResponse.json(
             { success: false, message: 'Failed to update review' },
             { status: 500 }
@@ -70,21 +121,30 @@ export async function PUT(
 // DELETE - Delete review (admin)
 export async function DELETE(
     request: NextRequest,
-    { params }: { params: { id: string } }
+    { params }: { params: Promise<{ id: string }> }
 ) {
     try {
         const session = await getServerSession(authOptions)
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'reviews.moderate')) {
             return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 })
         }
 
         await dbConnect()
 
-        const review = await Review.findByIdAndDelete(params.id)
-        if (!review) {
-            return NextResponse.json({ success: false, message: 'Review not found' }, { status: 404 })
+        const { id } = await params
+        const result = await ReviewService.deleteReview(id)
+        if (!result.success) {
+            return NextResponse.json({ success: false, message: result.error }, { status: result.statusCode || 400 })
         }
 
+        await AuditLogService.record(request, session.user, {
+            action: 'review.delete',
+            entityType: 'review',
+            entityId: id,
+            entityLabel: result.review?.name,
+            before: result.review?.toObject()
+        })
+
         return NextResponse.json({
             success: true,
             message: 'Review deleted successfully',
@@ -96,4 +156,4 @@ export async function DELETE(
             { status: 500 }
         )
     }
-} 
\ No newline at end of file
+}
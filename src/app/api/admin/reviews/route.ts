@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import dbConnect from '@/lib/db/connection'
 import Review from '@/lib/db/models/Review'
+import { ReviewService } from '@/lib/services/reviewService'
+import { AuditLogService } from '@/lib/services/auditLogService'
 
 // GET - Fetch all reviews (admin)
 export async function GET(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions)
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'reviews.moderate')) {
             return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 })
         }
 
@@ -18,6 +21,7 @@ export async function GET(request: NextRequest) {
         const search = searchParams.get('search') || ''
         const status = searchParams.get('status') || 'all'
         const rating = searchParams.get('rating') || 'all'
+        const type = searchParams.get('type') || 'all'
 
         // Build query
         const query: any = {}
@@ -30,9 +34,21 @@ export async function GET(request: NextRequest) {
             ]
         }
 
-        // Status filter
-        if (status !== 'all') {
-            query.isActive = status === 'true'
+        // Status filter (reviews from before moderation states only have isActive)
+        if (status === 'approved') {
+            query.isActive = true
+        } else if (status === 'pending') {
+            query.isActive = false
+            query.status = { $ne: 'rejected' }
+        } else if (status === 'rejected') {
+            query.status = 'rejected'
+        }
+
+        // Product reviews or store-wide testimonials
+        if (type === 'product') {
+            query.productId = { $type: 'objectId' }
+        } else if (type === 'store') {
+            query.productId = null
         }
 
         // Rating filter
@@ -40,7 +56,10 @@ export async function GET(request: NextRequest) {
             query.rating = parseInt(rating)
         }
 
-        const reviews = await Review.find(query).sort({ order: 1, createdAt: -1 }).lean()
+        const reviews = await Review.find(query)
+            .populate('productId', 'name slug')
+            .sort({ order: 1, createdAt: -1 })
+            .lean()
 
         return NextResponse.json({
             success: true,
@@ -59,16 +78,29 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions)
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'reviews.moderate')) {
             return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 })
         }
 
         await dbConnect()
         const body = await request.json()
 
-        const review = new Review(body)
+        // Reviews added by an admin are published unless a status is given
+        const review = new Review({ status: 'approved', ...body })
         await review.save()
 
+        await AuditLogService.record(request, session.user, {
+            action: 'review.create',
+            entityType: 'review',
+            entityId: String(review._id),
+            entityLabel: review.name,
+            after: review.toObject()
+        })
+
+        if (review.productId) {
+            await ReviewService.refreshProductRating(review.productId.toString())
+        }
+
         return NextResponse.json({
             success: true,
             data: review,
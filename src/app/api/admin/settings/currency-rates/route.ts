@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
+import { AuditLogService } from '@/lib/services/auditLogService'
+import { CurrencyService } from '@/lib/services/currencyService'
+
+// GET /api/admin/settings/currency-rates - Every supported currency with its saved rate
+export async function GET() {
+    const session = await getServerSession(authOptions)
+    if (!session || !hasPermission(session.user.role, 'settings.write')) {
+        return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const rates = await CurrencyService.getRates()
+    return NextResponse.json({ data: rates })
+}
+
+// POST /api/admin/settings/currency-rates - Import rates from the contents of a JSON rates file
+export async function POST(req: NextRequest) {
+    const session = await getServerSession(authOptions)
+    if (!session || !hasPermission(session.user.role, 'settings.write')) {
+        return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    let data: unknown
+    try {
+        data = await req.json()
+    } catch {
+        return NextResponse.json({ error: 'The file is not valid JSON' }, { status: 400 })
+    }
+
+    const before = await CurrencyService.getRates()
+    const result = await CurrencyService.importRates(data)
+    if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.statusCode || 400 })
+    }
+
+    await AuditLogService.record(req, session.user, {
+        action: 'siteSettings.importRates',
+        entityType: 'siteSettings',
+        entityLabel: 'Currency rates',
+        before,
+        after: result.rates
+    })
+
+    return NextResponse.json({ data: result.rates, imported: result.imported })
+}
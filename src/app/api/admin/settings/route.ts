@@ -4,15 +4,42 @@ import { SiteSettings } from '@/lib/db/models'
 import type { ISiteSettings } from '@/lib/db/models/SiteSettings'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import { deleteImage } from '@/lib/cloudinary/config'
+import { AuditLogService } from '@/lib/services/auditLogService'
+import { StoreStatsService } from '@/lib/services/storeStatsService'
+import { STORE_STAT_KEYS } from '@/lib/utils/storeStatsUtils'
+import { BASE_CURRENCY, CURRENCY_CODES } from '@/lib/utils/currencyUtils'
+import { z } from 'zod'
+
+const storeStatsSchema = z.object({
+    metrics: z.array(z.object({
+        key: z.enum(STORE_STAT_KEYS as [string, ...string[]]),
+        enabled: z.boolean(),
+        label: z.string().trim().max(50).optional(),
+        subtitle: z.string().trim().max(50).optional(),
+        roundTo: z.number().int().min(0).max(1000000).optional(),
+        showPlus: z.boolean().optional(),
+        minimum: z.number().min(0).optional()
+    })).optional(),
+    revalidateSeconds: z.number().int().min(0).max(86400).optional()
+})
+
+// Manually entered exchange rates; the base currency is implicit (rate 1)
+const currencySchema = z.object({
+    rates: z.array(z.object({
+        code: z.enum(CURRENCY_CODES as [string, ...string[]]),
+        rate: z.number().min(0).max(1000000),
+        enabled: z.boolean()
+    }).refine(rate => !rate.enabled || rate.rate > 0, { message: 'Enabled currencies need a positive rate' }))
+})
 
 async function requireAdmin() {
     const session = await getServerSession(authOptions)
-    console.log(session)
-    if (!session || session.user.role !== 'admin') {
-        return false
+    if (!session || !hasPermission(session.user.role, 'settings.write')) {
+        return null
     }
-    return true
+    return session.user
 }
 
 export async function GET() {
@@ -24,7 +51,8 @@ export async function GET() {
 export async function PUT(req: NextRequest) {
     console.log('PUT request received')
 
-    if (!(await requireAdmin())) return new NextResponse('Unauthorized', { status: 401 })
+    const user = await requireAdmin()
+    if (!user) return new NextResponse('Unauthorized', { status: 401 })
     await connectDB()
     const body = await req.json()
 
@@ -60,12 +88,51 @@ export async function PUT(req: NextRequest) {
         }
     }
 
+    if (body.checkout) {
+        for (const [key, value] of Object.entries(body.checkout)) {
+            setUpdate[`checkout.${key}`] = value
+        }
+    }
+
+    if (body.storeStats) {
+        const parsed = storeStatsSchema.safeParse(body.storeStats)
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid store stats settings', errors: parsed.error.issues }, { status: 400 })
+        }
+        for (const [key, value] of Object.entries(parsed.data)) {
+            setUpdate[`storeStats.${key}`] = value
+        }
+    }
+
+    if (body.currency) {
+        const parsed = currencySchema.safeParse(body.currency)
+        if (!parsed.success) {
+            return NextResponse.json({ error: 'Invalid currency settings', errors: parsed.error.issues }, { status: 400 })
+        }
+        setUpdate['currency.rates'] = parsed.data.rates.filter(rate => rate.code !== BASE_CURRENCY)
+        setUpdate['currency.source'] = 'manual'
+        setUpdate['currency.ratesUpdatedAt'] = new Date()
+    }
+
     const doc = await SiteSettings.findOneAndUpdate(
         {},
         { $set: setUpdate },
         { new: true, upsert: true, setDefaultsOnInsert: true }
     )
 
+    await AuditLogService.record(req, user, {
+        action: 'siteSettings.update',
+        entityType: 'siteSettings',
+        entityId: String(doc._id),
+        entityLabel: 'Site settings',
+        before: existing,
+        after: doc.toObject()
+    })
+
+    if (body.storeStats) {
+        StoreStatsService.invalidateCache()
+    }
+
     // Cloudinary cleanup for replaced images
     try {
         // Branding logo
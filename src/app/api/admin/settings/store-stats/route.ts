@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
+import { StoreStatsService } from '@/lib/services/storeStatsService'
+import { STORE_STAT_KEYS } from '@/lib/utils/storeStatsUtils'
+
+// GET /api/admin/settings/store-stats - Real (unrounded, uncached) metric values for the settings preview
+export async function GET() {
+    const session = await getServerSession(authOptions)
+    if (!session || !hasPermission(session.user.role, 'settings.write')) {
+        return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    try {
+        const values = await StoreStatsService.computeMetrics(STORE_STAT_KEYS)
+        return NextResponse.json({ data: values })
+    } catch (error) {
+        console.error('Error computing store stats:', error)
+        return NextResponse.json({ error: 'Failed to compute store stats' }, { status: 500 })
+    }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { DiscordWebhookService } from '@/lib/services/discordWebhookService';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 
 /**
  * Test Discord Webhook
@@ -11,7 +12,7 @@ export async function POST(request: NextRequest) {
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
             return NextResponse.json(
                 { error: 'Unauthorized - Admin access required' },
                 { status: 401 }
@@ -21,11 +21,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdmin } from '@/lib/auth/middleware'
+import { withPermission } from '@/lib/auth/middleware'
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types'
-import { unlink, rmdir, readdir, stat } from 'fs/promises'
-import { join } from 'path'
-import { existsSync } from 'fs'
+import { getStorageProvider } from '@/lib/storage'
 import { z } from 'zod'
 
 const deleteColorFolderSchema = z.object({
@@ -39,48 +37,23 @@ async function deleteColorFolder(req: NextRequest, _context: ApiRouteContext, us
         const validatedData = deleteColorFolderSchema.parse(body)
         const { productSlug, colorName } = validatedData
 
-        const baseUploadDir = join(process.cwd(), 'public', 'uploads', 'designs')
-        const colorDir = join(baseUploadDir, productSlug, colorName)
+        const storage = getStorageProvider()
+        const colorPrefix = `uploads/designs/${productSlug}/${colorName}`
 
-        // Check if directory exists
-        if (!existsSync(colorDir)) {
+        // Check if the color folder has any files
+        const existingKeys = await storage.list(colorPrefix)
+        if (existingKeys.length === 0) {
             return NextResponse.json({
                 success: false,
                 message: `Color directory '${colorName}' does not exist`
             }, { status: 404 })
         }
 
-        // Safety check: ensure we're within the uploads directory
-        const uploadsDir = join(process.cwd(), 'public', 'uploads')
-        if (!colorDir.startsWith(uploadsDir)) {
-            return NextResponse.json({
-                success: false,
-                message: 'Invalid directory path'
-            }, { status: 400 })
-        }
-
         let deletedFiles = 0
 
         try {
-            // Get all files in the directory
-            const files = await readdir(colorDir)
-
-            // Delete each file if any exist
-            for (const file of files) {
-                const filePath = join(colorDir, file)
-                const fileStat = await stat(filePath)
-
-                if (fileStat.isFile()) {
-                    await unlink(filePath)
-                    deletedFiles++
-                    console.log(`Deleted file: ${filePath}`)
-                }
-            }
-
-            // Remove the empty directory
-            await rmdir(colorDir)
-            console.log(`Deleted directory: ${colorDir}`)
-
+            deletedFiles = await storage.deletePrefix(colorPrefix)
+            console.log(`Deleted ${deletedFiles} files under: ${colorPrefix}`)
         } catch (dirError) {
             console.error('Error deleting directory contents:', dirError)
             return NextResponse.json({
@@ -113,4 +86,4 @@ async function deleteColorFolder(req: NextRequest, _context: ApiRouteContext, us
     }
 }
 
-export const DELETE = withAdmin(deleteColorFolder) 
\ No newline at end of file
+export const DELETE = withPermission('products.write', deleteColorFolder) 
\ No newline at end of file
@@ -2,6 +2,8 @@
  * Delete Uploaded File API Route
  * 
  * This endpoint allows admins to delete uploaded files by their URL.
+ * Order files (under /uploads/orders/) only need the orders.files permission,
+ * so designers can remove files they uploaded for an order.
  * 
  * Route: DELETE /api/admin/upload/delete-file
  * 
@@ -12,11 +14,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
+import { getDesignFilePermission, getOrderScopeFilter, hasPermission } from '@/lib/auth/permissions';
+import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
 import { FileUtils } from '@/lib/utils/fileUtils';
-import { DesignFile } from '@/lib/db/models';
+import connectDB from '@/lib/db/connection';
+import { DesignFile, Order } from '@/lib/db/models';
+import { StorageDriver } from '@/lib/storage';
+import { AuditLogService } from '@/lib/services/auditLogService';
 import { z } from 'zod';
 
+const ORDER_UPLOADS_PREFIX = '/uploads/orders/';
+
 // Validation schema
 const deleteFileSchema = z.object({
     fileUrl: z.string()
@@ -29,7 +38,7 @@ const deleteFileSchema = z.object({
  * DELETE /api/admin/upload/delete-file
  * Delete an uploaded file by its URL
  */
-async function deleteUploadedFile(req: NextRequest) {
+async function deleteUploadedFile(req: NextRequest, _context: ApiRouteContext, user: SessionUser) {
     try {
         const body = await req.json();
 
@@ -48,14 +57,50 @@ async function deleteUploadedFile(req: NextRequest) {
 
         const { fileUrl, deleteFromDatabase } = validationResult.data;
 
+        await connectDB();
+
+        // Uploads that are not recorded yet are judged by their path
+        const designFile = await DesignFile.findOne({ fileUrl });
+        const isForOrder = designFile
+            ? designFile.isForOrder
+            : fileUrl.startsWith(ORDER_UPLOADS_PREFIX) && !fileUrl.includes('..');
+
+        if (!hasPermission(user.role, getDesignFilePermission({ isForOrder }))) {
+            return NextResponse.json(
+                { success: false, message: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        // Designers may only touch files of orders in their queue
+        if (designFile?.isForOrder && designFile.orderId) {
+            const inScope = await Order.exists({ _id: designFile.orderId, ...getOrderScopeFilter(user.role) });
+            if (!inScope) {
+                return NextResponse.json(
+                    { success: false, message: 'File not found' },
+                    { status: 404 }
+                );
+            }
+        }
+
         let databaseDeleted = true;
+        let storageDriver: StorageDriver | undefined = designFile?.storageDriver;
 
         // Delete from database if requested and file exists in database
         if (deleteFromDatabase) {
             try {
-                const deletedFile = await DesignFile.findOneAndDelete({ fileUrl });
+                const deletedFile = designFile ? await DesignFile.findByIdAndDelete(designFile._id) : null;
                 if (deletedFile) {
+                    storageDriver = deletedFile.storageDriver;
                     console.log(`Deleted file from database: ${fileUrl}`);
+
+                    await AuditLogService.record(req, user, {
+                        action: 'designFile.delete',
+                        entityType: 'designFile',
+                        entityId: deletedFile._id.toString(),
+                        entityLabel: deletedFile.fileName,
+                        before: deletedFile.toObject()
+                    });
                 } else {
                     console.log(`File not found in database (may be temporary): ${fileUrl}`);
                 }
@@ -65,8 +110,8 @@ async function deleteUploadedFile(req: NextRequest) {
             }
         }
 
-        // Delete the file from storage
-        const deleteSuccess = await FileUtils.deleteFile(fileUrl);
+        // Delete the file from storage (the record's backend, else the configured one)
+        const deleteSuccess = await FileUtils.deleteFile(fileUrl, storageDriver);
 
         if (deleteSuccess && databaseDeleted) {
             return NextResponse.json({
@@ -102,4 +147,4 @@ async function deleteUploadedFile(req: NextRequest) {
 }
 
 // Apply middleware and export handler
-export const DELETE = withAdmin(deleteUploadedFile); 
\ No newline at end of file
+export const DELETE = withPermission(['products.write', 'orders.files'], deleteUploadedFile); 
\ No newline at end of file
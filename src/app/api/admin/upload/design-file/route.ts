@@ -1,7 +1,7 @@
 /**
  * Admin Design File Upload API Routes
  * 
- * This file handles admin-only design file uploads to local server storage.
+ * This file handles admin-only design file uploads to the configured storage backend.
  * 
  * Routes:
  * - POST /api/admin/upload/design-file - Upload a design file
@@ -9,17 +9,15 @@
  * Features:
  * - Admin-only access control
  * - File validation and security
- * - Local server storage
+ * - Pluggable storage (local, private directory or S3)
  * - File organization and naming
  * - Error handling
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import { getStorageProvider, storageUrlFromKey } from '@/lib/storage';
 import { z } from 'zod';
 
 export const config = {
@@ -86,7 +84,7 @@ const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 
 /**
  * POST /api/admin/upload/design-file
- * Upload a design file to local server storage
+ * Upload a design file to the configured storage backend
  */
 async function uploadDesignFile(req: NextRequest, _context: ApiRouteContext, user: SessionUser) {
     try {
@@ -196,34 +194,23 @@ async function uploadDesignFile(req: NextRequest, _context: ApiRouteContext, use
         const uniqueFileName = `${timestamp}_${validatedData.fileName}`;
         const sanitizedFileName = uniqueFileName.replace(/[^a-zA-Z0-9._-]/g, '_');
 
-        // Create directory structure using product slug and color name if provided
-        let uploadDir: string;
-        let publicUrl: string;
-        const projectRoot = join(process.cwd());
-        if (validatedData.colorName) {
-            // Color-specific folder structure: /uploads/designs/product-slug/color-name/
-
-            uploadDir = join(projectRoot, 'public', 'uploads', 'designs', validatedData.productSlug, validatedData.colorName);
-            publicUrl = `/uploads/designs/${validatedData.productSlug}/${validatedData.colorName}/${sanitizedFileName}`;
-        } else {
-            // Regular folder structure: /uploads/designs/product-slug/
-            uploadDir = join(projectRoot, 'public', 'uploads', 'designs', validatedData.productSlug);
-            publicUrl = `/uploads/designs/${validatedData.productSlug}/${sanitizedFileName}`;
-        }
-
-        const filePath = join(uploadDir, sanitizedFileName);
-
-        // Ensure upload directory exists
-        if (!existsSync(uploadDir)) {
-            await mkdir(uploadDir, { recursive: true });
-        }
+        // Storage key uses product slug and color name if provided:
+        // uploads/designs/{productSlug}/{colorName?}/{fileName}
+        const storageKey = validatedData.colorName
+            ? `uploads/designs/${validatedData.productSlug}/${validatedData.colorName}/${sanitizedFileName}`
+            : `uploads/designs/${validatedData.productSlug}/${sanitizedFileName}`;
+        const publicUrl = storageUrlFromKey(storageKey);
 
         // Convert file to buffer and save
         const bytes = await file.arrayBuffer();
         const buffer = Buffer.from(bytes);
 
-        // Write file to disk
-        await writeFile(filePath, buffer);
+        const storage = getStorageProvider();
+        await storage.put(
+            storageKey,
+            buffer,
+            ALLOWED_FILE_TYPES[validatedData.fileType as keyof typeof ALLOWED_FILE_TYPES]
+        );
 
         // Return success response
         return NextResponse.json({
@@ -232,6 +219,7 @@ async function uploadDesignFile(req: NextRequest, _context: ApiRouteContext, use
             data: {
                 fileName: validatedData.fileName,
                 fileUrl: publicUrl,
+                storageDriver: storage.driver,
                 fileType: validatedData.fileType,
                 fileSize: file.size,
                 mimeType: ALLOWED_FILE_TYPES[validatedData.fileType as keyof typeof ALLOWED_FILE_TYPES],
@@ -266,7 +254,7 @@ async function uploadDesignFile(req: NextRequest, _context: ApiRouteContext, use
 }
 
 // Apply middleware and export handlers
-export const POST = withAdmin(uploadDesignFile);
+export const POST = withPermission('products.write', uploadDesignFile);
 
 // Configure route segment to handle large files
 export const runtime = 'nodejs'
@@ -15,7 +15,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import cloudinary, { categoryImageOptions } from '@/lib/cloudinary/config';
 
 export const config = {
@@ -108,4 +108,4 @@ async function uploadImages(req: NextRequest) {
 }
 
 // Apply middleware and export handlers
-export const POST = withAdmin(uploadImages); 
\ No newline at end of file
+export const POST = withPermission('products.write', uploadImages); 
\ No newline at end of file
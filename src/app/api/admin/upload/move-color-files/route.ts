@@ -24,11 +24,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdmin } from '@/lib/auth/middleware'
+import { withPermission } from '@/lib/auth/middleware'
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types'
-import { rename, mkdir, access, readdir, rmdir } from 'fs/promises'
-import { join } from 'path'
-import { existsSync } from 'fs'
+import { getStorageProvider, storageUrlFromKey } from '@/lib/storage'
 import { z } from 'zod'
 
 const moveColorFilesSchema = z.object({
@@ -56,23 +54,19 @@ async function moveColorFiles(req: NextRequest, _context: ApiRouteContext, user:
             })
         }
 
-        const baseUploadDir = join(process.cwd(), 'public', 'uploads', 'designs')
-        const oldDir = join(baseUploadDir, productSlug, oldColorName)
-        const newDir = join(baseUploadDir, productSlug, newColorName)
+        const storage = getStorageProvider()
+        const oldPrefix = `uploads/designs/${productSlug}/${oldColorName}`
+        const newPrefix = `uploads/designs/${productSlug}/${newColorName}`
 
-        // Check if old directory exists
-        if (!existsSync(oldDir)) {
+        // Check if old color folder has any files
+        const existingKeys = await storage.list(oldPrefix)
+        if (existingKeys.length === 0) {
             return NextResponse.json({
                 success: false,
                 message: `Source color directory '${oldColorName}' does not exist`
             }, { status: 404 })
         }
 
-        // Create new directory if it doesn't exist
-        if (!existsSync(newDir)) {
-            await mkdir(newDir, { recursive: true })
-        }
-
         const movedFiles = []
 
         // Move each file
@@ -80,39 +74,23 @@ async function moveColorFiles(req: NextRequest, _context: ApiRouteContext, user:
             const fileName = file.oldUrl.split('/').pop()
             if (!fileName) continue
 
-            const oldFilePath = join(oldDir, fileName)
-            const newFilePath = join(newDir, fileName)
+            const oldKey = `${oldPrefix}/${fileName}`
+            const newKey = `${newPrefix}/${fileName}`
 
-            // Check if source file exists
-            try {
-                await access(oldFilePath)
-            } catch (error) {
-                console.error(`Source file does not exist: ${oldFilePath}`)
+            // Move the file (false when the source does not exist)
+            const moved = await storage.move(oldKey, newKey)
+            if (!moved) {
+                console.error(`Source file does not exist: ${oldKey}`)
                 continue
             }
 
-            // Move the file
-            await rename(oldFilePath, newFilePath)
-
-            const newUrl = `/uploads/designs/${productSlug}/${newColorName}/${fileName}`
             movedFiles.push({
                 fileName: file.fileName,
                 oldUrl: file.oldUrl,
-                newUrl: newUrl
+                newUrl: storageUrlFromKey(newKey)
             })
 
-            console.log(`Moved color file: ${oldFilePath} -> ${newFilePath}`)
-        }
-
-        // Remove old directory if empty
-        try {
-            const remainingFiles = await readdir(oldDir)
-            if (remainingFiles.length === 0) {
-                await rmdir(oldDir)
-                console.log(`Removed empty directory: ${oldDir}`)
-            }
-        } catch (dirError) {
-            console.error('Error checking/removing old directory:', dirError)
+            console.log(`Moved color file: ${oldKey} -> ${newKey}`)
         }
 
         return NextResponse.json({
@@ -139,4 +117,4 @@ async function moveColorFiles(req: NextRequest, _context: ApiRouteContext, user:
     }
 }
 
-export const POST = withAdmin(moveColorFiles) 
\ No newline at end of file
+export const POST = withPermission('products.write', moveColorFiles) 
\ No newline at end of file
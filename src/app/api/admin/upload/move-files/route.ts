@@ -9,17 +9,15 @@
  * 
  * Features:
  * - Admin-only access control
- * - File system operations
+ * - Storage provider operations
  * - Database updates
  * - Error handling and rollback
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
-import { rename, mkdir, access, readdir, rmdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import { getStorageProvider, storageUrlFromKey } from '@/lib/storage';
 import { z } from 'zod';
 
 // Validation schema
@@ -55,13 +53,13 @@ async function moveFiles(req: NextRequest, _context: ApiRouteContext, user: Sess
                 files: files.map(f => ({ fileName: f.fileName, newUrl: f.oldUrl }))
             });
         }
-        const projectRoot = join(process.cwd());
-        const baseUploadDir = join(projectRoot, 'public', 'uploads', 'designs');
-        const oldDir = join(baseUploadDir, oldSlug);
-        const newDir = join(baseUploadDir, newSlug);
+        const storage = getStorageProvider();
+        const oldPrefix = `uploads/designs/${oldSlug}`;
+        const newPrefix = `uploads/designs/${newSlug}`;
 
-        // Check if old directory exists
-        if (!existsSync(oldDir)) {
+        // Check if old folder has any files
+        const existingKeys = await storage.list(oldPrefix);
+        if (existingKeys.length === 0) {
             return NextResponse.json(
                 {
                     success: false,
@@ -71,11 +69,6 @@ async function moveFiles(req: NextRequest, _context: ApiRouteContext, user: Sess
             );
         }
 
-        // Create new directory if it doesn't exist
-        if (!existsSync(newDir)) {
-            await mkdir(newDir, { recursive: true });
-        }
-
         const movedFiles = [];
 
         // Move each file
@@ -88,30 +81,23 @@ async function moveFiles(req: NextRequest, _context: ApiRouteContext, user: Sess
                     continue;
                 }
 
-                const oldFilePath = join(oldDir, fileName);
-                const newFilePath = join(newDir, fileName);
+                const oldKey = `${oldPrefix}/${fileName}`;
+                const newKey = `${newPrefix}/${fileName}`;
 
-                // Check if source file exists
-                try {
-                    await access(oldFilePath);
-                } catch {
-                    console.error(`Source file does not exist: ${oldFilePath}`);
+                // Move the file (false when the source does not exist)
+                const moved = await storage.move(oldKey, newKey);
+                if (!moved) {
+                    console.error(`Source file does not exist: ${oldKey}`);
                     continue;
                 }
 
-                // Move the file
-                await rename(oldFilePath, newFilePath);
-
-                // Generate new URL
-                const newUrl = `/uploads/designs/${newSlug}/${fileName}`;
-
                 movedFiles.push({
                     fileName: file.fileName,
                     oldUrl: file.oldUrl,
-                    newUrl: newUrl
+                    newUrl: storageUrlFromKey(newKey)
                 });
 
-                console.log(`Moved file: ${oldFilePath} -> ${newFilePath}`);
+                console.log(`Moved file: ${oldKey} -> ${newKey}`);
 
             } catch (fileError) {
                 console.error(`Error moving file ${file.fileName}:`, fileError);
@@ -119,22 +105,6 @@ async function moveFiles(req: NextRequest, _context: ApiRouteContext, user: Sess
             }
         }
 
-        // Remove old directory if it's empty
-        try {
-            const remainingFiles = await readdir(oldDir);
-            if (remainingFiles.length === 0) {
-                // Directory is empty, remove it
-                await rmdir(oldDir);
-                console.log(`Removed empty directory: ${oldDir}`);
-            } else {
-                // Directory still has files, keep it
-                console.log(`Old directory ${oldDir} still has ${remainingFiles.length} files, keeping it`);
-            }
-        } catch (dirError) {
-            // Directory doesn't exist or can't be read, that's fine
-            console.log(`Old directory ${oldDir} doesn't exist or can't be accessed`);
-        }
-
         return NextResponse.json({
             success: true,
             message: `Successfully moved ${movedFiles.length} files from '${oldSlug}' to '${newSlug}'`,
@@ -167,4 +137,4 @@ async function moveFiles(req: NextRequest, _context: ApiRouteContext, user: Sess
 }
 
 // Apply middleware and export handlers
-export const POST = withAdmin(moveFiles); 
\ No newline at end of file
+export const POST = withPermission('products.write', moveFiles); 
\ No newline at end of file
@@ -1,7 +1,7 @@
 /**
  * Admin Order File Upload API Routes
  * 
- * This file handles admin-only order file uploads to local server storage.
+ * This file handles admin-only order file uploads to the configured storage backend.
  * 
  * Routes:
  * - POST /api/admin/upload/order-file - Upload an order file
@@ -9,17 +9,15 @@
  * Features:
  * - Admin-only access control
  * - File validation and security
- * - Local server storage
+ * - Pluggable storage (local, private directory or S3)
  * - File organization and naming
  * - Error handling
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAdmin } from '@/lib/auth/middleware';
+import { withPermission } from '@/lib/auth/middleware';
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import { getStorageProvider, storageUrlFromKey } from '@/lib/storage';
 import { z } from 'zod';
 
 export const config = {
@@ -80,7 +78,7 @@ const ALLOWED_FILE_TYPES = {
 
 /**
  * POST /api/admin/upload/order-file
- * Upload an order file to local server storage
+ * Upload an order file to the configured storage backend
  */
 async function uploadOrderFile(req: NextRequest, _context: ApiRouteContext, user: SessionUser) {
     try {
@@ -190,26 +188,11 @@ async function uploadOrderFile(req: NextRequest, _context: ApiRouteContext, user
         const uniqueFileName = `${timestamp}_${validatedData.fileName}`;
         const sanitizedFileName = uniqueFileName.replace(/[^a-zA-Z0-9._-]/g, '_');
 
-        // Create directory structure: uploads/orders/{orderNumber}/{productSlug}/{colorName?}/
-        let uploadDir: string;
-        let publicUrl: string;
-        const projectRoot = join(process.cwd());
-        if (validatedData.colorName) {
-            // Color-specific folder structure: /uploads/orders/{orderNumber}/{productSlug}/{colorName}/
-            uploadDir = join(projectRoot, 'public', 'uploads', 'orders', validatedData.orderNumber, validatedData.productSlug, validatedData.colorName);
-            publicUrl = `/uploads/orders/${validatedData.orderNumber}/${validatedData.productSlug}/${validatedData.colorName}/${sanitizedFileName}`;
-        } else {
-            // Regular folder structure: /uploads/orders/{orderNumber}/{productSlug}/
-            uploadDir = join(projectRoot, 'public', 'uploads', 'orders', validatedData.orderNumber, validatedData.productSlug);
-            publicUrl = `/uploads/orders/${validatedData.orderNumber}/${validatedData.productSlug}/${sanitizedFileName}`;
-        }
-
-        const filePath = join(uploadDir, sanitizedFileName);
-
-        // Ensure upload directory exists
-        if (!existsSync(uploadDir)) {
-            await mkdir(uploadDir, { recursive: true });
-        }
+        // Storage key: uploads/orders/{orderNumber}/{productSlug}/{colorName?}/{fileName}
+        const storageKey = validatedData.colorName
+            ? `uploads/orders/${validatedData.orderNumber}/${validatedData.productSlug}/${validatedData.colorName}/${sanitizedFileName}`
+            : `uploads/orders/${validatedData.orderNumber}/${validatedData.productSlug}/${sanitizedFileName}`;
+        const publicUrl = storageUrlFromKey(storageKey);
 
         // Convert file to buffer and save
         console.log('Converting file to buffer...');
@@ -217,9 +200,13 @@ async function uploadOrderFile(req: NextRequest, _context: ApiRouteContext, user
         const buffer = Buffer.from(bytes);
         console.log(`Buffer created: ${buffer.length} bytes`);
 
-        // Write file to disk
-        console.log(`Saving file to: ${filePath}`);
-        await writeFile(filePath, buffer);
+        const storage = getStorageProvider();
+        console.log(`Saving file to ${storage.driver} storage: ${storageKey}`);
+        await storage.put(
+            storageKey,
+            buffer,
+            ALLOWED_FILE_TYPES[validatedData.fileType as keyof typeof ALLOWED_FILE_TYPES]
+        );
         console.log('File saved successfully');
 
         // Return success response
@@ -229,6 +216,7 @@ async function uploadOrderFile(req: NextRequest, _context: ApiRouteContext, user
             data: {
                 fileName: validatedData.fileName,
                 fileUrl: publicUrl,
+                storageDriver: storage.driver,
                 fileType: validatedData.fileType,
                 fileSize: file.size,
                 mimeType: ALLOWED_FILE_TYPES[validatedData.fileType as keyof typeof ALLOWED_FILE_TYPES],
@@ -266,7 +254,7 @@ async function uploadOrderFile(req: NextRequest, _context: ApiRouteContext, user
 }
 
 // Apply middleware and export handlers
-export const POST = withAdmin(uploadOrderFile);
+export const POST = withPermission('orders.files', uploadOrderFile);
 
 // Configure route segment to handle large files (videos can be large)
 export const runtime = 'nodejs'
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
+import { hasPermission } from '@/lib/auth/permissions'
 import User from '@/lib/db/models/User'
 import connectDB from '@/lib/db/connection'
+import { AuditLogService } from '@/lib/services/auditLogService'
 
 export async function PUT(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions)
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'users.write')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
@@ -23,6 +25,16 @@ export async function PUT(request: NextRequest) {
             return NextResponse.json({ error: 'Action is required' }, { status: 400 })
         }
 
+        // Admins cannot lock themselves out by changing their own role
+        if (['makeCustomer', 'makeSupport', 'makeDesigner'].includes(action) && userIds.includes(session.user.id)) {
+            return NextResponse.json({ error: 'You cannot change your own role' }, { status: 400 })
+        }
+
+        // Snapshot for the audit log
+        const targetUsers = await User.find({ _id: { $in: userIds } })
+            .select('name email role isActive isEmailVerified')
+            .lean()
+
         let updateData: any = {}
         let result
 
@@ -59,6 +71,22 @@ export async function PUT(request: NextRequest) {
                 )
                 break
 
+            case 'makeSupport':
+                updateData = { role: 'support' }
+                result = await User.updateMany(
+                    { _id: { $in: userIds } },
+                    { $set: updateData }
+                )
+                break
+
+            case 'makeDesigner':
+                updateData = { role: 'designer' }
+                result = await User.updateMany(
+                    { _id: { $in: userIds } },
+                    { $set: updateData }
+                )
+                break
+
             case 'delete':
                 result = await User.deleteMany({ _id: { $in: userIds } })
                 break
@@ -67,6 +95,15 @@ export async function PUT(request: NextRequest) {
                 return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
         }
 
+        await AuditLogService.recordMany(request, session.user, targetUsers.map(user => ({
+            action: `user.${action}`,
+            entityType: 'user' as const,
+            entityId: String(user._id),
+            entityLabel: user.email,
+            before: user,
+            after: action === 'delete' ? undefined : { ...user, ...updateData }
+        })))
+
         return NextResponse.json({
             success: true,
             message: `Successfully ${action}ed ${result.modifiedCount || result.deletedCount} users`,
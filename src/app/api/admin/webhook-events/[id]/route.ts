@@ -0,0 +1,91 @@
+/**
+ * Admin Webhook Event Details API Route
+ *
+ * Routes:
+ * - GET /api/admin/webhook-events/[id]  - Event with raw payload and attempt log
+ * - POST /api/admin/webhook-events/[id] - Replay the event now
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
+import connectDB from '@/lib/db/connection';
+import { WebhookEvent } from '@/lib/db/models';
+import { WebhookEventService } from '@/lib/services/webhookEventService';
+import { AuditLogService } from '@/lib/services/auditLogService';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id } = await params;
+        const event = await WebhookEvent.findById(id).lean();
+        if (!event) {
+            return NextResponse.json({ success: false, message: 'Webhook event not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: event
+        });
+    } catch (error) {
+        console.error('❌ Error fetching webhook event:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch webhook event' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { id } = await params;
+        const adminName = session.user.name || session.user.email || session.user.id;
+
+        console.log(`🔁 Admin ${adminName} replaying webhook event ${id}`);
+        const result = await WebhookEventService.replay(id, adminName);
+
+        if (!result.event) {
+            return NextResponse.json({ success: false, message: result.message }, { status: 409 });
+        }
+
+        await AuditLogService.record(request, session.user, {
+            action: 'webhookEvent.replay',
+            entityType: 'webhookEvent',
+            entityId: id,
+            entityLabel: `${result.event.eventType} (${result.event.eventId})`,
+            metadata: { success: result.success, message: result.message, status: result.event.status }
+        });
+
+        return NextResponse.json({
+            success: result.success,
+            message: result.message,
+            data: result.event
+        });
+    } catch (error) {
+        console.error('❌ Error replaying webhook event:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to replay webhook event' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * Webhook Retry Runner API Route
+ *
+ * Processes stored webhook events whose retry time has come. Meant to be
+ * called by a scheduler (with "Authorization: Bearer <CRON_SECRET>") or by
+ * an admin from the panel.
+ *
+ * Routes:
+ * - POST /api/admin/webhook-events/retry?limit=20
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
+import { WebhookEventService } from '@/lib/services/webhookEventService';
+import { AuditLogService } from '@/lib/services/auditLogService';
+
+export async function POST(request: NextRequest) {
+    try {
+        const cronSecret = process.env.CRON_SECRET;
+        const isScheduler = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+        const session = isScheduler ? null : await getServerSession(authOptions);
+        if (!isScheduler && (!session?.user || !hasPermission(session.user.role, 'system.manage'))) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '20') || 20, 1), 100);
+        const result = await WebhookEventService.processDueEvents(limit);
+
+        // Scheduler runs are not admin actions
+        if (session?.user) {
+            await AuditLogService.record(request, session.user, {
+                action: 'webhookEvent.processDue',
+                entityType: 'webhookEvent',
+                metadata: { limit, ...result }
+            });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result
+        });
+    } catch (error) {
+        console.error('❌ Error running webhook retries:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to run webhook retries' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * Admin Webhook Events API Route
+ *
+ * Lists stored PayPal webhook events for monitoring.
+ *
+ * Routes:
+ * - GET /api/admin/webhook-events?status=&eventType=&search=&page=&limit=
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
+import connectDB from '@/lib/db/connection';
+import { WebhookEvent } from '@/lib/db/models';
+
+const STATUSES = ['pending', 'processing', 'processed', 'failed', 'dead_letter'];
+
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
+            return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+        }
+
+        await connectDB();
+
+        const { searchParams } = new URL(request.url);
+        const status = searchParams.get('status') || 'all';
+        const eventType = searchParams.get('eventType') || 'all';
+        const search = searchParams.get('search')?.trim() || '';
+        const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+        // Build query
+        const query: Record<string, unknown> = {};
+
+        if (status !== 'all' && STATUSES.includes(status)) {
+            query.status = status;
+        }
+
+        if (eventType !== 'all') {
+            query.eventType = eventType;
+        }
+
+        if (search) {
+            query.$or = [
+                { eventId: search },
+                { resourceId: search },
+                { paypalOrderId: search },
+                { orderNumber: search }
+            ];
+        }
+
+        const [events, total, statusCounts, eventTypes] = await Promise.all([
+            WebhookEvent.find(query)
+                .select('-payload -attemptLog')
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            WebhookEvent.countDocuments(query),
+            WebhookEvent.aggregate<{ _id: string; count: number }>([
+                { $group: { _id: '$status', count: { $sum: 1 } } }
+            ]),
+            WebhookEvent.distinct('eventType')
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                events,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    pages: Math.ceil(total / limit)
+                },
+                statusCounts: Object.fromEntries(statusCounts.map(entry => [entry._id, entry.count])),
+                eventTypes: eventTypes.sort()
+            }
+        });
+    } catch (error) {
+        console.error('❌ Error fetching webhook events:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch webhook events' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * Forgot Password API Route
+ *
+ * Emails a single-use password reset link to a registered account.
+ * The response is the same whether or not the email exists.
+ *
+ * Route: /api/auth/forgot-password
+ * Method: POST
+ * Body: { email }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/auth/middleware';
+import { AccountService } from '@/lib/services/accountService';
+import { z } from 'zod';
+
+const forgotPasswordSchema = z.object({
+    email: z.string()
+        .email('Invalid email address')
+        .toLowerCase()
+        .trim()
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Request a password reset email
+ */
+async function forgotPassword(req: NextRequest) {
+    try {
+        const body = await req.json();
+        const { email } = forgotPasswordSchema.parse(body);
+
+        const result = await AccountService.requestPasswordReset(email);
+
+        return NextResponse.json({
+            success: true,
+            message: result.message
+        });
+    } catch (error) {
+        console.error('Forgot password error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'البريد الإلكتروني غير صالح', errors: error.issues },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Internal server error. Please try again later.' },
+            { status: 500 }
+        );
+    }
+}
+
+// 5 requests per IP every 15 minutes
+export const POST = withRateLimit(5, 15 * 60 * 1000, forgotPassword);
@@ -0,0 +1,45 @@
+/**
+ * Resend Verification API Route
+ *
+ * Emails a new verification link to the signed-in user.
+ * Limited to one email per minute per account.
+ *
+ * Route: /api/auth/resend-verification
+ * Method: POST
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, withRateLimit } from '@/lib/auth/middleware';
+import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
+import { AccountService } from '@/lib/services/accountService';
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a new verification email
+ */
+async function resendVerification(req: NextRequest, context: ApiRouteContext, user: SessionUser) {
+    try {
+        const result = await AccountService.sendVerificationEmail(user.id);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, message: result.error },
+                { status: result.statusCode || 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: result.message
+        });
+    } catch (error) {
+        console.error('Resend verification error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Internal server error. Please try again later.' },
+            { status: 500 }
+        );
+    }
+}
+
+// 5 requests per IP every 15 minutes
+export const POST = withRateLimit(5, 15 * 60 * 1000, withAuth(resendVerification));
@@ -0,0 +1,71 @@
+/**
+ * Reset Password API Route
+ *
+ * Sets a new password using the token from a password reset email.
+ * Each token can be used once and expires after one hour.
+ *
+ * Route: /api/auth/reset-password
+ * Method: POST
+ * Body: { token, password }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/auth/middleware';
+import { AccountService } from '@/lib/services/accountService';
+import { z } from 'zod';
+
+const resetPasswordSchema = z.object({
+    token: z.string().trim().min(1, 'Token is required'),
+    password: z.string()
+        .min(6, 'Password must be at least 6 characters')
+        .max(100, 'Password cannot exceed 100 characters')
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with a reset token
+ */
+async function resetPassword(req: NextRequest) {
+    try {
+        const body = await req.json();
+        const { token, password } = resetPasswordSchema.parse(body);
+
+        const result = await AccountService.resetPassword(token, password);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, message: result.error },
+                { status: result.statusCode || 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: result.message
+        });
+    } catch (error) {
+        console.error('Reset password error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: error.issues.map((err: z.ZodIssue) => ({
+                        field: err.path.join('.'),
+                        message: err.message
+                    }))
+                },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Internal server error. Please try again later.' },
+            { status: 500 }
+        );
+    }
+}
+
+// 10 attempts per IP every 15 minutes
+export const POST = withRateLimit(10, 15 * 60 * 1000, resetPassword);
@@ -0,0 +1,61 @@
+/**
+ * Verify Email API Route
+ *
+ * Marks the account email as verified using the token from a verification
+ * email. Each token can be used once and expires after 24 hours.
+ *
+ * Route: /api/auth/verify-email
+ * Method: POST
+ * Body: { token }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/auth/middleware';
+import { AccountService } from '@/lib/services/accountService';
+import { z } from 'zod';
+
+const verifyEmailSchema = z.object({
+    token: z.string().trim().min(1, 'Token is required')
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Verify an email address
+ */
+async function verifyEmail(req: NextRequest) {
+    try {
+        const body = await req.json();
+        const { token } = verifyEmailSchema.parse(body);
+
+        const result = await AccountService.verifyEmail(token);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, message: result.error },
+                { status: result.statusCode || 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: result.message
+        });
+    } catch (error) {
+        console.error('Verify email error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'رابط التأكيد غير صالح', errors: error.issues },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Internal server error. Please try again later.' },
+            { status: 500 }
+        );
+    }
+}
+
+// 20 attempts per IP every 15 minutes
+export const POST = withRateLimit(20, 15 * 60 * 1000, verifyEmail);
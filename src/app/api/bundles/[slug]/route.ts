@@ -0,0 +1,52 @@
+/**
+ * Public Bundle Detail API Route
+ *
+ * Routes:
+ * - GET /api/bundles/[slug] - A bundle with its products and prices
+ *
+ * Features:
+ * - 301 from previous slugs to the current one
+ * - 404 once the bundle or any of its products is inactive
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Bundle } from '@/lib/db/models';
+import { findCurrentSlug } from '@/lib/db/slugHistory';
+import { BundleService } from '@/lib/services/bundleService';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ slug: string }> }
+) {
+    try {
+        const { slug } = await params;
+        const bundle = await BundleService.getPublicBundleBySlug(slug);
+
+        if (!bundle) {
+            // Links shared before a slug change permanently redirect to the current slug
+            const currentSlug = await findCurrentSlug(Bundle, slug, { isActive: true });
+            if (currentSlug) {
+                const redirectUrl = new URL(request.url);
+                redirectUrl.pathname = `/api/bundles/${encodeURIComponent(currentSlug)}`;
+                return NextResponse.redirect(redirectUrl, 301);
+            }
+
+            return NextResponse.json(
+                { success: false, message: 'Bundle not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: bundle
+        });
+
+    } catch (error) {
+        console.error('Error fetching bundle:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch bundle' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * Public Bundles API Route
+ *
+ * Routes:
+ * - GET /api/bundles - Bundles (packages) currently on sale
+ *
+ * Query parameters:
+ * - featured: "true" for featured bundles only
+ * - limit: maximum number of bundles
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BundleService } from '@/lib/services/bundleService';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const limit = parseInt(searchParams.get('limit') || '', 10);
+
+        const bundles = await BundleService.getPublicBundles({
+            featuredOnly: searchParams.get('featured') === 'true',
+            limit: limit > 0 ? limit : undefined
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: bundles,
+            count: bundles.length
+        });
+
+    } catch (error) {
+        console.error('Error fetching bundles:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch bundles' },
+            { status: 500 }
+        );
+    }
+}
@@ -7,9 +7,10 @@
  * - GET /api/design-files/[id]/download - Download a specific design file
  * 
  * Features:
- * - Customer authentication required
+ * - Customer authentication, or a signed download token (?token=) from email links
  * - Order-based access control
- * - Download tracking
+ * - Download tracking (a resumed download is counted once)
+ * - Streaming with Range / If-Range / ETag support for resumable downloads
  * - Temporary download URLs
  * - Security validation
  */
@@ -20,15 +21,44 @@ import { authOptions } from '@/lib/auth/config';
 import DesignFile from '@/lib/db/models/DesignFile';
 import OrderDesignFile from '@/lib/db/models/OrderDesignFile';
 import connectDB from '@/lib/db/connection';
-import { readFile, stat } from 'fs/promises';
-import path from 'path';
 import Order from '@/lib/db/models/Order';
+import { getStorageProvider, storageKeyFromUrl, StorageDriver } from '@/lib/storage';
+import { DownloadTokenService } from '@/lib/services/downloadTokenService';
+import { createStorageFileResponse, isResumedDownload } from '@/lib/utils/rangeUtils';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        // Range requests that don't start at byte 0 continue an already counted download
+        const resumed = isResumedDownload(request);
+
+        // Signed links from emails carry their own authorization
+        const token = request.nextUrl.searchParams.get('token');
+        if (token) {
+            await connectDB();
+
+            const { id: designFileId } = await params;
+            const access = await DownloadTokenService.resolveAccess(token, designFileId, resumed);
+            if (!access.success) {
+                return NextResponse.json({ error: access.error }, { status: access.status });
+            }
+
+            // Same rule as the session path: only a resumable continuation goes uncounted
+            if (!(resumed && DownloadTokenService.isResumable(access.orderDesignFile))) {
+                const recorded = await DownloadTokenService.recordDownload(
+                    access.orderDesignFile._id.toString(),
+                    access.designFile.maxDownloads
+                );
+                if (!recorded) {
+                    return NextResponse.json({ error: 'Download limit reached' }, { status: 429 });
+                }
+            }
+
+            return await serveFile(request, access.designFile);
+        }
+
         // Check authentication
         const session = await getServerSession(authOptions);
         if (!session?.user) {
@@ -57,7 +87,7 @@ export async function GET(
 
         // For admin users, allow direct access
         if (session.user.role === 'admin') {
-            return await serveFile(designFile);
+            return await serveFile(request, designFile);
         }
         console.log('session.user.id :>> ', session.user.id);
 
@@ -78,7 +108,7 @@ export async function GET(
 
         if (orderWithFile) {
             // User has access through direct order attachment
-            return await serveFile(designFile);
+            return await serveFile(request, designFile);
         }
 
         // For customers, check if they have access to this file through an order
@@ -100,23 +130,25 @@ export async function GET(
             return NextResponse.json({ error: 'Your access to this file has expired' }, { status: 410 });
         }
 
-        // Check download limits (only if using OrderDesignFile)
-        if (orderDesignFile && designFile.maxDownloads && orderDesignFile.downloadCount >= designFile.maxDownloads) {
-            return NextResponse.json({ error: 'Download limit reached' }, { status: 429 });
-        }
+        // Resumed chunks of a recent download are neither limited nor counted again
+        if (!(resumed && DownloadTokenService.isResumable(orderDesignFile))) {
+            // Check download limits
+            if (designFile.maxDownloads && orderDesignFile.downloadCount >= designFile.maxDownloads) {
+                return NextResponse.json({ error: 'Download limit reached' }, { status: 429 });
+            }
 
-        // Increment download count (only if using OrderDesignFile)
-        if (orderDesignFile) {
-            orderDesignFile.downloadCount += 1;
-            orderDesignFile.lastDownloadedAt = new Date();
-            if (!orderDesignFile.firstDownloadedAt) {
-                orderDesignFile.firstDownloadedAt = new Date();
+            // Increment download count
+            const recorded = await DownloadTokenService.recordDownload(
+                orderDesignFile._id.toString(),
+                designFile.maxDownloads
+            );
+            if (!recorded) {
+                return NextResponse.json({ error: 'Download limit reached' }, { status: 429 });
             }
-            await orderDesignFile.save();
         }
 
         // Serve the file
-        return await serveFile(designFile);
+        return await serveFile(request, designFile);
 
     } catch (error) {
         console.error('Error downloading design file:', error);
@@ -131,50 +163,32 @@ interface DesignFile {
     _id: string;
     fileName: string;
     fileUrl: string;
+    storageDriver?: StorageDriver;
     mimeType: string;
     fileSize: number;
 }
 
-async function serveFile(designFile: DesignFile) {
+async function serveFile(request: NextRequest, designFile: DesignFile) {
     try {
-        // Convert URL to file path
-        // const filePath = path.join(process.cwd(), 'public', designFile.fileUrl.substring(1));
-        const projectRoot = path.join(process.cwd());
-        const filePath = path.join(projectRoot, 'public', designFile.fileUrl.substring(1));
-        console.log('Attempting to serve file from:', filePath);
+        const storage = getStorageProvider(designFile.storageDriver);
+        const storageKey = storageKeyFromUrl(designFile.fileUrl);
+        console.log(`Attempting to serve file from ${storage.driver} storage:`, storageKey);
+
         // Check if file exists
-        try {
-            await stat(filePath);
-        } catch (fileError) {
-            console.error('File not found:', filePath, fileError);
+        const fileInfo = await storage.stat(storageKey);
+        if (!fileInfo) {
+            console.error('File not found:', storageKey);
             return NextResponse.json({ error: 'File not found on server' }, { status: 404 });
         }
 
-        // Read file
-        const fileBuffer = await readFile(filePath);
-
-        // Handle Arabic and special characters in filename
-        // Use RFC 6266 encoding for non-ASCII filenames
-        const sanitizedFileName = designFile.fileName.replace(/[^\w\s\-_.]/g, '');
-        const encodedFileName = encodeURIComponent(designFile.fileName);
-
-        // Set appropriate headers
-        const headers = new Headers();
-        headers.set('Content-Type', designFile.mimeType || 'application/octet-stream');
-
-        // Use RFC 6266 standard for Unicode filenames
-        headers.set('Content-Disposition',
-            `attachment; filename="${sanitizedFileName}"; filename*=UTF-8''${encodedFileName}`
-        );
-
-        headers.set('Content-Length', fileBuffer.length.toString());
-        headers.set('Cache-Control', 'no-cache, no-store, must-revalidate');
-        headers.set('Pragma', 'no-cache');
-        headers.set('Expires', '0');
-
-        return new Response(new Uint8Array(fileBuffer), {
-            status: 200,
-            headers
+        // Stream the file (or the requested byte range) without buffering it in memory
+        return await createStorageFileResponse(request, {
+            storage,
+            storageKey,
+            fileInfo,
+            contentType: designFile.mimeType,
+            downloadFileName: designFile.fileName,
+            cacheControl: 'private, no-cache'
         });
 
     } catch (error) {
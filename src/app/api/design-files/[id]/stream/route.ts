@@ -7,7 +7,8 @@
  * - GET /api/design-files/[id]/stream - Stream a video file with range support
  * 
  * Features:
- * - Range request support for video streaming
+ * - Range / If-Range / ETag support for video streaming
+ * - Seeking does not count as another view
  * - Proper video headers
  * - Security validation
  * - Access control
@@ -18,8 +19,10 @@ import { withCustomerOrAdmin } from '@/lib/auth/middleware';
 import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
 import { DesignFile, OrderDesignFile, Order } from '@/lib/db/models';
-import { isVideoFile, getDesignFilePath, fileExists } from '@/lib/utils/fileUtils';
-import { createReadStream, statSync } from 'fs';
+import { isVideoFile } from '@/lib/utils/fileUtils';
+import { getStorageProvider, storageKeyFromUrl } from '@/lib/storage';
+import { createStorageFileResponse, isResumedDownload } from '@/lib/utils/rangeUtils';
+import { DownloadTokenService } from '@/lib/services/downloadTokenService';
 
 /**
  * GET /api/design-files/[id]/stream
@@ -91,9 +94,16 @@ async function streamDesignFile(req: NextRequest, context: ApiRouteContext, user
         if (user.role === 'admin') {
             // Admins can stream any file
         } else {
-            // Customers can only stream files from their orders via junction table
+            // Customers can only stream files linked to their own paid orders
+            const userOrders = await Order.find({
+                customerId: user.id,
+                orderStatus: { $in: ['completed', 'processing', 'awaiting_customization', 'under_customization'] },
+                paymentStatus: { $in: ['paid', 'free'] }
+            }).select('_id');
+
             const orderAccess = await OrderDesignFile.findOne({
                 designFileId: designFile._id,
+                orderId: { $in: userOrders.map(order => order._id) },
                 isActive: true
             });
 
@@ -107,23 +117,6 @@ async function streamDesignFile(req: NextRequest, context: ApiRouteContext, user
                 );
             }
 
-            // Verify the order belongs to the customer
-            const order = await Order.findOne({
-                _id: orderAccess.orderId,
-                userId: user.id,
-                status: { $in: ['completed', 'paid'] }
-            });
-
-            if (!order) {
-                return NextResponse.json(
-                    {
-                        success: false,
-                        message: 'Access denied - order not found or not paid'
-                    },
-                    { status: 403 }
-                );
-            }
-
             // Check if this specific order access is expired
             if (orderAccess.isExpired()) {
                 return NextResponse.json(
@@ -135,25 +128,30 @@ async function streamDesignFile(req: NextRequest, context: ApiRouteContext, user
                 );
             }
 
-            // Check download limit for this specific order
-            if (designFile.maxDownloads && orderAccess.downloadCount >= designFile.maxDownloads) {
-                return NextResponse.json(
-                    {
-                        success: false,
-                        message: 'Streaming limit reached for this file'
-                    },
-                    { status: 429 }
-                );
+            // Seeking/buffering requests continue a stream that was already counted
+            if (!(isResumedDownload(req) && DownloadTokenService.isResumable(orderAccess))) {
+                // Check download limit for this specific order
+                if (designFile.maxDownloads && orderAccess.downloadCount >= designFile.maxDownloads) {
+                    return NextResponse.json(
+                        {
+                            success: false,
+                            message: 'Streaming limit reached for this file'
+                        },
+                        { status: 429 }
+                    );
+                }
+
+                // Increment download count for this specific order
+                await DownloadTokenService.recordDownload(orderAccess._id.toString(), designFile.maxDownloads);
             }
-
-            // Increment download count for this specific order
-            await orderAccess.incrementDownloads();
         }
 
-        // Get file path
-        const filePath = getDesignFilePath(designFile.productId, designFile.fileName.split('/').pop() || '');
+        // Resolve the file in its storage backend
+        const storage = getStorageProvider(designFile.storageDriver);
+        const storageKey = storageKeyFromUrl(designFile.fileUrl);
+        const fileInfo = await storage.stat(storageKey);
 
-        if (!fileExists(filePath)) {
+        if (!fileInfo) {
             return NextResponse.json(
                 {
                     success: false,
@@ -163,58 +161,13 @@ async function streamDesignFile(req: NextRequest, context: ApiRouteContext, user
             );
         }
 
-        // Get file stats
-        const stats = statSync(filePath);
-        const fileSize = stats.size;
-
-        // Handle range requests
-        const range = req.headers.get('range');
-
-        if (range) {
-            const parts = range.replace(/bytes=/, '').split('-');
-            const start = parseInt(parts[0], 10);
-            const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-            const chunksize = (end - start) + 1;
-
-            if (start >= fileSize || end >= fileSize) {
-                return new NextResponse('Range Not Satisfiable', {
-                    status: 416,
-                    headers: {
-                        'Content-Range': `bytes */${fileSize}`,
-                    },
-                });
-            }
-
-            const file = createReadStream(filePath, { start, end });
-
-            const headers = {
-                'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-                'Accept-Ranges': 'bytes',
-                'Content-Length': chunksize.toString(),
-                'Content-Type': designFile.mimeType,
-                'Cache-Control': 'public, max-age=31536000',
-            };
-
-            return new NextResponse(file as any, {
-                status: 206,
-                headers,
-            });
-        } else {
-            // Full file request
-            const file = createReadStream(filePath);
-
-            const headers = {
-                'Content-Length': fileSize.toString(),
-                'Content-Type': designFile.mimeType,
-                'Accept-Ranges': 'bytes',
-                'Cache-Control': 'public, max-age=31536000',
-            };
-
-            return new NextResponse(file as any, {
-                status: 200,
-                headers,
-            });
-        }
+        return await createStorageFileResponse(req, {
+            storage,
+            storageKey,
+            fileInfo,
+            contentType: designFile.mimeType,
+            cacheControl: 'public, max-age=31536000'
+        });
 
     } catch (error) {
         console.error('Stream design file error:', error);
@@ -2,11 +2,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import { Order } from '@/lib/db/models';
-import PromoCode from '@/lib/db/models/PromoCode';
-import PromoCodeUsage from '@/lib/db/models/PromoCodeUsage';
 import connectDB from '@/lib/db/connection';
 import { z } from 'zod';
-import { ItemDeliveryService } from '@/lib/services/itemDeliveryService';
+import { PricingService } from '@/lib/services/pricingService';
+import { OrderNumberService } from '@/lib/services/orderNumberService';
+import { OrderStateMachine } from '@/lib/services/orderStateMachine';
+import { AccountService } from '@/lib/services/accountService';
+import { CurrencyService } from '@/lib/services/currencyService';
+import { BASE_CURRENCY, convertPrice } from '@/lib/utils/currencyUtils';
+import { getImageDetails } from '@/lib/cloudinary/config';
+import {
+    isCustomerUpload,
+    toLegacyCustomizations,
+    UploadedImageDetails,
+    validateCustomizationValues
+} from '@/lib/utils/customizationFields';
 
 // Validation schemas
 const customizationSchema = z.object({
@@ -27,6 +37,14 @@ const customizationSchema = z.object({
         publicId: z.string(),
     }).optional(),
     customizationNotes: z.string().optional(),
+    fields: z.array(z.object({
+        key: z.string(),
+        value: z.string().optional(),
+        url: z.string().optional(),
+        publicId: z.string().optional(),
+        width: z.number().optional(),
+        height: z.number().optional(),
+    })).optional(),
 });
 
 const orderItemSchema = z.object({
@@ -40,6 +58,7 @@ const orderItemSchema = z.object({
     totalPrice: z.number().min(0, 'Total price must be non-negative'),
     promoCode: z.string().optional(),
     promoDiscount: z.number().min(0, 'Promo discount must be non-negative').optional(),
+    bundleId: z.string().optional(),
     hasCustomizations: z.boolean(),
     EnableCustomizations: z.boolean().optional(),
     customizations: customizationSchema.optional(),
@@ -55,6 +74,7 @@ const createOrderSchema = z.object({
     totalPrice: z.number().min(0, 'Total price must be non-negative'),
     appliedPromoCodes: z.array(z.string()).default([]),
     customerNotes: z.string().optional(),
+    displayCurrency: z.string().optional(),
 });
 
 
@@ -69,63 +89,152 @@ export async function POST(request: NextRequest) {
 
         await connectDB();
 
+        // Stores can require a verified email before accepting orders
+        const checkoutAccess = await AccountService.canCheckout(session.user.id);
+        if (!checkoutAccess.success) {
+            return NextResponse.json(
+                { error: checkoutAccess.error, code: 'EMAIL_NOT_VERIFIED' },
+                { status: checkoutAccess.statusCode || 403 }
+            );
+        }
+
         const body = await request.json();
         const orderData = createOrderSchema.parse(body);
 
-        const Product = (await import('@/lib/db/models')).Product;
-        const products = await Product.find({ _id: { $in: orderData.items.map(item => item.productId) } });
-
-        const enrichedItems = orderData.items.map(item => {
-            const product = products.find(p => p._id.toString() === item.productId);
-            return {
-                ...item,
-                EnableCustomizations: item.EnableCustomizations ?? product?.EnableCustomizations ?? false,
-            };
+        // Recompute every price on the server - client totals are only used for comparison
+        const pricingOutcome = await PricingService.priceOrder({
+            items: orderData.items.map(item => ({
+                productId: item.productId,
+                quantity: item.quantity,
+                bundleId: item.bundleId
+            })),
+            promoCode: orderData.appliedPromoCodes[0],
+            userId: session.user.id
         });
 
-        const hasCustomizableProducts = enrichedItems.some(item => item.EnableCustomizations === true);
+        if (!pricingOutcome.success) {
+            return NextResponse.json(
+                { error: pricingOutcome.error, code: pricingOutcome.code },
+                { status: 400 }
+            );
+        }
 
-        // --- START OF FIX: EXPLICIT ORDER NUMBER GENERATION ---
-        let orderNumber;
-        let isUnique = false;
-        let attempts = 0;
-
-        while (!isUnique && attempts < 5) {
-            const year = new Date().getFullYear();
-            // Generate a unique number based on the count of orders this year
-            const count = await Order.countDocuments({
-                createdAt: {
-                    $gte: new Date(year, 0, 1),
-                    $lt: new Date(year + 1, 0, 1)
+        const pricing = pricingOutcome.pricing;
+        const clientTotals = {
+            subtotal: orderData.subtotal,
+            totalPromoDiscount: orderData.totalPromoDiscount,
+            totalPrice: orderData.totalPrice
+        };
+        const mismatches = PricingService.findMismatches(pricing, clientTotals);
+
+        // Never let the customer pay more than they were shown; a lower client total is
+        // rejected so the checkout can refresh, a higher one is silently corrected.
+        if (mismatches.includes('totalPrice') && orderData.totalPrice < pricing.totalPrice) {
+            console.warn('⚠️ Order pricing mismatch rejected:', { mismatches, client: clientTotals, server: pricing.totalPrice });
+            return NextResponse.json({
+                error: 'تغيرت أسعار بعض المنتجات، يرجى مراجعة السلة والمحاولة مرة أخرى',
+                code: 'PRICE_MISMATCH',
+                pricing: {
+                    subtotal: pricing.subtotal,
+                    totalPromoDiscount: pricing.totalPromoDiscount,
+                    totalPrice: pricing.totalPrice
                 }
-            });
+            }, { status: 409 });
+        }
 
-            orderNumber = `PD-${year}-${String(count + 1 + attempts).padStart(3, '0')}`;
+        if (mismatches.length > 0) {
+            console.warn('⚠️ Correcting client pricing:', { mismatches, client: clientTotals, server: pricing.totalPrice });
+        }
 
-            const existingOrderCheck = await Order.findOne({ orderNumber });
-            if (!existingOrderCheck) {
-                isUnique = true;
-            } else {
-                attempts++;
+        // Check customization answers against each product's field schema
+        const customizations = orderData.items.map(item => item.customizations);
+        for (const [index, priced] of pricing.items.entries()) {
+            if (!priced.EnableCustomizations || priced.customizationFields.length === 0) {
+                continue;
             }
-        }
 
-        if (!isUnique) {
-            throw new Error('Failed to generate a unique order number after multiple attempts.');
+            // Image URLs and resolutions come from Cloudinary, never from the client
+            const imageKeys = new Set(priced.customizationFields
+                .filter(field => field.type === 'image' || field.type === 'logo')
+                .map(field => field.key));
+            const uploads = new Map<string, UploadedImageDetails>();
+            for (const answer of customizations[index]?.fields || []) {
+                if (imageKeys.has(answer.key) && answer.publicId && isCustomerUpload(answer.publicId) && !uploads.has(answer.publicId)) {
+                    const details = await getImageDetails(answer.publicId);
+                    if (details) {
+                        uploads.set(answer.publicId, details);
+                    }
+                }
+            }
+
+            const check = validateCustomizationValues(
+                priced.customizationFields,
+                customizations[index]?.fields,
+                priced.colorOptions,
+                uploads
+            );
+
+            if (!check.valid) {
+                return NextResponse.json({
+                    error: `${priced.productName}: ${Object.values(check.errors)[0]}`,
+                    code: 'INVALID_CUSTOMIZATION',
+                    productId: priced.productId,
+                    fieldErrors: check.errors
+                }, { status: 400 });
+            }
+
+            // Store the normalized answers and keep the legacy arrays in sync with them
+            customizations[index] = {
+                ...customizations[index],
+                ...toLegacyCustomizations(check.values),
+                fields: check.values
+            };
         }
-        // --- END OF FIX ---
+
+        const enrichedItems = orderData.items.map((item, index) => {
+            const priced = pricing.items[index];
+            return {
+                ...item,
+                customizations: customizations[index],
+                productName: priced.productName,
+                productSlug: priced.productSlug,
+                originalPrice: priced.originalPrice,
+                discountAmount: priced.discountAmount,
+                unitPrice: priced.unitPrice,
+                totalPrice: priced.totalPrice,
+                promoCode: priced.promoCode,
+                promoDiscount: priced.promoDiscount,
+                EnableCustomizations: priced.EnableCustomizations,
+                revisionRoundsAllowed: priced.revisionRounds,
+                bundleId: priced.bundleId,
+                bundleName: priced.bundleName,
+            };
+        });
+
+        const hasCustomizableProducts = enrichedItems.some(item => item.EnableCustomizations === true);
+
+        // Record what the customer saw, using the server's current rate
+        const displayCurrency = await CurrencyService.getDisplayCurrency(orderData.displayCurrency);
+
+        const orderNumber = await OrderNumberService.next();
 
         order = new Order({
-            orderNumber, // Pass the generated number here
+            orderNumber,
             customerId: session.user.id,
             customerEmail: orderData.customerEmail,
             customerName: orderData.customerName,
             customerPhone: orderData.customerPhone,
             items: enrichedItems,
-            subtotal: orderData.subtotal,
-            totalPromoDiscount: orderData.totalPromoDiscount,
-            totalPrice: orderData.totalPrice,
-            appliedPromoCodes: orderData.appliedPromoCodes,
+            subtotal: pricing.subtotal,
+            totalPromoDiscount: pricing.totalPromoDiscount,
+            totalPrice: pricing.totalPrice,
+            appliedPromoCodes: pricing.appliedPromoCodes,
+            pricingBreakdown: PricingService.buildBreakdown(pricing, clientTotals, mismatches),
+            currency: BASE_CURRENCY,
+            displayCurrency: {
+                ...displayCurrency,
+                totalPrice: convertPrice(pricing.totalPrice, displayCurrency)
+            },
             paymentMethod: 'paypal',
             paymentStatus: 'pending',
             orderStatus: 'pending',
@@ -149,19 +258,12 @@ export async function POST(request: NextRequest) {
             console.log('🎉 Detected free order. Processing immediately...', order.orderNumber);
 
             try {
-                order.paymentStatus = 'free';
-                order.paidAt = new Date();
-                order.orderStatus = 'processing';
-                order.orderHistory.push({
-                    status: 'processing',
-                    timestamp: new Date(),
-                    note: 'تم بدء معالجة الطلب المجاني تلقائياً',
-                    changedBy: 'system'
-                });
-                await order.save();
-
-                const deliveryResult = await ItemDeliveryService.processOrderDelivery(order);
-                await ItemDeliveryService.sendDeliveryNotifications(order, deliveryResult);
+                // Delivery and notifications run as part of the transition
+                await OrderStateMachine.transition(
+                    order,
+                    { paymentStatus: 'free', orderStatus: 'processing' },
+                    { actor: 'system', historyStatus: 'processing', note: 'تم بدء معالجة الطلب المجاني تلقائياً' }
+                );
 
                 console.log('✅ Free order processed successfully within create route.');
 
@@ -5,6 +5,7 @@ import connectDB from '@/lib/db/connection'
 import Order from '@/lib/db/models/Order'
 import OrderDesignFile from '@/lib/db/models/OrderDesignFile'
 import DesignFile from '@/lib/db/models/DesignFile' // Ensure DesignFile is registered
+import { OrderMessageService } from '@/lib/services/orderMessageService'
 
 // GET /api/orders/customer - Get orders for the current customer
 export async function GET() {
@@ -38,12 +39,20 @@ export async function GET() {
             .populate('items.productId', 'name image')
             .sort({ createdAt: -1 }) // Most recent first
 
+        // Unread messages from the store, per order
+        const unreadMessages = await OrderMessageService.getUnreadCounts(
+            orders.map(order => order._id.toString()),
+            'customer'
+        )
+
         // For each order, fetch associated design files through OrderDesignFile junction
         // and organize them by items
         const ordersWithFiles = await Promise.all(
             orders.map(async (order) => {
+                // Locked (awaiting proof approval) and revoked files are not listed
                 const orderDesignFiles = await OrderDesignFile.find({
-                    orderId: order._id
+                    orderId: order._id,
+                    isActive: true
                 }).populate('designFileId', 'fileName fileUrl fileType productId')
 
                 // Group files by productId (item)
@@ -81,6 +90,7 @@ export async function GET() {
                 return {
                     ...order.toObject(),
                     items: itemsWithFiles,
+                    unreadMessages: unreadMessages[order._id.toString()] || 0,
                     // Keep the old designFiles field for backward compatibility
                     designFiles: orderDesignFiles.map(odf => odf.designFileId).filter(file => file)
                 }
@@ -8,9 +8,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasAnyPermission } from '@/lib/auth/permissions';
 import connectDB from '@/lib/db/connection';
 import Order from '@/lib/db/models/Order';
 import OrderDesignFile from '@/lib/db/models/OrderDesignFile';
+import { ProofService } from '@/lib/services/proofService';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import DesignFile from '@/lib/db/models/DesignFile';
 
@@ -49,7 +51,7 @@ export async function GET(request: NextRequest) {
         }
 
         // Authorization: customers can only access their own orders, admins can access any
-        if (session.user.role !== 'admin' && order.customerId !== session.user.id) {
+        if (!hasAnyPermission(session.user.role, ['orders.read', 'customizations.read']) && order.customerId !== session.user.id) {
             return NextResponse.json(
                 { error: 'Unauthorized access to order' },
                 { status: 403 }
@@ -57,8 +59,10 @@ export async function GET(request: NextRequest) {
         }
 
         // Get design files for this order and organize them by items
+        // Locked (awaiting proof approval) and revoked files are not listed
         const orderDesignFiles = await OrderDesignFile.find({
-            orderId: order._id
+            orderId: order._id,
+            isActive: true
         }).populate('designFileId', 'fileName fileUrl fileType productId')
 
         // Group files by productId (item)
@@ -84,7 +88,9 @@ export async function GET(request: NextRequest) {
         // Add files to each item in the order
         const itemsWithFiles = order.items.map(item => ({
             ...item.toObject(),
-            designFiles: filesByItem.get(item.productId) || []
+            designFiles: filesByItem.get(item.productId) || [],
+            requiresProof: ProofService.requiresProof(item),
+            revisionsLeft: ProofService.getRevisionsLeft(item)
         }))
 
         // Keep the old designFiles format for backward compatibility
@@ -107,6 +113,8 @@ export async function GET(request: NextRequest) {
                 customerName: order.customerName,
                 customerEmail: order.customerEmail,
                 totalPrice: order.totalPrice,
+                currency: order.currency,
+                displayCurrency: order.displayCurrency,
                 orderStatus: order.orderStatus,
                 createdAt: order.createdAt,
                 updatedAt: order.updatedAt,
@@ -0,0 +1,102 @@
+/**
+ * API Route: Download All Order Files
+ *
+ * Streams a ZIP archive of every design file the customer may download
+ * for an order, grouped into per-product and per-color folders.
+ *
+ * Routes:
+ * - GET /api/orders/download-all?orderId=... - Download the order's files as one ZIP
+ *
+ * Features:
+ * - Customer authentication required (admins may download any order)
+ * - Same access, expiry and download limit rules as single-file downloads
+ * - Each bundled file counts as one download
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { hasAnyPermission } from '@/lib/auth/permissions';
+import connectDB from '@/lib/db/connection';
+import Order from '@/lib/db/models/Order';
+import { OrderBundleService } from '@/lib/services/orderBundleService';
+
+// Orders whose files customers may download (mirrors the single-file route)
+const DOWNLOADABLE_ORDER_STATUSES = ['completed', 'processing', 'awaiting_customization', 'under_customization'];
+const DOWNLOADABLE_PAYMENT_STATUSES = ['paid', 'free'];
+
+export async function GET(request: NextRequest) {
+    try {
+        // Check authentication
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+        }
+
+        const orderId = request.nextUrl.searchParams.get('orderId');
+        if (!orderId) {
+            return NextResponse.json({ error: 'Order ID is required' }, { status: 400 });
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            return NextResponse.json({ error: 'Invalid order ID' }, { status: 400 });
+        }
+
+        await connectDB();
+
+        const order = await Order.findById(orderId);
+        if (!order) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+        }
+
+        const isAdmin = hasAnyPermission(session.user.role, ['orders.read', 'orders.files']);
+
+        // Customers can only download their own paid orders
+        if (!isAdmin) {
+            if (order.customerId !== session.user.id) {
+                return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+            }
+
+            if (
+                !DOWNLOADABLE_ORDER_STATUSES.includes(order.orderStatus) ||
+                !DOWNLOADABLE_PAYMENT_STATUSES.includes(order.paymentStatus)
+            ) {
+                return NextResponse.json({ error: 'Files for this order are not available yet' }, { status: 403 });
+            }
+        }
+
+        const plan = await OrderBundleService.planBundle(order);
+        if (!plan.success) {
+            return NextResponse.json({ error: plan.error }, { status: plan.status });
+        }
+
+        // Admin downloads are not counted, same as the single-file route
+        const entries = isAdmin ? plan.entries : await OrderBundleService.recordDownloads(plan.entries);
+        if (entries.length === 0) {
+            return NextResponse.json({ error: 'Download limit reached' }, { status: 429 });
+        }
+
+        console.log(`📦 Streaming ZIP bundle for order ${order.orderNumber}: ${entries.length} file(s), ${plan.skipped} skipped`);
+
+        const zipName = `${order.orderNumber}.zip`;
+        const headers = new Headers();
+        headers.set('Content-Type', 'application/zip');
+        headers.set('Content-Disposition',
+            `attachment; filename="${zipName.replace(/[^\w\s\-_.]/g, '')}"; filename*=UTF-8''${encodeURIComponent(zipName)}`
+        );
+        headers.set('Cache-Control', 'no-cache, no-store, must-revalidate');
+
+        return new Response(OrderBundleService.createZipStream(entries), {
+            status: 200,
+            headers
+        });
+
+    } catch (error) {
+        console.error('❌ Error creating order ZIP bundle:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,148 @@
+/**
+ * Order Messages API Route
+ *
+ * Lets customers read the message thread of their order and reply with
+ * text and images. Internal staff notes are never returned here.
+ *
+ * Routes:
+ * - GET /api/orders/messages?orderId=... - Thread of the order (marks staff messages read)
+ * - POST /api/orders/messages            - Post a message (multipart form data: orderId, body, attachments)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { hasAnyPermission } from '@/lib/auth/permissions';
+import connectDB from '@/lib/db/connection';
+import Order from '@/lib/db/models/Order';
+import { OrderMessageService } from '@/lib/services/orderMessageService';
+
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const orderId = searchParams.get('orderId');
+
+        if (!orderId) {
+            return NextResponse.json(
+                { error: 'Order ID is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            return NextResponse.json(
+                { error: 'Invalid order ID' },
+                { status: 400 }
+            );
+        }
+
+        await connectDB();
+
+        const order = await Order.findById(orderId).select('customerId').lean();
+        if (!order) {
+            return NextResponse.json(
+                { error: 'Order not found' },
+                { status: 404 }
+            );
+        }
+
+        // Staff may look at the customer view of the thread, but only the owner replies
+        const isOwner = order.customerId.toString() === session.user.id;
+        if (!isOwner && !hasAnyPermission(session.user.role, ['orders.read', 'customizations.read'])) {
+            return NextResponse.json(
+                { error: 'Unauthorized access to order' },
+                { status: 403 }
+            );
+        }
+
+        const messages = await OrderMessageService.listMessages(orderId, 'customer', isOwner);
+
+        return NextResponse.json({
+            success: true,
+            messages,
+            canReply: isOwner
+        });
+
+    } catch (error) {
+        console.error('❌ Error fetching order messages:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const formData = await request.formData();
+        const orderId = formData.get('orderId');
+        const body = formData.get('body');
+        const files = formData.getAll('attachments').filter((file): file is File => file instanceof File);
+
+        if (typeof orderId !== 'string' || !orderId) {
+            return NextResponse.json(
+                { error: 'Order ID is required' },
+                { status: 400 }
+            );
+        }
+
+        // Reject oversized or non-image files before reading them
+        const attachmentError = OrderMessageService.validateAttachments(files.map(file => ({ mimeType: file.type, size: file.size })));
+        if (attachmentError) {
+            return NextResponse.json(
+                { error: attachmentError },
+                { status: 400 }
+            );
+        }
+
+        const result = await OrderMessageService.postMessage(
+            orderId,
+            { type: 'customer', id: session.user.id, name: session.user.name },
+            {
+                body: typeof body === 'string' ? body : undefined,
+                attachments: await Promise.all(files.map(async file => ({
+                    buffer: Buffer.from(await file.arrayBuffer()),
+                    fileName: file.name,
+                    mimeType: file.type,
+                    size: file.size
+                })))
+            }
+        );
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error },
+                { status: result.statusCode || 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: result.message
+        }, { status: 201 });
+
+    } catch (error) {
+        console.error('❌ Error posting order message:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Customization Proof Response API Route
+ *
+ * Lets customers approve the current proof of an order item, which unlocks
+ * its final files, or request another revision with comments.
+ *
+ * Route: POST /api/orders/proofs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth/config';
+import { ProofService } from '@/lib/services/proofService';
+
+// Validation schema
+const proofResponseSchema = z.object({
+    orderId: z.string().min(1, 'Order ID is required'),
+    itemIndex: z.number().int().min(0),
+    decision: z.enum(['approve', 'request_revision']),
+    comment: z.string()
+        .max(2000, 'Comment cannot exceed 2000 characters')
+        .optional()
+});
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const { orderId, itemIndex, decision, comment } = proofResponseSchema.parse(body);
+
+        const result = await ProofService.respond(
+            orderId,
+            itemIndex,
+            { id: session.user.id, name: session.user.name },
+            decision,
+            comment
+        );
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error },
+                { status: result.statusCode || 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            proof: result.proof,
+            unlockedFiles: result.unlockedFiles
+        });
+
+    } catch (error) {
+        console.error('❌ Error responding to proof:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: error.issues },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
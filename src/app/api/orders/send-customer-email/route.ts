@@ -1,8 +1,8 @@
 /**
  * Send Customer Email API Route
  * 
- * ⚠️  DEPRECATED: This route should only be used by ItemDeliveryService internally
- * ⚠️  Do NOT call this route directly from frontend or other services
+ * ⚠️  DEPRECATED: Customer emails are sent by the order fulfillment pipeline.
+ * ⚠️  Admin-only; kept for manually resending an email
  * 
  * Route: POST /api/orders/send-customer-email
  */
@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 import { Order } from '@/lib/db/models';
 import connectDB from '@/lib/db/connection';
 import { z } from 'zod';
@@ -35,36 +36,16 @@ const sendCustomerEmailSchema = z.object({
 
 export async function POST(request: NextRequest) {
     try {
-        // Check authentication - allow both user sessions and system internal calls
+        // Delivery emails are sent by the server-side fulfillment pipeline;
+        // this route is only kept for admins resending an email
         const session = await getServerSession(authOptions);
-        const authHeader = request.headers.get('Authorization');
-        const isSystemCall = authHeader === 'Bearer system-internal-call';
-
-        // Add caller identification for debugging
-        const userAgent = request.headers.get('User-Agent');
-        const referer = request.headers.get('Referer');
-
-        console.log('📧 send-customer-email called by:', {
-            hasSession: !!session?.user,
-            isSystemCall,
-            userAgent,
-            referer,
-            timestamp: new Date().toISOString()
-        });
-
-        if (!session?.user && !isSystemCall) {
+        if (!session?.user || !hasPermission(session.user.role, 'orders.write')) {
             return NextResponse.json(
-                { error: 'Authentication required' },
+                { error: 'Unauthorized' },
                 { status: 401 }
             );
         }
 
-        // ⚠️ WARNING: Log if this is being called from non-ItemDeliveryService sources
-        if (!isSystemCall && !userAgent?.includes('ItemDeliveryService')) {
-            console.warn('⚠️ send-customer-email called directly (not from ItemDeliveryService). This may cause duplicate emails!');
-            console.warn('⚠️ Caller details:', { userAgent, referer });
-        }
-
         await connectDB();
 
         const body = await request.json();
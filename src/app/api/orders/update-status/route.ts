@@ -1,7 +1,9 @@
 /**
  * Update Order Status API Route
  * 
- * Updates order status and payment status
+ * Updates order status through the OrderStateMachine. Customers may only
+ * cancel their own unpaid orders; payment statuses are changed by the server
+ * (checkout, PayPal and refunds) and are rejected here.
  * 
  * Route: POST /api/orders/update-status
  */
@@ -9,15 +11,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 import { Order } from '@/lib/db/models';
 import connectDB from '@/lib/db/connection';
 import { z } from 'zod';
+import { OrderStateMachine } from '@/lib/services/orderStateMachine';
+import { AuditLogService } from '@/lib/services/auditLogService';
 
 // Validation schema
 const updateStatusSchema = z.object({
     orderId: z.string().min(1, 'Order ID is required'),
     status: z.enum(['pending', 'processing', 'completed', 'cancelled', 'refunded', 'awaiting_customization', 'under_customization']),
-    paymentStatus: z.enum(['pending', 'paid', 'failed', 'refunded', 'free']).optional(),
+    paymentStatus: z.enum(['pending', 'paid', 'failed', 'refunded', 'partially_refunded', 'disputed', 'free']).optional(),
     deliveryType: z.enum(['auto_delivery', 'custom_work']).optional(),
     note: z.string().optional(),
 });
@@ -50,11 +55,39 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Update order status
-        order.orderStatus = status;
+        const isAdmin = hasPermission(session.user.role, 'orders.write');
 
-        if (paymentStatus) {
-            order.paymentStatus = paymentStatus;
+        // Customers may only act on their own orders
+        if (!isAdmin && order.customerId.toString() !== session.user.id) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        if (deliveryType && !isAdmin) {
+            return NextResponse.json(
+                { error: 'Only admins can change the delivery type' },
+                { status: 403 }
+            );
+        }
+
+        const before = AuditLogService.getOrderSnapshot(order);
+        const transition = OrderStateMachine.apply(
+            order,
+            { orderStatus: status, paymentStatus },
+            {
+                actor: isAdmin ? 'admin' : 'customer',
+                changedBy: session.user.name || session.user.email || undefined,
+                note
+            }
+        );
+
+        if (!transition.success) {
+            return NextResponse.json(
+                { error: transition.error },
+                { status: transition.statusCode || 400 }
+            );
         }
 
         if (deliveryType) {
@@ -63,17 +96,21 @@ export async function POST(request: NextRequest) {
             order.requiresCustomWork = deliveryType === 'custom_work';
         }
 
-        // Add to order history
-        const historyNote = note || `تم تحديث حالة الطلب إلى: ${status}`;
-        order.orderHistory.push({
-            status: status,
-            timestamp: new Date(),
-            note: historyNote,
-            changedBy: 'system'
-        });
-
         await order.save();
 
+        // Customer cancellations are kept in the order history only
+        if (isAdmin) {
+            await AuditLogService.record(request, session.user, {
+                action: 'order.updateStatus',
+                entityType: 'order',
+                entityId: orderId,
+                entityLabel: order.orderNumber,
+                before,
+                after: AuditLogService.getOrderSnapshot(order),
+                metadata: note ? { note } : undefined
+            });
+        }
+
         console.log('✅ Order status updated successfully');
 
         return NextResponse.json({
@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import { PayPalService } from '@/lib/paypal/service';
+import { PAYPAL_CONFIG } from '@/lib/paypal/config';
+import { WebhookEventService } from '@/lib/services/webhookEventService';
 import { Order } from '@/lib/db/models';
 import connectDB from '@/lib/db/connection';
 import { z } from 'zod';
@@ -71,7 +73,7 @@ export async function POST(request: NextRequest) {
             description: `${item.productName} - Quantity: ${item.quantity}`,
             quantity: item.quantity.toString(),
             unitAmount: {
-                currencyCode: 'USD',
+                currencyCode: PAYPAL_CONFIG.currency,
                 value: item.unitPrice.toFixed(2) // unitPrice is already after product discount
             }
         }));
@@ -106,6 +108,9 @@ export async function POST(request: NextRequest) {
         order.paypalOrderId = paypalOrderResponse.id;
         await order.save();
 
+        // Process webhook events that arrived before the order was linked
+        await WebhookEventService.retryForPayPalOrder(paypalOrderResponse.id);
+
         console.log('✅ PayPal order created successfully');
 
         return NextResponse.json({
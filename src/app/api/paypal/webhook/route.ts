@@ -12,65 +12,57 @@
  * - PAYMENT.CAPTURE.PENDING: Payment is pending (held for review)
  * - PAYMENT.CAPTURE.DENIED: Payment was denied
  * - CHECKOUT.ORDER.APPROVED: Order was approved by customer
+ * - PAYMENT.CAPTURE.REFUNDED / REVERSED: Payment was returned (file access revoked)
+ * - CUSTOMER.DISPUTE.CREATED / RESOLVED: Customer dispute opened or closed
+ *
+ * Every delivery is signature-verified (see lib/paypal/webhookVerification)
+ * and stale or repeated transmissions are rejected.
+ *
+ * Verified events are stored in the WebhookEvent collection before they are
+ * processed. Events that fail (or whose order is not linked yet) are retried
+ * with backoff by WebhookEventService, so PayPal always gets a 200 once the
+ * event is stored.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { PayPalService } from '@/lib/paypal/service';
-import { headers } from 'next/headers';
-import crypto from 'crypto';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { PayPalWebhookVerifier } from '@/lib/paypal/webhookVerification';
+import { WebhookEventService } from '@/lib/services/webhookEventService';
 
 // PayPal Webhook Event Types
 export const PAYPAL_WEBHOOK_EVENTS = {
     PAYMENT_CAPTURE_COMPLETED: 'PAYMENT.CAPTURE.COMPLETED',
     PAYMENT_CAPTURE_PENDING: 'PAYMENT.CAPTURE.PENDING',
     PAYMENT_CAPTURE_DENIED: 'PAYMENT.CAPTURE.DENIED',
+    PAYMENT_CAPTURE_REFUNDED: 'PAYMENT.CAPTURE.REFUNDED',
+    PAYMENT_CAPTURE_REVERSED: 'PAYMENT.CAPTURE.REVERSED',
+    CUSTOMER_DISPUTE_CREATED: 'CUSTOMER.DISPUTE.CREATED',
+    CUSTOMER_DISPUTE_RESOLVED: 'CUSTOMER.DISPUTE.RESOLVED',
     CHECKOUT_ORDER_APPROVED: 'CHECKOUT.ORDER.APPROVED',
     CHECKOUT_ORDER_COMPLETED: 'CHECKOUT.ORDER.COMPLETED',
 } as const;
 
-// PayPal Webhook signature verification
-async function verifyWebhookSignature(
-    rawBody: string,
-    signature: string,
-    _webhookId: string
-): Promise<boolean> {
-    try {
-        // Get webhook secret from environment
-        const webhookSecret = process.env.PAYPAL_WEBHOOK_SECRET;
-        if (!webhookSecret) {
-            console.warn('⚠️ PayPal webhook secret not configured');
-            return false;
-        }
-
-        // Create expected signature
-        const expectedSignature = crypto
-            .createHmac('sha256', webhookSecret)
-            .update(rawBody)
-            .digest('base64');
-
-        // Compare signatures
-        return crypto.timingSafeEqual(
-            Buffer.from(signature),
-            Buffer.from(expectedSignature)
-        );
-    } catch (error) {
-        console.error('❌ Error verifying webhook signature:', error);
-        return false;
-    }
-}
-
 export async function POST(request: NextRequest) {
     try {
         console.log('🔔 PayPal webhook received');
 
         // Get headers
-        const headersList = headers();
-        const signature = headersList.get('paypal-transmission-sig');
-        const webhookId = headersList.get('paypal-transmission-id');
-        const timestamp = headersList.get('paypal-transmission-time');
+        const transmissionId = request.headers.get('paypal-transmission-id');
+        const timestamp = request.headers.get('paypal-transmission-time');
 
         // Get raw body for signature verification
         const rawBody = await request.text();
+
+        // Verify the PayPal signature before trusting anything in the body
+        const verification = await PayPalWebhookVerifier.verify(rawBody, request.headers);
+        if (!verification.success) {
+            console.error('❌ Webhook verification failed:', verification.error);
+            return NextResponse.json(
+                { error: 'Invalid signature' },
+                { status: 401 }
+            );
+        }
+        console.log('✅ Webhook signature verified');
+
         let webhookData;
 
         try {
@@ -84,52 +76,55 @@ export async function POST(request: NextRequest) {
         }
 
         console.log('📋 Webhook Event Type:', webhookData.event_type);
-        console.log('🆔 Webhook ID:', webhookId);
+        console.log('🆔 Transmission ID:', transmissionId);
         console.log('⏰ Timestamp:', timestamp);
 
-        // Verify webhook signature (optional but recommended)
-        const isProduction = process.env.NODE_ENV === 'production';
-        if (isProduction && signature && webhookId) {
-            const isValid = await verifyWebhookSignature(rawBody, signature, webhookId);
-            if (!isValid) {
-                console.error('❌ Invalid webhook signature');
-                return NextResponse.json(
-                    { error: 'Invalid signature' },
-                    { status: 401 }
-                );
-            }
-            console.log('✅ Webhook signature verified');
-        } else if (isProduction) {
-            console.warn('⚠️ Missing webhook signature in production');
+        if (!webhookData?.id || !webhookData?.event_type) {
+            return NextResponse.json(
+                { error: 'Invalid webhook event' },
+                { status: 400 }
+            );
+        }
+
+        // Store the event before processing so it can be retried or replayed
+        const { event, isNew } = await WebhookEventService.record(webhookData, transmissionId);
+
+        // Pick up other events whose retry time has come once this response is sent
+        after(() => WebhookEventService.processDueEvents(5));
+
+        if (!isNew && event.status === 'processed') {
+            console.log('⚠️ Webhook event already processed:', event.eventId);
+            return NextResponse.json({
+                success: true,
+                message: 'Webhook event already processed (duplicate)',
+                orderId: event.orderId
+            });
         }
 
         // Process the webhook event
-        const result = await PayPalService.processWebhookEvent(webhookData);
+        const result = await WebhookEventService.processEvent(event._id.toString(), 'webhook');
 
         if (result.success) {
             console.log('✅ Webhook processed successfully:', result.message);
-            return NextResponse.json({
-                success: true,
-                message: result.message,
-                orderId: result.orderId
-            });
         } else {
-            console.log('⚠️ Webhook processing failed:', result.message);
-            return NextResponse.json({
-                success: false,
-                message: result.message
-            }, { status: 400 });
+            console.log('⚠️ Webhook processing failed, will retry:', result.message);
         }
 
+        return NextResponse.json({
+            success: result.success,
+            message: result.message,
+            status: result.event?.status,
+            orderId: result.event?.orderId
+        });
+
     } catch (error) {
         console.error('❌ Error processing PayPal webhook:', error);
 
-        // Return 200 to acknowledge receipt even on error
-        // This prevents PayPal from retrying the webhook
+        // The event could not be stored; let PayPal deliver it again
         return NextResponse.json({
             success: false,
             error: 'Internal server error'
-        }, { status: 200 });
+        }, { status: 500 });
     }
 }
 
@@ -0,0 +1,184 @@
+/**
+ * Product Reviews API Routes
+ *
+ * This file handles the public reviews of a product.
+ *
+ * Routes:
+ * - GET /api/products/[slug]/reviews - Approved reviews, rating summary and
+ *   whether the signed-in customer may review the product
+ * - POST /api/products/[slug]/reviews - Submit a review (verified buyers only)
+ *
+ * Features:
+ * - Verified purchase badge
+ * - Rating distribution (1-5 stars)
+ * - Pagination
+ * - One review per customer per product, published after admin approval
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, withOptionalAuth } from '@/lib/auth/middleware';
+import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
+import connectDB from '@/lib/db/connection';
+import { Product, Review } from '@/lib/db/models';
+import { ReviewService } from '@/lib/services/reviewService';
+import { z } from 'zod';
+
+const querySchema = z.object({
+    page: z.string().optional().default('1').transform(Number),
+    limit: z.string().optional().default('10').transform(Number)
+});
+
+const createReviewSchema = z.object({
+    rating: z.number().int().min(1, 'Rating must be between 1 and 5').max(5, 'Rating must be between 1 and 5'),
+    text: z.string().trim().min(10, 'Review must be at least 10 characters').max(2000, 'Review cannot exceed 2000 characters'),
+    name: z.string().trim().max(100).optional()
+});
+
+async function findProduct(context: ApiRouteContext) {
+    const params = await context.params;
+    const slug = params?.slug as string;
+    return Product.findOne({ slug, isActive: true }).select('_id name rating reviewCount');
+}
+
+/**
+ * GET /api/products/[slug]/reviews
+ * Get the approved reviews of a product
+ */
+async function getProductReviews(req: NextRequest, context: ApiRouteContext, user?: SessionUser) {
+    try {
+        await connectDB();
+
+        const { searchParams } = new URL(req.url);
+        const query = querySchema.parse({
+            page: searchParams.get('page') || '1',
+            limit: searchParams.get('limit') || '10'
+        });
+        const page = Math.max(query.page || 1, 1);
+        const limit = Math.min(Math.max(query.limit || 10, 1), 50);
+
+        const product = await findProduct(context);
+        if (!product) {
+            return NextResponse.json(
+                { success: false, message: 'Product not found' },
+                { status: 404 }
+            );
+        }
+
+        const filter = { productId: product._id, status: 'approved' };
+
+        const [reviews, total, distribution, eligibility] = await Promise.all([
+            Review.find(filter)
+                .select('name rating text avatar isVerifiedPurchase createdAt')
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            Review.countDocuments(filter),
+            Review.aggregate<{ _id: number; count: number }>([
+                { $match: filter },
+                { $group: { _id: '$rating', count: { $sum: 1 } } }
+            ]),
+            user ? ReviewService.getEligibility(user.id, product._id.toString()) : null
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                reviews,
+                summary: {
+                    rating: product.rating,
+                    reviewCount: product.reviewCount,
+                    distribution: Object.fromEntries(
+                        [5, 4, 3, 2, 1].map(stars => [stars, distribution.find(entry => entry._id === stars)?.count || 0])
+                    )
+                },
+                eligibility: eligibility
+                    ? { canReview: eligibility.canReview, hasReviewed: eligibility.hasReviewed, reason: eligibility.reason }
+                    : null,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    pages: Math.ceil(total / limit)
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Get product reviews error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid query parameters', errors: error.issues },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch reviews' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/products/[slug]/reviews
+ * Submit a review for a product the customer has received
+ */
+async function createProductReview(req: NextRequest, context: ApiRouteContext, user: SessionUser) {
+    try {
+        await connectDB();
+
+        const body = await req.json();
+        const input = createReviewSchema.parse(body);
+
+        const product = await findProduct(context);
+        if (!product) {
+            return NextResponse.json(
+                { success: false, message: 'Product not found' },
+                { status: 404 }
+            );
+        }
+
+        const result = await ReviewService.createProductReview(
+            { id: user.id, name: user.name, image: user.image || user.avatar },
+            product._id.toString(),
+            input
+        );
+
+        if (!result.success || !result.review) {
+            return NextResponse.json(
+                { success: false, message: result.error },
+                { status: result.statusCode || 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: 'تم إرسال تقييمك بنجاح! سيتم مراجعته من قبل الإدارة قبل النشر.',
+            data: {
+                id: result.review._id,
+                rating: result.review.rating,
+                text: result.review.text,
+                status: result.review.status
+            }
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Create product review error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid review data', errors: error.issues },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: 'Failed to submit review' },
+            { status: 500 }
+        );
+    }
+}
+
+// Apply middleware and export handlers
+export const GET = withOptionalAuth(getProductReviews);
+export const POST = withAuth(createProductReview);
@@ -12,7 +12,7 @@
  * - View count tracking
  * - Related products
  * - Category information
- * - SEO-friendly URLs
+ * - SEO-friendly URLs (301 from previous slugs)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -21,6 +21,7 @@ import { SessionUser, ApiRouteContext } from '@/lib/auth/types';
 import connectDB from '@/lib/db/connection';
 import { Product, Category } from '@/lib/db/models';
 import { z } from 'zod';
+import { findCurrentSlug } from '@/lib/db/slugHistory';
 import {
     calculateDiscountPercentage,
     isProductOnSale,
@@ -65,6 +66,14 @@ async function getProductBySlug(req: NextRequest, context: ApiRouteContext, user
         }).populate('categoryId', 'name slug description');
 
         if (!product) {
+            // Links shared before a slug change permanently redirect to the current slug
+            const currentSlug = await findCurrentSlug(Product, slug, { isActive: true });
+            if (currentSlug) {
+                const redirectUrl = new URL(req.url);
+                redirectUrl.pathname = `/api/products/${encodeURIComponent(currentSlug)}`;
+                return NextResponse.redirect(redirectUrl, 301);
+            }
+
             return NextResponse.json(
                 {
                     success: false,
@@ -92,6 +101,7 @@ async function getProductBySlug(req: NextRequest, context: ApiRouteContext, user
             allowTextEditing: product.allowTextEditing,
             allowImageReplacement: product.allowImageReplacement,
             allowLogoUpload: product.allowLogoUpload,
+            customizationFields: product.customizationFields || [],
             colors: product.colors,
             category: product.categoryId,
             tags: product.tags,
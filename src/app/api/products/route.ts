@@ -8,19 +8,21 @@
  * 
  * Features:
  * - Public access (no authentication required)
- * - Active products only
+ * - Active products only (there is no way to list inactive products here)
  * - Advanced filtering and search
  * - Pagination support
  * - Category filtering
- * - Price range filtering
+ * - Price range filtering (minPrice / maxPrice on the final price)
+ * - Tag filtering (comma-separated, any of them)
  * - Featured products
- * - Search functionality
+ * - Search functionality (same Arabic-aware matching as /api/search)
  * - Sorting options
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/db/connection'
 import { Product } from '@/lib/db/models'
+import { ProductSearchService } from '@/lib/services/productSearchService'
 
 export async function GET(request: NextRequest) {
     try {
@@ -32,12 +34,14 @@ export async function GET(request: NextRequest) {
         const page = parseInt(searchParams.get('page') || '1')
         const sortBy = searchParams.get('sortBy') || 'createdAt'
         const sortOrder = searchParams.get('sortOrder') || 'desc'
-        const isActive = searchParams.get('isActive')
         const isFeatured = searchParams.get('isFeatured')
+        const search = searchParams.get('search')?.trim()
+        const minPrice = parseFloat(searchParams.get('minPrice') || '')
+        const maxPrice = parseFloat(searchParams.get('maxPrice') || '')
+        const tags = searchParams.get('tags')?.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean) || []
 
-
-        // Build filter object
-        const filter: any = {}
+        // Build filter object - inactive products are never public, whatever the caller asks for
+        const filter: any = { isActive: true }
 
         if (category) {
             // Find category by slug first
@@ -50,14 +54,27 @@ export async function GET(request: NextRequest) {
             }
         }
 
-        if (isActive !== null) {
-            filter.isActive = isActive === 'true'
-        }
-
         if (isFeatured !== null) {
             filter.isFeatured = isFeatured === 'true'
         }
 
+        if (!isNaN(minPrice) || !isNaN(maxPrice)) {
+            filter.finalPrice = {}
+            if (!isNaN(minPrice)) filter.finalPrice.$gte = minPrice
+            if (!isNaN(maxPrice)) filter.finalPrice.$lte = maxPrice
+        }
+
+        if (tags.length > 0) {
+            filter.tags = { $in: tags }
+        }
+
+        // Search matches come ranked by relevance, which is kept unless the caller picks a sort
+        const matchingIds = search ? await ProductSearchService.findMatchingIds(search) : null
+        if (matchingIds) {
+            filter._id = { $in: matchingIds }
+        }
+        const keepRelevanceOrder = !!matchingIds && !searchParams.has('sortBy')
+
         // Calculate skip for pagination
         const skip = (page - 1) * limit
 
@@ -74,15 +91,32 @@ export async function GET(request: NextRequest) {
         sortObject[sortField] = sortDirection
 
         // Execute query
-        const [products, total] = await Promise.all([
-            Product.find(filter)
+        let products, total
+        if (keepRelevanceOrder) {
+            const filteredIds = new Set(
+                (await Product.find(filter).select('_id').lean()).map(product => product._id.toString())
+            )
+            const rankedIds = matchingIds!.filter(id => filteredIds.has(id))
+            const pageIds = rankedIds.slice(skip, skip + limit)
+            const pageProducts = await Product.find({ _id: { $in: pageIds } })
                 .populate('categoryId', 'name slug')
-                .sort(sortObject)
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            Product.countDocuments(filter)
-        ])
+                .lean()
+
+            products = pageIds
+                .map(id => pageProducts.find(product => product._id.toString() === id))
+                .filter(Boolean)
+            total = rankedIds.length
+        } else {
+            [products, total] = await Promise.all([
+                Product.find(filter)
+                    .populate('categoryId', 'name slug')
+                    .sort(sortObject)
+                    .skip(skip)
+                    .limit(limit)
+                    .lean(),
+                Product.countDocuments(filter)
+            ])
+        }
 
         const totalPages = Math.ceil(total / limit)
 
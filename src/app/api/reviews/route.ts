@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth/config'
 import dbConnect from '@/lib/db/connection'
 import Review from '@/lib/db/models/Review'
+import { ReviewService } from '@/lib/services/reviewService'
 
 export async function GET() {
     try {
@@ -45,7 +46,7 @@ export async function POST(request: NextRequest) {
         await dbConnect()
 
         const body = await request.json()
-        const { rating, text, orderId } = body
+        const { rating, text, orderId, productId } = body
 
         // Use user session data for name and avatar
         const userName = session.user?.name || 'مستخدم'
@@ -72,13 +73,43 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        // Product reviews need a verified purchase and one review per product
+        if (productId) {
+            const result = await ReviewService.createProductReview(
+                { id: session.user.id, name: session.user.name, image: session.user.image },
+                productId,
+                { rating: parseInt(rating), text, name: body.name }
+            )
+
+            if (!result.success || !result.review) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        message: result.error,
+                    },
+                    { status: result.statusCode || 400 }
+                )
+            }
+
+            return NextResponse.json({
+                success: true,
+                message: 'تم إرسال تقييمك بنجاح! سيتم مراجعته من قبل الإدارة قبل النشر.',
+                data: {
+                    id: result.review._id,
+                    name: result.review.name,
+                    rating: result.review.rating,
+                    text: result.review.text,
+                },
+            })
+        }
+
         // Create the review
         const review = new Review({
             name: userName,
             rating: parseInt(rating),
             text: text.trim(),
             avatar: userAvatar,
-            isActive: false, // Reviews need admin approval
+            status: 'pending', // Reviews need admin approval
             order: 0,
             orderId: orderId || null,
             userId: session.user.id,
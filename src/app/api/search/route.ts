@@ -0,0 +1,79 @@
+/**
+ * Product Search API Route
+ *
+ * Public faceted search over active products.
+ *
+ * Routes:
+ * - GET /api/search - Ranked results with facet counts
+ *
+ * Query parameters:
+ * - q: search text (Arabic or English, typos tolerated)
+ * - category: category slug
+ * - tags: comma-separated tags (any of them)
+ * - minPrice / maxPrice: final price range in USD (inclusive)
+ * - priceBucket: price facet key, e.g. "10-25" (upper bound exclusive)
+ * - customizable: "true" / "false"
+ * - onSale: "true" / "false"
+ * - sort: relevance | newest | price_asc | price_desc | rating | popular
+ * - page / limit: pagination (limit up to 48)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MAX_SEARCH_LIMIT, ProductSearchService, SEARCH_SORTS } from '@/lib/services/productSearchService';
+
+const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true').optional();
+
+const searchQuerySchema = z.object({
+    q: z.string().trim().max(200).optional(),
+    category: z.string().trim().max(100).optional(),
+    tags: z.string().optional().transform(value =>
+        value ? value.split(',').map(tag => tag.trim()).filter(Boolean) : undefined
+    ),
+    minPrice: z.coerce.number().min(0).optional(),
+    maxPrice: z.coerce.number().min(0).optional(),
+    priceBucket: z.string().trim().max(20).optional(),
+    customizable: booleanParam,
+    onSale: booleanParam,
+    sort: z.enum(SEARCH_SORTS).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).default(12)
+});
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const parsed = searchQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, message: 'Invalid search parameters', errors: parsed.error.issues },
+                { status: 400 }
+            );
+        }
+
+        const result = await ProductSearchService.search(parsed.data);
+        const pages = Math.ceil(result.total / result.limit);
+
+        return NextResponse.json({
+            success: true,
+            data: result.products,
+            facets: result.facets,
+            pagination: {
+                page: result.page,
+                limit: result.limit,
+                total: result.total,
+                pages,
+                hasNext: result.page < pages,
+                hasPrev: result.page > 1
+            }
+        });
+
+    } catch (error) {
+        console.error('Product search error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to search products' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * Public Currencies API Route
+ *
+ * Routes:
+ * - GET /api/settings/currencies - Currencies customers can display prices in
+ *
+ * Features:
+ * - Base currency (used for payment) plus the enabled display currencies
+ * - Exchange rates managed from the admin settings
+ */
+
+import { NextResponse } from 'next/server';
+import { CurrencyService } from '@/lib/services/currencyService';
+
+export async function GET() {
+    try {
+        const data = await CurrencyService.getPublicCurrencies();
+
+        return NextResponse.json({ success: true, data });
+
+    } catch (error) {
+        console.error('Error fetching currencies:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch currencies' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * Public Store Stats API Route
+ *
+ * Routes:
+ * - GET /api/stats - Live homepage statistics (sales, categories, ...)
+ *
+ * Features:
+ * - Metrics, labels and rounding rules from the admin settings
+ * - Cached for the configured revalidation period (see StoreStatsService)
+ */
+
+import { NextResponse } from 'next/server';
+import { StoreStatsService } from '@/lib/services/storeStatsService';
+
+export async function GET() {
+    try {
+        const { stats, revalidateSeconds } = await StoreStatsService.getPublicStats();
+
+        return NextResponse.json(
+            { success: true, data: stats },
+            {
+                headers: {
+                    'Cache-Control': revalidateSeconds > 0
+                        ? `public, s-maxage=${revalidateSeconds}, stale-while-revalidate=${revalidateSeconds}`
+                        : 'no-store'
+                }
+            }
+        );
+
+    } catch (error) {
+        console.error('Error fetching store stats:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch store stats' },
+            { status: 500 }
+        );
+    }
+}
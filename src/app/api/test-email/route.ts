@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 import { EmailService } from '@/lib/services/emailService';
 
 export async function POST(request: NextRequest) {
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -159,7 +160,7 @@ export async function GET() {
     try {
         // Check admin authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user?.role || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -7,13 +7,14 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { hasPermission } from '@/lib/auth/permissions';
 import testAdminEmailDetection from '@/lib/utils/testAdminEmails';
 
 export async function GET() {
     try {
         // Check if user is authenticated and is admin
         const session = await getServerSession(authOptions);
-        if (!session?.user || session.user.role !== 'admin') {
+        if (!session?.user || !hasPermission(session.user.role, 'system.manage')) {
             return NextResponse.json(
                 { error: 'Admin access required' },
                 { status: 403 }
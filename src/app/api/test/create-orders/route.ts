@@ -12,6 +12,10 @@ import { authOptions } from '@/lib/auth/config';
 import { Order } from '@/lib/db/models';
 import connectDB from '@/lib/db/connection';
 import { z } from 'zod';
+import { OrderNumberService } from '@/lib/services/orderNumberService';
+
+// Test orders use their own sequence so they never consume real order numbers
+const TEST_ORDER_PREFIX = 'TEST';
 
 // Validation schema
 const createTestOrdersSchema = z.object({
@@ -42,7 +46,7 @@ export async function POST(request: NextRequest) {
         // Clear existing test orders for this user
         await Order.deleteMany({
             customerId,
-            orderNumber: { $regex: /^TEST-/ }
+            orderNumber: { $regex: new RegExp(`^${TEST_ORDER_PREFIX}-`) }
         });
 
         const testOrders = [];
@@ -50,7 +54,7 @@ export async function POST(request: NextRequest) {
 
         // Test Order 1: Without customizations (auto-complete)
         const order1 = new Order({
-            orderNumber: `TEST-${Date.now()}-1`,
+            orderNumber: await OrderNumberService.next({ prefix: TEST_ORDER_PREFIX }),
             customerId,
             customerEmail,
             customerName,
@@ -93,7 +97,7 @@ export async function POST(request: NextRequest) {
 
         // Test Order 2: With customizations (manual processing)
         const order2 = new Order({
-            orderNumber: `TEST-${Date.now()}-2`,
+            orderNumber: await OrderNumberService.next({ prefix: TEST_ORDER_PREFIX }),
             customerId,
             customerEmail,
             customerName,
@@ -146,7 +150,7 @@ export async function POST(request: NextRequest) {
 
         // Test Order 3: Mixed order (some items with customizations)
         const order3 = new Order({
-            orderNumber: `TEST-${Date.now()}-3`,
+            orderNumber: await OrderNumberService.next({ prefix: TEST_ORDER_PREFIX }),
             customerId,
             customerEmail,
             customerName,
@@ -22,6 +22,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import connectDB from '@/lib/db/connection';
 import User from '@/lib/db/models/User';
+import { CURRENCY_CODES, CurrencyCode, isCurrencyCode } from '@/lib/utils/currencyUtils';
 import { z } from 'zod';
 
 // Validation schema for profile updates
@@ -38,7 +39,8 @@ const updateProfileSchema = z.object({
     preferences: z.object({
         emailNotifications: z.boolean().optional(),
         marketingEmails: z.boolean().optional(),
-        theme: z.enum(['light', 'dark', 'system']).optional()
+        theme: z.enum(['light', 'dark', 'system']).optional(),
+        currency: z.enum(CURRENCY_CODES as [CurrencyCode, ...CurrencyCode[]]).optional()
     }).optional()
 });
 
@@ -218,6 +220,16 @@ export async function PATCH(request: NextRequest) {
                     );
                 }
                 break;
+            case 'currency':
+                if (isCurrencyCode(value)) {
+                    user.preferences.currency = value;
+                } else {
+                    return NextResponse.json(
+                        { success: false, message: 'Invalid currency value' },
+                        { status: 400 }
+                    );
+                }
+                break;
             default:
                 return NextResponse.json(
                     { success: false, message: `Field '${field}' cannot be updated via PATCH` },
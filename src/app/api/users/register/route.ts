@@ -20,6 +20,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db/connection';
 import User from '@/lib/db/models/User';
+import { AccountService } from '@/lib/services/accountService';
 import { z, ZodError } from 'zod';
 
 // Validation schema for registration
@@ -65,17 +66,12 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Generate email verification token
-        const emailVerificationToken = Math.random().toString(36).substring(2, 15) +
-            Math.random().toString(36).substring(2, 15);
-
         // Create new user
         const newUser = new User({
             name,
             email,
             password,
             role,
-            emailVerificationToken,
             isEmailVerified: false
         });
 
@@ -85,8 +81,12 @@ export async function POST(request: NextRequest) {
         // Remove password from response
         const userResponse = newUser.toJSON();
 
-        // TODO: Send verification email
-        // await sendVerificationEmail(email, emailVerificationToken);
+        // Send verification email (the account works even if sending fails;
+        // the user can request a new link from /auth/verify-email)
+        const verificationResult = await AccountService.sendVerificationEmail(newUser._id.toString());
+        if (!verificationResult.success) {
+            console.error('Verification email failed:', verificationResult.error);
+        }
 
         return NextResponse.json(
             {
@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import '../../../styles/sign.css'
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState<string>('')
+  const [error, setError] = useState<string>('')
+  const [message, setMessage] = useState<string>('')
+  const [loading, setLoading] = useState<boolean>(false)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.message || 'حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.')
+        return
+      }
+
+      setMessage(data.message)
+    } catch (error) {
+      console.error('Forgot password error:', error)
+      setError('حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="sign-container">
+      <div className="sign-card">
+        <div className="sign-header">
+          <h1 className="sign-title">نسيت كلمة المرور؟</h1>
+          <p className="sign-subtitle">أدخل بريدك الإلكتروني وسنرسل لك رابطاً لإعادة تعيين كلمة المرور</p>
+        </div>
+
+        {error && <div className="sign-error-message">{error}</div>}
+        {message && <div className="sign-success-message">{message}</div>}
+
+        <form onSubmit={handleSubmit} className="sign-form">
+          <div className="sign-form-group">
+            <label htmlFor="email" className="sign-form-label">
+              البريد الإلكتروني
+            </label>
+            <input
+              type="email"
+              id="email"
+              name="email"
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value)
+                setError('')
+              }}
+              placeholder="أدخل بريدك الإلكتروني"
+              className="sign-form-input"
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <button type="submit" disabled={loading} className="sign-btn sign-btn-primary">
+            {loading ? (
+              <>
+                <div className="sign-spinner" />
+                جاري الإرسال...
+              </>
+            ) : (
+              'إرسال رابط إعادة التعيين'
+            )}
+          </button>
+        </form>
+
+        <div className="sign-footer">
+          <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem' }}>
+            تذكرت كلمة المرور؟{' '}
+            <Link href="/auth/signin" className="sign-link">
+              تسجيل الدخول
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
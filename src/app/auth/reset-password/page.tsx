@@ -0,0 +1,168 @@
+'use client'
+
+import { useState, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import '../../../styles/sign.css'
+
+interface FormData {
+  password: string
+  confirmPassword: string
+}
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+
+  const [formData, setFormData] = useState<FormData>({
+    password: '',
+    confirmPassword: '',
+  })
+  const [error, setError] = useState<string>('')
+  const [message, setMessage] = useState<string>('')
+  const [loading, setLoading] = useState<boolean>(false)
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }))
+    setError('') // Clear error when user types
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+
+    if (formData.password.length < 6) {
+      setError('كلمة المرور يجب أن تكون 6 أحرف على الأقل')
+      return
+    }
+
+    if (formData.password !== formData.confirmPassword) {
+      setError('كلمات المرور غير متطابقة')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password: formData.password }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.message || 'فشل في تغيير كلمة المرور')
+        return
+      }
+
+      setMessage(data.message)
+      setFormData({ password: '', confirmPassword: '' })
+    } catch (error) {
+      console.error('Reset password error:', error)
+      setError('حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!token) {
+    return (
+      <div className="sign-container">
+        <div className="sign-card">
+          <div className="sign-header">
+            <h1 className="sign-title">رابط غير صالح</h1>
+            <p className="sign-subtitle">رابط إعادة التعيين غير مكتمل. يرجى طلب رابط جديد.</p>
+          </div>
+          <Link href="/auth/forgot-password" className="sign-btn sign-btn-primary">
+            طلب رابط جديد
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="sign-container">
+      <div className="sign-card">
+        <div className="sign-header">
+          <h1 className="sign-title">تعيين كلمة مرور جديدة</h1>
+          <p className="sign-subtitle">اختر كلمة مرور جديدة لحسابك</p>
+        </div>
+
+        {error && <div className="sign-error-message">{error}</div>}
+
+        {message ? (
+          <>
+            <div className="sign-success-message">{message}</div>
+            <Link href="/auth/signin" className="sign-btn sign-btn-primary">
+              تسجيل الدخول
+            </Link>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="sign-form">
+            <div className="sign-form-group">
+              <label htmlFor="password" className="sign-form-label">
+                كلمة المرور الجديدة
+              </label>
+              <input
+                type="password"
+                id="password"
+                name="password"
+                value={formData.password}
+                onChange={handleInputChange}
+                placeholder="أدخل كلمة المرور الجديدة"
+                className="sign-form-input"
+                required
+                disabled={loading}
+              />
+            </div>
+
+            <div className="sign-form-group">
+              <label htmlFor="confirmPassword" className="sign-form-label">
+                تأكيد كلمة المرور
+              </label>
+              <input
+                type="password"
+                id="confirmPassword"
+                name="confirmPassword"
+                value={formData.confirmPassword}
+                onChange={handleInputChange}
+                placeholder="أعد إدخال كلمة المرور"
+                className="sign-form-input"
+                required
+                disabled={loading}
+              />
+            </div>
+
+            <button type="submit" disabled={loading} className="sign-btn sign-btn-primary">
+              {loading ? (
+                <>
+                  <div className="sign-spinner" />
+                  جاري الحفظ...
+                </>
+              ) : (
+                'حفظ كلمة المرور'
+              )}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={null}>
+      <ResetPasswordForm />
+    </Suspense>
+  )
+}
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { signIn, getSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { isStaffRole } from '@/lib/auth/permissions'
 import '../../../styles/sign.css'
 
 interface FormData {
@@ -52,7 +53,7 @@ export default function SignInPage() {
 
       if (session?.user) {
         // Redirect based on role
-        if (session.user.role === 'admin') {
+        if (isStaffRole(session.user.role)) {
           router.push('/admin/dashboard')
         } else {
           router.push('/') // Redirect customers to homepage
@@ -200,6 +201,9 @@ export default function SignInPage() {
               required
               disabled={loading}
             />
+            <Link href="/auth/forgot-password" className="sign-link" style={{ fontSize: '0.8rem', alignSelf: 'flex-start' }}>
+              نسيت كلمة المرور؟
+            </Link>
           </div>
 
           <button type="submit" disabled={loading} className="sign-btn sign-btn-primary">
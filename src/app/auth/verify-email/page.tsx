@@ -0,0 +1,146 @@
+'use client'
+
+import { useEffect, useRef, useState, Suspense } from 'react'
+import { useSession } from 'next-auth/react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import '../../../styles/sign.css'
+
+function VerifyEmailContent() {
+  const { data: session, status, update } = useSession()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+
+  const [verifying, setVerifying] = useState<boolean>(!!token)
+  const [verified, setVerified] = useState<boolean>(false)
+  const [error, setError] = useState<string>('')
+  const [message, setMessage] = useState<string>('')
+  const [sending, setSending] = useState<boolean>(false)
+  const verifyStarted = useRef(false)
+
+  // Consume the token once (React strict mode runs effects twice in development)
+  useEffect(() => {
+    if (!token || verifyStarted.current) return
+    verifyStarted.current = true
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          setError(data.message || 'رابط التأكيد غير صالح أو منتهي الصلاحية')
+          return
+        }
+
+        setVerified(true)
+        setMessage(data.message)
+        // Refresh the session so the verified flag is picked up
+        await update()
+      } catch (error) {
+        console.error('Verify email error:', error)
+        setError('حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.')
+      } finally {
+        setVerifying(false)
+      }
+    }
+
+    verify()
+  }, [token, update])
+
+  const handleResend = async () => {
+    setSending(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/auth/resend-verification', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.message || 'فشل في إرسال رابط التأكيد')
+        return
+      }
+
+      setMessage(data.message)
+    } catch (error) {
+      console.error('Resend verification error:', error)
+      setError('حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const alreadyVerified = !token && session?.user?.isEmailVerified
+  const canResend = !verified && !alreadyVerified && status === 'authenticated'
+
+  return (
+    <div className="sign-container">
+      <div className="sign-card">
+        <div className="sign-header">
+          <h1 className="sign-title">تأكيد البريد الإلكتروني</h1>
+          <p className="sign-subtitle">
+            {verifying
+              ? 'جاري تأكيد بريدك الإلكتروني...'
+              : alreadyVerified
+                ? 'بريدك الإلكتروني مؤكد بالفعل'
+                : session?.user?.email
+                  ? `سنرسل رابط التأكيد إلى ${session.user.email}`
+                  : 'افتح الرابط المرسل إلى بريدك الإلكتروني لتأكيد حسابك'}
+          </p>
+        </div>
+
+        {verifying && (
+          <div style={{ display: 'flex', justifyContent: 'center', marginBottom: '1rem' }}>
+            <div className="sign-spinner" />
+          </div>
+        )}
+
+        {error && <div className="sign-error-message">{error}</div>}
+        {message && <div className="sign-success-message">{message}</div>}
+
+        {canResend && !verifying && (
+          <button type="button" onClick={handleResend} disabled={sending} className="sign-btn sign-btn-primary">
+            {sending ? (
+              <>
+                <div className="sign-spinner" />
+                جاري الإرسال...
+              </>
+            ) : (
+              'إرسال رابط تأكيد جديد'
+            )}
+          </button>
+        )}
+
+        <div className="sign-footer">
+          <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem' }}>
+            {status === 'authenticated' ? (
+              <Link href="/" className="sign-link">
+                العودة إلى المتجر
+              </Link>
+            ) : (
+              <Link href="/auth/signin" className="sign-link">
+                تسجيل الدخول
+              </Link>
+            )}
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={null}>
+      <VerifyEmailContent />
+    </Suspense>
+  )
+}
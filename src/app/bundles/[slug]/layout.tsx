@@ -0,0 +1,36 @@
+import { ReactNode } from 'react'
+import { permanentRedirect } from 'next/navigation'
+import connectDB from '@/lib/db/connection'
+import Bundle from '@/lib/db/models/Bundle'
+import { findCurrentSlug } from '@/lib/db/slugHistory'
+
+/**
+ * Bundle Page Layout
+ *
+ * Server wrapper around the client bundle page. Links that still use a
+ * previous slug of a bundle are permanently redirected to its current slug.
+ */
+export default async function BundleSlugLayout({
+  children,
+  params,
+}: {
+  children: ReactNode
+  params: Promise<{ slug: string }>
+}) {
+  const { slug } = await params
+  let currentSlug: string | null = null
+
+  try {
+    await connectDB()
+    currentSlug = await findCurrentSlug(Bundle, slug, { isActive: true })
+  } catch (error) {
+    // The page itself reports a missing bundle, so just render it
+    console.error('Bundle slug redirect lookup failed:', error)
+  }
+
+  if (currentSlug && currentSlug !== slug) {
+    permanentRedirect(`/bundles/${currentSlug}`)
+  }
+
+  return children
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Image from 'next/image'
+import Link from 'next/link'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faSpinner, faCheck } from '@fortawesome/free-solid-svg-icons'
+import CustomerLayout from '@/app/customer-layout'
+import { useCurrency } from '@/contexts/CurrencyContext'
+import Breadcrumb from '@/components/ui/Breadcrumb'
+import AddToCartButton from '@/components/ui/AddToCartButton'
+import { getBundleCartProduct } from '@/components/customer/BundleCard'
+import type { PublicBundle } from '@/lib/services/bundleService'
+import '../bundles.css'
+
+export default function BundleDetailPage() {
+  const { formatPrice } = useCurrency()
+  const params = useParams()
+  const slug = params.slug as string
+
+  const [bundle, setBundle] = useState<PublicBundle | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchBundle = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/bundles/${encodeURIComponent(slug)}`)
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          setError(response.status === 404 ? 'البكج غير متوفر حالياً' : 'حدث خطأ أثناء تحميل البكج')
+          return
+        }
+
+        setBundle(result.data)
+      } catch (err) {
+        console.error('Error fetching bundle:', err)
+        setError('حدث خطأ أثناء تحميل البكج')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBundle()
+  }, [slug])
+
+  return (
+    <CustomerLayout>
+      <div className="container">
+        <div className="bundles-breadcrumb">
+          <Breadcrumb
+            items={[
+              { label: 'الرئيسية', href: '/' },
+              { label: 'البكجات', href: '/bundles' },
+              { label: bundle?.name || '...', isActive: true },
+            ]}
+          />
+        </div>
+
+        {loading ? (
+          <div className="bundles-loading">
+            <FontAwesomeIcon icon={faSpinner} spin />
+          </div>
+        ) : error || !bundle ? (
+          <div className="bundles-empty">
+            <h3>{error}</h3>
+            <Link href="/bundles">تصفح جميع البكجات</Link>
+          </div>
+        ) : (
+          <div className="bundle-detail">
+            <div className="bundle-detail-media">
+              {bundle.image ? (
+                <Image src={bundle.image} alt={bundle.name} width={600} height={600} priority />
+              ) : (
+                <div className="bundle-detail-icon" style={{ backgroundColor: bundle.color || undefined }}>
+                  {bundle.icon || '📦'}
+                </div>
+              )}
+            </div>
+
+            <div className="bundle-detail-info">
+              <h1>
+                {bundle.icon && <span className="bundle-detail-title-icon">{bundle.icon}</span>}
+                {bundle.name}
+              </h1>
+              {bundle.description && <p className="bundle-detail-description">{bundle.description}</p>}
+
+              {bundle.features.length > 0 && (
+                <ul className="bundle-detail-features">
+                  {bundle.features.map((feature) => (
+                    <li key={feature}>
+                      <FontAwesomeIcon icon={faCheck} />
+                      {feature}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="bundle-detail-products">
+                <h3>يحتوي البكج على {bundle.products.length} منتجات</h3>
+                {bundle.products.map((product) => (
+                  <Link key={product._id} href={`/products/${product.slug}`} className="bundle-detail-product">
+                    {product.image && <Image src={product.image} alt={product.name} width={56} height={56} />}
+                    <span className="bundle-detail-product-name">{product.name}</span>
+                    <span className="bundle-detail-product-price">{formatPrice(product.finalPrice)}</span>
+                  </Link>
+                ))}
+              </div>
+
+              <div className="bundle-detail-pricing">
+                <div className="bundle-detail-prices">
+                  <span className="bundle-detail-price">{formatPrice(bundle.price)}</span>
+                  {bundle.originalPrice > bundle.price && (
+                    <span className="bundle-detail-original-price">{formatPrice(bundle.originalPrice)}</span>
+                  )}
+                </div>
+                {bundle.savingsPercentage > 0 && (
+                  <span className="bundle-detail-savings">
+                    وفرت {bundle.savingsPercentage}% ({formatPrice(bundle.originalPrice - bundle.price)})
+                  </span>
+                )}
+              </div>
+
+              <AddToCartButton
+                className="bundle-detail-cart"
+                product={getBundleCartProduct(bundle)}
+              />
+              <small className="bundle-detail-note">يتم تسليم تصاميم جميع منتجات البكج بعد إتمام الدفع. أكواد الخصم لا تنطبق على البكجات.</small>
+            </div>
+          </div>
+        )}
+      </div>
+    </CustomerLayout>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faSpinner } from '@fortawesome/free-solid-svg-icons'
+import CustomerLayout from '@/app/customer-layout'
+import Breadcrumb from '@/components/ui/Breadcrumb'
+import BundleCard from '@/components/customer/BundleCard'
+import type { PublicBundle } from '@/lib/services/bundleService'
+import './bundles.css'
+
+export default function BundlesPage() {
+  const [bundles, setBundles] = useState<PublicBundle[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchBundles = async () => {
+      try {
+        const response = await fetch('/api/bundles')
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch bundles')
+        }
+
+        setBundles(result.data)
+      } catch (err) {
+        console.error('Error fetching bundles:', err)
+        setError('حدث خطأ أثناء تحميل البكجات')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBundles()
+  }, [])
+
+  return (
+    <CustomerLayout>
+      <div className="container">
+        <div className="bundles-breadcrumb">
+          <Breadcrumb
+            items={[
+              { label: 'الرئيسية', href: '/' },
+              { label: 'البكجات', isActive: true },
+            ]}
+          />
+        </div>
+
+        <div className="section-header">
+          <div>
+            <h1 className="section-title">البكجات</h1>
+            <p className="section-subtitle">مجموعات تصاميم بأسعار توفيرية</p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="bundles-loading">
+            <FontAwesomeIcon icon={faSpinner} spin />
+          </div>
+        ) : error ? (
+          <div className="bundles-empty">
+            <h3>{error}</h3>
+          </div>
+        ) : bundles.length === 0 ? (
+          <div className="bundles-empty">
+            <h3>لا توجد بكجات متاحة حالياً</h3>
+          </div>
+        ) : (
+          <div className="packages-grid">
+            {bundles.map((bundle) => (
+              <BundleCard key={bundle._id} bundle={bundle} />
+            ))}
+          </div>
+        )}
+      </div>
+    </CustomerLayout>
+  )
+}
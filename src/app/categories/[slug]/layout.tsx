@@ -0,0 +1,37 @@
+import { ReactNode } from 'react'
+import { permanentRedirect } from 'next/navigation'
+import connectDB from '@/lib/db/connection'
+import Category from '@/lib/db/models/Category'
+import { findCurrentSlug } from '@/lib/db/slugHistory'
+
+/**
+ * Category Page Layout
+ *
+ * Server wrapper around the client category page. Links that still use a
+ * previous slug of a category are permanently redirected to its current slug
+ * (Next.js sends its permanent redirect as 308, the method-preserving 301).
+ */
+export default async function CategorySlugLayout({
+  children,
+  params,
+}: {
+  children: ReactNode
+  params: Promise<{ slug: string }>
+}) {
+  const { slug } = await params
+  let currentSlug: string | null = null
+
+  try {
+    await connectDB()
+    currentSlug = await findCurrentSlug(Category, slug, { isActive: true })
+  } catch (error) {
+    // The page itself reports a missing category, so just render it
+    console.error('Category slug redirect lookup failed:', error)
+  }
+
+  if (currentSlug && currentSlug !== slug) {
+    permanentRedirect(`/categories/${currentSlug}`)
+  }
+
+  return children
+}
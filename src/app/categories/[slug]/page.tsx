@@ -6,10 +6,13 @@ import Image from 'next/image'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { faStar, faChevronLeft, faChevronRight, faHeart, faShare } from '@fortawesome/free-solid-svg-icons'
 import AddToCartButton from '@/components/ui/AddToCartButton'
+import { useCurrency } from '@/contexts/CurrencyContext'
 import Link from 'next/link'
 import CustomerLayout from '@/app/customer-layout'
 import LoadingSpinner from '@/components/LoadingSpinner'
 import Breadcrumb from '@/components/ui/Breadcrumb'
+import { requiresCustomizationAnswers } from '@/lib/utils/customizationFields'
+import type { ICustomizationField } from '@/lib/db/models/Product'
 import './category-page.css'
 
 interface Category {
@@ -41,6 +44,7 @@ interface Product {
   reviewCount: number
   purchaseCount: number
   EnableCustomizations?: boolean
+  customizationFields?: ICustomizationField[]
   categoryId?: {
     _id: string
     name: string
@@ -49,6 +53,7 @@ interface Product {
 }
 
 export default function CategoryPage() {
+  const { formatPrice } = useCurrency()
   const params = useParams()
   // const searchParams = useSearchParams()
   const slug = params?.slug as string
@@ -282,9 +287,9 @@ export default function CategoryPage() {
                       <div className="cp-product-pricing">
                         <div className="cp-pricing-row">
                           <div className="cp-prices-column">
-                            <span className="cp-current-price">${product.finalPrice}</span>
+                            <span className="cp-current-price">{formatPrice(product.finalPrice)}</span>
                             {product.finalPrice < product.price && (
-                              <span className="cp-original-price">${product.price}</span>
+                              <span className="cp-original-price">{formatPrice(product.price)}</span>
                             )}
                           </div>
                           <div className="cp-discount-savings-column">
@@ -292,7 +297,7 @@ export default function CategoryPage() {
                               <>
                                 <span className="cp-discount-text">{discountPercentage}% خصم</span>
                                 <span className="cp-savings-badge">
-                                  وفرت ${(product.price - product.finalPrice).toFixed(2)}
+                                  وفرت {formatPrice(product.price - product.finalPrice)}
                                 </span>
                               </>
                             )}
@@ -312,6 +317,9 @@ export default function CategoryPage() {
                             EnableCustomizations: product.EnableCustomizations,
                             colors: (product as any).colors || [],
                           }}
+                          customizeHref={
+                            requiresCustomizationAnswers(product) ? `/products/${product.slug}` : undefined
+                          }
                         />
                         <div className="cp-action-buttons">
                           <button className="cp-action-btn" title="إضافة للمفضلة" onClick={(e) => e.stopPropagation()}>
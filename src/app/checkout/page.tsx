@@ -12,6 +12,8 @@ import { faPaypal as faPaypalBrand } from '@fortawesome/free-brands-svg-icons'
 import CustomerLayout from '@/app/customer-layout'
 import { getCustomLabel } from '@/utils/colorTranslations'
 import Alert, { useAlerts } from '@/components/ui/Alert'
+import { useCurrency } from '@/contexts/CurrencyContext'
+import { BASE_CURRENCY, formatCurrency } from '@/lib/utils/currencyUtils'
 import './checkout.css'
 
 interface CheckoutForm {
@@ -34,6 +36,7 @@ export default function CheckoutPage() {
 
   function CheckoutContent() {
     const { state, removeItem, updateQuantity, clearCart } = useCart()
+    const { currency, formatPrice } = useCurrency()
     const { data: session, status } = useSession()
     const router = useRouter()
     const { alerts, showSuccess, showError, showWarning, showInfo } = useAlerts()
@@ -140,7 +143,7 @@ export default function CheckoutPage() {
         }
 
         const script = document.createElement('script')
-        script.src = `https://www.paypal.com/sdk/js?client-id=${paypalClientId}&currency=USD&intent=capture&components=buttons&locale=ar_EG&debug=false`
+        script.src = `https://www.paypal.com/sdk/js?client-id=${paypalClientId}&currency=${BASE_CURRENCY}&intent=capture&components=buttons&locale=ar_EG&debug=false`
         script.async = true
         script.defer = true
 
@@ -468,6 +471,14 @@ export default function CheckoutPage() {
         return
       }
 
+      // Bundles are already discounted, so promo codes only cover individually bought items
+      const promoItems = state.items.filter((item) => !item.bundle)
+      if (promoItems.length === 0) {
+        setPromoCodeError('أكواد الخصم لا تنطبق على البكجات')
+        return
+      }
+      const promoItemsTotal = promoItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+
       setIsValidatingPromo(true)
       setPromoCodeError('')
       setPromoCodeSuccess('')
@@ -481,8 +492,8 @@ export default function CheckoutPage() {
           body: JSON.stringify({
             code: promoCode.trim(),
             orderValue: state.subtotal || 0,
-            currentTotal: state.totalPrice || 0,
-            cartItems: state.items || [],
+            currentTotal: promoItemsTotal,
+            cartItems: promoItems,
           }),
         })
 
@@ -497,12 +508,12 @@ export default function CheckoutPage() {
           })
 
           const itemText = data.totalQualifyingItems > 1 ? `${data.totalQualifyingItems} عناصر` : 'عنصر واحد'
-          const discountText = data.type === 'percentage' ? `${data.discount || 0}%` : `$${data.discount || 0} لكل عنصر`
+          const discountText = data.type === 'percentage' ? `${data.discount || 0}%` : `${formatPrice(data.discount || 0)} لكل عنصر`
 
           setPromoCodeSuccess(
-            `تم تطبيق كود الخصم على ${itemText}! خصم ${discountText} - إجمالي الخصم: $${(
+            `تم تطبيق كود الخصم على ${itemText}! خصم ${discountText} - إجمالي الخصم: ${formatPrice(
               data.discountAmount || 0
-            ).toFixed(2)}`
+            )}`
           )
           setPromoCode('')
         } else {
@@ -582,7 +593,29 @@ export default function CheckoutPage() {
             customerName: `${formData.firstName} ${formData.lastName}`,
             customerEmail: formData.email,
             customerPhone: formData.phone,
-            items: state.items.map((item) => {
+            items: state.items.flatMap<Record<string, unknown>>((item) => {
+              // A bundle becomes one order item per product; the server splits the bundle price
+              if (item.bundle) {
+                const bundleOriginalPrice = item.originalPrice || item.price
+                return item.bundle.products.map((product) => {
+                  const unitPrice = bundleOriginalPrice > 0 ? (product.price / bundleOriginalPrice) * item.price : 0
+                  return {
+                    productId: product.id,
+                    productName: product.name,
+                    productSlug: product.slug,
+                    quantity: item.quantity,
+                    originalPrice: product.price,
+                    discountAmount: Math.max(0, product.price - unitPrice),
+                    unitPrice,
+                    totalPrice: unitPrice * item.quantity,
+                    promoDiscount: 0,
+                    bundleId: item.id,
+                    EnableCustomizations: false,
+                    hasCustomizations: false,
+                  }
+                })
+              }
+
               const itemSubtotal = (item.originalPrice || item.price) * item.quantity
               const itemPromoDiscount =
                 promoDiscountAmount > 0 ? (itemSubtotal / subtotalAmount) * promoDiscountAmount : 0
@@ -614,178 +647,34 @@ export default function CheckoutPage() {
             totalPrice: finalTotal,
             appliedPromoCodes: appliedPromoCode ? [appliedPromoCode.code] : [],
             customerNotes: formData.notes,
+            displayCurrency: currency.code,
             orderStatus: finalTotal === 0 ? 'processing' : 'pending',
           }),
         })
 
         if (!orderResponse.ok) {
           const errorData = await orderResponse.json()
-          throw new Error(errorData.message || 'فشل في إنشاء الطلب')
+
+          // The store requires a verified email - send the customer to verify it first
+          if (errorData.code === 'EMAIL_NOT_VERIFIED') {
+            showError('تأكيد البريد الإلكتروني مطلوب', errorData.error)
+            router.push('/auth/verify-email')
+            return
+          }
+
+          throw new Error(errorData.error || errorData.message || 'فشل في إنشاء الطلب')
         }
 
         const orderData = await orderResponse.json()
         console.log('Order created successfully:', orderData)
 
-        if (finalTotal <= 0) {
-          console.log('🎉 Processing free order - checking for customizable products')
-
-          try {
-            const hasCustomizableProducts = state.items.some((item) => item.EnableCustomizations)
-            const hasActualCustomizations = state.items.some((item) => {
-              return (
-                item.customizations &&
-                ((item.customizations.colors && item.customizations.colors.length > 0) ||
-                  (item.customizations.textChanges && item.customizations.textChanges.length > 0) ||
-                  (item.customizations.uploadedImages && item.customizations.uploadedImages.length > 0) ||
-                  item.customizations.uploadedLogo ||
-                  (item.customizations.customizationNotes && item.customizations.customizationNotes.trim().length > 0))
-              )
-            })
-
-            console.log('🔍 Free order analysis:', {
-              hasCustomizableProducts,
-              hasActualCustomizations,
-              finalTotal,
-            })
-
-            if (hasCustomizableProducts && !hasActualCustomizations) {
-              console.log('⚠️ Free order has customizable products but missing customization data')
-
-              await fetch('/api/orders/update-status', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  orderId: orderData.orderId,
-                  status: 'processing',
-                  paymentStatus: 'free',
-                  deliveryType: 'custom_work',
-                  note: 'طلب مجاني يحتوي على منتجات قابلة للتخصيص ولكن بيانات التخصيص مفقودة',
-                }),
-              })
-
-              // ONLY send admin notification - let ItemDeliveryService handle customer email
-              try {
-                console.log('🔔 Sending admin notification for free order with missing customizations...')
-                await fetch('/api/admin/notify-new-order', {
-                  method: 'POST',
-                  headers: {
-                    'Content-Type': 'application/json',
-                  },
-                  body: JSON.stringify({
-                    orderId: orderData.orderId,
-                    orderNumber: orderData.orderNumber,
-                    isFreeOrder: true,
-                    hasCustomizations: true,
-                    missingCustomization: true,
-                    autoCompleted: false,
-                  }),
-                })
-              } catch (adminError) {
-                console.error('❌ Error sending admin notification:', adminError)
-              }
-
-              // Process the order through ItemDeliveryService (this will send the appropriate customer email)
-              await fetch('/api/orders/complete-free-order', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  orderId: orderData.orderId,
-                }),
-              })
-            } else if (hasCustomizableProducts && hasActualCustomizations) {
-              console.log('📋 Free order has customizable products with data - needs admin review')
+        // Free orders are delivered and notified by the server when they are created
+        if (orderData.totalPrice <= 0) {
+          showSuccess('تم إرسال طلبك المجاني!', 'تم معالجة طلبك المجاني بنجاح. ستصلك رسالة تأكيد قريباً.')
 
-              await fetch('/api/orders/update-status', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  orderId: orderData.orderId,
-                  status: 'pending',
-                  paymentStatus: 'free',
-                  note: 'طلب مجاني يحتوي على تخصيصات ويحتاج لمراجعة الإدارة',
-                }),
-              })
-
-              // ONLY send admin notification - let ItemDeliveryService handle customer email
-              try {
-                console.log('🔔 Sending admin notification for free order with customizations...')
-                await fetch('/api/admin/notify-new-order', {
-                  method: 'POST',
-                  headers: {
-                    'Content-Type': 'application/json',
-                  },
-                  body: JSON.stringify({
-                    orderId: orderData.orderId,
-                    orderNumber: orderData.orderNumber,
-                    isFreeOrder: true,
-                    hasCustomizations: true,
-                    autoCompleted: false,
-                  }),
-                })
-              } catch (adminError) {
-                console.error('❌ Error sending admin notification:', adminError)
-              }
-
-              // Process the order through ItemDeliveryService
-              await fetch('/api/orders/complete-free-order', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  orderId: orderData.orderId,
-                }),
-              })
-            } else {
-              console.log('✅ Free order has no customizable products - auto-completing')
-
-              // Let the complete-free-order API handle everything including emails
-              await fetch('/api/orders/complete-free-order', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  orderId: orderData.orderId,
-                }),
-              })
-
-              try {
-                console.log('🔔 Sending admin notification for completed free order...')
-                await fetch('/api/admin/notify-new-order', {
-                  method: 'POST',
-                  headers: {
-                    'Content-Type': 'application/json',
-                  },
-                  body: JSON.stringify({
-                    orderId: orderData.orderId,
-                    orderNumber: orderData.orderNumber,
-                    isFreeOrder: true,
-                    hasCustomizations: false,
-                    autoCompleted: true,
-                  }),
-                })
-              } catch (adminError) {
-                console.error('❌ Error sending admin notification:', adminError)
-              }
-            }
-
-            showSuccess('تم إرسال طلبك المجاني!', 'تم معالجة طلبك المجاني بنجاح. ستصلك رسالة تأكيد قريباً.')
-
-            clearCart()
-            router.push(`/checkout/success?order=${orderData.orderNumber}&free=true`)
-            return
-          } catch (error) {
-            console.error('Error processing free order:', error)
-            showError('خطأ في الطلب المجاني', 'حدث خطأ في معالجة الطلب المجاني. يرجى المحاولة مرة أخرى.')
-            return
-          }
+          clearCart()
+          router.push(`/checkout/success?order=${orderData.orderNumber}&free=true`)
+          return
         }
 
         sessionStorage.setItem('pendingOrderId', orderData.orderId)
@@ -801,6 +690,18 @@ export default function CheckoutPage() {
       }
     }
 
+    // Order summary amounts (base currency, formatted in the display currency)
+    const summaryPromoDiscount = appliedPromoCode
+      ? appliedPromoCode.discountAmount ||
+        Math.min(
+          appliedPromoCode.type === 'percentage'
+            ? ((state.totalPrice || 0) * (appliedPromoCode.discount || 0)) / 100
+            : appliedPromoCode.discount || 0,
+          state.totalPrice || 0
+        )
+      : 0
+    const summaryTotal = Math.max(0, (state.totalPrice || 0) - summaryPromoDiscount)
+
     const hasCorruptedData = state.items.some(
       (item) => item.price < 0 || (item.originalPrice && item.originalPrice < item.price) || item.quantity <= 0
     )
@@ -894,22 +795,27 @@ export default function CheckoutPage() {
                         <span className="custom-label"> ({getCustomLabel(item.customizations)})</span>
                       )}
                     </h4>
+                    {item.bundle && (
+                      <p className="item-bundle">
+                        بكج: {item.bundle.products.map((product) => product.name).join('، ')}
+                      </p>
+                    )}
                     {item.customizations?.colors && item.customizations.colors.length > 0 && (
                       <p className="item-colors">الألوان: {item.customizations.colors.map((c) => c.name).join(', ')}</p>
                     )}
                     <div className="item-pricing">
                       {item.originalPrice && item.originalPrice > item.price ? (
                         <>
-                          <div className="item-original-price">${item.originalPrice}</div>
-                          <div className="item-final-price">${item.price}</div>
+                          <div className="item-original-price">{formatPrice(item.originalPrice)}</div>
+                          <div className="item-final-price">{formatPrice(item.price)}</div>
                         </>
                       ) : (
-                        <div className="item-price">${item.price}</div>
+                        <div className="item-price">{formatPrice(item.price)}</div>
                       )}
                     </div>
                   </div>
                   {/* FIX: Removed the quantity adjustment buttons */}
-                  <div className="item-total">${(item.price * item.quantity).toFixed(2)}</div>
+                  <div className="item-total">{formatPrice(item.price * item.quantity)}</div>
                   <button onClick={() => removeItem(item.cartItemId)} className="remove-btn" title="إزالة">
                     <FontAwesomeIcon icon={faTrash} />
                   </button>
@@ -953,50 +859,30 @@ export default function CheckoutPage() {
             <div className="order-totals">
               <div className="total-row">
                 <span>المجموع الفرعي:</span>
-                <span>${(state.subtotal || 0).toFixed(2)}</span>
+                <span>{formatPrice(state.subtotal || 0)}</span>
               </div>
               {(state.totalSavings || 0) > 0 && (
                 <div className="total-row">
                   <span>خصم المنتجات:</span>
-                  <span>-${(state.totalSavings || 0).toFixed(2)}</span>
+                  <span>-{formatPrice(state.totalSavings || 0)}</span>
                 </div>
               )}
               {appliedPromoCode && (
                 <div className="total-row">
                   <span>خصم الكوبون:</span>
-                  <span>
-                    -$
-                    {(
-                      appliedPromoCode.discountAmount ||
-                      Math.min(
-                        appliedPromoCode.type === 'percentage'
-                          ? ((state.totalPrice || 0) * (appliedPromoCode.discount || 0)) / 100
-                          : appliedPromoCode.discount || 0,
-                        state.totalPrice || 0
-                      )
-                    ).toFixed(2)}
-                  </span>
+                  <span>-{formatPrice(summaryPromoDiscount)}</span>
                 </div>
               )}
               <div className="total-row final-total">
                 <span>المجموع النهائي:</span>
-                <span>
-                  $
-                  {Math.max(
-                    0,
-                    (state.totalPrice || 0) -
-                      (appliedPromoCode?.discountAmount ||
-                        Math.min(
-                          appliedPromoCode
-                            ? appliedPromoCode.type === 'percentage'
-                              ? ((state.totalPrice || 0) * appliedPromoCode.discount) / 100
-                              : appliedPromoCode.discount
-                            : 0,
-                          state.totalPrice || 0
-                        ))
-                  ).toFixed(2)}
-                </span>
+                <span>{formatPrice(summaryTotal)}</span>
               </div>
+              {currency.code !== BASE_CURRENCY && (
+                <p className="currency-settlement-note">
+                  الأسعار بـ{currency.name} تقريبية حسب سعر الصرف الحالي، وسيتم الدفع عبر PayPal بمبلغ{' '}
+                  {formatCurrency(summaryTotal, BASE_CURRENCY)}
+                </p>
+              )}
             </div>
           </div>
 
@@ -18,6 +18,8 @@ import {
 import { faDiscord, faWhatsapp, faTelegram, faYoutube, faTiktok } from '@fortawesome/free-brands-svg-icons'
 import { CartProvider } from '@/contexts/CartContext'
 import CartDropdown from '@/components/ui/CartDropdown'
+import CurrencySwitcher from '@/components/ui/CurrencySwitcher'
+import { isStaffRole } from '@/lib/auth/permissions'
 import './customer-layout.css'
 
 // Types
@@ -156,6 +158,10 @@ export default function CustomerLayout({ children }: CustomerLayoutProps) {
                       <CartDropdown />
                     </div>
 
+                    <div className="action-item currency-action">
+                      <CurrencySwitcher />
+                    </div>
+
                     {/* Orders Icon - Only show if logged in */}
                     {session?.user && (
                       <div className="action-item">
@@ -201,7 +207,7 @@ export default function CustomerLayout({ children }: CustomerLayoutProps) {
                               <span className="user-email">{session.user.email}</span>
                             </div>
                             <div className="dropdown-divider"></div>
-                            {session?.user.role === 'admin' && (
+                            {isStaffRole(session?.user.role) && (
                               <Link href="/admin/dashboard" className="dropdown-item" onClick={closeUserDropdown}>
                                 <FontAwesomeIcon icon={faUser} />
                                 لوحة التحكم
@@ -223,7 +229,9 @@ export default function CustomerLayout({ children }: CustomerLayoutProps) {
                     </div>
 
                     <div className="action-item">
-                      <FontAwesomeIcon icon={faSearch} className="action-icon" />
+                      <Link href="/search" className="action-link" title="بحث">
+                        <FontAwesomeIcon icon={faSearch} className="action-icon" />
+                      </Link>
                     </div>
                   </div>
                 </div>
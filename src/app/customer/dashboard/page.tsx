@@ -3,6 +3,8 @@
 import { useSession, signOut } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect } from 'react'
+import Link from 'next/link'
+import { isStaffRole } from '@/lib/auth/permissions'
 
 export default function CustomerDashboard() {
   const { data: session, status } = useSession()
@@ -17,8 +19,8 @@ export default function CustomerDashboard() {
       return
     }
 
-    // Redirect admin users to admin dashboard
-    if (session?.user?.role === 'admin') {
+    // Redirect staff users to admin dashboard
+    if (isStaffRole(session?.user?.role)) {
       router.push('/admin/dashboard')
       return
     }
@@ -165,6 +167,11 @@ export default function CustomerDashboard() {
               >
                 {session.user?.isEmailVerified ? ' ✓ Verified' : ' ✗ Not verified'}
               </span>
+              {!session.user?.isEmailVerified && (
+                <Link href="/auth/verify-email" style={{ marginInlineStart: '0.5rem', color: 'var(--accent-primary)' }}>
+                  تأكيد البريد
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -1,8 +1,9 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter, useParams } from 'next/navigation'
+import Image from 'next/image'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import {
   faArrowLeft,
@@ -13,12 +14,18 @@ import {
   faClock,
   faExclamationCircle,
   faFileDownload,
+  faFileArchive,
   faUser,
   faEnvelope,
   faPhone,
   faMapMarkerAlt,
   faShoppingCart,
+  faImage,
+  faLock,
 } from '@fortawesome/free-solid-svg-icons'
+import OrderMessages from '@/components/ui/OrderMessages'
+import type { IOrderDisplayCurrency } from '@/lib/db/models/Order'
+import { BASE_CURRENCY, formatCurrency } from '@/lib/utils/currencyUtils'
 import './order-details.css'
 
 // Types
@@ -29,6 +36,8 @@ interface Order {
   createdAt: string
   updatedAt: string
   totalPrice: number
+  currency?: string
+  displayCurrency?: IOrderDisplayCurrency
   discountAmount?: number
   promoCode?: string
   customerInfo?: {
@@ -54,6 +63,20 @@ interface OrderItem {
     uploadedImages?: string[]
   }
   designFiles?: DesignFile[] // Add designFiles to OrderItem interface
+  requiresProof?: boolean
+  proofStatus?: 'none' | 'awaiting_review' | 'revision_requested' | 'approved'
+  revisionsLeft?: number
+  proofs?: ProofRound[]
+}
+
+interface ProofRound {
+  round: number
+  previewUrl: string
+  designerNote?: string
+  uploadedAt: string
+  status: 'pending' | 'approved' | 'revision_requested'
+  customerComment?: string
+  respondedAt?: string
 }
 
 interface DesignFile {
@@ -71,6 +94,28 @@ export default function OrderDetailsPage() {
   const [order, setOrder] = useState<Order | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [proofComments, setProofComments] = useState<Record<number, string>>({})
+  const [respondingItem, setRespondingItem] = useState<number | null>(null)
+  const [proofMessage, setProofMessage] = useState<{ itemIndex: number; text: string; isError: boolean } | null>(null)
+
+  // Allow both customers and admins to access this page
+  const fetchOrderDetails = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/orders/details?orderId=${orderId}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setOrder(data.order)
+      } else {
+        setError(data.error || 'Failed to fetch order details')
+      }
+    } catch (err) {
+      console.error('Error fetching order details:', err)
+      setError('Failed to fetch order details')
+    } finally {
+      setLoading(false)
+    }
+  }, [orderId])
 
   useEffect(() => {
     if (status === 'loading') return
@@ -80,29 +125,57 @@ export default function OrderDetailsPage() {
       return
     }
 
-    // Allow both customers and admins to access this page
-    const fetchOrderDetails = async () => {
-      try {
-        const response = await fetch(`/api/orders/details?orderId=${orderId}`)
-        const data = await response.json()
-
-        if (data.success) {
-          setOrder(data.order)
-        } else {
-          setError(data.error || 'Failed to fetch order details')
-        }
-      } catch (err) {
-        console.error('Error fetching order details:', err)
-        setError('Failed to fetch order details')
-      } finally {
-        setLoading(false)
-      }
+    if (orderId) {
+      fetchOrderDetails()
     }
+  }, [status, session, router, orderId, fetchOrderDetails])
 
-    if (orderId) {
+  // Approve the current proof or ask for another revision
+  const handleProofResponse = async (itemIndex: number, decision: 'approve' | 'request_revision') => {
+    const comment = proofComments[itemIndex]?.trim() || ''
+
+    if (decision === 'request_revision' && !comment) {
+      setProofMessage({ itemIndex, text: 'يرجى كتابة التعديلات المطلوبة', isError: true })
+      return
+    }
+
+    if (decision === 'approve' && !confirm('بعد الموافقة سيتم تجهيز الملفات النهائية ولن تتمكن من طلب تعديلات أخرى. هل تريد المتابعة؟')) {
+      return
+    }
+
+    setRespondingItem(itemIndex)
+    setProofMessage(null)
+
+    try {
+      const response = await fetch('/api/orders/proofs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId, itemIndex, decision, comment: comment || undefined }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to send your response')
+      }
+
+      setProofMessage({
+        itemIndex,
+        text:
+          decision === 'approve'
+            ? data.unlockedFiles > 0
+              ? 'شكراً لموافقتك! أصبحت الملفات النهائية متاحة للتحميل'
+              : 'شكراً لموافقتك! سيتم تجهيز الملفات النهائية وإرسالها إليك'
+            : 'تم إرسال طلب التعديل إلى المصمم',
+        isError: false,
+      })
+      setProofComments((prev) => ({ ...prev, [itemIndex]: '' }))
       fetchOrderDetails()
+    } catch (err) {
+      setProofMessage({ itemIndex, text: err instanceof Error ? err.message : 'حدث خطأ', isError: true })
+    } finally {
+      setRespondingItem(null)
     }
-  }, [status, session, router, orderId])
+  }
 
   // const handleDownloadFile = async (fileUrl: string, fileName: string) => {
   //   try {
@@ -258,6 +331,14 @@ export default function OrderDetailsPage() {
                 <span className="detail-label">إجمالي السعر:</span>
                 <span className="detail-value price">${formatPrice(order.totalPrice)}</span>
               </div>
+              {order.displayCurrency && order.displayCurrency.code !== (order.currency || BASE_CURRENCY) && (
+                <div className="detail-row">
+                  <span className="detail-label">بعملة العرض:</span>
+                  <span className="detail-value">
+                    {formatCurrency(order.displayCurrency.totalPrice, order.displayCurrency.code)}
+                  </span>
+                </div>
+              )}
               {order.discountAmount && order.discountAmount > 0 && (
                 <div className="detail-row">
                   <span className="detail-label">الخصم:</span>
@@ -365,6 +446,117 @@ export default function OrderDetailsPage() {
                     </div>
                   )}
 
+                  {/* Customization proof review */}
+                  {item.requiresProof && (
+                    <div className="item-proof-section">
+                      <h5>
+                        <FontAwesomeIcon icon={faImage} />
+                        بروفة التصميم
+                      </h5>
+
+                      {!item.proofs || item.proofs.length === 0 ? (
+                        <p className="proof-note">يعمل المصمم على تخصيص التصميم وستصلك بروفة للمراجعة قريباً</p>
+                      ) : (
+                        <>
+                          {(() => {
+                            const currentProof = item.proofs[item.proofs.length - 1]
+                            return (
+                              <div className="proof-current">
+                                <a href={currentProof.previewUrl} target="_blank" rel="noopener noreferrer">
+                                  <Image
+                                    src={currentProof.previewUrl}
+                                    alt={`البروفة ${currentProof.round}`}
+                                    width={420}
+                                    height={315}
+                                    unoptimized
+                                    className="proof-preview-image"
+                                  />
+                                </a>
+                                <div className="proof-current-info">
+                                  <strong>البروفة رقم {currentProof.round}</strong>
+                                  {currentProof.designerNote && <p>ملاحظة المصمم: {currentProof.designerNote}</p>}
+                                  {item.proofStatus === 'approved' && (
+                                    <p className="proof-approved">
+                                      <FontAwesomeIcon icon={faCheckCircle} /> وافقت على هذه البروفة
+                                    </p>
+                                  )}
+                                  {item.proofStatus === 'revision_requested' && (
+                                    <p className="proof-note">طلبت تعديلات وسيرسل المصمم بروفة جديدة قريباً</p>
+                                  )}
+                                </div>
+                              </div>
+                            )
+                          })()}
+
+                          {item.proofStatus === 'awaiting_review' && (
+                            <div className="proof-actions">
+                              <textarea
+                                value={proofComments[index] || ''}
+                                onChange={(e) => setProofComments((prev) => ({ ...prev, [index]: e.target.value }))}
+                                placeholder={
+                                  item.revisionsLeft && item.revisionsLeft > 0
+                                    ? 'اكتب التعديلات التي تريدها على البروفة...'
+                                    : 'ملاحظات (اختياري)...'
+                                }
+                                rows={3}
+                                maxLength={2000}
+                                className="proof-comment-input"
+                              />
+                              <p className="proof-note">
+                                {item.revisionsLeft && item.revisionsLeft > 0
+                                  ? `جولات التعديل المتبقية: ${item.revisionsLeft}`
+                                  : 'لقد استنفدت جولات التعديل المتاحة لهذا المنتج'}
+                              </p>
+                              <div className="proof-buttons">
+                                <button
+                                  onClick={() => handleProofResponse(index, 'approve')}
+                                  disabled={respondingItem !== null}
+                                  className="proof-approve-btn"
+                                >
+                                  <FontAwesomeIcon icon={respondingItem === index ? faSpinner : faCheckCircle} spin={respondingItem === index} />
+                                  الموافقة على البروفة
+                                </button>
+                                {item.revisionsLeft !== undefined && item.revisionsLeft > 0 && (
+                                  <button
+                                    onClick={() => handleProofResponse(index, 'request_revision')}
+                                    disabled={respondingItem !== null}
+                                    className="proof-revision-btn"
+                                  >
+                                    طلب تعديل
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          )}
+
+                          {proofMessage?.itemIndex === index && (
+                            <p className={proofMessage.isError ? 'proof-error' : 'proof-approved'}>{proofMessage.text}</p>
+                          )}
+
+                          {item.proofs.length > 1 && (
+                            <details className="proof-history">
+                              <summary>البروفات السابقة ({item.proofs.length - 1})</summary>
+                              {item.proofs.slice(0, -1).map((proof) => (
+                                <div key={proof.round} className="proof-history-row">
+                                  <a href={proof.previewUrl} target="_blank" rel="noopener noreferrer">
+                                    البروفة {proof.round}
+                                  </a>
+                                  {proof.customerComment && <span>طلبك: {proof.customerComment}</span>}
+                                </div>
+                              ))}
+                            </details>
+                          )}
+                        </>
+                      )}
+
+                      {item.proofStatus !== 'approved' && (
+                        <p className="proof-note">
+                          <FontAwesomeIcon icon={faLock} /> ستتاح الملفات النهائية بعد موافقتك على البروفة
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Show files for this specific item */}
                   {item.designFiles && item.designFiles.length > 0 && (
                     <div className="item-files-section">
@@ -396,6 +588,11 @@ export default function OrderDetailsPage() {
           </div>
         </div>
 
+        {/* Conversation with the design team */}
+        <div className="order-messages-card">
+          <OrderMessages orderId={orderId as string} mode="customer" />
+        </div>
+
         {/* Keep the old designFiles section for backward compatibility */}
         {order.designFiles && order.designFiles.length > 0 && (
           <div className="download-files-card">
@@ -403,6 +600,13 @@ export default function OrderDetailsPage() {
               <FontAwesomeIcon icon={faFileDownload} />
               جميع الملفات المتاحة للتحميل
             </h3>
+            <a
+              href={`/api/orders/download-all?orderId=${orderId}`}
+              className="download-all-btn"
+            >
+              <FontAwesomeIcon icon={faFileArchive} />
+              تحميل جميع الملفات (ZIP)
+            </a>
             <div className="download-files-grid">
               {order.designFiles.map((file, index) => (
                 <a
@@ -16,6 +16,8 @@ import {
   faExclamationCircle,
   faFileDownload,
   faGift,
+  faStar,
+  faComments,
 } from '@fortawesome/free-solid-svg-icons'
 import CustomerLayout from '@/app/customer-layout'
 import './customer-orders.css'
@@ -23,6 +25,7 @@ import './customer-orders.css'
 // Types
 interface OrderItem {
   productId: {
+    _id: string
     name: string
   }
   productName?: string
@@ -59,13 +62,14 @@ interface Order {
   totalPrice: number
   orderStatus: 'pending' | 'processing' | 'completed' | 'cancelled' | 'awaiting_customization' | 'under_customization'
   paymentMethod?: string
-  paymentStatus?: 'pending' | 'paid' | 'failed' | 'refunded' | 'free'
+  paymentStatus?: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed' | 'free'
   subtotal?: number
   totalPromoDiscount?: number
   appliedPromoCodes?: string[]
   items: OrderItem[]
   orderHistory?: OrderHistory[]
   designFiles?: DesignFile[]
+  unreadMessages?: number
 }
 
 export default function CustomerOrdersPage() {
@@ -233,6 +237,12 @@ export default function CustomerOrdersPage() {
                           <FontAwesomeIcon icon={faDollarSign} />
                           {order.totalPrice === 0 ? 'مجاني' : `$${formatPrice(order.totalPrice)}`}
                         </span>
+                        {!!order.unreadMessages && (
+                          <span className="oc-unread-messages">
+                            <FontAwesomeIcon icon={faComments} />
+                            {order.unreadMessages} رسائل جديدة
+                          </span>
+                        )}
                       </div>
                     </div>
 
@@ -280,6 +290,10 @@ export default function CustomerOrdersPage() {
                                 ? 'فشل'
                                 : order.paymentStatus === 'refunded'
                                 ? 'مسترد'
+                                : order.paymentStatus === 'partially_refunded'
+                                ? 'مسترد جزئياً'
+                                : order.paymentStatus === 'disputed'
+                                ? 'قيد النزاع'
                                 : order.paymentStatus === 'free'
                                 ? 'مجاني'
                                 : order.paymentStatus || 'مجاني'}
@@ -358,6 +372,20 @@ export default function CustomerOrdersPage() {
                                 <span className="status-badge status-pending">⏳ في الانتظار التسليم</span>
                               )}
                               {item.deliveryNotes && <p className="delivery-notes">{item.deliveryNotes}</p>}
+                              {(item.deliveryStatus === 'auto_delivered' || item.deliveryStatus === 'custom_delivered') &&
+                                item.productId?._id && (
+                                  <button
+                                    onClick={() =>
+                                      router.push(
+                                        `/customer/reviews/add?productId=${item.productId._id}&orderId=${order._id}`
+                                      )
+                                    }
+                                    className="oc-review-product-btn"
+                                  >
+                                    <FontAwesomeIcon icon={faStar} />
+                                    قيّم المنتج
+                                  </button>
+                                )}
                             </div>
                             {item.customizations?.colors && item.customizations.colors.length > 0 ? (
                               <div className="oc-colors">
@@ -23,6 +23,7 @@ function AddReviewForm() {
   const router = useRouter()
   const searchParams = useSearchParams()
   const orderId = searchParams.get('orderId')
+  const productId = searchParams.get('productId')
 
   const [formData, setFormData] = useState({
     name: '',
@@ -87,6 +88,8 @@ function AddReviewForm() {
         body: JSON.stringify({
           ...formData,
           orderId,
+          // Product reviews are checked against the customer's delivered orders
+          ...(productId && { productId }),
         }),
       })
 
@@ -3,6 +3,7 @@
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect } from 'react'
+import { isStaffRole } from '@/lib/auth/permissions'
 
 export default function DashboardRouter() {
   const { data: session, status } = useSession()
@@ -18,7 +19,7 @@ export default function DashboardRouter() {
 
     if (session?.user) {
       // Redirect based on role
-      if (session.user.role === 'admin') {
+      if (isStaffRole(session.user.role)) {
         router.push('/admin/dashboard')
       } else {
         // Redirect regular customers to homepage
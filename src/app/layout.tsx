@@ -3,6 +3,7 @@ import Image from 'next/image'
 import { use } from 'react'
 import { Geist, Geist_Mono } from 'next/font/google'
 import SessionProvider from '@/components/providers/SessionProvider'
+import { CurrencyProvider } from '@/contexts/CurrencyContext'
 import './globals.css'
 import '../styles/auth.css'
 import '../styles/rtl.css'
@@ -108,7 +109,9 @@ function RootLayout({ children }: { children: React.ReactNode }) {
       </head>
       <body suppressHydrationWarning={true}>
         <SessionProvider>
-          <HydrationWrapper>{children}</HydrationWrapper>
+          <CurrencyProvider>
+            <HydrationWrapper>{children}</HydrationWrapper>
+          </CurrencyProvider>
         </SessionProvider>
       </body>
     </html>
@@ -5,8 +5,8 @@ import { useSearchParams } from 'next/navigation'
 import CustomerLayout from './customer-layout'
 import AnimatedSection from '@/components/AnimatedSection'
 import HeroSection from '@/components/customer/HeroSection'
-// import PackagesSection from '@/components/customer/PackagesSection'
-// import StoreStats from '@/components/customer/StoreStats'
+import PackagesSection from '@/components/customer/PackagesSection'
+import StoreStats from '@/components/customer/StoreStats'
 import CategoriesWithProducts from '@/components/customer/CategoriesWithProducts'
 import CategoriesBanner from '@/components/customer/CategoriesBanner'
 import CategoriesSection from '@/components/customer/CategoriesSection'
@@ -46,7 +46,12 @@ function HomePageContent() {
       </AnimatedSection>
 
       {/* Packages Section */}
-      {/* <PackagesSection /> */}
+      <PackagesSection />
+
+      {/* Store Stats */}
+      <AnimatedSection animation="fade-up" delay={50}>
+        <StoreStats />
+      </AnimatedSection>
 
       {/* Categories Banner */}
       <AnimatedSection animation="fade-up" delay={100}>
@@ -0,0 +1,37 @@
+import { ReactNode } from 'react'
+import { permanentRedirect } from 'next/navigation'
+import connectDB from '@/lib/db/connection'
+import Product from '@/lib/db/models/Product'
+import { findCurrentSlug } from '@/lib/db/slugHistory'
+
+/**
+ * Product Page Layout
+ *
+ * Server wrapper around the client product page. Links that still use a
+ * previous slug of a product are permanently redirected to its current slug
+ * (Next.js sends its permanent redirect as 308, the method-preserving 301).
+ */
+export default async function ProductSlugLayout({
+  children,
+  params,
+}: {
+  children: ReactNode
+  params: Promise<{ slug: string }>
+}) {
+  const { slug } = await params
+  let currentSlug: string | null = null
+
+  try {
+    await connectDB()
+    currentSlug = await findCurrentSlug(Product, slug, { isActive: true })
+  } catch (error) {
+    // The page itself reports a missing product, so just render it
+    console.error('Product slug redirect lookup failed:', error)
+  }
+
+  if (currentSlug && currentSlug !== slug) {
+    permanentRedirect(`/products/${currentSlug}`)
+  }
+
+  return children
+}
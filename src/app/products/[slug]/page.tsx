@@ -11,7 +11,10 @@ import AddToCartButton from '@/components/ui/AddToCartButton'
 import Breadcrumb from '@/components/ui/Breadcrumb'
 import CustomizationForm, { CustomizationFormRef } from '@/components/ui/CustomizationForm'
 import { CartItemCustomization } from '@/contexts/CartContext'
+import { useCurrency } from '@/contexts/CurrencyContext'
+import type { ICustomizationField } from '@/lib/db/models/Product'
 import ColorPicker from '@/components/ui/ColorPicker'
+import ProductReviews from '@/components/customer/ProductReviews'
 import './product-details.css'
 
 interface ProductImage {
@@ -38,6 +41,7 @@ interface Product {
   allowTextEditing: boolean
   allowImageReplacement: boolean
   allowLogoUpload: boolean
+  customizationFields?: ICustomizationField[]
   colors: ProductColor[]
   category: {
     _id: string
@@ -68,6 +72,7 @@ interface RelatedProduct {
 }
 
 export default function ProductDetailsPage() {
+  const { formatPrice } = useCurrency()
   const params = useParams()
   const slug = params?.slug as string
   const [product, setProduct] = useState<Product | null>(null)
@@ -272,22 +277,28 @@ export default function ProductDetailsPage() {
                   </span>
                 ))}
               </div>
-              <span className="pd-rating-text">{product.rating}</span>
-              <span className="pd-review-count">({product.reviewCount} تقييم)</span>
+              {product.reviewCount > 0 ? (
+                <>
+                  <span className="pd-rating-text">{product.rating}</span>
+                  <span className="pd-review-count">({product.reviewCount} تقييم)</span>
+                </>
+              ) : (
+                <span className="pd-review-count">لا توجد تقييمات بعد</span>
+              )}
             </div>
 
             {/* Pricing */}
             <div className="pd-product-pricing">
               <div className="pd-pricing-row">
                 <div className="pd-prices-column">
-                  <span className="pd-current-price">${product.finalPrice}</span>
-                  {product.isOnSale && <span className="pd-original-price">${product.price}</span>}
+                  <span className="pd-current-price">{formatPrice(product.finalPrice)}</span>
+                  {product.isOnSale && <span className="pd-original-price">{formatPrice(product.price)}</span>}
                 </div>
                 <div className="pd-discount-savings-column">
                   {product.isOnSale && (
                     <>
                       <span className="pd-discount-text">{discountPercentage}% خصم</span>
-                      <span className="pd-savings-badge">وفرت ${(product.price - product.finalPrice).toFixed(2)}</span>
+                      <span className="pd-savings-badge">وفرت {formatPrice(product.price - product.finalPrice)}</span>
                     </>
                   )}
                 </div>
@@ -306,6 +317,7 @@ export default function ProductDetailsPage() {
                   allowTextEditing={product.allowTextEditing}
                   allowImageReplacement={product.allowImageReplacement}
                   allowLogoUpload={product.allowLogoUpload}
+                  customizationFields={product.customizationFields}
                   onCustomizationChange={handleCustomizationsChange}
                   initialCustomizations={customizations}
                 />
@@ -421,6 +433,7 @@ export default function ProductDetailsPage() {
                   colors: product.colors || [],
                 }}
                 onAddToCart={handleAddToCart}
+                canAddToCart={() => customizationFormRef.current?.validate() ?? true}
               />
               <div className="pd-action-buttons">
                 <button className="pd-action-btn" title="إضافة للمفضلة">
@@ -434,6 +447,9 @@ export default function ProductDetailsPage() {
           </div>
         </div>
 
+        {/* Product Reviews */}
+        <ProductReviews slug={product.slug} />
+
         {/* Related Products */}
         {relatedProducts.length > 0 && (
           <div className="pd-related-products">
@@ -476,7 +492,7 @@ export default function ProductDetailsPage() {
                       <span className="rating-text">{relatedProduct.rating}</span>
                     </div>
                     <div className="product-pricing">
-                      <span className="current-price">${relatedProduct.finalPrice}</span>
+                      <span className="current-price">{formatPrice(relatedProduct.finalPrice)}</span>
                     </div>
                   </div>
                 </Link>
@@ -0,0 +1,378 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Image from 'next/image'
+import Link from 'next/link'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faSearch, faStar, faSpinner, faTimes } from '@fortawesome/free-solid-svg-icons'
+import CustomerLayout from '@/app/customer-layout'
+import Breadcrumb from '@/components/ui/Breadcrumb'
+import { useCurrency } from '@/contexts/CurrencyContext'
+import './search.css'
+
+interface SearchProduct {
+  _id: string
+  name: string
+  slug: string
+  images: { url: string; alt?: string }[]
+  categoryId: { _id: string; name: string; slug: string } | null
+  price: number
+  finalPrice: number
+  EnableCustomizations: boolean
+  isOnSale: boolean
+  rating: number
+  reviewCount: number
+}
+
+interface SearchFacets {
+  categories: { id: string; name: string; slug: string; count: number }[]
+  tags: { value: string; count: number }[]
+  priceBuckets: { key: string; label: string; min: number; max?: number; count: number }[]
+  customizable: { yes: number; no: number }
+  onSale: { yes: number; no: number }
+}
+
+interface Pagination {
+  page: number
+  pages: number
+  total: number
+}
+
+const SORT_OPTIONS = [
+  { value: 'relevance', label: 'الأكثر صلة' },
+  { value: 'popular', label: 'الأكثر مبيعاً' },
+  { value: 'rating', label: 'الأعلى تقييماً' },
+  { value: 'newest', label: 'الأحدث' },
+  { value: 'price_asc', label: 'السعر: من الأقل' },
+  { value: 'price_desc', label: 'السعر: من الأعلى' },
+]
+
+function SearchResults() {
+  const { formatPrice } = useCurrency()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [queryInput, setQueryInput] = useState(searchParams.get('q') || '')
+  const [products, setProducts] = useState<SearchProduct[]>([])
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, pages: 1, total: 0 })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // The URL is the single source of truth for the search state
+  const paramsKey = searchParams.toString()
+  const selectedTags = (searchParams.get('tags') || '').split(',').filter(Boolean)
+  const selectedBucket = searchParams.get('priceBucket') || ''
+
+  useEffect(() => {
+    const fetchResults = async () => {
+      try {
+        setLoading(true)
+        setError('')
+
+        const response = await fetch(`/api/search?${paramsKey}`)
+        const data = await response.json()
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.message || 'Failed to search products')
+        }
+
+        setProducts(data.data)
+        setFacets(data.facets)
+        setPagination(data.pagination)
+      } catch (err) {
+        console.error('Error searching products:', err)
+        setError('تعذر تحميل نتائج البحث')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchResults()
+  }, [paramsKey])
+
+  useEffect(() => {
+    setQueryInput(searchParams.get('q') || '')
+  }, [searchParams])
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(paramsKey)
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null || value === '') {
+        next.delete(key)
+      } else {
+        next.set(key, value)
+      }
+    })
+    // Any filter change starts from the first page
+    if (!('page' in changes)) {
+      next.delete('page')
+    }
+    router.push(`/search?${next.toString()}`)
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    updateParams({ q: queryInput.trim() || null })
+  }
+
+  const toggleTag = (tag: string) => {
+    const tags = selectedTags.includes(tag) ? selectedTags.filter((t) => t !== tag) : [...selectedTags, tag]
+    updateParams({ tags: tags.join(',') || null })
+  }
+
+  const toggleBoolean = (key: 'customizable' | 'onSale', value: 'true' | 'false') => {
+    updateParams({ [key]: searchParams.get(key) === value ? null : value })
+  }
+
+  const selectBucket = (bucket: SearchFacets['priceBuckets'][number]) => {
+    updateParams({ priceBucket: selectedBucket === bucket.key ? null : bucket.key, minPrice: null, maxPrice: null })
+  }
+
+  const hasFilters = ['category', 'tags', 'minPrice', 'maxPrice', 'priceBucket', 'customizable', 'onSale'].some((key) => searchParams.has(key))
+  const query = searchParams.get('q')
+
+  return (
+    <div className="container">
+      <div className="search-breadcrumb">
+        <Breadcrumb
+          items={[
+            { label: 'الرئيسية', href: '/' },
+            { label: 'البحث', isActive: true },
+          ]}
+        />
+      </div>
+
+      <form className="search-bar" onSubmit={handleSubmit}>
+        <input
+          type="search"
+          value={queryInput}
+          onChange={(e) => setQueryInput(e.target.value)}
+          placeholder="ابحث عن تصميم، قالب، شعار..."
+          maxLength={200}
+          aria-label="بحث"
+        />
+        <button type="submit">
+          <FontAwesomeIcon icon={faSearch} />
+          بحث
+        </button>
+      </form>
+
+      <div className="search-layout">
+        {/* Facets */}
+        <aside className="search-facets">
+          {hasFilters && (
+            <button
+              type="button"
+              className="search-clear-filters"
+              onClick={() => router.push(query ? `/search?q=${encodeURIComponent(query)}` : '/search')}
+            >
+              <FontAwesomeIcon icon={faTimes} /> مسح الفلاتر
+            </button>
+          )}
+
+          {facets && facets.categories.length > 0 && (
+            <div className="search-facet">
+              <h4>الفئة</h4>
+              {facets.categories.map((category) => (
+                <label key={category.id} className="search-facet-option">
+                  <input
+                    type="radio"
+                    name="category"
+                    checked={searchParams.get('category') === category.slug}
+                    onChange={() => updateParams({ category: category.slug })}
+                  />
+                  <span>{category.name}</span>
+                  <span className="search-facet-count">{category.count}</span>
+                </label>
+              ))}
+              {searchParams.has('category') && (
+                <button type="button" className="search-facet-reset" onClick={() => updateParams({ category: null })}>
+                  كل الفئات
+                </button>
+              )}
+            </div>
+          )}
+
+          {facets && (
+            <div className="search-facet">
+              <h4>السعر</h4>
+              {facets.priceBuckets.map((bucket) => (
+                <label key={bucket.key} className="search-facet-option">
+                  <input
+                    type="checkbox"
+                    checked={selectedBucket === bucket.key}
+                    onChange={() => selectBucket(bucket)}
+                    disabled={bucket.count === 0}
+                  />
+                  <span>{bucket.label}</span>
+                  <span className="search-facet-count">{bucket.count}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {facets && (
+            <div className="search-facet">
+              <h4>التخصيص</h4>
+              <label className="search-facet-option">
+                <input
+                  type="checkbox"
+                  checked={searchParams.get('customizable') === 'true'}
+                  onChange={() => toggleBoolean('customizable', 'true')}
+                />
+                <span>قابل للتخصيص</span>
+                <span className="search-facet-count">{facets.customizable.yes}</span>
+              </label>
+              <label className="search-facet-option">
+                <input
+                  type="checkbox"
+                  checked={searchParams.get('customizable') === 'false'}
+                  onChange={() => toggleBoolean('customizable', 'false')}
+                />
+                <span>تسليم فوري</span>
+                <span className="search-facet-count">{facets.customizable.no}</span>
+              </label>
+            </div>
+          )}
+
+          {facets && (
+            <div className="search-facet">
+              <h4>العروض</h4>
+              <label className="search-facet-option">
+                <input
+                  type="checkbox"
+                  checked={searchParams.get('onSale') === 'true'}
+                  onChange={() => toggleBoolean('onSale', 'true')}
+                />
+                <span>عليه خصم</span>
+                <span className="search-facet-count">{facets.onSale.yes}</span>
+              </label>
+            </div>
+          )}
+
+          {facets && facets.tags.length > 0 && (
+            <div className="search-facet">
+              <h4>الوسوم</h4>
+              <div className="search-tags">
+                {facets.tags.map((tag) => (
+                  <button
+                    key={tag.value}
+                    type="button"
+                    className={`search-tag ${selectedTags.includes(tag.value.toLowerCase()) ? 'active' : ''}`}
+                    onClick={() => toggleTag(tag.value.toLowerCase())}
+                  >
+                    {tag.value} <span>{tag.count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </aside>
+
+        {/* Results */}
+        <section className="search-results">
+          <div className="search-results-header">
+            <p>
+              {loading
+                ? 'جاري البحث...'
+                : query
+                  ? `${pagination.total} نتيجة لـ "${query}"`
+                  : `${pagination.total} منتج`}
+            </p>
+            <select
+              value={searchParams.get('sort') || 'relevance'}
+              onChange={(e) => updateParams({ sort: e.target.value === 'relevance' ? null : e.target.value })}
+              className="search-sort-select"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <div className="search-error">{error}</div>}
+
+          {loading ? (
+            <div className="search-loading">
+              <FontAwesomeIcon icon={faSpinner} spin />
+            </div>
+          ) : products.length === 0 ? (
+            <div className="search-empty">
+              <h3>لا توجد نتائج</h3>
+              <p>جرّب كلمات أخرى أو أزل بعض الفلاتر</p>
+            </div>
+          ) : (
+            <div className="search-grid">
+              {products.map((product) => (
+                <Link key={product._id} href={`/products/${product.slug}`} className="search-card">
+                  <div className="search-card-image">
+                    <Image
+                      src={product.images[0]?.url || '/placeholder-product.jpg'}
+                      alt={product.images[0]?.alt || product.name}
+                      width={300}
+                      height={300}
+                      loading="lazy"
+                    />
+                    <div className="search-card-badges">
+                      {product.isOnSale && <span className="search-badge sale">خصم</span>}
+                      {product.EnableCustomizations && <span className="search-badge custom">قابل للتخصيص</span>}
+                    </div>
+                  </div>
+                  <div className="search-card-content">
+                    <h3>{product.name}</h3>
+                    {product.categoryId && <span className="search-card-category">{product.categoryId.name}</span>}
+                    <div className="search-card-footer">
+                      <span className="search-card-rating">
+                        <FontAwesomeIcon icon={faStar} /> {product.rating.toFixed(1)}
+                        <small>({product.reviewCount})</small>
+                      </span>
+                      <span className="search-card-price">
+                        {formatPrice(product.finalPrice)}
+                        {product.isOnSale && <del>{formatPrice(product.price)}</del>}
+                      </span>
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+
+          {pagination.pages > 1 && (
+            <div className="search-pagination">
+              {Array.from({ length: pagination.pages }, (_, i) => i + 1).map((page) => (
+                <button
+                  key={page}
+                  type="button"
+                  className={page === pagination.page ? 'active' : ''}
+                  onClick={() => updateParams({ page: page === 1 ? null : String(page) })}
+                >
+                  {page}
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
+
+// Main component wrapped with Suspense (useSearchParams needs it)
+export default function SearchPage() {
+  return (
+    <CustomerLayout>
+      <Suspense
+        fallback={
+          <div className="search-loading">
+            <FontAwesomeIcon icon={faSpinner} spin />
+          </div>
+        }
+      >
+        <SearchResults />
+      </Suspense>
+    </CustomerLayout>
+  )
+}
@@ -0,0 +1,653 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faSave, faTimes, faPlus, faArrowUp, faArrowDown, faSearch } from '@fortawesome/free-solid-svg-icons'
+import Image from 'next/image'
+import type { IProductImage } from '@/lib/db/models/Product'
+import type { BundlePricingType } from '@/lib/db/models/Bundle'
+import { generateSlug } from '@/lib/utils/slugUtils'
+import {
+  BUNDLE_PRICING_TYPE_LABELS,
+  calculateBundlePrice,
+  calculateBundleSavingsPercentage,
+} from '@/lib/utils/bundleUtils'
+import './BundleForm.css'
+
+interface Product {
+  _id: string
+  name: string
+  slug: string
+  price: number
+  finalPrice: number
+  images?: IProductImage[]
+  EnableCustomizations?: boolean
+  isActive?: boolean
+}
+
+interface Bundle {
+  _id: string
+  name: string
+  slug: string
+  description?: string
+  productIds: Product[]
+  pricingType: BundlePricingType
+  bundlePrice?: number
+  discountPercentage?: number
+  image?: string
+  icon?: string
+  color?: string
+  features?: string[]
+  order: number
+  isActive: boolean
+  isFeatured: boolean
+}
+
+interface BundleFormProps {
+  bundle?: Bundle | null
+  onSuccess?: () => void
+  onCancel?: () => void
+}
+
+const PRODUCTS_PER_PAGE = 12
+
+export default function BundleForm({ bundle, onSuccess, onCancel }: BundleFormProps) {
+  const [formData, setFormData] = useState({
+    name: '',
+    slug: '',
+    description: '',
+    pricingType: 'percentage' as BundlePricingType,
+    bundlePrice: undefined as number | undefined,
+    discountPercentage: undefined as number | undefined,
+    image: '',
+    icon: '',
+    color: '#8261c6',
+    features: [] as string[],
+    order: 0,
+    isActive: true,
+    isFeatured: false,
+  })
+
+  const [selectedProducts, setSelectedProducts] = useState<Product[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [search, setSearch] = useState('')
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalProducts, setTotalProducts] = useState(0)
+  const [newFeature, setNewFeature] = useState('')
+  const [isSlugManuallyEdited, setIsSlugManuallyEdited] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (bundle) {
+      setFormData({
+        name: bundle.name,
+        slug: bundle.slug,
+        description: bundle.description || '',
+        pricingType: bundle.pricingType,
+        bundlePrice: bundle.bundlePrice,
+        discountPercentage: bundle.discountPercentage,
+        image: bundle.image || '',
+        icon: bundle.icon || '',
+        color: bundle.color || '#8261c6',
+        features: bundle.features || [],
+        order: bundle.order || 0,
+        isActive: bundle.isActive,
+        isFeatured: bundle.isFeatured,
+      })
+      setSelectedProducts(bundle.productIds || [])
+      setIsSlugManuallyEdited(true)
+    }
+  }, [bundle])
+
+  // Reload the product picker when the page or search changes (search is debounced)
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchProducts(currentPage, search), 300)
+    return () => clearTimeout(timeout)
+  }, [currentPage, search])
+
+  const fetchProducts = async (page: number, query: string) => {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PRODUCTS_PER_PAGE) })
+      if (query.trim()) {
+        params.set('search', query.trim())
+      }
+
+      const response = await fetch(`/api/admin/products?${params}`)
+      const data = await response.json()
+      if (response.ok) {
+        setProducts(data.data || [])
+        setTotalProducts(data.pagination?.total || 0)
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    }
+  }
+
+  const individualTotal = selectedProducts.reduce((sum, product) => sum + (product.finalPrice ?? product.price), 0)
+  const previewPrice = calculateBundlePrice(individualTotal, formData)
+  const previewSavings = calculateBundleSavingsPercentage(individualTotal, previewPrice)
+
+  const handleInputChange = (field: string, value: string | number | boolean | string[] | undefined) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleNameChange = (name: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      name,
+      // Only auto-generate slug if it hasn't been manually edited
+      slug: isSlugManuallyEdited ? prev.slug : generateSlug(name),
+    }))
+  }
+
+  const handleProductToggle = (product: Product) => {
+    if (product.EnableCustomizations) return
+
+    setSelectedProducts((prev) =>
+      prev.some((p) => p._id === product._id) ? prev.filter((p) => p._id !== product._id) : [...prev, product]
+    )
+    if (errors.productIds) {
+      setErrors((prev) => ({ ...prev, productIds: '' }))
+    }
+  }
+
+  const moveProduct = (index: number, direction: -1 | 1) => {
+    setSelectedProducts((prev) => {
+      const target = index + direction
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const addFeature = () => {
+    const feature = newFeature.trim()
+    if (!feature || formData.features.includes(feature)) return
+    handleInputChange('features', [...formData.features, feature])
+    setNewFeature('')
+  }
+
+  const removeFeature = (feature: string) => {
+    handleInputChange(
+      'features',
+      formData.features.filter((f) => f !== feature)
+    )
+  }
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (formData.name.trim().length < 2) {
+      newErrors.name = 'اسم البكج يجب أن يكون حرفين على الأقل'
+    }
+
+    if (selectedProducts.length < 2) {
+      newErrors.productIds = 'اختر منتجين على الأقل'
+    }
+
+    if (formData.pricingType === 'fixed') {
+      if (formData.bundlePrice === undefined || isNaN(formData.bundlePrice) || formData.bundlePrice < 0) {
+        newErrors.bundlePrice = 'سعر البكج مطلوب'
+      } else if (selectedProducts.length > 0 && formData.bundlePrice >= individualTotal) {
+        newErrors.bundlePrice = 'سعر البكج يجب أن يكون أقل من مجموع أسعار المنتجات'
+      }
+    }
+
+    if (formData.pricingType === 'percentage') {
+      if (
+        formData.discountPercentage === undefined ||
+        isNaN(formData.discountPercentage) ||
+        formData.discountPercentage <= 0 ||
+        formData.discountPercentage > 100
+      ) {
+        newErrors.discountPercentage = 'نسبة الخصم يجب أن تكون بين 1 و 100'
+      }
+    }
+
+    if (formData.color && !/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(formData.color)) {
+      newErrors.color = 'لون غير صالح'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  // Error message translations
+  const getErrorMessage = (error: string) => {
+    const errorMessages: Record<string, string> = {
+      'A bundle needs at least two different products': 'البكج يحتاج منتجين مختلفين على الأقل',
+      'One or more products not found': 'بعض المنتجات غير موجودة',
+      'Bundle not found': 'البكج غير موجود',
+      'Invalid input data': 'بيانات غير صالحة',
+    }
+
+    if (error.startsWith('Customizable products cannot be bundled')) {
+      return 'المنتجات القابلة للتخصيص لا يمكن إضافتها لبكج'
+    }
+
+    return errorMessages[error] || error || 'حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.'
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setLoading(true)
+    setErrors({})
+
+    try {
+      const url = bundle ? `/api/admin/bundles/${bundle._id}` : '/api/admin/bundles'
+      const method = bundle ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...formData,
+          productIds: selectedProducts.map((product) => product._id),
+          bundlePrice: formData.pricingType === 'fixed' ? formData.bundlePrice : undefined,
+          discountPercentage: formData.pricingType === 'percentage' ? formData.discountPercentage : undefined,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setErrors({ submit: getErrorMessage(data.message || 'Failed to save bundle') })
+        return
+      }
+
+      if (onSuccess) {
+        onSuccess()
+      }
+    } catch (error) {
+      console.error('Error saving bundle:', error)
+      setErrors({ submit: 'حدث خطأ في الاتصال. يرجى المحاولة مرة أخرى.' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const totalPages = Math.ceil(totalProducts / PRODUCTS_PER_PAGE)
+
+  return (
+    <form onSubmit={handleSubmit} className="bundle-form">
+      {errors.submit && (
+        <div className="bundle-form-error">
+          {errors.submit}
+          <button type="button" onClick={() => setErrors({})} className="error-close">
+            <FontAwesomeIcon icon={faTimes} />
+          </button>
+        </div>
+      )}
+
+      {/* Basic Information Section */}
+      <div className="bundle-form-section">
+        <h3 className="bundle-section-title">المعلومات الأساسية</h3>
+
+        <div className="bundle-form-row">
+          <div className="bundle-form-group">
+            <label htmlFor="name">اسم البكج *</label>
+            <input
+              type="text"
+              id="name"
+              value={formData.name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              className={errors.name ? 'error' : ''}
+              placeholder="مثال: بكج الهوية الكاملة"
+              maxLength={150}
+            />
+            {errors.name && <span className="field-error">{errors.name}</span>}
+          </div>
+
+          <div className="bundle-form-group">
+            <label htmlFor="slug">رابط البكج</label>
+            <input
+              type="text"
+              id="slug"
+              value={formData.slug}
+              onChange={(e) => {
+                setIsSlugManuallyEdited(true)
+                // Arabic or other characters are transliterated to a valid slug
+                const slug = /[^a-z0-9-]/.test(e.target.value) ? generateSlug(e.target.value) : e.target.value
+                handleInputChange('slug', slug)
+              }}
+              placeholder="bundle-slug"
+            />
+            <small className="form-help">سيتم استخدامه في الرابط: /bundles/{formData.slug}</small>
+          </div>
+        </div>
+
+        <div className="bundle-form-group">
+          <label htmlFor="description">الوصف</label>
+          <textarea
+            id="description"
+            value={formData.description}
+            onChange={(e) => handleInputChange('description', e.target.value)}
+            placeholder="وصف مختصر لمحتوى البكج"
+            maxLength={2000}
+            rows={3}
+          />
+        </div>
+      </div>
+
+      {/* Products Section */}
+      <div className="bundle-form-section">
+        <h3 className="bundle-section-title">منتجات البكج *</h3>
+
+        {selectedProducts.length > 0 && (
+          <div className="bundle-selected-products">
+            <h4>المنتجات المحددة ({selectedProducts.length})</h4>
+            {selectedProducts.map((product, index) => (
+              <div key={product._id} className="bundle-selected-product">
+                <span className="bundle-product-position">{index + 1}</span>
+                <span className="bundle-product-name">
+                  {product.name}
+                  {product.isActive === false && <small className="inactive-note"> (غير نشط)</small>}
+                </span>
+                <span className="bundle-product-price">${(product.finalPrice ?? product.price).toFixed(2)}</span>
+                <div className="bundle-product-actions">
+                  <button type="button" onClick={() => moveProduct(index, -1)} disabled={index === 0} title="تحريك للأعلى">
+                    <FontAwesomeIcon icon={faArrowUp} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveProduct(index, 1)}
+                    disabled={index === selectedProducts.length - 1}
+                    title="تحريك للأسفل"
+                  >
+                    <FontAwesomeIcon icon={faArrowDown} />
+                  </button>
+                  <button type="button" onClick={() => handleProductToggle(product)} title="إزالة المنتج">
+                    <FontAwesomeIcon icon={faTimes} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {errors.productIds && <span className="field-error">{errors.productIds}</span>}
+
+        <div className="bundle-product-search">
+          <FontAwesomeIcon icon={faSearch} />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value)
+              setCurrentPage(1)
+            }}
+            placeholder="ابحث عن منتج..."
+          />
+        </div>
+
+        <div className="bundle-product-grid">
+          {products.map((product) => {
+            const isSelected = selectedProducts.some((p) => p._id === product._id)
+            return (
+              <label
+                key={product._id}
+                className={`bundle-product-option ${isSelected ? 'selected' : ''} ${product.EnableCustomizations ? 'disabled' : ''}`}
+                title={product.EnableCustomizations ? 'المنتجات القابلة للتخصيص تباع منفردة فقط' : undefined}
+              >
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  disabled={product.EnableCustomizations}
+                  onChange={() => handleProductToggle(product)}
+                />
+                {product.images?.[0]?.url && (
+                  <Image
+                    src={product.images[0].url}
+                    alt={product.images[0].alt || product.name}
+                    width={50}
+                    height={50}
+                    className="bundle-product-thumbnail"
+                  />
+                )}
+                <div className="bundle-product-info">
+                  <span className="bundle-product-name">{product.name}</span>
+                  <span className="bundle-product-price">${(product.finalPrice ?? product.price).toFixed(2)}</span>
+                  {product.EnableCustomizations && <small className="inactive-note">قابل للتخصيص</small>}
+                </div>
+              </label>
+            )
+          })}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="bundle-pagination">
+            <button type="button" disabled={currentPage === 1} onClick={() => setCurrentPage(currentPage - 1)}>
+              السابق
+            </button>
+            <span>
+              صفحة {currentPage} من {totalPages}
+            </span>
+            <button type="button" disabled={currentPage >= totalPages} onClick={() => setCurrentPage(currentPage + 1)}>
+              التالي
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Pricing Section */}
+      <div className="bundle-form-section">
+        <h3 className="bundle-section-title">التسعير</h3>
+
+        <div className="bundle-form-row">
+          <div className="bundle-form-group">
+            <label htmlFor="pricingType">طريقة التسعير *</label>
+            <select
+              id="pricingType"
+              value={formData.pricingType}
+              onChange={(e) => handleInputChange('pricingType', e.target.value)}
+            >
+              {Object.entries(BUNDLE_PRICING_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {formData.pricingType === 'fixed' ? (
+            <div className="bundle-form-group">
+              <label htmlFor="bundlePrice">سعر البكج ($) *</label>
+              <input
+                type="number"
+                id="bundlePrice"
+                value={formData.bundlePrice ?? ''}
+                onChange={(e) =>
+                  handleInputChange('bundlePrice', e.target.value ? parseFloat(e.target.value) : undefined)
+                }
+                className={errors.bundlePrice ? 'error' : ''}
+                min="0"
+                step="0.01"
+              />
+              {errors.bundlePrice && <span className="field-error">{errors.bundlePrice}</span>}
+            </div>
+          ) : (
+            <div className="bundle-form-group">
+              <label htmlFor="discountPercentage">نسبة الخصم (%) *</label>
+              <input
+                type="number"
+                id="discountPercentage"
+                value={formData.discountPercentage ?? ''}
+                onChange={(e) =>
+                  handleInputChange('discountPercentage', e.target.value ? parseFloat(e.target.value) : undefined)
+                }
+                className={errors.discountPercentage ? 'error' : ''}
+                min="0"
+                max="100"
+                step="1"
+              />
+              {errors.discountPercentage && <span className="field-error">{errors.discountPercentage}</span>}
+            </div>
+          )}
+        </div>
+
+        <div className="bundle-price-preview">
+          <div>
+            <span>مجموع أسعار المنتجات</span>
+            <strong>${individualTotal.toFixed(2)}</strong>
+          </div>
+          <div>
+            <span>سعر البكج</span>
+            <strong>${previewPrice.toFixed(2)}</strong>
+          </div>
+          <div>
+            <span>التوفير</span>
+            <strong>{previewSavings}%</strong>
+          </div>
+        </div>
+        <small className="form-help">يتبع سعر البكج أسعار المنتجات الحالية، ولا تنطبق أكواد الخصم على البكجات</small>
+      </div>
+
+      {/* Presentation Section */}
+      <div className="bundle-form-section">
+        <h3 className="bundle-section-title">طريقة العرض</h3>
+
+        <div className="bundle-form-row">
+          <div className="bundle-form-group">
+            <label htmlFor="icon">الأيقونة</label>
+            <input
+              type="text"
+              id="icon"
+              value={formData.icon}
+              onChange={(e) => handleInputChange('icon', e.target.value)}
+              placeholder="🎨"
+              maxLength={10}
+            />
+          </div>
+
+          <div className="bundle-form-group">
+            <label htmlFor="color">اللون</label>
+            <div className="bundle-color-input">
+              <input
+                type="color"
+                value={/^#[A-Fa-f0-9]{6}$/.test(formData.color) ? formData.color : '#8261c6'}
+                onChange={(e) => handleInputChange('color', e.target.value)}
+              />
+              <input
+                type="text"
+                id="color"
+                value={formData.color}
+                onChange={(e) => handleInputChange('color', e.target.value)}
+                className={errors.color ? 'error' : ''}
+              />
+            </div>
+            {errors.color && <span className="field-error">{errors.color}</span>}
+          </div>
+        </div>
+
+        <div className="bundle-form-group">
+          <label htmlFor="image">رابط الصورة</label>
+          <input
+            type="url"
+            id="image"
+            value={formData.image}
+            onChange={(e) => handleInputChange('image', e.target.value)}
+            placeholder="https://..."
+          />
+          <small className="form-help">اتركه فارغاً لاستخدام صورة أول منتج</small>
+        </div>
+
+        <div className="bundle-form-group">
+          <label htmlFor="newFeature">المميزات</label>
+          <div className="bundle-feature-input">
+            <input
+              type="text"
+              id="newFeature"
+              value={newFeature}
+              onChange={(e) => setNewFeature(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  addFeature()
+                }
+              }}
+              placeholder="مثال: ملفات قابلة للتعديل"
+              maxLength={100}
+            />
+            <button type="button" onClick={addFeature} disabled={formData.features.length >= 10}>
+              <FontAwesomeIcon icon={faPlus} />
+            </button>
+          </div>
+          {formData.features.length > 0 && (
+            <ul className="bundle-features-list">
+              {formData.features.map((feature) => (
+                <li key={feature}>
+                  {feature}
+                  <button type="button" onClick={() => removeFeature(feature)} title="حذف">
+                    <FontAwesomeIcon icon={faTimes} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Status Section */}
+      <div className="bundle-form-section">
+        <h3 className="bundle-section-title">الحالة والترتيب</h3>
+
+        <div className="bundle-form-row">
+          <div className="bundle-form-group">
+            <label htmlFor="order">ترتيب العرض</label>
+            <input
+              type="number"
+              id="order"
+              value={formData.order}
+              onChange={(e) => handleInputChange('order', parseInt(e.target.value) || 0)}
+              min="0"
+            />
+          </div>
+
+          <div className="bundle-form-group bundle-checkboxes">
+            <label className="bundle-checkbox">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => handleInputChange('isActive', e.target.checked)}
+              />
+              نشط (يظهر في المتجر)
+            </label>
+            <label className="bundle-checkbox">
+              <input
+                type="checkbox"
+                checked={formData.isFeatured}
+                onChange={(e) => handleInputChange('isFeatured', e.target.checked)}
+              />
+              مميز (يظهر في الصفحة الرئيسية)
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Form Actions */}
+      <div className="bundle-form-actions">
+        <button type="button" onClick={onCancel} className="btn btn-secondary" disabled={loading}>
+          <FontAwesomeIcon icon={faTimes} />
+          إلغاء
+        </button>
+
+        <button type="submit" className="btn btn-primary" disabled={loading}>
+          <FontAwesomeIcon icon={faSave} />
+          {loading ? 'جاري الحفظ...' : bundle ? 'تحديث' : 'إنشاء'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import Image from 'next/image'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { faCloudUploadAlt, faTimes } from '@fortawesome/free-solid-svg-icons'
+import { generateSlug } from '@/lib/utils/slugUtils'
 import './CategoryForm.css'
 
 interface Category {
@@ -64,15 +65,6 @@ export default function CategoryForm({ category, onSave, onCancel }: CategoryFor
     }
   }, [category])
 
-  const generateSlug = (name: string) => {
-    return name
-      .toLowerCase()
-      .trim()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/[\s_-]+/g, '-')
-      .replace(/^-+|-+$/g, '')
-  }
-
   const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const name = e.target.value
     setFormData((prev) => ({
@@ -260,13 +252,15 @@ export default function CategoryForm({ category, onSave, onCancel }: CategoryFor
             value={formData.slug}
             onChange={(e) => {
               setIsSlugManuallyEdited(true)
-              setFormData((prev) => ({ ...prev, slug: e.target.value }))
+              // Arabic or other characters are transliterated to a valid slug
+              const slug = /[^a-z0-9-]/.test(e.target.value) ? generateSlug(e.target.value) : e.target.value
+              setFormData((prev) => ({ ...prev, slug }))
             }}
             required
-            placeholder="رابط-التصنيف"
+            placeholder="category-slug"
             className="form-input"
           />
-          <small className="form-help">سيتم استخدامه في الرابط: /category/{formData.slug}</small>
+          <small className="form-help">سيتم استخدامه في الرابط: /categories/{formData.slug}</small>
         </div>
 
         <div className="form-group full-width">
@@ -0,0 +1,236 @@
+'use client'
+
+import React from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faArrowDown, faArrowUp, faPlus, faTrash } from '@fortawesome/free-solid-svg-icons'
+import type { CustomizationFieldType, ICustomizationField } from '@/lib/db/models/Product'
+import { CUSTOMIZATION_FIELD_TYPES, CUSTOMIZATION_FIELD_TYPE_LABELS } from '@/lib/utils/customizationFields'
+import './CustomizationFieldsEditor.css'
+
+interface CustomizationFieldsEditorProps {
+  fields: ICustomizationField[]
+  onChange: (fields: ICustomizationField[]) => void
+}
+
+// Next free "field_N" key, so new fields always have a valid unique key
+const nextFieldKey = (fields: ICustomizationField[]) => {
+  let index = fields.length + 1
+  while (fields.some(field => field.key === `field_${index}`)) {
+    index++
+  }
+  return `field_${index}`
+}
+
+const parseOptionalNumber = (value: string) => {
+  const parsed = parseInt(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+export default function CustomizationFieldsEditor({ fields, onChange }: CustomizationFieldsEditorProps) {
+  const updateField = (index: number, changes: Partial<ICustomizationField>) => {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)))
+  }
+
+  const changeType = (index: number, type: CustomizationFieldType) => {
+    // Drop settings that only apply to the previous type
+    const { key, label, required, helpText } = fields[index]
+    updateField(index, {
+      type,
+      maxLength: undefined,
+      options: type === 'select' ? [''] : undefined,
+      minWidth: undefined,
+      minHeight: undefined,
+      key,
+      label,
+      required,
+      helpText
+    })
+  }
+
+  const addField = () => {
+    onChange([...fields, { key: nextFieldKey(fields), label: '', type: 'text', required: false }])
+  }
+
+  const removeField = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index))
+  }
+
+  const moveField = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= fields.length) return
+    const next = [...fields]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const updateOption = (fieldIndex: number, optionIndex: number, value: string) => {
+    const options = [...(fields[fieldIndex].options || [])]
+    options[optionIndex] = value
+    updateField(fieldIndex, { options })
+  }
+
+  const duplicateKeys = new Set(
+    fields.map(field => field.key).filter((key, index, keys) => keys.indexOf(key) !== index)
+  )
+
+  return (
+    <div className="customization-fields-editor">
+      <h3>حقول التخصيص</h3>
+      <p className="section-description">
+        عرّف المدخلات التي يحتاجها هذا القالب بالضبط. عند إضافة حقول تظهر للعميل بدلاً من خيارات التخصيص العامة.
+      </p>
+
+      {fields.map((field, index) => (
+        <div key={index} className="customization-field-item">
+          <div className="customization-field-header">
+            <span className="customization-field-type-badge">{CUSTOMIZATION_FIELD_TYPE_LABELS[field.type]}</span>
+            <div className="customization-field-actions">
+              <button type="button" onClick={() => moveField(index, -1)} disabled={index === 0} title="تحريك للأعلى">
+                <FontAwesomeIcon icon={faArrowUp} />
+              </button>
+              <button type="button" onClick={() => moveField(index, 1)} disabled={index === fields.length - 1} title="تحريك للأسفل">
+                <FontAwesomeIcon icon={faArrowDown} />
+              </button>
+              <button type="button" onClick={() => removeField(index)} className="remove-field-btn" title="حذف الحقل">
+                <FontAwesomeIcon icon={faTrash} />
+              </button>
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>اسم الحقل (يظهر للعميل)</label>
+              <input
+                type="text"
+                value={field.label}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+                placeholder="مثال: اسم الفريق"
+                maxLength={100}
+              />
+            </div>
+            <div className="form-group">
+              <label>المعرّف</label>
+              <input
+                type="text"
+                value={field.key}
+                onChange={(e) => updateField(index, { key: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })}
+                placeholder="team_name"
+                maxLength={50}
+                dir="ltr"
+              />
+              {duplicateKeys.has(field.key) && <small className="customization-field-error">المعرّف مستخدم في حقل آخر</small>}
+            </div>
+            <div className="form-group">
+              <label>النوع</label>
+              <select value={field.type} onChange={(e) => changeType(index, e.target.value as CustomizationFieldType)}>
+                {CUSTOMIZATION_FIELD_TYPES.map(type => (
+                  <option key={type} value={type}>{CUSTOMIZATION_FIELD_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {field.type === 'text' && (
+            <div className="form-group">
+              <label>الحد الأقصى لعدد الأحرف</label>
+              <input
+                type="number"
+                value={field.maxLength ?? ''}
+                onChange={(e) => updateField(index, { maxLength: parseOptionalNumber(e.target.value) })}
+                min="1"
+                max="5000"
+                placeholder="بدون حد"
+              />
+            </div>
+          )}
+
+          {(field.type === 'image' || field.type === 'logo') && (
+            <div className="form-row">
+              <div className="form-group">
+                <label>أقل عرض (بكسل)</label>
+                <input
+                  type="number"
+                  value={field.minWidth ?? ''}
+                  onChange={(e) => updateField(index, { minWidth: parseOptionalNumber(e.target.value) })}
+                  min="0"
+                  placeholder="بدون حد"
+                />
+              </div>
+              <div className="form-group">
+                <label>أقل ارتفاع (بكسل)</label>
+                <input
+                  type="number"
+                  value={field.minHeight ?? ''}
+                  onChange={(e) => updateField(index, { minHeight: parseOptionalNumber(e.target.value) })}
+                  min="0"
+                  placeholder="بدون حد"
+                />
+              </div>
+            </div>
+          )}
+
+          {field.type === 'select' && (
+            <div className="form-group">
+              <label>الخيارات</label>
+              {(field.options || []).map((option, optionIndex) => (
+                <div key={optionIndex} className="customization-field-option">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                    placeholder={`الخيار ${optionIndex + 1}`}
+                    maxLength={100}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateField(index, { options: (field.options || []).filter((_, i) => i !== optionIndex) })}
+                    className="remove-field-btn"
+                  >
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => updateField(index, { options: [...(field.options || []), ''] })}
+                className="add-option-btn"
+              >
+                <FontAwesomeIcon icon={faPlus} />
+                إضافة خيار
+              </button>
+            </div>
+          )}
+
+          {field.type === 'color' && (
+            <p className="customization-field-hint">يختار العميل من ألوان المنتج المعرّفة أدناه، أو أي لون إذا لم تُعرّف ألوان.</p>
+          )}
+
+          <div className="form-group">
+            <label>نص مساعد (اختياري)</label>
+            <input
+              type="text"
+              value={field.helpText || ''}
+              onChange={(e) => updateField(index, { helpText: e.target.value })}
+              placeholder="مثال: اكتب الاسم كما تريد ظهوره على التصميم"
+              maxLength={300}
+            />
+          </div>
+
+          <label className="customization-field-required">
+            <input
+              type="checkbox"
+              checked={field.required}
+              onChange={(e) => updateField(index, { required: e.target.checked })}
+            />
+            حقل إلزامي
+          </label>
+        </div>
+      ))}
+
+      <button type="button" onClick={addField} className="add-color-btn">
+        <FontAwesomeIcon icon={faPlus} />
+        إضافة حقل تخصيص
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faMoneyBillWave, faRefresh, faSpinner, faTimesCircle } from '@fortawesome/free-solid-svg-icons'
+import './OrderRefunds.css'
+
+interface OrderRefundsProps {
+  orderId: string
+  onRefunded?: () => void
+}
+
+interface RefundableItem {
+  itemIndex: number
+  productId: string
+  productName: string
+  quantity: number
+  amount: number
+  refundedAt: string | null
+}
+
+interface RefundEntry {
+  _id: string
+  amount: number
+  currency: string
+  items: Array<{ itemIndex: number; productName: string; amount: number }>
+  paypalRefundId?: string
+  status: 'pending' | 'completed' | 'failed'
+  source: 'admin' | 'paypal'
+  reason?: string
+  actor: string
+  error?: string
+  createdAt: string
+  completedAt?: string
+}
+
+interface RefundLedgerData {
+  paymentStatus: string
+  totalPrice: number
+  refundedAmount: number
+  refundableAmount: number
+  items: RefundableItem[]
+  refunds: RefundEntry[]
+}
+
+const refundStatusLabels: Record<RefundEntry['status'], string> = {
+  pending: 'قيد المعالجة',
+  completed: 'مكتمل',
+  failed: 'فشل',
+}
+
+export default function OrderRefunds({ orderId, onRefunded }: OrderRefundsProps) {
+  const [ledger, setLedger] = useState<RefundLedgerData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedItems, setSelectedItems] = useState<number[]>([])
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('')
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to fetch refunds')
+      }
+
+      setLedger(data.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch refunds')
+    } finally {
+      setLoading(false)
+    }
+  }, [orderId])
+
+  useEffect(() => {
+    fetchLedger()
+  }, [fetchLedger])
+
+  const toggleItem = (itemIndex: number) => {
+    setSelectedItems(prev =>
+      prev.includes(itemIndex) ? prev.filter(index => index !== itemIndex) : [...prev, itemIndex]
+    )
+  }
+
+  const selectedTotal = ledger
+    ? ledger.items.filter(item => selectedItems.includes(item.itemIndex)).reduce((sum, item) => sum + item.amount, 0)
+    : 0
+
+  const handleRefund = async () => {
+    if (!ledger) return
+
+    const refundAmount = amount ? parseFloat(amount) : undefined
+    if (selectedItems.length === 0 && !refundAmount) {
+      setError('اختر العناصر المراد استردادها أو أدخل مبلغاً')
+      return
+    }
+
+    const displayAmount = refundAmount ?? Math.min(selectedTotal, ledger.refundableAmount)
+    if (!confirm(`هل أنت متأكد من استرداد مبلغ $${displayAmount.toFixed(2)} عبر PayPal؟`)) {
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          itemIndexes: selectedItems.length > 0 ? selectedItems : undefined,
+          amount: refundAmount,
+          reason: reason.trim() || undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to process refund')
+      }
+
+      setSelectedItems([])
+      setAmount('')
+      setReason('')
+      await fetchLedger()
+      onRefunded?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process refund')
+      await fetchLedger()
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('ar-SA', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const canRefund = ledger
+    && ['paid', 'partially_refunded'].includes(ledger.paymentStatus)
+    && ledger.refundableAmount > 0
+
+  return (
+    <div className="order-refunds">
+      <div className="order-refunds-header">
+        <h3>المبالغ المستردة</h3>
+        <button onClick={fetchLedger} className="btn btn-secondary" disabled={loading}>
+          {loading ? <FontAwesomeIcon icon={faSpinner} spin /> : <FontAwesomeIcon icon={faRefresh} />}
+          {loading ? 'جاري التحميل...' : 'تحديث'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="alert alert-danger">
+          <FontAwesomeIcon icon={faTimesCircle} />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {ledger && (
+        <>
+          <div className="order-refunds-summary">
+            <div>
+              <span>إجمالي الطلب</span>
+              <strong>${ledger.totalPrice.toFixed(2)}</strong>
+            </div>
+            <div>
+              <span>المبلغ المسترد</span>
+              <strong>${ledger.refundedAmount.toFixed(2)}</strong>
+            </div>
+            <div>
+              <span>المتبقي للاسترداد</span>
+              <strong>${ledger.refundableAmount.toFixed(2)}</strong>
+            </div>
+          </div>
+
+          {canRefund && (
+            <div className="order-refunds-form">
+              <h4>استرداد عناصر أو مبلغ</h4>
+              <div className="order-refunds-items">
+                {ledger.items.map(item => (
+                  <label
+                    key={item.itemIndex}
+                    className={`order-refunds-item ${item.refundedAt ? 'refunded' : ''}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedItems.includes(item.itemIndex)}
+                      disabled={!!item.refundedAt || submitting}
+                      onChange={() => toggleItem(item.itemIndex)}
+                    />
+                    <span className="order-refunds-item-name">
+                      {item.productName} × {item.quantity}
+                    </span>
+                    <span className="order-refunds-item-amount">
+                      {item.refundedAt ? 'تم الاسترداد' : `$${item.amount.toFixed(2)}`}
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="order-refunds-fields">
+                <label>
+                  المبلغ (اختياري)
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    max={ledger.refundableAmount}
+                    value={amount}
+                    placeholder={selectedItems.length > 0 ? selectedTotal.toFixed(2) : ledger.refundableAmount.toFixed(2)}
+                    onChange={e => setAmount(e.target.value)}
+                    disabled={submitting}
+                  />
+                </label>
+                <label>
+                  السبب
+                  <input
+                    type="text"
+                    maxLength={500}
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                    disabled={submitting}
+                  />
+                </label>
+              </div>
+
+              <button onClick={handleRefund} className="btn btn-primary" disabled={submitting}>
+                {submitting ? <FontAwesomeIcon icon={faSpinner} spin /> : <FontAwesomeIcon icon={faMoneyBillWave} />}
+                {submitting ? 'جاري الاسترداد...' : 'استرداد عبر PayPal'}
+              </button>
+            </div>
+          )}
+
+          <div className="order-refunds-ledger">
+            <h4>سجل الاسترداد</h4>
+            {ledger.refunds.length === 0 ? (
+              <p className="order-refunds-empty">لا توجد عمليات استرداد لهذا الطلب.</p>
+            ) : (
+              <table>
+                <thead>
+                  <tr>
+                    <th>التاريخ</th>
+                    <th>المبلغ</th>
+                    <th>العناصر</th>
+                    <th>الحالة</th>
+                    <th>المصدر</th>
+                    <th>معرف الاسترداد</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...ledger.refunds].reverse().map(refund => (
+                    <tr key={refund._id}>
+                      <td>{formatDate(refund.completedAt || refund.createdAt)}</td>
+                      <td>${refund.amount.toFixed(2)}</td>
+                      <td>
+                        {refund.items.length > 0 ? refund.items.map(item => item.productName).join('، ') : '—'}
+                        {refund.reason && <div className="order-refunds-reason">{refund.reason}</div>}
+                      </td>
+                      <td>
+                        <span className={`order-refunds-status ${refund.status}`}>
+                          {refundStatusLabels[refund.status]}
+                        </span>
+                        {refund.error && <div className="order-refunds-error">{refund.error}</div>}
+                      </td>
+                      <td>{refund.source === 'paypal' ? 'PayPal' : refund.actor}</td>
+                      <td>
+                        <code>{refund.paypalRefundId || '—'}</code>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
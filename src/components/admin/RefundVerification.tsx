@@ -90,6 +90,8 @@ export default function RefundVerification({ orderId }: RefundVerificationProps)
     switch (status) {
       case 'fully_refunded':
         return { message: 'تم الاسترداد بالكامل', className: 'refund-status success' }
+      case 'partially_refunded':
+        return { message: 'تم الاسترداد جزئياً', className: 'refund-status warning' }
       case 'refund_attempted':
         return { message: 'تمت محاولة الاسترداد', className: 'refund-status warning' }
       case 'not_refunded':
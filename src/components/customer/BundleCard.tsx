@@ -0,0 +1,77 @@
+'use client'
+
+import Link from 'next/link'
+import AddToCartButton from '@/components/ui/AddToCartButton'
+import { useCurrency } from '@/contexts/CurrencyContext'
+import type { PublicBundle } from '@/lib/services/bundleService'
+
+interface BundleCardProps {
+  bundle: PublicBundle
+}
+
+// Cart entry for a bundle; checkout expands it into one order item per product
+export function getBundleCartProduct(bundle: PublicBundle) {
+  return {
+    id: bundle._id,
+    name: bundle.name,
+    price: bundle.price,
+    originalPrice: bundle.originalPrice,
+    image: bundle.image || '',
+    EnableCustomizations: false,
+    bundle: {
+      slug: bundle.slug,
+      products: bundle.products.map((product) => ({
+        id: product._id,
+        name: product.name,
+        slug: product.slug,
+        price: product.price,
+      })),
+    },
+  }
+}
+
+export default function BundleCard({ bundle }: BundleCardProps) {
+  const { formatPrice } = useCurrency()
+  // Cards list the bundle's own features, or its products when none are set
+  const features = bundle.features.length > 0 ? bundle.features : bundle.products.map((product) => product.name)
+
+  return (
+    <div className="package-card card-neon">
+      <div className="package-header">
+        <div className="package-icon" style={{ backgroundColor: bundle.color || 'var(--neon-purple)' }}>
+          {bundle.icon || '📦'}
+        </div>
+        <h3 className="package-name">{bundle.name}</h3>
+        {bundle.description && <p className="package-description">{bundle.description}</p>}
+      </div>
+
+      <div className="package-features">
+        <ul>
+          {features.map((feature, index) => (
+            <li key={index} className="feature-item">
+              <span className="feature-icon">✓</span>
+              {feature}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="package-pricing">
+        <div className="price-container">
+          {bundle.originalPrice > bundle.price && (
+            <span className="original-price">{formatPrice(bundle.originalPrice)}</span>
+          )}
+          <span className="discounted-price">{formatPrice(bundle.price)}</span>
+        </div>
+        {bundle.savingsPercentage > 0 && <div className="discount-badge">{bundle.savingsPercentage}% خصم</div>}
+      </div>
+
+      <div className="package-actions">
+        <Link href={`/bundles/${bundle.slug}`} className="btn btn-primary">
+          عرض التفاصيل
+        </Link>
+        <AddToCartButton product={getBundleCartProduct(bundle)} />
+      </div>
+    </div>
+  )
+}
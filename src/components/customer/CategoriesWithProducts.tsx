@@ -7,6 +7,7 @@ import ProductCard from './ProductCard'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { faArrowLeft, faArrowRight } from '@fortawesome/free-solid-svg-icons'
 import { useScrollAnimation } from '@/hooks/useScrollAnimation'
+import type { ICustomizationField } from '@/lib/db/models/Product'
 // Types
 interface Product {
   _id: string
@@ -27,6 +28,7 @@ interface Product {
   isActive: boolean
   isFeatured: boolean
   EnableCustomizations?: boolean
+  customizationFields?: ICustomizationField[]
   colors?: { name: string; hex: string }[]
 }
 
@@ -225,6 +227,7 @@ export default function CategoriesWithProducts() {
                 '/placeholder-product.jpg',
               category: category.name,
               EnableCustomizations: product.EnableCustomizations,
+              customizationFields: product.customizationFields,
               colors: product.colors || [],
             }))}
           />
@@ -312,6 +315,7 @@ function CategoryProductsCarousel({
     image: string
     category: string
     EnableCustomizations?: boolean
+    customizationFields?: ICustomizationField[]
     colors?: { name: string; hex: string }[]
   }>
 }) {
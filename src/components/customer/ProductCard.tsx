@@ -5,6 +5,9 @@ import Image from 'next/image'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { faPlay, faHeart, faShare, faStar } from '@fortawesome/free-solid-svg-icons'
 import AddToCartButton from '@/components/ui/AddToCartButton'
+import { useCurrency } from '@/contexts/CurrencyContext'
+import { requiresCustomizationAnswers } from '@/lib/utils/customizationFields'
+import type { ICustomizationField } from '@/lib/db/models/Product'
 
 interface Product {
   id: string
@@ -17,6 +20,7 @@ interface Product {
   image: string
   category: string
   EnableCustomizations?: boolean
+  customizationFields?: ICustomizationField[]
 }
 
 interface ProductCardProps {
@@ -24,6 +28,7 @@ interface ProductCardProps {
 }
 
 export default function ProductCard({ product }: ProductCardProps) {
+  const { formatPrice } = useCurrency()
   const discountPercentage = Math.round(((product.originalPrice - product.price) / product.originalPrice) * 100)
 
   // Ensure we have a slug for routing
@@ -69,9 +74,9 @@ export default function ProductCard({ product }: ProductCardProps) {
           <div className="pricing-row">
             {/* Right Column: Prices */}
             <div className="prices-column">
-              <span className="current-price">${product.price}</span>
+              <span className="current-price">{formatPrice(product.price)}</span>
               {product.originalPrice > product.price && (
-                <span className="original-price">${product.originalPrice}</span>
+                <span className="original-price">{formatPrice(product.originalPrice)}</span>
               )}
             </div>
             {/* Left Column: Discount & Savings */}
@@ -79,7 +84,7 @@ export default function ProductCard({ product }: ProductCardProps) {
               {discountPercentage > 0 && (
                 <>
                   <span className="discount-text">{discountPercentage}% خصم</span>
-                  <span className="savings-badge">وفرت ${(product.originalPrice - product.price).toFixed(2)}</span>
+                  <span className="savings-badge">وفرت {formatPrice(product.originalPrice - product.price)}</span>
                 </>
               )}
             </div>
@@ -87,7 +92,10 @@ export default function ProductCard({ product }: ProductCardProps) {
         </div>
 
         <div className="product-actions" onClick={(e) => e.stopPropagation()}>
-          <AddToCartButton product={product} />
+          <AddToCartButton
+            product={product}
+            customizeHref={requiresCustomizationAnswers(product) ? `/products/${product.slug}` : undefined}
+          />
           <div className="action-buttons">
             <button className="action-btn" title="إضافة للمفضلة" onClick={(e) => e.stopPropagation()}>
               <FontAwesomeIcon icon={faHeart} />
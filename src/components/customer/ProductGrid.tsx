@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import ProductCard from './ProductCard'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import type { ICustomizationField } from '@/lib/db/models/Product'
 
 interface Product {
   _id: string
@@ -15,6 +16,8 @@ interface Product {
   images: string[]
   category: string
   isFeatured?: boolean
+  EnableCustomizations?: boolean
+  customizationFields?: ICustomizationField[]
 }
 
 interface ProductGridProps {
@@ -69,6 +72,8 @@ export default function ProductGrid({ category, limit = 4, featured = false }: P
         images: product.images || [],
         category: product.category?.name || '',
         isFeatured: product.isFeatured,
+        EnableCustomizations: product.EnableCustomizations,
+        customizationFields: product.customizationFields,
       }))
 
       setProducts(transformedProducts)
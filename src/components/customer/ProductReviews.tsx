@@ -0,0 +1,247 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faStar, faUser, faCheckCircle, faSpinner } from '@fortawesome/free-solid-svg-icons'
+import './ProductReviews.css'
+
+type ProductReview = {
+  _id: string
+  name: string
+  rating: number
+  text: string
+  avatar?: string
+  isVerifiedPurchase?: boolean
+  createdAt: string
+}
+
+type ReviewSummary = {
+  rating: number
+  reviewCount: number
+  distribution: Record<string, number>
+}
+
+type ReviewEligibility = {
+  canReview: boolean
+  hasReviewed: boolean
+  reason?: string
+}
+
+interface ProductReviewsProps {
+  slug: string
+}
+
+const RATING_LABELS = ['', 'ضعيف جداً', 'ضعيف', 'متوسط', 'جيد', 'ممتاز']
+
+export default function ProductReviews({ slug }: ProductReviewsProps) {
+  const { status } = useSession()
+  const [reviews, setReviews] = useState<ProductReview[]>([])
+  const [summary, setSummary] = useState<ReviewSummary | null>(null)
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(null)
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+
+  // Review form
+  const [rating, setRating] = useState(0)
+  const [hoverRating, setHoverRating] = useState(0)
+  const [text, setText] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [formMessage, setFormMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const fetchReviews = useCallback(
+    async (pageToLoad: number) => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/products/${slug}/reviews?page=${pageToLoad}&limit=5`)
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to fetch reviews')
+        }
+
+        setReviews((prev) => (pageToLoad === 1 ? result.data.reviews : [...prev, ...result.data.reviews]))
+        setSummary(result.data.summary)
+        setEligibility(result.data.eligibility)
+        setPage(result.data.pagination.page)
+        setPages(result.data.pagination.pages)
+      } catch (err) {
+        console.error('Error fetching product reviews:', err)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [slug]
+  )
+
+  useEffect(() => {
+    if (status !== 'loading') {
+      fetchReviews(1)
+    }
+  }, [fetchReviews, status])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!rating || text.trim().length < 10) {
+      setFormMessage({ type: 'error', text: 'يرجى اختيار التقييم وكتابة 10 أحرف على الأقل' })
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setFormMessage(null)
+
+      const response = await fetch(`/api/products/${slug}/reviews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating, text }),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'فشل في إرسال التقييم')
+      }
+
+      setFormMessage({ type: 'success', text: result.message })
+      setEligibility({ canReview: false, hasReviewed: true })
+      setRating(0)
+      setText('')
+    } catch (err) {
+      setFormMessage({ type: 'error', text: err instanceof Error ? err.message : 'فشل في إرسال التقييم' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const renderStars = (value: number) => (
+    <div className="prv-stars">
+      {[...Array(5)].map((_, i) => (
+        <span key={i} className={i < Math.round(value) ? 'prv-star filled' : 'prv-star'}>
+          <FontAwesomeIcon icon={faStar} />
+        </span>
+      ))}
+    </div>
+  )
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('ar', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  const reviewCount = summary?.reviewCount || 0
+
+  return (
+    <div className="prv-section">
+      <h2>تقييمات العملاء</h2>
+
+      {/* Summary */}
+      <div className="prv-summary">
+        <div className="prv-average">
+          <span className="prv-average-value">{reviewCount > 0 ? summary?.rating.toFixed(1) : '-'}</span>
+          {renderStars(reviewCount > 0 ? summary?.rating || 0 : 0)}
+          <span className="prv-average-count">
+            {reviewCount > 0 ? `${reviewCount} تقييم` : 'لا توجد تقييمات بعد'}
+          </span>
+        </div>
+
+        {reviewCount > 0 && (
+          <div className="prv-distribution">
+            {[5, 4, 3, 2, 1].map((stars) => {
+              const count = summary?.distribution[stars] || 0
+              return (
+                <div key={stars} className="prv-distribution-row">
+                  <span>{stars} ★</span>
+                  <div className="prv-distribution-bar">
+                    <div style={{ width: `${(count / reviewCount) * 100}%` }} />
+                  </div>
+                  <span>{count}</span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Review form */}
+      <div className="prv-form-container">
+        {status === 'unauthenticated' ? (
+          <p className="prv-muted">
+            <Link href="/auth/signin">سجّل الدخول</Link> لتقييم هذا المنتج بعد شرائه
+          </p>
+        ) : eligibility?.canReview ? (
+          <form onSubmit={handleSubmit} className="prv-form">
+            <h3>قيّم هذا المنتج</h3>
+            <div className="prv-form-rating">
+              {[1, 2, 3, 4, 5].map((star) => (
+                <button
+                  key={star}
+                  type="button"
+                  className={`prv-star-button ${star <= (hoverRating || rating) ? 'filled' : ''}`}
+                  onClick={() => setRating(star)}
+                  onMouseEnter={() => setHoverRating(star)}
+                  onMouseLeave={() => setHoverRating(0)}
+                >
+                  <FontAwesomeIcon icon={faStar} />
+                </button>
+              ))}
+              <span className="prv-muted">{RATING_LABELS[hoverRating || rating] || 'اختر التقييم'}</span>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="شاركنا رأيك في المنتج... (10 أحرف على الأقل)"
+              rows={4}
+              maxLength={2000}
+              className="prv-textarea"
+            />
+            <button type="submit" disabled={submitting} className="prv-submit-btn">
+              {submitting ? <FontAwesomeIcon icon={faSpinner} spin /> : null}
+              {submitting ? 'جاري الإرسال...' : 'إرسال التقييم'}
+            </button>
+          </form>
+        ) : eligibility?.reason && !formMessage ? (
+          <p className="prv-muted">{eligibility.reason}</p>
+        ) : null}
+
+        {formMessage && <p className={`prv-form-message ${formMessage.type}`}>{formMessage.text}</p>}
+      </div>
+
+      {/* Reviews list */}
+      <div className="prv-list">
+        {reviews.map((review) => (
+          <div key={review._id} className="prv-review">
+            <div className="prv-review-header">
+              <div className="prv-avatar">
+                {review.avatar && review.avatar.startsWith('http') ? (
+                  <Image src={review.avatar} alt={review.name} width={40} height={40} />
+                ) : (
+                  <FontAwesomeIcon icon={faUser} />
+                )}
+              </div>
+              <div className="prv-review-meta">
+                <span className="prv-review-name">{review.name}</span>
+                <span className="prv-review-date">{formatDate(review.createdAt)}</span>
+              </div>
+              {review.isVerifiedPurchase && (
+                <span className="prv-verified-badge">
+                  <FontAwesomeIcon icon={faCheckCircle} />
+                  شراء موثق
+                </span>
+              )}
+            </div>
+            {renderStars(review.rating)}
+            <p className="prv-review-text">{review.text}</p>
+          </div>
+        ))}
+
+        {page < pages && (
+          <button onClick={() => fetchReviews(page + 1)} disabled={loading} className="prv-load-more">
+            {loading ? 'جاري التحميل...' : 'عرض المزيد من التقييمات'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
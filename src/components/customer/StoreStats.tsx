@@ -1,31 +1,38 @@
 'use client'
 
+import { useEffect, useState } from 'react'
+import type { PublicStoreStat } from '@/lib/services/storeStatsService'
+
 export default function StoreStats() {
-  const stats = [
-    {
-      id: 1,
-      label: 'مبيعات المتجر',
-      value: '+26',
-      subtitle: 'العملاء',
-      icon: '📈',
-      color: 'var(--neon-green)',
-    },
-    {
-      id: 2,
-      label: 'الاقسام',
-      value: '+32',
-      subtitle: 'طلبات التصميم',
-      icon: '🎨',
-      color: 'var(--neon-purple)',
-    },
-  ]
+  const [stats, setStats] = useState<PublicStoreStat[]>([])
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      try {
+        const response = await fetch('/api/stats')
+        const result = await response.json()
+        if (response.ok && result.success) {
+          setStats(result.data)
+        }
+      } catch (error) {
+        console.error('Error fetching store stats:', error)
+      }
+    }
+
+    fetchStats()
+  }, [])
+
+  // Every metric can be hidden (disabled or below its minimum)
+  if (stats.length === 0) {
+    return null
+  }
 
   return (
     <section className="section stats-section">
       <div className="container">
         <div className="stats-grid">
           {stats.map((stat) => (
-            <div key={stat.id} className="stat-card card-neon">
+            <div key={stat.key} className="stat-card card-neon">
               <div className="stat-icon" style={{ color: stat.color }}>
                 {stat.icon}
               </div>
@@ -1,9 +1,10 @@
 'use client'
 
 import { useState } from 'react'
-import { useCart, CartItemCustomization } from '@/contexts/CartContext'
+import { useRouter } from 'next/navigation'
+import { useCart, CartItemBundle, CartItemCustomization } from '@/contexts/CartContext'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
-import { faShoppingCart, faCheck } from '@fortawesome/free-solid-svg-icons'
+import { faShoppingCart, faCheck, faPen } from '@fortawesome/free-solid-svg-icons'
 import './AddToCartButton.css'
 
 interface AddToCartButtonProps {
@@ -19,13 +20,17 @@ interface AddToCartButtonProps {
     customizations?: CartItemCustomization
     EnableCustomizations?: boolean
     colors?: { name: string; hex: string }[]
+    bundle?: CartItemBundle // Set when adding a bundle (id is then the bundle ID)
   }
   className?: string
   onAddToCart?: () => void
+  canAddToCart?: () => boolean // Return false to keep the item out of the cart (e.g. invalid customizations)
+  customizeHref?: string // Product page to send the customer to when required customization fields must be filled first
 }
 
-export default function AddToCartButton({ product, className = '', onAddToCart }: AddToCartButtonProps) {
+export default function AddToCartButton({ product, className = '', onAddToCart, canAddToCart, customizeHref }: AddToCartButtonProps) {
   const { addItem, isInCart } = useCart()
+  const router = useRouter()
   const [isAdding, setIsAdding] = useState(false)
 
   const productId = product.id || product._id || ''
@@ -38,6 +43,13 @@ export default function AddToCartButton({ product, className = '', onAddToCart }
     // Prevent adding if already in cart or in the process of adding
     if (isAdding || isInCartState) return
 
+    if (customizeHref) {
+      router.push(customizeHref)
+      return
+    }
+
+    if (canAddToCart && !canAddToCart()) return
+
     setIsAdding(true)
 
     // Simulate a brief loading state
@@ -64,6 +76,7 @@ export default function AddToCartButton({ product, className = '', onAddToCart }
       category: product.category,
       customizations,
       EnableCustomizations: product.EnableCustomizations,
+      bundle: product.bundle,
     }
 
     console.log('🛒 Adding item to cart:', {
@@ -97,6 +110,11 @@ export default function AddToCartButton({ product, className = '', onAddToCart }
             <FontAwesomeIcon icon={faCheck} className="btn-icon success-icon" />
             <span className="btn-text">تم الاضافة لسلة</span>
           </>
+        ) : customizeHref ? (
+          <>
+            <FontAwesomeIcon icon={faPen} className="btn-icon" />
+            <span className="btn-text">خصص المنتج</span>
+          </>
         ) : (
           <>
             <FontAwesomeIcon icon={faShoppingCart} className="btn-icon" />
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { useCart } from '@/contexts/CartContext'
+import { useCurrency } from '@/contexts/CurrencyContext'
 import { useSession } from 'next-auth/react'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { faShoppingCart, faTimes, faTrash } from '@fortawesome/free-solid-svg-icons'
@@ -13,6 +14,7 @@ import './CartDropdown.css'
 
 export default function CartDropdown() {
   const { state, removeItem } = useCart()
+  const { formatPrice } = useCurrency()
   const { data: session } = useSession()
   const [isOpen, setIsOpen] = useState(false)
   const [isHovered, setIsHovered] = useState(false)
@@ -32,13 +34,6 @@ export default function CartDropdown() {
     return () => document.removeEventListener('mousedown', handleClickOutside)
   }, [])
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(price)
-  }
-
   if (state.totalItems === 0) {
     return (
       <div className="cart-dropdown-container" ref={dropdownRef}>
@@ -0,0 +1,30 @@
+'use client'
+
+import { useCurrency } from '@/contexts/CurrencyContext'
+import { isCurrencyCode } from '@/lib/utils/currencyUtils'
+import './CurrencySwitcher.css'
+
+export default function CurrencySwitcher() {
+  const { currency, currencies, setCurrency } = useCurrency()
+
+  // Nothing to switch to until an admin enables another currency
+  if (currencies.length < 2) {
+    return null
+  }
+
+  return (
+    <select
+      className="currency-switcher"
+      value={currency.code}
+      onChange={(e) => isCurrencyCode(e.target.value) && setCurrency(e.target.value)}
+      aria-label="عملة العرض"
+      title="عملة العرض"
+    >
+      {currencies.map((c) => (
+        <option key={c.code} value={c.code}>
+          {c.code} - {c.name}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -2,12 +2,16 @@
 
 import { useState, forwardRef, useImperativeHandle } from 'react'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
-import { faPen, faImage, faTag, faUpload, faTimes, faChevronDown, faChevronUp } from '@fortawesome/free-solid-svg-icons'
+import { faPen, faImage, faTag, faUpload, faTimes, faChevronDown, faChevronUp, faSlidersH } from '@fortawesome/free-solid-svg-icons'
 import { CartItemCustomization } from '@/contexts/CartContext'
 import Image from 'next/image'
+import type { ICustomizationField } from '@/lib/db/models/Product'
+import type { ICustomizationFieldValue } from '@/lib/db/models/Order'
+import { toLegacyCustomizations, validateCustomizationValues } from '@/lib/utils/customizationFields'
 
 export interface CustomizationFormRef {
   resetForm: () => void
+  validate: () => boolean // Checks the product's customization fields and shows inline errors
 }
 
 interface ProductColor {
@@ -22,6 +26,7 @@ interface CustomizationFormProps {
   allowTextEditing?: boolean
   allowImageReplacement?: boolean
   allowLogoUpload?: boolean
+  customizationFields?: ICustomizationField[] // Replaces the generic text/image/logo sections when set
   onCustomizationChange: (customizations: CartItemCustomization) => void
   initialCustomizations?: CartItemCustomization
 }
@@ -45,6 +50,7 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
       allowTextEditing = false,
       allowImageReplacement = false,
       allowLogoUpload = false,
+      customizationFields = [],
       onCustomizationChange,
       initialCustomizations,
     },
@@ -59,6 +65,15 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
       initialCustomizations?.customizationNotes || ''
     )
 
+    // Answers to the product's customization fields, keyed by field key
+    const [fieldValues, setFieldValues] = useState<Record<string, ICustomizationFieldValue>>(
+      Object.fromEntries((initialCustomizations?.fields || []).map((value) => [value.key, value]))
+    )
+    const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+    const [uploadingField, setUploadingField] = useState<string | null>(null)
+    const hasStructuredFields = customizationFields.length > 0
+    const colorOptions = colors.map((color) => color.hex)
+
     // Upload states
     const [uploadingImages, setUploadingImages] = useState<boolean>(false)
     const [uploadingLogo, setUploadingLogo] = useState<boolean>(false)
@@ -90,6 +105,8 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
         notes: false,
       })
       setUploadError('')
+      setFieldValues({})
+      setFieldErrors({})
       // Clear any file inputs
       const fileInputs = document.querySelectorAll('input[type="file"]') as NodeListOf<HTMLInputElement>
       fileInputs.forEach((input) => {
@@ -99,9 +116,18 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
       onCustomizationChange({})
     }
 
-    // Expose reset function through ref
+    // Validate the customization fields before the item is added to the cart
+    const validate = () => {
+      if (!hasStructuredFields) return true
+      const result = validateCustomizationValues(customizationFields, Object.values(fieldValues), colorOptions)
+      setFieldErrors(result.errors)
+      return result.valid
+    }
+
+    // Expose reset and validate functions through ref
     useImperativeHandle(ref, () => ({
       resetForm,
+      validate,
     }))
 
     // Toggle section expansion
@@ -134,6 +160,208 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
       onCustomizationChange(customizations)
     }
 
+    // Send structured answers to the parent, mirrored into the legacy fields
+    const emitFieldValues = (values: Record<string, ICustomizationFieldValue>, notes: string = customizationNotes) => {
+      const ordered = customizationFields.map((field) => values[field.key]).filter(Boolean)
+      onCustomizationChange({
+        ...toLegacyCustomizations(ordered),
+        customizationNotes: notes,
+        fields: ordered,
+      })
+    }
+
+    const setFieldValue = (field: ICustomizationField, value: Partial<ICustomizationFieldValue> | null) => {
+      const next = { ...fieldValues }
+      if (value) {
+        next[field.key] = { key: field.key, label: field.label, type: field.type, ...value }
+      } else {
+        delete next[field.key]
+      }
+      setFieldValues(next)
+      setFieldErrors((prev) => {
+        const rest = { ...prev }
+        delete rest[field.key]
+        return rest
+      })
+      emitFieldValues(next)
+    }
+
+    const deleteCustomerUpload = (publicId: string) =>
+      fetch('/api/upload/customer', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ publicId }),
+      })
+
+    // Upload an image or logo slot and check its resolution against the field
+    const handleFieldUpload = async (field: ICustomizationField, event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      if (!file) return
+
+      setUploadingField(field.key)
+      try {
+        const formData = new FormData()
+        formData.append('file', file)
+
+        const response = await fetch('/api/upload/customer', {
+          method: 'POST',
+          body: formData,
+        })
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'فشل في رفع الصورة')
+        }
+
+        if ((field.minWidth && result.width < field.minWidth) || (field.minHeight && result.height < field.minHeight)) {
+          await deleteCustomerUpload(result.publicId)
+          throw new Error(
+            `دقة الصورة منخفضة (${result.width}×${result.height}). الحد الأدنى ${field.minWidth || 0}×${field.minHeight || 0} بكسل`
+          )
+        }
+
+        const previous = fieldValues[field.key]
+        if (previous?.publicId) {
+          deleteCustomerUpload(previous.publicId).catch((error) => console.error('Failed to delete image:', error))
+        }
+
+        setFieldValue(field, { url: result.url, publicId: result.publicId, width: result.width, height: result.height })
+      } catch (error) {
+        setFieldErrors((prev) => ({
+          ...prev,
+          [field.key]: error instanceof Error ? error.message : 'فشل في رفع الصورة',
+        }))
+      } finally {
+        setUploadingField(null)
+        event.target.value = ''
+      }
+    }
+
+    const removeFieldUpload = async (field: ICustomizationField) => {
+      const current = fieldValues[field.key]
+      if (!current?.publicId) return
+
+      try {
+        const response = await deleteCustomerUpload(current.publicId)
+        if (response.ok) {
+          setFieldValue(field, null)
+        }
+      } catch (error) {
+        console.error('Failed to delete image:', error)
+      }
+    }
+
+    const renderField = (field: ICustomizationField) => {
+      const current = fieldValues[field.key]
+      const inputId = `customization-${productId}-${field.key}`
+
+      return (
+        <div key={field.key} className={`structured-field ${fieldErrors[field.key] ? 'has-error' : ''}`}>
+          <label htmlFor={inputId} className="field-label">
+            {field.label}
+            {field.required && <span className="required-mark">*</span>}
+          </label>
+          {field.helpText && <p className="field-help">{field.helpText}</p>}
+
+          {field.type === 'text' && (
+            <>
+              <input
+                id={inputId}
+                type="text"
+                className="field-input"
+                value={current?.value || ''}
+                maxLength={field.maxLength}
+                onChange={(e) => setFieldValue(field, e.target.value ? { value: e.target.value } : null)}
+              />
+              {field.maxLength && (
+                <span className="field-counter">
+                  {(current?.value || '').length}/{field.maxLength}
+                </span>
+              )}
+            </>
+          )}
+
+          {field.type === 'select' && (
+            <select
+              id={inputId}
+              className="field-input"
+              value={current?.value || ''}
+              onChange={(e) => setFieldValue(field, e.target.value ? { value: e.target.value } : null)}
+            >
+              <option value="">اختر...</option>
+              {(field.options || []).map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {field.type === 'color' &&
+            (colorOptions.length > 0 ? (
+              <div className="color-swatches">
+                {colors.map((color) => (
+                  <button
+                    key={color.hex}
+                    type="button"
+                    title={color.name}
+                    className={`color-swatch ${current?.value === color.hex ? 'selected' : ''}`}
+                    style={{ backgroundColor: color.hex }}
+                    onClick={() => setFieldValue(field, { value: color.hex })}
+                  />
+                ))}
+              </div>
+            ) : (
+              <input
+                id={inputId}
+                type="color"
+                className="field-color-input"
+                value={current?.value || '#000000'}
+                onChange={(e) => setFieldValue(field, { value: e.target.value })}
+              />
+            ))}
+
+          {(field.type === 'image' || field.type === 'logo') &&
+            (current?.url ? (
+              <div className={field.type === 'logo' ? 'uploaded-logo' : 'uploaded-image'}>
+                <Image src={current.url} alt={field.label} width={120} height={120} />
+                <button type="button" className="remove-button" onClick={() => removeFieldUpload(field)}>
+                  <FontAwesomeIcon icon={faTimes} />
+                </button>
+              </div>
+            ) : (
+              <div className="upload-area">
+                <input
+                  type="file"
+                  id={inputId}
+                  accept="image/*"
+                  onChange={(e) => handleFieldUpload(field, e)}
+                  className="file-input"
+                  disabled={uploadingField !== null}
+                />
+                <label htmlFor={inputId} className={`upload-button ${uploadingField === field.key ? 'uploading' : ''}`}>
+                  {uploadingField === field.key ? (
+                    'جاري الرفع...'
+                  ) : (
+                    <>
+                      <FontAwesomeIcon icon={field.type === 'logo' ? faTag : faUpload} />
+                      {field.type === 'logo' ? 'رفع الشعار' : 'رفع صورة'}
+                    </>
+                  )}
+                </label>
+                {(field.minWidth || field.minHeight) && (
+                  <p className="upload-info">
+                    الحد الأدنى للدقة {field.minWidth || 0}×{field.minHeight || 0} بكسل
+                  </p>
+                )}
+              </div>
+            ))}
+
+          {fieldErrors[field.key] && <div className="field-error">{fieldErrors[field.key]}</div>}
+        </div>
+      )
+    }
+
     // Handle text change
     const handleTextChange = (value: string) => {
       setTextChanges(value)
@@ -279,8 +507,19 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
 
     return (
       <div className="customization-form">
+        {/* Product-defined customization fields - always open so required inputs are visible */}
+        {hasStructuredFields && (
+          <div className="customization-section">
+            <div className="section-title">
+              <FontAwesomeIcon icon={faSlidersH} className="section-icon" />
+              <span>بيانات التصميم</span>
+            </div>
+            <div className="section-content structured-fields">{customizationFields.map(renderField)}</div>
+          </div>
+        )}
+
         {/* Text Editing - Button that expands */}
-        {allowTextEditing && (
+        {!hasStructuredFields && allowTextEditing && (
           <div className="customization-section">
             <button
               className={`customization-section-header ${expandedSections.text ? 'expanded' : ''}`}
@@ -309,7 +548,7 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
         )}
 
         {/* Image Replacement - Button that expands */}
-        {allowImageReplacement && (
+        {!hasStructuredFields && allowImageReplacement && (
           <div className="customization-section">
             <button
               className={`customization-section-header ${expandedSections.images ? 'expanded' : ''}`}
@@ -375,7 +614,7 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
         )}
 
         {/* Logo Upload - Button that expands */}
-        {allowLogoUpload && (
+        {!hasStructuredFields && allowLogoUpload && (
           <div className="customization-section">
             <button
               className={`customization-section-header ${expandedSections.logo ? 'expanded' : ''}`}
@@ -456,7 +695,11 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
                 value={customizationNotes}
                 onChange={(e) => {
                   setCustomizationNotes(e.target.value)
-                  setTimeout(updateCustomizations, 0)
+                  if (hasStructuredFields) {
+                    emitFieldValues(fieldValues, e.target.value)
+                  } else {
+                    setTimeout(updateCustomizations, 0)
+                  }
                 }}
                 rows={3}
                 className="notes-textarea"
@@ -843,6 +1086,97 @@ const CustomizationForm = forwardRef<CustomizationFormRef, CustomizationFormProp
             box-shadow: 0 0 0 2px rgba(130, 97, 198, 0.2);
           }
 
+          .structured-fields {
+            display: flex;
+            flex-direction: column;
+            gap: 1.25rem;
+            direction: rtl;
+            text-align: right;
+          }
+
+          .structured-field {
+            display: flex;
+            flex-direction: column;
+            gap: 0.5rem;
+          }
+
+          .field-label {
+            font-weight: 600;
+            color: var(--text-primary);
+          }
+
+          .required-mark {
+            color: #ef4444;
+            margin-right: 0.25rem;
+          }
+
+          .field-help {
+            margin: 0;
+            font-size: 0.85rem;
+            color: var(--text-secondary);
+          }
+
+          .field-input {
+            width: 100%;
+            padding: 0.75rem;
+            border-radius: 8px;
+            border: 1px solid rgba(130, 97, 198, 0.3);
+            background: var(--color-dark-primary);
+            color: var(--text-primary);
+            font-family: inherit;
+            transition: all 0.3s ease;
+          }
+
+          .field-input:focus {
+            outline: none;
+            border-color: var(--color-purple-primary);
+            box-shadow: 0 0 0 2px rgba(130, 97, 198, 0.2);
+          }
+
+          .structured-field.has-error .field-input,
+          .structured-field.has-error .upload-area {
+            border-color: rgba(239, 68, 68, 0.6);
+          }
+
+          .field-counter {
+            align-self: flex-end;
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+          }
+
+          .field-error {
+            color: #ef4444;
+            font-size: 0.85rem;
+          }
+
+          .color-swatches {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+          }
+
+          .color-swatch {
+            width: 36px;
+            height: 36px;
+            border-radius: 50%;
+            border: 2px solid rgba(255, 255, 255, 0.2);
+            cursor: pointer;
+            transition: all 0.2s ease;
+          }
+
+          .color-swatch.selected {
+            border-color: var(--color-lime-accent);
+            box-shadow: 0 0 0 3px rgba(130, 97, 198, 0.4);
+          }
+
+          .field-color-input {
+            width: 60px;
+            height: 40px;
+            border: none;
+            background: none;
+            cursor: pointer;
+          }
+
           @media (max-width: 768px) {
             .section-header {
               padding: 0.75rem 1rem;
@@ -0,0 +1,295 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import Image from 'next/image'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faComments, faPaperclip, faPaperPlane, faRefresh, faSpinner, faLock, faTimes } from '@fortawesome/free-solid-svg-icons'
+import './OrderMessages.css'
+
+interface OrderMessagesProps {
+  orderId: string
+  mode: 'staff' | 'customer'   // Staff see internal notes and can post them
+  onRead?: () => void           // Called after the thread is loaded (and marked read)
+}
+
+interface MessageAttachment {
+  url: string
+  fileName: string
+  mimeType: string
+  size: number
+}
+
+interface ThreadMessage {
+  _id: string
+  senderType: 'customer' | 'staff'
+  senderName: string
+  body: string
+  attachments: MessageAttachment[]
+  isInternal: boolean
+  readByCustomerAt?: string | null
+  readByStaffAt?: string | null
+  createdAt: string
+}
+
+const MAX_ATTACHMENTS = 5
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+const ALLOWED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+
+export default function OrderMessages({ orderId, mode, onRead }: OrderMessagesProps) {
+  const [messages, setMessages] = useState<ThreadMessage[]>([])
+  const [canReply, setCanReply] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [body, setBody] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [isInternal, setIsInternal] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+  const onReadRef = useRef(onRead)
+
+  // Parents usually pass an inline callback; keep it out of the fetch dependencies
+  useEffect(() => {
+    onReadRef.current = onRead
+  }, [onRead])
+
+  const endpoint = mode === 'staff'
+    ? `/api/admin/orders/${orderId}/messages`
+    : `/api/orders/messages`
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(mode === 'staff' ? endpoint : `${endpoint}?orderId=${orderId}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || data.error || 'Failed to fetch messages')
+      }
+
+      const thread = mode === 'staff' ? data.data : data
+      setMessages(thread.messages)
+      setCanReply(thread.canReply)
+      onReadRef.current?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch messages')
+    } finally {
+      setLoading(false)
+    }
+  }, [endpoint, mode, orderId])
+
+  useEffect(() => {
+    fetchMessages()
+  }, [fetchMessages])
+
+  // Keep the latest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight
+    }
+  }, [messages])
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || [])
+    event.target.value = ''
+
+    const invalid = selected.find(file => !ALLOWED_ATTACHMENT_TYPES.includes(file.type) || file.size > MAX_ATTACHMENT_SIZE)
+    if (invalid) {
+      setError(`لا يمكن إرفاق ${invalid.name}: الصور فقط (JPG, PNG, WEBP, GIF) وبحد أقصى 10MB`)
+      return
+    }
+
+    const next = [...files, ...selected]
+    if (next.length > MAX_ATTACHMENTS) {
+      setError(`يمكنك إرفاق ${MAX_ATTACHMENTS} صور كحد أقصى في الرسالة الواحدة`)
+      return
+    }
+
+    setError(null)
+    setFiles(next)
+  }
+
+  const removeFile = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSend = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!body.trim() && files.length === 0) {
+      setError('اكتب رسالة أو أرفق صورة')
+      return
+    }
+
+    try {
+      setSending(true)
+      setError(null)
+
+      const formData = new FormData()
+      if (mode === 'customer') {
+        formData.append('orderId', orderId)
+      }
+      formData.append('body', body)
+      if (mode === 'staff' && isInternal) {
+        formData.append('isInternal', 'true')
+      }
+      files.forEach(file => formData.append('attachments', file))
+
+      const response = await fetch(endpoint, { method: 'POST', body: formData })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error((mode === 'staff' ? data.message : data.error) || 'Failed to send message')
+      }
+
+      setBody('')
+      setFiles([])
+      setIsInternal(false)
+      await fetchMessages()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('ar-SA', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  // Messages from the other side that were unread when the thread was loaded
+  const isNew = (message: ThreadMessage) =>
+    mode === 'staff'
+      ? message.senderType === 'customer' && !message.readByStaffAt
+      : message.senderType === 'staff' && !message.readByCustomerAt
+
+  const newCount = messages.filter(isNew).length
+
+  return (
+    <div className={`order-messages ${mode}`}>
+      <div className="order-messages-header">
+        <h3>
+          <FontAwesomeIcon icon={faComments} />
+          {mode === 'staff' ? 'المحادثة مع العميل' : 'المحادثة مع فريق التصميم'}
+          {newCount > 0 && <span className="order-messages-count">{newCount} جديدة</span>}
+        </h3>
+        <button type="button" onClick={fetchMessages} className="order-messages-refresh" disabled={loading}>
+          <FontAwesomeIcon icon={loading ? faSpinner : faRefresh} spin={loading} />
+          تحديث
+        </button>
+      </div>
+
+      <div className="order-messages-list" ref={listRef}>
+        {!loading && messages.length === 0 && (
+          <p className="order-messages-empty">
+            {mode === 'staff'
+              ? 'لا توجد رسائل بعد. ابدأ المحادثة مع العميل أو أضف ملاحظة داخلية.'
+              : 'لا توجد رسائل بعد. يمكنك مراسلة فريق التصميم بخصوص طلبك من هنا.'}
+          </p>
+        )}
+
+        {messages.map(message => {
+          const isMine = message.senderType === (mode === 'staff' ? 'staff' : 'customer')
+          return (
+            <div
+              key={message._id}
+              className={`order-message ${isMine ? 'mine' : 'theirs'} ${message.isInternal ? 'internal' : ''}`}
+            >
+              <div className="order-message-meta">
+                <strong>{message.senderName}</strong>
+                <span>{formatDate(message.createdAt)}</span>
+                {message.isInternal && (
+                  <span className="order-message-internal">
+                    <FontAwesomeIcon icon={faLock} /> ملاحظة داخلية
+                  </span>
+                )}
+                {isNew(message) && <span className="order-message-new">جديد</span>}
+              </div>
+              {message.body && <p className="order-message-body">{message.body}</p>}
+              {message.attachments.length > 0 && (
+                <div className="order-message-attachments">
+                  {message.attachments.map(attachment => (
+                    <a key={attachment.url} href={attachment.url} target="_blank" rel="noopener noreferrer">
+                      <Image src={attachment.url} alt={attachment.fileName} width={120} height={120} />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {error && <div className="order-messages-error">{error}</div>}
+
+      {canReply && (
+        <form className="order-messages-form" onSubmit={handleSend}>
+          <textarea
+            value={body}
+            onChange={e => setBody(e.target.value)}
+            placeholder={isInternal ? 'ملاحظة داخلية لا يراها العميل...' : 'اكتب رسالتك...'}
+            rows={3}
+            maxLength={5000}
+            disabled={sending}
+          />
+
+          {files.length > 0 && (
+            <div className="order-messages-files">
+              {files.map((file, index) => (
+                <span key={`${file.name}-${index}`} className="order-messages-file">
+                  {file.name}
+                  <button type="button" onClick={() => removeFile(index)} disabled={sending}>
+                    <FontAwesomeIcon icon={faTimes} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="order-messages-actions">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+              multiple
+              hidden
+              onChange={handleFilesSelected}
+            />
+            <button
+              type="button"
+              className="order-messages-attach"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={sending || files.length >= MAX_ATTACHMENTS}
+            >
+              <FontAwesomeIcon icon={faPaperclip} /> إرفاق صور
+            </button>
+
+            {mode === 'staff' && (
+              <label className="order-messages-internal-toggle">
+                <input
+                  type="checkbox"
+                  checked={isInternal}
+                  onChange={e => setIsInternal(e.target.checked)}
+                  disabled={sending}
+                />
+                ملاحظة داخلية (لا يراها العميل)
+              </label>
+            )}
+
+            <button type="submit" className="order-messages-send" disabled={sending}>
+              <FontAwesomeIcon icon={sending ? faSpinner : faPaperPlane} spin={sending} />
+              {sending ? 'جاري الإرسال...' : isInternal ? 'حفظ الملاحظة' : 'إرسال'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
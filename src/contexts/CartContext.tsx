@@ -1,6 +1,7 @@
 'use client'
 
 import React, { createContext, useContext, useReducer, useEffect, useState, ReactNode } from 'react'
+import type { ICustomizationFieldValue } from '@/lib/db/models/Order'
 
 export interface CartItemCustomization {
   colors?: { name: string; hex: string }[]
@@ -8,10 +9,17 @@ export interface CartItemCustomization {
   uploadedImages?: { url: string; publicId: string }[]
   uploadedLogo?: { url: string; publicId: string }
   customizationNotes?: string
+  fields?: ICustomizationFieldValue[] // Answers to the product's customization fields
+}
+
+// A bundle in the cart; at checkout it expands into one order item per product
+export interface CartItemBundle {
+  slug: string
+  products: { id: string; name: string; slug: string; price: number }[] // price is the base price
 }
 
 export interface CartItem {
-  id: string // Original product ID
+  id: string // Original product ID (bundle ID for bundles)
   cartItemId: string // Unique cart item ID (includes customizations)
   name: string
   price: number
@@ -21,6 +29,7 @@ export interface CartItem {
   category?: string
   customizations?: CartItemCustomization
   EnableCustomizations?: boolean // Track if product supports customizations
+  bundle?: CartItemBundle
 }
 
 interface CartState {
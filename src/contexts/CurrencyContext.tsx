@@ -0,0 +1,114 @@
+'use client'
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import type { PublicCurrency } from '@/lib/services/currencyService'
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  CURRENCY_STORAGE_KEY,
+  CurrencyCode,
+  convertPrice,
+  formatInCurrency,
+  isCurrencyCode,
+} from '@/lib/utils/currencyUtils'
+
+interface CurrencyContextType {
+  currency: PublicCurrency // Selected display currency with its rate
+  currencies: PublicCurrency[]
+  setCurrency: (code: CurrencyCode) => void
+  convert: (amount: number) => number // Base amount -> display currency
+  formatPrice: (amount: number) => string // Base amount -> formatted display price
+}
+
+const BASE: PublicCurrency = { code: BASE_CURRENCY, name: CURRENCIES[BASE_CURRENCY].name, rate: 1 }
+
+// Outside a provider prices are shown in the base currency
+const CurrencyContext = createContext<CurrencyContextType>({
+  currency: BASE,
+  currencies: [BASE],
+  setCurrency: () => {},
+  convert: (amount) => amount,
+  formatPrice: (amount) => formatInCurrency(amount, BASE),
+})
+
+const loadCurrencyFromStorage = (): CurrencyCode | null => {
+  try {
+    const saved = localStorage.getItem(CURRENCY_STORAGE_KEY)
+    return isCurrencyCode(saved) ? saved : null
+  } catch {
+    return null
+  }
+}
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession()
+  const [currencies, setCurrencies] = useState<PublicCurrency[]>([BASE])
+  const [selected, setSelected] = useState<CurrencyCode>(BASE_CURRENCY)
+
+  useEffect(() => {
+    const saved = loadCurrencyFromStorage()
+    if (saved) setSelected(saved)
+
+    fetch('/api/settings/currencies')
+      .then((r) => r.json())
+      .then((res) => {
+        if (res.success && res.data.currencies.length > 0) setCurrencies(res.data.currencies)
+      })
+      .catch((error) => console.error('Failed to load currencies:', error))
+  }, [])
+
+  // Signed-in customers get the currency saved on their account, across devices
+  useEffect(() => {
+    if (!session?.user?.id) return
+
+    fetch('/api/users/profile')
+      .then((r) => r.json())
+      .then((res) => {
+        const saved = res.user?.preferences?.currency
+        if (isCurrencyCode(saved)) {
+          setSelected(saved)
+          localStorage.setItem(CURRENCY_STORAGE_KEY, saved)
+        }
+      })
+      .catch((error) => console.error('Failed to load currency preference:', error))
+  }, [session?.user?.id])
+
+  const setCurrency = useCallback(
+    (code: CurrencyCode) => {
+      setSelected(code)
+      try {
+        localStorage.setItem(CURRENCY_STORAGE_KEY, code)
+      } catch (error) {
+        console.error('Failed to save currency to localStorage:', error)
+      }
+
+      if (session?.user?.id) {
+        fetch('/api/users/profile', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ field: 'currency', value: code }),
+        }).catch((error) => console.error('Failed to save currency preference:', error))
+      }
+    },
+    [session?.user?.id]
+  )
+
+  const value = useMemo<CurrencyContextType>(() => {
+    // A saved currency the admin has since disabled falls back to the base
+    const currency = currencies.find((c) => c.code === selected) || currencies.find((c) => c.code === BASE_CURRENCY) || BASE
+    return {
+      currency,
+      currencies,
+      setCurrency,
+      convert: (amount) => convertPrice(amount, currency),
+      formatPrice: (amount) => formatInCurrency(amount, currency),
+    }
+  }, [currencies, selected, setCurrency])
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>
+}
+
+export function useCurrency() {
+  return useContext(CurrencyContext)
+}
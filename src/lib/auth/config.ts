@@ -26,8 +26,10 @@ import DiscordProvider from 'next-auth/providers/discord';
 import CredentialsProvider from 'next-auth/providers/credentials';
 // import { MongoDBAdapter } from '@next-auth/mongodb-adapter';
 // import { MongoClient } from 'mongodb';
+import mongoose from 'mongoose';
 import connectDB from '@/lib/db/connection';
 import User from '@/lib/db/models/User';
+import type { UserRole } from './types';
 
 // MongoDB client for NextAuth adapter (currently disabled)
 // const client = new MongoClient(process.env.MONGODB_URI!);
@@ -41,7 +43,7 @@ declare module 'next-auth' {
             email: string;
             name: string;
             image?: string;
-            role: 'customer' | 'admin';
+            role: UserRole;
             isEmailVerified: boolean;
         };
     }
@@ -51,7 +53,7 @@ declare module 'next-auth' {
         email: string;
         name: string;
         image?: string;
-        role: 'customer' | 'admin';
+        role: UserRole;
         isEmailVerified: boolean;
     }
 }
@@ -59,8 +61,9 @@ declare module 'next-auth' {
 declare module 'next-auth/jwt' {
     interface JWT {
         id: string;
-        role: 'customer' | 'admin';
+        role: UserRole;
         isEmailVerified: boolean;
+        authTime?: number;        // Sign-in time (ms), compared with the user's passwordChangedAt
     }
 } export const authOptions: NextAuthOptions = {
     // Use JWT strategy instead of database sessions for better OAuth compatibility
@@ -272,6 +275,7 @@ declare module 'next-auth/jwt' {
                 token.id = user.id;
                 token.role = user.role || 'customer';
                 token.isEmailVerified = user.isEmailVerified || false;
+                token.authTime = Date.now();
                 console.log('📋 Initial token from user:', {
                     isEmailVerified: token.isEmailVerified,
                     role: token.role
@@ -303,12 +307,34 @@ declare module 'next-auth/jwt' {
                 }
             }
 
+            // Sessions issued before a password reset are revoked; throwing makes
+            // next-auth drop the session and clear its cookie
+            if (!user && mongoose.isValidObjectId(token.id)) {
+                await connectDB();
+                const dbUser = await User.findById(token.id).select('passwordChangedAt').lean();
+                if (dbUser?.passwordChangedAt && dbUser.passwordChangedAt.getTime() > (token.authTime ?? 0)) {
+                    throw new Error('Session revoked by a password change');
+                }
+            }
+
             // Update token when session is updated
             if (trigger === 'update' && session) {
                 token.name = session.name;
                 token.email = session.email;
             }
 
+            // Re-read the verification flag on update so a freshly verified
+            // email is reflected without signing in again
+            if (trigger === 'update' && token.email && !token.isEmailVerified) {
+                try {
+                    await connectDB();
+                    const dbUser = await User.findOne({ email: token.email }).select('isEmailVerified').lean();
+                    token.isEmailVerified = !!dbUser?.isEmailVerified;
+                } catch (error) {
+                    console.error('Error refreshing email verification in JWT callback:', error);
+                }
+            }
+
             return token;
         },
 
@@ -316,7 +342,7 @@ declare module 'next-auth/jwt' {
         async session({ session, token }) {
             if (token) {
                 session.user.id = token.id as string;
-                session.user.role = (token.role as 'customer' | 'admin') || 'customer';
+                session.user.role = (token.role as UserRole) || 'customer';
                 session.user.isEmailVerified = (token.isEmailVerified as boolean) || false;
                 session.user.name = token.name as string;
                 session.user.email = token.email as string;
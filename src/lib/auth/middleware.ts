@@ -7,6 +7,7 @@
  * Features:
  * - Route protection middleware
  * - Role-based access control
+ * - Permission-based access control for staff roles
  * - Session validation
  * - Error handling
  * - Request context management
@@ -23,6 +24,7 @@ import {
     PublicApiHandler,
     AllowedRoles
 } from './types';
+import { Permission, hasAnyPermission } from './permissions';
 
 /**
  * Authentication middleware for API routes
@@ -86,6 +88,34 @@ export function withAdmin(handler: ProtectedApiHandler): PublicApiHandler {
     return withRoles(['admin'], handler);
 }
 
+/**
+ * Permission-based authorization middleware
+ * Allows any role that grants at least one of the permissions
+ * @param permissions - Required permission (or list of alternatives)
+ * @param handler - The API route handler to protect
+ * @returns Protected route handler with permission checking
+ */
+export function withPermission(
+    permissions: Permission | Permission[],
+    handler: ProtectedApiHandler
+): PublicApiHandler {
+    const required = Array.isArray(permissions) ? permissions : [permissions];
+
+    return withAuth(async (req: NextRequest, context: ApiRouteContext, user: SessionUser) => {
+        if (!hasAnyPermission(user.role, required)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: `Access denied. Required permission: ${required.join(' or ')}`
+                },
+                { status: 403 }
+            );
+        }
+
+        return handler(req, context, user);
+    });
+}
+
 /**
  * Customer or Admin middleware (authenticated users)
  * @param handler - The API route handler to protect
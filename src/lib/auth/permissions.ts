@@ -0,0 +1,134 @@
+/**
+ * Admin Permissions
+ *
+ * This file defines the permission model for the admin panel: the list of
+ * permissions and the named staff roles that grant them.
+ *
+ * Roles:
+ * - admin: everything
+ * - support: orders (including refunds), reviews and customers, but not
+ *   products, promo codes or site settings
+ * - designer: the customization queue and order file uploads only
+ * - customer: no admin access
+ *
+ * It has no server dependencies, so it is used both by the API middleware
+ * and by the admin layout to filter the sidebar.
+ */
+
+import type { UserRole } from './types';
+
+export const PERMISSIONS = [
+    'dashboard.read',
+    'analytics.read',           // Revenue and sales analytics
+    'orders.read',              // All orders
+    'orders.write',             // Status changes, customer emails, manual completion
+    'orders.refund',
+    'orders.files',             // Upload and deliver order files
+    'customizations.read',      // Orders that have customization work (designer queue)
+    'products.read',
+    'products.write',           // Products, categories, bundles, design files and product uploads
+    'promoCodes.read',
+    'promoCodes.write',
+    'reviews.moderate',
+    'users.read',
+    'users.write',              // Roles, activation and deletion
+    'settings.write',           // Site settings, hero, FAQ, featured clients
+    'audit.read',               // Admin audit log and its CSV export
+    'system.manage'             // Background jobs, webhook events, integrations
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+    admin: PERMISSIONS,
+    support: [
+        'dashboard.read',
+        'orders.read',
+        'orders.write',
+        'orders.refund',
+        'orders.files',
+        'customizations.read',
+        'reviews.moderate',
+        'users.read'
+    ],
+    designer: [
+        'customizations.read',
+        'orders.files'
+    ],
+    customer: []
+};
+
+// Roles that can sign in to the admin panel
+export const STAFF_ROLES: UserRole[] = ['admin', 'support', 'designer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    admin: 'مدير',
+    support: 'دعم العملاء',
+    designer: 'مصمم',
+    customer: 'عميل'
+};
+
+/**
+ * Get the permissions granted by a role
+ * @param role - The user role
+ * @returns The role's permissions (empty for unknown roles)
+ */
+export function getPermissions(role?: string | null): readonly Permission[] {
+    return ROLE_PERMISSIONS[role as UserRole] || [];
+}
+
+/**
+ * Check if a role grants a permission
+ * @param role - The user role
+ * @param permission - The permission to check
+ * @returns True if the role has the permission
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+    return getPermissions(role).includes(permission);
+}
+
+/**
+ * Check if a role grants at least one of the permissions
+ * @param role - The user role
+ * @param permissions - The permissions to check
+ * @returns True if the role has any of the permissions
+ */
+export function hasAnyPermission(role: string | null | undefined, permissions: Permission[]): boolean {
+    return permissions.some(permission => hasPermission(role, permission));
+}
+
+/**
+ * Get the permission needed to remove a design file
+ * @param file - The design file (or, for an upload with no record yet, whether it is an order file)
+ * @returns orders.files for order deliverables, products.write for catalogue files
+ */
+export function getDesignFilePermission(file: { isForOrder?: boolean }): Permission {
+    return file.isForOrder ? 'orders.files' : 'products.write';
+}
+
+/**
+ * Check if a role can access the admin panel
+ * @param role - The user role
+ * @returns True for staff roles
+ */
+export function isStaffRole(role?: string | null): boolean {
+    return STAFF_ROLES.includes(role as UserRole);
+}
+
+/**
+ * Get the orders a role may see
+ * @param role - The user role
+ * @returns An order query filter: all orders with orders.read, only orders
+ * with customization work with customizations.read, or null for no access
+ */
+export function getOrderScopeFilter(role?: string | null): Record<string, unknown> | null {
+    if (hasPermission(role, 'orders.read')) {
+        return {};
+    }
+
+    if (hasPermission(role, 'customizations.read')) {
+        return { customizationStatus: { $ne: 'none' } };
+    }
+
+    return null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Authentication Tokens
+ *
+ * This file generates the single-use tokens emailed to users for email
+ * verification and password reset. Only the SHA-256 hash of a token is stored
+ * in the database, so the plain token exists solely in the email link.
+ *
+ * It has no NextAuth dependency, so it can be used from the User model.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Generate a random token for email verification or password reset
+ * @param length - The length of the token (default: 32)
+ * @returns A random token string
+ */
+export function generateRandomToken(length: number = 32): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    const bytes = crypto.randomBytes(length);
+    let result = '';
+
+    for (let i = 0; i < length; i++) {
+        result += chars.charAt(bytes[i] % chars.length);
+    }
+
+    return result;
+}
+
+/**
+ * Hash a token before storing it, so a leaked database cannot be used to
+ * reset passwords or verify emails
+ * @param token - The plain token sent to the user
+ * @returns The SHA-256 hash of the token (hex)
+ */
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate an email verification token
+ * @returns An object with the plain token, its hash and expiry date
+ */
+export function generateEmailVerificationToken() {
+    const token = generateRandomToken(48);
+    const expires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+
+    return { token, hashedToken: hashToken(token), expires };
+}
+
+/**
+ * Generate a password reset token
+ * @returns An object with the plain token, its hash and expiry date
+ */
+export function generatePasswordResetToken() {
+    const token = generateRandomToken(48);
+    const expires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+
+    return { token, hashedToken: hashToken(token), expires };
+}
@@ -12,8 +12,9 @@ export interface SessionUser {
     id: string;
     name: string;
     email: string;
-    role: 'customer' | 'admin';
+    role: UserRole;
     avatar?: string;
+    image?: string;              // Profile image (set by NextAuth)
     isEmailVerified: boolean;
 }
 
@@ -51,5 +52,5 @@ export type RateLimitMiddleware = (
 ) => PublicApiHandler;
 
 // Role types
-export type UserRole = 'customer' | 'admin';
+export type UserRole = 'customer' | 'admin' | 'support' | 'designer';
 export type AllowedRoles = UserRole[];
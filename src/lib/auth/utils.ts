@@ -20,6 +20,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from './config';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import type { UserRole } from './types';
 
 /**
  * Get the current user session
@@ -49,7 +50,7 @@ export async function isAuthenticated(): Promise<boolean> {
  * @param requiredRole - The role to check for
  * @returns True if user has the required role, false otherwise
  */
-export async function hasRole(requiredRole: 'customer' | 'admin'): Promise<boolean> {
+export async function hasRole(requiredRole: UserRole): Promise<boolean> {
     const user = await getCurrentUser();
     return user?.role === requiredRole;
 }
@@ -59,7 +60,7 @@ export async function hasRole(requiredRole: 'customer' | 'admin'): Promise<boole
  * @param roles - Array of roles to check
  * @returns True if user has any of the specified roles
  */
-export async function hasAnyRole(roles: ('customer' | 'admin')[]): Promise<boolean> {
+export async function hasAnyRole(roles: UserRole[]): Promise<boolean> {
     const user = await getCurrentUser();
     return user ? roles.includes(user.role) : false;
 }/**
@@ -100,7 +101,7 @@ export async function requireAuth() {
  * @returns User session or throws error if not authorized
  */
 export async function requireRole(
-    requiredRole: 'customer' | 'seller' | 'admin'
+    requiredRole: UserRole
 ) {
     const user = await requireAuth();
 
@@ -178,43 +179,13 @@ export async function comparePassword(password: string, hashedPassword: string):
     return bcrypt.compare(password, hashedPassword);
 }
 
-/**
- * Generate a random token for email verification or password reset
- * @param length - The length of the token (default: 32)
- * @returns A random token string
- */
-export function generateRandomToken(length: number = 32): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let result = '';
-
-    for (let i = 0; i < length; i++) {
-        result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-
-    return result;
-}
-
-/**
- * Generate an email verification token
- * @returns An object with token and expiry date
- */
-export function generateEmailVerificationToken() {
-    const token = generateRandomToken(32);
-    const expires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-
-    return { token, expires };
-}
-
-/**
- * Generate a password reset token
- * @returns An object with token and expiry date
- */
-export function generatePasswordResetToken() {
-    const token = generateRandomToken(32);
-    const expires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
-
-    return { token, expires };
-}
+// Token helpers live in ./tokens so models can use them without importing NextAuth
+export {
+    generateRandomToken,
+    hashToken,
+    generateEmailVerificationToken,
+    generatePasswordResetToken
+} from './tokens';
 
 /**
  * Check if a token has expired
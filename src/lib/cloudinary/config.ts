@@ -68,6 +68,21 @@ export const deleteImage = async (publicId: string) => {
     }
 };
 
+// Utility function to read an uploaded image's stored URL and dimensions
+export const getImageDetails = async (publicId: string) => {
+    try {
+        const resource = await cloudinary.api.resource(publicId, { resource_type: 'image' });
+        return {
+            url: resource.secure_url as string,
+            width: Number(resource.width) || 0,
+            height: Number(resource.height) || 0
+        };
+    } catch (error) {
+        console.error('Error fetching image details from Cloudinary:', error);
+        return null;
+    }
+};
+
 // Utility function to upload file to Cloudinary
 export const uploadToCloudinary = async (file: Buffer | string, options: CloudinaryUploadOptions = {}) => {
     try {
@@ -0,0 +1,176 @@
+/**
+ * Audit Log Model Schema
+ *
+ * This file defines the AuditLog model for MongoDB using Mongoose.
+ * Every mutation made from the admin panel (products, categories, bundles,
+ * promo codes, users, site settings, homepage content, orders, background
+ * jobs and webhook events) writes one entry here,
+ * so changes can be traced back to the staff member who made them.
+ *
+ * Features:
+ * - Actor snapshot (kept even if the user is later renamed or deleted)
+ * - Action and entity reference
+ * - Field-level before/after diff
+ * - Request IP and user agent
+ *
+ * Use Cases:
+ * - "Who changed this price?"
+ * - "Who promoted this user to admin?"
+ * - Admin audit page and CSV export
+ */
+
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type AuditEntityType =
+    | 'product'
+    | 'category'
+    | 'bundle'
+    | 'designFile'
+    | 'promoCode'
+    | 'user'
+    | 'review'
+    | 'siteSettings'
+    | 'heroSlide'
+    | 'faqItem'
+    | 'featuredClient'
+    | 'order'
+    | 'job'
+    | 'webhookEvent';
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+    'product',
+    'category',
+    'bundle',
+    'designFile',
+    'promoCode',
+    'user',
+    'review',
+    'siteSettings',
+    'heroSlide',
+    'faqItem',
+    'featuredClient',
+    'order',
+    'job',
+    'webhookEvent'
+];
+
+// Interface for the user who made the change
+export interface IAuditActor {
+    userId: string;
+    name?: string;
+    email?: string;
+    role?: string;
+}
+
+// Interface for a single changed field
+export interface IAuditChange {
+    field: string;                // Dot path, e.g. "price" or "homepage.heroTitle"
+    before?: unknown;
+    after?: unknown;
+}
+
+// Interface for Audit Log document
+export interface IAuditLog extends Document {
+    _id: string;
+    actor: IAuditActor;
+    action: string;               // e.g. "product.update", "user.makeAdmin"
+    entityType: AuditEntityType;
+    entityId?: string;
+    entityLabel?: string;         // Human readable name at the time of the change
+    changes: IAuditChange[];
+    metadata?: Record<string, unknown>;
+    ip?: string;
+    userAgent?: string;
+    createdAt: Date;
+}
+
+const AuditActorSchema = new Schema<IAuditActor>({
+    userId: {
+        type: String,
+        ref: 'User',
+        required: [true, 'Actor user ID is required']
+    },
+    name: String,
+    email: String,
+    role: String
+}, { _id: false });
+
+const AuditChangeSchema = new Schema<IAuditChange>({
+    field: {
+        type: String,
+        required: true
+    },
+    before: Schema.Types.Mixed,
+    after: Schema.Types.Mixed
+}, { _id: false });
+
+// Audit Log Schema definition
+const AuditLogSchema = new Schema<IAuditLog>({
+    actor: {
+        type: AuditActorSchema,
+        required: [true, 'Actor is required']
+    },
+
+    action: {
+        type: String,
+        required: [true, 'Action is required'],
+        trim: true
+    },
+
+    entityType: {
+        type: String,
+        enum: AUDIT_ENTITY_TYPES,
+        required: [true, 'Entity type is required']
+    },
+
+    entityId: {
+        type: String,
+        default: null
+    },
+
+    entityLabel: {
+        type: String,
+        default: null
+    },
+
+    changes: {
+        type: [AuditChangeSchema],
+        default: []
+    },
+
+    metadata: {
+        type: Schema.Types.Mixed,
+        default: null
+    },
+
+    ip: {
+        type: String,
+        default: null
+    },
+
+    userAgent: {
+        type: String,
+        default: null
+    }
+
+}, {
+    timestamps: { createdAt: true, updatedAt: false }, // Entries are never edited
+    toJSON: {
+        virtuals: true,
+        transform: function (doc, ret: Record<string, unknown>) {
+            delete ret.__v;
+            return ret;
+        }
+    }
+});
+
+// Indexes for better query performance
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+AuditLogSchema.index({ 'actor.userId': 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1 });
+
+// Prevent recompilation in development
+const AuditLog: Model<IAuditLog> = mongoose.models.AuditLog || mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
+
+export default AuditLog;
@@ -0,0 +1,196 @@
+/**
+ * Bundle Model Schema
+ *
+ * This file defines the Bundle model schema for MongoDB using Mongoose.
+ * Bundles (packages) group several products that are sold together for a
+ * bundle price or a percentage off their individual prices. At checkout a
+ * bundle expands into one order item per product, so every design is
+ * delivered like an individually bought product.
+ *
+ * Features:
+ * - Two or more non-customizable products per bundle
+ * - Fixed bundle price or percentage discount
+ * - Card presentation (icon, color, image, feature list)
+ * - SEO-friendly slugs with redirect history
+ * - Visibility, featuring and ordering
+ *
+ * Use Cases:
+ * - Homepage packages section
+ * - Bundle detail pages and add-to-cart
+ * - Discounted multi-product sales
+ */
+
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { applySlugHistory } from '../slugHistory';
+
+export type BundlePricingType = 'fixed' | 'percentage';
+
+// Interface for Bundle document
+export interface IBundle extends Document {
+    _id: string;
+    name: string;
+    slug: string;
+    slugHistory: string[]; // Previous slugs, redirected to the current one
+    description?: string;
+
+    // Contents and pricing
+    productIds: mongoose.Types.ObjectId[]; // Products included, in display order
+    pricingType: BundlePricingType;
+    bundlePrice?: number;            // Price of the whole bundle in USD (fixed pricing)
+    discountPercentage?: number;     // Off the products' current prices (percentage pricing)
+
+    // Presentation
+    image?: string;
+    icon?: string;                   // Emoji shown on the package card
+    color?: string;                  // Hex accent color of the package card
+    features: string[];              // Bullet points shown on the package card
+
+    // Display and ordering
+    order: number;
+    isActive: boolean;
+    isFeatured: boolean;
+
+    // Admin management
+    createdBy: string; // Admin user ID
+    updatedBy?: string; // Admin user ID
+
+    // Timestamps
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Bundle Schema definition
+const BundleSchema = new Schema<IBundle>({
+    name: {
+        type: String,
+        required: [true, 'Bundle name is required'],
+        trim: true,
+        maxlength: [150, 'Bundle name cannot exceed 150 characters']
+    },
+
+    slug: {
+        type: String,
+        required: [true, 'Bundle slug is required'],
+        unique: true,
+        lowercase: true,
+        trim: true,
+        match: [/^[a-z0-9-]+$/, 'Slug can only contain lowercase letters, numbers, and hyphens']
+    },
+
+    description: {
+        type: String,
+        maxlength: [2000, 'Description cannot exceed 2000 characters'],
+        trim: true
+    },
+
+    productIds: {
+        type: [{ type: Schema.Types.ObjectId, ref: 'Product' }],
+        validate: {
+            validator: function (ids: mongoose.Types.ObjectId[]) {
+                const unique = new Set(ids.map(id => id.toString()));
+                return ids.length >= 2 && unique.size === ids.length;
+            },
+            message: 'A bundle needs at least two different products'
+        }
+    },
+
+    pricingType: {
+        type: String,
+        enum: ['fixed', 'percentage'],
+        required: [true, 'Bundle pricing type is required'],
+        default: 'percentage'
+    },
+
+    bundlePrice: {
+        type: Number,
+        min: [0, 'Bundle price cannot be negative'],
+        validate: {
+            validator: function (this: IBundle, value?: number) {
+                return this.pricingType !== 'fixed' || typeof value === 'number';
+            },
+            message: 'Bundle price is required for fixed pricing'
+        }
+    },
+
+    discountPercentage: {
+        type: Number,
+        min: [0, 'Discount percentage cannot be negative'],
+        max: [100, 'Discount percentage cannot exceed 100'],
+        validate: {
+            validator: function (this: IBundle, value?: number) {
+                return this.pricingType !== 'percentage' || typeof value === 'number';
+            },
+            message: 'Discount percentage is required for percentage pricing'
+        }
+    },
+
+    image: {
+        type: String,
+        trim: true
+    },
+
+    icon: {
+        type: String,
+        trim: true,
+        maxlength: [10, 'Icon cannot exceed 10 characters']
+    },
+
+    color: {
+        type: String,
+        validate: {
+            validator: function (v: string) {
+                if (!v) return true; // Optional field
+                return /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(v);
+            },
+            message: 'Please provide a valid hex color code'
+        }
+    },
+
+    features: [{
+        type: String,
+        trim: true,
+        maxlength: [100, 'Feature cannot exceed 100 characters']
+    }],
+
+    // Display and ordering
+    order: {
+        type: Number,
+        min: [0, 'Order cannot be negative'],
+        default: 0
+    },
+
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+
+    isFeatured: {
+        type: Boolean,
+        default: false
+    },
+
+    // Admin management
+    createdBy: {
+        type: String,
+        required: [true, 'Created by admin is required']
+    },
+
+    updatedBy: {
+        type: String
+    }
+}, {
+    timestamps: true // Automatically adds createdAt and updatedAt
+});
+
+// Indexes for better query performance
+// Note: slug index is automatically created by unique: true in schema
+BundleSchema.index({ isActive: 1, order: 1 });
+BundleSchema.index({ productIds: 1 });
+
+// Slug generation, collision resolution and redirect history
+applySlugHistory(BundleSchema, { fallbackPrefix: 'bundle' });
+
+// Prevent recompilation in development
+const Bundle: Model<IBundle> = mongoose.models.Bundle || mongoose.model<IBundle>('Bundle', BundleSchema);
+
+export default Bundle;
@@ -6,7 +6,7 @@
  * 
  * Features:
  * - Category organization and hierarchy
- * - SEO-friendly slugs and metadata
+ * - SEO-friendly slugs with redirect history and metadata
  * - Display customization (images, colors, icons)
  * - Visibility and status management
  * - Admin-only management with audit trails
@@ -21,12 +21,14 @@
  */
 
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { applySlugHistory } from '../slugHistory';
 
 // Interface for Category document
 export interface ICategory extends Document {
     _id: string;
     name: string;
     slug: string;
+    slugHistory: string[]; // Previous slugs, redirected to the current one
     description?: string;
     image?: string;
     imagePublicId?: string;
@@ -200,18 +202,8 @@ CategorySchema.virtual('fullPath').get(function (this: ICategory) {
     return this.name;
 });
 
-// Pre-save middleware to generate slug from name if not provided
-CategorySchema.pre('save', function (this: ICategory, next) {
-    if (this.isModified('name') && !this.slug) {
-        this.slug = this.name
-            .toLowerCase()
-            .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
-            .replace(/\s+/g, '-') // Replace spaces with hyphens
-            .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-            .trim();
-    }
-    next();
-});
+// Slug generation, collision resolution and redirect history
+applySlugHistory(CategorySchema, { fallbackPrefix: 'category' });
 
 // Interface for lean category query results
 interface LeanCategory {
@@ -0,0 +1,49 @@
+/**
+ * Counter Model Schema
+ *
+ * This file defines the Counter model for MongoDB using Mongoose.
+ * A counter is a named sequence that is incremented atomically with
+ * findOneAndUpdate, so concurrent requests never receive the same value.
+ *
+ * Features:
+ * - One document per sequence (e.g. "order:PD:2026")
+ * - Atomic increments with upsert
+ * - Safe under concurrent checkouts and unaffected by deleted documents
+ *
+ * Use Cases:
+ * - Yearly order number sequences
+ */
+
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+// Interface for Counter document
+export interface ICounter extends Omit<Document, '_id'> {
+    _id: string;                  // Sequence name
+    seq: number;                  // Last value handed out
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Counter Schema definition
+const CounterSchema = new Schema<ICounter>({
+    _id: {
+        type: String,
+        required: [true, 'Counter name is required'],
+        trim: true
+    },
+
+    seq: {
+        type: Number,
+        default: 0,
+        min: [0, 'Counter value cannot be negative']
+    }
+
+}, {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+    versionKey: false
+});
+
+// Prevent recompilation in development
+const Counter: Model<ICounter> = mongoose.models.Counter || mongoose.model<ICounter>('Counter', CounterSchema);
+
+export default Counter;
@@ -187,6 +187,8 @@
 //     }
 // });
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { STORAGE_DRIVERS } from '@/lib/storage/config';
+import { StorageDriver } from '@/lib/storage/types';
 
 // Interface for Design File document
 export interface IDesignFile extends Document {
@@ -195,7 +197,8 @@ export interface IDesignFile extends Document {
     orderId?: mongoose.Types.ObjectId; // **NEW**: Reference to a specific Order if it's an order-specific file
     isForOrder: boolean;         // **NEW**: Flag to distinguish between product files and order files
     fileName: string;            // Original filename
-    fileUrl: string;             // CDN/Storage URL
+    fileUrl: string;             // Storage path ("/uploads/...")
+    storageDriver: StorageDriver; // Storage backend holding the file
     fileType: string;            // File extension/type
     fileSize: number;            // File size in bytes
     mimeType: string;            // MIME type
@@ -255,6 +258,17 @@ const DesignFileSchema = new Schema<IDesignFile>({
         trim: true
     },
 
+    // Set to the configured driver by the upload routes. Records from before
+    // backends were pluggable have no value and live under public/ (local).
+    storageDriver: {
+        type: String,
+        enum: {
+            values: STORAGE_DRIVERS,
+            message: 'Invalid storage driver'
+        },
+        default: 'local'
+    },
+
     fileType: {
         type: String,
         required: [true, 'File type is required'],
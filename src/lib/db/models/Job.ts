@@ -0,0 +1,188 @@
+/**
+ * Job Model Schema
+ *
+ * This file defines the Job model for MongoDB using Mongoose.
+ * Background work that must not be lost (delivery, customer emails, admin
+ * and Discord notifications) is stored here and run by the job worker.
+ *
+ * Features:
+ * - Typed job payloads (see JobQueueService)
+ * - Idempotency key per order and event, so a job is never queued twice
+ * - Worker locking with stale lock recovery
+ * - Retries with exponential backoff
+ * - Dead-letter status after the last attempt
+ * - Attempt log for admin inspection and manual retry
+ *
+ * Use Cases:
+ * - Post-payment order delivery and delivery emails
+ * - Admin new order emails and Discord notifications
+ * - Admin failed jobs view
+ */
+
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead_letter';
+
+// Interface for a single run of a job
+export interface IJobAttempt {
+    attemptedAt: Date;
+    success: boolean;
+    message?: string;
+    durationMs?: number;
+    triggeredBy: string;          // Worker ID, 'inline' or the admin who retried it
+}
+
+// Interface for Job document
+export interface IJob extends Document {
+    _id: string;
+    type: string;                 // Handler name, e.g. "order.deliver"
+    payload: Record<string, unknown>;
+    idempotencyKey: string;       // e.g. "order:<id>:deliver" (unique)
+    status: JobStatus;
+    attempts: number;
+    maxAttempts: number;
+    runAt: Date;                  // When the job may next be picked up
+    lockedBy?: string;
+    lockedAt?: Date;
+    lastError?: string;
+    lastAttemptAt?: Date;
+    completedAt?: Date;
+    orderId?: string;             // Related order, for the admin view
+    orderNumber?: string;
+    attemptLog: IJobAttempt[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Attempts before a job is moved to the dead-letter queue
+export const JOB_MAX_ATTEMPTS = 8;
+
+const JobAttemptSchema = new Schema<IJobAttempt>({
+    attemptedAt: {
+        type: Date,
+        required: true
+    },
+    success: {
+        type: Boolean,
+        required: true
+    },
+    message: {
+        type: String,
+        maxlength: [2000, 'Attempt message cannot exceed 2000 characters']
+    },
+    durationMs: {
+        type: Number,
+        min: [0, 'Duration cannot be negative']
+    },
+    triggeredBy: {
+        type: String,
+        required: true
+    }
+}, { _id: false });
+
+// Job Schema definition
+const JobSchema = new Schema<IJob>({
+    type: {
+        type: String,
+        required: [true, 'Job type is required'],
+        trim: true
+    },
+
+    payload: {
+        type: Schema.Types.Mixed,
+        default: {}
+    },
+
+    idempotencyKey: {
+        type: String,
+        required: [true, 'Idempotency key is required'],
+        unique: true,
+        trim: true
+    },
+
+    status: {
+        type: String,
+        enum: ['pending', 'processing', 'completed', 'failed', 'dead_letter'],
+        default: 'pending'
+    },
+
+    attempts: {
+        type: Number,
+        default: 0,
+        min: [0, 'Attempts cannot be negative']
+    },
+
+    maxAttempts: {
+        type: Number,
+        default: JOB_MAX_ATTEMPTS,
+        min: [1, 'At least one attempt is required']
+    },
+
+    runAt: {
+        type: Date,
+        default: Date.now
+    },
+
+    lockedBy: {
+        type: String,
+        default: null
+    },
+
+    lockedAt: {
+        type: Date,
+        default: null
+    },
+
+    lastError: {
+        type: String,
+        default: null
+    },
+
+    lastAttemptAt: {
+        type: Date,
+        default: null
+    },
+
+    completedAt: {
+        type: Date,
+        default: null
+    },
+
+    orderId: {
+        type: String,
+        ref: 'Order',
+        default: null
+    },
+
+    orderNumber: {
+        type: String,
+        default: null
+    },
+
+    attemptLog: {
+        type: [JobAttemptSchema],
+        default: []
+    }
+
+}, {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+    toJSON: {
+        virtuals: true,
+        transform: function (doc, ret: Record<string, unknown>) {
+            delete ret.__v;
+            return ret;
+        }
+    }
+});
+
+// Indexes for better query performance
+JobSchema.index({ status: 1, runAt: 1 });
+JobSchema.index({ status: 1, lockedAt: 1 });
+JobSchema.index({ orderId: 1 });
+JobSchema.index({ type: 1 });
+JobSchema.index({ createdAt: -1 });
+
+// Prevent recompilation in development
+const Job: Model<IJob> = mongoose.models.Job || mongoose.model<IJob>('Job', JobSchema);
+
+export default Job;
@@ -10,9 +10,12 @@
  * - Email notification system
  * - Product customization tracking
  * - PayPal integration
- * - USD currency only
+ * - Charged in the base currency (USD unless configured), with the
+ *   customer's display currency and exchange rate recorded
  * - Promo code application
  * - Order status management
+ * - Refund ledger (full, partial and per-item refunds)
+ * - Customization proofs with customer approval and revision rounds
  * 
  * Order Flow:
  * 1. Customer places order with customizations
@@ -30,6 +33,33 @@
  */
 
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import type { CustomizationFieldType } from './Product';
+import { BASE_CURRENCY } from '@/lib/utils/currencyUtils';
+
+// Interface for the customer's answer to a product customization field
+export interface ICustomizationFieldValue {
+    key: string;                     // ICustomizationField.key
+    label: string;                   // Field label at time of order
+    type: CustomizationFieldType;
+    value?: string;                  // text, select option or color hex
+    url?: string;                    // image / logo upload
+    publicId?: string;
+    width?: number;                  // Uploaded image resolution in pixels
+    height?: number;
+}
+
+// Interface for a customization proof round on an order item
+export interface IProofRound {
+    round: number;                   // 1 for the first proof, +1 per revision
+    previewUrl: string;              // Watermarked preview shown to the customer
+    previewPublicId: string;         // Cloudinary public ID of the preview
+    designerNote?: string;           // Note from the designer for this round
+    uploadedBy: string;              // Staff member who uploaded the proof
+    uploadedAt: Date;
+    status: 'pending' | 'approved' | 'revision_requested';
+    customerComment?: string;        // Requested changes (or approval note)
+    respondedAt?: Date;              // When the customer approved or asked for changes
+}
 
 // Interface for Order Item (product within an order)
 export interface IOrderItem {
@@ -42,12 +72,16 @@ export interface IOrderItem {
     originalPrice: number;           // Original price before any discounts
     discountAmount: number;          // Discount applied to this item
     unitPrice: number;               // Final price per item after discount
-    totalPrice: number;              // unitPrice * quantity in USD
+    totalPrice: number;              // unitPrice * quantity in the order currency
 
     // Item-level promo code
     promoCode?: string;              // Promo code applied to this item
     promoDiscount?: number;          // Discount amount from promo for this item
 
+    // Bundle this item was bought in (its share of the bundle price is unitPrice)
+    bundleId?: string;               // Reference to Bundle
+    bundleName?: string;             // Bundle name at time of order
+
     // Customization data
     hasCustomizations: boolean;      // Does this item have customizations
     EnableCustomizations?: boolean;  // Can this item be customized (from product definition)
@@ -57,12 +91,21 @@ export interface IOrderItem {
         uploadedImages?: { url: string; publicId: string; }[]; // Uploaded images with Cloudinary info
         uploadedLogo?: { url: string; publicId: string; }; // Uploaded logo with Cloudinary info
         customizationNotes?: string;   // Customer notes for this item
+        fields?: ICustomizationFieldValue[]; // Answers to the product's customization fields
     };
 
     // Item-level delivery state
     deliveryStatus: 'pending' | 'auto_delivered' | 'custom_delivered' | 'awaiting_customization';
     deliveredAt?: Date;              // When this item was delivered
     deliveryNotes?: string;          // Notes about delivery (e.g., "Auto-delivered", "Custom work completed")
+
+    // Item-level refund state
+    refundedAt?: Date;               // When this item was refunded
+
+    // Customization proofs (final files unlock once the customer approves)
+    proofStatus: 'none' | 'awaiting_review' | 'revision_requested' | 'approved';
+    revisionRoundsAllowed?: number;  // Product.revisionRounds at time of order
+    proofs: IProofRound[];           // Every proof round, oldest first
 }
 
 // Interface for PayPal Address (received from PayPal after payment)
@@ -75,10 +118,66 @@ export interface IPayPalAddress {
     address?: string;                // Street address from PayPal
 }
 
+// Interface for a single priced line in the server-side pricing breakdown
+export interface IPricingLine {
+    productId: string;
+    quantity: number;
+    basePrice: number;               // Product.price at time of order
+    productDiscount: number;         // Per-unit product discount (discountAmount/discountPercentage)
+    unitPrice: number;               // Per-unit price after product discount
+    promoDiscount: number;           // Promo discount allocated to this line
+    lineTotal: number;               // unitPrice * quantity - promoDiscount
+}
+
+// Interface for the pricing breakdown computed by PricingService
+export interface IPricingBreakdown {
+    computedAt: Date;
+    subtotal: number;                // Sum of base prices
+    productDiscount: number;         // Total product-level discounts
+    promoDiscount: number;           // Total promo code discount
+    total: number;                   // Amount charged
+    promoCode?: string;              // Promo code applied, if any
+    clientTotal?: number;            // Total submitted by the checkout client
+    corrected: boolean;              // Client values differed and were replaced
+    mismatchedFields: string[];      // Which client totals differed
+    lines: IPricingLine[];
+}
+
+// Interface for the currency the customer saw prices in at checkout
+export interface IOrderDisplayCurrency {
+    code: string;                    // e.g. "SAR"
+    rate: number;                    // Units per one base currency unit at order time
+    totalPrice: number;              // totalPrice converted with rate, as shown to the customer
+}
+
+// Interface for a refunded item within a refund
+export interface IRefundItem {
+    itemIndex: number;               // Position of the item in Order.items
+    productId: string;
+    productName: string;
+    amount: number;                  // Amount refunded for this item (order currency)
+}
+
+// Interface for a refund ledger entry
+export interface IOrderRefund {
+    _id?: string;
+    amount: number;                  // Amount refunded (order currency)
+    currency: string;
+    items: IRefundItem[];            // Refunded items (empty for amount-only refunds)
+    paypalRefundId?: string;         // PayPal refund ID
+    status: 'pending' | 'completed' | 'failed';
+    source: 'admin' | 'paypal';      // Issued from the admin panel or reported by PayPal
+    reason?: string;
+    actor: string;                   // Admin who issued it, or "paypal"
+    error?: string;                  // PayPal error for failed refunds
+    createdAt: Date;
+    completedAt?: Date;
+}
+
 // Interface for Order document
 export interface IOrder extends Document {
     _id: string;
-    orderNumber: string;             // Human-friendly order number (e.g., "PD-2025-001")
+    orderNumber: string;             // Human-friendly order number (e.g., "PD-2026-00042")
 
     // Customer information
     customerId: string;              // Reference to User
@@ -92,21 +191,30 @@ export interface IOrder extends Document {
     // Order items
     items: IOrderItem[];             // Array of ordered products
 
-    // Pricing information (all in USD)
-    subtotal: number;                // Total before any discounts (USD)
-    totalPromoDiscount: number;      // Total discount from all promo codes (USD)
-    totalPrice: number;              // Final amount after all discounts (USD)
+    // Pricing information (all in the base currency, which is what PayPal charges)
+    subtotal: number;                // Total before any discounts
+    totalPromoDiscount: number;      // Total discount from all promo codes
+    totalPrice: number;              // Final amount after all discounts
+    currency: string;                // Base currency code the order is charged in
+    displayCurrency?: IOrderDisplayCurrency; // Currency the prices were shown in
 
     // Applied promo codes summary
     appliedPromoCodes: string[];     // List of all promo codes used in this order
 
+    // Server-side pricing snapshot
+    pricingBreakdown?: IPricingBreakdown;
+
     // Payment information
     paymentMethod: 'paypal';         // For now, only PayPal
-    paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded' | 'free';
+    paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed' | 'free';
     paypalTransactionId?: string;    // PayPal payment reference
     paypalOrderId?: string;          // PayPal order reference
     paidAt?: Date;                   // When payment was completed
 
+    // Refunds
+    refunds: IOrderRefund[];         // Refund ledger
+    refundedAmount: number;          // Sum of completed refunds (order currency)
+
     // Order status
     orderStatus: 'pending' | 'processing' | 'completed' | 'cancelled' | 'refunded' | 'awaiting_customization' | 'under_customization';
 
@@ -190,6 +298,129 @@ const PayPalAddressSchema = new Schema<IPayPalAddress>({
     }
 }, { _id: false });
 
+// Pricing Line Schema
+const PricingLineSchema = new Schema<IPricingLine>({
+    productId: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    basePrice: { type: Number, required: true, min: 0 },
+    productDiscount: { type: Number, default: 0, min: 0 },
+    unitPrice: { type: Number, required: true, min: 0 },
+    promoDiscount: { type: Number, default: 0, min: 0 },
+    lineTotal: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+// Pricing Breakdown Schema
+const PricingBreakdownSchema = new Schema<IPricingBreakdown>({
+    computedAt: { type: Date, default: Date.now },
+    subtotal: { type: Number, required: true, min: 0 },
+    productDiscount: { type: Number, default: 0, min: 0 },
+    promoDiscount: { type: Number, default: 0, min: 0 },
+    total: { type: Number, required: true, min: 0 },
+    promoCode: { type: String, uppercase: true, trim: true },
+    clientTotal: { type: Number },
+    corrected: { type: Boolean, default: false },
+    mismatchedFields: [{ type: String }],
+    lines: { type: [PricingLineSchema], default: [] }
+}, { _id: false });
+
+// Display Currency Schema
+const OrderDisplayCurrencySchema = new Schema<IOrderDisplayCurrency>({
+    code: { type: String, required: true, uppercase: true, trim: true },
+    rate: { type: Number, required: true, min: 0 },
+    totalPrice: { type: Number, required: true }
+}, { _id: false });
+
+// Refund Item Schema
+const RefundItemSchema = new Schema<IRefundItem>({
+    itemIndex: { type: Number, required: true, min: 0 },
+    productId: { type: String, required: true },
+    productName: { type: String, trim: true },
+    amount: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+// Refund Ledger Entry Schema
+const OrderRefundSchema = new Schema<IOrderRefund>({
+    amount: {
+        type: Number,
+        required: [true, 'Refund amount is required'],
+        min: [0.01, 'Refund amount must be positive']
+    },
+    currency: {
+        type: String,
+        default: BASE_CURRENCY
+    },
+    items: {
+        type: [RefundItemSchema],
+        default: []
+    },
+    paypalRefundId: {
+        type: String,
+        trim: true
+    },
+    status: {
+        type: String,
+        enum: {
+            values: ['pending', 'completed', 'failed'],
+            message: 'Invalid refund status'
+        },
+        default: 'pending'
+    },
+    source: {
+        type: String,
+        enum: ['admin', 'paypal'],
+        default: 'admin'
+    },
+    reason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Refund reason cannot exceed 500 characters']
+    },
+    actor: {
+        type: String,
+        required: [true, 'Refund actor is required'],
+        trim: true
+    },
+    error: {
+        type: String,
+        trim: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    completedAt: {
+        type: Date
+    }
+});
+
+// Proof Round Schema
+const ProofRoundSchema = new Schema<IProofRound>({
+    round: { type: Number, required: true, min: 1 },
+    previewUrl: { type: String, required: [true, 'Proof preview URL is required'], trim: true },
+    previewPublicId: { type: String, required: true, trim: true },
+    designerNote: {
+        type: String,
+        trim: true,
+        maxlength: [2000, 'Designer note cannot exceed 2000 characters']
+    },
+    uploadedBy: { type: String, required: true, trim: true },
+    uploadedAt: { type: Date, default: Date.now },
+    status: {
+        type: String,
+        enum: {
+            values: ['pending', 'approved', 'revision_requested'],
+            message: 'Invalid proof status'
+        },
+        default: 'pending'
+    },
+    customerComment: {
+        type: String,
+        trim: true,
+        maxlength: [2000, 'Customer comment cannot exceed 2000 characters']
+    },
+    respondedAt: { type: Date }
+}, { _id: false });
+
 // Order Item Schema
 const OrderItemSchema = new Schema<IOrderItem>({
     productId: {
@@ -242,6 +473,13 @@ const OrderItemSchema = new Schema<IOrderItem>({
         min: [0, 'Promo discount cannot be negative'],
         default: 0
     },
+    bundleId: {
+        type: String
+    },
+    bundleName: {
+        type: String,
+        trim: true
+    },
     hasCustomizations: {
         type: Boolean,
         default: false
@@ -267,7 +505,21 @@ const OrderItemSchema = new Schema<IOrderItem>({
             url: { type: String, trim: true },
             publicId: { type: String, trim: true }
         },
-        customizationNotes: { type: String, trim: true }
+        customizationNotes: { type: String, trim: true },
+        fields: {
+            type: [{
+                key: { type: String, trim: true, required: true },
+                label: { type: String, trim: true },
+                type: { type: String, enum: ['text', 'image', 'select', 'logo', 'color'], required: true },
+                value: { type: String, trim: true },
+                url: { type: String, trim: true },
+                publicId: { type: String, trim: true },
+                width: { type: Number },
+                height: { type: Number },
+                _id: false
+            }],
+            default: undefined
+        }
     },
     deliveryStatus: {
         type: String,
@@ -285,6 +537,26 @@ const OrderItemSchema = new Schema<IOrderItem>({
         type: String,
         trim: true,
         maxlength: [500, 'Delivery notes cannot exceed 500 characters']
+    },
+    refundedAt: {
+        type: Date,
+        default: null
+    },
+    proofStatus: {
+        type: String,
+        enum: {
+            values: ['none', 'awaiting_review', 'revision_requested', 'approved'],
+            message: 'Invalid proof status'
+        },
+        default: 'none'
+    },
+    revisionRoundsAllowed: {
+        type: Number,
+        min: [0, 'Revision rounds cannot be negative']
+    },
+    proofs: {
+        type: [ProofRoundSchema],
+        default: []
     }
 }, { _id: false });
 
@@ -368,6 +640,17 @@ const OrderSchema = new Schema<IOrder>({
         }
     },
 
+    currency: {
+        type: String,
+        default: BASE_CURRENCY,
+        uppercase: true
+    },
+
+    displayCurrency: {
+        type: OrderDisplayCurrencySchema,
+        required: false
+    },
+
     // Applied promo codes summary
     appliedPromoCodes: [{
         type: String,
@@ -375,6 +658,12 @@ const OrderSchema = new Schema<IOrder>({
         trim: true
     }],
 
+    // Server-side pricing snapshot
+    pricingBreakdown: {
+        type: PricingBreakdownSchema,
+        required: false
+    },
+
     // Payment information
     paymentMethod: {
         type: String,
@@ -388,7 +677,7 @@ const OrderSchema = new Schema<IOrder>({
     paymentStatus: {
         type: String,
         enum: {
-            values: ['pending', 'paid', 'failed', 'refunded', 'free'],
+            values: ['pending', 'paid', 'failed', 'refunded', 'partially_refunded', 'disputed', 'free'],
             message: 'Invalid payment status'
         },
         default: 'pending'
@@ -408,6 +697,18 @@ const OrderSchema = new Schema<IOrder>({
         type: Date
     },
 
+    // Refund ledger
+    refunds: {
+        type: [OrderRefundSchema],
+        default: []
+    },
+
+    refundedAmount: {
+        type: Number,
+        default: 0,
+        min: [0, 'Refunded amount cannot be negative']
+    },
+
     // Order status
     orderStatus: {
         type: String,
@@ -577,6 +878,7 @@ OrderSchema.index({ paymentStatus: 1 });
 OrderSchema.index({ createdAt: -1 });
 OrderSchema.index({ paidAt: -1 });
 OrderSchema.index({ paypalTransactionId: 1 });
+OrderSchema.index({ 'refunds.paypalRefundId': 1 });
 
 // Compound indexes
 OrderSchema.index({ customerId: 1, orderStatus: 1 });
@@ -586,25 +888,20 @@ OrderSchema.index({ deliveryType: 1 });
 OrderSchema.index({ requiresCustomWork: 1 });
 OrderSchema.index({ orderStatus: 1, deliveryType: 1 });
 
-// Pre-save middleware to generate order number
-OrderSchema.pre('save', async function (this: IOrder, next) {
+// Pre-validate middleware to allocate an order number from the yearly sequence
+// (runs before validation so the required check sees the generated number)
+OrderSchema.pre('validate', async function (this: IOrder, next) {
     if (this.isNew && !this.orderNumber) {
-        const year = new Date().getFullYear();
-        const count = await mongoose.model('Order').countDocuments({
-            createdAt: {
-                $gte: new Date(year, 0, 1),
-                $lt: new Date(year + 1, 0, 1)
-            }
-        });
-
-        this.orderNumber = `PD-${year}-${String(count + 1).padStart(3, '0')}`;
+        const { OrderNumberService } = await import('@/lib/services/orderNumberService');
+        this.orderNumber = await OrderNumberService.next();
     }
     next();
 });
 
 // Pre-save middleware to add status history
+// (skipped when the caller recorded the change itself, e.g. OrderStateMachine)
 OrderSchema.pre('save', function (this: IOrder, next) {
-    if (this.isModified('orderStatus') && !this.isNew) {
+    if (this.isModified('orderStatus') && !this.isNew && !this.isModified('orderHistory')) {
         this.orderHistory.push({
             status: this.orderStatus,
             timestamp: new Date(),
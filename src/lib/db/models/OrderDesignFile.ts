@@ -11,6 +11,7 @@
  * - Access control and validation
  * - Download analytics
  * - Expiration management
+ * - Final files held back until the customer approves the proof
  * 
  * Use Cases:
  * - Customer file access after purchase
@@ -31,6 +32,9 @@ export interface IOrderDesignFile extends Document {
     lastDownloadedAt?: Date;      // When last downloaded
     isActive: boolean;            // For soft delete
     expiresAt?: Date;             // Optional expiration for this order's access
+    revokedAt?: Date;             // When access was revoked (refund, reversal, dispute)
+    revokedReason?: 'refund' | 'reversal' | 'dispute';
+    pendingApproval: boolean;     // Inactive until the customer approves the item's proof
     createdAt: Date;
     updatedAt: Date;
 }
@@ -73,6 +77,22 @@ const OrderDesignFileSchema = new Schema<IOrderDesignFile>({
     expiresAt: {
         type: Date,
         default: null
+    },
+
+    revokedAt: {
+        type: Date,
+        default: null
+    },
+
+    revokedReason: {
+        type: String,
+        enum: ['refund', 'reversal', 'dispute'],
+        default: null
+    },
+
+    pendingApproval: {
+        type: Boolean,
+        default: false
     }
 
 }, {
@@ -95,6 +115,7 @@ OrderDesignFileSchema.index({ expiresAt: 1 });
 
 // Compound indexes
 OrderDesignFileSchema.index({ orderId: 1, isActive: 1 });
+OrderDesignFileSchema.index({ orderId: 1, pendingApproval: 1 });
 OrderDesignFileSchema.index({ designFileId: 1, isActive: 1 });
 OrderDesignFileSchema.index({ orderId: 1, designFileId: 1 }, { unique: true });
 
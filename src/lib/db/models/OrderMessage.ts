@@ -0,0 +1,141 @@
+/**
+ * Order Message Model Schema
+ *
+ * This file defines the OrderMessage model schema for MongoDB using Mongoose.
+ * Each document is one message in the conversation thread of an order.
+ *
+ * Features:
+ * - Messages from the customer or from staff (admin, support, designer)
+ * - Image attachments stored on Cloudinary
+ * - Internal staff notes that the customer never sees
+ * - Read receipts per side for unread counters
+ *
+ * Use Cases:
+ * - Discussing custom design work with the customer
+ * - Sharing reference images and drafts
+ * - Keeping a history of staff notes on an order
+ */
+
+import mongoose, { Document, Schema, Model } from 'mongoose'
+
+export type OrderMessageSender = 'customer' | 'staff'
+
+// Interface for message attachments
+export interface IOrderMessageAttachment {
+    url: string
+    publicId: string
+    fileName: string
+    mimeType: string
+    size: number                     // Bytes
+}
+
+// Interface for OrderMessage document
+export interface IOrderMessage extends Document {
+    _id: string
+    orderId: mongoose.Types.ObjectId
+    senderType: OrderMessageSender
+    senderId: string
+    senderName: string
+    body: string
+    attachments: IOrderMessageAttachment[]
+    isInternal: boolean              // Staff-only note, hidden from the customer
+    readByCustomerAt?: Date          // Set when the customer opens the thread
+    readByStaffAt?: Date             // Set when a staff member opens the thread
+    createdAt: Date
+    updatedAt: Date
+}
+
+const attachmentSchema = new Schema<IOrderMessageAttachment>(
+    {
+        url: {
+            type: String,
+            required: true,
+        },
+        publicId: {
+            type: String,
+            required: true,
+        },
+        fileName: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        mimeType: {
+            type: String,
+            required: true,
+        },
+        size: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+    },
+    { _id: false }
+)
+
+const orderMessageSchema = new Schema<IOrderMessage>(
+    {
+        orderId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Order',
+            required: true,
+        },
+        senderType: {
+            type: String,
+            enum: ['customer', 'staff'],
+            required: true,
+        },
+        senderId: {
+            type: String,
+            required: true,
+        },
+        senderName: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        body: {
+            type: String,
+            trim: true,
+            maxlength: [5000, 'Message cannot exceed 5000 characters'],
+            default: '',
+        },
+        attachments: {
+            type: [attachmentSchema],
+            default: [],
+        },
+        isInternal: {
+            type: Boolean,
+            default: false,
+        },
+        readByCustomerAt: {
+            type: Date,
+            default: null,
+        },
+        readByStaffAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+    }
+)
+
+// Indexes for better query performance
+orderMessageSchema.index({ orderId: 1, createdAt: 1 })
+orderMessageSchema.index({ orderId: 1, senderType: 1, readByStaffAt: 1 })
+orderMessageSchema.index({ orderId: 1, senderType: 1, isInternal: 1, readByCustomerAt: 1 })
+
+// A message needs text or at least one attachment
+orderMessageSchema.pre('validate', function (next) {
+    if (!this.body && this.attachments.length === 0) {
+        this.invalidate('body', 'Message must have text or an attachment')
+    }
+    next()
+})
+
+const OrderMessage: Model<IOrderMessage> =
+    mongoose.models.OrderMessage || mongoose.model<IOrderMessage>('OrderMessage', orderMessageSchema)
+
+export default OrderMessage
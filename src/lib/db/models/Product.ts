@@ -9,8 +9,9 @@
  * - Multi-image support and YouTube integration
  * - Color theme management for customer customization
  * - Logo upload and editing capabilities
+ * - Typed customization fields (text, image slots, dropdowns, logo, color)
  * - Category organization and pricing
- * - SEO optimization and marketing features 
+ * - SEO optimization (slugs with redirect history) and marketing features 
  * Use Cases:
  * - Design catalog management
  * - Customer design customization
@@ -20,6 +21,11 @@
  */
 
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { applySlugHistory } from '../slugHistory';
+import Review from './Review';
+
+// Revision requests allowed on customization proofs unless set per product
+export const DEFAULT_REVISION_ROUNDS = 2;
 
 // Interface for Color Theme
 export interface IColorTheme {
@@ -28,6 +34,22 @@ export interface IColorTheme {
     description?: string;  // e.g., "Main brand color"
 }
 
+// Customization field types admins can add to a product
+export type CustomizationFieldType = 'text' | 'image' | 'select' | 'logo' | 'color';
+
+// Interface for a product-defined customization field
+export interface ICustomizationField {
+    key: string;           // Stable machine name stored on orders, e.g. "team_name"
+    label: string;         // Shown to the customer and the designer
+    type: CustomizationFieldType;
+    required: boolean;
+    helpText?: string;
+    maxLength?: number;    // text: maximum characters
+    options?: string[];    // select: allowed choices
+    minWidth?: number;     // image / logo: minimum resolution in pixels
+    minHeight?: number;
+}
+
 // Interface for Product Images
 export interface IProductImage {
     url: string;
@@ -41,6 +63,7 @@ export interface IProduct extends Document {
     _id: string;
     name: string;
     slug: string;
+    slugHistory: string[]; // Previous slugs, redirected to the current one
     description?: string;
 
     // Media and customization
@@ -53,6 +76,8 @@ export interface IProduct extends Document {
     allowTextEditing: boolean;       // Show text input fields to customer
     allowImageReplacement: boolean;  // Show image upload to customer
     allowLogoUpload: boolean;        // Show logo upload to customer
+    revisionRounds: number;          // Revision requests allowed on customization proofs
+    customizationFields: ICustomizationField[]; // Inputs the customer fills in for this template
     // Color themes (only shown if allowColorChanges = true)
     colors: IColorTheme[];           // Theme colors for customer customization
 
@@ -72,12 +97,15 @@ export interface IProduct extends Document {
 
     // Analytics and stats
     purchaseCount: number;
-    rating: number;                  // Average rating (0-5)
-    reviewCount: number;
+    rating: number;                  // Average of approved reviews (0-5)
+    reviewCount: number;             // Approved reviews
 
     // Timestamps
     createdAt: Date;
     updatedAt: Date;
+
+    // Methods
+    updateRating(): Promise<IProduct>;
 }
 
 // Color Theme Schema
@@ -105,6 +133,54 @@ const ColorThemeSchema = new Schema<IColorTheme>({
     }
 }, { _id: false }); // Don't create separate _id for subdocuments
 
+// Customization Field Schema
+const CustomizationFieldSchema = new Schema<ICustomizationField>({
+    key: {
+        type: String,
+        required: [true, 'Field key is required'],
+        trim: true,
+        match: [/^[a-z0-9_]+$/, 'Field key can only contain lowercase letters, numbers, and underscores'],
+        maxlength: [50, 'Field key cannot exceed 50 characters']
+    },
+    label: {
+        type: String,
+        required: [true, 'Field label is required'],
+        trim: true,
+        maxlength: [100, 'Field label cannot exceed 100 characters']
+    },
+    type: {
+        type: String,
+        enum: ['text', 'image', 'select', 'logo', 'color'],
+        required: [true, 'Field type is required']
+    },
+    required: {
+        type: Boolean,
+        default: false
+    },
+    helpText: {
+        type: String,
+        trim: true,
+        maxlength: [300, 'Help text cannot exceed 300 characters']
+    },
+    maxLength: {
+        type: Number,
+        min: [1, 'Max length must be at least 1'],
+        max: [5000, 'Max length cannot exceed 5000']
+    },
+    options: {
+        type: [{ type: String, trim: true, maxlength: [100, 'Option cannot exceed 100 characters'] }],
+        default: undefined
+    },
+    minWidth: {
+        type: Number,
+        min: [0, 'Minimum width cannot be negative']
+    },
+    minHeight: {
+        type: Number,
+        min: [0, 'Minimum height cannot be negative']
+    }
+}, { _id: false });
+
 // Product Image Schema
 const ProductImageSchema = new Schema<IProductImage>({
     url: {
@@ -206,6 +282,24 @@ const ProductSchema = new Schema<IProduct>({
         default: false
     },
 
+    revisionRounds: {
+        type: Number,
+        default: DEFAULT_REVISION_ROUNDS,
+        min: [0, 'Revision rounds cannot be negative'],
+        max: [10, 'Revision rounds cannot exceed 10']
+    },
+
+    customizationFields: {
+        type: [CustomizationFieldSchema],
+        default: [],
+        validate: {
+            validator: function (fields: ICustomizationField[]) {
+                return new Set(fields.map(field => field.key)).size === fields.length;
+            },
+            message: 'Customization field keys must be unique'
+        }
+    },
+
     // Color themes (only shown if allowColorChanges = true)
     colors: {
         type: [ColorThemeSchema],
@@ -324,18 +418,8 @@ ProductSchema.index({
     tags: 'text'
 });
 
-// Pre-save middleware to generate slug from name if not provided
-ProductSchema.pre('save', function (this: IProduct, next) {
-    if (this.isModified('name') && !this.slug) {
-        this.slug = this.name
-            .toLowerCase()
-            .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
-            .replace(/\s+/g, '-') // Replace spaces with hyphens
-            .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-            .trim();
-    }
-    next();
-});
+// Slug generation, collision resolution and redirect history
+applySlugHistory(ProductSchema, { fallbackPrefix: 'product' });
 
 // Pre-save middleware for final price calculation
 ProductSchema.pre('save', function (this: IProduct, next) {
@@ -394,15 +478,11 @@ ProductSchema.statics.getByCategory = async function (categoryId: string, limit
         .lean();
 };
 
-// Static method to search products
+// Static method to search products (Arabic-aware and typo tolerant, see ProductSearchService)
 ProductSchema.statics.search = async function (query: string, limit = 20) {
-    return this.find({
-        $text: { $search: query },
-        isActive: true
-    })
-        .sort({ score: { $meta: 'textScore' } })
-        .limit(limit)
-        .lean();
+    const { ProductSearchService } = await import('@/lib/services/productSearchService');
+    const result = await ProductSearchService.search({ q: query, limit });
+    return result.products;
 };
 
 // Instance method to increment purchase count
@@ -411,13 +491,15 @@ ProductSchema.methods.incrementPurchases = async function () {
     return this.save();
 };
 
-// Instance method to update rating
-ProductSchema.methods.updateRating = async function (newRating: number) {
-    // This is a simplified rating calculation
-    // In a real app, you'd calculate based on all reviews
-    const totalRating = (this.rating * this.reviewCount) + newRating;
-    this.reviewCount += 1;
-    this.rating = totalRating / this.reviewCount;
+// Instance method to recompute rating from approved reviews
+ProductSchema.methods.updateRating = async function () {
+    const [stats] = await Review.aggregate<{ average: number; count: number }>([
+        { $match: { productId: this._id, status: 'approved' } },
+        { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } }
+    ]);
+
+    this.reviewCount = stats?.count || 0;
+    this.rating = stats ? Math.round(stats.average * 10) / 10 : 0;
     return this.save();
 };
 
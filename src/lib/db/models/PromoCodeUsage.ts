@@ -210,6 +210,9 @@ PromoCodeUsageSchema.virtual('usageAgeInDays').get(function (this: IPromoCodeUsa
 });
 
 // Prevent recompilation in development
-const PromoCodeUsage = mongoose.models.PromoCodeUsage || mongoose.model<IPromoCodeUsage, IPromoCodeUsageModel>('PromoCodeUsage', PromoCodeUsageSchema);
+// Looking the registered model up through mongoose.model keeps the statics typed
+const PromoCodeUsage = mongoose.models.PromoCodeUsage
+    ? mongoose.model<IPromoCodeUsage, IPromoCodeUsageModel>('PromoCodeUsage')
+    : mongoose.model<IPromoCodeUsage, IPromoCodeUsageModel>('PromoCodeUsage', PromoCodeUsageSchema);
 
 export default PromoCodeUsage;
@@ -1,15 +1,15 @@
 /**
  * Review Model Schema
- * 
+ *
  * This file defines the Review model schema for MongoDB using Mongoose.
  * Simple review system for digital design products.
- * 
+ *
  * Features:
- * - Product reviews with ratings
- * - Customer feedback
- * - Admin moderation
- * - Review verification
- * 
+ * - Product reviews with ratings (one per customer per product)
+ * - Store-wide testimonials (reviews without a product)
+ * - Verified purchase badge for delivered order items
+ * - Admin moderation (pending / approved / rejected)
+ *
  * Use Cases:
  * - Product ratings and reviews
  * - Customer feedback collection
@@ -17,9 +17,32 @@
  * - Quality improvement insights
  */
 
-import mongoose from 'mongoose'
+import mongoose, { Document, Schema, Model } from 'mongoose'
 
-const reviewSchema = new mongoose.Schema(
+export type ReviewStatus = 'pending' | 'approved' | 'rejected'
+
+// Interface for Review document
+export interface IReview extends Document {
+    _id: string
+    name: string
+    rating: number                   // 1-5
+    text: string
+    avatar: string
+    productId?: mongoose.Types.ObjectId // Reviewed product (none for store testimonials)
+    status: ReviewStatus
+    isActive: boolean                // Shown publicly (kept in sync with status)
+    isVerifiedPurchase: boolean      // Reviewer has a delivered order item for the product
+    order: number                    // Display order for testimonials
+    orderId?: string                 // Order the review was written for
+    userId?: string
+    moderatedBy?: string
+    moderatedAt?: Date
+    rejectionReason?: string
+    createdAt: Date
+    updatedAt: Date
+}
+
+const reviewSchema = new Schema<IReview>(
     {
         name: {
             type: String,
@@ -36,14 +59,29 @@ const reviewSchema = new mongoose.Schema(
             type: String,
             required: true,
             trim: true,
+            maxlength: [2000, 'Review cannot exceed 2000 characters'],
         },
         avatar: {
             type: String,
             default: '👤',
         },
+        productId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Product',
+            default: null,
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'approved', 'rejected'],
+            default: 'pending',
+        },
         isActive: {
             type: Boolean,
-            default: true,
+            default: false,
+        },
+        isVerifiedPurchase: {
+            type: Boolean,
+            default: false,
         },
         order: {
             type: Number,
@@ -57,10 +95,42 @@ const reviewSchema = new mongoose.Schema(
             type: String,
             default: null,
         },
+        moderatedBy: {
+            type: String,
+            default: null,
+        },
+        moderatedAt: {
+            type: Date,
+            default: null,
+        },
+        rejectionReason: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Rejection reason cannot exceed 500 characters'],
+            default: null,
+        },
     },
     {
         timestamps: true,
     }
 )
 
-export default mongoose.models.Review || mongoose.model('Review', reviewSchema)
+// Indexes for better query performance
+reviewSchema.index(
+    { userId: 1, productId: 1 },
+    { unique: true, partialFilterExpression: { productId: { $type: 'objectId' }, userId: { $type: 'string' } } }
+)
+reviewSchema.index({ productId: 1, status: 1, createdAt: -1 })
+reviewSchema.index({ status: 1, createdAt: -1 })
+
+// Only approved reviews are shown publicly
+reviewSchema.pre('save', function (next) {
+    if (this.isNew || this.isModified('status')) {
+        this.isActive = this.status === 'approved'
+    }
+    next()
+})
+
+const Review: Model<IReview> = mongoose.models.Review || mongoose.model<IReview>('Review', reviewSchema)
+
+export default Review
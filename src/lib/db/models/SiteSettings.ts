@@ -1,5 +1,34 @@
 import mongoose, { Document, Schema } from 'mongoose'
 
+// Live homepage statistics (see storeStatsService)
+export type StoreStatKey =
+    | 'sales'
+    | 'customers'
+    | 'designsDelivered'
+    | 'products'
+    | 'categories'
+    | 'reviews'
+    | 'averageRating'
+
+export interface IStoreStatMetric {
+    key: StoreStatKey
+    enabled: boolean
+    label?: string       // Overrides the default label
+    subtitle?: string
+    roundTo?: number     // Round down to a multiple, e.g. 100 shows 537 as 500
+    showPlus?: boolean   // Prefix with "+", e.g. "+500"
+    minimum?: number     // Hidden until the real value reaches this
+}
+
+// Display currencies (see currencyUtils); prices are stored in the base currency
+export type CurrencyCode = 'USD' | 'SAR' | 'AED' | 'KWD' | 'QAR' | 'BHD' | 'OMR' | 'EGP' | 'EUR'
+
+export interface ICurrencyRate {
+    code: CurrencyCode
+    rate: number         // Units of this currency per one unit of the base currency
+    enabled: boolean     // Offered in the storefront currency switcher
+}
+
 export interface ISiteSettings extends Document {
     branding: {
         logoUrl?: string
@@ -28,6 +57,18 @@ export interface ISiteSettings extends Document {
         imagePublicId?: string
         alt?: string
     }
+    checkout?: {
+        requireVerifiedEmail?: boolean
+    }
+    storeStats?: {
+        metrics?: IStoreStatMetric[] // Display order; unset uses the defaults
+        revalidateSeconds?: number
+    }
+    currency?: {
+        rates?: ICurrencyRate[]
+        source?: 'manual' | 'import' // How the rates were last set
+        ratesUpdatedAt?: Date
+    }
     updatedAt: Date
     updatedBy?: string
 }
@@ -61,6 +102,50 @@ const SiteSettingsSchema = new Schema<ISiteSettings>(
             imagePublicId: String,
             alt: String,
         },
+        checkout: {
+            requireVerifiedEmail: { type: Boolean, default: false },
+        },
+        storeStats: {
+            metrics: {
+                type: [
+                    {
+                        _id: false,
+                        key: {
+                            type: String,
+                            enum: ['sales', 'customers', 'designsDelivered', 'products', 'categories', 'reviews', 'averageRating'],
+                            required: true,
+                        },
+                        enabled: { type: Boolean, default: true },
+                        label: String,
+                        subtitle: String,
+                        roundTo: { type: Number, min: 0 },
+                        showPlus: { type: Boolean, default: true },
+                        minimum: { type: Number, min: 0 },
+                    },
+                ],
+                default: undefined,
+            },
+            revalidateSeconds: { type: Number, min: 0 },
+        },
+        currency: {
+            rates: {
+                type: [
+                    {
+                        _id: false,
+                        code: {
+                            type: String,
+                            enum: ['USD', 'SAR', 'AED', 'KWD', 'QAR', 'BHD', 'OMR', 'EGP', 'EUR'],
+                            required: true,
+                        },
+                        rate: { type: Number, required: true, min: 0 },
+                        enabled: { type: Boolean, default: true },
+                    },
+                ],
+                default: undefined,
+            },
+            source: { type: String, enum: ['manual', 'import'] },
+            ratesUpdatedAt: Date,
+        },
         updatedAt: { type: Date, default: Date.now },
         updatedBy: { type: String },
     },
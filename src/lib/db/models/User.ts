@@ -12,11 +12,14 @@
  * - Store-specific fields (seller profile, preferences)
  * - Secure password handling with bcrypt
  * - Email verification system
- * - User roles (customer, seller, admin)
+ * - User roles (customer, admin and the support / designer staff roles)
  */
 
 import mongoose, { Document, Schema, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { generateEmailVerificationToken, generatePasswordResetToken } from '@/lib/auth/tokens';
+import { CURRENCY_CODES } from '@/lib/utils/currencyUtils';
+import type { CurrencyCode } from './SiteSettings';
 
 // Interface for User document
 export interface IUser extends Document {
@@ -26,12 +29,16 @@ export interface IUser extends Document {
     password?: string;
     avatar?: string;
     bio?: string;
-    role: 'customer' | 'admin';
+    role: 'customer' | 'admin' | 'support' | 'designer';
     isActive: boolean;
     isEmailVerified: boolean;
-    emailVerificationToken?: string;
-    resetPasswordToken?: string;
+    emailVerificationToken?: string;        // SHA-256 hash of the token sent by email
+    emailVerificationExpires?: Date;
+    emailVerificationSentAt?: Date;         // Used to throttle verification emails
+    resetPasswordToken?: string;            // SHA-256 hash of the token sent by email
     resetPasswordExpires?: Date;
+    resetPasswordRequestedAt?: Date;        // Used to throttle reset emails
+    passwordChangedAt?: Date;
 
     // Social media login fields
     googleId?: string;
@@ -43,6 +50,7 @@ export interface IUser extends Document {
         emailNotifications: boolean;
         marketingEmails: boolean;
         theme: 'light' | 'dark' | 'system';
+        currency?: CurrencyCode;             // Display currency picked in the storefront
     };
 
     // Timestamps
@@ -53,6 +61,7 @@ export interface IUser extends Document {
     // Methods
     comparePassword(candidatePassword: string): Promise<boolean>;
     generatePasswordResetToken(): string;
+    generateEmailVerificationToken(): string;
 }
 
 // User Schema definition
@@ -95,7 +104,7 @@ const UserSchema = new Schema<IUser>({
 
     role: {
         type: String,
-        enum: ['customer', 'admin'],
+        enum: ['customer', 'admin', 'support', 'designer'],
         default: 'customer'
     },
 
@@ -109,9 +118,25 @@ const UserSchema = new Schema<IUser>({
         default: false
     },
 
-    emailVerificationToken: String,
-    resetPasswordToken: String,
-    resetPasswordExpires: Date,
+    emailVerificationToken: {
+        type: String,
+        select: false
+    },
+    emailVerificationExpires: {
+        type: Date,
+        select: false
+    },
+    emailVerificationSentAt: Date,
+    resetPasswordToken: {
+        type: String,
+        select: false
+    },
+    resetPasswordExpires: {
+        type: Date,
+        select: false
+    },
+    resetPasswordRequestedAt: Date,
+    passwordChangedAt: Date,
 
     // Social media login IDs
     googleId: String,
@@ -131,6 +156,10 @@ const UserSchema = new Schema<IUser>({
             type: String,
             enum: ['light', 'dark', 'system'],
             default: 'system'
+        },
+        currency: {
+            type: String,
+            enum: CURRENCY_CODES
         }
     },
 
@@ -141,6 +170,7 @@ const UserSchema = new Schema<IUser>({
         transform: function (doc, ret: Record<string, unknown>) {
             delete ret.password;
             delete ret.emailVerificationToken;
+            delete ret.emailVerificationExpires;
             delete ret.resetPasswordToken;
             delete ret.resetPasswordExpires;
             return ret;
@@ -154,6 +184,8 @@ UserSchema.index({ googleId: 1 });
 UserSchema.index({ twitterId: 1 });
 UserSchema.index({ role: 1 });
 UserSchema.index({ createdAt: -1 });
+UserSchema.index({ resetPasswordToken: 1 }, { sparse: true });
+UserSchema.index({ emailVerificationToken: 1 }, { sparse: true });
 
 // Hash password before saving
 UserSchema.pre('save', async function (next) {
@@ -173,15 +205,26 @@ UserSchema.methods.comparePassword = async function (candidatePassword: string):
     return bcrypt.compare(candidatePassword, this.password);
 };
 
-// Generate password reset token
+// Generate password reset token (only its hash is stored; the plain token is emailed)
 UserSchema.methods.generatePasswordResetToken = function (): string {
-    const resetToken = Math.random().toString(36).substring(2, 15) +
-        Math.random().toString(36).substring(2, 15);
+    const { token, hashedToken, expires } = generatePasswordResetToken();
+
+    this.resetPasswordToken = hashedToken;
+    this.resetPasswordExpires = expires;
+    this.resetPasswordRequestedAt = new Date();
+
+    return token;
+};
+
+// Generate email verification token (only its hash is stored; the plain token is emailed)
+UserSchema.methods.generateEmailVerificationToken = function (): string {
+    const { token, hashedToken, expires } = generateEmailVerificationToken();
 
-    this.resetPasswordToken = bcrypt.hashSync(resetToken, 10);
-    this.resetPasswordExpires = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
+    this.emailVerificationToken = hashedToken;
+    this.emailVerificationExpires = expires;
+    this.emailVerificationSentAt = new Date();
 
-    return resetToken;
+    return token;
 };
 
 // Prevent recompilation in development
@@ -0,0 +1,196 @@
+/**
+ * Webhook Event Model Schema
+ *
+ * This file defines the WebhookEvent model for MongoDB using Mongoose.
+ * Every verified webhook delivery is stored here before it is processed,
+ * so events are never lost when processing fails or the order they refer
+ * to has not been linked yet.
+ *
+ * Features:
+ * - Raw payload storage
+ * - De-duplication by provider event ID
+ * - Processing attempts with exponential backoff
+ * - Dead-letter status after the last attempt
+ * - Attempt log for admin inspection and manual replay
+ *
+ * Use Cases:
+ * - PayPal payment, refund and dispute webhooks
+ * - Payments held for review that arrive before the order is linked
+ * - Admin webhook monitoring and replay
+ */
+
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead_letter';
+
+// Interface for a single processing attempt
+export interface IWebhookAttempt {
+    attemptedAt: Date;
+    success: boolean;
+    message?: string;
+    triggeredBy: string;          // 'webhook', 'retry' or the admin who replayed it
+}
+
+// Interface for Webhook Event document
+export interface IWebhookEvent extends Document {
+    _id: string;
+    provider: 'paypal';
+    eventId: string;              // Provider event ID (unique)
+    eventType: string;            // e.g. "PAYMENT.CAPTURE.COMPLETED"
+    transmissionId?: string;      // Delivery the event first arrived with
+    resourceId?: string;          // Capture / refund / order ID from the payload
+    paypalOrderId?: string;       // Related PayPal order ID, used to match the order
+    payload: Record<string, unknown>; // Raw webhook body
+    status: WebhookEventStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt?: Date;         // When the retry runner should pick it up again
+    lastError?: string;
+    lastAttemptAt?: Date;
+    processedAt?: Date;
+    orderId?: string;             // Matched order
+    orderNumber?: string;
+    attemptLog: IWebhookAttempt[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Attempts before an event is moved to the dead-letter queue
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const WebhookAttemptSchema = new Schema<IWebhookAttempt>({
+    attemptedAt: {
+        type: Date,
+        required: true
+    },
+    success: {
+        type: Boolean,
+        required: true
+    },
+    message: {
+        type: String,
+        maxlength: [2000, 'Attempt message cannot exceed 2000 characters']
+    },
+    triggeredBy: {
+        type: String,
+        required: true
+    }
+}, { _id: false });
+
+// Webhook Event Schema definition
+const WebhookEventSchema = new Schema<IWebhookEvent>({
+    provider: {
+        type: String,
+        enum: ['paypal'],
+        default: 'paypal'
+    },
+
+    eventId: {
+        type: String,
+        required: [true, 'Event ID is required'],
+        unique: true,
+        trim: true
+    },
+
+    eventType: {
+        type: String,
+        required: [true, 'Event type is required'],
+        trim: true
+    },
+
+    transmissionId: {
+        type: String,
+        default: null
+    },
+
+    resourceId: {
+        type: String,
+        default: null
+    },
+
+    paypalOrderId: {
+        type: String,
+        default: null
+    },
+
+    payload: {
+        type: Schema.Types.Mixed,
+        required: [true, 'Payload is required']
+    },
+
+    status: {
+        type: String,
+        enum: ['pending', 'processing', 'processed', 'failed', 'dead_letter'],
+        default: 'pending'
+    },
+
+    attempts: {
+        type: Number,
+        default: 0,
+        min: [0, 'Attempts cannot be negative']
+    },
+
+    maxAttempts: {
+        type: Number,
+        default: WEBHOOK_MAX_ATTEMPTS,
+        min: [1, 'At least one attempt is required']
+    },
+
+    nextAttemptAt: {
+        type: Date,
+        default: Date.now
+    },
+
+    lastError: {
+        type: String,
+        default: null
+    },
+
+    lastAttemptAt: {
+        type: Date,
+        default: null
+    },
+
+    processedAt: {
+        type: Date,
+        default: null
+    },
+
+    orderId: {
+        type: String,
+        ref: 'Order',
+        default: null
+    },
+
+    orderNumber: {
+        type: String,
+        default: null
+    },
+
+    attemptLog: {
+        type: [WebhookAttemptSchema],
+        default: []
+    }
+
+}, {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+    toJSON: {
+        virtuals: true,
+        transform: function (doc, ret: Record<string, unknown>) {
+            delete ret.__v;
+            return ret;
+        }
+    }
+});
+
+// Indexes for better query performance
+WebhookEventSchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookEventSchema.index({ paypalOrderId: 1 });
+WebhookEventSchema.index({ resourceId: 1 });
+WebhookEventSchema.index({ eventType: 1 });
+WebhookEventSchema.index({ createdAt: -1 });
+
+// Prevent recompilation in development
+const WebhookEvent: Model<IWebhookEvent> = mongoose.models.WebhookEvent || mongoose.model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
+
+export default WebhookEvent;
@@ -25,6 +25,12 @@ export { default as SiteSettings } from './SiteSettings';
 export { default as HeroSlide } from './HeroSlide';
 export { default as FAQItem } from './FAQItem';
 export { default as FeaturedClient } from './FeaturedClient';
+export { default as WebhookEvent } from './WebhookEvent';
+export { default as Counter } from './Counter';
+export { default as Job } from './Job';
+export { default as AuditLog } from './AuditLog';
+export { default as OrderMessage } from './OrderMessage';
+export { default as Bundle } from './Bundle';
 
 // Type exports for better TypeScript support
 export type { IUser } from './User';
@@ -39,6 +45,12 @@ export type { ISiteSettings } from './SiteSettings';
 export type { IHeroSlide } from './HeroSlide';
 export type { IFAQItem } from './FAQItem';
 export type { IFeaturedClient } from './FeaturedClient';
+export type { IWebhookEvent } from './WebhookEvent';
+export type { ICounter } from './Counter';
+export type { IJob } from './Job';
+export type { IAuditLog } from './AuditLog';
+export type { IOrderMessage } from './OrderMessage';
+export type { IBundle } from './Bundle';
 
 // Re-export commonly used Mongoose types
 export type { Document, Schema, Model } from 'mongoose';
@@ -0,0 +1,108 @@
+/**
+ * Slug History
+ *
+ * This file adds automatic slug handling to a Mongoose schema. Products and
+ * categories share links on Discord/TikTok, so a renamed slug must keep
+ * working: every slug a document has used is kept in `slugHistory` and
+ * routes redirect old slugs to the current one.
+ *
+ * Features:
+ * - Slug generated from the name (Arabic transliterated) when missing
+ * - Automatic collision resolution with numeric suffixes (-2, -3, ...)
+ * - Previous slugs recorded in an indexed `slugHistory` array
+ * - Lookup helper for resolving an old slug to the current one
+ */
+
+import { FilterQuery, Model, Schema } from 'mongoose';
+import { generateSlug } from '@/lib/utils/slugUtils';
+
+interface SlugDocument {
+    _id: unknown;
+    name: string;
+    slug: string;
+    slugHistory: string[];
+    isNew: boolean;
+    isModified(path: string): boolean;
+    $locals: Record<string, unknown>;
+    constructor: unknown;
+}
+
+interface SlugHistoryOptions {
+    // Used when the name yields no usable characters, e.g. "product-3f9a1c"
+    fallbackPrefix: string;
+}
+
+/**
+ * Find a slug not used (currently or historically) by any other document
+ */
+async function findAvailableSlug(model: Model<SlugDocument>, base: string, excludeId: unknown): Promise<string> {
+    let candidate = base;
+    let suffix = 2;
+
+    while (await model.exists({
+        _id: { $ne: excludeId },
+        $or: [{ slug: candidate }, { slugHistory: candidate }]
+    })) {
+        candidate = `${base}-${suffix}`;
+        suffix += 1;
+    }
+
+    return candidate;
+}
+
+/**
+ * Add slug generation, collision resolution and slug history to a schema
+ */
+export function applySlugHistory(schema: Schema, options: SlugHistoryOptions): void {
+    schema.add({
+        slugHistory: {
+            type: [String],
+            default: []
+        }
+    });
+    schema.index({ slugHistory: 1 });
+
+    // Remember the stored slug so a change can be recorded on save
+    schema.post('init', function (this: SlugDocument) {
+        this.$locals.persistedSlug = this.slug;
+    });
+
+    // Runs before validation so the required/match rules see the final slug
+    schema.pre('validate', async function (this: SlugDocument) {
+        if (!this.isNew && !this.isModified('slug')) {
+            return;
+        }
+
+        const base = generateSlug(this.slug || this.name || '')
+            || `${options.fallbackPrefix}-${String(this._id).slice(-6)}`;
+        const model = this.constructor as Model<SlugDocument>;
+        this.slug = await findAvailableSlug(model, base, this._id);
+
+        const previous = this.$locals.persistedSlug as string | undefined;
+        const history = (this.slugHistory || []).filter(slug => slug !== this.slug);
+        if (previous && previous !== this.slug && !history.includes(previous)) {
+            history.push(previous);
+        }
+        this.slugHistory = history;
+    });
+
+    schema.post('save', function (this: SlugDocument) {
+        this.$locals.persistedSlug = this.slug;
+    });
+}
+
+/**
+ * Resolve a slug that is no longer current to the document's current slug
+ * @returns The current slug, or null if no document ever used this slug
+ */
+export async function findCurrentSlug<T>(
+    model: Model<T>,
+    oldSlug: string,
+    filter: FilterQuery<T> = {}
+): Promise<string | null> {
+    const doc = await model.findOne({ ...filter, slugHistory: oldSlug } as FilterQuery<T>)
+        .select('slug')
+        .lean<{ slug: string }>();
+
+    return doc?.slug ?? null;
+}
@@ -11,11 +11,16 @@ import {
     LogLevel,
     OrdersController
 } from '@paypal/paypal-server-sdk';
+import { BASE_CURRENCY } from '@/lib/utils/currencyUtils';
 
 // Environment configuration
 const isProduction = process.env.NODE_ENV === 'production';
 const environment = isProduction ? Environment.Production : Environment.Sandbox;
 
+// REST API base URL (PAYPAL_API_BASE_URL lets a local mock stand in for PayPal)
+export const PAYPAL_API_BASE_URL = process.env.PAYPAL_API_BASE_URL ||
+    (isProduction ? 'https://api-m.paypal.com' : 'https://api-m.sandbox.paypal.com');
+
 // PayPal credentials
 const clientId = process.env.PAYPAL_CLIENT_ID;
 const clientSecret = process.env.PAYPAL_CLIENT_SECRET;
@@ -44,7 +49,8 @@ export const ordersController = new OrdersController(paypalClient);
 
 // PayPal configuration constants
 export const PAYPAL_CONFIG = {
-    currency: 'USD',
+    // Payments always settle in the store's base currency (display currencies are cosmetic)
+    currency: BASE_CURRENCY,
     intent: 'CAPTURE',
     applicationContext: {
         brandName: 'Prestige Designs',
@@ -57,6 +63,12 @@ export const PAYPAL_CONFIG = {
     },
     webhook: {
         url: `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/paypal/webhook`,
+        // Webhook ID from the PayPal dashboard, part of every signed message
+        id: process.env.PAYPAL_WEBHOOK_ID,
+        // 'certificate' verifies locally against PayPal's signing cert, 'api' asks PayPal
+        verification: process.env.PAYPAL_WEBHOOK_VERIFICATION === 'api' ? 'api' : 'certificate',
+        // Transmissions older than this are rejected as replays
+        maxAgeSeconds: parseInt(process.env.PAYPAL_WEBHOOK_MAX_AGE_SECONDS || '300'),
         events: [
             'PAYMENT.CAPTURE.COMPLETED',
             'PAYMENT.CAPTURE.PENDING',
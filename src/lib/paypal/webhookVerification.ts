@@ -0,0 +1,267 @@
+/**
+ * PayPal Webhook Signature Verification
+ *
+ * Verifies that webhook calls really come from PayPal, using the
+ * PAYPAL-TRANSMISSION-* headers PayPal sends with every delivery.
+ *
+ * Features:
+ * - Certificate verification: the signed message
+ *   "<transmission id>|<transmission time>|<webhook id>|<crc32 of body>"
+ *   is checked against PayPal's signing certificate (PAYPAL-CERT-URL)
+ * - API verification through /v1/notifications/verify-webhook-signature
+ * - Replay window: stale or reused transmissions are rejected
+ * - Certificate cache and host allow-list (*.paypal.com, or the configured
+ *   PAYPAL_API_BASE_URL when a local mock is used)
+ */
+
+import crypto from 'crypto';
+import { PAYPAL_API_BASE_URL, PAYPAL_CONFIG } from './config';
+import { PayPalService } from './service';
+
+// Allowed clock difference for transmissions timestamped in the future
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export interface PayPalTransmissionHeaders {
+    transmissionId: string;
+    transmissionTime: string;
+    transmissionSig: string;
+    certUrl: string;
+    authAlgo: string;
+}
+
+export type WebhookVerificationResult =
+    | { success: true }
+    | { success: false; error: string };
+
+// Transmission IDs seen inside the replay window, with their expiry time
+const seenTransmissions = new Map<string, number>();
+
+// Signing certificates by URL
+const certificateCache = new Map<string, crypto.X509Certificate>();
+
+let crcTable: number[] | null = null;
+
+/**
+ * CRC32 (IEEE) of the raw body, as used in PayPal's signed message
+ */
+export function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = [];
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable.push(c >>> 0);
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export class PayPalWebhookVerifier {
+    /**
+     * Read the PayPal transmission headers; null when any is missing
+     */
+    static getTransmissionHeaders(headers: Headers): PayPalTransmissionHeaders | null {
+        const transmissionId = headers.get('paypal-transmission-id');
+        const transmissionTime = headers.get('paypal-transmission-time');
+        const transmissionSig = headers.get('paypal-transmission-sig');
+        const certUrl = headers.get('paypal-cert-url');
+        const authAlgo = headers.get('paypal-auth-algo');
+
+        if (!transmissionId || !transmissionTime || !transmissionSig || !certUrl || !authAlgo) {
+            return null;
+        }
+
+        return { transmissionId, transmissionTime, transmissionSig, certUrl, authAlgo };
+    }
+
+    /**
+     * Verify a webhook delivery (signature and replay window)
+     */
+    static async verify(rawBody: string, headers: Headers): Promise<WebhookVerificationResult> {
+        const webhookId = PAYPAL_CONFIG.webhook.id;
+        if (!webhookId) {
+            console.error('❌ PAYPAL_WEBHOOK_ID is not configured; rejecting webhook');
+            return { success: false, error: 'Webhook verification is not configured' };
+        }
+
+        const transmission = this.getTransmissionHeaders(headers);
+        if (!transmission) {
+            return { success: false, error: 'Missing PayPal transmission headers' };
+        }
+
+        const replayCheck = this.checkReplayWindow(transmission);
+        if (!replayCheck.success) {
+            return replayCheck;
+        }
+
+        const result = PAYPAL_CONFIG.webhook.verification === 'api'
+            ? await this.verifyWithApi(rawBody, transmission, webhookId)
+            : await this.verifyWithCertificate(rawBody, transmission, webhookId);
+
+        // Only remember transmissions that were genuinely signed by PayPal
+        if (result.success) {
+            seenTransmissions.set(
+                transmission.transmissionId,
+                Date.parse(transmission.transmissionTime) + PAYPAL_CONFIG.webhook.maxAgeSeconds * 1000 + CLOCK_SKEW_MS
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Reject transmissions outside the replay window or already seen
+     */
+    private static checkReplayWindow(transmission: PayPalTransmissionHeaders): WebhookVerificationResult {
+        const now = Date.now();
+
+        // Forget transmissions whose window has passed
+        for (const [id, expiresAt] of seenTransmissions) {
+            if (expiresAt < now) seenTransmissions.delete(id);
+        }
+
+        const sentAt = Date.parse(transmission.transmissionTime);
+        if (Number.isNaN(sentAt)) {
+            return { success: false, error: 'Invalid transmission time' };
+        }
+
+        if (now - sentAt > PAYPAL_CONFIG.webhook.maxAgeSeconds * 1000) {
+            return { success: false, error: 'Stale webhook transmission' };
+        }
+
+        if (sentAt - now > CLOCK_SKEW_MS) {
+            return { success: false, error: 'Webhook transmission time is in the future' };
+        }
+
+        if (seenTransmissions.has(transmission.transmissionId)) {
+            return { success: false, error: 'Webhook transmission already received' };
+        }
+
+        return { success: true };
+    }
+
+    /**
+     * Verify the signature locally against PayPal's signing certificate
+     */
+    private static async verifyWithCertificate(
+        rawBody: string,
+        transmission: PayPalTransmissionHeaders,
+        webhookId: string
+    ): Promise<WebhookVerificationResult> {
+        const algorithm = /^SHA(256|384|512)withRSA$/i.exec(transmission.authAlgo);
+        if (!algorithm) {
+            return { success: false, error: `Unsupported auth algorithm: ${transmission.authAlgo}` };
+        }
+
+        try {
+            const certificate = await this.getCertificate(transmission.certUrl);
+
+            const message = [
+                transmission.transmissionId,
+                transmission.transmissionTime,
+                webhookId,
+                crc32(Buffer.from(rawBody, 'utf8'))
+            ].join('|');
+
+            const isValid = crypto.verify(
+                `sha${algorithm[1]}`,
+                Buffer.from(message, 'utf8'),
+                certificate.publicKey,
+                Buffer.from(transmission.transmissionSig, 'base64')
+            );
+
+            return isValid ? { success: true } : { success: false, error: 'Invalid signature' };
+        } catch (error) {
+            console.error('❌ Error verifying webhook certificate signature:', error);
+            return { success: false, error: error instanceof Error ? error.message : 'Certificate verification failed' };
+        }
+    }
+
+    /**
+     * Ask PayPal to verify the signature
+     */
+    private static async verifyWithApi(
+        rawBody: string,
+        transmission: PayPalTransmissionHeaders,
+        webhookId: string
+    ): Promise<WebhookVerificationResult> {
+        try {
+            const accessToken = await PayPalService.getAccessToken();
+            if (!accessToken) {
+                return { success: false, error: 'Failed to get PayPal access token' };
+            }
+
+            const response = await fetch(`${PAYPAL_API_BASE_URL}/v1/notifications/verify-webhook-signature`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${accessToken}`
+                },
+                body: JSON.stringify({
+                    auth_algo: transmission.authAlgo,
+                    cert_url: transmission.certUrl,
+                    transmission_id: transmission.transmissionId,
+                    transmission_sig: transmission.transmissionSig,
+                    transmission_time: transmission.transmissionTime,
+                    webhook_id: webhookId,
+                    webhook_event: JSON.parse(rawBody)
+                })
+            });
+
+            if (!response.ok) {
+                console.error('❌ PayPal verify-webhook-signature error:', response.status);
+                return { success: false, error: 'PayPal signature verification request failed' };
+            }
+
+            const data = await response.json() as { verification_status?: string };
+            return data.verification_status === 'SUCCESS'
+                ? { success: true }
+                : { success: false, error: 'Invalid signature' };
+        } catch (error) {
+            console.error('❌ Error verifying webhook via PayPal API:', error);
+            return { success: false, error: 'PayPal signature verification request failed' };
+        }
+    }
+
+    /**
+     * Download (or reuse) the signing certificate after checking where it comes from
+     */
+    private static async getCertificate(certUrl: string): Promise<crypto.X509Certificate> {
+        const url = new URL(certUrl);
+        const isPayPalHost = url.protocol === 'https:' && (url.hostname === 'paypal.com' || url.hostname.endsWith('.paypal.com'));
+        const isConfiguredApiHost = !!process.env.PAYPAL_API_BASE_URL && url.origin === new URL(PAYPAL_API_BASE_URL).origin;
+
+        if (!isPayPalHost && !isConfiguredApiHost) {
+            throw new Error(`Untrusted certificate URL: ${url.origin}`);
+        }
+
+        let certificate = certificateCache.get(certUrl);
+        if (!certificate) {
+            const response = await fetch(certUrl);
+            if (!response.ok) {
+                throw new Error(`Failed to download PayPal certificate (${response.status})`);
+            }
+            certificate = new crypto.X509Certificate(await response.text());
+            certificateCache.set(certUrl, certificate);
+        }
+
+        const now = new Date();
+        if (now < new Date(certificate.validFrom) || now > new Date(certificate.validTo)) {
+            certificateCache.delete(certUrl);
+            throw new Error('PayPal certificate is not currently valid');
+        }
+
+        if (!/paypal\.com/i.test(certificate.subject)) {
+            throw new Error('Certificate was not issued to PayPal');
+        }
+
+        return certificate;
+    }
+}
@@ -0,0 +1,198 @@
+/**
+ * Account Service
+ *
+ * This service handles the email-based account flows for credentials users:
+ * email verification, forgotten passwords and the store setting that requires
+ * a verified email before checkout.
+ *
+ * Security:
+ * - Tokens are random, emailed once and stored only as SHA-256 hashes
+ * - Tokens are consumed atomically, so each link works a single time
+ * - Verification and reset emails are throttled per account
+ * - Forgot-password never reveals whether an email is registered
+ */
+
+import connectDB from '@/lib/db/connection';
+import { SiteSettings, User } from '@/lib/db/models';
+import { hashToken } from '@/lib/auth/tokens';
+import { EmailService } from './emailService';
+
+// Minimum time between two verification or reset emails for the same account
+const EMAIL_COOLDOWN_MS = 60 * 1000;
+const RESET_TOKEN_MINUTES = 60;
+
+export interface AccountResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    statusCode?: number;
+}
+
+export class AccountService {
+    private static getBaseUrl(): string {
+        return process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+    }
+
+    private static isCoolingDown(sentAt?: Date): boolean {
+        return !!sentAt && Date.now() - new Date(sentAt).getTime() < EMAIL_COOLDOWN_MS;
+    }
+
+    /**
+     * Email a new verification link to the user
+     */
+    static async sendVerificationEmail(userId: string): Promise<AccountResult> {
+        await connectDB();
+
+        const user = await User.findById(userId);
+        if (!user) {
+            return { success: false, error: 'User not found', statusCode: 404 };
+        }
+
+        if (user.isEmailVerified) {
+            return { success: false, error: 'البريد الإلكتروني مؤكد بالفعل', statusCode: 400 };
+        }
+
+        if (this.isCoolingDown(user.emailVerificationSentAt)) {
+            return { success: false, error: 'تم إرسال رابط التأكيد مؤخراً، يرجى الانتظار دقيقة ثم المحاولة مرة أخرى', statusCode: 429 };
+        }
+
+        const token = user.generateEmailVerificationToken();
+        await user.save();
+
+        const emailResult = await EmailService.sendEmailVerificationEmail(user.email, {
+            customerName: user.name,
+            verifyUrl: `${this.getBaseUrl()}/auth/verify-email?token=${token}`
+        });
+
+        if (!emailResult.success) {
+            return { success: false, error: 'فشل في إرسال رابط التأكيد، يرجى المحاولة لاحقاً', statusCode: 502 };
+        }
+
+        console.log(`✉️ Verification email sent to ${user.email}`);
+        return { success: true, message: 'تم إرسال رابط التأكيد إلى بريدك الإلكتروني' };
+    }
+
+    /**
+     * Consume a verification token and mark the email as verified
+     */
+    static async verifyEmail(token: string): Promise<AccountResult> {
+        await connectDB();
+
+        const user = await User.findOneAndUpdate(
+            {
+                emailVerificationToken: hashToken(token),
+                emailVerificationExpires: { $gt: new Date() }
+            },
+            {
+                $set: { isEmailVerified: true },
+                $unset: { emailVerificationToken: 1, emailVerificationExpires: 1 }
+            },
+            { new: true }
+        );
+
+        if (!user) {
+            return { success: false, error: 'رابط التأكيد غير صالح أو منتهي الصلاحية', statusCode: 400 };
+        }
+
+        console.log(`✅ Email verified for ${user.email}`);
+        return { success: true, message: 'تم تأكيد بريدك الإلكتروني بنجاح' };
+    }
+
+    /**
+     * Email a password reset link if the account exists.
+     * Always succeeds so the response cannot be used to discover accounts.
+     */
+    static async requestPasswordReset(email: string): Promise<AccountResult> {
+        await connectDB();
+
+        const message = 'إذا كان البريد الإلكتروني مسجلاً لدينا، ستصلك رسالة تحتوي على رابط إعادة تعيين كلمة المرور';
+        const user = await User.findOne({ email: email.toLowerCase().trim(), isActive: true });
+
+        if (!user || this.isCoolingDown(user.resetPasswordRequestedAt)) {
+            return { success: true, message };
+        }
+
+        const token = user.generatePasswordResetToken();
+        await user.save();
+
+        const emailResult = await EmailService.sendPasswordResetEmail(user.email, {
+            customerName: user.name,
+            resetUrl: `${this.getBaseUrl()}/auth/reset-password?token=${token}`,
+            expiresInMinutes: RESET_TOKEN_MINUTES
+        });
+
+        if (!emailResult.success) {
+            console.error(`❌ Password reset email failed for ${user.email}:`, emailResult.error);
+        }
+
+        return { success: true, message };
+    }
+
+    /**
+     * Consume a reset token and set the new password
+     */
+    static async resetPassword(token: string, newPassword: string): Promise<AccountResult> {
+        await connectDB();
+
+        // Clear the token first so a link can only ever be used once
+        const user = await User.findOneAndUpdate(
+            {
+                resetPasswordToken: hashToken(token),
+                resetPasswordExpires: { $gt: new Date() },
+                isActive: true
+            },
+            { $unset: { resetPasswordToken: 1, resetPasswordExpires: 1 } },
+            { new: true }
+        ).select('+password');
+
+        if (!user) {
+            return { success: false, error: 'رابط إعادة التعيين غير صالح أو منتهي الصلاحية', statusCode: 400 };
+        }
+
+        const changedAt = new Date();
+        user.password = newPassword;
+        user.passwordChangedAt = changedAt;
+        // Opening the emailed link proves the user owns the address
+        user.isEmailVerified = true;
+        await user.save();
+
+        await EmailService.sendPasswordChangedEmail(user.email, {
+            customerName: user.name,
+            changedAt
+        });
+
+        console.log(`🔑 Password reset for ${user.email}`);
+        return { success: true, message: 'تم تغيير كلمة المرور بنجاح، يمكنك الآن تسجيل الدخول' };
+    }
+
+    /**
+     * Whether the store requires a verified email before checkout
+     */
+    static async isVerifiedEmailRequiredForCheckout(): Promise<boolean> {
+        await connectDB();
+
+        const settings = await SiteSettings.findOne({}).select('checkout').lean<{ checkout?: { requireVerifiedEmail?: boolean } }>();
+        return !!settings?.checkout?.requireVerifiedEmail;
+    }
+
+    /**
+     * Check the checkout email requirement against the database
+     * (the session flag can be stale right after verifying)
+     */
+    static async canCheckout(userId: string): Promise<AccountResult> {
+        if (!(await this.isVerifiedEmailRequiredForCheckout())) {
+            return { success: true };
+        }
+
+        const user = await User.findById(userId).select('isEmailVerified').lean();
+        if (!user?.isEmailVerified) {
+            return {
+                success: false,
+                error: 'يجب تأكيد بريدك الإلكتروني قبل إتمام الطلب. تحقق من بريدك أو اطلب رابط تأكيد جديد من صفحة تأكيد البريد.',
+                statusCode: 403
+            };
+        }
+
+        return { success: true };
+    }
+}
@@ -0,0 +1,406 @@
+/**
+ * Analytics Service
+ *
+ * This service computes the sales analytics shown on the admin analytics
+ * page. Everything is calculated with MongoDB aggregations over the Order
+ * collection for a date range, optionally compared with the period of the
+ * same length just before it.
+ *
+ * Definitions:
+ * - Revenue counts orders that were paid, including ones refunded or disputed
+ *   later; refunds are reported separately and subtracted for net revenue
+ * - Free orders (100% promo codes, free products) count as orders but not revenue
+ * - Average order value is gross revenue divided by paid orders
+ * - Dates are bucketed in UTC
+ */
+
+import connectDB from '@/lib/db/connection';
+import { Category, Order, Product } from '@/lib/db/models';
+
+export type AnalyticsGroupBy = 'day' | 'week' | 'month';
+
+// Payment statuses of orders that brought in money
+const SOLD_PAYMENT_STATUSES = ['paid', 'partially_refunded', 'refunded', 'disputed'];
+const COUNTED_PAYMENT_STATUSES = [...SOLD_PAYMENT_STATUSES, 'free'];
+
+const TOP_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 731;
+
+export interface AnalyticsRange {
+    from: Date;
+    to: Date;
+}
+
+export interface AnalyticsSummary {
+    grossRevenue: number;
+    refundedAmount: number;
+    netRevenue: number;
+    totalOrders: number;          // Paid + free
+    paidOrders: number;
+    freeOrders: number;
+    averageOrderValue: number;
+    refundedOrders: number;
+    refundRate: number;           // % of paid orders with a refund
+    promoOrders: number;
+    promoDiscount: number;
+    promoRevenue: number;
+    customWorkOrders: number;
+    customWorkRevenue: number;
+    autoDeliveryOrders: number;
+    autoDeliveryRevenue: number;
+}
+
+export interface AnalyticsPoint {
+    period: string;               // Bucket start (ISO date)
+    revenue: number;
+    orders: number;
+    averageOrderValue: number;
+}
+
+export interface TopProduct {
+    productId: string;
+    name: string;
+    slug?: string;
+    quantity: number;
+    revenue: number;
+}
+
+export interface TopCategory {
+    categoryId: string | null;
+    name: string;
+    quantity: number;
+    revenue: number;
+}
+
+export interface PromoCodeImpact {
+    code: string;
+    orders: number;
+    discount: number;
+    revenue: number;
+}
+
+export interface AnalyticsReport {
+    range: { from: string; to: string; groupBy: AnalyticsGroupBy };
+    previousRange: { from: string; to: string } | null;
+    summary: AnalyticsSummary;
+    previousSummary: AnalyticsSummary | null;
+    changes: Partial<Record<keyof AnalyticsSummary, number | null>>;
+    timeseries: AnalyticsPoint[];
+    previousTimeseries: AnalyticsPoint[] | null;
+    topProducts: TopProduct[];
+    topCategories: TopCategory[];
+    promoCodes: PromoCodeImpact[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const percentage = (part: number, total: number) => (total > 0 ? round((part / total) * 100) : 0);
+
+// Start of the UTC day / ISO week (Monday) / month containing the date
+function truncateDate(date: Date, unit: AnalyticsGroupBy): Date {
+    const truncated = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+    if (unit === 'week') {
+        const daysSinceMonday = (truncated.getUTCDay() + 6) % 7;
+        truncated.setUTCDate(truncated.getUTCDate() - daysSinceMonday);
+    } else if (unit === 'month') {
+        truncated.setUTCDate(1);
+    }
+
+    return truncated;
+}
+
+function nextBucket(date: Date, unit: AnalyticsGroupBy): Date {
+    const next = new Date(date);
+    if (unit === 'day') next.setUTCDate(next.getUTCDate() + 1);
+    if (unit === 'week') next.setUTCDate(next.getUTCDate() + 7);
+    if (unit === 'month') next.setUTCMonth(next.getUTCMonth() + 1);
+    return next;
+}
+
+export class AnalyticsService {
+    /**
+     * The period of the same length that ends just before the range starts
+     */
+    static getPreviousRange(range: AnalyticsRange): AnalyticsRange {
+        const length = range.to.getTime() - range.from.getTime();
+        const to = new Date(range.from.getTime() - 1);
+        return { from: new Date(to.getTime() - length), to };
+    }
+
+    /**
+     * Build the full analytics report for a range
+     */
+    static async getReport(range: AnalyticsRange, groupBy: AnalyticsGroupBy, compare: boolean = true): Promise<AnalyticsReport> {
+        await connectDB();
+
+        const previousRange = compare ? this.getPreviousRange(range) : null;
+
+        const [summary, timeseries, topProducts, topCategories, promoCodes, previousSummary, previousTimeseries] = await Promise.all([
+            this.getSummary(range),
+            this.getTimeseries(range, groupBy),
+            this.getTopProducts(range),
+            this.getTopCategories(range),
+            this.getPromoCodeImpact(range),
+            previousRange ? this.getSummary(previousRange) : Promise.resolve(null),
+            previousRange ? this.getTimeseries(previousRange, groupBy) : Promise.resolve(null)
+        ]);
+
+        const changes: AnalyticsReport['changes'] = {};
+        if (previousSummary) {
+            for (const key of Object.keys(summary) as (keyof AnalyticsSummary)[]) {
+                const previous = previousSummary[key];
+                changes[key] = previous === 0 ? null : round(((summary[key] - previous) / previous) * 100);
+            }
+        }
+
+        return {
+            range: { from: range.from.toISOString(), to: range.to.toISOString(), groupBy },
+            previousRange: previousRange
+                ? { from: previousRange.from.toISOString(), to: previousRange.to.toISOString() }
+                : null,
+            summary,
+            previousSummary,
+            changes,
+            timeseries,
+            previousTimeseries,
+            topProducts,
+            topCategories,
+            promoCodes
+        };
+    }
+
+    private static matchRange(range: AnalyticsRange, paymentStatuses: string[] = COUNTED_PAYMENT_STATUSES) {
+        return {
+            $match: {
+                createdAt: { $gte: range.from, $lte: range.to },
+                paymentStatus: { $in: paymentStatuses }
+            }
+        };
+    }
+
+    /**
+     * Revenue, order, refund, promo and delivery-type totals
+     */
+    static async getSummary(range: AnalyticsRange): Promise<AnalyticsSummary> {
+        const isSold = { $in: ['$paymentStatus', SOLD_PAYMENT_STATUSES] };
+        const soldPrice = { $cond: [isSold, '$totalPrice', 0] };
+        const hasPromo = { $gt: [{ $size: { $ifNull: ['$appliedPromoCodes', []] } }, 0] };
+        const isCustomWork = { $eq: ['$requiresCustomWork', true] };
+
+        const [totals] = await Order.aggregate([
+            this.matchRange(range),
+            {
+                $group: {
+                    _id: null,
+                    totalOrders: { $sum: 1 },
+                    paidOrders: { $sum: { $cond: [isSold, 1, 0] } },
+                    grossRevenue: { $sum: soldPrice },
+                    refundedAmount: { $sum: { $ifNull: ['$refundedAmount', 0] } },
+                    refundedOrders: { $sum: { $cond: [{ $gt: [{ $ifNull: ['$refundedAmount', 0] }, 0] }, 1, 0] } },
+                    promoOrders: { $sum: { $cond: [hasPromo, 1, 0] } },
+                    promoDiscount: { $sum: { $ifNull: ['$totalPromoDiscount', 0] } },
+                    promoRevenue: { $sum: { $cond: [hasPromo, soldPrice, 0] } },
+                    customWorkOrders: { $sum: { $cond: [isCustomWork, 1, 0] } },
+                    customWorkRevenue: { $sum: { $cond: [isCustomWork, soldPrice, 0] } }
+                }
+            }
+        ]);
+
+        const grossRevenue = totals?.grossRevenue || 0;
+        const refundedAmount = totals?.refundedAmount || 0;
+        const totalOrders = totals?.totalOrders || 0;
+        const paidOrders = totals?.paidOrders || 0;
+        const customWorkOrders = totals?.customWorkOrders || 0;
+        const customWorkRevenue = totals?.customWorkRevenue || 0;
+        const refundedOrders = totals?.refundedOrders || 0;
+
+        return {
+            grossRevenue: round(grossRevenue),
+            refundedAmount: round(refundedAmount),
+            netRevenue: round(grossRevenue - refundedAmount),
+            totalOrders,
+            paidOrders,
+            freeOrders: totalOrders - paidOrders,
+            averageOrderValue: paidOrders > 0 ? round(grossRevenue / paidOrders) : 0,
+            refundedOrders,
+            refundRate: percentage(refundedOrders, paidOrders),
+            promoOrders: totals?.promoOrders || 0,
+            promoDiscount: round(totals?.promoDiscount || 0),
+            promoRevenue: round(totals?.promoRevenue || 0),
+            customWorkOrders,
+            customWorkRevenue: round(customWorkRevenue),
+            autoDeliveryOrders: totalOrders - customWorkOrders,
+            autoDeliveryRevenue: round(grossRevenue - customWorkRevenue)
+        };
+    }
+
+    /**
+     * Revenue and orders per day / week / month, with empty buckets filled in
+     */
+    static async getTimeseries(range: AnalyticsRange, groupBy: AnalyticsGroupBy): Promise<AnalyticsPoint[]> {
+        const isSold = { $in: ['$paymentStatus', SOLD_PAYMENT_STATUSES] };
+
+        const buckets = await Order.aggregate<{ _id: Date; revenue: number; orders: number; paidOrders: number }>([
+            this.matchRange(range),
+            {
+                $group: {
+                    _id: { $dateTrunc: { date: '$createdAt', unit: groupBy, startOfWeek: 'monday' } },
+                    revenue: { $sum: { $cond: [isSold, '$totalPrice', 0] } },
+                    orders: { $sum: 1 },
+                    paidOrders: { $sum: { $cond: [isSold, 1, 0] } }
+                }
+            }
+        ]);
+
+        const byPeriod = new Map(buckets.map(bucket => [new Date(bucket._id).getTime(), bucket]));
+        const points: AnalyticsPoint[] = [];
+
+        for (let period = truncateDate(range.from, groupBy); period <= range.to; period = nextBucket(period, groupBy)) {
+            const bucket = byPeriod.get(period.getTime());
+            points.push({
+                period: period.toISOString(),
+                revenue: round(bucket?.revenue || 0),
+                orders: bucket?.orders || 0,
+                averageOrderValue: bucket?.paidOrders ? round(bucket.revenue / bucket.paidOrders) : 0
+            });
+        }
+
+        return points;
+    }
+
+    /**
+     * Best-selling products by revenue (refunded items excluded)
+     */
+    static async getTopProducts(range: AnalyticsRange): Promise<TopProduct[]> {
+        const products = await Order.aggregate<TopProduct>([
+            this.matchRange(range, SOLD_PAYMENT_STATUSES),
+            { $unwind: '$items' },
+            { $match: { 'items.refundedAt': null } },
+            {
+                $group: {
+                    _id: '$items.productId',
+                    name: { $last: '$items.productName' },
+                    slug: { $last: '$items.productSlug' },
+                    quantity: { $sum: '$items.quantity' },
+                    revenue: { $sum: '$items.totalPrice' }
+                }
+            },
+            { $sort: { revenue: -1, quantity: -1 } },
+            { $limit: TOP_LIMIT },
+            { $project: { _id: 0, productId: '$_id', name: 1, slug: 1, quantity: 1, revenue: { $round: ['$revenue', 2] } } }
+        ]);
+
+        return products;
+    }
+
+    /**
+     * Categories by revenue, via each sold item's current product category
+     */
+    static async getTopCategories(range: AnalyticsRange): Promise<TopCategory[]> {
+        const categories = await Order.aggregate<TopCategory>([
+            this.matchRange(range, SOLD_PAYMENT_STATUSES),
+            { $unwind: '$items' },
+            { $match: { 'items.refundedAt': null } },
+            {
+                $group: {
+                    _id: '$items.productId',
+                    quantity: { $sum: '$items.quantity' },
+                    revenue: { $sum: '$items.totalPrice' }
+                }
+            },
+            {
+                $lookup: {
+                    from: Product.collection.name,
+                    let: { productId: { $convert: { input: '$_id', to: 'objectId', onError: null, onNull: null } } },
+                    pipeline: [
+                        { $match: { $expr: { $eq: ['$_id', '$$productId'] } } },
+                        { $project: { categoryId: 1 } }
+                    ],
+                    as: 'product'
+                }
+            },
+            {
+                $group: {
+                    _id: { $ifNull: [{ $first: '$product.categoryId' }, null] },
+                    quantity: { $sum: '$quantity' },
+                    revenue: { $sum: '$revenue' }
+                }
+            },
+            {
+                $lookup: {
+                    from: Category.collection.name,
+                    localField: '_id',
+                    foreignField: '_id',
+                    pipeline: [{ $project: { name: 1 } }],
+                    as: 'category'
+                }
+            },
+            { $sort: { revenue: -1 } },
+            { $limit: TOP_LIMIT },
+            {
+                $project: {
+                    _id: 0,
+                    categoryId: { $toString: '$_id' },
+                    name: { $ifNull: [{ $first: '$category.name' }, 'بدون تصنيف'] },
+                    quantity: 1,
+                    revenue: { $round: ['$revenue', 2] }
+                }
+            }
+        ]);
+
+        return categories;
+    }
+
+    /**
+     * Orders, discount given and revenue per promo code
+     */
+    static async getPromoCodeImpact(range: AnalyticsRange): Promise<PromoCodeImpact[]> {
+        const promoCodes = await Order.aggregate<PromoCodeImpact>([
+            this.matchRange(range),
+            { $unwind: '$appliedPromoCodes' },
+            {
+                $group: {
+                    _id: '$appliedPromoCodes',
+                    orders: { $sum: 1 },
+                    discount: { $sum: { $ifNull: ['$totalPromoDiscount', 0] } },
+                    revenue: { $sum: { $cond: [{ $in: ['$paymentStatus', SOLD_PAYMENT_STATUSES] }, '$totalPrice', 0] } }
+                }
+            },
+            { $sort: { orders: -1, discount: -1 } },
+            { $limit: TOP_LIMIT },
+            {
+                $project: {
+                    _id: 0,
+                    code: '$_id',
+                    orders: 1,
+                    discount: { $round: ['$discount', 2] },
+                    revenue: { $round: ['$revenue', 2] }
+                }
+            }
+        ]);
+
+        return promoCodes;
+    }
+
+    /**
+     * Parse a YYYY-MM-DD range (inclusive, UTC); defaults to the last 30 days.
+     * Returns null when the range is reversed or longer than the maximum.
+     */
+    static parseRange(fromParam?: string | null, toParam?: string | null): AnalyticsRange | null {
+        const to = toParam && !isNaN(Date.parse(toParam)) ? new Date(toParam) : new Date();
+        const from = fromParam && !isNaN(Date.parse(fromParam))
+            ? new Date(fromParam)
+            : new Date(to.getTime() - 29 * DAY_MS);
+
+        const start = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+        const end = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate(), 23, 59, 59, 999));
+
+        if (start > end || end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+            return null;
+        }
+
+        return { from: start, to: end };
+    }
+}
@@ -0,0 +1,336 @@
+/**
+ * Audit Log Service
+ *
+ * This service records admin mutations in the AuditLog collection and
+ * serves them to the admin audit page and its CSV export.
+ *
+ * Features:
+ * - Field-level before/after diff of plain documents
+ * - Sensitive fields (passwords, tokens) are never stored
+ * - Recording never fails the admin action it describes
+ * - Shared filters for the list and the CSV export
+ */
+
+import connectDB from '@/lib/db/connection';
+import { AuditLog } from '@/lib/db/models';
+import { AuditEntityType, IAuditChange, IAuditLog } from '@/lib/db/models/AuditLog';
+import { IOrder } from '@/lib/db/models/Order';
+
+// Bookkeeping fields that are not worth a diff entry
+const IGNORED_FIELDS = ['_id', '__v', 'id', 'createdAt', 'updatedAt', 'updatedBy'];
+const REDACTED_FIELDS = ['password', 'resetPasswordToken', 'emailVerificationToken'];
+
+// Long values (descriptions, image lists) are truncated in the diff
+const MAX_VALUE_LENGTH = 1000;
+const MAX_EXPORT_ROWS = 10000;
+
+export interface AuditActorInput {
+    id: string;
+    name?: string | null;
+    email?: string | null;
+    role?: string;
+}
+
+export interface AuditEntry {
+    action: string;
+    entityType: AuditEntityType;
+    entityId?: string;
+    entityLabel?: string;
+    before?: unknown;             // Document before the change (omit for creations)
+    after?: unknown;              // Document after the change (omit for deletions)
+    metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogFilters {
+    search?: string;              // Entity name / ID or actor name / email
+    entityType?: string;
+    action?: string;
+    actorId?: string;
+    from?: string;                // ISO date, inclusive
+    to?: string;                  // ISO date, inclusive
+}
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Turn Mongoose documents, ObjectIds and Dates into JSON values
+function toPlain(value: unknown): PlainObject {
+    if (value === null || value === undefined) return {};
+    const plain = JSON.parse(JSON.stringify(value));
+    return isPlainObject(plain) ? plain : {};
+}
+
+function flatten(value: PlainObject, prefix: string = '', out: PlainObject = {}): PlainObject {
+    for (const [key, fieldValue] of Object.entries(value)) {
+        if (IGNORED_FIELDS.includes(key)) continue;
+
+        const path = prefix ? `${prefix}.${key}` : key;
+
+        if (REDACTED_FIELDS.includes(key)) {
+            out[path] = '[redacted]';
+        } else if (isPlainObject(fieldValue) && Object.keys(fieldValue).length > 0) {
+            flatten(fieldValue, path, out);
+        } else {
+            out[path] = fieldValue;
+        }
+    }
+
+    return out;
+}
+
+function truncate(value: unknown): unknown {
+    if (value === undefined) return undefined;
+
+    const serialized = JSON.stringify(value);
+    if (serialized && serialized.length > MAX_VALUE_LENGTH) {
+        return `${serialized.slice(0, MAX_VALUE_LENGTH)}…`;
+    }
+
+    return value;
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function formatCsvValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+
+    let text = typeof value === 'string' ? value : JSON.stringify(value);
+
+    // Stop spreadsheet apps from evaluating cell contents as formulas
+    if (/^[=+\-@]/.test(text)) {
+        text = `'${text}`;
+    }
+
+    return `"${text.replace(/"/g, '""')}"`;
+}
+
+export class AuditLogService {
+    /**
+     * Get the client IP of a request
+     */
+    static getRequestIp(req: Request): string | null {
+        const forwardedFor = req.headers.get('x-forwarded-for');
+        if (forwardedFor) {
+            return forwardedFor.split(',')[0].trim();
+        }
+
+        return req.headers.get('x-real-ip');
+    }
+
+    /**
+     * Field-level differences between two versions of a document
+     */
+    static diff(before: unknown, after: unknown): IAuditChange[] {
+        const beforeFields = flatten(toPlain(before));
+        const afterFields = flatten(toPlain(after));
+        const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+        const changes: IAuditChange[] = [];
+
+        for (const field of fields) {
+            if (JSON.stringify(beforeFields[field]) === JSON.stringify(afterFields[field])) continue;
+
+            changes.push({
+                field,
+                before: truncate(beforeFields[field]),
+                after: truncate(afterFields[field])
+            });
+        }
+
+        return changes.sort((a, b) => a.field.localeCompare(b.field));
+    }
+
+    /**
+     * The order fields staff can change, for before/after diffs of an order
+     * (the full document would report its history and items on every change)
+     */
+    static getOrderSnapshot(order: IOrder): PlainObject {
+        return {
+            orderStatus: order.orderStatus,
+            paymentStatus: order.paymentStatus,
+            customizationStatus: order.customizationStatus,
+            deliveryType: order.deliveryType,
+            refundedAmount: order.refundedAmount,
+            adminNotes: order.adminNotes,
+            customerNotes: order.customerNotes,
+            estimatedDelivery: order.estimatedDelivery
+        };
+    }
+
+    /**
+     * Record an admin mutation. Failures are logged, never thrown,
+     * so auditing cannot break the action it describes.
+     */
+    static async record(req: Request, actor: AuditActorInput, entry: AuditEntry): Promise<void> {
+        try {
+            const changes = this.diff(entry.before, entry.after);
+
+            // Nothing changed (e.g. a form saved without edits)
+            if (entry.before && entry.after && changes.length === 0 && !entry.metadata) {
+                return;
+            }
+
+            await connectDB();
+
+            await AuditLog.create({
+                actor: {
+                    userId: actor.id,
+                    name: actor.name || undefined,
+                    email: actor.email || undefined,
+                    role: actor.role
+                },
+                action: entry.action,
+                entityType: entry.entityType,
+                entityId: entry.entityId || null,
+                entityLabel: entry.entityLabel || null,
+                changes,
+                metadata: entry.metadata || null,
+                ip: this.getRequestIp(req),
+                userAgent: req.headers.get('user-agent')
+            });
+        } catch (error) {
+            console.error(`❌ Failed to record audit log (${entry.action}):`, error);
+        }
+    }
+
+    /**
+     * Record one entry per affected entity of a bulk action
+     */
+    static async recordMany(req: Request, actor: AuditActorInput, entries: AuditEntry[]): Promise<void> {
+        await Promise.all(entries.map(entry => this.record(req, actor, entry)));
+    }
+
+    /**
+     * Read the audit page filters from a request's query string
+     */
+    static getFilters(searchParams: URLSearchParams): AuditLogFilters {
+        return {
+            search: searchParams.get('search') || undefined,
+            entityType: searchParams.get('entityType') || undefined,
+            action: searchParams.get('action') || undefined,
+            actorId: searchParams.get('actorId') || undefined,
+            from: searchParams.get('from') || undefined,
+            to: searchParams.get('to') || undefined
+        };
+    }
+
+    /**
+     * Build the MongoDB query for the audit page filters
+     */
+    static buildQuery(filters: AuditLogFilters): Record<string, unknown> {
+        const query: Record<string, unknown> = {};
+
+        if (filters.entityType && filters.entityType !== 'all') {
+            query.entityType = filters.entityType;
+        }
+
+        if (filters.action && filters.action !== 'all') {
+            query.action = filters.action;
+        }
+
+        if (filters.actorId) {
+            query['actor.userId'] = filters.actorId;
+        }
+
+        const createdAt: Record<string, Date> = {};
+        if (filters.from && !isNaN(Date.parse(filters.from))) {
+            createdAt.$gte = new Date(filters.from);
+        }
+        if (filters.to && !isNaN(Date.parse(filters.to))) {
+            // Include the whole "to" day
+            const to = new Date(filters.to);
+            to.setHours(23, 59, 59, 999);
+            createdAt.$lte = to;
+        }
+        if (Object.keys(createdAt).length > 0) {
+            query.createdAt = createdAt;
+        }
+
+        const search = filters.search?.trim();
+        if (search) {
+            const pattern = new RegExp(escapeRegex(search), 'i');
+            query.$or = [
+                { entityId: search },
+                { entityLabel: pattern },
+                { 'actor.name': pattern },
+                { 'actor.email': pattern },
+                { 'changes.field': search }
+            ];
+        }
+
+        return query;
+    }
+
+    /**
+     * Paginated audit entries, newest first
+     */
+    static async list(filters: AuditLogFilters, page: number, limit: number) {
+        await connectDB();
+
+        const query = this.buildQuery(filters);
+
+        const [logs, total, actions] = await Promise.all([
+            AuditLog.find(query)
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean<IAuditLog[]>(),
+            AuditLog.countDocuments(query),
+            AuditLog.distinct('action')
+        ]);
+
+        return {
+            logs,
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit)
+            },
+            actions: (actions as string[]).sort()
+        };
+    }
+
+    /**
+     * Export the filtered audit entries as CSV (one row per changed field)
+     */
+    static async exportCsv(filters: AuditLogFilters): Promise<string> {
+        await connectDB();
+
+        const logs = await AuditLog.find(this.buildQuery(filters))
+            .sort({ createdAt: -1 })
+            .limit(MAX_EXPORT_ROWS)
+            .lean<IAuditLog[]>();
+
+        const header = [
+            'Date', 'Actor', 'Actor Email', 'Actor Role', 'Action', 'Entity Type',
+            'Entity ID', 'Entity', 'Field', 'Before', 'After', 'IP'
+        ];
+        const rows: string[] = [header.map(formatCsvValue).join(',')];
+
+        for (const log of logs) {
+            const base = [
+                new Date(log.createdAt).toISOString(),
+                log.actor?.name,
+                log.actor?.email,
+                log.actor?.role,
+                log.action,
+                log.entityType,
+                log.entityId,
+                log.entityLabel
+            ];
+
+            const changes = log.changes?.length ? log.changes : [{ field: '', before: undefined, after: undefined }];
+            for (const change of changes) {
+                rows.push([...base, change.field, change.before, change.after, log.ip].map(formatCsvValue).join(','));
+            }
+        }
+
+        // BOM so spreadsheet apps read Arabic text as UTF-8
+        return '\uFEFF' + rows.join('\r\n');
+    }
+}
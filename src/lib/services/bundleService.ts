@@ -0,0 +1,179 @@
+/**
+ * Bundle Service
+ *
+ * This service handles product bundles (packages): checking what may go in
+ * a bundle and turning stored bundles into priced storefront data.
+ *
+ * Rules:
+ * - A bundle holds two or more different products
+ * - Customizable products are sold individually only, since a bundle has
+ *   no place to collect customization answers
+ * - A bundle is shown only while it and all of its products are active
+ * - Prices follow the products' current prices (see bundleUtils)
+ */
+
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db/connection';
+import { Bundle, Product } from '@/lib/db/models';
+import { IBundle } from '@/lib/db/models/Bundle';
+import { IProduct } from '@/lib/db/models/Product';
+import { calculateFinalPrice } from '@/lib/utils/productUtils';
+import { calculateBundlePrice, calculateBundleSavingsPercentage } from '@/lib/utils/bundleUtils';
+
+type BundleProduct = Pick<IProduct, 'name' | 'slug' | 'price' | 'discountAmount' | 'discountPercentage' | 'images' | 'isActive'> & {
+    _id: mongoose.Types.ObjectId | string;
+};
+
+export interface PublicBundleProduct {
+    _id: string;
+    name: string;
+    slug: string;
+    price: number;                   // Base price
+    finalPrice: number;              // Price when bought individually
+    image?: string;
+}
+
+export interface PublicBundle {
+    _id: string;
+    name: string;
+    slug: string;
+    description?: string;
+    image?: string;
+    icon?: string;
+    color?: string;
+    features: string[];
+    isFeatured: boolean;
+    products: PublicBundleProduct[];
+    originalPrice: number;           // Sum of base prices (cart subtotal basis)
+    individualTotal: number;         // Sum of current prices when bought separately
+    price: number;                   // Bundle price
+    savingsPercentage: number;       // Against originalPrice
+}
+
+export interface BundleContentsResult {
+    success: boolean;
+    error?: string;
+    statusCode?: number;
+}
+
+const BUNDLE_PRODUCT_FIELDS = 'name slug price discountAmount discountPercentage images isActive';
+
+export class BundleService {
+    /**
+     * Check that a list of products can form a bundle
+     */
+    static async validateContents(productIds: string[]): Promise<BundleContentsResult> {
+        const uniqueIds = [...new Set(productIds)];
+        if (uniqueIds.length < 2 || uniqueIds.length !== productIds.length) {
+            return { success: false, error: 'A bundle needs at least two different products', statusCode: 400 };
+        }
+
+        if (uniqueIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+            return { success: false, error: 'Invalid product ID', statusCode: 400 };
+        }
+
+        await connectDB();
+        const products = await Product.find({ _id: { $in: uniqueIds } })
+            .select('name EnableCustomizations')
+            .lean();
+
+        if (products.length !== uniqueIds.length) {
+            return { success: false, error: 'One or more products not found', statusCode: 404 };
+        }
+
+        const customizable = products.filter(product => product.EnableCustomizations);
+        if (customizable.length > 0) {
+            return {
+                success: false,
+                error: `Customizable products cannot be bundled: ${customizable.map(p => p.name).join(', ')}`,
+                statusCode: 400
+            };
+        }
+
+        return { success: true };
+    }
+
+    /**
+     * Build the storefront view of a bundle, or null if it cannot be sold
+     */
+    static toPublicBundle(bundle: IBundle, products: BundleProduct[]): PublicBundle | null {
+        const contents: PublicBundleProduct[] = [];
+        for (const id of bundle.productIds) {
+            const product = products.find(p => p._id.toString() === id.toString());
+            if (!product || !product.isActive) {
+                return null;
+            }
+
+            contents.push({
+                _id: product._id.toString(),
+                name: product.name,
+                slug: product.slug,
+                price: product.price,
+                finalPrice: calculateFinalPrice(product.price, product.discountAmount, product.discountPercentage),
+                image: product.images?.find(img => img.isPrimary)?.url || product.images?.[0]?.url
+            });
+        }
+
+        const originalPrice = contents.reduce((sum, product) => sum + product.price, 0);
+        const individualTotal = contents.reduce((sum, product) => sum + product.finalPrice, 0);
+        const price = calculateBundlePrice(individualTotal, bundle);
+
+        return {
+            _id: bundle._id.toString(),
+            name: bundle.name,
+            slug: bundle.slug,
+            description: bundle.description,
+            image: bundle.image || contents[0]?.image,
+            icon: bundle.icon,
+            color: bundle.color,
+            features: bundle.features || [],
+            isFeatured: bundle.isFeatured,
+            products: contents,
+            originalPrice,
+            individualTotal,
+            price,
+            savingsPercentage: calculateBundleSavingsPercentage(originalPrice, price)
+        };
+    }
+
+    /**
+     * List the bundles currently on sale
+     */
+    static async getPublicBundles(options: { featuredOnly?: boolean; limit?: number } = {}): Promise<PublicBundle[]> {
+        await connectDB();
+
+        const query = Bundle.find({ isActive: true, ...(options.featuredOnly ? { isFeatured: true } : {}) })
+            .sort({ order: 1, createdAt: -1 });
+        if (options.limit) {
+            query.limit(options.limit);
+        }
+        const bundles = await query.lean<IBundle[]>();
+
+        const productIds = [...new Set(bundles.flatMap(bundle => bundle.productIds.map(id => id.toString())))];
+        const products = await Product.find({ _id: { $in: productIds } })
+            .select(BUNDLE_PRODUCT_FIELDS)
+            .lean<BundleProduct[]>();
+
+        return bundles
+            .map(bundle => this.toPublicBundle(bundle, products))
+            .filter((bundle): bundle is PublicBundle => bundle !== null);
+    }
+
+    /**
+     * Get an active bundle by its current slug
+     */
+    static async getPublicBundleBySlug(slug: string): Promise<PublicBundle | null> {
+        await connectDB();
+
+        const bundle = await Bundle.findOne({ slug, isActive: true }).lean<IBundle>();
+        if (!bundle) {
+            return null;
+        }
+
+        const products = await Product.find({ _id: { $in: bundle.productIds } })
+            .select(BUNDLE_PRODUCT_FIELDS)
+            .lean<BundleProduct[]>();
+
+        return this.toPublicBundle(bundle, products);
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * Currency Service
+ *
+ * This service manages the exchange rates used to show prices in the
+ * customer's preferred currency (see currencyUtils).
+ *
+ * Rules:
+ * - Orders are priced and paid in the base currency; rates only change display
+ * - A currency is offered once an admin enables it with a positive rate
+ * - The currency and rate shown at checkout are taken from the server,
+ *   never from the client, when they are recorded on an order
+ */
+
+import connectDB from '@/lib/db/connection';
+import { SiteSettings } from '@/lib/db/models';
+import type { CurrencyCode, ICurrencyRate } from '@/lib/db/models/SiteSettings';
+import {
+    BASE_CURRENCY,
+    CURRENCIES,
+    DisplayCurrency,
+    isCurrencyCode,
+    parseRatesFile,
+    resolveCurrencyRates
+} from '@/lib/utils/currencyUtils';
+
+export interface PublicCurrency {
+    code: CurrencyCode;
+    name: string;
+    rate: number;
+}
+
+export interface PublicCurrencies {
+    base: CurrencyCode;
+    currencies: PublicCurrency[];    // Enabled currencies, base first
+    ratesUpdatedAt?: Date;
+}
+
+export interface ImportRatesResult {
+    success: boolean;
+    error?: string;
+    statusCode?: number;
+    rates?: ICurrencyRate[];
+    imported?: CurrencyCode[];
+}
+
+type CurrencySettings = { rates?: ICurrencyRate[]; source?: 'manual' | 'import'; ratesUpdatedAt?: Date };
+
+export class CurrencyService {
+    /**
+     * Load the stored currency settings
+     */
+    private static async getSettings(): Promise<CurrencySettings> {
+        await connectDB();
+        const settings = await SiteSettings.findOne({})
+            .select('currency')
+            .lean<{ currency?: CurrencySettings }>();
+
+        return settings?.currency || {};
+    }
+
+    /**
+     * Get every supported currency with its saved rate
+     */
+    static async getRates(): Promise<ICurrencyRate[]> {
+        const settings = await this.getSettings();
+        return resolveCurrencyRates(settings.rates);
+    }
+
+    /**
+     * List the currencies customers can switch to
+     */
+    static async getPublicCurrencies(): Promise<PublicCurrencies> {
+        const settings = await this.getSettings();
+        const currencies = resolveCurrencyRates(settings.rates)
+            .filter(rate => rate.enabled)
+            .sort((a, b) => Number(b.code === BASE_CURRENCY) - Number(a.code === BASE_CURRENCY))
+            .map(rate => ({ code: rate.code, name: CURRENCIES[rate.code].name, rate: rate.rate }));
+
+        return { base: BASE_CURRENCY, currencies, ratesUpdatedAt: settings.ratesUpdatedAt };
+    }
+
+    /**
+     * Resolve a requested display currency to its current rate
+     * @returns The base currency when the code is unknown or not enabled
+     */
+    static async getDisplayCurrency(code?: string): Promise<DisplayCurrency> {
+        if (!code || code === BASE_CURRENCY || !isCurrencyCode(code)) {
+            return { code: BASE_CURRENCY, rate: 1 };
+        }
+
+        const rates = await this.getRates();
+        const rate = rates.find(r => r.code === code && r.enabled);
+        return rate ? { code: rate.code, rate: rate.rate } : { code: BASE_CURRENCY, rate: 1 };
+    }
+
+    /**
+     * Update rates from an imported JSON file, keeping each currency's enabled flag
+     */
+    static async importRates(data: unknown): Promise<ImportRatesResult> {
+        const parsed = parseRatesFile(data);
+        if (!parsed.success) {
+            return { success: false, error: parsed.error, statusCode: 400 };
+        }
+
+        const current = await this.getRates();
+        const rates = current.map(rate => {
+            const imported = parsed.rates[rate.code];
+            return imported ? { ...rate, rate: imported } : rate;
+        });
+
+        await SiteSettings.findOneAndUpdate(
+            {},
+            {
+                $set: {
+                    'currency.rates': rates.filter(rate => rate.code !== BASE_CURRENCY),
+                    'currency.source': 'import',
+                    'currency.ratesUpdatedAt': new Date(),
+                    updatedAt: new Date()
+                }
+            },
+            { upsert: true, setDefaultsOnInsert: true }
+        );
+
+        return {
+            success: true,
+            rates: resolveCurrencyRates(rates),
+            imported: Object.keys(parsed.rates) as CurrencyCode[]
+        };
+    }
+}
@@ -2,6 +2,7 @@
  * Discord Webhook Service
  * 
  * Sends notifications to Discord when paid orders are completed
+ * and when PayPal reports refunds, reversals or disputes
  */
 
 interface DiscordWebhookPayload {
@@ -43,6 +44,19 @@ interface OrderNotificationData {
     paidAt: Date;
 }
 
+interface PaymentAlertData {
+    orderNumber: string;
+    customerName: string;
+    customerEmail: string;
+    title: string;
+    description: string;
+    amount?: number;
+    currency?: string;
+    reference?: string;
+    reason?: string;
+    occurredAt: Date;
+}
+
 export class DiscordWebhookService {
     private static webhookUrl = process.env.DISCORD_WEBHOOK_URL;
 
@@ -135,6 +149,78 @@ export class DiscordWebhookService {
         }
     }
 
+    /**
+     * Send payment alert (refund, reversal or dispute) to Discord
+     */
+    static async sendPaymentAlertNotification(alertData: PaymentAlertData): Promise<{ success: boolean; error?: string }> {
+        try {
+            if (!this.webhookUrl) {
+                console.log('⚠️ Discord webhook URL not configured, skipping notification');
+                return { success: false, error: 'Webhook URL not configured' };
+            }
+
+            console.log('🔔 Sending Discord payment alert for order:', alertData.orderNumber);
+
+            const fields: DiscordEmbedField[] = [
+                {
+                    name: '👤 العميل',
+                    value: `**${alertData.customerName}**\n${alertData.customerEmail}`,
+                    inline: true
+                }
+            ];
+
+            if (alertData.amount !== undefined) {
+                fields.push({
+                    name: '💳 المبلغ',
+                    value: `$${alertData.amount.toFixed(2)} ${alertData.currency || 'USD'}`,
+                    inline: true
+                });
+            }
+
+            if (alertData.reference) {
+                fields.push({ name: '🔗 مرجع PayPal', value: alertData.reference, inline: true });
+            }
+
+            if (alertData.reason) {
+                fields.push({ name: '📝 السبب', value: alertData.reason, inline: false });
+            }
+
+            const payload: DiscordWebhookPayload = {
+                embeds: [{
+                    title: `⚠️ ${alertData.title}`,
+                    description: `${alertData.description}\nرقم الطلب: **${alertData.orderNumber}**`,
+                    color: 0xFF0000, // Red color for payment alerts
+                    fields,
+                    timestamp: alertData.occurredAt.toISOString(),
+                    footer: {
+                        text: 'Prestige Designs - نظام إدارة الطلبات'
+                    }
+                }]
+            };
+
+            const response = await fetch(this.webhookUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(payload),
+            });
+
+            if (response.ok) {
+                console.log('✅ Discord payment alert sent successfully');
+                return { success: true };
+            } else {
+                const errorText = await response.text();
+                console.error('❌ Discord webhook failed:', response.status, errorText);
+                return { success: false, error: `HTTP ${response.status}: ${errorText}` };
+            }
+
+        } catch (error) {
+            console.error('❌ Error sending Discord payment alert:', error);
+            return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    }
+
     /**
      * Test Discord webhook connection
      */
@@ -0,0 +1,219 @@
+/**
+ * Download Token Service
+ *
+ * This service issues and verifies HMAC-signed, time-limited download links
+ * for purchased design files. Each token is tied to an OrderDesignFile record,
+ * so links work from emails without a login while still respecting the
+ * record's expiry and active flag and the file's maxDownloads.
+ *
+ * Features:
+ * - Signed tokens (HMAC-SHA256) with an expiry timestamp
+ * - Binding to OrderDesignFile + DesignFile ids
+ * - Download link generation for order emails
+ * - Atomic download counting against maxDownloads
+ * - Resumed (ranged) downloads are not counted again
+ *
+ * Configuration:
+ * - DOWNLOAD_TOKEN_SECRET (falls back to NEXTAUTH_SECRET)
+ */
+
+import crypto from 'crypto';
+import { DesignFile, OrderDesignFile } from '@/lib/db/models';
+import { IDesignFile } from '@/lib/db/models/DesignFile';
+import { IOrderDesignFile } from '@/lib/db/models/OrderDesignFile';
+
+// Default lifetime of a download link when the order has no expiry of its own
+export const DEFAULT_DOWNLOAD_LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// How long after a counted download its remaining byte ranges may be fetched
+export const DOWNLOAD_RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface DownloadTokenPayload {
+    odf: string;   // OrderDesignFile id
+    df: string;    // DesignFile id
+    exp: number;   // Expiry, unix seconds
+}
+
+export interface DownloadLink {
+    fileName: string;
+    fileUrl: string;
+    fileSize: number;
+    fileType: string;
+}
+
+export type DownloadAccessResult =
+    | { success: true; designFile: IDesignFile; orderDesignFile: IOrderDesignFile }
+    | { success: false; error: string; status: number };
+
+function getSecret(): string {
+    const secret = process.env.DOWNLOAD_TOKEN_SECRET || process.env.NEXTAUTH_SECRET;
+    if (!secret) {
+        throw new Error('DOWNLOAD_TOKEN_SECRET or NEXTAUTH_SECRET must be set to sign download links');
+    }
+    return secret;
+}
+
+function sign(encodedPayload: string): string {
+    return crypto.createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url');
+}
+
+export class DownloadTokenService {
+    /**
+     * Create a signed token for an OrderDesignFile record
+     */
+    static createToken(orderDesignFile: Pick<IOrderDesignFile, '_id' | 'designFileId'>, expiresAt: Date): string {
+        const payload: DownloadTokenPayload = {
+            odf: orderDesignFile._id.toString(),
+            df: orderDesignFile.designFileId.toString(),
+            exp: Math.floor(expiresAt.getTime() / 1000)
+        };
+
+        const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+        return `${encodedPayload}.${sign(encodedPayload)}`;
+    }
+
+    /**
+     * Verify a token's signature and expiry; returns the payload or null
+     */
+    static verifyToken(token: string): DownloadTokenPayload | null {
+        const [encodedPayload, signature] = token.split('.');
+        if (!encodedPayload || !signature) {
+            return null;
+        }
+
+        const expected = Buffer.from(sign(encodedPayload));
+        const received = Buffer.from(signature);
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+            return null;
+        }
+
+        try {
+            const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as DownloadTokenPayload;
+            if (!payload.odf || !payload.df || typeof payload.exp !== 'number') {
+                return null;
+            }
+            if (Date.now() >= payload.exp * 1000) {
+                return null;
+            }
+            return payload;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Build the absolute download URL for an OrderDesignFile record
+     */
+    static createDownloadUrl(orderDesignFile: Pick<IOrderDesignFile, '_id' | 'designFileId'>, expiresAt: Date): string {
+        const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
+        const token = this.createToken(orderDesignFile, expiresAt);
+        return `${baseUrl}/api/design-files/${orderDesignFile.designFileId}/download?token=${token}`;
+    }
+
+    /**
+     * Generate signed download links for every active file of an order.
+     * Links never outlive the OrderDesignFile's own expiry.
+     */
+    static async createOrderDownloadLinks(orderId: string, expiresAt?: Date): Promise<DownloadLink[]> {
+        const linkExpiry = expiresAt || new Date(Date.now() + DEFAULT_DOWNLOAD_LINK_TTL_MS);
+
+        const orderDesignFiles = await OrderDesignFile.find({ orderId: orderId.toString(), isActive: true })
+            .populate<{ designFileId: { _id: string; fileName: string; fileSize: number; fileType: string } | null }>('designFileId')
+            .lean();
+
+        return orderDesignFiles
+            .filter(odf => odf.designFileId)
+            .map(odf => {
+                const designFile = odf.designFileId!;
+                const tokenExpiry = odf.expiresAt && odf.expiresAt < linkExpiry ? odf.expiresAt : linkExpiry;
+
+                return {
+                    fileName: designFile.fileName,
+                    fileUrl: this.createDownloadUrl(
+                        { _id: odf._id, designFileId: designFile._id.toString() },
+                        tokenExpiry
+                    ),
+                    fileSize: designFile.fileSize,
+                    fileType: designFile.fileType
+                };
+            });
+    }
+
+    /**
+     * Whether a resumed request can continue a download that was already counted
+     */
+    static isResumable(orderDesignFile: Pick<IOrderDesignFile, 'downloadCount' | 'lastDownloadedAt'>): boolean {
+        return orderDesignFile.downloadCount > 0 &&
+            !!orderDesignFile.lastDownloadedAt &&
+            Date.now() - new Date(orderDesignFile.lastDownloadedAt).getTime() < DOWNLOAD_RESUME_WINDOW_MS;
+    }
+
+    /**
+     * Resolve a token for a download request and check every access rule.
+     * Resumed requests skip the download limit when they continue a recent download.
+     */
+    static async resolveAccess(token: string, designFileId: string, resumed: boolean = false): Promise<DownloadAccessResult> {
+        const payload = this.verifyToken(token);
+        if (!payload || payload.df !== designFileId) {
+            return { success: false, error: 'Invalid or expired download link', status: 403 };
+        }
+
+        const orderDesignFile = await OrderDesignFile.findById(payload.odf);
+        if (!orderDesignFile || !orderDesignFile.isActive || orderDesignFile.designFileId.toString() !== designFileId) {
+            return { success: false, error: 'Access denied', status: 403 };
+        }
+
+        if (orderDesignFile.expiresAt && new Date() > orderDesignFile.expiresAt) {
+            return { success: false, error: 'Your access to this file has expired', status: 410 };
+        }
+
+        const designFile = await DesignFile.findById(designFileId);
+        if (!designFile || !designFile.isActive) {
+            return { success: false, error: 'Design file is not available', status: 404 };
+        }
+
+        if (designFile.expiresAt && new Date() > designFile.expiresAt) {
+            return { success: false, error: 'Design file has expired', status: 410 };
+        }
+
+        if (resumed && this.isResumable(orderDesignFile)) {
+            return { success: true, designFile, orderDesignFile };
+        }
+
+        if (designFile.maxDownloads && orderDesignFile.downloadCount >= designFile.maxDownloads) {
+            return { success: false, error: 'Download limit reached', status: 429 };
+        }
+
+        return { success: true, designFile, orderDesignFile };
+    }
+
+    /**
+     * Count a download, refusing it when the limit was reached concurrently
+     */
+    static async recordDownload(orderDesignFileId: string, maxDownloads?: number): Promise<boolean> {
+        const now = new Date();
+        const filter: Record<string, unknown> = { _id: orderDesignFileId, isActive: true };
+        if (maxDownloads) {
+            filter.downloadCount = { $lt: maxDownloads };
+        }
+
+        const updated = await OrderDesignFile.findOneAndUpdate(
+            filter,
+            { $inc: { downloadCount: 1 }, $set: { lastDownloadedAt: now } },
+            { new: true }
+        );
+
+        if (!updated) {
+            return false;
+        }
+
+        if (!updated.firstDownloadedAt) {
+            await OrderDesignFile.updateOne(
+                { _id: orderDesignFileId, firstDownloadedAt: null },
+                { $set: { firstDownloadedAt: now } }
+            );
+        }
+
+        return true;
+    }
+}
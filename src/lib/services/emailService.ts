@@ -2290,6 +2290,262 @@ const createCustomizationProcessingTemplate = async (orderData: {
     return await createBaseTemplate(content, `معالجة طلبك - ${orderData.orderNumber}`);
 };
 
+// Admin payment alert template (refunds, reversals and disputes reported by PayPal)
+const createPaymentAlertTemplate = async (alertData: {
+    orderNumber: string;
+    customerName: string;
+    customerEmail: string;
+    title: string;
+    description: string;
+    amount?: number;
+    currency?: string;
+    reference?: string;
+    reason?: string;
+}) => {
+    const content = `
+    <div class="title">⚠️ ${alertData.title}</div>
+
+    <div class="message">
+      ${alertData.description}
+    </div>
+
+    <div class="order-info">
+      <div class="order-number">رقم الطلب: ${alertData.orderNumber}</div>
+      ${alertData.amount !== undefined ? `
+      <div style="margin-top: 10px; color: #ef4444; font-weight: bold; font-size: 16px; direction: rtl;">
+        المبلغ: ${alertData.amount.toFixed(2)} ${alertData.currency || 'USD'}
+      </div>
+      ` : ''}
+      ${alertData.reference ? `<div style="margin-top: 10px; color: ${colors.textSecondary}; direction: rtl;">مرجع PayPal: ${alertData.reference}</div>` : ''}
+      ${alertData.reason ? `<div class="order-reason">السبب: ${alertData.reason}</div>` : ''}
+    </div>
+
+    <div class="customer-info" style="background: rgba(130, 97, 198, 0.1); border: 1px solid rgba(130, 97, 198, 0.3); border-radius: 10px; padding: 10px; margin: 10px; direction: rtl;">
+      <div style="margin-bottom: 15px; margin-right:5px; color: ${colors.light}; font-size: 17px;">👤 الاسم: ${alertData.customerName}</div>
+      <div style="margin-right:5px; color: ${colors.light}; font-size: 17px;">📧 البريد الإلكتروني: ${alertData.customerEmail}</div>
+    </div>
+
+    <div class="message">
+      تم تحديث حالة الدفع وإيقاف وصول العميل إلى الملفات تلقائياً عند الحاجة.
+      <br><br>
+      <a href="${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/admin/orders" style="color: ${colors.primary}; text-decoration: none; font-weight: bold;">🔗 الذهاب إلى لوحة التحكم</a>
+    </div>
+  `;
+
+    return await createBaseTemplate(content, `${alertData.title} - ${alertData.orderNumber}`);
+};
+
+// Email verification template
+const createEmailVerificationTemplate = async (data: {
+    customerName: string;
+    verifyUrl: string;
+}) => {
+    const content = `
+        <div class="title">✉️ تأكيد البريد الإلكتروني</div>
+
+        <div class="message">
+            مرحباً ${data.customerName}،
+            <br><br>
+            شكراً لتسجيلك في Prestige Designs! يرجى تأكيد بريدك الإلكتروني بالضغط على الزر أدناه لتفعيل حسابك بالكامل.
+        </div>
+
+        <div style="text-align: center; margin: 30px 0;">
+            <a href="${data.verifyUrl}"
+               style="display: inline-block; background: linear-gradient(135deg, ${colors.primary} 0%, ${colors.secondary} 100%); color: white; padding: 16px 32px; text-decoration: none; border-radius: 10px; font-weight: bold; font-size: 16px; box-shadow: 0 4px 15px rgba(130, 97, 198, 0.4);">
+                ✅ تأكيد البريد الإلكتروني
+            </a>
+        </div>
+
+        <div class="expiry-notice">
+            <div class="expiry-text">⏰ صلاحية الرابط 24 ساعة ويمكن استخدامه مرة واحدة فقط</div>
+        </div>
+
+        <div class="message">
+            إذا لم تقم بإنشاء حساب لدينا، يمكنك تجاهل هذه الرسالة.
+            <br><br>
+            <strong>فريق Prestige Designs</strong> ❤️
+        </div>
+    `;
+
+    return await createBaseTemplate(content, 'تأكيد البريد الإلكتروني');
+};
+
+// Password reset template
+const createPasswordResetTemplate = async (data: {
+    customerName: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+}) => {
+    const content = `
+        <div class="title">🔑 إعادة تعيين كلمة المرور</div>
+
+        <div class="message">
+            مرحباً ${data.customerName}،
+            <br><br>
+            تلقينا طلباً لإعادة تعيين كلمة المرور الخاصة بحسابك. اضغط على الزر أدناه لاختيار كلمة مرور جديدة.
+        </div>
+
+        <div style="text-align: center; margin: 30px 0;">
+            <a href="${data.resetUrl}"
+               style="display: inline-block; background: linear-gradient(135deg, ${colors.primary} 0%, ${colors.secondary} 100%); color: white; padding: 16px 32px; text-decoration: none; border-radius: 10px; font-weight: bold; font-size: 16px; box-shadow: 0 4px 15px rgba(130, 97, 198, 0.4);">
+                🔐 تعيين كلمة مرور جديدة
+            </a>
+        </div>
+
+        <div class="expiry-notice">
+            <div class="expiry-text">⏰ صلاحية الرابط ${data.expiresInMinutes} دقيقة ويمكن استخدامه مرة واحدة فقط</div>
+        </div>
+
+        <div class="message">
+            إذا لم تطلب إعادة تعيين كلمة المرور، يمكنك تجاهل هذه الرسالة وستبقى كلمة المرور الحالية كما هي.
+            <br><br>
+            <strong>فريق Prestige Designs</strong> ❤️
+        </div>
+    `;
+
+    return await createBaseTemplate(content, 'إعادة تعيين كلمة المرور');
+};
+
+// Password changed notice template
+const createPasswordChangedTemplate = async (data: {
+    customerName: string;
+    changedAt: Date;
+}) => {
+    const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+
+    const content = `
+        <div class="title">🔒 تم تغيير كلمة المرور</div>
+
+        <div class="message">
+            مرحباً ${data.customerName}،
+            <br><br>
+            تم تغيير كلمة المرور الخاصة بحسابك بتاريخ ${data.changedAt.toLocaleString('ar-EG')}.
+        </div>
+
+        <div class="message">
+            إذا لم تقم بهذا التغيير، يرجى <a href="${baseUrl}/auth/forgot-password" style="color: ${colors.primary}; text-decoration: none; font-weight: bold;">إعادة تعيين كلمة المرور</a> فوراً والتواصل معنا.
+            <br><br>
+            <strong>فريق Prestige Designs</strong> ❤️
+        </div>
+    `;
+
+    return await createBaseTemplate(content, 'تم تغيير كلمة المرور');
+};
+
+// Customization proof ready for review template
+const createProofReadyTemplate = async (data: {
+    orderId: string;
+    orderNumber: string;
+    customerName: string;
+    productName: string;
+    round: number;
+    revisionsLeft: number;
+    designerNote?: string;
+}) => {
+    const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+    const reviewUrl = `${baseUrl}/customer/orders/${data.orderId}`;
+
+    const content = `
+        <div class="title">🖼️ البروفة جاهزة للمراجعة</div>
+
+        <div class="message">
+            مرحباً ${data.customerName}،
+            <br><br>
+            أصبحت البروفة رقم ${data.round} لتصميم <strong>${data.productName}</strong> جاهزة. يرجى مراجعتها ثم الموافقة عليها أو طلب التعديلات التي تريدها.
+        </div>
+
+        <div class="order-info">
+            <div class="order-number">رقم الطلب: ${data.orderNumber}</div>
+            <div style="margin-top: 10px; color: #f59e0b; font-weight: bold; font-size: 16px; direction: rtl;">
+                جولات التعديل المتبقية: ${data.revisionsLeft}
+            </div>
+        </div>
+
+        ${data.designerNote ? `
+        <div class="message">
+            <strong>ملاحظة المصمم:</strong>
+            <br>
+            ${data.designerNote}
+        </div>
+        ` : ''}
+
+        <div style="text-align: center; margin: 30px 0;">
+            <a href="${reviewUrl}"
+               style="display: inline-block; background: linear-gradient(135deg, ${colors.primary} 0%, ${colors.secondary} 100%); color: white; padding: 16px 32px; text-decoration: none; border-radius: 10px; font-weight: bold; font-size: 16px; box-shadow: 0 4px 15px rgba(130, 97, 198, 0.4);">
+                👀 مراجعة البروفة
+            </a>
+        </div>
+
+        <div class="message">
+            ستصلك الملفات النهائية بعد موافقتك على البروفة.
+            <br><br>
+            <strong>فريق Prestige Designs</strong> ❤️
+        </div>
+    `;
+
+    return await createBaseTemplate(content, `البروفة جاهزة - ${data.orderNumber}`);
+};
+
+// Escape user-written text before placing it in an email
+const escapeHtml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+// New order message template (sent to the customer or to the store staff)
+const createOrderMessageTemplate = async (data: {
+    recipient: 'customer' | 'staff';
+    orderId: string;
+    orderNumber: string;
+    recipientName: string;
+    senderName: string;
+    message: string;
+    attachmentCount: number;
+}) => {
+    const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+    const threadUrl = data.recipient === 'customer'
+        ? `${baseUrl}/customer/orders/${data.orderId}`
+        : `${baseUrl}/admin/orders/${data.orderId}`;
+
+    const content = `
+        <div class="title">💬 رسالة جديدة على طلبك</div>
+
+        <div class="message">
+            مرحباً ${escapeHtml(data.recipientName)}،
+            <br><br>
+            أرسل <strong>${escapeHtml(data.senderName)}</strong> رسالة جديدة على الطلب رقم ${data.orderNumber}:
+        </div>
+
+        ${data.message ? `
+        <div class="order-info">
+            <div style="white-space: pre-line; direction: rtl; text-align: right;">${escapeHtml(data.message)}</div>
+        </div>
+        ` : ''}
+
+        ${data.attachmentCount > 0 ? `
+        <div class="message">
+            📎 تحتوي الرسالة على ${data.attachmentCount} ${data.attachmentCount === 1 ? 'مرفق' : 'مرفقات'}.
+        </div>
+        ` : ''}
+
+        <div style="text-align: center; margin: 30px 0;">
+            <a href="${threadUrl}"
+               style="display: inline-block; background: linear-gradient(135deg, ${colors.primary} 0%, ${colors.secondary} 100%); color: white; padding: 16px 32px; text-decoration: none; border-radius: 10px; font-weight: bold; font-size: 16px; box-shadow: 0 4px 15px rgba(130, 97, 198, 0.4);">
+                💬 عرض المحادثة والرد
+            </a>
+        </div>
+
+        <div class="message">
+            <strong>فريق Prestige Designs</strong> ❤️
+        </div>
+    `;
+
+    return await createBaseTemplate(content, `رسالة جديدة - ${data.orderNumber}`);
+};
+
 // Email service class
 export class EmailService {
     /**
@@ -2481,6 +2737,198 @@ export class EmailService {
         }
     }
 
+    /**
+     * Send payment alert email to admin (refund, reversal or dispute)
+     */
+    static async sendPaymentAlertEmail(
+        adminEmail: string,
+        alertData: {
+            orderNumber: string;
+            customerName: string;
+            customerEmail: string;
+            title: string;
+            description: string;
+            amount?: number;
+            currency?: string;
+            reference?: string;
+            reason?: string;
+        }
+    ) {
+        try {
+            const html = await createPaymentAlertTemplate(alertData);
+
+            const mailOptions = {
+                from: `"${emailSender.name}" <${emailSender.from}>`,
+                to: adminEmail,
+                subject: `⚠️ ${alertData.title} - ${alertData.orderNumber}`,
+                html: html,
+            };
+
+            const result = await transporter.sendMail(mailOptions) as { messageId: string };
+            console.log('✅ Payment alert email sent successfully:', result.messageId);
+            return { success: true, messageId: result.messageId };
+        } catch (error) {
+            console.error('❌ Error sending payment alert email:', error);
+            return { success: false, error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Send email verification link
+     */
+    static async sendEmailVerificationEmail(
+        to: string,
+        data: {
+            customerName: string;
+            verifyUrl: string;
+        }
+    ) {
+        try {
+            const html = await createEmailVerificationTemplate(data);
+
+            const mailOptions = {
+                from: `"${emailSender.name}" <${emailSender.from}>`,
+                to: to,
+                subject: 'تأكيد البريد الإلكتروني - Prestige Designs',
+                html: html,
+            };
+
+            const result = await transporter.sendMail(mailOptions) as { messageId: string };
+            console.log('✅ Email verification email sent successfully:', result.messageId);
+            return { success: true, messageId: result.messageId };
+        } catch (error) {
+            console.error('❌ Error sending email verification email:', error);
+            return { success: false, error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Send password reset link
+     */
+    static async sendPasswordResetEmail(
+        to: string,
+        data: {
+            customerName: string;
+            resetUrl: string;
+            expiresInMinutes: number;
+        }
+    ) {
+        try {
+            const html = await createPasswordResetTemplate(data);
+
+            const mailOptions = {
+                from: `"${emailSender.name}" <${emailSender.from}>`,
+                to: to,
+                subject: 'إعادة تعيين كلمة المرور - Prestige Designs',
+                html: html,
+            };
+
+            const result = await transporter.sendMail(mailOptions) as { messageId: string };
+            console.log('✅ Password reset email sent successfully:', result.messageId);
+            return { success: true, messageId: result.messageId };
+        } catch (error) {
+            console.error('❌ Error sending password reset email:', error);
+            return { success: false, error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Send password changed notice
+     */
+    static async sendPasswordChangedEmail(
+        to: string,
+        data: {
+            customerName: string;
+            changedAt: Date;
+        }
+    ) {
+        try {
+            const html = await createPasswordChangedTemplate(data);
+
+            const mailOptions = {
+                from: `"${emailSender.name}" <${emailSender.from}>`,
+                to: to,
+                subject: 'تم تغيير كلمة المرور - Prestige Designs',
+                html: html,
+            };
+
+            const result = await transporter.sendMail(mailOptions) as { messageId: string };
+            console.log('✅ Password changed email sent successfully:', result.messageId);
+            return { success: true, messageId: result.messageId };
+        } catch (error) {
+            console.error('❌ Error sending password changed email:', error);
+            return { success: false, error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Send customization proof ready for review email
+     */
+    static async sendProofReadyEmail(
+        to: string,
+        data: {
+            orderId: string;
+            orderNumber: string;
+            customerName: string;
+            productName: string;
+            round: number;
+            revisionsLeft: number;
+            designerNote?: string;
+        }
+    ) {
+        try {
+            const html = await createProofReadyTemplate(data);
+
+            const mailOptions = {
+                from: `"${emailSender.name}" <${emailSender.from}>`,
+                to: to,
+                subject: `🖼️ البروفة جاهزة للمراجعة - ${data.orderNumber}`,
+                html: html,
+            };
+
+            const result = await transporter.sendMail(mailOptions) as { messageId: string };
+            console.log('✅ Proof ready email sent successfully:', result.messageId);
+            return { success: true, messageId: result.messageId };
+        } catch (error) {
+            console.error('❌ Error sending proof ready email:', error);
+            return { success: false, error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Send new order message notification email
+     */
+    static async sendOrderMessageEmail(
+        to: string,
+        data: {
+            recipient: 'customer' | 'staff';
+            orderId: string;
+            orderNumber: string;
+            recipientName: string;
+            senderName: string;
+            message: string;
+            attachmentCount: number;
+        }
+    ) {
+        try {
+            const html = await createOrderMessageTemplate(data);
+
+            const mailOptions = {
+                from: `"${emailSender.name}" <${emailSender.from}>`,
+                to: to,
+                subject: `💬 رسالة جديدة على الطلب ${data.orderNumber}`,
+                html: html,
+            };
+
+            const result = await transporter.sendMail(mailOptions) as { messageId: string };
+            console.log('✅ Order message email sent successfully:', result.messageId);
+            return { success: true, messageId: result.messageId };
+        } catch (error) {
+            console.error('❌ Error sending order message email:', error);
+            return { success: false, error: (error as Error).message };
+        }
+    }
+
     /**
      * Test email configuration
      */
@@ -422,6 +422,8 @@
 import { IOrder } from '@/lib/db/models/Order';
 import { OrderDesignFile } from '@/lib/db/models';
 import { EmailService } from './emailService';
+import { DownloadTokenService } from './downloadTokenService';
+import { OrderStateMachine } from './orderStateMachine';
 import { DesignFile as DesignFileModel } from '@/lib/db/models';
 
 
@@ -432,6 +434,12 @@ export interface DeliveryResult {
     orderCompleted: boolean;
 }
 
+export interface DeliveryEmailResult {
+    success: boolean;
+    skipped?: boolean;            // No email was needed
+    error?: string;
+}
+
 export class ItemDeliveryService {
     /**
      * Process delivery for all items in an order
@@ -457,15 +465,25 @@ export class ItemDeliveryService {
             const orderCompleted = allItemsProcessed && awaitingCustomizationCount === 0;
 
             if (orderCompleted) {
-                order.orderStatus = 'completed';
-                order.customizationStatus = 'completed';
+                const transition = OrderStateMachine.apply(
+                    order,
+                    { orderStatus: 'completed', customizationStatus: 'completed' },
+                    { actor: 'system', note: 'تم تسليم جميع المنتجات تلقائياً' }
+                );
                 await order.save();
-                console.log('✅ Order fully auto-delivered and marked as completed.');
+                console.log(transition.success
+                    ? '✅ Order fully auto-delivered and marked as completed.'
+                    : `⚠️ Order delivered but not marked as completed: ${transition.error}`);
             } else if (awaitingCustomizationCount > 0) {
-                order.orderStatus = 'awaiting_customization';
-                order.customizationStatus = 'pending';
+                const transition = OrderStateMachine.apply(
+                    order,
+                    { orderStatus: 'awaiting_customization', customizationStatus: 'pending' },
+                    { actor: 'system', note: 'الطلب يحتوي على منتجات بانتظار التخصيص' }
+                );
                 await order.save();
-                console.log('🎨 Order has items awaiting customization.');
+                console.log(transition.success
+                    ? '🎨 Order has items awaiting customization.'
+                    : `⚠️ Order status not updated: ${transition.error}`);
             }
 
 
@@ -654,78 +672,74 @@ export class ItemDeliveryService {
     }
 
     /**
-     * Send delivery notification emails based on the delivery result
+     * Send delivery notification emails based on the delivery result.
+     * Failures are returned (not thrown) so the job queue can retry them.
      */
-    static async sendDeliveryNotifications(order: IOrder, deliveryResult: DeliveryResult): Promise<void> {
+    static async sendDeliveryNotifications(order: IOrder, deliveryResult: Pick<DeliveryResult, 'orderCompleted'>): Promise<DeliveryEmailResult> {
         try {
             const isFreeOrder = order.paymentStatus === 'free';
 
             if (deliveryResult.orderCompleted) {
-                await this.sendCompletedOrderEmail(order, isFreeOrder);
-                return;
+                return await this.sendCompletedOrderEmail(order, isFreeOrder);
             }
 
             const awaitingCustomizationItems = order.items.filter(item => item.deliveryStatus === 'awaiting_customization');
-            if (awaitingCustomizationItems.length > 0) {
-                if (isFreeOrder) {
-                    await EmailService.sendFreeOrderUnderReviewEmail(order.customerEmail, {
-                        orderNumber: order.orderNumber,
-                        customerName: order.customerName,
-                        orderId: order._id.toString(),
-                        createdAt: order.createdAt,
-                    });
-                } else {
-                    const customWorkItems = awaitingCustomizationItems.map(item => ({
-                        productName: item.productName,
-                        quantity: item.quantity
-                    }));
-
-                    await EmailService.sendCustomizationProcessingEmail(order.customerEmail, {
-                        orderNumber: order.orderNumber,
-                        customerName: order.customerName,
-                        customWorkItems: customWorkItems,
-                    });
-                }
+            if (awaitingCustomizationItems.length === 0) {
+                return { success: true, skipped: true };
             }
+
+            if (isFreeOrder) {
+                return await EmailService.sendFreeOrderUnderReviewEmail(order.customerEmail, {
+                    orderNumber: order.orderNumber,
+                    customerName: order.customerName,
+                    orderId: order._id.toString(),
+                    createdAt: order.createdAt,
+                });
+            }
+
+            const customWorkItems = awaitingCustomizationItems.map(item => ({
+                productName: item.productName,
+                quantity: item.quantity
+            }));
+
+            return await EmailService.sendCustomizationProcessingEmail(order.customerEmail, {
+                orderNumber: order.orderNumber,
+                customerName: order.customerName,
+                customWorkItems: customWorkItems,
+            });
         } catch (error) {
             console.error('❌ Error sending delivery notifications:', error);
+            return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
         }
     }
 
     /**
      * Helper to send the correct "completed" email (free or paid)
      */
-    private static async sendCompletedOrderEmail(order: IOrder, isFreeOrder: boolean): Promise<void> {
-        const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
-        const orderDesignFiles = await OrderDesignFile.find({ orderId: order._id })
-            .populate('designFileId')
-            .lean();
-
-        const downloadLinks = orderDesignFiles.map((odf: any) => ({
-            fileName: odf.designFileId.fileName,
-            fileUrl: `${baseUrl}/api/design-files/${odf.designFileId._id}/download`,
-            fileSize: odf.designFileId.fileSize,
-            fileType: odf.designFileId.fileType,
-        }));
-
+    private static async sendCompletedOrderEmail(order: IOrder, isFreeOrder: boolean): Promise<DeliveryEmailResult> {
         if (isFreeOrder) {
-            await EmailService.sendFreeOrderCompletedEmail(order.customerEmail, {
+            const downloadLinks = await DownloadTokenService.createOrderDownloadLinks(order._id.toString());
+            return EmailService.sendFreeOrderCompletedEmail(order.customerEmail, {
                 orderNumber: order.orderNumber,
                 customerName: order.customerName,
                 downloadLinks: downloadLinks,
             });
-        } else {
-            const downloadExpiry = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
+        }
+
+        const downloadExpiry = order.downloadExpiry || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
+        if (!order.downloadExpiry) {
             order.downloadExpiry = downloadExpiry;
             await order.save();
-
-            await EmailService.sendOrderCompletedEmail(order.customerEmail, {
-                orderNumber: order.orderNumber,
-                customerName: order.customerName,
-                downloadLinks: downloadLinks,
-                downloadExpiry: downloadExpiry,
-                totalPrice: order.totalPrice,
-            });
         }
+
+        const downloadLinks = await DownloadTokenService.createOrderDownloadLinks(order._id.toString(), downloadExpiry);
+
+        return EmailService.sendOrderCompletedEmail(order.customerEmail, {
+            orderNumber: order.orderNumber,
+            customerName: order.customerName,
+            downloadLinks: downloadLinks,
+            downloadExpiry: downloadExpiry,
+            totalPrice: order.totalPrice,
+        });
     }
 }
\ No newline at end of file
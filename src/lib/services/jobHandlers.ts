@@ -0,0 +1,121 @@
+/**
+ * Job Handlers
+ *
+ * One handler per job type in JobPayloads. Handlers load what they need
+ * from the database (payloads only carry IDs), report failures through
+ * their result instead of swallowing them, and must be safe to run again.
+ *
+ * Handlers:
+ * - order.deliver: item-level delivery, then queues the delivery email
+ * - order.delivery_email: completed / under review / customization email
+ * - order.admin_notification: new order email to the admins
+ * - order.discord_notification: paid order message on Discord
+ */
+
+import connectDB from '@/lib/db/connection';
+import { Order } from '@/lib/db/models';
+import { IOrder } from '@/lib/db/models/Order';
+import { ItemDeliveryService } from '@/lib/services/itemDeliveryService';
+import { AdminNotificationService } from '@/lib/services/adminNotificationService';
+import { DiscordWebhookService } from '@/lib/services/discordWebhookService';
+import { JobHandler, JobQueueService, JobType } from '@/lib/services/jobQueueService';
+
+type OrderLookup = { order: IOrder; error?: undefined } | { order?: undefined; error: string };
+
+async function findOrder(orderId: string): Promise<OrderLookup> {
+    await connectDB();
+
+    const order = await Order.findById(orderId);
+    return order ? { order } : { error: `Order ${orderId} not found` };
+}
+
+function hasCustomizations(order: IOrder): boolean {
+    return order.items.some(item => item.deliveryStatus === 'awaiting_customization');
+}
+
+const deliverOrder: JobHandler<'order.deliver'> = async ({ orderId }) => {
+    const { order, error } = await findOrder(orderId);
+    if (!order) return { success: false, message: error, permanent: true };
+
+    const deliveryResult = await ItemDeliveryService.processOrderDelivery(order);
+
+    await JobQueueService.dispatch('order.delivery_email', {
+        orderId,
+        orderCompleted: deliveryResult.orderCompleted
+    }, {
+        idempotencyKey: `order:${orderId}:delivery_email`,
+        orderId,
+        orderNumber: order.orderNumber
+    });
+
+    return {
+        success: true,
+        message: `${deliveryResult.autoDeliveredItems} auto-delivered, ${deliveryResult.awaitingCustomizationItems} awaiting customization`
+    };
+};
+
+const sendDeliveryEmail: JobHandler<'order.delivery_email'> = async ({ orderId, orderCompleted }) => {
+    const { order, error } = await findOrder(orderId);
+    if (!order) return { success: false, message: error, permanent: true };
+
+    const result = await ItemDeliveryService.sendDeliveryNotifications(order, { orderCompleted });
+
+    return result.success
+        ? { success: true, message: result.skipped ? 'No delivery email needed' : `Delivery email sent to ${order.customerEmail}` }
+        : { success: false, message: result.error || 'Failed to send delivery email' };
+};
+
+const notifyAdmins: JobHandler<'order.admin_notification'> = async ({ orderId }) => {
+    const { order, error } = await findOrder(orderId);
+    if (!order) return { success: false, message: error, permanent: true };
+
+    const result = await AdminNotificationService.notifyNewOrder(order, {
+        hasCustomizations: hasCustomizations(order)
+    });
+
+    if (result.skipped) {
+        return { success: true, message: 'No admin emails configured, notification skipped' };
+    }
+
+    return result.success
+        ? { success: true, message: `Admin notification sent (${result.emailsSent}/${result.totalAdmins})` }
+        : { success: false, message: result.emailErrors?.join('; ') || 'Failed to send admin notification' };
+};
+
+const notifyDiscord: JobHandler<'order.discord_notification'> = async ({ orderId }) => {
+    if (!process.env.DISCORD_WEBHOOK_URL) {
+        return { success: true, message: 'Discord webhook URL not configured, notification skipped' };
+    }
+
+    const { order, error } = await findOrder(orderId);
+    if (!order) return { success: false, message: error, permanent: true };
+
+    const isFreeOrder = order.paymentStatus === 'free';
+    const result = await DiscordWebhookService.sendPaidOrderNotification({
+        orderNumber: order.orderNumber,
+        customerName: order.customerName,
+        customerEmail: order.customerEmail,
+        totalPrice: isFreeOrder ? 0 : order.totalPrice,
+        currency: order.currency,
+        items: order.items.map(item => ({
+            productName: item.productName || 'Unknown Product',
+            quantity: item.quantity || 1,
+            price: item.unitPrice || item.totalPrice || 0
+        })),
+        paymentMethod: isFreeOrder ? 'Free' : 'PayPal',
+        orderStatus: order.orderStatus,
+        hasCustomizations: hasCustomizations(order),
+        paidAt: order.paidAt || order.createdAt
+    });
+
+    return result.success
+        ? { success: true, message: 'Discord notification sent' }
+        : { success: false, message: result.error || 'Failed to send Discord notification' };
+};
+
+export const JOB_HANDLERS: { [T in JobType]: JobHandler<T> } = {
+    'order.deliver': deliverOrder,
+    'order.delivery_email': sendDeliveryEmail,
+    'order.admin_notification': notifyAdmins,
+    'order.discord_notification': notifyDiscord
+};
@@ -0,0 +1,241 @@
+/**
+ * Job Queue Service
+ *
+ * This service stores background jobs in the Job collection and runs them
+ * with retries, so work like delivery emails survives a flaky SMTP server,
+ * a Discord outage or a crashed request.
+ *
+ * Features:
+ * - Typed job payloads per job type
+ * - Idempotency keys: enqueuing the same key twice returns the existing job
+ * - Atomic claiming so several workers never run the same job
+ * - Exponential backoff, then the dead-letter queue after the last attempt
+ * - Best-effort inline run right after enqueuing (disable with JOB_QUEUE_INLINE=false)
+ * - Manual retry from the admin panel
+ *
+ * Jobs are run by the worker process (npm run jobs:worker), by the
+ * scheduler route (POST /api/admin/jobs/run) and inline after enqueuing.
+ */
+
+import connectDB from '@/lib/db/connection';
+import { Job } from '@/lib/db/models';
+import { IJob } from '@/lib/db/models/Job';
+
+// Backoff: 30 seconds, doubling per attempt, capped at 1 hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Jobs locked longer than this are considered abandoned by a crashed worker
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Payload of each job type
+export interface JobPayloads {
+    'order.deliver': { orderId: string };
+    'order.delivery_email': { orderId: string; orderCompleted: boolean };
+    'order.admin_notification': { orderId: string };
+    'order.discord_notification': { orderId: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface JobHandlerResult {
+    success: boolean;
+    message: string;
+    permanent?: boolean;          // Failure that retrying cannot fix (dead-letter immediately)
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], job: IJob) => Promise<JobHandlerResult>;
+
+export interface EnqueueOptions {
+    idempotencyKey: string;
+    orderId?: string;
+    orderNumber?: string;
+    maxAttempts?: number;
+    runAt?: Date;
+}
+
+export interface JobRunResult {
+    success: boolean;
+    message: string;
+    job?: IJob;
+}
+
+/**
+ * Delay before the next attempt, given the number of attempts made so far
+ */
+export function getJobRetryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+}
+
+export class JobQueueService {
+    /**
+     * Store a job; returns the existing job when the idempotency key was
+     * already used
+     */
+    static async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions): Promise<{ job: IJob; isNew: boolean }> {
+        await connectDB();
+
+        const existing = await Job.findOne({ idempotencyKey: options.idempotencyKey });
+        if (existing) {
+            return { job: existing, isNew: false };
+        }
+
+        try {
+            const job = await Job.create({
+                type,
+                payload,
+                idempotencyKey: options.idempotencyKey,
+                status: 'pending',
+                runAt: options.runAt || new Date(),
+                orderId: options.orderId || null,
+                orderNumber: options.orderNumber || null,
+                ...(options.maxAttempts ? { maxAttempts: options.maxAttempts } : {})
+            });
+
+            console.log(`📥 Job queued: ${type} (${options.idempotencyKey})`);
+            return { job, isNew: true };
+        } catch (error) {
+            // The same job was queued concurrently
+            if ((error as { code?: number }).code === 11000) {
+                const job = await Job.findOne({ idempotencyKey: options.idempotencyKey });
+                if (job) return { job, isNew: false };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Queue a job and try to run it straight away; the worker retries it
+     * if the inline run fails
+     */
+    static async dispatch<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions): Promise<JobRunResult> {
+        const { job, isNew } = await this.enqueue(type, payload, options);
+
+        if (!isNew) {
+            return { success: job.status === 'completed', message: `Job already queued (${job.status})`, job };
+        }
+
+        if (process.env.JOB_QUEUE_INLINE === 'false') {
+            return { success: true, message: 'Job queued for the worker', job };
+        }
+
+        return this.runJob(job._id.toString(), 'inline');
+    }
+
+    /**
+     * Run a job once; schedules a retry or dead-letters it on failure.
+     * Admin retries (force) may also run dead-lettered jobs.
+     */
+    static async runJob(jobId: string, triggeredBy: string, force: boolean = false): Promise<JobRunResult> {
+        await connectDB();
+
+        const claimableStatuses = force ? ['pending', 'failed', 'dead_letter'] : ['pending', 'failed'];
+        const now = new Date();
+
+        // Claim the job so concurrent workers don't run it twice
+        const job = await Job.findOneAndUpdate(
+            {
+                _id: jobId,
+                $or: [
+                    { status: { $in: claimableStatuses } },
+                    { status: 'processing', lockedAt: { $lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } }
+                ]
+            },
+            { $set: { status: 'processing', lockedBy: triggeredBy, lockedAt: now, lastAttemptAt: now } },
+            { new: true }
+        );
+
+        if (!job) {
+            return { success: false, message: 'Job not found, already completed or being processed' };
+        }
+
+        const startedAt = Date.now();
+        let result: JobHandlerResult;
+
+        try {
+            const { JOB_HANDLERS } = await import('@/lib/services/jobHandlers');
+            const handler = JOB_HANDLERS[job.type as JobType] as JobHandler<JobType> | undefined;
+
+            result = handler
+                ? await handler(job.payload as unknown as JobPayloads[JobType], job)
+                : { success: false, message: `No handler registered for job type "${job.type}"`, permanent: true };
+        } catch (error) {
+            result = { success: false, message: error instanceof Error ? error.message : 'Unknown error' };
+        }
+
+        const finishedAt = new Date();
+        const attempts = job.attempts + 1;
+
+        job.attempts = attempts;
+        job.lockedBy = undefined;
+        job.lockedAt = undefined;
+        job.attemptLog.push({
+            attemptedAt: finishedAt,
+            success: result.success,
+            message: result.message.slice(0, 2000),
+            durationMs: Date.now() - startedAt,
+            triggeredBy
+        });
+
+        if (result.success) {
+            job.status = 'completed';
+            job.completedAt = finishedAt;
+            job.lastError = undefined;
+            console.log(`✅ Job ${job.type} (${job.idempotencyKey}) completed (attempt ${attempts})`);
+        } else if (result.permanent || attempts >= job.maxAttempts) {
+            job.status = 'dead_letter';
+            job.lastError = result.message;
+            console.error(`💀 Job ${job.type} (${job.idempotencyKey}) moved to dead-letter queue after ${attempts} attempts:`, result.message);
+        } else {
+            job.status = 'failed';
+            job.lastError = result.message;
+            job.runAt = new Date(finishedAt.getTime() + getJobRetryDelay(attempts));
+            console.warn(`⚠️ Job ${job.type} (${job.idempotencyKey}) failed (attempt ${attempts}), retrying at ${job.runAt.toISOString()}:`, result.message);
+        }
+
+        await job.save();
+
+        return { success: result.success, message: result.message, job };
+    }
+
+    /**
+     * Run pending and failed jobs whose time has come, plus jobs abandoned
+     * by a crashed worker
+     */
+    static async processDueJobs(limit: number = 20, workerId: string = 'scheduler'): Promise<{ completed: number; failed: number }> {
+        await connectDB();
+
+        const now = new Date();
+        const dueJobs = await Job.find({
+            $or: [
+                { status: { $in: ['pending', 'failed'] }, runAt: { $lte: now } },
+                { status: 'processing', lockedAt: { $lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } }
+            ]
+        })
+            .sort({ runAt: 1 })
+            .limit(limit)
+            .select('_id');
+
+        let completed = 0;
+        let failed = 0;
+
+        for (const dueJob of dueJobs) {
+            const result = await this.runJob(dueJob._id.toString(), workerId);
+            if (result.success) completed++;
+            else if (result.job) failed++;
+        }
+
+        if (dueJobs.length > 0) {
+            console.log(`🔁 Job run (${workerId}): ${completed} completed, ${failed} failed`);
+        }
+
+        return { completed, failed };
+    }
+
+    /**
+     * Retry a failed or dead-lettered job manually from the admin panel
+     */
+    static async retry(id: string, adminName: string): Promise<JobRunResult> {
+        return this.runJob(id, `admin:${adminName}`, true);
+    }
+}
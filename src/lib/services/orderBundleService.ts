@@ -0,0 +1,193 @@
+/**
+ * Order Bundle Service
+ *
+ * This service builds an on-the-fly ZIP archive containing every design file
+ * a customer may download for an order.
+ *
+ * Features:
+ * - Same access rules as the single-file download route (active, expiry, maxDownloads)
+ * - Per-product folders with per-color-variant subfolders
+ * - Files are streamed one at a time from their storage backend
+ * - Each bundled file is counted once against OrderDesignFile.downloadCount
+ */
+
+import archiver from 'archiver';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { DesignFile, OrderDesignFile } from '@/lib/db/models';
+import { IOrder } from '@/lib/db/models/Order';
+import { getStorageProvider, storageKeyFromUrl, StorageDriver } from '@/lib/storage';
+import { DownloadTokenService } from './downloadTokenService';
+
+export interface BundleEntry {
+    orderDesignFileId: string;
+    designFileId: string;
+    path: string;                    // Path inside the archive
+    storageKey: string;
+    storageDriver?: StorageDriver;
+    maxDownloads?: number;
+}
+
+// Formats that are already compressed; deflating them again only costs CPU
+const STORED_EXTENSIONS = new Set(['.zip', '.rar', '.7z', '.psd', '.jpg', '.jpeg', '.png', '.webp', '.mp4', '.mov']);
+
+export type BundlePlanResult =
+    | { success: true; entries: BundleEntry[]; skipped: number }
+    | { success: false; error: string; status: number };
+
+/**
+ * Make a name safe to use as a ZIP folder or file name
+ */
+function sanitizeEntryName(name: string): string {
+    return name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/^\.+/, '').trim() || 'file';
+}
+
+export class OrderBundleService {
+    /**
+     * Collect the files of an order the requester may download, laid out as
+     * "<product>/<color>/<file>" (general product files sit in the product folder)
+     */
+    static async planBundle(order: IOrder): Promise<BundlePlanResult> {
+        const orderDesignFiles = await OrderDesignFile.find({ orderId: order._id.toString(), isActive: true });
+        if (orderDesignFiles.length === 0) {
+            return { success: false, error: 'No files available for this order', status: 404 };
+        }
+
+        const designFiles = await DesignFile.find({
+            _id: { $in: orderDesignFiles.map(odf => odf.designFileId) }
+        });
+
+        const productFolders = new Map<string, string>();
+        order.items.forEach(item => {
+            productFolders.set(item.productId.toString(), sanitizeEntryName(item.productName || item.productSlug));
+        });
+
+        const usedPaths = new Set<string>();
+        const entries: BundleEntry[] = [];
+        let skipped = 0;
+        const now = new Date();
+
+        for (const odf of orderDesignFiles) {
+            const designFile = designFiles.find(file => file._id.toString() === odf.designFileId.toString());
+
+            // Same rules as /api/design-files/[id]/download
+            if (
+                !designFile ||
+                !designFile.isActive ||
+                (designFile.expiresAt && now > designFile.expiresAt) ||
+                (odf.expiresAt && now > odf.expiresAt) ||
+                (designFile.maxDownloads && odf.downloadCount >= designFile.maxDownloads)
+            ) {
+                skipped++;
+                continue;
+            }
+
+            const storageKey = storageKeyFromUrl(designFile.fileUrl);
+            if (!(await getStorageProvider(designFile.storageDriver).stat(storageKey))) {
+                console.warn('⚠️ Bundle skipped missing file:', storageKey);
+                skipped++;
+                continue;
+            }
+
+            const productId = designFile.productId?.toString();
+            const folders = [productFolders.get(productId) || sanitizeEntryName(productId || 'files')];
+            if (designFile.isColorVariant && designFile.colorVariantName) {
+                folders.push(sanitizeEntryName(designFile.colorVariantName));
+            }
+
+            // Avoid duplicate names inside the same folder
+            const fileName = sanitizeEntryName(designFile.fileName);
+            const extIndex = fileName.lastIndexOf('.');
+            const baseName = extIndex > 0 ? fileName.slice(0, extIndex) : fileName;
+            const extension = extIndex > 0 ? fileName.slice(extIndex) : '';
+            let entryPath = [...folders, fileName].join('/');
+            for (let copy = 2; usedPaths.has(entryPath); copy++) {
+                entryPath = [...folders, `${baseName} (${copy})${extension}`].join('/');
+            }
+            usedPaths.add(entryPath);
+
+            entries.push({
+                orderDesignFileId: odf._id.toString(),
+                designFileId: designFile._id.toString(),
+                path: entryPath,
+                storageKey,
+                storageDriver: designFile.storageDriver,
+                maxDownloads: designFile.maxDownloads
+            });
+        }
+
+        if (entries.length === 0) {
+            return { success: false, error: 'Your access to the files of this order has expired or reached its limit', status: 410 };
+        }
+
+        return { success: true, entries, skipped };
+    }
+
+    /**
+     * Count one download for each bundled file; files that hit their limit
+     * concurrently are dropped from the bundle
+     */
+    static async recordDownloads(entries: BundleEntry[]): Promise<BundleEntry[]> {
+        const recorded: BundleEntry[] = [];
+        for (const entry of entries) {
+            if (await DownloadTokenService.recordDownload(entry.orderDesignFileId, entry.maxDownloads)) {
+                recorded.push(entry);
+            }
+        }
+        return recorded;
+    }
+
+    /**
+     * Stream a ZIP archive of the given entries, reading one file at a time
+     */
+    static createZipStream(entries: BundleEntry[]): ReadableStream<Uint8Array> {
+        const archive = archiver('zip', { zlib: { level: 6 } });
+
+        archive.on('warning', (error) => {
+            console.warn('⚠️ ZIP bundle warning:', error);
+        });
+
+        (async () => {
+            for (const entry of entries) {
+                const storage = getStorageProvider(entry.storageDriver);
+                const fileStream = await storage.createReadStream(entry.storageKey);
+
+                const source = Readable.fromWeb(fileStream as NodeReadableStream<Uint8Array>);
+
+                // Wait for each entry to be written before opening the next file,
+                // giving up if the file or the archive fails (archiver does not
+                // listen for errors on the source stream)
+                const written = new Promise<void>((resolve, reject) => {
+                    const cleanup = () => {
+                        archive.off('entry', onEntry);
+                        archive.off('error', onError);
+                        source.off('error', onError);
+                    };
+                    const onEntry = () => {
+                        cleanup();
+                        resolve();
+                    };
+                    const onError = (error: Error) => {
+                        cleanup();
+                        reject(error);
+                    };
+                    archive.once('entry', onEntry);
+                    archive.once('error', onError);
+                    source.once('error', onError);
+                });
+                const extension = entry.path.slice(entry.path.lastIndexOf('.')).toLowerCase();
+                archive.append(source, {
+                    name: entry.path,
+                    store: STORED_EXTENSIONS.has(extension)
+                });
+                await written;
+            }
+            await archive.finalize();
+        })().catch(error => {
+            console.error('❌ Error building ZIP bundle:', error);
+            archive.destroy(error as Error);
+        });
+
+        return Readable.toWeb(archive) as ReadableStream<Uint8Array>;
+    }
+}
@@ -9,6 +9,7 @@
 import { Order, OrderDesignFile } from '@/lib/db/models';
 import connectDB from '@/lib/db/connection';
 import { EmailService } from './emailService';
+import { DownloadTokenService } from './downloadTokenService';
 
 export async function completeOrderAndSendFiles(orderId: string): Promise<void> {
     try {
@@ -52,14 +53,8 @@ export async function completeOrderAndSendFiles(orderId: string): Promise<void>
         await order.save();
         console.log('✅ Order status updated to completed');
 
-        // Generate download links for email
-        const baseUrl = process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000';
-        const downloadLinks = orderDesignFiles.map(odf => ({
-            fileName: odf.designFileId.fileName,
-            fileUrl: `${baseUrl}/api/design-files/${odf.designFileId._id}/download`,
-            fileSize: odf.designFileId.fileSize,
-            fileType: odf.designFileId.fileType
-        }));
+        // Generate signed download links for email
+        const downloadLinks = await DownloadTokenService.createOrderDownloadLinks(orderId, order.downloadExpiry);
 
         console.log('📧 Download links generated:', downloadLinks.length);
 
@@ -0,0 +1,51 @@
+/**
+ * Order Fulfillment Service
+ *
+ * This service starts the post-payment pipeline on the server once an
+ * order's payment is settled (paid through PayPal or free). It is started
+ * by the OrderStateMachine, never by the checkout page.
+ *
+ * Pipeline (each step is a background job, see JobQueueService):
+ * 1. Item-level delivery (auto-delivered files or awaiting customization),
+ *    which queues the customer delivery email
+ * 2. Admin email notification
+ * 3. Discord notification
+ *
+ * Each job is retried on its own: a failed notification never undoes the
+ * delivery, and a failed delivery email is retried until it is sent.
+ */
+
+import { IOrder } from '@/lib/db/models/Order';
+import { JobQueueService } from '@/lib/services/jobQueueService';
+
+export class OrderFulfillmentService {
+    /**
+     * Queue delivery and notifications for a settled order and run them
+     * straight away when inline runs are enabled
+     */
+    static async fulfill(order: IOrder): Promise<void> {
+        const orderId = order._id.toString();
+        const jobOptions = { orderId, orderNumber: order.orderNumber };
+
+        console.log(`🚚 Fulfilling ${order.paymentStatus === 'free' ? 'free' : 'paid'} order:`, order.orderNumber);
+
+        // Queued one after another so delivery runs before the notifications,
+        // which report whether the order still needs custom work
+        await JobQueueService.dispatch('order.deliver', { orderId }, {
+            ...jobOptions,
+            idempotencyKey: `order:${orderId}:deliver`
+        });
+
+        await JobQueueService.dispatch('order.admin_notification', { orderId }, {
+            ...jobOptions,
+            idempotencyKey: `order:${orderId}:admin_notification`
+        });
+
+        await JobQueueService.dispatch('order.discord_notification', { orderId }, {
+            ...jobOptions,
+            idempotencyKey: `order:${orderId}:discord_notification`
+        });
+
+        console.log('✅ Order fulfillment queued:', order.orderNumber);
+    }
+}
@@ -0,0 +1,276 @@
+/**
+ * Order Message Service
+ *
+ * This service runs the message thread of an order: listing messages for
+ * the customer or for staff, posting text and image attachments, internal
+ * staff notes, read receipts and unread counters.
+ *
+ * Rules:
+ * - Customers only see and post non-internal messages on their own orders
+ * - Internal notes are staff-only and never trigger an email
+ * - Opening the thread marks the other side's messages as read
+ * - The other side is emailed about a new message unless it still has
+ *   unread messages from an earlier notification
+ */
+
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db/connection';
+import cloudinary from '@/lib/cloudinary/config';
+import { Order, OrderMessage } from '@/lib/db/models';
+import { IOrder } from '@/lib/db/models/Order';
+import { IOrderMessage, IOrderMessageAttachment, OrderMessageSender } from '@/lib/db/models/OrderMessage';
+
+const ATTACHMENT_FOLDER = 'prestige-designs/order-messages';
+
+export const ALLOWED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+export const MAX_MESSAGE_LENGTH = 5000;
+
+export interface MessageAttachmentInput {
+    buffer: Buffer;
+    fileName: string;
+    mimeType: string;
+    size: number;
+}
+
+export interface MessageAuthor {
+    type: OrderMessageSender;
+    id: string;
+    name?: string | null;
+}
+
+export interface PostMessageInput {
+    body?: string;
+    isInternal?: boolean;
+    attachments?: MessageAttachmentInput[];
+}
+
+export interface MessageResult {
+    success: boolean;
+    message?: IOrderMessage;
+    error?: string;
+    statusCode?: number;
+}
+
+export class OrderMessageService {
+    /**
+     * Query filter for the messages a side may see
+     */
+    private static visibleFilter(orderId: string, viewer: OrderMessageSender): Record<string, unknown> {
+        const filter: Record<string, unknown> = { orderId: new mongoose.Types.ObjectId(orderId) };
+        if (viewer === 'customer') {
+            filter.isInternal = false;
+        }
+        return filter;
+    }
+
+    /**
+     * Query filter for the messages a side has not read yet
+     */
+    private static unreadFilter(viewer: OrderMessageSender): Record<string, unknown> {
+        return viewer === 'customer'
+            ? { senderType: 'staff', isInternal: false, readByCustomerAt: null }
+            : { senderType: 'customer', readByStaffAt: null };
+    }
+
+    /**
+     * List the thread of an order, oldest first
+     * @param markRead - Mark the other side's messages as read for the viewer
+     */
+    static async listMessages(orderId: string, viewer: OrderMessageSender, markRead = true): Promise<IOrderMessage[]> {
+        await connectDB();
+
+        const messages = await OrderMessage.find(this.visibleFilter(orderId, viewer))
+            .sort({ createdAt: 1 })
+            .lean();
+
+        if (markRead) {
+            await this.markRead(orderId, viewer);
+        }
+
+        return messages as unknown as IOrderMessage[];
+    }
+
+    /**
+     * Mark the other side's messages on an order as read
+     */
+    static async markRead(orderId: string, viewer: OrderMessageSender): Promise<number> {
+        await connectDB();
+
+        const result = await OrderMessage.updateMany(
+            { orderId: new mongoose.Types.ObjectId(orderId), ...this.unreadFilter(viewer) },
+            { $set: viewer === 'customer' ? { readByCustomerAt: new Date() } : { readByStaffAt: new Date() } }
+        );
+
+        return result.modifiedCount;
+    }
+
+    /**
+     * Unread message count of one order for a side
+     */
+    static async getUnreadCount(orderId: string, viewer: OrderMessageSender): Promise<number> {
+        await connectDB();
+
+        return OrderMessage.countDocuments({
+            orderId: new mongoose.Types.ObjectId(orderId),
+            ...this.unreadFilter(viewer)
+        });
+    }
+
+    /**
+     * Unread message counts of several orders for a side, keyed by order ID
+     * (orders without unread messages are left out)
+     */
+    static async getUnreadCounts(orderIds: string[], viewer: OrderMessageSender): Promise<Record<string, number>> {
+        if (orderIds.length === 0) {
+            return {};
+        }
+
+        await connectDB();
+
+        const rows = await OrderMessage.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+            {
+                $match: {
+                    orderId: { $in: orderIds.map(id => new mongoose.Types.ObjectId(id)) },
+                    ...this.unreadFilter(viewer)
+                }
+            },
+            { $group: { _id: '$orderId', count: { $sum: 1 } } }
+        ]);
+
+        return Object.fromEntries(rows.map(row => [row._id.toString(), row.count]));
+    }
+
+    /**
+     * Check attachments before anything is uploaded
+     */
+    static validateAttachments(attachments: Pick<MessageAttachmentInput, 'mimeType' | 'size'>[]): string | null {
+        if (attachments.length > MAX_ATTACHMENTS) {
+            return `You can attach up to ${MAX_ATTACHMENTS} images per message`;
+        }
+
+        for (const attachment of attachments) {
+            if (!ALLOWED_ATTACHMENT_TYPES.includes(attachment.mimeType)) {
+                return 'Attachments must be JPG, PNG, WEBP or GIF images';
+            }
+            if (attachment.size > MAX_ATTACHMENT_SIZE) {
+                return 'Each attachment cannot exceed 10MB';
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Upload message attachments to Cloudinary
+     */
+    private static async uploadAttachments(order: IOrder, attachments: MessageAttachmentInput[]): Promise<IOrderMessageAttachment[]> {
+        return Promise.all(attachments.map(async (attachment, index) => {
+            const dataUri = `data:${attachment.mimeType};base64,${attachment.buffer.toString('base64')}`;
+
+            const result = await cloudinary.uploader.upload(dataUri, {
+                folder: ATTACHMENT_FOLDER,
+                public_id: `${order.orderNumber}_${Date.now()}_${index}`,
+                resource_type: 'image'
+            });
+
+            return {
+                url: result.secure_url,
+                publicId: result.public_id,
+                fileName: attachment.fileName,
+                mimeType: attachment.mimeType,
+                size: attachment.size
+            };
+        }));
+    }
+
+    /**
+     * Post a message to the thread of an order and notify the other side
+     */
+    static async postMessage(orderId: string, author: MessageAuthor, input: PostMessageInput): Promise<MessageResult> {
+        await connectDB();
+
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            return { success: false, error: 'Invalid order ID', statusCode: 400 };
+        }
+
+        const order = await Order.findById(orderId);
+        if (!order) {
+            return { success: false, error: 'Order not found', statusCode: 404 };
+        }
+
+        if (author.type === 'customer' && order.customerId.toString() !== author.id) {
+            return { success: false, error: 'Access denied', statusCode: 403 };
+        }
+
+        const body = input.body?.trim() || '';
+        const attachments = input.attachments || [];
+        const isInternal = author.type === 'staff' && input.isInternal === true;
+
+        if (!body && attachments.length === 0) {
+            return { success: false, error: 'Message must have text or an attachment', statusCode: 400 };
+        }
+
+        if (body.length > MAX_MESSAGE_LENGTH) {
+            return { success: false, error: `Message cannot exceed ${MAX_MESSAGE_LENGTH} characters`, statusCode: 400 };
+        }
+
+        const attachmentError = this.validateAttachments(attachments);
+        if (attachmentError) {
+            return { success: false, error: attachmentError, statusCode: 400 };
+        }
+
+        // Recipients who have not opened earlier notifications are not emailed again
+        const recipient: OrderMessageSender = author.type === 'customer' ? 'staff' : 'customer';
+        const shouldNotify = !isInternal && (await this.getUnreadCount(orderId, recipient)) === 0;
+
+        const uploaded = await this.uploadAttachments(order, attachments);
+        const now = new Date();
+
+        const message = await OrderMessage.create({
+            orderId: order._id,
+            senderType: author.type,
+            senderId: author.id,
+            senderName: author.name || (author.type === 'customer' ? order.customerName : 'فريق الدعم'),
+            body,
+            attachments: uploaded,
+            isInternal,
+            // The author has obviously read the thread up to their own message
+            ...(author.type === 'customer' ? { readByCustomerAt: now } : { readByStaffAt: now })
+        });
+
+        if (shouldNotify) {
+            await this.notifyRecipient(order, recipient, message);
+        }
+
+        console.log(`💬 ${isInternal ? 'Internal note' : 'Message'} posted on order ${order.orderNumber} by ${author.type} ${author.id}`);
+        return { success: true, message };
+    }
+
+    /**
+     * Email the other side about a new message; failures never fail the post
+     */
+    private static async notifyRecipient(order: IOrder, recipient: OrderMessageSender, message: IOrderMessage): Promise<void> {
+        const to = recipient === 'customer' ? order.customerEmail : process.env.ADMIN_EMAIL;
+        if (!to) {
+            console.log('⚠️ No recipient email available, skipping order message notification');
+            return;
+        }
+
+        try {
+            const { EmailService } = await import('@/lib/services/emailService');
+            await EmailService.sendOrderMessageEmail(to, {
+                recipient,
+                orderId: order._id.toString(),
+                orderNumber: order.orderNumber,
+                recipientName: recipient === 'customer' ? order.customerName : 'فريق Prestige Designs',
+                senderName: message.senderName,
+                message: message.body,
+                attachmentCount: message.attachments.length
+            });
+        } catch (emailError) {
+            console.error('❌ Error sending order message email:', emailError);
+        }
+    }
+}
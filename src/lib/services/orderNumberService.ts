@@ -0,0 +1,113 @@
+/**
+ * Order Number Service
+ *
+ * This service hands out human-friendly order numbers (e.g. "PD-2026-00042")
+ * from a per-year Counter sequence. Numbers are allocated with an atomic
+ * increment, so concurrent checkouts never collide and deleted orders never
+ * cause a number to be reused.
+ *
+ * Features:
+ * - One sequence per prefix and year
+ * - Configurable prefix and zero-padded width
+ * - Sequence seeded from existing orders the first time a year is used
+ *
+ * Configuration:
+ * - ORDER_NUMBER_PREFIX (default "PD")
+ * - ORDER_NUMBER_WIDTH (default 5)
+ */
+
+import connectDB from '@/lib/db/connection';
+import { Counter, Order } from '@/lib/db/models';
+
+const DEFAULT_PREFIX = 'PD';
+const DEFAULT_WIDTH = 5;
+
+export interface OrderNumberOptions {
+    prefix?: string;              // Defaults to ORDER_NUMBER_PREFIX
+    width?: number;               // Defaults to ORDER_NUMBER_WIDTH
+    year?: number;                // Defaults to the current year
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class OrderNumberService {
+    /**
+     * Resolve options against the environment configuration
+     */
+    static getConfig(options: OrderNumberOptions = {}): Required<OrderNumberOptions> {
+        const width = options.width ?? parseInt(process.env.ORDER_NUMBER_WIDTH || '', 10);
+
+        return {
+            prefix: options.prefix || process.env.ORDER_NUMBER_PREFIX || DEFAULT_PREFIX,
+            width: Number.isInteger(width) && width > 0 ? width : DEFAULT_WIDTH,
+            year: options.year ?? new Date().getFullYear()
+        };
+    }
+
+    /**
+     * Format a sequence value as an order number
+     */
+    static format(seq: number, options: OrderNumberOptions = {}): string {
+        const { prefix, width, year } = this.getConfig(options);
+        return `${prefix}-${year}-${String(seq).padStart(width, '0')}`;
+    }
+
+    /**
+     * Allocate the next order number
+     */
+    static async next(options: OrderNumberOptions = {}): Promise<string> {
+        await connectDB();
+
+        const config = this.getConfig(options);
+        const counterId = `order:${config.prefix}:${config.year}`;
+
+        await this.ensureSeeded(counterId, config);
+
+        const counter = await Counter.findOneAndUpdate(
+            { _id: counterId },
+            { $inc: { seq: 1 } },
+            { new: true, upsert: true }
+        );
+
+        return this.format(counter!.seq, config);
+    }
+
+    /**
+     * Start a new year's sequence after the highest existing order number, so
+     * orders created before the counter existed are never duplicated
+     */
+    private static async ensureSeeded(counterId: string, config: Required<OrderNumberOptions>): Promise<void> {
+        if (await Counter.exists({ _id: counterId })) {
+            return;
+        }
+
+        const pattern = new RegExp(`^${escapeRegex(config.prefix)}-${config.year}-(\\d+)$`);
+        const orders = await Order.find({ orderNumber: pattern }).select('orderNumber').lean();
+        const highest = orders.reduce((max, order) => {
+            const match = order.orderNumber.match(pattern);
+            return match ? Math.max(max, parseInt(match[1], 10)) : max;
+        }, 0);
+
+        try {
+            await Counter.updateOne(
+                { _id: counterId },
+                { $setOnInsert: { seq: highest } },
+                { upsert: true }
+            );
+        } catch (error) {
+            // Another request seeded the counter first
+            if ((error as { code?: number }).code !== 11000) {
+                throw error;
+            }
+        }
+
+        if (highest > 0) {
+            console.log(`🔢 Order number sequence ${counterId} seeded at ${highest}`);
+        }
+    }
+}
@@ -0,0 +1,306 @@
+/**
+ * Order State Machine
+ *
+ * This service is the single place where order, payment and customization
+ * statuses change. It defines which transitions are allowed, which actor may
+ * trigger each one, and writes the matching order history entry.
+ *
+ * Features:
+ * - Transition tables for orderStatus, paymentStatus and customizationStatus
+ * - Per-transition actor permissions (customer, admin, system)
+ * - One history entry per transition with Arabic status labels
+ * - Post-payment pipeline (delivery and notifications) run server-side
+ *   when an order becomes paid or free
+ *
+ * Actors:
+ * - customer: the order owner (may only cancel an unpaid order)
+ * - admin: staff from the admin panel
+ * - system: server code (checkout, PayPal capture and webhooks, delivery)
+ */
+
+import { IOrder } from '@/lib/db/models/Order';
+
+export type OrderStatus = IOrder['orderStatus'];
+export type PaymentStatus = IOrder['paymentStatus'];
+export type CustomizationStatus = IOrder['customizationStatus'];
+export type OrderActor = 'customer' | 'admin' | 'system';
+
+export type StatusField = 'orderStatus' | 'paymentStatus' | 'customizationStatus';
+
+export interface OrderStatusChange {
+    orderStatus?: OrderStatus;
+    paymentStatus?: PaymentStatus;
+    customizationStatus?: CustomizationStatus;
+}
+
+export interface TransitionContext {
+    actor: OrderActor;
+    changedBy?: string;           // Name shown in the order history (defaults to the actor)
+    note?: string;                // History note (defaults to a description of the change)
+    historyStatus?: string;       // History status (defaults to the most significant new status)
+}
+
+export interface TransitionResult {
+    success: boolean;
+    changed: boolean;             // False when the order already had the requested statuses
+    error?: string;
+    statusCode?: number;
+}
+
+type TransitionTable<S extends string> = Record<S, Partial<Record<S, OrderActor[]>>>;
+
+const ADMIN_OR_SYSTEM: OrderActor[] = ['admin', 'system'];
+
+// Allowed order status transitions and who may trigger them
+const ORDER_STATUS_TRANSITIONS: TransitionTable<OrderStatus> = {
+    pending: {
+        processing: ADMIN_OR_SYSTEM,
+        awaiting_customization: ADMIN_OR_SYSTEM,
+        completed: ADMIN_OR_SYSTEM,
+        cancelled: ['customer', 'admin', 'system']
+    },
+    processing: {
+        awaiting_customization: ADMIN_OR_SYSTEM,
+        under_customization: ['admin'],
+        completed: ADMIN_OR_SYSTEM,
+        cancelled: ADMIN_OR_SYSTEM,
+        refunded: ADMIN_OR_SYSTEM
+    },
+    awaiting_customization: {
+        processing: ADMIN_OR_SYSTEM,
+        under_customization: ['admin'],
+        completed: ADMIN_OR_SYSTEM,
+        cancelled: ADMIN_OR_SYSTEM,
+        refunded: ADMIN_OR_SYSTEM
+    },
+    under_customization: {
+        processing: ADMIN_OR_SYSTEM,
+        awaiting_customization: ['admin'],
+        completed: ADMIN_OR_SYSTEM,
+        cancelled: ADMIN_OR_SYSTEM,
+        refunded: ADMIN_OR_SYSTEM
+    },
+    completed: {
+        processing: ['admin'],
+        cancelled: ['admin'],
+        refunded: ADMIN_OR_SYSTEM
+    },
+    cancelled: {
+        refunded: ADMIN_OR_SYSTEM
+    },
+    refunded: {
+        cancelled: ['admin']
+    }
+};
+
+// Payment statuses are driven by checkout, PayPal and refunds only
+const PAYMENT_STATUS_TRANSITIONS: TransitionTable<PaymentStatus> = {
+    pending: {
+        paid: ['system'],
+        free: ['system'],
+        failed: ['system']
+    },
+    failed: {
+        pending: ['system'],
+        paid: ['system']
+    },
+    paid: {
+        partially_refunded: ['system'],
+        refunded: ['system'],
+        disputed: ['system']
+    },
+    partially_refunded: {
+        refunded: ['system'],
+        disputed: ['system']
+    },
+    disputed: {
+        paid: ['system'],
+        partially_refunded: ['system'],
+        refunded: ['system']
+    },
+    refunded: {},
+    free: {}
+};
+
+const CUSTOMIZATION_STATUS_TRANSITIONS: TransitionTable<CustomizationStatus> = {
+    none: {
+        pending: ADMIN_OR_SYSTEM,
+        processing: ['admin'],
+        completed: ADMIN_OR_SYSTEM
+    },
+    pending: {
+        processing: ADMIN_OR_SYSTEM,
+        completed: ADMIN_OR_SYSTEM
+    },
+    processing: {
+        pending: ['admin'],
+        completed: ADMIN_OR_SYSTEM
+    },
+    completed: {
+        processing: ['admin']
+    }
+};
+
+const TRANSITIONS: Record<StatusField, TransitionTable<string>> = {
+    orderStatus: ORDER_STATUS_TRANSITIONS,
+    paymentStatus: PAYMENT_STATUS_TRANSITIONS,
+    customizationStatus: CUSTOMIZATION_STATUS_TRANSITIONS
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    pending: 'في الانتظار',
+    processing: 'قيد المعالجة',
+    awaiting_customization: 'في انتظار التخصيص',
+    under_customization: 'قيد التخصيص',
+    completed: 'مكتمل',
+    cancelled: 'ملغي',
+    refunded: 'مسترد'
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+    pending: 'في انتظار الدفع',
+    paid: 'مدفوع',
+    failed: 'فشل الدفع',
+    refunded: 'مسترد',
+    partially_refunded: 'مسترد جزئياً',
+    disputed: 'نزاع مفتوح',
+    free: 'مجاني'
+};
+
+export const CUSTOMIZATION_STATUS_LABELS: Record<CustomizationStatus, string> = {
+    none: 'بدون تخصيص',
+    pending: 'في الانتظار',
+    processing: 'قيد التنفيذ',
+    completed: 'مكتمل'
+};
+
+const FIELD_LABELS: Record<StatusField, string> = {
+    orderStatus: 'حالة الطلب',
+    paymentStatus: 'حالة الدفع',
+    customizationStatus: 'حالة التخصيص'
+};
+
+const STATUS_LABELS: Record<StatusField, Record<string, string>> = {
+    orderStatus: ORDER_STATUS_LABELS,
+    paymentStatus: PAYMENT_STATUS_LABELS,
+    customizationStatus: CUSTOMIZATION_STATUS_LABELS
+};
+
+// Payment statuses that start the post-payment pipeline
+const FULFILLMENT_PAYMENT_STATUSES: PaymentStatus[] = ['paid', 'free'];
+
+export class OrderStateMachine {
+    /**
+     * Check whether an actor may move a status field from one value to another
+     */
+    static canTransition(field: StatusField, from: string, to: string, actor: OrderActor): boolean {
+        if (from === to) {
+            return true;
+        }
+
+        const allowedActors = TRANSITIONS[field][from]?.[to];
+        return !!allowedActors && allowedActors.includes(actor);
+    }
+
+    /**
+     * Statuses an actor may move a field to from its current value
+     */
+    static getAllowedTargets(field: StatusField, from: string, actor: OrderActor): string[] {
+        const targets = TRANSITIONS[field][from] || {};
+        return Object.entries(targets)
+            .filter(([, actors]) => actors?.includes(actor))
+            .map(([status]) => status);
+    }
+
+    /**
+     * Arabic label for a status value
+     */
+    static getStatusLabel(field: StatusField, status: string): string {
+        return STATUS_LABELS[field][status] || status;
+    }
+
+    /**
+     * Validate and apply a status change to an order and record it in the
+     * order history. The order is not saved.
+     */
+    static apply(order: IOrder, change: OrderStatusChange, context: TransitionContext): TransitionResult {
+        const fields = (Object.keys(change) as StatusField[])
+            .filter(field => change[field] !== undefined && change[field] !== order[field]);
+
+        if (fields.length === 0) {
+            return { success: true, changed: false };
+        }
+
+        for (const field of fields) {
+            const from = order[field];
+            const to = change[field] as string;
+
+            if (!this.canTransition(field, from, to, context.actor)) {
+                const isKnownTransition = !!TRANSITIONS[field][from]?.[to];
+                return {
+                    success: false,
+                    changed: false,
+                    error: isKnownTransition
+                        ? `${context.actor} cannot change ${field} from "${from}" to "${to}"`
+                        : `Invalid ${field} transition from "${from}" to "${to}"`,
+                    statusCode: isKnownTransition ? 403 : 400
+                };
+            }
+        }
+
+        const descriptions = fields.map(field =>
+            `${FIELD_LABELS[field]}: ${this.getStatusLabel(field, change[field] as string)}`
+        );
+
+        if (change.orderStatus !== undefined) order.orderStatus = change.orderStatus;
+        if (change.paymentStatus !== undefined) order.paymentStatus = change.paymentStatus;
+        if (change.customizationStatus !== undefined) order.customizationStatus = change.customizationStatus;
+
+        if (fields.includes('paymentStatus') && FULFILLMENT_PAYMENT_STATUSES.includes(order.paymentStatus) && !order.paidAt) {
+            order.paidAt = new Date();
+        }
+
+        order.orderHistory.push({
+            status: context.historyStatus
+                || (fields.includes('paymentStatus') ? order.paymentStatus
+                    : fields.includes('orderStatus') ? order.orderStatus
+                        : `customization_${order.customizationStatus}`),
+            timestamp: new Date(),
+            note: context.note || `تم تغيير ${descriptions.join('، ')}`,
+            changedBy: context.changedBy || context.actor
+        });
+
+        return { success: true, changed: true };
+    }
+
+    /**
+     * Apply a status change, save the order and run the work that the new
+     * statuses trigger (delivery and notifications once payment is settled)
+     */
+    static async transition(order: IOrder, change: OrderStatusChange, context: TransitionContext): Promise<TransitionResult> {
+        const previousPaymentStatus = order.paymentStatus;
+
+        const result = this.apply(order, change, context);
+        if (!result.success || !result.changed) {
+            return result;
+        }
+
+        await order.save();
+
+        console.log(`🔀 Order ${order.orderNumber} transitioned by ${context.actor}:`, {
+            orderStatus: order.orderStatus,
+            paymentStatus: order.paymentStatus,
+            customizationStatus: order.customizationStatus
+        });
+
+        const paymentSettled = previousPaymentStatus !== order.paymentStatus
+            && FULFILLMENT_PAYMENT_STATUSES.includes(order.paymentStatus);
+
+        if (paymentSettled) {
+            const { OrderFulfillmentService } = await import('@/lib/services/orderFulfillmentService');
+            await OrderFulfillmentService.fulfill(order);
+        }
+
+        return result;
+    }
+}
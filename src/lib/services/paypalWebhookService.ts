@@ -9,12 +9,29 @@
  * - Proper error handling and recovery
  * - Audit trail for all webhook events
  * - Order status synchronization with PayPal
+ * - Refunds, reversals and disputes revoke file access and alert admins
  */
 
-import { Order } from '@/lib/db/models';
+import { Order, OrderDesignFile } from '@/lib/db/models';
 import { IOrder } from '@/lib/db/models/Order';
 import connectDB from '@/lib/db/connection';
 import { PayPalService } from '@/lib/paypal/service';
+import { EmailService } from '@/lib/services/emailService';
+import { DiscordWebhookService } from '@/lib/services/discordWebhookService';
+import { RefundService } from '@/lib/services/refundService';
+import { OrderStateMachine, OrderStatusChange } from '@/lib/services/orderStateMachine';
+
+// Dispute outcomes where the buyer gets the money back
+const BUYER_FAVOUR_OUTCOMES = ['RESOLVED_BUYER_FAVOUR', 'ACCEPTED'];
+
+interface PaymentAlert {
+    title: string;
+    description: string;
+    amount?: number;
+    currency?: string;
+    reference?: string;
+    reason?: string;
+}
 
 export interface WebhookEventData {
     eventType: string;
@@ -30,7 +47,7 @@ export interface OrderUpdateResult {
     message: string;
     orderId?: string;
     orderNumber?: string;
-    action?: 'updated' | 'completed' | 'failed' | 'duplicate';
+    action?: 'updated' | 'completed' | 'failed' | 'duplicate' | 'unmatched' | 'refunded' | 'disputed';
 }
 
 export class PayPalWebhookService {
@@ -46,8 +63,9 @@ export class PayPalWebhookService {
             await connectDB();
 
             // Check if this webhook event has already been processed
+            // (events that failed earlier are retried from the WebhookEvent collection)
             const existingOrder = await Order.findOne({
-                'webhookEvents.eventId': webhookData.eventId
+                webhookEvents: { $elemMatch: { eventId: webhookData.eventId, processed: true } }
             });
 
             if (existingOrder) {
@@ -66,16 +84,19 @@ export class PayPalWebhookService {
 
             if (webhookData.paypalOrderId) {
                 order = await Order.findOne({ paypalOrderId: webhookData.paypalOrderId });
-            } else if (webhookData.captureId) {
-                // Try to find by transaction ID if no order ID is available
+            }
+            if (!order && webhookData.captureId) {
+                // Refund, reversal and dispute events only reference the capture
                 order = await Order.findOne({ paypalTransactionId: webhookData.captureId });
             }
 
             if (!order) {
+                // The order may not be linked yet; the event is kept and retried later
                 console.warn('⚠️ Order not found for webhook event');
                 return {
                     success: false,
-                    message: 'Order not found for webhook event'
+                    message: 'Order not found for webhook event',
+                    action: 'unmatched'
                 };
             }
 
@@ -103,6 +124,12 @@ export class PayPalWebhookService {
     private static async logWebhookEvent(order: IOrder, webhookData: WebhookEventData): Promise<void> {
         try {
             order.webhookEvents = order.webhookEvents || [];
+
+            // Retries of the same event reuse the entry logged on the first attempt
+            if (order.webhookEvents.some(event => event.eventId === webhookData.eventId)) {
+                return;
+            }
+
             order.webhookEvents.push({
                 eventType: webhookData.eventType,
                 eventId: webhookData.eventId,
@@ -133,6 +160,18 @@ export class PayPalWebhookService {
             case 'PAYMENT.CAPTURE.DENIED':
                 return await this.handlePaymentDenied(order, webhookData);
 
+            case 'PAYMENT.CAPTURE.REFUNDED':
+                return await this.handleCaptureRefunded(order, webhookData);
+
+            case 'PAYMENT.CAPTURE.REVERSED':
+                return await this.handleCaptureReversed(order, webhookData);
+
+            case 'CUSTOMER.DISPUTE.CREATED':
+                return await this.handleDisputeCreated(order, webhookData);
+
+            case 'CUSTOMER.DISPUTE.RESOLVED':
+                return await this.handleDisputeResolved(order, webhookData);
+
             default:
                 return await this.handleGenericEvent(order, webhookData);
         }
@@ -215,13 +254,8 @@ export class PayPalWebhookService {
             console.log('⏳ Payment pending for order:', order.orderNumber);
 
             // Update order status to pending
-            order.paymentStatus = 'pending';
-            order.orderHistory.push({
-                status: 'payment_pending_webhook',
-                timestamp: new Date(),
-                note: `Payment held for review by PayPal (Webhook: ${webhookData.eventId}). Reason: ${webhookData.resource.status_details?.reason || 'Unknown'}`,
-                changedBy: 'system'
-            });
+            this.applyStatusChange(order, { paymentStatus: 'pending' }, 'payment_pending_webhook',
+                `Payment held for review by PayPal (Webhook: ${webhookData.eventId}). Reason: ${webhookData.resource.status_details?.reason || 'Unknown'}`);
 
             await order.save();
             await this.markWebhookProcessed(order, webhookData.eventId);
@@ -248,15 +282,9 @@ export class PayPalWebhookService {
         try {
             console.log('❌ Payment denied for order:', order.orderNumber);
 
-            // Update order status to failed
-            order.paymentStatus = 'failed';
-            order.orderStatus = 'cancelled';
-            order.orderHistory.push({
-                status: 'payment_denied_webhook',
-                timestamp: new Date(),
-                note: `Payment denied by PayPal (Webhook: ${webhookData.eventId}). Reason: ${webhookData.resource.status_details?.reason || 'Unknown'}`,
-                changedBy: 'system'
-            });
+            // Update order status to failed; a late denial cannot cancel a paid order
+            this.applyStatusChange(order, { paymentStatus: 'failed', orderStatus: 'cancelled' }, 'payment_denied_webhook',
+                `Payment denied by PayPal (Webhook: ${webhookData.eventId}). Reason: ${webhookData.resource.status_details?.reason || 'Unknown'}`);
 
             await order.save();
             await this.markWebhookProcessed(order, webhookData.eventId);
@@ -276,6 +304,253 @@ export class PayPalWebhookService {
         }
     }
 
+    /**
+     * Handle a refund issued from PayPal (dashboard or API) or confirmed for an admin refund
+     */
+    private static async handleCaptureRefunded(order: IOrder, webhookData: WebhookEventData): Promise<OrderUpdateResult> {
+        try {
+            const resource = webhookData.resource;
+            console.log(`💸 Refund ${resource.id} of $${resource.amount?.value || '0'} for order:`, order.orderNumber);
+
+            const { refund, isNew } = await RefundService.recordPayPalRefund(order, resource);
+            await this.markWebhookProcessed(order, webhookData.eventId);
+
+            const isFullRefund = order.paymentStatus === 'refunded';
+
+            // Refunds made from the admin panel are already in the ledger and need no alert
+            if (isNew) {
+                await this.notifyAdmins(order, {
+                    title: isFullRefund ? 'تم استرداد مبلغ الطلب' : 'استرداد جزئي من PayPal',
+                    description: isFullRefund
+                        ? 'تم استرداد كامل مبلغ هذا الطلب من PayPal وتم إيقاف الوصول إلى الملفات.'
+                        : 'تم إصدار استرداد جزئي لهذا الطلب من PayPal. يرجى مراجعة الطلب وتحديد العناصر المستردة إن لزم.',
+                    amount: refund.amount,
+                    currency: refund.currency,
+                    reference: refund.paypalRefundId
+                });
+            }
+
+            return {
+                success: true,
+                message: isNew
+                    ? `Refund ${refund.paypalRefundId} recorded for order ${order.orderNumber}`
+                    : `Refund ${refund.paypalRefundId} already recorded for order ${order.orderNumber}`,
+                orderId: order._id.toString(),
+                orderNumber: order.orderNumber,
+                action: isFullRefund ? 'refunded' : 'updated'
+            };
+
+        } catch (error) {
+            console.error('❌ Error handling capture refunded webhook:', error);
+            await this.markWebhookFailed(order, webhookData.eventId, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Handle a reversal (chargeback or PayPal-initiated return of funds)
+     */
+    private static async handleCaptureReversed(order: IOrder, webhookData: WebhookEventData): Promise<OrderUpdateResult> {
+        try {
+            console.log('↩️ Payment reversed for order:', order.orderNumber);
+
+            this.applyStatusChange(order, {
+                paymentStatus: 'refunded',
+                orderStatus: order.orderStatus !== 'cancelled' ? 'refunded' : undefined
+            }, 'payment_reversed_webhook',
+                `Payment reversed by PayPal (Webhook: ${webhookData.eventId}). Reason: ${webhookData.resource.status_details?.reason || 'Unknown'}`);
+            await order.save();
+
+            await RefundService.revokeOrderAccess(order, 'reversal');
+            await this.markWebhookProcessed(order, webhookData.eventId);
+
+            await this.notifyAdmins(order, {
+                title: 'تم عكس الدفعة',
+                description: 'قامت PayPal بعكس دفعة هذا الطلب (استرجاع مبلغ). تم إيقاف الوصول إلى الملفات.',
+                amount: parseFloat(webhookData.resource.amount?.value || `${order.totalPrice}`),
+                currency: webhookData.resource.amount?.currency_code,
+                reference: webhookData.resource.id,
+                reason: webhookData.resource.status_details?.reason
+            });
+
+            return {
+                success: true,
+                message: `Order ${order.orderNumber} payment was reversed`,
+                orderId: order._id.toString(),
+                orderNumber: order.orderNumber,
+                action: 'refunded'
+            };
+
+        } catch (error) {
+            console.error('❌ Error handling capture reversed webhook:', error);
+            await this.markWebhookFailed(order, webhookData.eventId, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Handle a new customer dispute; downloads are suspended while it is open
+     */
+    private static async handleDisputeCreated(order: IOrder, webhookData: WebhookEventData): Promise<OrderUpdateResult> {
+        try {
+            const dispute = webhookData.resource;
+            console.log('⚖️ Dispute opened for order:', order.orderNumber, dispute.dispute_id || dispute.id);
+
+            this.applyStatusChange(order, {
+                paymentStatus: order.paymentStatus !== 'refunded' ? 'disputed' : undefined
+            }, 'dispute_created_webhook',
+                `Customer opened a PayPal dispute (DisputeID: ${dispute.dispute_id || dispute.id}, Webhook: ${webhookData.eventId}). Reason: ${dispute.reason || 'Unknown'}`);
+            await order.save();
+
+            await RefundService.revokeOrderAccess(order, 'dispute');
+            await this.markWebhookProcessed(order, webhookData.eventId);
+
+            await this.notifyAdmins(order, {
+                title: 'نزاع جديد على طلب',
+                description: 'فتح العميل نزاعاً في PayPal على هذا الطلب. تم إيقاف الوصول إلى الملفات حتى يتم حل النزاع.',
+                amount: parseFloat(dispute.dispute_amount?.value || `${order.totalPrice}`),
+                currency: dispute.dispute_amount?.currency_code,
+                reference: dispute.dispute_id || dispute.id,
+                reason: dispute.reason
+            });
+
+            return {
+                success: true,
+                message: `Dispute recorded for order ${order.orderNumber}`,
+                orderId: order._id.toString(),
+                orderNumber: order.orderNumber,
+                action: 'disputed'
+            };
+
+        } catch (error) {
+            console.error('❌ Error handling dispute created webhook:', error);
+            await this.markWebhookFailed(order, webhookData.eventId, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Handle a resolved dispute; access is restored when the seller keeps the payment
+     */
+    private static async handleDisputeResolved(order: IOrder, webhookData: WebhookEventData): Promise<OrderUpdateResult> {
+        try {
+            const dispute = webhookData.resource;
+            const outcome: string = dispute.dispute_outcome?.outcome_code || 'UNKNOWN';
+            const buyerWon = BUYER_FAVOUR_OUTCOMES.includes(outcome);
+
+            console.log('⚖️ Dispute resolved for order:', order.orderNumber, outcome);
+
+            const wasDisputed = order.paymentStatus === 'disputed';
+            let change: OrderStatusChange = {};
+            if (buyerWon) {
+                change = {
+                    paymentStatus: 'refunded',
+                    orderStatus: order.orderStatus !== 'cancelled' ? 'refunded' : undefined
+                };
+            } else if (wasDisputed) {
+                change = { paymentStatus: order.refundedAmount > 0 ? 'partially_refunded' : 'paid' };
+            }
+
+            this.applyStatusChange(order, change, 'dispute_resolved_webhook',
+                `PayPal dispute resolved: ${outcome} (DisputeID: ${dispute.dispute_id || dispute.id}, Webhook: ${webhookData.eventId})`);
+            await order.save();
+
+            if (buyerWon) {
+                await RefundService.revokeOrderAccess(order, 'refund');
+            } else if (wasDisputed && order.paymentStatus !== 'disputed') {
+                await this.restoreDisputedAccess(order);
+            }
+            await this.markWebhookProcessed(order, webhookData.eventId);
+
+            await this.notifyAdmins(order, {
+                title: buyerWon ? 'تم حل النزاع لصالح العميل' : 'تم حل النزاع لصالح المتجر',
+                description: buyerWon
+                    ? 'تم حل النزاع لصالح العميل واسترداد المبلغ. يبقى الوصول إلى الملفات موقوفاً.'
+                    : 'تم حل النزاع لصالح المتجر وتمت إعادة الوصول إلى الملفات.',
+                amount: dispute.dispute_amount?.value ? parseFloat(dispute.dispute_amount.value) : undefined,
+                currency: dispute.dispute_amount?.currency_code,
+                reference: dispute.dispute_id || dispute.id,
+                reason: outcome
+            });
+
+            return {
+                success: true,
+                message: `Dispute for order ${order.orderNumber} resolved (${outcome})`,
+                orderId: order._id.toString(),
+                orderNumber: order.orderNumber,
+                action: buyerWon ? 'refunded' : 'updated'
+            };
+
+        } catch (error) {
+            console.error('❌ Error handling dispute resolved webhook:', error);
+            await this.markWebhookFailed(order, webhookData.eventId, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Apply a webhook status change through the order state machine. The
+     * order is not saved. Transitions the state machine rejects (e.g. a late
+     * denial for a paid order) are logged and only noted in the history.
+     */
+    private static applyStatusChange(order: IOrder, change: OrderStatusChange, historyStatus: string, note: string): void {
+        const transition = OrderStateMachine.apply(order, change, { actor: 'system', historyStatus, note });
+
+        if (!transition.success) {
+            console.warn(`⚠️ Order ${order.orderNumber} status not updated by webhook: ${transition.error}`);
+        }
+
+        if (!transition.changed) {
+            order.orderHistory.push({
+                status: historyStatus,
+                timestamp: new Date(),
+                note: transition.success ? note : `${note}. Status unchanged: ${transition.error}`,
+                changedBy: 'system'
+            });
+        }
+    }
+
+    /**
+     * Restore file access that was suspended while a dispute was open
+     */
+    private static async restoreDisputedAccess(order: IOrder): Promise<void> {
+        const result = await OrderDesignFile.updateMany(
+            { orderId: order._id.toString(), isActive: false, revokedReason: 'dispute' },
+            { $set: { isActive: true, revokedAt: null, revokedReason: null } }
+        );
+
+        console.log(`🔓 Restored access to ${result.modifiedCount} file(s) for order ${order.orderNumber}`);
+    }
+
+    /**
+     * Alert admins by email and Discord; failures are logged, never thrown
+     */
+    private static async notifyAdmins(order: IOrder, alert: PaymentAlert): Promise<void> {
+        const alertData = {
+            orderNumber: order.orderNumber,
+            customerName: order.customerName,
+            customerEmail: order.customerEmail,
+            ...alert
+        };
+
+        try {
+            const adminEmail = process.env.ADMIN_EMAIL;
+            if (adminEmail) {
+                await EmailService.sendPaymentAlertEmail(adminEmail, alertData);
+            } else {
+                console.log('⚠️ ADMIN_EMAIL not configured, skipping payment alert email');
+            }
+        } catch (error) {
+            console.error('❌ Error sending payment alert email:', error);
+        }
+
+        try {
+            await DiscordWebhookService.sendPaymentAlertNotification({ ...alertData, occurredAt: new Date() });
+        } catch (error) {
+            console.error('❌ Error sending Discord payment alert:', error);
+        }
+    }
+
     /**
      * Handle generic webhook events
      */
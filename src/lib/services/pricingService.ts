@@ -0,0 +1,347 @@
+/**
+ * Pricing Service
+ *
+ * This service recomputes order pricing on the server so that the totals
+ * stored on an Order never depend on values sent by the checkout client.
+ *
+ * Features:
+ * - Line pricing from Product.price / discountAmount / discountPercentage
+ * - Bundle pricing split across the bundle's items
+ * - Promo code rules (product scope, limits, minimum order, caps)
+ * - Proportional split of the promo discount across qualifying items
+ *   (bundle items are already discounted and never qualify)
+ * - Comparison against client-submitted totals
+ * - Pricing breakdown snapshot for the Order document
+ */
+
+import mongoose from 'mongoose';
+import { Bundle, Product } from '@/lib/db/models';
+import { IBundle } from '@/lib/db/models/Bundle';
+import PromoCode from '@/lib/db/models/PromoCode';
+import PromoCodeUsage from '@/lib/db/models/PromoCodeUsage';
+import { IPromoCode } from '@/lib/db/models/PromoCode';
+import { IPricingBreakdown } from '@/lib/db/models/Order';
+import { DEFAULT_REVISION_ROUNDS, ICustomizationField } from '@/lib/db/models/Product';
+import { calculateFinalPrice } from '@/lib/utils/productUtils';
+import { calculateBundlePrice, splitBundlePrice } from '@/lib/utils/bundleUtils';
+
+// Differences below one cent are treated as rounding noise
+export const PRICE_TOLERANCE = 0.01;
+
+export interface PricingItemInput {
+    productId: string;
+    quantity: number;
+    bundleId?: string;               // Set on every item a bundle expanded into
+}
+
+export interface PricingRequest {
+    items: PricingItemInput[];
+    promoCode?: string;
+    userId: string;
+}
+
+export interface PricedItem {
+    productId: string;
+    productName: string;
+    productSlug: string;
+    quantity: number;
+    originalPrice: number;
+    discountAmount: number;
+    unitPrice: number;
+    totalPrice: number;
+    promoCode?: string;
+    promoDiscount: number;
+    EnableCustomizations: boolean;
+    revisionRounds: number;
+    customizationFields: ICustomizationField[];
+    colorOptions: string[];          // Hex values of the product's color themes
+    bundleId?: string;
+    bundleName?: string;
+}
+
+export interface PricingResult {
+    items: PricedItem[];
+    subtotal: number;
+    totalProductDiscount: number;
+    totalPromoDiscount: number;
+    totalPrice: number;
+    appliedPromoCodes: string[];
+    promoCodeId?: string;
+}
+
+export type PricingOutcome =
+    | { success: true; pricing: PricingResult }
+    | { success: false; error: string; code: 'PRODUCT_UNAVAILABLE' | 'BUNDLE_UNAVAILABLE' | 'INVALID_PROMO' };
+
+export interface ClientTotals {
+    subtotal: number;
+    totalPromoDiscount: number;
+    totalPrice: number;
+}
+
+/**
+ * Round a currency amount to cents
+ */
+export function roundCurrency(value: number): number {
+    return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export class PricingService {
+    /**
+     * Price a list of cart items using the current catalogue and promo rules
+     */
+    static async priceOrder(request: PricingRequest): Promise<PricingOutcome> {
+        const productIds = [...new Set(request.items.map(item => item.productId))];
+        const products = await Product.find({ _id: { $in: productIds } }).lean();
+
+        const items: PricedItem[] = [];
+        for (const input of request.items) {
+            const product = products.find(p => p._id.toString() === input.productId);
+            if (!product || !product.isActive) {
+                return {
+                    success: false,
+                    code: 'PRODUCT_UNAVAILABLE',
+                    error: 'أحد المنتجات في سلة التسوق لم يعد متاحاً'
+                };
+            }
+
+            const originalPrice = roundCurrency(product.price);
+            const unitPrice = roundCurrency(
+                calculateFinalPrice(product.price, product.discountAmount, product.discountPercentage)
+            );
+
+            items.push({
+                productId: input.productId,
+                productName: product.name,
+                productSlug: product.slug,
+                quantity: input.quantity,
+                originalPrice,
+                discountAmount: roundCurrency(originalPrice - unitPrice),
+                unitPrice,
+                totalPrice: roundCurrency(unitPrice * input.quantity),
+                promoDiscount: 0,
+                EnableCustomizations: product.EnableCustomizations ?? false,
+                revisionRounds: product.revisionRounds ?? DEFAULT_REVISION_ROUNDS,
+                customizationFields: product.customizationFields ?? [],
+                colorOptions: (product.colors ?? []).map(color => color.hex),
+                bundleId: input.bundleId
+            });
+        }
+
+        const bundleResult = await this.applyBundles(items);
+        if (!bundleResult.success) {
+            return { success: false, code: 'BUNDLE_UNAVAILABLE', error: bundleResult.error };
+        }
+
+        const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.originalPrice * item.quantity, 0));
+        const totalProductDiscount = roundCurrency(items.reduce((sum, item) => sum + item.discountAmount * item.quantity, 0));
+
+        let totalPromoDiscount = 0;
+        let promoCodeId: string | undefined;
+        const appliedPromoCodes: string[] = [];
+
+        if (request.promoCode && request.promoCode.trim()) {
+            const promoResult = await this.applyPromoCode(items, request.promoCode, request.userId);
+            if (!promoResult.success) {
+                return { success: false, code: 'INVALID_PROMO', error: promoResult.error };
+            }
+
+            totalPromoDiscount = promoResult.discount;
+            promoCodeId = promoResult.promoCodeId;
+            appliedPromoCodes.push(promoResult.code);
+        }
+
+        const totalPrice = roundCurrency(
+            Math.max(0, items.reduce((sum, item) => sum + item.totalPrice, 0))
+        );
+
+        return {
+            success: true,
+            pricing: {
+                items,
+                subtotal,
+                totalProductDiscount,
+                totalPromoDiscount,
+                totalPrice,
+                appliedPromoCodes,
+                promoCodeId
+            }
+        };
+    }
+
+    /**
+     * Reprice the items of each bundle so that together they cost the bundle
+     * price; the bundle discount is split across them by product price
+     */
+    private static async applyBundles(items: PricedItem[]): Promise<{ success: true } | { success: false; error: string }> {
+        const bundleIds = [...new Set(items.map(item => item.bundleId).filter((id): id is string => !!id))];
+        if (bundleIds.length === 0) {
+            return { success: true };
+        }
+
+        const bundles = await Bundle.find({
+            _id: { $in: bundleIds.filter(id => mongoose.Types.ObjectId.isValid(id)) },
+            isActive: true
+        }).lean<IBundle[]>();
+
+        for (const bundleId of bundleIds) {
+            const bundle = bundles.find(b => b._id.toString() === bundleId);
+            const bundleItems = items.filter(item => item.bundleId === bundleId);
+            const productIds = bundle?.productIds.map(id => id.toString()) ?? [];
+
+            // The cart must hold exactly the bundle's current contents, once each
+            const matchesBundle = !!bundle
+                && bundleItems.length === productIds.length
+                && productIds.every(id => bundleItems.some(item => item.productId === id))
+                && bundleItems.every(item => item.quantity === bundleItems[0].quantity && !item.EnableCustomizations);
+
+            if (!bundle || !matchesBundle) {
+                return { success: false, error: 'تغيّر محتوى أحد البكجات في سلة التسوق، يرجى إزالته وإضافته من جديد' };
+            }
+
+            const individualTotal = roundCurrency(bundleItems.reduce((sum, item) => sum + item.unitPrice, 0));
+            const shares = splitBundlePrice(
+                calculateBundlePrice(individualTotal, bundle),
+                bundleItems.map(item => item.unitPrice)
+            );
+
+            bundleItems.forEach((item, index) => {
+                item.bundleName = bundle.name;
+                item.unitPrice = shares[index];
+                item.discountAmount = roundCurrency(Math.max(0, item.originalPrice - shares[index]));
+                item.totalPrice = roundCurrency(shares[index] * item.quantity);
+            });
+        }
+
+        return { success: true };
+    }
+
+    /**
+     * Validate a promo code for the priced items and spread its discount across them.
+     * Mirrors the rules used by /api/promo-codes/validate.
+     */
+    private static async applyPromoCode(
+        items: PricedItem[],
+        code: string,
+        userId: string
+    ): Promise<{ success: true; discount: number; code: string; promoCodeId: string } | { success: false; error: string }> {
+        const promoCode: IPromoCode | null = await PromoCode.findOne({
+            code: code.trim().toUpperCase(),
+            isActive: true
+        });
+
+        if (!promoCode || !promoCode.isCurrentlyValid()) {
+            return { success: false, error: 'كود الخصم غير صحيح أو منتهي الصلاحية' };
+        }
+
+        const userUsageCount = await PromoCodeUsage.countDocuments({
+            userId,
+            promoCodeId: promoCode._id.toString(),
+            isActive: true
+        });
+
+        if (!promoCode.canUserUse(userUsageCount)) {
+            return { success: false, error: 'لقد تجاوزت الحد المسموح لاستخدام هذا الكود' };
+        }
+
+        // Bundles are already discounted, so promo codes only cover individually bought items
+        const eligibleItems = items.filter(item => !item.bundleId);
+        if (eligibleItems.length === 0) {
+            return { success: false, error: 'أكواد الخصم لا تنطبق على البكجات' };
+        }
+
+        const cartTotal = eligibleItems.reduce((sum, item) => sum + item.totalPrice, 0);
+        if (promoCode.minimumOrderAmount && cartTotal < promoCode.minimumOrderAmount) {
+            return { success: false, error: `الحد الأدنى لقيمة الطلب هو $${promoCode.minimumOrderAmount}` };
+        }
+
+        const promoProductIds = (promoCode.productIds || []).map(id => id.toString());
+        const qualifyingItems = promoCode.applyToAllProducts
+            ? eligibleItems
+            : eligibleItems.filter(item => promoProductIds.includes(item.productId));
+
+        if (qualifyingItems.length === 0) {
+            return { success: false, error: 'هذا الكود لا ينطبق على المنتجات المحددة في سلة التسوق' };
+        }
+
+        const qualifyingTotal = qualifyingItems.reduce((sum, item) => sum + item.totalPrice, 0);
+        const qualifyingQuantity = qualifyingItems.reduce((sum, item) => sum + item.quantity, 0);
+
+        let discount = promoCode.discountType === 'percentage'
+            ? (qualifyingTotal * promoCode.discountValue) / 100
+            : promoCode.discountValue * qualifyingQuantity;
+
+        if (promoCode.maxDiscountAmount && discount > promoCode.maxDiscountAmount) {
+            discount = promoCode.maxDiscountAmount;
+        }
+
+        discount = roundCurrency(Math.min(discount, qualifyingTotal));
+
+        // Split the discount proportionally; the last item absorbs rounding remainders
+        let remaining = discount;
+        qualifyingItems.forEach((item, index) => {
+            const isLast = index === qualifyingItems.length - 1;
+            const share = isLast
+                ? remaining
+                : roundCurrency(qualifyingTotal > 0 ? (item.totalPrice / qualifyingTotal) * discount : 0);
+            const applied = Math.min(share, item.totalPrice);
+
+            item.promoCode = promoCode.code;
+            item.promoDiscount = roundCurrency(applied);
+            item.totalPrice = roundCurrency(item.totalPrice - applied);
+            remaining = roundCurrency(remaining - applied);
+        });
+
+        return {
+            success: true,
+            discount: roundCurrency(discount - remaining),
+            code: promoCode.code,
+            promoCodeId: promoCode._id.toString()
+        };
+    }
+
+    /**
+     * Return the list of totals where the client and server disagree
+     */
+    static findMismatches(pricing: PricingResult, client: ClientTotals): string[] {
+        const mismatches: string[] = [];
+
+        if (Math.abs(pricing.subtotal - client.subtotal) > PRICE_TOLERANCE) {
+            mismatches.push('subtotal');
+        }
+        if (Math.abs(pricing.totalPromoDiscount - client.totalPromoDiscount) > PRICE_TOLERANCE) {
+            mismatches.push('totalPromoDiscount');
+        }
+        if (Math.abs(pricing.totalPrice - client.totalPrice) > PRICE_TOLERANCE) {
+            mismatches.push('totalPrice');
+        }
+
+        return mismatches;
+    }
+
+    /**
+     * Build the breakdown snapshot stored on the Order
+     */
+    static buildBreakdown(pricing: PricingResult, client: ClientTotals, mismatches: string[]): IPricingBreakdown {
+        return {
+            computedAt: new Date(),
+            subtotal: pricing.subtotal,
+            productDiscount: pricing.totalProductDiscount,
+            promoDiscount: pricing.totalPromoDiscount,
+            total: pricing.totalPrice,
+            promoCode: pricing.appliedPromoCodes[0],
+            clientTotal: client.totalPrice,
+            corrected: mismatches.length > 0,
+            mismatchedFields: mismatches,
+            lines: pricing.items.map(item => ({
+                productId: item.productId,
+                quantity: item.quantity,
+                basePrice: item.originalPrice,
+                productDiscount: item.discountAmount,
+                unitPrice: item.unitPrice,
+                promoDiscount: item.promoDiscount,
+                lineTotal: item.totalPrice
+            }))
+        };
+    }
+}
@@ -0,0 +1,358 @@
+/**
+ * Product Search Service
+ *
+ * This service powers the public product search: Arabic/English aware
+ * matching with typo tolerance, faceted filtering and relevance ranking.
+ *
+ * Matching runs in memory over the active catalogue, because MongoDB's
+ * $text index neither normalizes Arabic spelling variants nor tolerates typos.
+ *
+ * Rules:
+ * - Only active products are ever searched or counted
+ * - Every query word has to match the name, tags, category or description
+ *   (exactly, as a prefix, or within the allowed number of typos)
+ * - Facet counts ignore the facet's own filter, so other options stay visible
+ * - Relevance is boosted by purchaseCount and rating
+ */
+
+import connectDB from '@/lib/db/connection';
+import { Category, Product } from '@/lib/db/models';
+import { allowedTypos, editDistance, normalizeSearchText, tokenizeSearchText } from '@/lib/utils/searchUtils';
+
+export const SEARCH_SORTS = ['relevance', 'newest', 'price_asc', 'price_desc', 'rating', 'popular'] as const;
+export type SearchSort = typeof SEARCH_SORTS[number];
+
+export const MAX_SEARCH_LIMIT = 48;
+
+// Price buckets shown as facets (USD, upper bound exclusive so each price falls in one bucket)
+export const PRICE_BUCKETS: { key: string; label: string; min: number; max?: number }[] = [
+    { key: '0-10', label: 'حتى 10$', min: 0, max: 10 },
+    { key: '10-25', label: '10$ - 25$', min: 10, max: 25 },
+    { key: '25-50', label: '25$ - 50$', min: 25, max: 50 },
+    { key: '50-100', label: '50$ - 100$', min: 50, max: 100 },
+    { key: '100+', label: 'أكثر من 100$', min: 100 }
+];
+
+// Weight of a query word found in each product field
+const FIELD_WEIGHTS = { name: 5, tags: 3, category: 2, description: 1 };
+
+// Score of a match relative to an exact word match
+const PREFIX_MATCH = 0.75;
+const TYPO_MATCH = 0.5;
+
+const MAX_TAG_FACETS = 20;
+
+export interface ProductSearchParams {
+    q?: string;
+    category?: string;               // Category slug
+    tags?: string[];                 // Any of these tags
+    minPrice?: number;
+    maxPrice?: number;
+    priceBucket?: string;            // PRICE_BUCKETS key; takes precedence over minPrice / maxPrice
+    customizable?: boolean;
+    onSale?: boolean;
+    sort?: SearchSort;
+    page?: number;
+    limit?: number;
+}
+
+export interface SearchFacets {
+    categories: { id: string; name: string; slug: string; count: number }[];
+    tags: { value: string; count: number }[];
+    priceBuckets: { key: string; label: string; min: number; max?: number; count: number }[];
+    customizable: { yes: number; no: number };
+    onSale: { yes: number; no: number };
+}
+
+export interface SearchResultProduct {
+    _id: string;
+    name: string;
+    slug: string;
+    images: { url: string; alt?: string; isPrimary?: boolean }[];
+    tags: string[];
+    categoryId: { _id: string; name: string; slug: string } | null;
+    price: number;
+    finalPrice: number;
+    discountAmount?: number;
+    discountPercentage?: number;
+    EnableCustomizations: boolean;
+    isOnSale: boolean;
+    isFeatured: boolean;
+    rating: number;
+    reviewCount: number;
+    purchaseCount: number;
+    createdAt: Date;
+}
+
+export interface ProductSearchResult {
+    products: SearchResultProduct[];
+    total: number;
+    page: number;
+    limit: number;
+    facets: SearchFacets;
+}
+
+type FacetKey = 'category' | 'tags' | 'price' | 'customizable' | 'onSale';
+
+interface IndexedProduct {
+    product: SearchResultProduct;
+    categoryId: string;
+    normalizedName: string;
+    fields: { [K in keyof typeof FIELD_WEIGHTS]: string[] };
+    relevance: number;
+}
+
+export class ProductSearchService {
+    /**
+     * Search active products with facets
+     */
+    static async search(params: ProductSearchParams): Promise<ProductSearchResult> {
+        const limit = Math.min(Math.max(params.limit || 12, 1), MAX_SEARCH_LIMIT);
+        const page = Math.max(params.page || 1, 1);
+        const query = params.q?.trim() || '';
+
+        const { indexed, categories } = await this.loadCatalogue();
+        const matched = this.matchQuery(indexed, query);
+
+        const categoryId = params.category
+            ? categories.find(category => category.slug === params.category)?._id ?? null
+            : undefined;
+        const tags = (params.tags || []).map(tag => tag.toLowerCase());
+
+        const predicates: Partial<Record<FacetKey, (item: IndexedProduct) => boolean>> = {};
+        if (categoryId !== undefined) {
+            predicates.category = item => item.categoryId === categoryId;
+        }
+        if (tags.length > 0) {
+            predicates.tags = item => item.product.tags.some(tag => tags.includes(tag.toLowerCase()));
+        }
+        const priceBucket = PRICE_BUCKETS.find(bucket => bucket.key === params.priceBucket);
+        if (priceBucket) {
+            predicates.price = item => this.isInPriceBucket(item.product.finalPrice, priceBucket);
+        } else if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+            predicates.price = item =>
+                item.product.finalPrice >= (params.minPrice ?? 0) &&
+                (params.maxPrice === undefined || item.product.finalPrice <= params.maxPrice);
+        }
+        if (params.customizable !== undefined) {
+            predicates.customizable = item => item.product.EnableCustomizations === params.customizable;
+        }
+        if (params.onSale !== undefined) {
+            predicates.onSale = item => item.product.isOnSale === params.onSale;
+        }
+
+        // Products passing every filter except the given facet's own
+        const filterExcept = (except?: FacetKey) =>
+            matched.filter(item =>
+                Object.entries(predicates).every(([key, predicate]) => key === except || predicate(item))
+            );
+
+        const results = this.sortResults(filterExcept(), params.sort || 'relevance', query !== '');
+
+        return {
+            products: results.slice((page - 1) * limit, page * limit).map(item => item.product),
+            total: results.length,
+            page,
+            limit,
+            facets: this.buildFacets(filterExcept, categories)
+        };
+    }
+
+    /**
+     * IDs of active products matching a free-text query, in relevance order
+     */
+    static async findMatchingIds(query: string): Promise<string[]> {
+        const { indexed } = await this.loadCatalogue();
+        return this.sortResults(this.matchQuery(indexed, query), 'relevance', true)
+            .map(item => item.product._id);
+    }
+
+    /**
+     * Load and tokenize the active catalogue
+     */
+    private static async loadCatalogue() {
+        await connectDB();
+
+        const [products, categoryDocs] = await Promise.all([
+            Product.find({ isActive: true })
+                .select('name slug description images tags categoryId price finalPrice discountAmount discountPercentage EnableCustomizations isFeatured rating reviewCount purchaseCount createdAt')
+                .lean(),
+            Category.find({ isActive: true }).select('name slug').lean()
+        ]);
+
+        const categories = categoryDocs.map(category => ({
+            _id: category._id.toString(),
+            name: category.name,
+            slug: category.slug
+        }));
+        const categoriesById = new Map(categories.map(category => [category._id, category]));
+
+        const indexed: IndexedProduct[] = products.map(product => {
+            const categoryId = product.categoryId?.toString() || '';
+            const category = categoriesById.get(categoryId) || null;
+            const tags = product.tags || [];
+
+            return {
+                product: {
+                    _id: product._id.toString(),
+                    name: product.name,
+                    slug: product.slug,
+                    images: product.images || [],
+                    tags,
+                    categoryId: category,
+                    price: product.price,
+                    finalPrice: product.finalPrice,
+                    discountAmount: product.discountAmount,
+                    discountPercentage: product.discountPercentage,
+                    EnableCustomizations: product.EnableCustomizations ?? false,
+                    isOnSale: product.finalPrice < product.price,
+                    isFeatured: product.isFeatured,
+                    rating: product.rating || 0,
+                    reviewCount: product.reviewCount || 0,
+                    purchaseCount: product.purchaseCount || 0,
+                    createdAt: product.createdAt
+                },
+                categoryId,
+                normalizedName: normalizeSearchText(product.name),
+                fields: {
+                    name: tokenizeSearchText(product.name),
+                    tags: tokenizeSearchText(tags.join(' ')),
+                    category: category ? tokenizeSearchText(category.name) : [],
+                    description: tokenizeSearchText((product.description || '').replace(/<[^>]*>/g, ' '))
+                },
+                relevance: 0
+            };
+        });
+
+        return { indexed, categories };
+    }
+
+    /**
+     * Score products against the query; without a query every product matches
+     */
+    private static matchQuery(indexed: IndexedProduct[], query: string): IndexedProduct[] {
+        const queryTokens = tokenizeSearchText(query);
+
+        return indexed.flatMap(item => {
+            const popularity = Math.log10(1 + item.product.purchaseCount) + item.product.rating * 0.2;
+
+            if (queryTokens.length === 0) {
+                return [{ ...item, relevance: popularity }];
+            }
+
+            let textScore = 0;
+            for (const queryToken of queryTokens) {
+                let best = 0;
+                for (const [field, weight] of Object.entries(FIELD_WEIGHTS) as [keyof typeof FIELD_WEIGHTS, number][]) {
+                    best = Math.max(best, weight * this.matchToken(queryToken, item.fields[field]));
+                }
+                if (best === 0) {
+                    return [];
+                }
+                textScore += best;
+            }
+
+            // Whole phrase in the product name
+            if (item.normalizedName.includes(normalizeSearchText(query))) {
+                textScore += FIELD_WEIGHTS.name;
+            }
+
+            return [{ ...item, relevance: textScore * (1 + popularity * 0.2) }];
+        });
+    }
+
+    /**
+     * How well a query word matches a list of product words (1 = exact)
+     */
+    private static matchToken(queryToken: string, tokens: string[]): number {
+        const typos = allowedTypos(queryToken.length);
+        let best = 0;
+
+        for (const token of tokens) {
+            if (token === queryToken) {
+                return 1;
+            }
+            if (queryToken.length >= 2 && token.startsWith(queryToken)) {
+                best = Math.max(best, PREFIX_MATCH);
+            } else if (typos > 0 && best < TYPO_MATCH && editDistance(queryToken, token, typos) <= typos) {
+                best = TYPO_MATCH;
+            }
+        }
+
+        return best;
+    }
+
+    private static isInPriceBucket(price: number, bucket: { min: number; max?: number }): boolean {
+        return price >= bucket.min && (bucket.max === undefined || price < bucket.max);
+    }
+
+    private static sortResults(items: IndexedProduct[], sort: SearchSort, hasQuery: boolean): IndexedProduct[] {
+        const byNewest = (a: IndexedProduct, b: IndexedProduct) =>
+            new Date(b.product.createdAt).getTime() - new Date(a.product.createdAt).getTime();
+
+        const comparators: Record<SearchSort, (a: IndexedProduct, b: IndexedProduct) => number> = {
+            relevance: (a, b) =>
+                b.relevance - a.relevance ||
+                (hasQuery ? 0 : Number(b.product.isFeatured) - Number(a.product.isFeatured)) ||
+                byNewest(a, b),
+            newest: byNewest,
+            price_asc: (a, b) => a.product.finalPrice - b.product.finalPrice || byNewest(a, b),
+            price_desc: (a, b) => b.product.finalPrice - a.product.finalPrice || byNewest(a, b),
+            rating: (a, b) => b.product.rating - a.product.rating || b.product.reviewCount - a.product.reviewCount,
+            popular: (a, b) => b.product.purchaseCount - a.product.purchaseCount || byNewest(a, b)
+        };
+
+        return [...items].sort(comparators[sort]);
+    }
+
+    private static buildFacets(
+        filterExcept: (except?: FacetKey) => IndexedProduct[],
+        categories: { _id: string; name: string; slug: string }[]
+    ): SearchFacets {
+        const categoryCounts = new Map<string, number>();
+        for (const item of filterExcept('category')) {
+            categoryCounts.set(item.categoryId, (categoryCounts.get(item.categoryId) || 0) + 1);
+        }
+
+        // Tags are grouped case-insensitively and shown with their most common spelling
+        const tagCounts = new Map<string, { value: string; count: number }>();
+        for (const item of filterExcept('tags')) {
+            for (const tag of new Set(item.product.tags)) {
+                const entry = tagCounts.get(tag.toLowerCase()) || { value: tag, count: 0 };
+                entry.count++;
+                tagCounts.set(tag.toLowerCase(), entry);
+            }
+        }
+
+        const priceItems = filterExcept('price');
+        const customizableItems = filterExcept('customizable');
+        const onSaleItems = filterExcept('onSale');
+
+        return {
+            categories: categories
+                .filter(category => categoryCounts.has(category._id))
+                .map(category => ({
+                    id: category._id,
+                    name: category.name,
+                    slug: category.slug,
+                    count: categoryCounts.get(category._id) || 0
+                }))
+                .sort((a, b) => b.count - a.count),
+            tags: [...tagCounts.values()]
+                .sort((a, b) => b.count - a.count)
+                .slice(0, MAX_TAG_FACETS),
+            priceBuckets: PRICE_BUCKETS.map(bucket => ({
+                ...bucket,
+                count: priceItems.filter(item => this.isInPriceBucket(item.product.finalPrice, bucket)).length
+            })),
+            customizable: {
+                yes: customizableItems.filter(item => item.product.EnableCustomizations).length,
+                no: customizableItems.filter(item => !item.product.EnableCustomizations).length
+            },
+            onSale: {
+                yes: onSaleItems.filter(item => item.product.isOnSale).length,
+                no: onSaleItems.filter(item => !item.product.isOnSale).length
+            }
+        };
+    }
+}
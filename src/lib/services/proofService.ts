@@ -0,0 +1,294 @@
+/**
+ * Proof Service
+ *
+ * This service runs the customization proof workflow for order items: the
+ * designer uploads a watermarked preview, the customer approves it or asks
+ * for changes, and the final files for the item unlock once it is approved.
+ *
+ * Rules:
+ * - Proofs apply to customizable items with customer customizations
+ * - A new proof can be uploaded before the first review and after each
+ *   revision request, never while the customer is reviewing one
+ * - The customer may request as many revisions as the product allowed at
+ *   the time of order (Product.revisionRounds)
+ * - Final files uploaded before approval are stored locked
+ *   (OrderDesignFile.pendingApproval) and unlocked on approval
+ * - Every round is kept on the order item
+ */
+
+import connectDB from '@/lib/db/connection';
+import cloudinary from '@/lib/cloudinary/config';
+import { Order, Product, DesignFile, OrderDesignFile } from '@/lib/db/models';
+import { IOrder, IOrderItem, IProofRound } from '@/lib/db/models/Order';
+import { DEFAULT_REVISION_ROUNDS } from '@/lib/db/models/Product';
+
+const PROOF_FOLDER = 'prestige-designs/proofs';
+const PROOF_PREVIEW_WIDTH = 1600;
+
+// Orders in these states no longer accept proofs or responses
+const CLOSED_ORDER_STATUSES: IOrder['orderStatus'][] = ['cancelled', 'refunded'];
+const DELIVERED_STATUSES: IOrderItem['deliveryStatus'][] = ['auto_delivered', 'custom_delivered'];
+
+export type ProofDecision = 'approve' | 'request_revision';
+
+export interface ProofFileInput {
+    buffer: Buffer;
+    mimeType: string;
+}
+
+export interface ProofActor {
+    id: string;
+    name?: string | null;
+}
+
+export interface ProofResult {
+    success: boolean;
+    order?: IOrder;
+    proof?: IProofRound;
+    unlockedFiles?: number;       // Final files unlocked by an approval
+    error?: string;
+    statusCode?: number;
+}
+
+export class ProofService {
+    /**
+     * Whether an order item goes through proof approval
+     */
+    static requiresProof(item: IOrderItem): boolean {
+        return item.EnableCustomizations === true && item.hasCustomizations === true;
+    }
+
+    /**
+     * Whether final files for an item must stay locked until a proof is approved
+     */
+    static isAwaitingApproval(item: IOrderItem): boolean {
+        return this.requiresProof(item)
+            && item.proofStatus !== 'approved'
+            && !DELIVERED_STATUSES.includes(item.deliveryStatus);
+    }
+
+    /**
+     * Revision requests the customer has made on an item
+     */
+    static getRevisionsUsed(item: IOrderItem): number {
+        return (item.proofs || []).filter(proof => proof.status === 'revision_requested').length;
+    }
+
+    /**
+     * Revision requests left for an item
+     */
+    static getRevisionsLeft(item: IOrderItem): number {
+        const allowed = item.revisionRoundsAllowed ?? DEFAULT_REVISION_ROUNDS;
+        return Math.max(allowed - this.getRevisionsUsed(item), 0);
+    }
+
+    /**
+     * Find an order item, checking that the order still accepts proof activity
+     */
+    private static findItem(order: IOrder, itemIndex: number): { item?: IOrderItem; error?: string; statusCode?: number } {
+        const item = order.items[itemIndex];
+        if (!item) {
+            return { error: 'Invalid item index', statusCode: 400 };
+        }
+
+        if (!this.requiresProof(item)) {
+            return { error: 'This item does not require a customization proof', statusCode: 400 };
+        }
+
+        if (CLOSED_ORDER_STATUSES.includes(order.orderStatus) || item.refundedAt) {
+            return { error: 'This order item is cancelled or refunded', statusCode: 400 };
+        }
+
+        return { item };
+    }
+
+    /**
+     * Upload the watermarked preview to Cloudinary. The original is stored as
+     * an authenticated asset, so only the signed watermarked URL can be viewed.
+     */
+    private static async uploadPreview(file: ProofFileInput, order: IOrder, round: number) {
+        const dataUri = `data:${file.mimeType};base64,${file.buffer.toString('base64')}`;
+
+        const result = await cloudinary.uploader.upload(dataUri, {
+            folder: PROOF_FOLDER,
+            public_id: `${order.orderNumber}_${Date.now()}_r${round}`,
+            resource_type: 'image',
+            type: 'authenticated'
+        });
+
+        const previewUrl = cloudinary.url(result.public_id, {
+            type: 'authenticated',
+            sign_url: true,
+            secure: true,
+            format: 'jpg',
+            transformation: [
+                { width: PROOF_PREVIEW_WIDTH, crop: 'limit' },
+                {
+                    overlay: { font_family: 'Arial', font_size: 48, font_weight: 'bold', text: `PROOF ${order.orderNumber}` },
+                    color: '#ffffff',
+                    opacity: 35,
+                    angle: -30,
+                    flags: 'tiled'
+                }
+            ]
+        });
+
+        return { previewUrl, previewPublicId: result.public_id };
+    }
+
+    /**
+     * Add a proof round to an order item and email the customer
+     */
+    static async uploadProof(orderId: string, itemIndex: number, file: ProofFileInput, actor: ProofActor, designerNote?: string): Promise<ProofResult> {
+        await connectDB();
+
+        const order = await Order.findById(orderId);
+        if (!order) {
+            return { success: false, error: 'Order not found', statusCode: 404 };
+        }
+
+        const { item, error, statusCode } = this.findItem(order, itemIndex);
+        if (!item) {
+            return { success: false, error, statusCode };
+        }
+
+        if (item.proofStatus === 'approved') {
+            return { success: false, error: 'The customer has already approved a proof for this item', statusCode: 409 };
+        }
+
+        if (item.proofStatus === 'awaiting_review') {
+            return { success: false, error: 'The customer has not reviewed the current proof yet', statusCode: 409 };
+        }
+
+        // Orders placed before per-product revision rounds existed
+        if (item.revisionRoundsAllowed === undefined) {
+            const product = await Product.findById(item.productId).select('revisionRounds').lean();
+            item.revisionRoundsAllowed = product?.revisionRounds ?? DEFAULT_REVISION_ROUNDS;
+        }
+
+        const round = (item.proofs?.length || 0) + 1;
+        const preview = await this.uploadPreview(file, order, round);
+
+        item.proofs.push({
+            round,
+            ...preview,
+            designerNote: designerNote?.trim() || undefined,
+            uploadedBy: actor.name || actor.id,
+            uploadedAt: new Date(),
+            status: 'pending'
+        });
+        item.proofStatus = 'awaiting_review';
+
+        order.orderHistory.push({
+            status: 'proof_uploaded',
+            timestamp: new Date(),
+            note: `تم رفع البروفة رقم ${round} للمنتج ${item.productName}`,
+            changedBy: actor.name || 'admin'
+        });
+
+        await order.save();
+
+        const proof = item.proofs[item.proofs.length - 1];
+
+        try {
+            const { EmailService } = await import('@/lib/services/emailService');
+            await EmailService.sendProofReadyEmail(order.customerEmail, {
+                orderId: order._id.toString(),
+                orderNumber: order.orderNumber,
+                customerName: order.customerName,
+                productName: item.productName,
+                round,
+                revisionsLeft: this.getRevisionsLeft(item),
+                designerNote: proof.designerNote
+            });
+        } catch (emailError) {
+            console.error('❌ Error sending proof ready email:', emailError);
+        }
+
+        return { success: true, order, proof };
+    }
+
+    /**
+     * Record the customer's decision on the current proof of an item
+     */
+    static async respond(orderId: string, itemIndex: number, customer: ProofActor, decision: ProofDecision, comment?: string): Promise<ProofResult> {
+        await connectDB();
+
+        const order = await Order.findById(orderId);
+        if (!order) {
+            return { success: false, error: 'Order not found', statusCode: 404 };
+        }
+
+        if (order.customerId.toString() !== customer.id) {
+            return { success: false, error: 'Access denied', statusCode: 403 };
+        }
+
+        const { item, error, statusCode } = this.findItem(order, itemIndex);
+        if (!item) {
+            return { success: false, error, statusCode };
+        }
+
+        const proof = item.proofs[item.proofs.length - 1];
+        if (item.proofStatus !== 'awaiting_review' || !proof || proof.status !== 'pending') {
+            return { success: false, error: 'لا توجد بروفة بانتظار مراجعتك لهذا المنتج', statusCode: 409 };
+        }
+
+        const trimmedComment = comment?.trim() || undefined;
+
+        if (decision === 'request_revision') {
+            if (!trimmedComment) {
+                return { success: false, error: 'يرجى كتابة التعديلات المطلوبة', statusCode: 400 };
+            }
+
+            if (this.getRevisionsLeft(item) === 0) {
+                return { success: false, error: 'لقد استنفدت جولات التعديل المتاحة لهذا المنتج', statusCode: 409 };
+            }
+        }
+
+        proof.status = decision === 'approve' ? 'approved' : 'revision_requested';
+        proof.customerComment = trimmedComment;
+        proof.respondedAt = new Date();
+        item.proofStatus = proof.status;
+
+        order.orderHistory.push({
+            status: decision === 'approve' ? 'proof_approved' : 'proof_revision_requested',
+            timestamp: new Date(),
+            note: decision === 'approve'
+                ? `وافق العميل على البروفة رقم ${proof.round} للمنتج ${item.productName}`
+                : `طلب العميل تعديلات على البروفة رقم ${proof.round} للمنتج ${item.productName}: ${trimmedComment}`,
+            changedBy: customer.name || 'customer'
+        });
+
+        await order.save();
+
+        const unlockedFiles = decision === 'approve' ? await this.unlockFinalFiles(order, item) : 0;
+
+        return { success: true, order, proof, unlockedFiles };
+    }
+
+    /**
+     * Give the customer access to the final files already uploaded for an item
+     */
+    static async unlockFinalFiles(order: IOrder, item: IOrderItem): Promise<number> {
+        const designFiles = await DesignFile.find({
+            orderId: order._id,
+            productId: item.productId,
+            isForOrder: true
+        }).select('_id').lean();
+
+        if (designFiles.length === 0) {
+            return 0;
+        }
+
+        const result = await OrderDesignFile.updateMany(
+            {
+                orderId: order._id.toString(),
+                designFileId: { $in: designFiles.map(file => file._id.toString()) },
+                pendingApproval: true
+            },
+            { $set: { isActive: true, pendingApproval: false } }
+        );
+
+        return result.modifiedCount;
+    }
+}
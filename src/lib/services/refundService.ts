@@ -0,0 +1,370 @@
+/**
+ * Refund Service
+ *
+ * This service issues refunds through PayPal and keeps the refund ledger
+ * (Order.refunds) in sync with what PayPal reports.
+ *
+ * Features:
+ * - Full, partial (amount-only) and per-item refunds
+ * - Structured ledger entries with PayPal refund ID, status and actor
+ * - Refunds issued in the PayPal dashboard are recorded from webhooks
+ * - File access is revoked only for the refunded items
+ * - "partially_refunded" payment status until the whole order is refunded
+ */
+
+import connectDB from '@/lib/db/connection';
+import { DesignFile, Order, OrderDesignFile } from '@/lib/db/models';
+import { IOrder, IOrderRefund, IRefundItem } from '@/lib/db/models/Order';
+import { IOrderDesignFile } from '@/lib/db/models/OrderDesignFile';
+import PromoCodeUsage from '@/lib/db/models/PromoCodeUsage';
+import { PayPalService } from '@/lib/paypal/service';
+import { OrderStateMachine } from '@/lib/services/orderStateMachine';
+
+// Payment statuses that can still be refunded
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+// A pending admin refund older than this lost its PayPal response (crash or timeout)
+const PENDING_REFUND_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Error of ledger entries whose outcome PayPal never reported; a later webhook may complete them
+const NO_PAYPAL_RESPONSE_ERROR = 'No response from PayPal; the refund is recorded if PayPal reports it';
+
+export interface RefundRequest {
+    itemIndexes?: number[];          // Items to refund; their files are revoked
+    amount?: number;                 // Amount to refund; defaults to the items' total or the remaining balance
+    reason?: string;
+    actor: string;                   // Admin issuing the refund
+}
+
+export interface RefundResult {
+    success: boolean;
+    refund?: IOrderRefund;
+    order?: IOrder;
+    error?: string;
+    statusCode?: number;
+}
+
+// Fields of a PayPal refund resource used by the ledger
+export interface PayPalRefundResource {
+    id: string;
+    amount?: { value?: string; currency_code?: string };
+    note_to_payer?: string;
+}
+
+/**
+ * Round to cents
+ */
+function roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+export class RefundService {
+    /**
+     * Amount charged for an order item, including its share of the order promo
+     */
+    static getItemRefundAmount(order: IOrder, itemIndex: number): number {
+        const item = order.items[itemIndex];
+        const line = order.pricingBreakdown?.lines?.[itemIndex];
+
+        if (line && line.productId === item.productId) {
+            return roundAmount(line.lineTotal);
+        }
+
+        return roundAmount(item.totalPrice);
+    }
+
+    /**
+     * Amount that can still be refunded for an order
+     */
+    static getRefundableAmount(order: IOrder): number {
+        return Math.max(roundAmount(order.totalPrice - (order.refundedAmount || 0)), 0);
+    }
+
+    /**
+     * Issue a refund through PayPal and record it in the ledger
+     */
+    static async refundOrder(orderId: string, request: RefundRequest): Promise<RefundResult> {
+        await connectDB();
+
+        const order = await Order.findById(orderId);
+        if (!order) {
+            return { success: false, error: 'Order not found', statusCode: 404 };
+        }
+
+        if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+            return { success: false, error: `Orders with payment status "${order.paymentStatus}" cannot be refunded`, statusCode: 400 };
+        }
+
+        if (!order.paypalTransactionId) {
+            return { success: false, error: 'Order has no PayPal transaction to refund', statusCode: 400 };
+        }
+
+        if (this.expireStalePendingRefunds(order)) {
+            await order.save();
+        }
+
+        if (order.refunds.some(refund => refund.status === 'pending')) {
+            return { success: false, error: 'Another refund for this order is still in progress', statusCode: 409 };
+        }
+
+        // Validate the refunded items
+        const itemIndexes = [...new Set(request.itemIndexes || [])];
+        const items: IRefundItem[] = [];
+
+        for (const itemIndex of itemIndexes) {
+            const item = order.items[itemIndex];
+            if (!item) {
+                return { success: false, error: `Order item ${itemIndex} does not exist`, statusCode: 400 };
+            }
+            if (item.refundedAt) {
+                return { success: false, error: `${item.productName} has already been refunded`, statusCode: 400 };
+            }
+            items.push({
+                itemIndex,
+                productId: item.productId,
+                productName: item.productName,
+                amount: this.getItemRefundAmount(order, itemIndex)
+            });
+        }
+
+        const refundable = this.getRefundableAmount(order);
+        const itemsTotal = roundAmount(items.reduce((sum, item) => sum + item.amount, 0));
+        const amount = roundAmount(request.amount ?? (items.length > 0 ? Math.min(itemsTotal, refundable) : refundable));
+
+        if (amount <= 0) {
+            return { success: false, error: 'Refund amount must be greater than zero', statusCode: 400 };
+        }
+
+        if (amount > refundable + 0.005) {
+            return { success: false, error: `Refund amount exceeds the refundable balance ($${refundable.toFixed(2)})`, statusCode: 400 };
+        }
+
+        // Record the refund before calling PayPal so webhooks can match it
+        order.refunds.push({
+            amount,
+            currency: order.currency,
+            items,
+            status: 'pending',
+            source: 'admin',
+            reason: request.reason,
+            actor: request.actor,
+            createdAt: new Date()
+        });
+        await order.save();
+        const refundId = order.refunds[order.refunds.length - 1]._id!.toString();
+
+        console.log(`💸 Refunding $${amount.toFixed(2)} for order ${order.orderNumber}`, items.length > 0 ? `(${items.length} item(s))` : '');
+
+        const paypalResult = await PayPalService.processRefund(
+            order.paypalTransactionId,
+            { currency_code: order.currency, value: amount.toFixed(2) },
+            request.reason || `استرداد للطلب رقم ${order.orderNumber}`
+        );
+
+        // Reload: the refund webhook may already have updated the order
+        const updatedOrder = await Order.findById(orderId);
+        if (!updatedOrder) {
+            return { success: false, error: 'Order not found', statusCode: 404 };
+        }
+
+        const refund = updatedOrder.refunds.find(entry => entry._id?.toString() === refundId);
+        if (!refund) {
+            return { success: false, error: 'Refund ledger entry was lost', statusCode: 500 };
+        }
+
+        // A webhook may have completed the refund while PayPal's answer was on its way
+        if (refund.status === 'completed') {
+            return { success: true, refund, order: updatedOrder };
+        }
+
+        if (!paypalResult.success) {
+            refund.status = 'failed';
+            refund.error = paypalResult.timedOut ? NO_PAYPAL_RESPONSE_ERROR : paypalResult.error;
+            updatedOrder.orderHistory.push({
+                status: 'refund_failed',
+                timestamp: new Date(),
+                note: `فشل استرداد مبلغ $${amount.toFixed(2)}: ${paypalResult.error || 'خطأ غير محدد'}`,
+                changedBy: request.actor
+            });
+            await updatedOrder.save();
+
+            return { success: false, refund, order: updatedOrder, error: paypalResult.error || 'Failed to process PayPal refund', statusCode: 502 };
+        }
+
+        refund.paypalRefundId = paypalResult.refundId;
+        await this.completeRefund(updatedOrder, refund, request.actor);
+
+        return { success: true, refund, order: updatedOrder };
+    }
+
+    /**
+     * Record a refund reported by a PayPal webhook. Refunds issued from the
+     * admin panel are matched to their ledger entry instead of being added again.
+     */
+    static async recordPayPalRefund(order: IOrder, resource: PayPalRefundResource): Promise<{ refund: IOrderRefund; isNew: boolean }> {
+        const existing = order.refunds.find(entry => entry.paypalRefundId === resource.id);
+        if (existing) {
+            return { refund: existing, isNew: false };
+        }
+
+        const amount = roundAmount(parseFloat(resource.amount?.value || '0'));
+
+        // Admin refund whose PayPal response has not been saved yet (or never arrived)
+        const pending = order.refunds.find(entry =>
+            (entry.status === 'pending' || (entry.status === 'failed' && entry.error === NO_PAYPAL_RESPONSE_ERROR)) &&
+            !entry.paypalRefundId && Math.abs(entry.amount - amount) < 0.005
+        );
+        if (pending) {
+            pending.paypalRefundId = resource.id;
+            await this.completeRefund(order, pending, pending.actor);
+            return { refund: pending, isNew: false };
+        }
+
+        order.refunds.push({
+            amount,
+            currency: resource.amount?.currency_code || order.currency,
+            items: [],
+            paypalRefundId: resource.id,
+            status: 'pending',
+            source: 'paypal',
+            reason: resource.note_to_payer,
+            actor: 'paypal',
+            createdAt: new Date()
+        });
+        const refund = order.refunds[order.refunds.length - 1];
+        await this.completeRefund(order, refund, 'system');
+
+        return { refund, isNew: true };
+    }
+
+    /**
+     * Fail admin refunds left pending by a crash or timeout, so they no longer
+     * block new refunds. The webhook still completes any PayPal did process.
+     * @returns Whether an entry changed
+     */
+    private static expireStalePendingRefunds(order: IOrder): boolean {
+        const cutoff = Date.now() - PENDING_REFUND_TIMEOUT_MS;
+        const stale = order.refunds.filter(entry =>
+            entry.status === 'pending' && !entry.paypalRefundId && new Date(entry.createdAt).getTime() < cutoff
+        );
+
+        stale.forEach(entry => {
+            entry.status = 'failed';
+            entry.error = NO_PAYPAL_RESPONSE_ERROR;
+            order.orderHistory.push({
+                status: 'refund_failed',
+                timestamp: new Date(),
+                note: `لم يصل رد PayPal على استرداد مبلغ $${entry.amount.toFixed(2)}، وسيُسجَّل تلقائياً إذا أكده PayPal`,
+                changedBy: 'system'
+            });
+        });
+
+        return stale.length > 0;
+    }
+
+    /**
+     * Mark a ledger entry completed and apply it to the order
+     */
+    private static async completeRefund(order: IOrder, refund: IOrderRefund, actor: string): Promise<void> {
+        const now = new Date();
+
+        refund.status = 'completed';
+        refund.completedAt = now;
+        refund.error = undefined;
+
+        refund.items.forEach(refundItem => {
+            const item = order.items[refundItem.itemIndex];
+            if (item && !item.refundedAt) {
+                item.refundedAt = now;
+            }
+        });
+
+        order.refundedAmount = roundAmount(
+            order.refunds
+                .filter(entry => entry.status === 'completed')
+                .reduce((sum, entry) => sum + entry.amount, 0)
+        );
+
+        const allItemsRefunded = order.items.length > 0 && order.items.every(item => item.refundedAt);
+        const fullyRefunded = order.refundedAmount >= order.totalPrice - 0.005 || allItemsRefunded;
+
+        const itemNames = refund.items.map(item => item.productName).join('، ');
+        const historyStatus = fullyRefunded ? 'refund_processed' : 'partial_refund_processed';
+        const note = `تم استرداد مبلغ $${refund.amount.toFixed(2)}${itemNames ? ` للعناصر: ${itemNames}` : ''} - RefundID: ${refund.paypalRefundId || 'N/A'}`;
+
+        const transition = OrderStateMachine.apply(
+            order,
+            {
+                paymentStatus: fullyRefunded ? 'refunded' : 'partially_refunded',
+                orderStatus: fullyRefunded && order.orderStatus !== 'cancelled' ? 'refunded' : undefined
+            },
+            { actor: 'system', changedBy: actor, historyStatus, note }
+        );
+
+        if (!transition.success) {
+            console.warn(`⚠️ Refund ${refund.paypalRefundId} recorded but order ${order.orderNumber} status not updated: ${transition.error}`);
+        }
+
+        // Further partial refunds keep the same statuses but still belong in the history
+        if (!transition.changed) {
+            order.orderHistory.push({ status: historyStatus, timestamp: now, note, changedBy: actor });
+        }
+
+        await order.save();
+
+        if (fullyRefunded) {
+            await this.revokeOrderAccess(order, 'refund');
+        } else if (refund.items.length > 0) {
+            await this.revokeItemAccess(order, refund.items);
+        }
+
+        console.log(`✅ Refund ${refund.paypalRefundId} recorded for order ${order.orderNumber} (${order.paymentStatus})`);
+    }
+
+    /**
+     * Revoke the customer's access to every file of an order and release its
+     * promo code usage (kept while a dispute is only open)
+     */
+    static async revokeOrderAccess(order: IOrder, reason: NonNullable<IOrderDesignFile['revokedReason']>): Promise<void> {
+        const orderId = order._id.toString();
+
+        const result = await OrderDesignFile.updateMany(
+            { orderId, isActive: true },
+            { $set: { isActive: false, revokedAt: new Date(), revokedReason: reason } }
+        );
+
+        if (reason !== 'dispute') {
+            await PromoCodeUsage.deactivateUsage(orderId);
+        }
+
+        console.log(`🔒 Revoked access to ${result.modifiedCount} file(s) for order ${order.orderNumber} (${reason})`);
+    }
+
+    /**
+     * Revoke access to the files of refunded items, keeping files of products
+     * that other (unrefunded) items of the order still cover
+     */
+    private static async revokeItemAccess(order: IOrder, refundItems: IRefundItem[]): Promise<void> {
+        const keptProductIds = new Set(
+            order.items.filter(item => !item.refundedAt).map(item => item.productId.toString())
+        );
+        const productIds = [...new Set(refundItems.map(item => item.productId.toString()))]
+            .filter(productId => !keptProductIds.has(productId));
+
+        if (productIds.length === 0) {
+            return;
+        }
+
+        const designFiles = await DesignFile.find({ productId: { $in: productIds } }).select('_id');
+        const result = await OrderDesignFile.updateMany(
+            {
+                orderId: order._id.toString(),
+                designFileId: { $in: designFiles.map(file => file._id.toString()) },
+                isActive: true
+            },
+            { $set: { isActive: false, revokedAt: new Date(), revokedReason: 'refund' } }
+        );
+
+        console.log(`🔒 Revoked access to ${result.modifiedCount} file(s) of refunded items in order ${order.orderNumber}`);
+    }
+}
@@ -0,0 +1,196 @@
+/**
+ * Review Service
+ *
+ * This service handles product reviews: who may review a product, review
+ * submission, admin moderation and keeping Product.rating / reviewCount in
+ * sync with the approved reviews.
+ *
+ * Rules:
+ * - A product review needs a delivered (and not refunded) order item for
+ *   that product; such reviews get the verified purchase badge
+ * - One review per customer per product
+ * - New reviews wait for admin approval; only approved reviews are public
+ *   and count towards the product rating
+ */
+
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db/connection';
+import { Order, Product, Review } from '@/lib/db/models';
+import { IReview, ReviewStatus } from '@/lib/db/models/Review';
+
+// Payment statuses of orders whose delivered items can be reviewed
+const REVIEWABLE_PAYMENT_STATUSES = ['paid', 'free', 'partially_refunded'];
+const DELIVERED_STATUSES = ['auto_delivered', 'custom_delivered'];
+
+export interface ReviewAuthor {
+    id: string;
+    name?: string | null;
+    image?: string | null;
+}
+
+export interface ProductReviewInput {
+    rating: number;
+    text: string;
+    name?: string;
+}
+
+export interface ReviewEligibility {
+    canReview: boolean;
+    hasReviewed: boolean;
+    orderId?: string;             // Order with the delivered item
+    reason?: string;              // Why the customer cannot review (Arabic, shown in the UI)
+}
+
+export interface ReviewResult {
+    success: boolean;
+    review?: IReview;
+    error?: string;
+    statusCode?: number;
+}
+
+export class ReviewService {
+    /**
+     * Find the customer's order with a delivered item for the product
+     */
+    static async findVerifiedPurchase(userId: string, productId: string): Promise<string | null> {
+        await connectDB();
+
+        const order = await Order.findOne({
+            customerId: userId,
+            paymentStatus: { $in: REVIEWABLE_PAYMENT_STATUSES },
+            items: {
+                $elemMatch: {
+                    productId: new mongoose.Types.ObjectId(productId),
+                    deliveryStatus: { $in: DELIVERED_STATUSES },
+                    refundedAt: null
+                }
+            }
+        })
+            .sort({ createdAt: -1 })
+            .select('_id')
+            .lean();
+
+        return order ? order._id.toString() : null;
+    }
+
+    /**
+     * Whether a customer may review a product
+     */
+    static async getEligibility(userId: string, productId: string): Promise<ReviewEligibility> {
+        await connectDB();
+
+        const existing = await Review.exists({ userId, productId });
+        if (existing) {
+            return { canReview: false, hasReviewed: true, reason: 'لقد قمت بتقييم هذا المنتج مسبقاً' };
+        }
+
+        const orderId = await this.findVerifiedPurchase(userId, productId);
+        if (!orderId) {
+            return { canReview: false, hasReviewed: false, reason: 'يمكنك تقييم المنتج بعد شرائه واستلام ملفاته' };
+        }
+
+        return { canReview: true, hasReviewed: false, orderId };
+    }
+
+    /**
+     * Submit a product review; it is published once an admin approves it
+     */
+    static async createProductReview(author: ReviewAuthor, productId: string, input: ProductReviewInput): Promise<ReviewResult> {
+        await connectDB();
+
+        if (!mongoose.Types.ObjectId.isValid(productId)) {
+            return { success: false, error: 'Invalid product ID', statusCode: 400 };
+        }
+
+        const product = await Product.exists({ _id: productId });
+        if (!product) {
+            return { success: false, error: 'Product not found', statusCode: 404 };
+        }
+
+        const eligibility = await this.getEligibility(author.id, productId);
+        if (!eligibility.canReview) {
+            return {
+                success: false,
+                error: eligibility.reason,
+                statusCode: eligibility.hasReviewed ? 409 : 403
+            };
+        }
+
+        try {
+            const review = await Review.create({
+                name: input.name?.trim() || author.name || 'مستخدم',
+                rating: input.rating,
+                text: input.text.trim(),
+                avatar: author.image || '',
+                productId,
+                status: 'pending',
+                isVerifiedPurchase: true,
+                orderId: eligibility.orderId,
+                userId: author.id
+            });
+
+            console.log(`📝 Product review submitted for ${productId} by ${author.id}`);
+            return { success: true, review };
+        } catch (error) {
+            // A review for the same product was submitted concurrently
+            if ((error as { code?: number }).code === 11000) {
+                return { success: false, error: 'لقد قمت بتقييم هذا المنتج مسبقاً', statusCode: 409 };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Approve or reject a review and refresh the product rating
+     */
+    static async moderate(reviewId: string, status: ReviewStatus, adminName: string, rejectionReason?: string): Promise<ReviewResult> {
+        await connectDB();
+
+        const review = await Review.findById(reviewId);
+        if (!review) {
+            return { success: false, error: 'Review not found', statusCode: 404 };
+        }
+
+        review.status = status;
+        review.isActive = status === 'approved';
+        review.moderatedBy = adminName;
+        review.moderatedAt = new Date();
+        review.rejectionReason = status === 'rejected' ? rejectionReason : undefined;
+        await review.save();
+
+        if (review.productId) {
+            await this.refreshProductRating(review.productId.toString());
+        }
+
+        console.log(`🛡️ Review ${reviewId} ${status} by ${adminName}`);
+        return { success: true, review };
+    }
+
+    /**
+     * Delete a review and refresh the product rating
+     */
+    static async deleteReview(reviewId: string): Promise<ReviewResult> {
+        await connectDB();
+
+        const review = await Review.findByIdAndDelete(reviewId);
+        if (!review) {
+            return { success: false, error: 'Review not found', statusCode: 404 };
+        }
+
+        if (review.productId) {
+            await this.refreshProductRating(review.productId.toString());
+        }
+
+        return { success: true, review };
+    }
+
+    /**
+     * Recompute Product.rating and reviewCount from approved reviews
+     */
+    static async refreshProductRating(productId: string): Promise<void> {
+        const product = await Product.findById(productId);
+        if (product) {
+            await product.updateRating();
+        }
+    }
+}
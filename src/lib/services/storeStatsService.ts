@@ -0,0 +1,137 @@
+/**
+ * Store Stats Service
+ *
+ * This service computes the live statistics shown on the homepage from
+ * orders, products, categories and reviews, and applies the display rules
+ * admins configure in SiteSettings (see storeStatsUtils).
+ *
+ * Caching:
+ * - Results are kept in memory for the configured revalidation period, so
+ *   the homepage does not run aggregates on every visit
+ * - Saving the stats settings clears the cache of the instance that saved
+ * - The public endpoint also sends the period as a shared-cache max age
+ */
+
+import connectDB from '@/lib/db/connection';
+import { Category, Order, Product, Review, SiteSettings } from '@/lib/db/models';
+import type { IStoreStatMetric, StoreStatKey } from '@/lib/db/models/SiteSettings';
+import {
+    STORE_STAT_DEFINITIONS,
+    StoreStatsSettings,
+    formatStatValue,
+    resolveStoreStatsSettings
+} from '@/lib/utils/storeStatsUtils';
+
+export interface PublicStoreStat {
+    key: StoreStatKey;
+    label: string;
+    subtitle: string;
+    value: string;                   // Display text after rounding rules, e.g. "+500"
+    icon: string;
+    color: string;
+}
+
+export interface PublicStoreStats {
+    stats: PublicStoreStat[];
+    revalidateSeconds: number;
+}
+
+// Orders that count as sales: paid (or free) and not cancelled or refunded
+const COUNTED_ORDER_FILTER = {
+    paymentStatus: { $in: ['paid', 'free'] },
+    orderStatus: { $nin: ['cancelled', 'refunded'] }
+};
+
+let cachedStats: { expiresAt: number; data: PublicStoreStats } | null = null;
+
+export class StoreStatsService {
+    /**
+     * Load the stats settings merged with the defaults
+     */
+    static async getSettings(): Promise<StoreStatsSettings> {
+        await connectDB();
+        const settings = await SiteSettings.findOne({})
+            .select('storeStats')
+            .lean<{ storeStats?: { metrics?: IStoreStatMetric[]; revalidateSeconds?: number } }>();
+
+        return resolveStoreStatsSettings(settings?.storeStats);
+    }
+
+    /**
+     * Compute the real (unrounded) value of each requested metric
+     */
+    static async computeMetrics(keys: StoreStatKey[]): Promise<Partial<Record<StoreStatKey, number>>> {
+        await connectDB();
+
+        const compute: Record<StoreStatKey, () => Promise<number>> = {
+            sales: () => Order.countDocuments(COUNTED_ORDER_FILTER),
+            customers: async () => (await Order.distinct('customerId', COUNTED_ORDER_FILTER)).length,
+            designsDelivered: async () => {
+                const [result] = await Order.aggregate<{ total: number }>([
+                    { $match: { ...COUNTED_ORDER_FILTER, orderStatus: 'completed' } },
+                    { $unwind: '$items' },
+                    { $group: { _id: null, total: { $sum: '$items.quantity' } } }
+                ]);
+                return result?.total || 0;
+            },
+            products: () => Product.countDocuments({ isActive: true }),
+            categories: () => Category.countDocuments({ isActive: true }),
+            reviews: () => Review.countDocuments({ status: 'approved' }),
+            averageRating: async () => {
+                const [result] = await Review.aggregate<{ average: number }>([
+                    { $match: { status: 'approved' } },
+                    { $group: { _id: null, average: { $avg: '$rating' } } }
+                ]);
+                return result?.average || 0;
+            }
+        };
+
+        const values = await Promise.all(keys.map(key => compute[key]()));
+        return Object.fromEntries(keys.map((key, index) => [key, values[index]]));
+    }
+
+    /**
+     * Get the homepage stats, served from cache while it is fresh
+     */
+    static async getPublicStats(): Promise<PublicStoreStats> {
+        if (cachedStats && cachedStats.expiresAt > Date.now()) {
+            return cachedStats.data;
+        }
+
+        const settings = await this.getSettings();
+        const enabled = settings.metrics.filter(metric => metric.enabled);
+        const values = await this.computeMetrics(enabled.map(metric => metric.key));
+
+        const stats: PublicStoreStat[] = [];
+        for (const metric of enabled) {
+            const value = formatStatValue(values[metric.key] ?? 0, metric);
+            if (value === null) {
+                continue;
+            }
+
+            const definition = STORE_STAT_DEFINITIONS[metric.key];
+            stats.push({
+                key: metric.key,
+                label: metric.label || definition.label,
+                subtitle: metric.subtitle || definition.subtitle,
+                value,
+                icon: definition.icon,
+                color: definition.color
+            });
+        }
+
+        const data = { stats, revalidateSeconds: settings.revalidateSeconds };
+        if (settings.revalidateSeconds > 0) {
+            cachedStats = { expiresAt: Date.now() + settings.revalidateSeconds * 1000, data };
+        }
+
+        return data;
+    }
+
+    /**
+     * Drop cached stats, e.g. after the display settings change
+     */
+    static invalidateCache(): void {
+        cachedStats = null;
+    }
+}
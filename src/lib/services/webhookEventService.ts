@@ -0,0 +1,224 @@
+/**
+ * Webhook Event Service
+ *
+ * This service stores verified webhook deliveries in the WebhookEvent
+ * collection and processes them with retries.
+ *
+ * Features:
+ * - Events are stored before processing, de-duplicated by event ID
+ * - Failed or unmatched events are retried with exponential backoff
+ * - Events move to the dead-letter queue after their last attempt
+ * - Manual replay from the admin panel
+ * - Immediate retry when a PayPal order is linked to an order
+ */
+
+import connectDB from '@/lib/db/connection';
+import { Order, WebhookEvent } from '@/lib/db/models';
+import { IWebhookEvent } from '@/lib/db/models/WebhookEvent';
+import { PayPalService } from '@/lib/paypal/service';
+
+// Backoff: 1 minute, doubling per attempt, capped at 6 hours
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Events stuck in "processing" longer than this are considered abandoned
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Fields of a PayPal webhook body used when storing the event
+export interface PayPalWebhookBody {
+    id: string;
+    event_type: string;
+    resource?: {
+        id?: string;
+        order_id?: string;
+        supplementary_data?: { related_ids?: { order_id?: string } };
+    };
+}
+
+export interface WebhookProcessResult {
+    success: boolean;
+    message: string;
+    event?: IWebhookEvent;
+}
+
+/**
+ * Delay before the next attempt, given the number of attempts made so far
+ */
+export function getRetryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+}
+
+export class WebhookEventService {
+    /**
+     * Store a verified PayPal webhook; returns the existing event when the
+     * same event ID was already received
+     */
+    static async record(webhookData: PayPalWebhookBody, transmissionId?: string | null): Promise<{ event: IWebhookEvent; isNew: boolean }> {
+        await connectDB();
+
+        const existing = await WebhookEvent.findOne({ eventId: webhookData.id });
+        if (existing) {
+            return { event: existing, isNew: false };
+        }
+
+        try {
+            const event = await WebhookEvent.create({
+                provider: 'paypal',
+                eventId: webhookData.id,
+                eventType: webhookData.event_type,
+                transmissionId: transmissionId || null,
+                resourceId: webhookData.resource?.id || null,
+                paypalOrderId: PayPalService.extractPayPalOrderId(webhookData) || null,
+                payload: webhookData as unknown as Record<string, unknown>,
+                status: 'pending',
+                nextAttemptAt: new Date()
+            });
+
+            return { event, isNew: true };
+        } catch (error) {
+            // Another delivery of the same event was stored concurrently
+            if ((error as { code?: number }).code === 11000) {
+                const event = await WebhookEvent.findOne({ eventId: webhookData.id });
+                if (event) return { event, isNew: false };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Process a stored event once; schedules a retry or dead-letters it on failure
+     */
+    static async processEvent(eventId: string, triggeredBy: string = 'webhook'): Promise<WebhookProcessResult> {
+        await connectDB();
+
+        // Claim the event so concurrent runners don't process it twice
+        const event = await WebhookEvent.findOneAndUpdate(
+            {
+                _id: eventId,
+                $or: [
+                    { status: { $ne: 'processing' } },
+                    { lastAttemptAt: { $lt: new Date(Date.now() - PROCESSING_TIMEOUT_MS) } }
+                ]
+            },
+            { $set: { status: 'processing', lastAttemptAt: new Date() } },
+            { new: true }
+        );
+
+        if (!event) {
+            return { success: false, message: 'Webhook event not found or already being processed' };
+        }
+
+        let success = false;
+        let message: string;
+        let orderId: string | undefined;
+
+        try {
+            const result = await PayPalService.processWebhookEvent(event.payload);
+            success = result.success;
+            message = result.message;
+            orderId = result.orderId;
+        } catch (error) {
+            message = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        const now = new Date();
+        const attempts = event.attempts + 1;
+
+        event.attempts = attempts;
+        event.lastAttemptAt = now;
+        event.attemptLog.push({
+            attemptedAt: now,
+            success,
+            message: message.slice(0, 2000),
+            triggeredBy
+        });
+
+        if (success) {
+            event.status = 'processed';
+            event.processedAt = now;
+            event.lastError = undefined;
+            event.nextAttemptAt = undefined;
+
+            if (orderId) {
+                const order = await Order.findById(orderId).select('orderNumber');
+                event.orderId = orderId;
+                event.orderNumber = order?.orderNumber;
+            }
+
+            console.log(`✅ Webhook event ${event.eventId} processed (attempt ${attempts})`);
+        } else if (attempts >= event.maxAttempts) {
+            event.status = 'dead_letter';
+            event.lastError = message;
+            event.nextAttemptAt = undefined;
+            console.error(`💀 Webhook event ${event.eventId} moved to dead-letter queue after ${attempts} attempts:`, message);
+        } else {
+            event.status = 'failed';
+            event.lastError = message;
+            event.nextAttemptAt = new Date(now.getTime() + getRetryDelay(attempts));
+            console.warn(`⚠️ Webhook event ${event.eventId} failed (attempt ${attempts}), retrying at ${event.nextAttemptAt.toISOString()}:`, message);
+        }
+
+        await event.save();
+
+        return { success, message, event };
+    }
+
+    /**
+     * Process pending and failed events whose retry time has come
+     */
+    static async processDueEvents(limit: number = 20): Promise<{ processed: number; failed: number }> {
+        await connectDB();
+
+        const dueEvents = await WebhookEvent.find({
+            status: { $in: ['pending', 'failed'] },
+            nextAttemptAt: { $lte: new Date() }
+        })
+            .sort({ nextAttemptAt: 1 })
+            .limit(limit)
+            .select('_id');
+
+        let processed = 0;
+        let failed = 0;
+
+        for (const dueEvent of dueEvents) {
+            const result = await this.processEvent(dueEvent._id.toString(), 'retry');
+            if (result.success) processed++;
+            else failed++;
+        }
+
+        if (dueEvents.length > 0) {
+            console.log(`🔁 Webhook retry run: ${processed} processed, ${failed} failed`);
+        }
+
+        return { processed, failed };
+    }
+
+    /**
+     * Retry events waiting for a PayPal order right after it is linked to an order
+     */
+    static async retryForPayPalOrder(paypalOrderId: string): Promise<void> {
+        try {
+            await connectDB();
+
+            const waitingEvents = await WebhookEvent.find({
+                paypalOrderId,
+                status: { $in: ['pending', 'failed'] }
+            })
+                .sort({ createdAt: 1 })
+                .select('_id');
+
+            for (const waitingEvent of waitingEvents) {
+                await this.processEvent(waitingEvent._id.toString(), 'retry');
+            }
+        } catch (error) {
+            console.error('❌ Error retrying webhook events for PayPal order:', error);
+        }
+    }
+
+    /**
+     * Replay an event manually from the admin panel, whatever its status
+     */
+    static async replay(id: string, adminName: string): Promise<WebhookProcessResult> {
+        return this.processEvent(id, `admin:${adminName}`);
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * Storage Configuration
+ *
+ * Driver selection kept free of SDK imports so that models can read it.
+ */
+
+import { StorageDriver } from './types';
+
+export const STORAGE_DRIVERS: StorageDriver[] = ['local', 'private', 's3'];
+
+/**
+ * The driver new uploads are written to (STORAGE_DRIVER, default 'local')
+ */
+export function getDefaultStorageDriver(): StorageDriver {
+    const driver = (process.env.STORAGE_DRIVER || 'local').toLowerCase() as StorageDriver;
+    return STORAGE_DRIVERS.includes(driver) ? driver : 'local';
+}
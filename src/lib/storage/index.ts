@@ -0,0 +1,85 @@
+/**
+ * File Storage
+ *
+ * Entry point for the pluggable storage backends. Design files and order
+ * files are addressed by a storage key (e.g. "uploads/designs/slug/file.zip");
+ * DesignFile.fileUrl keeps the "/uploads/..." form and records which
+ * backend holds the bytes in DesignFile.storageDriver.
+ *
+ * Configuration (environment):
+ * - STORAGE_DRIVER: 'local' (default, public/), 'private' or 's3'
+ * - STORAGE_PRIVATE_DIR: directory for the private driver (default ./storage)
+ * - S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID,
+ *   S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE, S3_KEY_PREFIX
+ */
+
+import path from 'path';
+import { LocalStorageProvider } from './localStorageProvider';
+import { S3StorageProvider } from './s3StorageProvider';
+import { StorageDriver, StorageProvider } from './types';
+import { getDefaultStorageDriver, STORAGE_DRIVERS } from './config';
+
+export type { StorageDriver, StorageProvider, StorageObjectInfo, ByteRange } from './types';
+export { getDefaultStorageDriver, STORAGE_DRIVERS } from './config';
+
+const providers = new Map<StorageDriver, StorageProvider>();
+
+function createProvider(driver: StorageDriver): StorageProvider {
+    switch (driver) {
+        case 'private':
+            return new LocalStorageProvider(
+                'private',
+                process.env.STORAGE_PRIVATE_DIR || path.join(process.cwd(), 'storage')
+            );
+        case 's3': {
+            const bucket = process.env.S3_BUCKET;
+            if (!bucket) {
+                throw new Error('S3_BUCKET must be set when using the s3 storage driver');
+            }
+            return new S3StorageProvider({
+                bucket,
+                region: process.env.S3_REGION || 'auto',
+                endpoint: process.env.S3_ENDPOINT || undefined,
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+                forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+                keyPrefix: process.env.S3_KEY_PREFIX,
+            });
+        }
+        case 'local':
+        default:
+            return new LocalStorageProvider('local', path.join(process.cwd(), 'public'));
+    }
+}
+
+/**
+ * Get a storage provider; defaults to the configured driver
+ */
+export function getStorageProvider(driver?: StorageDriver | null): StorageProvider {
+    const resolved = driver && STORAGE_DRIVERS.includes(driver) ? driver : getDefaultStorageDriver();
+    let provider = providers.get(resolved);
+    if (!provider) {
+        provider = createProvider(resolved);
+        providers.set(resolved, provider);
+    }
+    return provider;
+}
+
+/**
+ * Convert a stored file URL ("/uploads/...", or an absolute URL pointing at
+ * this site) into a storage key
+ */
+export function storageKeyFromUrl(fileUrl: string): string {
+    let pathname = fileUrl;
+    if (/^https?:\/\//i.test(fileUrl)) {
+        pathname = decodeURIComponent(new URL(fileUrl).pathname);
+    }
+    return pathname.replace(/^\/+/, '');
+}
+
+/**
+ * Convert a storage key to the URL form stored on DesignFile.fileUrl
+ */
+export function storageUrlFromKey(key: string): string {
+    return `/${key.replace(/^\/+/, '')}`;
+}
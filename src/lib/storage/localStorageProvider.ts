@@ -0,0 +1,132 @@
+/**
+ * Local Filesystem Storage Provider
+ *
+ * Stores objects as files under a root directory. Used both for the legacy
+ * public/ layout and for a private directory that is not served statically.
+ */
+
+import { createReadStream } from 'fs';
+import { mkdir, readdir, rename, rm, rmdir, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { ByteRange, StorageDriver, StorageObjectInfo, StorageProvider } from './types';
+
+export class LocalStorageProvider implements StorageProvider {
+    readonly driver: StorageDriver;
+    private readonly root: string;
+
+    constructor(driver: StorageDriver, root: string) {
+        this.driver = driver;
+        this.root = path.resolve(root);
+    }
+
+    /**
+     * Resolve a key to an absolute path, refusing anything outside the root
+     */
+    private resolve(key: string): string {
+        const fullPath = path.resolve(this.root, key.replace(/^\/+/, ''));
+        if (fullPath !== this.root && !fullPath.startsWith(this.root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return fullPath;
+    }
+
+    async put(key: string, data: Buffer): Promise<StorageObjectInfo> {
+        const filePath = this.resolve(key);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, data);
+        return { size: data.length, lastModified: new Date() };
+    }
+
+    async stat(key: string): Promise<StorageObjectInfo | null> {
+        try {
+            const stats = await stat(this.resolve(key));
+            if (!stats.isFile()) return null;
+            return {
+                size: stats.size,
+                lastModified: stats.mtime,
+                etag: `"${stats.size.toString(16)}-${stats.mtimeMs.toString(16)}"`
+            };
+        } catch {
+            return null;
+        }
+    }
+
+    async createReadStream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+        const stream = createReadStream(this.resolve(key), range ? { start: range.start, end: range.end } : undefined);
+        return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+    }
+
+    async delete(key: string): Promise<boolean> {
+        try {
+            await unlink(this.resolve(key));
+            await this.removeEmptyParents(key);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async move(fromKey: string, toKey: string): Promise<boolean> {
+        const fromPath = this.resolve(fromKey);
+        const toPath = this.resolve(toKey);
+
+        if (!(await this.stat(fromKey))) {
+            return false;
+        }
+
+        await mkdir(path.dirname(toPath), { recursive: true });
+        await rename(fromPath, toPath);
+        await this.removeEmptyParents(fromKey);
+        return true;
+    }
+
+    async list(prefix: string): Promise<string[]> {
+        const dirPath = this.resolve(prefix);
+        const keys: string[] = [];
+
+        const walk = async (dir: string) => {
+            let entries;
+            try {
+                entries = await readdir(dir, { withFileTypes: true });
+            } catch {
+                return;
+            }
+
+            for (const entry of entries) {
+                const entryPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    await walk(entryPath);
+                } else if (entry.isFile()) {
+                    keys.push(path.relative(this.root, entryPath).split(path.sep).join('/'));
+                }
+            }
+        };
+
+        await walk(dirPath);
+        return keys;
+    }
+
+    async deletePrefix(prefix: string): Promise<number> {
+        const keys = await this.list(prefix);
+        await rm(this.resolve(prefix), { recursive: true, force: true });
+        return keys.length;
+    }
+
+    /**
+     * Remove directories left empty after a delete or move, stopping at the root
+     */
+    private async removeEmptyParents(key: string): Promise<void> {
+        let dir = path.dirname(this.resolve(key));
+        while (dir.startsWith(this.root + path.sep)) {
+            try {
+                const remaining = await readdir(dir);
+                if (remaining.length > 0) return;
+                await rmdir(dir);
+            } catch {
+                return;
+            }
+            dir = path.dirname(dir);
+        }
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * S3-Compatible Object Storage Provider
+ *
+ * Works with AWS S3 and S3-compatible services (Cloudflare R2, MinIO,
+ * DigitalOcean Spaces, Backblaze B2) through a custom endpoint.
+ */
+
+import {
+    CopyObjectCommand,
+    DeleteObjectCommand,
+    DeleteObjectsCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    PutObjectCommand,
+    S3Client,
+} from '@aws-sdk/client-s3';
+import { ByteRange, StorageObjectInfo, StorageProvider } from './types';
+
+export interface S3StorageConfig {
+    bucket: string;
+    region: string;
+    endpoint?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle?: boolean;
+    keyPrefix?: string;
+}
+
+export class S3StorageProvider implements StorageProvider {
+    readonly driver = 's3' as const;
+    private readonly client: S3Client;
+    private readonly bucket: string;
+    private readonly keyPrefix: string;
+
+    constructor(config: S3StorageConfig) {
+        this.bucket = config.bucket;
+        this.keyPrefix = config.keyPrefix ? config.keyPrefix.replace(/^\/+|\/+$/g, '') + '/' : '';
+        this.client = new S3Client({
+            region: config.region,
+            endpoint: config.endpoint,
+            forcePathStyle: config.forcePathStyle,
+            credentials: config.accessKeyId && config.secretAccessKey
+                ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+                : undefined,
+        });
+    }
+
+    private toObjectKey(key: string): string {
+        return this.keyPrefix + key.replace(/^\/+/, '');
+    }
+
+    private fromObjectKey(objectKey: string): string {
+        return objectKey.startsWith(this.keyPrefix) ? objectKey.slice(this.keyPrefix.length) : objectKey;
+    }
+
+    async put(key: string, data: Buffer, contentType?: string): Promise<StorageObjectInfo> {
+        const result = await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: this.toObjectKey(key),
+            Body: data,
+            ContentType: contentType,
+        }));
+        return { size: data.length, lastModified: new Date(), etag: result.ETag };
+    }
+
+    async stat(key: string): Promise<StorageObjectInfo | null> {
+        try {
+            const result = await this.client.send(new HeadObjectCommand({
+                Bucket: this.bucket,
+                Key: this.toObjectKey(key),
+            }));
+            return {
+                size: result.ContentLength ?? 0,
+                lastModified: result.LastModified ?? new Date(0),
+                etag: result.ETag,
+            };
+        } catch (error) {
+            const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+            if (status === 404) return null;
+            throw error;
+        }
+    }
+
+    async createReadStream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+        const result = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: this.toObjectKey(key),
+            Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }));
+
+        if (!result.Body) {
+            throw new Error(`Empty body for storage key: ${key}`);
+        }
+
+        return result.Body.transformToWebStream() as ReadableStream<Uint8Array>;
+    }
+
+    async delete(key: string): Promise<boolean> {
+        if (!(await this.stat(key))) {
+            return false;
+        }
+        await this.client.send(new DeleteObjectCommand({
+            Bucket: this.bucket,
+            Key: this.toObjectKey(key),
+        }));
+        return true;
+    }
+
+    async move(fromKey: string, toKey: string): Promise<boolean> {
+        if (!(await this.stat(fromKey))) {
+            return false;
+        }
+
+        const source = `${this.bucket}/${this.toObjectKey(fromKey)}`.split('/').map(encodeURIComponent).join('/');
+        await this.client.send(new CopyObjectCommand({
+            Bucket: this.bucket,
+            Key: this.toObjectKey(toKey),
+            CopySource: source,
+        }));
+        await this.client.send(new DeleteObjectCommand({
+            Bucket: this.bucket,
+            Key: this.toObjectKey(fromKey),
+        }));
+        return true;
+    }
+
+    async list(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        const objectPrefix = this.toObjectKey(prefix.replace(/\/?$/, '/'));
+        let continuationToken: string | undefined;
+
+        do {
+            const result = await this.client.send(new ListObjectsV2Command({
+                Bucket: this.bucket,
+                Prefix: objectPrefix,
+                ContinuationToken: continuationToken,
+            }));
+
+            for (const object of result.Contents ?? []) {
+                if (object.Key) keys.push(this.fromObjectKey(object.Key));
+            }
+            continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+        } while (continuationToken);
+
+        return keys;
+    }
+
+    async deletePrefix(prefix: string): Promise<number> {
+        const keys = await this.list(prefix);
+
+        // DeleteObjects accepts at most 1000 keys per request
+        for (let i = 0; i < keys.length; i += 1000) {
+            await this.client.send(new DeleteObjectsCommand({
+                Bucket: this.bucket,
+                Delete: {
+                    Objects: keys.slice(i, i + 1000).map(key => ({ Key: this.toObjectKey(key) })),
+                    Quiet: true,
+                },
+            }));
+        }
+
+        return keys.length;
+    }
+}
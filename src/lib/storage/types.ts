@@ -0,0 +1,48 @@
+/**
+ * Storage Provider Types
+ *
+ * Shared contracts for the pluggable file storage backends used for
+ * design files and order files.
+ */
+
+// 'local'   - files under public/ (legacy, reachable by plain URL)
+// 'private' - files in a local directory outside public/
+// 's3'      - S3-compatible object storage
+export type StorageDriver = 'local' | 'private' | 's3';
+
+export interface StorageObjectInfo {
+    size: number;
+    lastModified: Date;
+    etag?: string;
+}
+
+// Inclusive byte range, same semantics as the HTTP Range header
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+export interface StorageProvider {
+    readonly driver: StorageDriver;
+
+    /** Write an object, replacing any existing object with the same key */
+    put(key: string, data: Buffer, contentType?: string): Promise<StorageObjectInfo>;
+
+    /** Object metadata, or null when the key does not exist */
+    stat(key: string): Promise<StorageObjectInfo | null>;
+
+    /** Stream an object (or a byte range of it) */
+    createReadStream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+
+    /** Delete an object; resolves false when it did not exist */
+    delete(key: string): Promise<boolean>;
+
+    /** Move an object to a new key; resolves false when the source did not exist */
+    move(fromKey: string, toKey: string): Promise<boolean>;
+
+    /** List object keys under a prefix */
+    list(prefix: string): Promise<string[]>;
+
+    /** Delete every object under a prefix and return how many were removed */
+    deletePrefix(prefix: string): Promise<number>;
+}
@@ -50,7 +50,7 @@ export interface Order {
     totalPrice: number;
     appliedPromoCodes: string[];
     paymentMethod: 'paypal';
-    paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
+    paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed';
     paypalTransactionId?: string;
     paypalOrderId?: string;
     paidAt?: Date;
@@ -0,0 +1,79 @@
+/**
+ * Bundle Utilities
+ *
+ * This file contains the bundle price rules shared by the storefront, the
+ * admin bundle form and the server-side pricing service.
+ *
+ * Features:
+ * - Bundle price from fixed or percentage pricing
+ * - Savings against the individual product prices
+ * - Proportional split of a bundle price across its products
+ */
+
+import type { BundlePricingType } from '@/lib/db/models/Bundle';
+
+export interface BundlePricingRule {
+    pricingType: BundlePricingType;
+    bundlePrice?: number;
+    discountPercentage?: number;
+}
+
+export const BUNDLE_PRICING_TYPE_LABELS: Record<BundlePricingType, string> = {
+    fixed: 'سعر ثابت للبكج',
+    percentage: 'نسبة خصم من أسعار المنتجات'
+};
+
+/**
+ * Round a currency amount to cents
+ */
+function roundCents(value: number): number {
+    return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Calculate the price of a bundle
+ * @param individualTotal - Sum of the products' current (final) prices
+ * @param rule - The bundle's pricing settings
+ * @returns The bundle price, never above the individual total
+ */
+export function calculateBundlePrice(individualTotal: number, rule: BundlePricingRule): number {
+    const price = rule.pricingType === 'fixed'
+        ? rule.bundlePrice ?? individualTotal
+        : individualTotal * (1 - (rule.discountPercentage ?? 0) / 100);
+
+    return roundCents(Math.max(0, Math.min(price, individualTotal)));
+}
+
+/**
+ * Calculate the percentage saved compared to a reference price
+ * @param referencePrice - Price the customer would otherwise pay
+ * @param bundlePrice - The bundle price
+ * @returns Whole percentage saved (0 when nothing is saved)
+ */
+export function calculateBundleSavingsPercentage(referencePrice: number, bundlePrice: number): number {
+    if (referencePrice <= 0 || bundlePrice >= referencePrice) return 0;
+    return Math.round(((referencePrice - bundlePrice) / referencePrice) * 100);
+}
+
+/**
+ * Split a bundle price across its products in proportion to their prices
+ * @param bundlePrice - The bundle price to split
+ * @param weights - The products' individual prices, in bundle order
+ * @returns One share per product; the last share absorbs rounding remainders
+ */
+export function splitBundlePrice(bundlePrice: number, weights: number[]): number[] {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    let remaining = roundCents(bundlePrice);
+
+    return weights.map((weight, index) => {
+        if (index === weights.length - 1) {
+            return remaining;
+        }
+
+        const share = roundCents(totalWeight > 0
+            ? (weight / totalWeight) * bundlePrice
+            : bundlePrice / weights.length);
+        remaining = roundCents(remaining - share);
+        return share;
+    });
+}
@@ -0,0 +1,144 @@
+/**
+ * Currency Utilities
+ *
+ * This file contains the display currencies offered to customers and the
+ * helpers used to convert and format prices in them. Shared by the
+ * storefront, the admin settings page and the server.
+ *
+ * Rules:
+ * - Prices are stored and charged in the base currency (PayPal settles in it)
+ * - Other currencies are display-only, using admin-managed exchange rates
+ * - A rate is how many units of the currency equal one unit of the base
+ */
+
+import type { CurrencyCode, ICurrencyRate } from '@/lib/db/models/SiteSettings'
+
+export type { CurrencyCode }
+
+export interface CurrencyDefinition {
+    code: CurrencyCode
+    name: string     // Arabic name shown in the switcher
+    locale: string   // Intl locale used to format amounts
+    decimals: number // Minor units, e.g. 3 for KWD
+}
+
+export interface DisplayCurrency {
+    code: string
+    rate: number
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyDefinition> = {
+    USD: { code: 'USD', name: 'دولار أمريكي', locale: 'en-US', decimals: 2 },
+    SAR: { code: 'SAR', name: 'ريال سعودي', locale: 'ar-SA-u-nu-latn', decimals: 2 },
+    AED: { code: 'AED', name: 'درهم إماراتي', locale: 'ar-AE-u-nu-latn', decimals: 2 },
+    KWD: { code: 'KWD', name: 'دينار كويتي', locale: 'ar-KW-u-nu-latn', decimals: 3 },
+    QAR: { code: 'QAR', name: 'ريال قطري', locale: 'ar-QA-u-nu-latn', decimals: 2 },
+    BHD: { code: 'BHD', name: 'دينار بحريني', locale: 'ar-BH-u-nu-latn', decimals: 3 },
+    OMR: { code: 'OMR', name: 'ريال عماني', locale: 'ar-OM-u-nu-latn', decimals: 3 },
+    EGP: { code: 'EGP', name: 'جنيه مصري', locale: 'ar-EG-u-nu-latn', decimals: 2 },
+    EUR: { code: 'EUR', name: 'يورو', locale: 'en-IE', decimals: 2 },
+}
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[]
+
+// Currency prices are stored in and PayPal settles in
+export const BASE_CURRENCY: CurrencyCode = isCurrencyCode(process.env.NEXT_PUBLIC_BASE_CURRENCY)
+    ? process.env.NEXT_PUBLIC_BASE_CURRENCY
+    : 'USD'
+
+export const CURRENCY_STORAGE_KEY = 'prestige-designs-currency'
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CURRENCIES, value)
+}
+
+/**
+ * Convert a base-currency amount for display, rounded to the currency's minor units
+ */
+export function convertPrice(amount: number, currency: DisplayCurrency): number {
+    const decimals = isCurrencyCode(currency.code) ? CURRENCIES[currency.code].decimals : 2
+    const factor = 10 ** decimals
+    return Math.round(amount * currency.rate * factor) / factor
+}
+
+/**
+ * Format an amount that is already in the given currency
+ * @example formatCurrency(37.5, 'SAR') // "37.50 ر.س."
+ */
+export function formatCurrency(amount: number, code: string = BASE_CURRENCY): string {
+    const definition = isCurrencyCode(code) ? CURRENCIES[code] : undefined
+    return new Intl.NumberFormat(definition?.locale || 'en-US', {
+        style: 'currency',
+        currency: code,
+        minimumFractionDigits: definition?.decimals ?? 2,
+        maximumFractionDigits: definition?.decimals ?? 2,
+    }).format(amount)
+}
+
+/**
+ * Convert a base-currency amount and format it in the display currency
+ */
+export function formatInCurrency(amount: number, currency: DisplayCurrency): string {
+    return formatCurrency(convertPrice(amount, currency), currency.code)
+}
+
+/**
+ * Read exchange rates from an imported JSON file
+ *
+ * Accepts the common provider layouts:
+ * - { "base": "USD", "rates": { "SAR": 3.75, ... } }
+ * - { "base_code": "USD", "conversion_rates": { ... } }
+ * - { "SAR": 3.75, ... }
+ * Unknown currencies are ignored; the base currency always has rate 1.
+ */
+export function parseRatesFile(
+    data: unknown
+): { success: true; rates: Partial<Record<CurrencyCode, number>> } | { success: false; error: string } {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { success: false, error: 'The file must contain a JSON object' }
+    }
+
+    const file = data as Record<string, unknown>
+    const base = file.base ?? file.base_code ?? file.source
+    if (base !== undefined && String(base).toUpperCase() !== BASE_CURRENCY) {
+        return { success: false, error: `Rates must be relative to ${BASE_CURRENCY}, the file uses ${String(base)}` }
+    }
+
+    const source = (file.rates ?? file.conversion_rates ?? file) as Record<string, unknown>
+    if (!source || typeof source !== 'object') {
+        return { success: false, error: 'No rates found in the file' }
+    }
+
+    const rates: Partial<Record<CurrencyCode, number>> = {}
+    for (const [code, value] of Object.entries(source)) {
+        const upper = code.toUpperCase()
+        if (!isCurrencyCode(upper) || upper === BASE_CURRENCY) {
+            continue
+        }
+        const rate = typeof value === 'string' ? Number(value) : value
+        if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+            return { success: false, error: `Invalid rate for ${upper}` }
+        }
+        rates[upper] = rate
+    }
+
+    if (Object.keys(rates).length === 0) {
+        return { success: false, error: 'No supported currencies found in the file' }
+    }
+
+    return { success: true, rates }
+}
+
+/**
+ * Merge saved exchange rates with the supported currencies
+ * @returns One entry per supported currency; the base is always enabled at rate 1
+ */
+export function resolveCurrencyRates(saved?: ICurrencyRate[]): ICurrencyRate[] {
+    return CURRENCY_CODES.map((code) => {
+        if (code === BASE_CURRENCY) {
+            return { code, rate: 1, enabled: true }
+        }
+        const rate = saved?.find((r) => r.code === code)
+        return rate && rate.rate > 0 ? { code, rate: rate.rate, enabled: rate.enabled } : { code, rate: 0, enabled: false }
+    })
+}
@@ -0,0 +1,192 @@
+/**
+ * Customization Field Utilities
+ *
+ * This file contains the shared logic for product-defined customization
+ * fields: the schema admins build in the product editor and the checks that
+ * a customer's answers satisfy it. It has no server dependencies, so the
+ * customization form and /api/orders/create run exactly the same rules.
+ * The server passes in image sizes read from Cloudinary instead of the ones
+ * the client reports.
+ *
+ * Features:
+ * - Zod schema for field definitions (used by the product APIs)
+ * - Validation of customer answers (required, max length, options, resolution)
+ * - Telling listings which products must be customized before ordering
+ * - Mirroring answers into the legacy textChanges / uploadedImages / uploadedLogo
+ *   arrays that delivery, emails and the admin order page already read
+ */
+
+import { z } from 'zod';
+import type { CustomizationFieldType, ICustomizationField } from '@/lib/db/models/Product';
+import type { ICustomizationFieldValue } from '@/lib/db/models/Order';
+
+// Folder the customer upload API stores customization images in
+const CUSTOMER_UPLOAD_FOLDER = 'customer-uploads/';
+
+const HEX_COLOR_REGEX = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+
+export const CUSTOMIZATION_FIELD_TYPES: CustomizationFieldType[] = ['text', 'image', 'select', 'logo', 'color'];
+
+export const CUSTOMIZATION_FIELD_TYPE_LABELS: Record<CustomizationFieldType, string> = {
+    text: 'نص',
+    image: 'صورة',
+    select: 'قائمة اختيار',
+    logo: 'شعار',
+    color: 'لون'
+};
+
+// Field definition as accepted by the admin product APIs
+export const customizationFieldSchema = z.object({
+    key: z.string().trim().min(1).max(50).regex(/^[a-z0-9_]+$/, 'Field key can only contain lowercase letters, numbers, and underscores'),
+    label: z.string().trim().min(1).max(100),
+    type: z.enum(['text', 'image', 'select', 'logo', 'color']),
+    required: z.boolean().default(false),
+    helpText: z.string().trim().max(300).optional(),
+    maxLength: z.number().int().min(1).max(5000).optional(),
+    options: z.array(z.string().trim().min(1).max(100)).optional(),
+    minWidth: z.number().int().min(0).optional(),
+    minHeight: z.number().int().min(0).optional()
+}).refine(
+    field => field.type !== 'select' || (field.options?.length ?? 0) > 0,
+    { message: 'Select fields need at least one option', path: ['options'] }
+);
+
+export const customizationFieldsSchema = z.array(customizationFieldSchema).max(30).refine(
+    fields => new Set(fields.map(field => field.key)).size === fields.length,
+    { message: 'Customization field keys must be unique' }
+);
+
+// Stored URL and dimensions of an uploaded image, as reported by Cloudinary
+export interface UploadedImageDetails {
+    url: string;
+    width: number;
+    height: number;
+}
+
+export interface CustomizationValidationResult {
+    valid: boolean;
+    errors: Record<string, string>;        // Arabic error message keyed by field key
+    values: ICustomizationFieldValue[];    // Answers in schema order, labels taken from the schema
+}
+
+/**
+ * Validate customer answers against a product's customization fields.
+ * Answers for unknown keys are dropped; labels and types always come from the schema.
+ * @param allowedColors - Hex values a color field must pick from (omit to allow any color)
+ * @param uploads - Server-verified image details keyed by publicId; when given, the
+ *   client's url, width and height are ignored (omit on the client)
+ */
+export function validateCustomizationValues(
+    fields: ICustomizationField[],
+    answers: Partial<ICustomizationFieldValue>[] = [],
+    allowedColors?: string[],
+    uploads?: Map<string, UploadedImageDetails>
+): CustomizationValidationResult {
+    const errors: Record<string, string> = {};
+    const values: ICustomizationFieldValue[] = [];
+    const answersByKey = new Map(answers.filter(answer => answer?.key).map(answer => [answer.key as string, answer]));
+
+    for (const field of fields) {
+        const answer = answersByKey.get(field.key);
+        const base = { key: field.key, label: field.label, type: field.type };
+
+        if (field.type === 'image' || field.type === 'logo') {
+            if (!answer?.url || !answer.publicId) {
+                if (field.required) {
+                    errors[field.key] = `يرجى رفع ${field.label}`;
+                }
+                continue;
+            }
+
+            const upload = uploads
+                ? uploads.get(answer.publicId)
+                : { url: answer.url, width: Number(answer.width) || 0, height: Number(answer.height) || 0 };
+
+            if (!isCustomerUpload(answer.publicId) || !upload) {
+                errors[field.key] = `ملف ${field.label} غير صالح، يرجى رفعه مرة أخرى`;
+                continue;
+            }
+
+            const { url, width, height } = upload;
+            if ((field.minWidth && width < field.minWidth) || (field.minHeight && height < field.minHeight)) {
+                errors[field.key] = `دقة ${field.label} منخفضة (${width}×${height}). الحد الأدنى ${field.minWidth || 0}×${field.minHeight || 0} بكسل`;
+                continue;
+            }
+
+            values.push({ ...base, url, publicId: answer.publicId, width, height });
+            continue;
+        }
+
+        const value = typeof answer?.value === 'string' ? answer.value.trim() : '';
+        if (!value) {
+            if (field.required) {
+                errors[field.key] = field.type === 'text' ? `يرجى إدخال ${field.label}` : `يرجى اختيار ${field.label}`;
+            }
+            continue;
+        }
+
+        if (field.type === 'text' && field.maxLength && value.length > field.maxLength) {
+            errors[field.key] = `${field.label} يجب ألا يتجاوز ${field.maxLength} حرفاً`;
+            continue;
+        }
+
+        if (field.type === 'select' && !(field.options || []).includes(value)) {
+            errors[field.key] = `قيمة ${field.label} غير متاحة`;
+            continue;
+        }
+
+        if (field.type === 'color') {
+            const isAllowed = allowedColors && allowedColors.length > 0
+                ? allowedColors.some(hex => hex.toLowerCase() === value.toLowerCase())
+                : HEX_COLOR_REGEX.test(value);
+            if (!isAllowed) {
+                errors[field.key] = `لون ${field.label} غير متاح`;
+                continue;
+            }
+        }
+
+        values.push({ ...base, value });
+    }
+
+    return { valid: Object.keys(errors).length === 0, errors, values };
+}
+
+/**
+ * Whether a Cloudinary public ID belongs to the customer upload folder
+ */
+export function isCustomerUpload(publicId: string): boolean {
+    return publicId.startsWith(CUSTOMER_UPLOAD_FOLDER);
+}
+
+/**
+ * Whether a product can only be ordered with answers to its customization
+ * fields, in which case it cannot be quick-added from a product listing
+ */
+export function requiresCustomizationAnswers(product: {
+    EnableCustomizations?: boolean;
+    customizationFields?: Pick<ICustomizationField, 'required'>[];
+}): boolean {
+    return !!product.EnableCustomizations && (product.customizationFields ?? []).some(field => field.required);
+}
+
+/**
+ * Mirror structured answers into the legacy customization arrays, so code
+ * that predates customization fields keeps seeing the customer's input
+ */
+export function toLegacyCustomizations(values: ICustomizationFieldValue[]): {
+    textChanges: { field: string; value: string }[];
+    uploadedImages: { url: string; publicId: string }[];
+    uploadedLogo?: { url: string; publicId: string };
+} {
+    const logo = values.find(value => value.type === 'logo' && value.url && value.publicId);
+
+    return {
+        textChanges: values
+            .filter(value => value.value && value.type !== 'image' && value.type !== 'logo')
+            .map(value => ({ field: value.label, value: value.value as string })),
+        uploadedImages: values
+            .filter(value => value.type === 'image' && value.url && value.publicId)
+            .map(value => ({ url: value.url as string, publicId: value.publicId as string })),
+        uploadedLogo: logo ? { url: logo.url as string, publicId: logo.publicId as string } : undefined
+    };
+}
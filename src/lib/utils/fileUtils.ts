@@ -1,7 +1,8 @@
 /**
  * File Management Utilities
  * 
- * This file contains utility functions for local file storage operations.
+ * This file contains utility functions for design file storage operations.
+ * Reads and writes go through the configured StorageProvider.
  * 
  * Features:
  * - File deletion and cleanup
@@ -11,15 +12,15 @@
  * - File organization
  */
 
-import { writeFile, mkdir, unlink, stat, access } from 'fs/promises';
-import { existsSync } from 'fs';
 import path from 'path';
+import { getStorageProvider, storageKeyFromUrl, storageUrlFromKey, StorageDriver } from '@/lib/storage';
 
 export interface FileUploadResult {
     fileName: string;
     fileUrl: string;
-    filePath: string;
+    filePath: string;                // Storage key
     fileSize: number;
+    storageDriver: StorageDriver;
 }
 
 export interface UploadOptions {
@@ -32,7 +33,7 @@ export interface UploadOptions {
 
 export class FileUtils {
     /**
-     * Upload a file to local storage
+     * Upload a file to the configured storage backend
      */
     static async uploadFile(
         file: Buffer,
@@ -40,28 +41,21 @@ export class FileUtils {
         uploadPath: string
     ): Promise<FileUploadResult> {
         try {
-            // Create directory structure
-            const fullUploadPath = path.join(process.cwd(), 'public', uploadPath);
-            await mkdir(fullUploadPath, { recursive: true });
+            const storage = getStorageProvider();
 
             // Generate unique filename
             const timestamp = Date.now();
-            const fileExtension = path.extname(originalName);
             const fileName = `${timestamp}_${originalName}`;
-            const filePath = path.join(fullUploadPath, fileName);
+            const key = path.posix.join(uploadPath.split(path.sep).join('/'), fileName);
 
-            // Write file to local storage
-            await writeFile(filePath, file);
-
-            // Create relative URL for database
-            const relativePath = path.join(uploadPath, fileName);
-            const fileUrl = `/${relativePath.replace(/\\/g, '/')}`;
+            await storage.put(key, file, this.getMimeType(originalName));
 
             return {
                 fileName: originalName,
-                fileUrl,
-                filePath,
-                fileSize: file.length
+                fileUrl: storageUrlFromKey(key),
+                filePath: key,
+                fileSize: file.length,
+                storageDriver: storage.driver
             };
         } catch (error) {
             console.error('Error uploading file:', error);
@@ -159,23 +153,15 @@ export class FileUtils {
     }
 
     /**
-     * Delete a file from local storage
-             */
-    static async deleteFile(fileUrl: string): Promise<boolean> {
+     * Delete a file from storage
+     */
+    static async deleteFile(fileUrl: string, driver?: StorageDriver): Promise<boolean> {
         try {
-            const filePath = path.join(process.cwd(), 'public', fileUrl.substring(1));
-
-            // Check if file exists
-            try {
-                await stat(filePath);
-            } catch (error) {
-                console.log('File not found for deletion:', filePath);
-                return false;
+            const deleted = await getStorageProvider(driver).delete(storageKeyFromUrl(fileUrl));
+            if (!deleted) {
+                console.log('File not found for deletion:', fileUrl);
             }
-
-            // Delete the file
-            await unlink(filePath);
-            return true;
+            return deleted;
         } catch (error) {
             console.error('Error deleting file:', error);
             return false;
@@ -183,26 +169,23 @@ export class FileUtils {
     }
 
     /**
-             * Check if file exists
-             */
-    static async fileExists(fileUrl: string): Promise<boolean> {
+     * Check if file exists
+     */
+    static async fileExists(fileUrl: string, driver?: StorageDriver): Promise<boolean> {
         try {
-            const filePath = path.join(process.cwd(), 'public', fileUrl.substring(1));
-            await stat(filePath);
-            return true;
+            return !!(await getStorageProvider(driver).stat(storageKeyFromUrl(fileUrl)));
         } catch (error) {
             return false;
         }
     }
 
     /**
-             * Get file size
-             */
-    static async getFileSize(fileUrl: string): Promise<number> {
+     * Get file size
+     */
+    static async getFileSize(fileUrl: string, driver?: StorageDriver): Promise<number> {
         try {
-            const filePath = path.join(process.cwd(), 'public', fileUrl.substring(1));
-            const stats = await stat(filePath);
-            return stats.size;
+            const info = await getStorageProvider(driver).stat(storageKeyFromUrl(fileUrl));
+            return info?.size ?? 0;
         } catch (error) {
             console.error('Error getting file size:', error);
             return 0;
@@ -293,13 +276,3 @@ export function isVideoFile(fileName: string): boolean {
     const extension = path.extname(fileName).toLowerCase().substring(1);
     return videoExtensions.includes(extension);
 }
-
-export function getDesignFilePath(fileUrl: string): string {
-    // Remove leading slash if present and construct full path
-    const relativePath = fileUrl.startsWith('/') ? fileUrl.substring(1) : fileUrl;
-    return path.join(process.cwd(), 'public', relativePath);
-}
-
-export function fileExists(filePath: string): boolean {
-    return existsSync(filePath);
-} 
\ No newline at end of file
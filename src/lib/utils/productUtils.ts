@@ -14,21 +14,10 @@
  */
 
 import { IProduct, IProductImage, IColorTheme } from '@/lib/db/models/Product';
+import { BASE_CURRENCY, formatCurrency } from '@/lib/utils/currencyUtils';
 
-/**
- * Generate a URL-friendly slug from a string
- * @param text - The text to convert to a slug
- * @returns A URL-friendly slug
- */
-export function generateSlug(text: string): string {
-    return text
-        .toLowerCase()
-        .trim()
-        .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-        .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
-}
+// Slug generation lives in slugUtils so client components can use it too
+export { generateSlug } from './slugUtils';
 
 /**
  * Calculate final price based on base price and discount
@@ -163,14 +152,11 @@ export function generateYouTubeEmbedUrl(videoId: string): string {
 /**
  * Format price for display
  * @param price - Price to format
- * @param currency - Currency code (default: USD)
+ * @param currency - Currency code (default: base currency)
  * @returns Formatted price string
  */
-export function formatPrice(price: number, currency: string = 'USD'): string {
-    return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: currency
-    }).format(price);
+export function formatPrice(price: number, currency: string = BASE_CURRENCY): string {
+    return formatCurrency(price, currency);
 }
 
 /**
@@ -381,6 +367,8 @@ export function sanitizeProductForResponse(product: IProduct): Partial<IProduct>
         allowTextEditing: product.allowTextEditing,
         allowImageReplacement: product.allowImageReplacement,
         allowLogoUpload: product.allowLogoUpload,
+        revisionRounds: product.revisionRounds,
+        customizationFields: product.customizationFields,
         colors: product.colors,
         categoryId: product.categoryId,
         tags: product.tags,
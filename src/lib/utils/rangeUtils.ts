@@ -0,0 +1,166 @@
+/**
+ * HTTP Range Utilities
+ *
+ * This file contains helpers for serving stored files with HTTP range support,
+ * shared by the design file download and streaming routes.
+ *
+ * Features:
+ * - Range header parsing (single ranges, open-ended and suffix ranges)
+ * - If-Range / If-None-Match validation against ETag and Last-Modified
+ * - Streaming responses (200 / 206 / 304 / 416) from any storage backend
+ * - Detection of resumed downloads so they are not counted twice
+ */
+
+import { NextResponse } from 'next/server';
+import { ByteRange, StorageObjectInfo, StorageProvider } from '@/lib/storage';
+
+export type RangeParseResult =
+    | { type: 'none' }
+    | { type: 'range'; range: ByteRange }
+    | { type: 'unsatisfiable' };
+
+export interface StorageFileResponseOptions {
+    storage: StorageProvider;
+    storageKey: string;
+    fileInfo: StorageObjectInfo;
+    contentType: string;
+    // Filename for Content-Disposition: attachment; omitted for inline streaming
+    downloadFileName?: string;
+    cacheControl?: string;
+}
+
+/**
+ * Parse a Range header for a file of the given size.
+ * Multiple ranges are not supported and fall back to a full response.
+ */
+export function parseRangeHeader(rangeHeader: string | null, fileSize: number): RangeParseResult {
+    if (!rangeHeader) {
+        return { type: 'none' };
+    }
+
+    const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+    if (!match || (!match[1] && !match[2])) {
+        return { type: 'none' };
+    }
+
+    let start: number;
+    let end: number;
+
+    if (!match[1]) {
+        // Suffix range: the last N bytes
+        const suffixLength = parseInt(match[2], 10);
+        if (suffixLength === 0) {
+            return { type: 'unsatisfiable' };
+        }
+        start = Math.max(fileSize - suffixLength, 0);
+        end = fileSize - 1;
+    } else {
+        start = parseInt(match[1], 10);
+        end = match[2] ? Math.min(parseInt(match[2], 10), fileSize - 1) : fileSize - 1;
+    }
+
+    if (start >= fileSize || start > end) {
+        return { type: 'unsatisfiable' };
+    }
+
+    return { type: 'range', range: { start, end } };
+}
+
+/**
+ * ETag for a stored file; derived from size and mtime when the backend has none
+ */
+export function getFileETag(fileInfo: StorageObjectInfo): string {
+    return fileInfo.etag || `"${fileInfo.size.toString(16)}-${fileInfo.lastModified.getTime().toString(16)}"`;
+}
+
+/**
+ * Check an If-Range validator; a stale validator means the full file must be sent
+ */
+export function isIfRangeFresh(ifRange: string | null, fileInfo: StorageObjectInfo): boolean {
+    if (!ifRange) {
+        return true;
+    }
+
+    if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+        // Strong comparison is required for If-Range, so weak validators never match
+        return !ifRange.startsWith('W/') && ifRange === getFileETag(fileInfo);
+    }
+
+    const since = Date.parse(ifRange);
+    return !Number.isNaN(since) && Math.floor(fileInfo.lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+}
+
+/**
+ * Whether a request continues a download that was already started
+ * (a range that does not begin at the first byte)
+ */
+export function isResumedDownload(request: Request): boolean {
+    const rangeHeader = request.headers.get('range');
+    if (!rangeHeader) {
+        return false;
+    }
+
+    const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+    if (!match) {
+        return false;
+    }
+
+    return !match[1] || parseInt(match[1], 10) > 0;
+}
+
+/**
+ * Stream a stored file, honouring Range, If-Range and If-None-Match
+ */
+export async function createStorageFileResponse(
+    request: Request,
+    options: StorageFileResponseOptions
+): Promise<NextResponse> {
+    const { storage, storageKey, fileInfo, contentType, downloadFileName } = options;
+    const fileSize = fileInfo.size;
+    const etag = getFileETag(fileInfo);
+
+    const headers = new Headers();
+    headers.set('Content-Type', contentType || 'application/octet-stream');
+    headers.set('Accept-Ranges', 'bytes');
+    headers.set('ETag', etag);
+    headers.set('Last-Modified', fileInfo.lastModified.toUTCString());
+    headers.set('Cache-Control', options.cacheControl || 'private, no-cache');
+
+    if (downloadFileName) {
+        // Use RFC 6266 encoding for non-ASCII (e.g. Arabic) filenames
+        const sanitizedFileName = downloadFileName.replace(/[^\w\s\-_.]/g, '');
+        const encodedFileName = encodeURIComponent(downloadFileName);
+        headers.set('Content-Disposition',
+            `attachment; filename="${sanitizedFileName}"; filename*=UTF-8''${encodedFileName}`
+        );
+    }
+
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && ifNoneMatch.split(',').map(tag => tag.trim().replace(/^W\//, '')).includes(etag)) {
+        return new NextResponse(null, { status: 304, headers });
+    }
+
+    const rangeResult = isIfRangeFresh(request.headers.get('if-range'), fileInfo)
+        ? parseRangeHeader(request.headers.get('range'), fileSize)
+        : { type: 'none' as const };
+
+    if (rangeResult.type === 'unsatisfiable') {
+        headers.set('Content-Range', `bytes */${fileSize}`);
+        return new NextResponse('Range Not Satisfiable', { status: 416, headers });
+    }
+
+    if (rangeResult.type === 'range') {
+        const { start, end } = rangeResult.range;
+        const stream = await storage.createReadStream(storageKey, { start, end });
+
+        headers.set('Content-Range', `bytes ${start}-${end}/${fileSize}`);
+        headers.set('Content-Length', (end - start + 1).toString());
+
+        return new NextResponse(stream, { status: 206, headers });
+    }
+
+    const stream = await storage.createReadStream(storageKey);
+    headers.set('Content-Length', fileSize.toString());
+
+    return new NextResponse(stream, { status: 200, headers });
+}
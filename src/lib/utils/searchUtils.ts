@@ -0,0 +1,132 @@
+/**
+ * Search Text Utilities
+ *
+ * This file contains the text handling behind product search. Arabic and
+ * English text is reduced to comparable tokens so that spelling variants
+ * of the same word match each other.
+ *
+ * Features:
+ * - Arabic normalization (diacritics, tatweel, alef/hamza forms, ta marbuta, alef maqsura)
+ * - Latin normalization (case, accents) and Arabic-Indic digits
+ * - Light stemming of Arabic prefixes/suffixes and English plurals
+ * - Edit distance for typo tolerance
+ */
+
+// Harakat, tanween, shadda, sukun, superscript alef and Quranic marks
+const ARABIC_DIACRITICS_REGEX = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL_REGEX = /\u0640/g;
+const LATIN_ACCENTS_REGEX = /[\u0300-\u036F]/g;
+
+const ARABIC_CHAR_MAP: Record<string, string> = {
+    'أ': 'ا',
+    'إ': 'ا',
+    'آ': 'ا',
+    'ٱ': 'ا',
+    'ى': 'ي',
+    'ئ': 'ي',
+    'ؤ': 'و',
+    'ة': 'ه'
+};
+
+// Definite article and attached prepositions, longest first. Matched on the
+// word as written: once hamza is folded into alef, ألوان and ألعاب would
+// look like they start with the article
+const ARABIC_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+const ARABIC_SUFFIXES = ['ات', 'ون', 'ين', 'ان', 'ها', 'يه', 'ه', 'ي'];
+
+/**
+ * Normalize text for comparison: lowercase, no diacritics or punctuation,
+ * unified Arabic letter forms and Western digits
+ */
+export function normalizeSearchText(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(LATIN_ACCENTS_REGEX, '')
+        .replace(ARABIC_DIACRITICS_REGEX, '')
+        .replace(TATWEEL_REGEX, '')
+        .replace(/[أإآٱىئؤة]/g, char => ARABIC_CHAR_MAP[char])
+        .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+        .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+/**
+ * Strip the definite article (and attached preposition) from a word before
+ * normalization, e.g. الألوان -> ألوان while ألوان is left alone
+ */
+export function stripArabicPrefix(word: string): string {
+    const bare = word.replace(ARABIC_DIACRITICS_REGEX, '').replace(TATWEEL_REGEX, '');
+    const prefix = ARABIC_PREFIXES.find(p => bare.startsWith(p) && bare.length - p.length >= 2);
+    return prefix ? bare.slice(prefix.length) : word;
+}
+
+/**
+ * Reduce a normalized word to a rough stem so singular/plural forms meet;
+ * Arabic prefixes are handled earlier by stripArabicPrefix
+ */
+export function stemSearchToken(token: string): string {
+    if (/[\u0600-\u06FF]/.test(token)) {
+        let stem = token;
+        const suffix = ARABIC_SUFFIXES.find(s => stem.endsWith(s) && stem.length - s.length >= 3);
+        if (suffix) {
+            stem = stem.slice(0, -suffix.length);
+        }
+        return stem;
+    }
+
+    if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+    if (token.length > 4 && /(ses|xes|ches|shes)$/.test(token)) return token.slice(0, -2);
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+    return token;
+}
+
+/**
+ * Split text into normalized, stemmed, de-duplicated tokens
+ */
+export function tokenizeSearchText(text: string): string[] {
+    const tokens = text
+        .normalize('NFC')
+        .split(/[^\p{L}\p{M}\p{N}]+/u)
+        .flatMap(word => normalizeSearchText(stripArabicPrefix(word)).split(' '))
+        .map(stemSearchToken)
+        .filter(Boolean);
+    return [...new Set(tokens)];
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent letters as one typo each; gives up once it exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance = 2): number {
+    if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > maxDistance) return maxDistance + 1;
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Typos allowed for a query token of the given length
+ */
+export function allowedTypos(length: number): number {
+    if (length >= 8) return 2;
+    if (length >= 4) return 1;
+    return 0;
+}
@@ -0,0 +1,81 @@
+/**
+ * Slug Utilities
+ *
+ * This file contains the URL slug generation shared by the admin forms and
+ * the Product/Category models. Arabic names are transliterated to Latin
+ * letters so slugs stay readable, ASCII-only and safe for storage paths.
+ *
+ * Features:
+ * - Arabic (and Persian letter) transliteration
+ * - Accent stripping for Latin text
+ * - Arabic-Indic digit conversion
+ * - Length limiting on word boundaries
+ */
+
+export const MAX_SLUG_LENGTH = 80;
+
+const ARABIC_DIACRITICS_REGEX = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL_REGEX = /\u0640/g;
+const LATIN_ACCENTS_REGEX = /[\u0300-\u036F]/g;
+
+const ARABIC_TRANSLITERATION: Record<string, string> = {
+    'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ٱ': 'a', 'ء': '', 'ؤ': 'o', 'ئ': 'e',
+    'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh',
+    'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh',
+    'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': 'a', 'غ': 'gh',
+    'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n',
+    'ه': 'h', 'ة': 'a', 'ى': 'a',
+    'پ': 'p', 'چ': 'ch', 'ژ': 'zh', 'گ': 'g', 'ک': 'k', 'ی': 'y'
+};
+
+// Waw and ya are consonants at the start of a word and long vowels elsewhere
+const ARABIC_SEMIVOWELS: Record<string, [string, string]> = {
+    'و': ['w', 'u'],
+    'ي': ['y', 'i']
+};
+
+/**
+ * Transliterate Arabic script to Latin letters, leaving other text untouched
+ */
+export function transliterateArabic(text: string): string {
+    const clean = text
+        .replace(ARABIC_DIACRITICS_REGEX, '')
+        .replace(TATWEEL_REGEX, '')
+        .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+        .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0));
+
+    let result = '';
+    for (let i = 0; i < clean.length; i++) {
+        const char = clean[i];
+        const semivowel = ARABIC_SEMIVOWELS[char];
+        if (semivowel) {
+            const atWordStart = i === 0 || !/[\u0600-\u06FF]/.test(clean[i - 1]);
+            result += atWordStart ? semivowel[0] : semivowel[1];
+        } else {
+            result += ARABIC_TRANSLITERATION[char] ?? char;
+        }
+    }
+    return result;
+}
+
+/**
+ * Generate a URL-friendly slug from a string
+ * @param text - The text to convert to a slug (Arabic or Latin)
+ * @returns A lowercase slug of [a-z0-9-], empty if nothing usable remains
+ */
+export function generateSlug(text: string): string {
+    const slug = transliterateArabic(text)
+        .normalize('NFKD')
+        .replace(LATIN_ACCENTS_REGEX, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-') // Anything else separates words
+        .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
+
+    if (slug.length <= MAX_SLUG_LENGTH) {
+        return slug;
+    }
+
+    const truncated = slug.slice(0, MAX_SLUG_LENGTH);
+    const lastHyphen = truncated.lastIndexOf('-');
+    return (lastHyphen > MAX_SLUG_LENGTH / 2 ? truncated.slice(0, lastHyphen) : truncated).replace(/-+$/, '');
+}
@@ -0,0 +1,137 @@
+/**
+ * Store Statistics Utilities
+ *
+ * This file contains the homepage statistics definitions and display rules
+ * shared by the public stats endpoint and the admin settings page.
+ *
+ * Features:
+ * - Default labels, icons and colors for every metric
+ * - Merging saved settings with the defaults
+ * - Rounding and "+" display rules (537 -> "+500")
+ * - Minimum thresholds that hide small numbers
+ */
+
+import type { IStoreStatMetric, StoreStatKey } from '@/lib/db/models/SiteSettings'
+
+export interface StoreStatDefinition {
+    label: string
+    subtitle: string
+    description: string // Shown to admins when picking metrics
+    icon: string
+    color: string
+}
+
+export interface StoreStatsSettings {
+    metrics: IStoreStatMetric[]
+    revalidateSeconds: number
+}
+
+export const STORE_STAT_DEFINITIONS: Record<StoreStatKey, StoreStatDefinition> = {
+    sales: {
+        label: 'مبيعات المتجر',
+        subtitle: 'طلب مكتمل',
+        description: 'عدد الطلبات المدفوعة (بدون الملغاة والمستردة)',
+        icon: '📈',
+        color: 'var(--color-lime-accent)',
+    },
+    customers: {
+        label: 'العملاء',
+        subtitle: 'عميل سعيد',
+        description: 'عدد العملاء الذين لديهم طلب مدفوع',
+        icon: '🤝',
+        color: 'var(--color-pink-accent)',
+    },
+    designsDelivered: {
+        label: 'التصاميم المسلّمة',
+        subtitle: 'تصميم',
+        description: 'مجموع المنتجات في الطلبات المكتملة',
+        icon: '📦',
+        color: 'var(--color-purple-primary)',
+    },
+    products: {
+        label: 'المنتجات',
+        subtitle: 'تصميم جاهز',
+        description: 'عدد المنتجات النشطة',
+        icon: '🖼️',
+        color: 'var(--color-lime-accent)',
+    },
+    categories: {
+        label: 'الاقسام',
+        subtitle: 'قسم',
+        description: 'عدد التصنيفات النشطة',
+        icon: '🎨',
+        color: 'var(--color-purple-primary)',
+    },
+    reviews: {
+        label: 'التقييمات',
+        subtitle: 'تقييم من عملائنا',
+        description: 'عدد التقييمات المعتمدة',
+        icon: '💬',
+        color: 'var(--color-purple-primary)',
+    },
+    averageRating: {
+        label: 'متوسط التقييم',
+        subtitle: 'من 5',
+        description: 'متوسط نجوم التقييمات المعتمدة',
+        icon: '⭐',
+        color: 'var(--color-pink-accent)',
+    },
+}
+
+export const STORE_STAT_KEYS = Object.keys(STORE_STAT_DEFINITIONS) as StoreStatKey[]
+
+// Matches the counters the homepage showed before stats were live
+export const DEFAULT_STORE_STATS_METRICS: IStoreStatMetric[] = STORE_STAT_KEYS.map((key) => ({
+    key,
+    enabled: key === 'sales' || key === 'categories',
+    showPlus: key !== 'averageRating',
+    roundTo: 0,
+    minimum: 0,
+}))
+
+export const DEFAULT_STATS_REVALIDATE_SECONDS = 300
+
+/**
+ * Merge saved stats settings with the defaults
+ * @returns Every metric exactly once, saved ones first in their saved order
+ */
+export function resolveStoreStatsSettings(saved?: {
+    metrics?: IStoreStatMetric[]
+    revalidateSeconds?: number
+}): StoreStatsSettings {
+    const savedMetrics = (saved?.metrics || []).filter(
+        (metric, index, all) =>
+            STORE_STAT_KEYS.includes(metric.key) && all.findIndex((m) => m.key === metric.key) === index
+    )
+    const missing = DEFAULT_STORE_STATS_METRICS.filter(
+        (metric) => !savedMetrics.some((m) => m.key === metric.key)
+    ).map((metric) => (savedMetrics.length > 0 ? { ...metric, enabled: false } : metric))
+
+    return {
+        metrics: [...savedMetrics, ...missing],
+        revalidateSeconds: saved?.revalidateSeconds ?? DEFAULT_STATS_REVALIDATE_SECONDS,
+    }
+}
+
+/**
+ * Apply a metric's display rules to its real value
+ * @returns The text to show, or null when the metric should stay hidden
+ */
+export function formatStatValue(value: number, metric: IStoreStatMetric): string | null {
+    if (!Number.isFinite(value) || value <= 0 || value < (metric.minimum || 0)) {
+        return null
+    }
+
+    // Ratings are shown as-is with one decimal
+    if (metric.key === 'averageRating') {
+        return value.toFixed(1)
+    }
+
+    const rounded = metric.roundTo && metric.roundTo > 1 ? Math.floor(value / metric.roundTo) * metric.roundTo : value
+    if (rounded <= 0) {
+        return null
+    }
+
+    const text = Math.round(rounded).toLocaleString('en-US')
+    return metric.showPlus ? `+${text}` : text
+}
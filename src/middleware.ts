@@ -19,6 +19,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { getToken } from 'next-auth/jwt';
+import { isStaffRole } from '@/lib/auth/permissions';
 
 // Define protected routes
 const ADMIN_ONLY_ROUTES = [
@@ -31,6 +32,9 @@ const PUBLIC_ROUTES = [
     '/auth/signin',
     '/auth/signup',
     '/auth/error',
+    '/auth/forgot-password',
+    '/auth/reset-password',
+    '/auth/verify-email',
     '/api/auth',
     '/api/users/register'
 ];
@@ -91,8 +95,8 @@ export async function middleware(request: NextRequest) {
 
     // If route requires admin access
     if (isAdminRoute) {
-        // Check if user is admin
-        if (token.role !== 'admin') {
+        // Check if user has a staff role (section permissions are enforced by the admin layout and APIs)
+        if (!isStaffRole(token.role as string)) {
             // Redirect to access denied page or home
             const accessDeniedUrl = new URL('/access-denied', request.url);
             return NextResponse.redirect(accessDeniedUrl);